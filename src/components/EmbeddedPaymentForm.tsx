@@ -0,0 +1,220 @@
+import { useEffect, useMemo, useState } from "react";
+import type { PaymentIntent, Stripe } from "@stripe/stripe-js";
+import { Elements, PaymentElement, useElements, useStripe } from "@stripe/react-stripe-js";
+import { Button } from "@/components/ui/button";
+import { Landmark, Loader2, Lock, ShieldCheck } from "lucide-react";
+import { getStripe } from "@/lib/stripe";
+
+export type EmbeddedPaymentOutcome = 'succeeded' | 'processing';
+
+// ready: collecting details
+// confirming: submitted, waiting for Stripe
+// requires-action: the bank is authenticating the payment (3D Secure)
+// ach-pending: the bank account must be verified with micro-deposits before it is debited
+type PaymentFormState = 'ready' | 'confirming' | 'requires-action' | 'ach-pending';
+
+interface EmbeddedPaymentFormProps {
+  clientSecret: string;
+  amountCents: number;
+  currency: string;
+  returnUrl: string;
+  allowWallets?: boolean;
+  onComplete: (outcome: EmbeddedPaymentOutcome) => void;
+  onUnavailable: () => void;
+}
+
+interface PaymentFormProps {
+  clientSecret: string;
+  formattedAmount: string;
+  returnUrl: string;
+  allowWallets: boolean;
+  onComplete: (outcome: EmbeddedPaymentOutcome) => void;
+}
+
+function PaymentForm({ clientSecret, formattedAmount, returnUrl, allowWallets, onComplete }: PaymentFormProps) {
+  const stripe = useStripe();
+  const elements = useElements();
+  const [formState, setFormState] = useState<PaymentFormState>('ready');
+  const [error, setError] = useState<string | null>(null);
+  const [verificationUrl, setVerificationUrl] = useState<string | null>(null);
+
+  const handleIntent = async (paymentIntent: PaymentIntent) => {
+    switch (paymentIntent.status) {
+      case 'succeeded':
+        onComplete('succeeded');
+        return;
+      case 'processing':
+        onComplete('processing');
+        return;
+      case 'requires_action': {
+        if (paymentIntent.next_action?.type === 'verify_with_microdeposits') {
+          setVerificationUrl(paymentIntent.next_action.verify_with_microdeposits?.hosted_verification_url ?? null);
+          setFormState('ach-pending');
+          return;
+        }
+
+        setFormState('requires-action');
+        const { error: actionError, paymentIntent: updatedIntent } = await stripe!.handleNextAction({ clientSecret });
+        if (actionError || !updatedIntent) {
+          setError(actionError?.message || 'Your bank could not verify this payment. Please try again.');
+          setFormState('ready');
+          return;
+        }
+        await handleIntent(updatedIntent);
+        return;
+      }
+      default:
+        // requires_payment_method: the payment was declined, let the patient try another method
+        setError(paymentIntent.last_payment_error?.message || 'Your payment could not be completed. Please try a different payment method.');
+        setFormState('ready');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!stripe || !elements) return;
+
+    setFormState('confirming');
+    setError(null);
+
+    // Cards and instant bank verification stay on this page; anything that needs a
+    // redirect comes back to the enrollment link with Stripe's redirect_status
+    const { error: confirmError, paymentIntent } = await stripe.confirmPayment({
+      elements,
+      confirmParams: { return_url: returnUrl },
+      redirect: 'if_required',
+    });
+
+    if (confirmError) {
+      setError(confirmError.message || 'Your payment could not be completed.');
+      setFormState('ready');
+      return;
+    }
+
+    if (paymentIntent) {
+      await handleIntent(paymentIntent);
+    }
+  };
+
+  if (formState === 'ach-pending') {
+    return (
+      <div className="text-center space-y-4 py-4">
+        <div className="w-14 h-14 rounded-full bg-processing/10 flex items-center justify-center mx-auto">
+          <Landmark className="h-7 w-7 text-processing" />
+        </div>
+        <h3 className="text-lg font-semibold text-foreground">Verify Your Bank Account</h3>
+        <p className="text-sm text-muted-foreground leading-relaxed">
+          We've sent two small deposits to your bank account. They arrive in 1-2 business days.
+          Once they do, confirm the amounts to complete your payment.
+        </p>
+        {verificationUrl && (
+          <Button asChild variant="outline">
+            <a href={verificationUrl} target="_blank" rel="noopener noreferrer">
+              Verify Bank Account
+            </a>
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  const isBusy = formState !== 'ready';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <PaymentElement
+        options={{
+          layout: 'tabs',
+          // Apple Pay and Google Pay are card payments, so they can only be turned off here
+          wallets: allowWallets ? undefined : { applePay: 'never', googlePay: 'never' },
+        }}
+      />
+
+      {formState === 'requires-action' && (
+        <div className="flex items-center gap-3 rounded-xl bg-processing/10 p-4 text-sm text-foreground">
+          <ShieldCheck className="h-5 w-5 text-processing flex-shrink-0" />
+          <span>Your bank needs to verify this payment. Complete the check in the window that opened.</span>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-destructive/10 border border-destructive/20 rounded-xl p-4 text-center">
+          <p className="text-destructive text-sm">{error}</p>
+        </div>
+      )}
+
+      <Button
+        type="submit"
+        variant="hero"
+        size="xl"
+        className="w-full"
+        disabled={!stripe || !elements || isBusy}
+      >
+        {isBusy ? (
+          <>
+            <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+            {formState === 'requires-action' ? 'Waiting for Your Bank...' : 'Confirming Payment...'}
+          </>
+        ) : (
+          <>
+            <Lock className="h-5 w-5 mr-2" />
+            Pay {formattedAmount}
+          </>
+        )}
+      </Button>
+    </form>
+  );
+}
+
+export function EmbeddedPaymentForm({
+  clientSecret,
+  amountCents,
+  currency,
+  returnUrl,
+  allowWallets = true,
+  onComplete,
+  onUnavailable,
+}: EmbeddedPaymentFormProps) {
+  const [stripe, setStripe] = useState<Stripe | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    getStripe().then((loaded) => {
+      if (!active) return;
+      if (loaded) {
+        setStripe(loaded);
+      } else {
+        onUnavailable();
+      }
+    });
+    return () => {
+      active = false;
+    };
+  }, [onUnavailable]);
+
+  const formattedAmount = useMemo(() => new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+  }).format(amountCents / 100), [amountCents, currency]);
+
+  if (!stripe) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-8 text-muted-foreground">
+        <Loader2 className="h-5 w-5 animate-spin" />
+        <span className="text-sm">Loading secure payment form...</span>
+      </div>
+    );
+  }
+
+  return (
+    <Elements stripe={stripe} options={{ clientSecret, appearance: { theme: 'stripe' } }}>
+      <PaymentForm
+        clientSecret={clientSecret}
+        formattedAmount={formattedAmount}
+        returnUrl={returnUrl}
+        allowWallets={allowWallets}
+        onComplete={onComplete}
+      />
+    </Elements>
+  );
+}
@@ -1,17 +1,56 @@
 import { useMemo } from "react";
+import { format } from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { StatusBadge } from "@/components/StatusBadge";
 import { CountdownTimer } from "@/components/CountdownTimer";
-import { CreditCard, Building2, Shield, Clock } from "lucide-react";
+import { CreditCard, Building2, Shield, Clock, CalendarClock, Receipt } from "lucide-react";
 import { cn } from "@/lib/utils";
 
+export interface PaymentScheduleItem {
+  sequence: number;
+  amount_cents: number;
+  due_date: string;
+  status: string;
+}
+
+export interface EnrollmentLineItem {
+  name: string;
+  description: string | null;
+  unit_amount_cents: number;
+  quantity: number;
+  amount_cents: number;
+}
+
+// A payment toward the balance when it is split across cards or bank accounts
+export interface EnrollmentPaymentItem {
+  amount_cents: number;
+  status: string;
+  payment_method_type: string | null;
+  card_brand: string | null;
+  last4: string | null;
+  paid_at: string | null;
+}
+
+// Card surcharge (positive) or ACH discount (negative) for the chosen payment method
+export interface PaymentAdjustment {
+  label: string;
+  amount_cents: number;
+}
+
 interface EnrollmentCardProps {
   patientName?: string;
   amount: number;
   currency?: string;
   expiresAt: Date;
-  status: 'created' | 'sent' | 'opened' | 'processing' | 'paid' | 'failed' | 'expired' | 'canceled';
+  status: 'created' | 'sent' | 'opened' | 'processing' | 'paid' | 'partially_paid' | 'failed' | 'expired' | 'canceled' | 'partially_refunded' | 'refunded' | 'reversed' | 'disputed';
   paymentMethod?: 'card' | 'ach';
+  paymentSchedule?: PaymentScheduleItem[];
+  lineItems?: EnrollmentLineItem[];
+  payments?: EnrollmentPaymentItem[];
+  payNowCents?: number | null; // Part of the balance paid now, when the patient splits it
+  paymentAdjustment?: PaymentAdjustment | null;
+  promoCode?: string | null;
+  promoDiscountCents?: number | null; // Already taken off the amount
   className?: string;
 }
 
@@ -22,14 +61,42 @@ export function EnrollmentCard({
   expiresAt,
   status,
   paymentMethod,
+  paymentSchedule = [],
+  lineItems = [],
+  payments = [],
+  payNowCents = null,
+  paymentAdjustment = null,
+  promoCode = null,
+  promoDiscountCents = null,
   className,
 }: EnrollmentCardProps) {
-  const formattedAmount = useMemo(() => new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: currency.toUpperCase(),
-  }).format(amount / 100), [amount, currency]);
+  const formatCurrency = useMemo(() => {
+    const formatter = new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: currency.toUpperCase(),
+    });
+    return (cents: number) => formatter.format(cents / 100);
+  }, [currency]);
+
+  const formattedAmount = formatCurrency(amount);
+  const hasPlan = paymentSchedule.length > 0;
+  const paidCents = paymentSchedule
+    .filter((p) => p.status === 'paid')
+    .reduce((sum, p) => sum + p.amount_cents, 0);
+  const outstandingCents = paymentSchedule
+    .filter((p) => p.status !== 'paid' && p.status !== 'canceled')
+    .reduce((sum, p) => sum + p.amount_cents, 0);
+
+  // Payments toward a balance split across cards, including bank transfers still processing
+  const splitPaidCents = payments.reduce((sum, p) => sum + p.amount_cents, 0);
+  const balanceCents = Math.max(amount - splitPaidCents, 0);
+
+  const chargeCents = hasPlan ? paymentSchedule[0].amount_cents : payNowCents ?? balanceCents;
+  const showAdjustment = !!paymentAdjustment &&
+    (['created', 'sent', 'opened', 'failed'].includes(status) || (!hasPlan && status === 'partially_paid'));
 
   const showCountdown = ['created', 'sent', 'opened'].includes(status);
+  const hasPromo = !!promoCode && !!promoDiscountCents;
 
   return (
     <Card className={cn("card-premium overflow-hidden", className)}>
@@ -47,10 +114,154 @@ export function EnrollmentCard({
       
       <CardContent className="space-y-6">
         {/* Amount */}
-        <div className="text-center py-4 bg-background/50 rounded-lg border border-border/50">
-          <p className="text-sm text-muted-foreground mb-1">Amount Due</p>
-          <p className="text-4xl font-bold text-foreground">{formattedAmount}</p>
-        </div>
+        {hasPlan ? (
+          <div className="text-center py-4 bg-background/50 rounded-lg border border-border/50">
+            {status === 'partially_paid' ? (
+              <>
+                <p className="text-sm text-muted-foreground mb-1">Outstanding Balance</p>
+                <p className="text-4xl font-bold text-foreground">{formatCurrency(outstandingCents)}</p>
+                <p className="text-sm text-muted-foreground mt-1">
+                  {formatCurrency(paidCents)} paid of {formattedAmount}
+                </p>
+              </>
+            ) : (
+              <>
+                <p className="text-sm text-muted-foreground mb-1">Deposit Due Today</p>
+                <p className="text-4xl font-bold text-foreground">{formatCurrency(paymentSchedule[0].amount_cents)}</p>
+                <p className="text-sm text-muted-foreground mt-1">
+                  of {formattedAmount} total, in {paymentSchedule.length} payments
+                </p>
+              </>
+            )}
+          </div>
+        ) : payments.length > 0 ? (
+          <div className="text-center py-4 bg-background/50 rounded-lg border border-border/50">
+            <p className="text-sm text-muted-foreground mb-1">Remaining Balance</p>
+            <p className="text-4xl font-bold text-foreground">{formatCurrency(balanceCents)}</p>
+            <p className="text-sm text-muted-foreground mt-1">
+              {formatCurrency(splitPaidCents)} paid of {formattedAmount}
+            </p>
+          </div>
+        ) : (
+          <div className="text-center py-4 bg-background/50 rounded-lg border border-border/50">
+            <p className="text-sm text-muted-foreground mb-1">Amount Due</p>
+            <p className="text-4xl font-bold text-foreground">{formattedAmount}</p>
+            {hasPromo && (
+              <p className="text-sm text-muted-foreground mt-1">
+                <span className="line-through">{formatCurrency(amount + promoDiscountCents!)}</span> with promo code {promoCode}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Payments made so far toward a split balance */}
+        {!hasPlan && payments.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <CreditCard className="h-4 w-4 text-muted-foreground" />
+              Payments Made
+            </div>
+            <div className="divide-y divide-border/50 rounded-lg border border-border/50 text-sm">
+              {payments.map((payment, index) => (
+                <div key={index} className="flex items-center justify-between gap-4 px-3 py-2">
+                  <span className="text-muted-foreground">
+                    {payment.payment_method_type === 'ach' ? 'Bank account' : payment.card_brand ? `${payment.card_brand.charAt(0).toUpperCase()}${payment.card_brand.slice(1)}` : 'Card'}
+                    {payment.last4 && ` •••• ${payment.last4}`}
+                    {payment.status === 'processing' && ' (processing)'}
+                  </span>
+                  <span className={cn("font-medium", payment.status === 'succeeded' && "text-success")}>
+                    {formatCurrency(payment.amount_cents)}
+                    {payment.status === 'succeeded' && ' ✓'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Line items */}
+        {lineItems.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <Receipt className="h-4 w-4 text-muted-foreground" />
+              What You're Paying For
+            </div>
+            <div className="divide-y divide-border/50 rounded-lg border border-border/50 text-sm">
+              {lineItems.map((item, index) => (
+                <div key={index} className="flex items-start justify-between gap-4 px-3 py-2">
+                  <div>
+                    <p className="font-medium">
+                      {item.name}
+                      {item.quantity > 1 && (
+                        <span className="text-muted-foreground font-normal"> × {item.quantity}</span>
+                      )}
+                    </p>
+                    {item.description && (
+                      <p className="text-xs text-muted-foreground">{item.description}</p>
+                    )}
+                  </div>
+                  <span className="font-medium whitespace-nowrap">{formatCurrency(item.amount_cents)}</span>
+                </div>
+              ))}
+              {hasPromo && (
+                <div className="flex items-center justify-between gap-4 px-3 py-2">
+                  <span className="text-muted-foreground">Promo code {promoCode}</span>
+                  <span className="font-medium whitespace-nowrap text-success">{formatCurrency(-promoDiscountCents!)}</span>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Card surcharge or ACH discount, charged with today's payment */}
+        {showAdjustment && paymentAdjustment && (
+          <div className="divide-y divide-border/50 rounded-lg border border-border/50 text-sm">
+            <div className="flex items-center justify-between gap-4 px-3 py-2">
+              <span className="text-muted-foreground">{hasPlan ? 'Deposit' : chargeCents < amount ? 'Paying Now' : 'Amount'}</span>
+              <span className="font-medium">{formatCurrency(chargeCents)}</span>
+            </div>
+            <div className="flex items-center justify-between gap-4 px-3 py-2">
+              <span className="text-muted-foreground">{paymentAdjustment.label}</span>
+              <span className={cn("font-medium whitespace-nowrap", paymentAdjustment.amount_cents < 0 && "text-success")}>
+                {formatCurrency(paymentAdjustment.amount_cents)}
+              </span>
+            </div>
+            <div className="flex items-center justify-between gap-4 px-3 py-2 font-semibold">
+              <span>Total Today</span>
+              <span>{formatCurrency(chargeCents + paymentAdjustment.amount_cents)}</span>
+            </div>
+          </div>
+        )}
+
+        {/* Payment schedule */}
+        {hasPlan && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <CalendarClock className="h-4 w-4 text-muted-foreground" />
+              Payment Schedule
+            </div>
+            <div className="divide-y divide-border/50 rounded-lg border border-border/50 text-sm">
+              {paymentSchedule.map((payment) => (
+                <div key={payment.sequence} className="flex items-center justify-between px-3 py-2">
+                  <span className="text-muted-foreground">
+                    {payment.sequence === 1
+                      ? 'Deposit (today)'
+                      : format(new Date(`${payment.due_date}T00:00:00`), 'MMM d, yyyy')}
+                  </span>
+                  <span className={cn("font-medium", payment.status === 'paid' && "text-success")}>
+                    {formatCurrency(payment.amount_cents)}
+                    {payment.status === 'paid' && ' ✓'}
+                  </span>
+                </div>
+              ))}
+            </div>
+            {status !== 'partially_paid' && (
+              <p className="text-xs text-muted-foreground">
+                Remaining payments are charged automatically to the payment method you use today.
+              </p>
+            )}
+          </div>
+        )}
 
         {/* Payment method (if available) */}
         {paymentMethod && (
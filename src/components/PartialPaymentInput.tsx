@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+
+interface PartialPaymentInputProps {
+  balanceCents: number;
+  minCents: number;
+  currency?: string;
+  onChange: (amountCents: number | null, isValid: boolean) => void; // null pays the whole balance
+  disabled?: boolean;
+  className?: string;
+}
+
+// Lets the patient pay part of the balance now, e.g. to split it across two cards
+export function PartialPaymentInput({
+  balanceCents,
+  minCents,
+  currency = "usd",
+  onChange,
+  disabled = false,
+  className,
+}: PartialPaymentInputProps) {
+  const [isPartial, setIsPartial] = useState(false);
+  const [amount, setAmount] = useState("");
+
+  const formatCurrency = (cents: number) =>
+    new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: currency.toUpperCase(),
+    }).format(cents / 100);
+
+  // Mirrors the checks create-checkout-session makes
+  const validationError = (cents: number): string | null => {
+    if (!Number.isFinite(cents) || cents <= 0) return "Enter an amount";
+    if (cents > balanceCents) return `The remaining balance is ${formatCurrency(balanceCents)}`;
+    if (cents < balanceCents && cents < minCents) return `A partial payment must be at least ${formatCurrency(minCents)}`;
+    return null;
+  };
+
+  const error = isPartial && amount !== "" ? validationError(Math.round(parseFloat(amount) * 100)) : null;
+
+  const handleToggle = (checked: boolean) => {
+    setIsPartial(checked);
+    setAmount("");
+    onChange(null, !checked);
+  };
+
+  const handleAmountChange = (value: string) => {
+    setAmount(value);
+    const cents = Math.round(parseFloat(value) * 100);
+    const isValid = validationError(cents) === null;
+    onChange(isValid ? cents : null, isValid);
+  };
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex items-start gap-3">
+        <Checkbox
+          id="partial-payment"
+          checked={isPartial}
+          onCheckedChange={(checked) => handleToggle(checked === true)}
+          disabled={disabled}
+          className="mt-0.5"
+        />
+        <label htmlFor="partial-payment" className="text-sm text-foreground cursor-pointer">
+          Pay part of the balance now and the rest with another card or bank account
+        </label>
+      </div>
+
+      {isPartial && (
+        <div className="space-y-2 pl-7">
+          <div className="relative max-w-[200px]">
+            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">$</span>
+            <Input
+              type="number"
+              inputMode="decimal"
+              min={minCents / 100}
+              max={balanceCents / 100}
+              step="0.01"
+              placeholder={(balanceCents / 100).toFixed(2)}
+              value={amount}
+              onChange={(e) => handleAmountChange(e.target.value)}
+              disabled={disabled}
+              className="pl-7"
+            />
+          </div>
+          {error ? (
+            <p className="text-xs text-destructive">{error}</p>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              At least {formatCurrency(minCents)}, up to {formatCurrency(balanceCents)}. Any card surcharge or
+              bank discount is worked out on the amount you pay now.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
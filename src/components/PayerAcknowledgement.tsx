@@ -0,0 +1,109 @@
+import { useState, useCallback } from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+import { Shield, CheckCircle2, HandCoins } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { SignaturePad } from "@/components/SignaturePad";
+
+interface PayerAcknowledgementProps {
+  patientFirstName: string;
+  acknowledgementText: string;
+  privacyUrl: string;
+  onAccept: (signatureDataUrl: string) => void;
+  isLoading?: boolean;
+  isAccepted?: boolean; // Acknowledgement is recorded and payment continues below
+  className?: string;
+}
+
+// What a third-party payer agrees to in place of the patient's medical consent
+export function PayerAcknowledgement({
+  patientFirstName,
+  acknowledgementText,
+  privacyUrl,
+  onAccept,
+  isLoading = false,
+  isAccepted = false,
+  className,
+}: PayerAcknowledgementProps) {
+  const [accepted, setAccepted] = useState(false);
+  const [signatureDataUrl, setSignatureDataUrl] = useState<string | null>(null);
+
+  const handleSignatureChange = useCallback((dataUrl: string | null) => {
+    setSignatureDataUrl(dataUrl);
+  }, []);
+
+  const canProceed = accepted && !!signatureDataUrl;
+
+  return (
+    <div className={cn("space-y-6", className)}>
+      <div className="bg-muted/30 rounded-lg p-4 space-y-3">
+        <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+          <HandCoins className="h-4 w-4" />
+          <span>Payment Authorization</span>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          You are paying for {patientFirstName}'s enrollment. {patientFirstName} has already signed the medical consent.
+        </p>
+        <p className="text-sm text-foreground leading-relaxed">{acknowledgementText}</p>
+      </div>
+
+      {/* Signature */}
+      <SignaturePad onSignatureChange={handleSignatureChange} />
+
+      {/* Acknowledgement checkbox */}
+      <div className="flex items-start gap-3">
+        <Checkbox
+          id="payer-acknowledgement"
+          checked={accepted}
+          onCheckedChange={(checked) => setAccepted(checked === true)}
+          className="mt-1 h-5 w-5 rounded border-2 border-primary/50 data-[state=checked]:bg-primary data-[state=checked]:border-primary"
+        />
+        <label
+          htmlFor="payer-acknowledgement"
+          className="text-sm text-foreground leading-relaxed cursor-pointer"
+        >
+          I agree to the payment authorization above and the{" "}
+          <a href={privacyUrl} target="_blank" rel="noopener noreferrer" className="font-medium underline">
+            Privacy Policy
+          </a>.
+        </label>
+      </div>
+
+      {/* Continue button */}
+      <Button
+        variant="hero"
+        size="xl"
+        className="w-full"
+        onClick={() => signatureDataUrl && onAccept(signatureDataUrl)}
+        disabled={!canProceed || isLoading || isAccepted}
+      >
+        {isLoading ? (
+          <>
+            <span className="animate-spin mr-2">◌</span>
+            Processing...
+          </>
+        ) : isAccepted ? (
+          <>
+            <CheckCircle2 className="h-5 w-5 mr-2" />
+            Authorization Accepted
+          </>
+        ) : (
+          <>
+            <Shield className="h-5 w-5 mr-2" />
+            Continue to Secure Payment
+          </>
+        )}
+      </Button>
+
+      {/* Trust indicators */}
+      <div className="flex items-center justify-center gap-4 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <Shield className="h-3.5 w-3.5" />
+          Secure Connection
+        </span>
+        <span>·</span>
+        <span>Powered by Stripe</span>
+      </div>
+    </div>
+  );
+}
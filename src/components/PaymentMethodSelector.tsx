@@ -0,0 +1,98 @@
+import { useMemo } from "react";
+import { Building2, CreditCard } from "lucide-react";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type { PaymentAdjustment } from "@/components/EnrollmentCard";
+
+export interface PaymentOption {
+  method: 'card' | 'ach';
+  adjustment: PaymentAdjustment | null;
+  total_cents: number;
+  recommended: boolean;
+}
+
+interface PaymentMethodSelectorProps {
+  options: PaymentOption[];
+  value: 'card' | 'ach' | null;
+  onChange: (method: 'card' | 'ach') => void;
+  currency?: string;
+  allowWallets?: boolean;
+  disabled?: boolean;
+  className?: string;
+}
+
+const methodDetails = {
+  card: {
+    icon: CreditCard,
+    label: 'Credit/Debit Card',
+    note: 'Confirmed instantly',
+  },
+  ach: {
+    icon: Building2,
+    label: 'Bank Transfer (ACH)',
+    note: 'Takes 3-5 business days to clear',
+  },
+};
+
+export function PaymentMethodSelector({
+  options,
+  value,
+  onChange,
+  currency = 'usd',
+  allowWallets = false,
+  disabled = false,
+  className,
+}: PaymentMethodSelectorProps) {
+  const formatCurrency = useMemo(() => {
+    const formatter = new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: currency.toUpperCase(),
+    });
+    return (cents: number) => formatter.format(cents / 100);
+  }, [currency]);
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <h2 className="text-lg font-semibold text-foreground">Choose How to Pay</h2>
+      <RadioGroup
+        value={value ?? undefined}
+        onValueChange={(method) => onChange(method as 'card' | 'ach')}
+        disabled={disabled}
+        className="space-y-2"
+      >
+        {options.map((option) => {
+          const details = methodDetails[option.method];
+          const Icon = details.icon;
+          return (
+            <Label
+              key={option.method}
+              htmlFor={`payment-method-${option.method}`}
+              className={cn(
+                "flex items-center gap-3 rounded-lg border border-border/50 p-4 font-normal cursor-pointer transition-colors",
+                value === option.method && "border-primary bg-primary/5",
+                disabled && "cursor-not-allowed opacity-70",
+              )}
+            >
+              <RadioGroupItem value={option.method} id={`payment-method-${option.method}`} />
+              <Icon className="h-5 w-5 text-muted-foreground" />
+              <div className="flex-1">
+                <p className="text-sm font-medium flex items-center gap-2">
+                  {details.label}
+                  {option.recommended && <Badge variant="secondary" className="text-xs">Best price</Badge>}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {option.method === 'card' && allowWallets ? 'Apple Pay and Google Pay accepted. ' : ''}
+                  {details.note}
+                  {option.adjustment && ` · ${option.adjustment.label} ${formatCurrency(option.adjustment.amount_cents)}`}
+                </p>
+              </div>
+              <span className="text-sm font-semibold whitespace-nowrap">{formatCurrency(option.total_cents)}</span>
+            </Label>
+          );
+        })}
+      </RadioGroup>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tag, CheckCircle2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface PromoCodeInputProps {
+  appliedCode: string | null;
+  discountCents: number | null;
+  currency?: string;
+  onApply: (code: string) => Promise<string | null>; // Resolves to an error message, or null once applied
+  disabled?: boolean;
+  className?: string;
+}
+
+// Lets the patient or payer enter a promo code before paying. The code is
+// checked and applied by create-checkout-session.
+export function PromoCodeInput({
+  appliedCode,
+  discountCents,
+  currency = "usd",
+  onApply,
+  disabled = false,
+  className,
+}: PromoCodeInputProps) {
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const formatCurrency = (cents: number) =>
+    new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: currency.toUpperCase(),
+    }).format(cents / 100);
+
+  const handleApply = async () => {
+    if (!code.trim()) return;
+    setIsApplying(true);
+    setError(null);
+    const applyError = await onApply(code.trim());
+    setError(applyError);
+    setIsApplying(false);
+  };
+
+  if (appliedCode) {
+    return (
+      <div className={cn("flex items-center gap-2 text-sm", className)}>
+        <CheckCircle2 className="h-4 w-4 text-success" />
+        <span>
+          Promo code <span className="font-medium">{appliedCode}</span> applied
+          {discountCents ? ` - you save ${formatCurrency(discountCents)}` : ""}
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <label htmlFor="promo-code" className="flex items-center gap-2 text-sm font-medium text-foreground">
+        <Tag className="h-4 w-4 text-muted-foreground" />
+        Have a promo code?
+      </label>
+      <div className="flex gap-2">
+        <Input
+          id="promo-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          onKeyDown={(e) => e.key === "Enter" && handleApply()}
+          placeholder="Enter code"
+          autoComplete="off"
+          disabled={disabled || isApplying}
+          className="max-w-[220px] uppercase"
+        />
+        <Button
+          variant="outline"
+          onClick={handleApply}
+          disabled={disabled || isApplying || !code.trim()}
+        >
+          {isApplying ? "Applying..." : "Apply"}
+        </Button>
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
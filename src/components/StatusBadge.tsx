@@ -7,7 +7,12 @@ import {
   CheckCircle2, 
   XCircle, 
   Timer, 
-  Ban 
+  Ban,
+  RotateCcw,
+  Undo2,
+  AlertTriangle,
+  Gavel,
+  CalendarClock
 } from "lucide-react";
 
 type EnrollmentStatus = 
@@ -16,9 +21,14 @@ type EnrollmentStatus =
   | 'opened' 
   | 'processing' 
   | 'paid' 
+  | 'partially_paid'
   | 'failed' 
   | 'expired' 
-  | 'canceled';
+  | 'canceled'
+  | 'partially_refunded'
+  | 'refunded'
+  | 'reversed'
+  | 'disputed';
 
 interface StatusBadgeProps {
   status: EnrollmentStatus;
@@ -55,6 +65,11 @@ const statusConfig: Record<EnrollmentStatus, {
     icon: CheckCircle2,
     className: 'bg-success/20 text-success border border-success/30',
   },
+  partially_paid: {
+    label: 'Partially Paid',
+    icon: CalendarClock,
+    className: 'bg-success/10 text-success border border-success/20',
+  },
   failed: {
     label: 'Failed',
     icon: XCircle,
@@ -70,6 +85,26 @@ const statusConfig: Record<EnrollmentStatus, {
     icon: Ban,
     className: 'bg-muted/50 text-muted-foreground',
   },
+  partially_refunded: {
+    label: 'Partially Refunded',
+    icon: Undo2,
+    className: 'bg-warning/20 text-warning-foreground border border-warning/30',
+  },
+  refunded: {
+    label: 'Refunded',
+    icon: RotateCcw,
+    className: 'bg-muted text-muted-foreground border border-border',
+  },
+  reversed: {
+    label: 'Reversed',
+    icon: AlertTriangle,
+    className: 'bg-destructive/20 text-destructive border border-destructive/30',
+  },
+  disputed: {
+    label: 'Disputed',
+    icon: Gavel,
+    className: 'bg-warning/20 text-warning-foreground border border-warning/30',
+  },
 };
 
 export function StatusBadge({ status, className }: StatusBadgeProps) {
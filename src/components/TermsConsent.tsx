@@ -4,7 +4,7 @@ import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { RichTextDisplay } from "@/components/ui/rich-text-editor";
-import { Shield, FileText, ChevronDown, ChevronUp } from "lucide-react";
+import { Shield, FileText, ChevronDown, ChevronUp, CheckCircle2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { replacePlaceholders } from "@/components/admin/PolicyPlaceholders";
 import { SignaturePad } from "@/components/SignaturePad";
@@ -28,6 +28,8 @@ interface TermsConsentProps {
   placeholderData?: PlaceholderData;
   onAccept: (signatureDataUrl: string) => void;
   isLoading?: boolean;
+  isAccepted?: boolean; // Terms are recorded and payment continues below
+  payerName?: string | null; // Someone else pays on their own link, so the patient only signs
   className?: string;
 }
 
@@ -40,6 +42,8 @@ export function TermsConsent({
   placeholderData,
   onAccept,
   isLoading = false,
+  isAccepted = false,
+  payerName,
   className,
 }: TermsConsentProps) {
   const [accepted, setAccepted] = useState(false);
@@ -141,8 +145,10 @@ export function TermsConsent({
         >
           I have read and agree to the{" "}
           <span className="font-medium">Terms of Service</span> and{" "}
-          <span className="font-medium">Privacy Policy</span>. I understand that 
-          by proceeding, I am authorizing this payment.
+          <span className="font-medium">Privacy Policy</span>.{" "}
+          {payerName
+            ? `I understand that ${payerName} will receive a separate link to complete the payment.`
+            : "I understand that by proceeding, I am authorizing this payment."}
         </label>
       </div>
 
@@ -152,17 +158,22 @@ export function TermsConsent({
         size="xl"
         className="w-full"
         onClick={() => signatureDataUrl && onAccept(signatureDataUrl)}
-        disabled={!canProceed || isLoading}
+        disabled={!canProceed || isLoading || isAccepted}
       >
         {isLoading ? (
           <>
             <span className="animate-spin mr-2">◌</span>
             Processing...
           </>
+        ) : isAccepted ? (
+          <>
+            <CheckCircle2 className="h-5 w-5 mr-2" />
+            Terms Accepted
+          </>
         ) : (
           <>
             <Shield className="h-5 w-5 mr-2" />
-            Continue to Secure Payment
+            {payerName ? "Sign Consent" : "Continue to Secure Payment"}
           </>
         )}
       </Button>
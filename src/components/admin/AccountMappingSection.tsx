@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2, Save } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAdminAuth } from "@/hooks/useAdminAuth";
+import { useToast } from "@/hooks/use-toast";
+
+interface AccountingAccount {
+  entry_type: string;
+  account_name: string;
+}
+
+interface SurgeonClass {
+  id: string;
+  name: string;
+  accounting_class: string | null;
+}
+
+// In the order journal lines are usually read: money in, then money out
+const entryTypes: { value: string; label: string; description: string }[] = [
+  { value: "stripe_clearing", label: "Stripe clearing", description: "Net card and ACH payments; refunds and dispute losses paid out of it" },
+  { value: "undeposited_funds", label: "Undeposited funds", description: "Checks, wires and cash recorded offline" },
+  { value: "revenue", label: "Revenue", description: "Gross payments, including card surcharges" },
+  { value: "processing_fees", label: "Processing fees", description: "Stripe fees" },
+  { value: "refunds", label: "Refunds", description: "Refunds to the patient or payer" },
+  { value: "dispute_losses", label: "Dispute losses", description: "Chargebacks lost" },
+];
+
+// Ledger accounts for each kind of journal line, and the class each surgeon's
+// patients are posted to. Used by the next export; earlier files are unchanged.
+export function AccountMappingSection() {
+  const [accountEdits, setAccountEdits] = useState<Record<string, string>>({});
+  const [classEdits, setClassEdits] = useState<Record<string, string>>({});
+  const { adminUser } = useAdminAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const canManage = adminUser?.role !== "viewer";
+
+  const { data: accounts = [], isLoading: accountsLoading } = useQuery({
+    queryKey: ["accounting-accounts"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("accounting_accounts")
+        .select("entry_type, account_name");
+
+      if (error) throw error;
+      return data as AccountingAccount[];
+    },
+  });
+
+  const { data: surgeons = [], isLoading: surgeonsLoading } = useQuery({
+    queryKey: ["surgeon-classes"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("surgeons")
+        .select("id, name, accounting_class")
+        .eq("is_active", true)
+        .order("name");
+
+      if (error) throw error;
+      return data as SurgeonClass[];
+    },
+  });
+
+  const accountMutation = useMutation({
+    mutationFn: async ({ entryType, accountName }: { entryType: string; accountName: string }) => {
+      const { error } = await supabase
+        .from("accounting_accounts")
+        .update({ account_name: accountName.trim() })
+        .eq("entry_type", entryType);
+      if (error) throw error;
+    },
+    onSuccess: (_, { entryType }) => {
+      queryClient.invalidateQueries({ queryKey: ["accounting-accounts"] });
+      setAccountEdits(({ [entryType]: _saved, ...rest }) => rest);
+      toast({ title: "Account saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save account", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const classMutation = useMutation({
+    mutationFn: async ({ surgeonId, accountingClass }: { surgeonId: string; accountingClass: string }) => {
+      const { error } = await supabase
+        .from("surgeons")
+        .update({ accounting_class: accountingClass.trim() || null })
+        .eq("id", surgeonId);
+      if (error) throw error;
+    },
+    onSuccess: (_, { surgeonId }) => {
+      queryClient.invalidateQueries({ queryKey: ["surgeon-classes"] });
+      setClassEdits(({ [surgeonId]: _saved, ...rest }) => rest);
+      toast({ title: "Class saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save class", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const accountName = (entryType: string) =>
+    accountEdits[entryType] ?? accounts.find((account) => account.entry_type === entryType)?.account_name ?? "";
+
+  return (
+    <Card className="card-premium overflow-hidden">
+      <CardHeader className="border-b border-border bg-muted/30">
+        <CardTitle className="text-lg">Account Mapping</CardTitle>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-6">
+        {accountsLoading || surgeonsLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow className="hover:bg-transparent">
+                  <TableHead>Journal Line</TableHead>
+                  <TableHead>Ledger Account</TableHead>
+                  <TableHead className="w-[80px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entryTypes.map((entryType) => (
+                  <TableRow key={entryType.value}>
+                    <TableCell className="text-sm">
+                      <p className="font-medium">{entryType.label}</p>
+                      <p className="text-xs text-muted-foreground">{entryType.description}</p>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={accountName(entryType.value)}
+                        disabled={!canManage}
+                        onChange={(e) => setAccountEdits((edits) => ({ ...edits, [entryType.value]: e.target.value }))}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      {canManage && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={accountEdits[entryType.value] === undefined || !accountEdits[entryType.value].trim() || accountMutation.isPending}
+                          onClick={() => accountMutation.mutate({ entryType: entryType.value, accountName: accountEdits[entryType.value] })}
+                        >
+                          <Save className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <Table>
+              <TableHeader>
+                <TableRow className="hover:bg-transparent">
+                  <TableHead>Surgeon</TableHead>
+                  <TableHead>Class</TableHead>
+                  <TableHead className="w-[80px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {surgeons.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center text-sm text-muted-foreground">
+                      No active surgeons.
+                    </TableCell>
+                  </TableRow>
+                ) : surgeons.map((surgeon) => (
+                  <TableRow key={surgeon.id}>
+                    <TableCell className="text-sm font-medium">{surgeon.name}</TableCell>
+                    <TableCell>
+                      <Input
+                        value={classEdits[surgeon.id] ?? surgeon.accounting_class ?? ""}
+                        placeholder={surgeon.name}
+                        disabled={!canManage}
+                        onChange={(e) => setClassEdits((edits) => ({ ...edits, [surgeon.id]: e.target.value }))}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      {canManage && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={classEdits[surgeon.id] === undefined || classMutation.isPending}
+                          onClick={() => classMutation.mutate({ surgeonId: surgeon.id, accountingClass: classEdits[surgeon.id] })}
+                        >
+                          <Save className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
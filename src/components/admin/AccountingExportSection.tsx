@@ -0,0 +1,368 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { addDays, endOfMonth, format, startOfMonth, subMonths } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Download, Eye, Loader2, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAdminAuth } from "@/hooks/useAdminAuth";
+import { useToast } from "@/hooks/use-toast";
+import { DeleteConfirmationDialog } from "./DeleteConfirmationDialog";
+
+type ExportFormat = "csv" | "qbo_csv" | "iif";
+
+type ExportTotals = Record<string, Record<string, { debit_cents: number; credit_cents: number }>>;
+
+interface ExportResult {
+  export_id: string | null;
+  filename: string;
+  content: string;
+  summary: { entries: number; lines: number; totals: ExportTotals };
+}
+
+interface AccountingExport {
+  id: string;
+  period_start: string;
+  period_end: string;
+  format: ExportFormat;
+  entry_count: number;
+  line_count: number;
+  content: string;
+  exported_by_email: string | null;
+  created_at: string;
+}
+
+const formatLabels: Record<ExportFormat, string> = {
+  csv: "Journal CSV",
+  qbo_csv: "QuickBooks Online CSV",
+  iif: "QuickBooks Desktop IIF",
+};
+
+const entryTypeLabels: Record<string, string> = {
+  stripe_clearing: "Stripe clearing",
+  undeposited_funds: "Undeposited funds",
+  revenue: "Revenue",
+  processing_fees: "Processing fees",
+  refunds: "Refunds",
+  dispute_losses: "Dispute losses",
+};
+
+const exportFilename = (record: Pick<AccountingExport, "period_start" | "period_end" | "format">) =>
+  `journal-${format(new Date(record.period_start), "yyyy-MM-dd")}-to-${format(addDays(new Date(record.period_end), -1), "yyyy-MM-dd")}.${record.format === "iif" ? "iif" : "csv"}`;
+
+function downloadFile(filename: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: "text/plain;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Journal entries for the general ledger. Each payment, refund and lost dispute
+// is exported once; deleting an export lets its items be exported again.
+export function AccountingExportSection() {
+  const lastMonth = subMonths(new Date(), 1);
+  const [periodStart, setPeriodStart] = useState(format(startOfMonth(lastMonth), "yyyy-MM-dd"));
+  const [periodEnd, setPeriodEnd] = useState(format(endOfMonth(lastMonth), "yyyy-MM-dd"));
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
+  const [preview, setPreview] = useState<ExportResult | null>(null);
+  const [deleteExport, setDeleteExport] = useState<AccountingExport | null>(null);
+  const { adminUser } = useAdminAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const canManage = adminUser?.role !== "viewer";
+
+  const { data: exports = [], isLoading } = useQuery({
+    queryKey: ["accounting-exports"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("accounting_exports")
+        .select("id, period_start, period_end, format, entry_count, line_count, content, exported_by_email, created_at")
+        .order("created_at", { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      return data as AccountingExport[];
+    },
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async (previewOnly: boolean) => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error("Not authenticated");
+
+      // The end date is inclusive
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/export-accounting`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({
+            period_start: new Date(`${periodStart}T00:00:00`).toISOString(),
+            period_end: addDays(new Date(`${periodEnd}T00:00:00`), 1).toISOString(),
+            format: exportFormat,
+            preview: previewOnly,
+          }),
+        }
+      );
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to export accounting entries");
+      }
+
+      return result as ExportResult;
+    },
+    onSuccess: (data, previewOnly) => {
+      setPreview(data);
+      if (previewOnly) return;
+
+      if (data.export_id) {
+        downloadFile(data.filename, data.content);
+        queryClient.invalidateQueries({ queryKey: ["accounting-exports"] });
+        queryClient.invalidateQueries({ queryKey: ["audit-log"] });
+        toast({
+          title: "Export complete",
+          description: `${data.summary.entries} journal entries exported.`,
+        });
+      } else {
+        toast({
+          title: "Nothing to export",
+          description: "Every payment, refund and dispute in this period has already been exported.",
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Export failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("accounting_exports").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["accounting-exports"] });
+      setDeleteExport(null);
+      toast({
+        title: "Export deleted",
+        description: "Its entries will be included in the next export for the period.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete export",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatAmount = (cents: number, currency: string) =>
+    new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: currency.toUpperCase(),
+    }).format(cents / 100);
+
+  const totalRows = preview
+    ? Object.entries(preview.summary.totals).flatMap(([currency, byType]) =>
+      Object.entries(byType).map(([entryType, total]) => ({ currency, entryType, ...total }))
+    )
+    : [];
+
+  return (
+    <Card className="card-premium overflow-hidden">
+      <CardHeader className="border-b border-border bg-muted/30">
+        <CardTitle className="text-lg">Accounting Export</CardTitle>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-6">
+        {canManage && (
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="accounting-start">From</Label>
+              <Input
+                id="accounting-start"
+                type="date"
+                value={periodStart}
+                max={periodEnd}
+                onChange={(e) => setPeriodStart(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="accounting-end">To</Label>
+              <Input
+                id="accounting-end"
+                type="date"
+                value={periodEnd}
+                min={periodStart}
+                onChange={(e) => setPeriodEnd(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+                <SelectTrigger className="w-[220px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(formatLabels) as ExportFormat[]).map((value) => (
+                    <SelectItem key={value} value={value}>{formatLabels[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={() => exportMutation.mutate(true)}
+              disabled={!periodStart || !periodEnd || periodStart > periodEnd || exportMutation.isPending}
+            >
+              <Eye className="h-4 w-4" />
+              Preview
+            </Button>
+            <Button
+              className="gap-2"
+              onClick={() => exportMutation.mutate(false)}
+              disabled={!periodStart || !periodEnd || periodStart > periodEnd || exportMutation.isPending}
+            >
+              {exportMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Download className="h-4 w-4" />
+              )}
+              Export
+            </Button>
+          </div>
+        )}
+
+        {preview && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              {preview.export_id ? "Exported" : "Not yet exported"}: {preview.summary.entries} entries, {preview.summary.lines} lines
+            </p>
+            {totalRows.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow className="hover:bg-transparent">
+                    <TableHead>Account</TableHead>
+                    <TableHead>Currency</TableHead>
+                    <TableHead className="text-right">Debits</TableHead>
+                    <TableHead className="text-right">Credits</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {totalRows.map((row) => (
+                    <TableRow key={`${row.currency}-${row.entryType}`}>
+                      <TableCell className="text-sm">{entryTypeLabels[row.entryType] || row.entryType}</TableCell>
+                      <TableCell className="text-sm uppercase">{row.currency}</TableCell>
+                      <TableCell className="text-sm text-right">
+                        {row.debit_cents ? formatAmount(row.debit_cents, row.currency) : "—"}
+                      </TableCell>
+                      <TableCell className="text-sm text-right">
+                        {row.credit_cents ? formatAmount(row.credit_cents, row.currency) : "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : exports.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No exports yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="hover:bg-transparent">
+                <TableHead>Exported</TableHead>
+                <TableHead>Period</TableHead>
+                <TableHead>Format</TableHead>
+                <TableHead>Entries</TableHead>
+                <TableHead>By</TableHead>
+                <TableHead className="w-[120px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {exports.map((record) => (
+                <TableRow key={record.id}>
+                  <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                    {format(new Date(record.created_at), "MMM d, yyyy h:mm a")}
+                  </TableCell>
+                  <TableCell className="text-sm whitespace-nowrap">
+                    {format(new Date(record.period_start), "MMM d")} – {format(addDays(new Date(record.period_end), -1), "MMM d, yyyy")}
+                  </TableCell>
+                  <TableCell className="text-sm">{formatLabels[record.format] || record.format}</TableCell>
+                  <TableCell className="text-sm">{record.entry_count}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{record.exported_by_email || "—"}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => downloadFile(exportFilename(record), record.content)}
+                      >
+                        <Download className="h-4 w-4" />
+                      </Button>
+                      {canManage && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setDeleteExport(record)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <DeleteConfirmationDialog
+        isOpen={!!deleteExport}
+        onClose={() => setDeleteExport(null)}
+        onConfirm={() => deleteExport && deleteMutation.mutate(deleteExport.id)}
+        isPending={deleteMutation.isPending}
+        resourceType="accounting export"
+        resourceName={deleteExport ? `${deleteExport.entry_count} entries exported ${format(new Date(deleteExport.created_at), "MMM d, yyyy")}` : ""}
+        warning="Its entries will be exported again next time. Only delete an export that was not imported into the ledger."
+      />
+    </Card>
+  );
+}
@@ -10,7 +10,7 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, Trash2, Edit, Plus, RefreshCw } from "lucide-react";
+import { Loader2, Trash2, Edit, Plus, RefreshCw, RotateCcw, Send, Scale, CheckCircle2, Banknote } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 
 interface AuditEntry {
@@ -28,6 +28,14 @@ const actionIcons: Record<string, React.ReactNode> = {
   update: <Edit className="h-4 w-4 text-amber-500" />,
   create: <Plus className="h-4 w-4 text-green-500" />,
   regenerate: <RefreshCw className="h-4 w-4 text-blue-500" />,
+  refund: <RotateCcw className="h-4 w-4 text-amber-500" />,
+  submit_evidence: <Send className="h-4 w-4 text-blue-500" />,
+  run_reconciliation: <Scale className="h-4 w-4 text-blue-500" />,
+  resolve_discrepancy: <CheckCircle2 className="h-4 w-4 text-green-500" />,
+  replay_webhook: <RefreshCw className="h-4 w-4 text-blue-500" />,
+  record_payment: <Banknote className="h-4 w-4 text-green-600" />,
+  retry_crm_sync: <RefreshCw className="h-4 w-4 text-blue-500" />,
+  discard_crm_sync: <Trash2 className="h-4 w-4 text-destructive" />,
 };
 
 const actionVariants: Record<string, "destructive" | "secondary" | "default" | "outline"> = {
@@ -35,6 +43,14 @@ const actionVariants: Record<string, "destructive" | "secondary" | "default" | "
   update: "secondary",
   create: "default",
   regenerate: "outline",
+  refund: "destructive",
+  submit_evidence: "outline",
+  run_reconciliation: "outline",
+  resolve_discrepancy: "secondary",
+  replay_webhook: "outline",
+  record_payment: "default",
+  retry_crm_sync: "outline",
+  discard_crm_sync: "secondary",
 };
 
 export function AuditLogTab() {
@@ -63,6 +79,7 @@ export function AuditLogTab() {
       parts.push(amt);
     }
     if (s.status) parts.push(`Status: ${s.status}`);
+    if (s.source === "stripe_dashboard") parts.push("via Stripe");
     if (s.name) parts.push(String(s.name));
     return parts.join(" · ") || JSON.stringify(s).slice(0, 100);
   };
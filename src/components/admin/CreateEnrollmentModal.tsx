@@ -1,9 +1,11 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { Plus, Loader2, Copy, Check } from "lucide-react";
+import { addDays, addMonths, format } from "date-fns";
+import { Plus, Loader2, Copy, Check, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Dialog,
   DialogContent,
@@ -38,6 +40,60 @@ interface Policy {
   is_active: boolean;
 }
 
+interface Product {
+  id: string;
+  name: string;
+  unit_amount_cents: number;
+}
+
+interface SelectedLineItem {
+  product_id: string;
+  quantity: number;
+}
+
+interface ScheduleEntry {
+  amount_cents: number;
+  due_date: string;
+}
+
+// Deposit due at checkout, then the balance split evenly into monthly
+// installments. Any rounding remainder goes on the last installment.
+function buildPaymentSchedule(
+  totalCents: number,
+  depositCents: number,
+  installmentCount: number,
+  firstDueDate: string,
+): ScheduleEntry[] {
+  const balanceCents = totalCents - depositCents;
+  const baseCents = Math.floor(balanceCents / installmentCount);
+  const firstDate = new Date(`${firstDueDate}T00:00:00`);
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  return [
+    { amount_cents: depositCents, due_date: today },
+    ...Array.from({ length: installmentCount }, (_, i) => ({
+      amount_cents: i === installmentCount - 1
+        ? balanceCents - baseCents * (installmentCount - 1)
+        : baseCents,
+      due_date: format(addMonths(firstDate, i), "yyyy-MM-dd"),
+    })),
+  ];
+}
+
+type AllowedPaymentMethod = "card" | "ach" | "wallet";
+
+const paymentMethodChoices: { value: AllowedPaymentMethod; label: string }[] = [
+  { value: "card", label: "Card" },
+  { value: "ach", label: "ACH bank transfer" },
+  { value: "wallet", label: "Apple Pay / Google Pay" },
+];
+
+// The deposit counts towards the 24-payment limit enforced by the edge function
+const MAX_INSTALLMENTS = 23;
+
+const formatCents = (cents: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(cents / 100);
+
 interface CreateEnrollmentModalProps {
   prefillData?: {
     patient_name: string;
@@ -65,6 +121,17 @@ export function CreateEnrollmentModal({ prefillData, patientId, triggerButton, i
   const [expiresAt, setExpiresAt] = useState("");
   const [expiresTime, setExpiresTime] = useState("12:00");
   const [selectedPolicyId, setSelectedPolicyId] = useState<string>("");
+  const [lineItems, setLineItems] = useState<SelectedLineItem[]>([]);
+  const [paymentPlan, setPaymentPlan] = useState<"full" | "installments">("full");
+  const [depositAmount, setDepositAmount] = useState("");
+  const [installmentCount, setInstallmentCount] = useState("3");
+  const [firstInstallmentDate, setFirstInstallmentDate] = useState("");
+  const [allowedMethods, setAllowedMethods] = useState<AllowedPaymentMethod[]>(["card", "ach", "wallet"]);
+  const [hasPayer, setHasPayer] = useState(false);
+  const [payerName, setPayerName] = useState("");
+  const [payerEmail, setPayerEmail] = useState("");
+  const [payerPhone, setPayerPhone] = useState("");
+  const [payerRelationship, setPayerRelationship] = useState("");
   const [createdUrl, setCreatedUrl] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
   const { toast } = useToast();
@@ -85,9 +152,77 @@ export function CreateEnrollmentModal({ prefillData, patientId, triggerButton, i
     },
   });
 
+  // Fetch active catalog products
+  const { data: products = [] } = useQuery({
+    queryKey: ["products-active"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("products")
+        .select("id, name, unit_amount_cents")
+        .eq("is_active", true)
+        .order("category")
+        .order("sort_order")
+        .order("name");
+
+      if (error) throw error;
+      return data as Product[];
+    },
+  });
+
   // Set default policy when policies load
   const defaultPolicy = policies.find(p => p.is_default);
 
+  const productById = new Map(products.map((p) => [p.id, p]));
+  const lineItemsTotalCents = lineItems.reduce(
+    (sum, item) => sum + (productById.get(item.product_id)?.unit_amount_cents ?? 0) * item.quantity,
+    0,
+  );
+
+  // With line items the amount is their total, priced again server-side from the catalog
+  const totalCents = lineItems.length > 0 ? lineItemsTotalCents : Math.round(parseFloat(amount) * 100);
+
+  const addLineItem = (productId: string) => {
+    setLineItems((items) =>
+      items.some((item) => item.product_id === productId)
+        ? items.map((item) => item.product_id === productId ? { ...item, quantity: item.quantity + 1 } : item)
+        : [...items, { product_id: productId, quantity: 1 }]
+    );
+  };
+
+  const updateLineItemQuantity = (productId: string, quantity: number) => {
+    setLineItems((items) =>
+      items.map((item) => item.product_id === productId ? { ...item, quantity: Math.max(1, quantity || 1) } : item)
+    );
+  };
+
+  const removeLineItem = (productId: string) => {
+    setLineItems((items) => items.filter((item) => item.product_id !== productId));
+  };
+
+  // Wallets are card payments, so turning off card turns them off too
+  const toggleAllowedMethod = (method: AllowedPaymentMethod, checked: boolean) => {
+    setAllowedMethods((methods) => {
+      if (checked) {
+        return method === "wallet" && !methods.includes("card")
+          ? [...methods, "card", "wallet"]
+          : [...methods, method];
+      }
+      return methods.filter((m) => m !== method && !(method === "card" && m === "wallet"));
+    });
+  };
+  const depositCents = Math.round(parseFloat(depositAmount) * 100);
+  const tomorrow = format(addDays(new Date(), 1), "yyyy-MM-dd");
+
+  const paymentSchedule = useMemo(() => {
+    if (paymentPlan !== "installments") return null;
+    const count = parseInt(installmentCount, 10);
+    if (!(totalCents > 0) || !(depositCents > 0) || depositCents >= totalCents) return null;
+    if (!(count >= 1) || count > MAX_INSTALLMENTS || !firstInstallmentDate || firstInstallmentDate < tomorrow) return null;
+    // Every installment must be at least one cent
+    if (totalCents - depositCents < count) return null;
+    return buildPaymentSchedule(totalCents, depositCents, count, firstInstallmentDate);
+  }, [paymentPlan, totalCents, depositCents, installmentCount, firstInstallmentDate, tomorrow]);
+
   // Set default expiration to 48 hours from now
   const setDefaultExpiration = () => {
     const now = new Date();
@@ -119,8 +254,17 @@ export function CreateEnrollmentModal({ prefillData, patientId, triggerButton, i
             patient_phone: patientPhone || undefined,
             patient_id: patientId || undefined,
             policy_id: selectedPolicyId || defaultPolicy?.id || undefined,
-            amount_cents: Math.round(parseFloat(amount) * 100),
+            amount_cents: totalCents,
+            line_items: lineItems.length > 0 ? lineItems : undefined,
             expires_at: expiresDateTime.toISOString(),
+            payment_schedule: paymentSchedule || undefined,
+            allowed_payment_methods: allowedMethods,
+            ...(hasPayer && {
+              payer_name: payerName.trim(),
+              payer_email: payerEmail.trim(),
+              payer_phone: payerPhone.trim() || undefined,
+              payer_relationship: payerRelationship.trim() || undefined,
+            }),
           }),
         }
       );
@@ -168,6 +312,17 @@ export function CreateEnrollmentModal({ prefillData, patientId, triggerButton, i
     setExpiresAt("");
     setExpiresTime("12:00");
     setSelectedPolicyId("");
+    setLineItems([]);
+    setPaymentPlan("full");
+    setDepositAmount("");
+    setInstallmentCount("3");
+    setFirstInstallmentDate("");
+    setAllowedMethods(["card", "ach", "wallet"]);
+    setHasPayer(false);
+    setPayerName("");
+    setPayerEmail("");
+    setPayerPhone("");
+    setPayerRelationship("");
     setCreatedUrl(null);
     setCopied(false);
   };
@@ -197,7 +352,9 @@ export function CreateEnrollmentModal({ prefillData, patientId, triggerButton, i
     }
   };
 
-  const isValid = patientName.trim() && amount && parseFloat(amount) > 0 && expiresAt && (selectedPolicyId || defaultPolicy);
+  const isValid = patientName.trim() && totalCents > 0 && expiresAt && (selectedPolicyId || defaultPolicy)
+    && (paymentPlan === "full" || paymentSchedule) && allowedMethods.length > 0
+    && (!hasPayer || (payerName.trim() && payerEmail.trim()));
 
   const noPoliciesConfigured = policies.length === 0;
 
@@ -248,6 +405,10 @@ export function CreateEnrollmentModal({ prefillData, patientId, triggerButton, i
               <Button onClick={() => {
                 setCreatedUrl(null);
                 setAmount("");
+                setLineItems([]);
+                setPaymentPlan("full");
+                setDepositAmount("");
+                setFirstInstallmentDate("");
                 setDefaultExpiration();
               }}>
                 Create Another
@@ -294,6 +455,58 @@ export function CreateEnrollmentModal({ prefillData, patientId, triggerButton, i
                 </>
               )}
 
+              {/* Line items */}
+              {products.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="add-product">Items</Label>
+                  {lineItems.length > 0 && (
+                    <div className="rounded-lg border border-border divide-y divide-border/50 text-sm">
+                      {lineItems.map((item) => {
+                        const product = productById.get(item.product_id);
+                        return (
+                          <div key={item.product_id} className="flex items-center gap-2 px-3 py-2">
+                            <span className="flex-1 truncate">{product?.name ?? "Unknown product"}</span>
+                            <Input
+                              type="number"
+                              min="1"
+                              step="1"
+                              value={item.quantity}
+                              onChange={(e) => updateLineItemQuantity(item.product_id, parseInt(e.target.value, 10))}
+                              className="h-8 w-16"
+                              aria-label="Quantity"
+                            />
+                            <span className="w-24 text-right font-medium">
+                              {formatCents((product?.unit_amount_cents ?? 0) * item.quantity)}
+                            </span>
+                            <Button
+                              type="button"
+                              size="icon"
+                              variant="ghost"
+                              className="h-8 w-8"
+                              onClick={() => removeLineItem(item.product_id)}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                  <Select value="" onValueChange={addLineItem}>
+                    <SelectTrigger id="add-product">
+                      <SelectValue placeholder="Add a product..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {products.map((product) => (
+                        <SelectItem key={product.id} value={product.id}>
+                          {product.name} — {formatCents(product.unit_amount_cents)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label htmlFor="amount">Amount (USD) *</Label>
                 <div className="relative">
@@ -304,13 +517,166 @@ export function CreateEnrollmentModal({ prefillData, patientId, triggerButton, i
                     min="0.01"
                     step="0.01"
                     placeholder="1000.00"
-                    value={amount}
+                    value={lineItems.length > 0 ? (lineItemsTotalCents / 100).toFixed(2) : amount}
                     onChange={(e) => setAmount(e.target.value)}
+                    disabled={lineItems.length > 0}
                     className="pl-7"
                   />
             </div>
               </div>
 
+              {/* Payment plan */}
+              <div className="space-y-2">
+                <Label htmlFor="payment-plan">Payment Plan</Label>
+                <Select value={paymentPlan} onValueChange={(v) => setPaymentPlan(v as "full" | "installments")}>
+                  <SelectTrigger id="payment-plan">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="full">Pay in full</SelectItem>
+                    <SelectItem value="installments">Deposit + monthly installments</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {paymentPlan === "installments" && (
+                <div className="space-y-4 rounded-lg border border-border p-3">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="deposit-amount">Deposit (USD) *</Label>
+                      <div className="relative">
+                        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">$</span>
+                        <Input
+                          id="deposit-amount"
+                          type="number"
+                          min="0.01"
+                          step="0.01"
+                          placeholder="250.00"
+                          value={depositAmount}
+                          onChange={(e) => setDepositAmount(e.target.value)}
+                          className="pl-7"
+                        />
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="installment-count">Installments *</Label>
+                      <Input
+                        id="installment-count"
+                        type="number"
+                        min="1"
+                        max={MAX_INSTALLMENTS}
+                        step="1"
+                        value={installmentCount}
+                        onChange={(e) => setInstallmentCount(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="first-installment">First Installment Date *</Label>
+                    <Input
+                      id="first-installment"
+                      type="date"
+                      value={firstInstallmentDate}
+                      onChange={(e) => setFirstInstallmentDate(e.target.value)}
+                      min={tomorrow}
+                    />
+                  </div>
+
+                  {paymentSchedule ? (
+                    <div className="text-sm divide-y divide-border/50">
+                      {paymentSchedule.map((entry, index) => (
+                        <div key={index} className="flex justify-between py-1">
+                          <span className="text-muted-foreground">
+                            {index === 0 ? "Deposit at checkout" : format(new Date(`${entry.due_date}T00:00:00`), "MMM d, yyyy")}
+                          </span>
+                          <span className="font-medium">{formatCents(entry.amount_cents)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      Enter a deposit below the total amount and a first installment date to preview the schedule.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Allowed payment methods */}
+              <div className="space-y-2">
+                <Label>Payment Methods *</Label>
+                <div className="flex flex-wrap gap-4">
+                  {paymentMethodChoices.map((choice) => (
+                    <div key={choice.value} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`allow-${choice.value}`}
+                        checked={allowedMethods.includes(choice.value)}
+                        onCheckedChange={(checked) => toggleAllowedMethod(choice.value, checked === true)}
+                      />
+                      <Label htmlFor={`allow-${choice.value}`} className="font-normal">{choice.label}</Label>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Active surcharge and discount rules apply to the checkout payment.
+                </p>
+              </div>
+
+              {/* Third-party payer */}
+              <div className="space-y-3">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="has-payer"
+                    checked={hasPayer}
+                    onCheckedChange={(checked) => setHasPayer(checked === true)}
+                  />
+                  <Label htmlFor="has-payer" className="font-normal">Someone else is paying (partner, family member)</Label>
+                </div>
+                {hasPayer && (
+                  <div className="space-y-3 rounded-lg border p-3">
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="space-y-2">
+                        <Label htmlFor="payer-name">Payer Name *</Label>
+                        <Input
+                          id="payer-name"
+                          value={payerName}
+                          onChange={(e) => setPayerName(e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="payer-relationship">Relationship</Label>
+                        <Input
+                          id="payer-relationship"
+                          placeholder="Spouse"
+                          value={payerRelationship}
+                          onChange={(e) => setPayerRelationship(e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="payer-email">Payer Email *</Label>
+                        <Input
+                          id="payer-email"
+                          type="email"
+                          value={payerEmail}
+                          onChange={(e) => setPayerEmail(e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="payer-phone">Payer Phone</Label>
+                        <Input
+                          id="payer-phone"
+                          type="tel"
+                          value={payerPhone}
+                          onChange={(e) => setPayerPhone(e.target.value)}
+                        />
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      The patient signs the consent on the link below. The payer is then emailed their own link to pay.
+                    </p>
+                  </div>
+                )}
+              </div>
+
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="expires-date">Expiration Date *</Label>
@@ -0,0 +1,63 @@
+import { formatDistanceToNow } from "date-fns";
+import { Cloud, CloudOff, RefreshCw } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export interface CrmSyncState {
+  sync_status: string | null;
+  pending_count: number | null;
+  dead_count: number | null;
+  last_delivered_at: string | null;
+}
+
+interface CrmSyncBadgeProps {
+  state: CrmSyncState | undefined;
+  className?: string;
+}
+
+const syncConfig: Record<string, { label: string; icon: React.ElementType; className: string }> = {
+  synced: {
+    label: "Zoho synced",
+    icon: Cloud,
+    className: "bg-success/10 text-success border border-success/20",
+  },
+  pending: {
+    label: "Zoho pending",
+    icon: RefreshCw,
+    className: "bg-warning/20 text-warning-foreground border border-warning/30",
+  },
+  failed: {
+    label: "Zoho sync failed",
+    icon: CloudOff,
+    className: "bg-destructive/20 text-destructive border border-destructive/30",
+  },
+};
+
+// Whether the enrollment's CRM writes have reached Zoho. Nothing is shown for
+// enrollments that have never queued one.
+export function CrmSyncBadge({ state, className }: CrmSyncBadgeProps) {
+  const config = state?.sync_status ? syncConfig[state.sync_status] : undefined;
+  if (!state || !config) return null;
+  const Icon = config.icon;
+
+  const details = [
+    state.dead_count ? `${state.dead_count} failed` : null,
+    state.pending_count ? `${state.pending_count} waiting` : null,
+    state.last_delivered_at
+      ? `last synced ${formatDistanceToNow(new Date(state.last_delivered_at), { addSuffix: true })}`
+      : null,
+  ].filter(Boolean).join(" · ");
+
+  return (
+    <span
+      title={details || undefined}
+      className={cn(
+        "inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap",
+        config.className,
+        className
+      )}
+    >
+      <Icon className="h-3 w-3" />
+      {config.label}
+    </span>
+  );
+}
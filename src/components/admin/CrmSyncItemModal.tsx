@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+export interface CrmSyncItem {
+  id: string;
+  enrollment_id: string | null;
+  zoho_module: string;
+  zoho_record_id: string;
+  operation: string;
+  payload: Record<string, unknown>;
+  status: string;
+  attempts: number;
+  last_error: string | null;
+  last_error_code: string | null;
+  dead_at: string | null;
+  created_at: string;
+  enrollments: {
+    patient_name: string | null;
+  } | null;
+}
+
+interface ManageResult {
+  success: boolean;
+  status: string;
+}
+
+const operationTitles: Record<string, string> = {
+  add_note: "Zoho Note",
+  upload_attachment: "Zoho Attachment",
+};
+
+const payloadLabels: Record<string, string> = {
+  add_note: "Note (title and content)",
+  upload_attachment: "Document (stored file and the name shown in Zoho)",
+};
+
+interface CrmSyncItemModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  item: CrmSyncItem;
+  canManage: boolean;
+}
+
+// A dead CRM write: what Zoho rejected and why. Staff fix the payload if
+// needed and retry, or discard it so the record's later writes go through.
+export function CrmSyncItemModal({ isOpen, onClose, item, canManage }: CrmSyncItemModalProps) {
+  const [payloadText, setPayloadText] = useState(JSON.stringify(item.payload, null, 2));
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  let parsedPayload: Record<string, unknown> | null = null;
+  try {
+    const parsed = JSON.parse(payloadText);
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) parsedPayload = parsed;
+  } catch {
+    // Shown below as invalid JSON
+  }
+  const payloadEdited = payloadText !== JSON.stringify(item.payload, null, 2);
+
+  const manageMutation = useMutation({
+    mutationFn: async (action: "retry" | "discard") => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error("Not authenticated");
+
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/manage-crm-sync-item`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({
+            item_id: item.id,
+            action,
+            ...(action === "retry" && payloadEdited && { payload: parsedPayload }),
+          }),
+        }
+      );
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to update CRM sync item");
+      }
+
+      return result as ManageResult;
+    },
+    onSuccess: (data, action) => {
+      queryClient.invalidateQueries({ queryKey: ["crm-sync-items"] });
+      queryClient.invalidateQueries({ queryKey: ["crm-sync-status"] });
+      queryClient.invalidateQueries({ queryKey: ["audit-log"] });
+      if (action === "discard") {
+        toast({ title: "Write discarded", description: "Later writes for this Zoho record will now go through." });
+      } else if (data.status === "delivered") {
+        toast({ title: "Delivered to Zoho" });
+      } else {
+        toast({
+          title: data.status === "dead" ? "Zoho rejected the write again" : "Queued for retry",
+          description: data.status === "dead" ? "Check the error and payload." : "It will be retried in the background.",
+          variant: data.status === "dead" ? "destructive" : "default",
+        });
+      }
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update CRM sync item", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{operationTitles[item.operation] || "Zoho Record Update"}</DialogTitle>
+          <DialogDescription>
+            {item.zoho_module} {item.zoho_record_id}
+            {item.enrollments?.patient_name && <> for <strong>{item.enrollments.patient_name}</strong></>}.
+            Failed after {item.attempts} {item.attempts === 1 ? "attempt" : "attempts"}
+            {item.dead_at && ` on ${format(new Date(item.dead_at), "MMM d, h:mm a")}`}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {item.last_error && (
+            <div className="rounded-lg bg-destructive/10 p-3 text-sm text-destructive break-words">
+              {item.last_error_code && <span className="font-mono text-xs mr-2">{item.last_error_code}</span>}
+              {item.last_error}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="crm-sync-payload">{payloadLabels[item.operation] || "Fields (our names, mapped to Zoho when sent)"}</Label>
+            <Textarea
+              id="crm-sync-payload"
+              className="font-mono text-xs"
+              value={payloadText}
+              onChange={(e) => setPayloadText(e.target.value)}
+              disabled={!canManage}
+              rows={10}
+            />
+            {!parsedPayload && <p className="text-xs text-destructive">Must be a JSON object.</p>}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={manageMutation.isPending}>
+            Close
+          </Button>
+          {canManage && (
+            <>
+              <Button
+                variant="outline"
+                className="gap-1"
+                onClick={() => manageMutation.mutate("discard")}
+                disabled={manageMutation.isPending}
+              >
+                <Trash2 className="h-4 w-4" />
+                Discard
+              </Button>
+              <Button
+                className="gap-1"
+                onClick={() => manageMutation.mutate("retry")}
+                disabled={!parsedPayload || manageMutation.isPending}
+              >
+                {manageMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                {payloadEdited ? "Save & Retry" : "Retry"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
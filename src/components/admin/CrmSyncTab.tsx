@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { Card, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Eye, Loader2, Wrench } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAdminAuth } from "@/hooks/useAdminAuth";
+import { CrmSyncItemModal, type CrmSyncItem } from "./CrmSyncItemModal";
+import { TransactionDetailsModal } from "./TransactionDetailsModal";
+import { ZohoFieldMappingSection } from "./ZohoFieldMappingSection";
+
+const operationLabels: Record<string, string> = {
+  update_record: "Record update",
+  add_note: "Note",
+  upload_attachment: "Attachment",
+};
+
+// Dead-letter list for CRM writes Zoho would not take. Each one holds back the
+// later writes for its Zoho record until it is retried or discarded.
+export function CrmSyncTab() {
+  const [reviewItem, setReviewItem] = useState<CrmSyncItem | null>(null);
+  const [detailsEnrollmentId, setDetailsEnrollmentId] = useState<string | null>(null);
+  const { adminUser } = useAdminAuth();
+
+  const canManage = adminUser?.role !== "viewer";
+
+  const { data: items = [], isLoading } = useQuery({
+    queryKey: ["crm-sync-items", "dead"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("crm_sync_outbox")
+        .select("id, enrollment_id, zoho_module, zoho_record_id, operation, payload, status, attempts, last_error, last_error_code, dead_at, created_at, enrollments(patient_name)")
+        .eq("status", "dead")
+        .order("seq", { ascending: true });
+
+      if (error) throw error;
+      return data as unknown as CrmSyncItem[];
+    },
+  });
+
+  const { data: waitingCount = 0 } = useQuery({
+    queryKey: ["crm-sync-items", "waiting"],
+    queryFn: async () => {
+      const { count, error } = await supabase
+        .from("crm_sync_outbox")
+        .select("id", { count: "exact", head: true })
+        .in("status", ["pending", "processing"]);
+
+      if (error) throw error;
+      return count ?? 0;
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card className="card-premium overflow-hidden">
+        <CardHeader className="border-b border-border bg-muted/30">
+          <CardTitle className="text-lg">
+            Zoho Sync
+            <span className="text-sm font-normal text-muted-foreground ml-2">
+              ({items.length} failed · {waitingCount} waiting to retry)
+            </span>
+          </CardTitle>
+        </CardHeader>
+        <div className="overflow-x-auto">
+          {isLoading ? (
+            <div className="flex justify-center items-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : items.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              Zoho is up to date. Writes appear here once Zoho has rejected them or they run out of retries.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="hover:bg-transparent">
+                  <TableHead>Failed</TableHead>
+                  <TableHead>Patient</TableHead>
+                  <TableHead>Zoho Record</TableHead>
+                  <TableHead>Write</TableHead>
+                  <TableHead>Error</TableHead>
+                  <TableHead className="w-[200px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {item.dead_at ? (
+                        <>
+                          <p>{format(new Date(item.dead_at), "MMM d, yyyy")}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {formatDistanceToNow(new Date(item.dead_at), { addSuffix: true })}
+                          </p>
+                        </>
+                      ) : "—"}
+                    </TableCell>
+                    <TableCell className="text-sm font-medium">
+                      {item.enrollments?.patient_name || "Unknown"}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <p>{item.zoho_module}</p>
+                      <p className="text-xs text-muted-foreground font-mono">{item.zoho_record_id}</p>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <p>{operationLabels[item.operation] || item.operation}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {item.attempts} {item.attempts === 1 ? "attempt" : "attempts"}
+                      </p>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground max-w-[320px]">
+                      {item.last_error_code && <span className="font-mono text-xs mr-1">{item.last_error_code}</span>}
+                      <span className="line-clamp-2 break-words">{item.last_error || "—"}</span>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        {item.enrollment_id && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="gap-1"
+                            onClick={() => setDetailsEnrollmentId(item.enrollment_id)}
+                          >
+                            <Eye className="h-4 w-4" />
+                            Details
+                          </Button>
+                        )}
+                        <Button size="sm" className="gap-1" onClick={() => setReviewItem(item)}>
+                          <Wrench className="h-4 w-4" />
+                          Review
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </Card>
+
+      <ZohoFieldMappingSection />
+
+      {reviewItem && (
+        <CrmSyncItemModal
+          key={reviewItem.id}
+          isOpen={!!reviewItem}
+          onClose={() => setReviewItem(null)}
+          item={reviewItem}
+          canManage={canManage}
+        />
+      )}
+
+      {detailsEnrollmentId && (
+        <TransactionDetailsModal
+          isOpen={!!detailsEnrollmentId}
+          onClose={() => setDetailsEnrollmentId(null)}
+          enrollmentId={detailsEnrollmentId}
+        />
+      )}
+    </div>
+  );
+}
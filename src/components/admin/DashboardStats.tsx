@@ -1,13 +1,16 @@
 import { useMemo } from "react";
-import { Users, DollarSign, Clock, TrendingUp, CheckCircle } from "lucide-react";
+import { Users, DollarSign, Clock, TrendingUp, CheckCircle, Wallet } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 
 interface Enrollment {
   status: string;
   amount_cents: number;
+  payment_adjustment_cents: number | null;
+  payment_fee_cents: number | null;
   created_at: string;
   paid_at: string | null;
+  enrollment_installments: { fee_cents: number | null }[];
 }
 
 export interface EnrollmentStats {
@@ -22,6 +25,9 @@ export interface EnrollmentStats {
   failed: number;
   canceled: number;
   totalPaidAmount: number;
+  totalGrossAmount: number; // Collected from patients, including card surcharges and ACH discounts
+  totalFeesAmount: number; // Stripe fees on the checkout payment and installments
+  totalNetAmount: number;
   totalProcessingAmount: number;
   conversionRate: number;
 }
@@ -42,13 +48,25 @@ export function computeStats(enrollments: Enrollment[]): EnrollmentStats {
     .filter(e => e.status === "paid")
     .reduce((sum, e) => sum + e.amount_cents, 0);
 
+  // Fees are only known once Stripe has settled a payment, so net can trail gross briefly
+  const paidEnrollments = enrollments.filter(e => e.status === "paid");
+  const totalGrossAmount = paidEnrollments
+    .reduce((sum, e) => sum + e.amount_cents + (e.payment_adjustment_cents || 0), 0);
+  const totalFeesAmount = paidEnrollments
+    .reduce((sum, e) => sum + (e.payment_fee_cents || 0) +
+      (e.enrollment_installments || []).reduce((s, i) => s + (i.fee_cents || 0), 0), 0);
+  const totalNetAmount = totalGrossAmount - totalFeesAmount;
+
   const totalProcessingAmount = enrollments
     .filter(e => e.status === "processing")
     .reduce((sum, e) => sum + e.amount_cents, 0);
 
   const conversionRate = total > 0 ? (paid / total) * 100 : 0;
 
-  return { total, created, sent, opened, paid, processing, pending, expired, failed, canceled, totalPaidAmount, totalProcessingAmount, conversionRate };
+  return {
+    total, created, sent, opened, paid, processing, pending, expired, failed, canceled,
+    totalPaidAmount, totalGrossAmount, totalFeesAmount, totalNetAmount, totalProcessingAmount, conversionRate,
+  };
 }
 
 interface DashboardStatsProps {
@@ -70,13 +88,21 @@ export function DashboardStats({ stats, isLoading }: DashboardStatsProps) {
       bgColor: "bg-primary/10",
     },
     {
-      title: "Paid",
-      value: formatCurrency(stats?.totalPaidAmount ?? 0),
+      title: "Paid (Gross)",
+      value: formatCurrency(stats?.totalGrossAmount ?? 0),
       subtitle: `${stats?.paid ?? 0} enrollments`,
       icon: CheckCircle,
       color: "text-success",
       bgColor: "bg-success/10",
     },
+    {
+      title: "Net Revenue",
+      value: formatCurrency(stats?.totalNetAmount ?? 0),
+      subtitle: `${formatCurrency(stats?.totalFeesAmount ?? 0)} in Stripe fees`,
+      icon: Wallet,
+      color: "text-success",
+      bgColor: "bg-success/10",
+    },
     {
       title: "Processing (ACH)",
       value: formatCurrency(stats?.totalProcessingAmount ?? 0),
@@ -97,8 +123,8 @@ export function DashboardStats({ stats, isLoading }: DashboardStatsProps) {
 
   if (isLoading) {
     return (
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-        {[1, 2, 3, 4].map((i) => (
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+        {[1, 2, 3, 4, 5].map((i) => (
           <Card key={i} className="card-premium">
             <CardContent className="p-6">
               <Skeleton className="h-4 w-24 mb-2" />
@@ -112,7 +138,7 @@ export function DashboardStats({ stats, isLoading }: DashboardStatsProps) {
   }
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
       {statCards.map((stat) => (
         <Card key={stat.title} className="card-premium">
           <CardContent className="p-6">
@@ -0,0 +1,406 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import { RichTextDisplay } from "@/components/ui/rich-text-editor";
+import {
+  CheckCircle2,
+  Clock,
+  Download,
+  FileText,
+  Gavel,
+  Globe,
+  Loader2,
+  Send,
+  Shield,
+  XCircle,
+} from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAdminAuth } from "@/hooks/useAdminAuth";
+import { useToast } from "@/hooks/use-toast";
+
+// Mirrors DisputeEvidenceBundle in supabase/functions/_shared/dispute-evidence.ts
+interface DisputeEvidence {
+  generated_at: string;
+  consent: {
+    accepted_at: string | null;
+    ip: string | null;
+    user_agent: string | null;
+    terms_version: string;
+    terms_url: string;
+    privacy_url: string;
+    terms_sha256: string;
+    policy_name: string | null;
+    policy_hash_matches: boolean;
+    consent_pdf_path: string | null;
+    signature_captured: boolean;
+  };
+  policy_text: {
+    terms_text: string | null;
+    privacy_text: string | null;
+  };
+  timeline: Array<{
+    event_type: string;
+    created_at: string | null;
+    event_data: Record<string, unknown> | null;
+  }>;
+}
+
+export interface DisputeRecord {
+  id: string;
+  enrollment_id: string;
+  stripe_dispute_id: string;
+  amount_cents: number;
+  currency: string;
+  reason: string | null;
+  status: string;
+  evidence_due_by: string | null;
+  evidence: DisputeEvidence | null;
+  evidence_notes: string | null;
+  evidence_submitted_at: string | null;
+  evidence_submitted_by_email: string | null;
+  closed_at: string | null;
+  created_at: string;
+  enrollments: {
+    patient_name: string | null;
+    patient_email: string | null;
+    signature_data: string | null;
+  } | null;
+}
+
+interface DisputeEvidenceModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  dispute: DisputeRecord;
+}
+
+interface SubmitEvidenceResult {
+  success: boolean;
+  status: string;
+  submitted: boolean;
+  consent_pdf_attached: boolean;
+  signature_attached: boolean;
+}
+
+export function DisputeEvidenceModal({ isOpen, onClose, dispute }: DisputeEvidenceModalProps) {
+  const [notes, setNotes] = useState(dispute.evidence_notes || "");
+  const [confirmSubmit, setConfirmSubmit] = useState(false);
+  const { adminUser } = useAdminAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const evidence = dispute.evidence;
+  const canRespond =
+    adminUser?.role !== "viewer" &&
+    ["warning_needs_response", "needs_response"].includes(dispute.status);
+  const signatureImage = dispute.enrollments?.signature_data?.startsWith("data:image/")
+    ? dispute.enrollments.signature_data
+    : null;
+
+  const formatDateTime = (date: string | null) => {
+    if (!date) return "—";
+    return format(new Date(date), "MMM d, yyyy 'at' h:mm:ss a");
+  };
+
+  const submitMutation = useMutation({
+    mutationFn: async (submit: boolean) => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error("Not authenticated");
+
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/submit-dispute-evidence`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({
+            dispute_id: dispute.id,
+            notes: notes.trim() || undefined,
+            submit,
+          }),
+        }
+      );
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to send evidence to Stripe");
+      }
+
+      return result as SubmitEvidenceResult;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["disputes"] });
+      queryClient.invalidateQueries({ queryKey: ["enrollment-events", dispute.enrollment_id] });
+      queryClient.invalidateQueries({ queryKey: ["audit-log"] });
+      toast({
+        title: data.submitted ? "Evidence submitted" : "Evidence saved",
+        description: data.submitted
+          ? "Stripe has sent the evidence to the card issuer for review."
+          : "Evidence is staged in Stripe and can still be edited before submitting.",
+      });
+      setConfirmSubmit(false);
+      if (data.submitted) onClose();
+    },
+    onError: (error: Error) => {
+      setConfirmSubmit(false);
+      toast({
+        title: "Failed to send evidence",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Gavel className="h-5 w-5" />
+            Dispute Evidence
+            <Badge variant="outline" className="capitalize">{dispute.status.replace(/_/g, " ")}</Badge>
+          </DialogTitle>
+          <DialogDescription>
+            {dispute.enrollments?.patient_name || "Unknown patient"} ·{" "}
+            {new Intl.NumberFormat("en-US", { style: "currency", currency: dispute.currency.toUpperCase() }).format(dispute.amount_cents / 100)} ·{" "}
+            <span className="capitalize">{dispute.reason?.replace(/_/g, " ") || "no reason given"}</span>
+          </DialogDescription>
+        </DialogHeader>
+
+        {!evidence ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">
+            No evidence bundle was assembled for this dispute.
+          </p>
+        ) : (
+          <div className="space-y-6">
+            {dispute.evidence_due_by && !dispute.closed_at && (
+              <div className="rounded-lg bg-warning/10 border border-warning/30 p-3 text-sm">
+                Evidence due by <strong>{formatDateTime(dispute.evidence_due_by)}</strong>
+              </div>
+            )}
+            {dispute.evidence_submitted_at && (
+              <div className="rounded-lg bg-success/10 border border-success/20 p-3 text-sm">
+                Submitted {formatDateTime(dispute.evidence_submitted_at)}
+                {dispute.evidence_submitted_by_email && ` by ${dispute.evidence_submitted_by_email}`}
+              </div>
+            )}
+
+            {/* Consent Record */}
+            <div className="space-y-3">
+              <h3 className="font-medium flex items-center gap-2">
+                <Shield className="h-4 w-4" />
+                Consent Record
+              </h3>
+              <div className="bg-muted/30 rounded-lg p-4 space-y-3 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Accepted At</span>
+                  <span className="font-medium">{formatDateTime(evidence.consent.accepted_at)}</span>
+                </div>
+                <div className="flex items-start justify-between">
+                  <span className="text-muted-foreground flex items-center gap-1">
+                    <Globe className="h-3 w-3" />
+                    IP Address
+                  </span>
+                  <span className="font-mono text-xs">{evidence.consent.ip || "Unknown"}</span>
+                </div>
+                <div className="space-y-1">
+                  <span className="text-muted-foreground text-xs">User Agent</span>
+                  <p className="font-mono text-xs bg-background p-2 rounded break-all">
+                    {evidence.consent.user_agent || "Unknown"}
+                  </p>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Policy</span>
+                  <span>
+                    {evidence.consent.policy_name || "Unknown"} (v{evidence.consent.terms_version})
+                  </span>
+                </div>
+                <div className="flex items-start justify-between gap-4">
+                  <span className="text-muted-foreground">Terms Hash</span>
+                  <span className="flex items-center gap-1 font-mono text-xs break-all text-right">
+                    {evidence.consent.policy_hash_matches ? (
+                      <CheckCircle2 className="h-3 w-3 text-green-600 shrink-0" />
+                    ) : (
+                      <XCircle className="h-3 w-3 text-destructive shrink-0" />
+                    )}
+                    {evidence.consent.terms_sha256}
+                  </span>
+                </div>
+                {!evidence.consent.policy_hash_matches && (
+                  <p className="text-xs text-destructive">
+                    No stored policy matches the accepted hash. The linked policy text may have changed since acceptance.
+                  </p>
+                )}
+                <div className="flex gap-4 pt-2 flex-wrap">
+                  <a
+                    href={evidence.consent.terms_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xs text-primary hover:underline flex items-center gap-1"
+                  >
+                    <FileText className="h-3 w-3" />
+                    View Terms
+                  </a>
+                  {evidence.consent.consent_pdf_path && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-xs gap-1"
+                      onClick={async () => {
+                        const { data } = await supabase.storage
+                          .from("consent-documents")
+                          .createSignedUrl(evidence.consent.consent_pdf_path!, 60);
+                        if (data?.signedUrl) {
+                          window.open(data.signedUrl, "_blank");
+                        }
+                      }}
+                    >
+                      <Download className="h-3 w-3" />
+                      Download Consent PDF
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {/* Signature */}
+            <div className="space-y-2">
+              <h3 className="font-medium text-sm">Signature</h3>
+              {signatureImage ? (
+                <img
+                  src={signatureImage}
+                  alt="Patient signature"
+                  className="max-h-24 rounded border bg-background p-2"
+                />
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {evidence.consent.signature_captured ? "Signature captured but image not stored." : "No signature captured."}
+                </p>
+              )}
+            </div>
+
+            {/* Policy text */}
+            {evidence.policy_text.terms_text && (
+              <div className="space-y-2">
+                <h3 className="font-medium text-sm">Terms as Accepted</h3>
+                <RichTextDisplay
+                  content={evidence.policy_text.terms_text}
+                  className="max-h-48 overflow-y-auto rounded border bg-muted/20 p-3 text-xs"
+                />
+              </div>
+            )}
+
+            <Separator />
+
+            {/* Timeline */}
+            <div className="space-y-3">
+              <h3 className="font-medium flex items-center gap-2">
+                <Clock className="h-4 w-4" />
+                Events Timeline
+              </h3>
+              {evidence.timeline.length > 0 ? (
+                <div className="space-y-1 text-sm">
+                  {evidence.timeline.map((event, index) => (
+                    <div key={index} className="flex justify-between gap-2 p-1">
+                      <span className="capitalize">{event.event_type.replace(/_/g, " ")}</span>
+                      <span className="text-xs text-muted-foreground">{formatDateTime(event.created_at)}</span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No events recorded.</p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Bundle assembled {formatDateTime(evidence.generated_at)}. It is rebuilt when sent to Stripe.
+              </p>
+            </div>
+
+            {canRespond && (
+              <>
+                <Separator />
+                <div className="space-y-2">
+                  <Label htmlFor="dispute-notes">Additional notes for the card issuer</Label>
+                  <Textarea
+                    id="dispute-notes"
+                    placeholder="e.g. Patient attended consultation on..."
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    rows={4}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {canRespond && evidence && (
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => submitMutation.mutate(false)}
+              disabled={submitMutation.isPending}
+            >
+              {submitMutation.isPending && !confirmSubmit ? (
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+              ) : null}
+              Save to Stripe
+            </Button>
+            <Button onClick={() => setConfirmSubmit(true)} disabled={submitMutation.isPending}>
+              <Send className="h-4 w-4 mr-2" />
+              Submit Evidence
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+
+      <AlertDialog open={confirmSubmit} onOpenChange={setConfirmSubmit}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Submit evidence to the card issuer?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Stripe only allows one submission per dispute. The evidence cannot be changed afterwards.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={submitMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                submitMutation.mutate(true);
+              }}
+              disabled={submitMutation.isPending}
+            >
+              {submitMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Submit
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Dialog>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, formatDistanceToNow, isPast } from "date-fns";
+import { Card, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Loader2, FileSearch } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { DisputeEvidenceModal, type DisputeRecord } from "./DisputeEvidenceModal";
+
+const statusVariants: Record<string, "destructive" | "secondary" | "default" | "outline"> = {
+  warning_needs_response: "destructive",
+  needs_response: "destructive",
+  under_review: "secondary",
+  warning_under_review: "secondary",
+  won: "default",
+  lost: "outline",
+  warning_closed: "outline",
+};
+
+export function DisputesTab() {
+  const [selectedDispute, setSelectedDispute] = useState<DisputeRecord | null>(null);
+
+  const { data: disputes = [], isLoading } = useQuery({
+    queryKey: ["disputes"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("enrollment_disputes")
+        .select("*, enrollments(patient_name, patient_email, signature_data)")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data as unknown as DisputeRecord[];
+    },
+  });
+
+  const formatAmount = (cents: number, currency: string) => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: currency.toUpperCase(),
+    }).format(cents / 100);
+  };
+
+  const openCount = disputes.filter((d) => d.status.includes("needs_response")).length;
+
+  return (
+    <div className="space-y-6">
+      <Card className="card-premium overflow-hidden">
+        <CardHeader className="border-b border-border bg-muted/30">
+          <CardTitle className="text-lg">
+            Disputes
+            {openCount > 0 && (
+              <span className="text-sm font-normal text-muted-foreground ml-2">
+                ({openCount} awaiting response)
+              </span>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <div className="overflow-x-auto">
+          {isLoading ? (
+            <div className="flex justify-center items-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : disputes.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              No disputes. Chargebacks opened in Stripe will appear here with their evidence bundle.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="hover:bg-transparent">
+                  <TableHead>Opened</TableHead>
+                  <TableHead>Patient</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Evidence Due</TableHead>
+                  <TableHead className="w-[100px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {disputes.map((dispute) => (
+                  <TableRow key={dispute.id}>
+                    <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                      {format(new Date(dispute.created_at), "MMM d, yyyy")}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <p className="font-medium">{dispute.enrollments?.patient_name || "Unknown"}</p>
+                      {dispute.enrollments?.patient_email && (
+                        <p className="text-xs text-muted-foreground">{dispute.enrollments.patient_email}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm font-medium">
+                      {formatAmount(dispute.amount_cents, dispute.currency)}
+                    </TableCell>
+                    <TableCell className="text-sm capitalize">
+                      {dispute.reason?.replace(/_/g, " ") || "—"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={statusVariants[dispute.status] || "secondary"} className="capitalize">
+                        {dispute.status.replace(/_/g, " ")}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {dispute.evidence_due_by && !dispute.closed_at ? (
+                        <span className={isPast(new Date(dispute.evidence_due_by)) ? "text-destructive" : ""}>
+                          {formatDistanceToNow(new Date(dispute.evidence_due_by), { addSuffix: true })}
+                        </span>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="gap-1"
+                        onClick={() => setSelectedDispute(dispute)}
+                      >
+                        <FileSearch className="h-4 w-4" />
+                        Review
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </Card>
+
+      {selectedDispute && (
+        <DisputeEvidenceModal
+          isOpen={!!selectedDispute}
+          onClose={() => setSelectedDispute(null)}
+          dispute={selectedDispute}
+        />
+      )}
+    </div>
+  );
+}
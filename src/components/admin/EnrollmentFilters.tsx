@@ -90,9 +90,14 @@ export function EnrollmentFiltersComponent({ filters, onChange, onRefresh }: Enr
             <SelectItem value="opened">Opened</SelectItem>
             <SelectItem value="processing">Processing</SelectItem>
             <SelectItem value="paid">Paid</SelectItem>
+            <SelectItem value="partially_paid">Partially Paid</SelectItem>
             <SelectItem value="failed">Failed</SelectItem>
             <SelectItem value="expired">Expired</SelectItem>
             <SelectItem value="canceled">Canceled</SelectItem>
+            <SelectItem value="partially_refunded">Partially Refunded</SelectItem>
+            <SelectItem value="refunded">Refunded</SelectItem>
+            <SelectItem value="reversed">Reversed</SelectItem>
+            <SelectItem value="disputed">Disputed</SelectItem>
           </SelectContent>
         </Select>
 
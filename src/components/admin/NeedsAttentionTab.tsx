@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { Card, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Loader2, Eye, RefreshCw } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { StatusBadge } from "@/components/StatusBadge";
+import { RegenerateLinkModal } from "./RegenerateLinkModal";
+import { TransactionDetailsModal } from "./TransactionDetailsModal";
+
+interface AttentionEnrollment {
+  id: string;
+  patient_name: string | null;
+  patient_email: string | null;
+  payer_name: string | null;
+  amount_cents: number;
+  currency: string | null;
+  status: React.ComponentProps<typeof StatusBadge>["status"];
+  policy_id: string | null;
+  failed_payment_attempts: number;
+  needs_attention_at: string;
+  needs_attention_reason: string | null;
+}
+
+// Enrollments whose payment failed too many times. Checkout stays closed until
+// staff send a new link (or record the payment offline).
+export function NeedsAttentionTab() {
+  const [regenerateEnrollment, setRegenerateEnrollment] = useState<AttentionEnrollment | null>(null);
+  const [detailsEnrollmentId, setDetailsEnrollmentId] = useState<string | null>(null);
+
+  const { data: enrollments = [], isLoading } = useQuery({
+    queryKey: ["needs-attention"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("enrollments")
+        .select("id, patient_name, patient_email, payer_name, amount_cents, currency, status, policy_id, failed_payment_attempts, needs_attention_at, needs_attention_reason")
+        .not("needs_attention_at", "is", null)
+        .neq("status", "canceled")
+        .order("needs_attention_at", { ascending: true });
+
+      if (error) throw error;
+      return data as AttentionEnrollment[];
+    },
+  });
+
+  const formatAmount = (cents: number, currency: string | null) => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: (currency || "usd").toUpperCase(),
+    }).format(cents / 100);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="card-premium overflow-hidden">
+        <CardHeader className="border-b border-border bg-muted/30">
+          <CardTitle className="text-lg">
+            Needs Attention
+            {enrollments.length > 0 && (
+              <span className="text-sm font-normal text-muted-foreground ml-2">
+                ({enrollments.length} waiting)
+              </span>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <div className="overflow-x-auto">
+          {isLoading ? (
+            <div className="flex justify-center items-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : enrollments.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              Nothing to follow up. Enrollments appear here once their payment has failed too many times.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="hover:bg-transparent">
+                  <TableHead>Flagged</TableHead>
+                  <TableHead>Patient</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead className="w-[180px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {enrollments.map((enrollment) => (
+                  <TableRow key={enrollment.id}>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      <p>{format(new Date(enrollment.needs_attention_at), "MMM d, yyyy")}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(enrollment.needs_attention_at), { addSuffix: true })}
+                      </p>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <p className="font-medium">{enrollment.patient_name || "Unknown"}</p>
+                      {enrollment.patient_email && (
+                        <p className="text-xs text-muted-foreground">{enrollment.patient_email}</p>
+                      )}
+                      {enrollment.payer_name && (
+                        <p className="text-xs text-muted-foreground">Paid by {enrollment.payer_name}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm font-medium">
+                      {formatAmount(enrollment.amount_cents, enrollment.currency)}
+                    </TableCell>
+                    <TableCell>
+                      <StatusBadge status={enrollment.status} />
+                    </TableCell>
+                    <TableCell className="text-sm">{enrollment.failed_payment_attempts}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground max-w-[320px]">
+                      {enrollment.needs_attention_reason || "—"}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-1"
+                          onClick={() => setDetailsEnrollmentId(enrollment.id)}
+                        >
+                          <Eye className="h-4 w-4" />
+                          Details
+                        </Button>
+                        {/* Part-paid enrollments keep their link; the rest is recorded offline */}
+                        {enrollment.status !== "partially_paid" && (
+                          <Button
+                            size="sm"
+                            className="gap-1"
+                            onClick={() => setRegenerateEnrollment(enrollment)}
+                          >
+                            <RefreshCw className="h-4 w-4" />
+                            New Link
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </Card>
+
+      {regenerateEnrollment && (
+        <RegenerateLinkModal
+          isOpen={!!regenerateEnrollment}
+          onClose={() => setRegenerateEnrollment(null)}
+          enrollment={regenerateEnrollment}
+        />
+      )}
+
+      {detailsEnrollmentId && (
+        <TransactionDetailsModal
+          isOpen={!!detailsEnrollmentId}
+          onClose={() => setDetailsEnrollmentId(null)}
+          enrollmentId={detailsEnrollmentId}
+        />
+      )}
+    </div>
+  );
+}
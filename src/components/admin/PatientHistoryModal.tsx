@@ -1,6 +1,6 @@
 import { useQuery } from "@tanstack/react-query";
 import { format } from "date-fns";
-import { Loader2, DollarSign, Calendar, CreditCard, Building2 } from "lucide-react";
+import { Loader2, DollarSign, Calendar, CreditCard, Building2, Banknote } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -11,6 +11,16 @@ import {
 import { StatusBadge } from "@/components/StatusBadge";
 import { supabase } from "@/integrations/supabase/client";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { PatientLedgerSection } from "./PatientLedgerSection";
+
+const paymentMethodLabels: Record<string, string> = {
+  card: "Card",
+  ach: "ACH",
+  check: "Check",
+  wire: "Wire",
+  cash: "Cash",
+};
 
 interface Patient {
   id: string;
@@ -69,7 +79,7 @@ export function PatientHistoryModal({ isOpen, onClose, patient }: PatientHistory
 
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
-      <DialogContent className="max-w-2xl max-h-[85vh]">
+      <DialogContent className="max-w-3xl max-h-[85vh]">
         <DialogHeader>
           <DialogTitle>Payment History</DialogTitle>
           <DialogDescription>
@@ -78,83 +88,100 @@ export function PatientHistoryModal({ isOpen, onClose, patient }: PatientHistory
           </DialogDescription>
         </DialogHeader>
 
-        {/* Summary Cards */}
-        <div className="grid grid-cols-3 gap-4 py-4">
-          <div className="rounded-lg border bg-card p-4">
-            <p className="text-xs text-muted-foreground uppercase tracking-wide">Total Paid</p>
-            <p className="text-2xl font-semibold text-success">{formatAmount(totalPaid)}</p>
-          </div>
-          <div className="rounded-lg border bg-card p-4">
-            <p className="text-xs text-muted-foreground uppercase tracking-wide">Pending</p>
-            <p className="text-2xl font-semibold text-warning">{formatAmount(totalPending)}</p>
-          </div>
-          <div className="rounded-lg border bg-card p-4">
-            <p className="text-xs text-muted-foreground uppercase tracking-wide">Transactions</p>
-            <p className="text-2xl font-semibold">{enrollments?.length || 0}</p>
-          </div>
-        </div>
+        <Tabs defaultValue="payments">
+          <TabsList>
+            <TabsTrigger value="payments">Payments</TabsTrigger>
+            <TabsTrigger value="account">Account</TabsTrigger>
+          </TabsList>
 
-        {/* Transaction List */}
-        <ScrollArea className="h-[400px] pr-4">
-          {isLoading ? (
-            <div className="flex justify-center items-center py-12">
-              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
-            </div>
-          ) : !enrollments || enrollments.length === 0 ? (
-            <div className="text-center py-12 text-muted-foreground">
-              No transactions found for this patient.
+          <TabsContent value="payments">
+            {/* Summary Cards */}
+            <div className="grid grid-cols-3 gap-4 py-4">
+              <div className="rounded-lg border bg-card p-4">
+                <p className="text-xs text-muted-foreground uppercase tracking-wide">Total Paid</p>
+                <p className="text-2xl font-semibold text-success">{formatAmount(totalPaid)}</p>
+              </div>
+              <div className="rounded-lg border bg-card p-4">
+                <p className="text-xs text-muted-foreground uppercase tracking-wide">Pending</p>
+                <p className="text-2xl font-semibold text-warning">{formatAmount(totalPending)}</p>
+              </div>
+              <div className="rounded-lg border bg-card p-4">
+                <p className="text-xs text-muted-foreground uppercase tracking-wide">Transactions</p>
+                <p className="text-2xl font-semibold">{enrollments?.length || 0}</p>
+              </div>
             </div>
-          ) : (
-            <div className="space-y-3">
-              {enrollments.map((enrollment) => (
-                <div
-                  key={enrollment.id}
-                  className="rounded-lg border bg-card/50 p-4 hover:bg-card transition-colors"
-                >
-                  <div className="flex items-start justify-between gap-4">
-                    <div className="flex-1 space-y-2">
-                      <div className="flex items-center gap-3">
-                        <span className="text-lg font-semibold">
-                          {formatAmount(enrollment.amount_cents)}
-                        </span>
-                        <StatusBadge status={enrollment.status as any} />
-                      </div>
-                      <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
-                        <div className="flex items-center gap-1">
-                          <Calendar className="h-3.5 w-3.5" />
-                          {enrollment.created_at
-                            ? format(new Date(enrollment.created_at), "MMM d, yyyy 'at' h:mm a")
-                            : "—"}
-                        </div>
-                        {enrollment.payment_method_type && (
-                          <div className="flex items-center gap-1">
-                            {enrollment.payment_method_type === "card" ? (
-                              <CreditCard className="h-3.5 w-3.5" />
-                            ) : (
-                              <Building2 className="h-3.5 w-3.5" />
-                            )}
-                            {enrollment.payment_method_type === "card" ? "Card" : "ACH"}
+
+            {/* Transaction List */}
+            <ScrollArea className="h-[400px] pr-4">
+              {isLoading ? (
+                <div className="flex justify-center items-center py-12">
+                  <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+                </div>
+              ) : !enrollments || enrollments.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">
+                  No transactions found for this patient.
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {enrollments.map((enrollment) => (
+                    <div
+                      key={enrollment.id}
+                      className="rounded-lg border bg-card/50 p-4 hover:bg-card transition-colors"
+                    >
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="flex-1 space-y-2">
+                          <div className="flex items-center gap-3">
+                            <span className="text-lg font-semibold">
+                              {formatAmount(enrollment.amount_cents)}
+                            </span>
+                            <StatusBadge status={enrollment.status as any} />
                           </div>
-                        )}
-                        {enrollment.paid_at && (
-                          <div className="flex items-center gap-1 text-success">
-                            <DollarSign className="h-3.5 w-3.5" />
-                            Paid {format(new Date(enrollment.paid_at), "MMM d, yyyy")}
+                          <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+                            <div className="flex items-center gap-1">
+                              <Calendar className="h-3.5 w-3.5" />
+                              {enrollment.created_at
+                                ? format(new Date(enrollment.created_at), "MMM d, yyyy 'at' h:mm a")
+                                : "—"}
+                            </div>
+                            {enrollment.payment_method_type && (
+                              <div className="flex items-center gap-1">
+                                {enrollment.payment_method_type === "card" ? (
+                                  <CreditCard className="h-3.5 w-3.5" />
+                                ) : enrollment.payment_method_type === "ach" ? (
+                                  <Building2 className="h-3.5 w-3.5" />
+                                ) : (
+                                  <Banknote className="h-3.5 w-3.5" />
+                                )}
+                                {paymentMethodLabels[enrollment.payment_method_type] || enrollment.payment_method_type}
+                              </div>
+                            )}
+                            {enrollment.paid_at && (
+                              <div className="flex items-center gap-1 text-success">
+                                <DollarSign className="h-3.5 w-3.5" />
+                                Paid {format(new Date(enrollment.paid_at), "MMM d, yyyy")}
+                              </div>
+                            )}
                           </div>
-                        )}
+                        </div>
+                        <div className="text-right">
+                          <p className="text-xs text-muted-foreground font-mono">
+                            ****{enrollment.token_last4}
+                          </p>
+                        </div>
                       </div>
                     </div>
-                    <div className="text-right">
-                      <p className="text-xs text-muted-foreground font-mono">
-                        ****{enrollment.token_last4}
-                      </p>
-                    </div>
-                  </div>
+                  ))}
                 </div>
-              ))}
-            </div>
-          )}
-        </ScrollArea>
+              )}
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="account">
+            <ScrollArea className="h-[500px] pr-4">
+              <PatientLedgerSection patient={patient} />
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,476 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Download, FileText, Loader2, Plus } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useAdminAuth } from "@/hooks/useAdminAuth";
+import { useToast } from "@/hooks/use-toast";
+
+interface LedgerEntry {
+  source_type: string;
+  source_id: string;
+  entry_type: "charge" | "deposit" | "credit" | "refund" | "adjustment";
+  occurred_at: string;
+  description: string;
+  amount_cents: number;
+  quote_id: string | null;
+  balance_cents: number;
+}
+
+interface PatientQuote {
+  id: string;
+  description: string;
+  amount_cents: number;
+  status: "open" | "closed" | "void";
+  created_at: string;
+}
+
+interface PatientStatement {
+  id: string;
+  balance_cents: number;
+  pdf_path: string;
+  issued_by_email: string | null;
+  created_at: string;
+}
+
+type AdjustmentType = "credit" | "adjustment";
+
+const entryTypeLabels: Record<LedgerEntry["entry_type"], string> = {
+  charge: "Charge",
+  deposit: "Payment",
+  credit: "Credit",
+  refund: "Refund",
+  adjustment: "Adjustment",
+};
+
+const formatAmount = (cents: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(cents / 100);
+
+const toCents = (value: string) => Math.round(parseFloat(value) * 100);
+
+interface PatientLedgerSectionProps {
+  patient: { id: string; name: string };
+}
+
+// The patient's account: quoted procedure prices, every payment credited
+// toward them, and credits, refunds and adjustments, with the running balance
+export function PatientLedgerSection({ patient }: PatientLedgerSectionProps) {
+  const [quoteForm, setQuoteForm] = useState({ description: "", amount: "" });
+  const [adjustmentForm, setAdjustmentForm] = useState({ type: "credit" as AdjustmentType, amount: "", description: "" });
+  const { user, adminUser } = useAdminAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const canManage = adminUser?.role !== "viewer";
+
+  const { data: entries = [], isLoading: entriesLoading } = useQuery({
+    queryKey: ["patient-ledger", patient.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("patient_ledger")
+        .select("source_type, source_id, entry_type, occurred_at, description, amount_cents, quote_id, balance_cents")
+        .eq("patient_id", patient.id)
+        .order("occurred_at", { ascending: true })
+        .order("source_id", { ascending: true });
+
+      if (error) throw error;
+      return data as LedgerEntry[];
+    },
+  });
+
+  const { data: quotes = [], isLoading: quotesLoading } = useQuery({
+    queryKey: ["patient-quotes", patient.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("patient_quotes")
+        .select("id, description, amount_cents, status, created_at")
+        .eq("patient_id", patient.id)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data as PatientQuote[];
+    },
+  });
+
+  const { data: statements = [] } = useQuery({
+    queryKey: ["patient-statements", patient.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("patient_statements")
+        .select("id, balance_cents, pdf_path, issued_by_email, created_at")
+        .eq("patient_id", patient.id)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data as PatientStatement[];
+    },
+  });
+
+  const openQuote = quotes.find((quote) => quote.status === "open");
+  const balanceCents = entries.length > 0 ? entries[entries.length - 1].balance_cents : 0;
+
+  const invalidateLedger = () => {
+    queryClient.invalidateQueries({ queryKey: ["patient-ledger", patient.id] });
+    queryClient.invalidateQueries({ queryKey: ["patient-quotes", patient.id] });
+    queryClient.invalidateQueries({ queryKey: ["patients"] });
+  };
+
+  // A new quote replaces the open one, which keeps its payments
+  const addQuoteMutation = useMutation({
+    mutationFn: async () => {
+      if (openQuote) {
+        const { error: closeError } = await supabase
+          .from("patient_quotes")
+          .update({ status: "closed" })
+          .eq("id", openQuote.id);
+        if (closeError) throw closeError;
+      }
+
+      const { error } = await supabase.from("patient_quotes").insert({
+        patient_id: patient.id,
+        description: quoteForm.description.trim(),
+        amount_cents: toCents(quoteForm.amount),
+        created_by: user?.id || null,
+        created_by_email: user?.email || null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateLedger();
+      setQuoteForm({ description: "", amount: "" });
+      toast({ title: "Quote recorded", description: "Payments on this patient's enrollments are credited toward it." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to record quote", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const quoteStatusMutation = useMutation({
+    mutationFn: async ({ quoteId, status }: { quoteId: string; status: PatientQuote["status"] }) => {
+      const { error } = await supabase
+        .from("patient_quotes")
+        .update({ status })
+        .eq("id", quoteId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateLedger();
+      toast({ title: "Quote updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update quote", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const addAdjustmentMutation = useMutation({
+    mutationFn: async () => {
+      const cents = toCents(adjustmentForm.amount);
+      const { error } = await supabase.from("patient_ledger_adjustments").insert({
+        patient_id: patient.id,
+        quote_id: openQuote?.id || null,
+        entry_type: adjustmentForm.type,
+        // Credits are entered as a positive amount and reduce the balance
+        amount_cents: adjustmentForm.type === "credit" ? -Math.abs(cents) : cents,
+        description: adjustmentForm.description.trim(),
+        created_by: user?.id || null,
+        created_by_email: user?.email || null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateLedger();
+      setAdjustmentForm({ type: "credit", amount: "", description: "" });
+      toast({ title: adjustmentForm.type === "credit" ? "Credit recorded" : "Adjustment recorded" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to record entry", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openStatement = async (pdfPath: string) => {
+    const { data } = await supabase.storage
+      .from("patient-statements")
+      .createSignedUrl(pdfPath, 60);
+    if (data?.signedUrl) {
+      window.open(data.signedUrl, "_blank");
+    }
+  };
+
+  const statementMutation = useMutation({
+    mutationFn: async () => {
+      const { data: sessionData } = await supabase.auth.getSession();
+      const token = sessionData?.session?.access_token;
+      if (!token) throw new Error("Not authenticated");
+
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-patient-statement`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({ patient_id: patient.id }),
+        },
+      );
+
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || "Failed to issue statement");
+      return result as { statement_id: string; pdf_path: string };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["patient-statements", patient.id] });
+      toast({ title: "Statement issued" });
+      openStatement(result.pdf_path);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to issue statement", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Remaining on a quote: its charge less the payments and credits applied to it
+  const quoteRemaining = (quoteId: string) =>
+    entries.filter((entry) => entry.quote_id === quoteId).reduce((sum, entry) => sum + entry.amount_cents, 0);
+
+  const quoteFormValid = quoteForm.description.trim() && parseFloat(quoteForm.amount) > 0;
+  const adjustmentFormValid = adjustmentForm.description.trim() &&
+    !isNaN(parseFloat(adjustmentForm.amount)) &&
+    toCents(adjustmentForm.amount) !== 0 &&
+    (adjustmentForm.type !== "credit" || parseFloat(adjustmentForm.amount) > 0);
+
+  if (entriesLoading || quotesLoading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-xs text-muted-foreground uppercase tracking-wide">
+            {balanceCents >= 0 ? "Balance Due" : "Credit Balance"}
+          </p>
+          <p className={`text-2xl font-semibold ${balanceCents > 0 ? "text-warning" : "text-success"}`}>
+            {formatAmount(Math.abs(balanceCents))}
+          </p>
+        </div>
+        {canManage && (
+          <Button variant="outline" size="sm" onClick={() => statementMutation.mutate()} disabled={statementMutation.isPending}>
+            {statementMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <FileText className="h-4 w-4 mr-2" />}
+            Issue Statement
+          </Button>
+        )}
+      </div>
+
+      {/* Quotes */}
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium">Procedure Quotes</h4>
+        {quotes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No quote recorded. Payments are credited toward the next quote recorded for this patient.
+          </p>
+        ) : (
+          quotes.map((quote) => (
+            <div key={quote.id} className="flex items-center justify-between gap-4 rounded-lg border bg-card/50 p-3">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className={`text-sm font-medium ${quote.status === "void" ? "line-through text-muted-foreground" : ""}`}>
+                    {quote.description}
+                  </span>
+                  <Badge variant={quote.status === "open" ? "default" : "secondary"} className="capitalize">
+                    {quote.status}
+                  </Badge>
+                </div>
+                {quote.status !== "void" && (
+                  <p className="text-xs text-muted-foreground">
+                    Quoted {formatAmount(quote.amount_cents)} · Credited {formatAmount(quote.amount_cents - quoteRemaining(quote.id))} · Remaining {formatAmount(quoteRemaining(quote.id))}
+                  </p>
+                )}
+              </div>
+              {canManage && quote.status !== "void" && (
+                <div className="flex gap-2">
+                  {quote.status === "open" && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => quoteStatusMutation.mutate({ quoteId: quote.id, status: "closed" })}
+                      disabled={quoteStatusMutation.isPending}
+                    >
+                      Close
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive"
+                    onClick={() => quoteStatusMutation.mutate({ quoteId: quote.id, status: "void" })}
+                    disabled={quoteStatusMutation.isPending}
+                  >
+                    Void
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+        {canManage && (
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="quote-description" className="text-xs">Procedure</Label>
+              <Input
+                id="quote-description"
+                value={quoteForm.description}
+                onChange={(e) => setQuoteForm({ ...quoteForm, description: e.target.value })}
+                placeholder="e.g. Procedure and facility fees"
+              />
+            </div>
+            <div className="w-32 space-y-1">
+              <Label htmlFor="quote-amount" className="text-xs">Price ($)</Label>
+              <Input
+                id="quote-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={quoteForm.amount}
+                onChange={(e) => setQuoteForm({ ...quoteForm, amount: e.target.value })}
+              />
+            </div>
+            <Button size="sm" onClick={() => addQuoteMutation.mutate()} disabled={!quoteFormValid || addQuoteMutation.isPending}>
+              {addQuoteMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
+              {openQuote ? "Replace Quote" : "Record Quote"}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Ledger */}
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium">Account Activity</h4>
+        <Table>
+          <TableHeader>
+            <TableRow className="hover:bg-transparent">
+              <TableHead>Date</TableHead>
+              <TableHead>Description</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead className="text-right">Balance</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-sm text-muted-foreground">
+                  No activity on this account.
+                </TableCell>
+              </TableRow>
+            ) : entries.map((entry) => (
+              <TableRow key={`${entry.source_type}-${entry.source_id}`}>
+                <TableCell className="text-sm whitespace-nowrap">
+                  {format(new Date(entry.occurred_at), "MMM d, yyyy")}
+                </TableCell>
+                <TableCell className="text-sm">
+                  <span className="text-xs text-muted-foreground mr-2">{entryTypeLabels[entry.entry_type]}</span>
+                  {entry.description}
+                </TableCell>
+                <TableCell className={`text-sm text-right ${entry.amount_cents < 0 ? "text-success" : ""}`}>
+                  {formatAmount(entry.amount_cents)}
+                </TableCell>
+                <TableCell className="text-sm text-right font-medium">{formatAmount(entry.balance_cents)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {canManage && (
+          <div className="flex items-end gap-2">
+            <div className="w-36 space-y-1">
+              <Label className="text-xs">Entry</Label>
+              <Select
+                value={adjustmentForm.type}
+                onValueChange={(value) => setAdjustmentForm({ ...adjustmentForm, type: value as AdjustmentType })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="credit">Credit</SelectItem>
+                  <SelectItem value="adjustment">Adjustment</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="w-32 space-y-1">
+              <Label htmlFor="adjustment-amount" className="text-xs">Amount ($)</Label>
+              <Input
+                id="adjustment-amount"
+                type="number"
+                step="0.01"
+                value={adjustmentForm.amount}
+                onChange={(e) => setAdjustmentForm({ ...adjustmentForm, amount: e.target.value })}
+                placeholder={adjustmentForm.type === "credit" ? "" : "+/-"}
+              />
+            </div>
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="adjustment-description" className="text-xs">Description</Label>
+              <Input
+                id="adjustment-description"
+                value={adjustmentForm.description}
+                onChange={(e) => setAdjustmentForm({ ...adjustmentForm, description: e.target.value })}
+                placeholder="Reason for the entry"
+              />
+            </div>
+            <Button size="sm" onClick={() => addAdjustmentMutation.mutate()} disabled={!adjustmentFormValid || addAdjustmentMutation.isPending}>
+              {addAdjustmentMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
+              Add
+            </Button>
+          </div>
+        )}
+        {canManage && adjustmentForm.type === "adjustment" && (
+          <p className="text-xs text-muted-foreground">
+            A positive adjustment adds to what the patient owes; a negative one reduces it.
+          </p>
+        )}
+      </div>
+
+      {/* Issued statements */}
+      {statements.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Statements</h4>
+          {statements.map((statement) => (
+            <div key={statement.id} className="flex items-center justify-between gap-4 text-sm">
+              <span>
+                {format(new Date(statement.created_at), "MMM d, yyyy 'at' h:mm a")}
+                <span className="text-muted-foreground">
+                  {" "}· Balance {formatAmount(statement.balance_cents)}
+                  {statement.issued_by_email && ` · ${statement.issued_by_email}`}
+                </span>
+              </span>
+              <Button variant="ghost" size="sm" onClick={() => openStatement(statement.pdf_path)}>
+                <Download className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
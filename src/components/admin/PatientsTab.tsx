@@ -9,6 +9,7 @@ import {
   User,
   Mail,
   Phone,
+  MapPin,
   Trash2
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -48,20 +49,76 @@ import { ImportPatientsModal } from "./ImportPatientsModal";
 import { SurgeonSelect } from "./SurgeonSelect";
 import { DeleteConfirmationDialog } from "./DeleteConfirmationDialog";
 
+// Where each contact field's value came from, keyed by column name
+type PatientFieldSources = Record<string, {
+  source: "enrollment" | "stripe_checkout" | "admin";
+  updated_at: string;
+  enrollment_id?: string | null;
+  previous?: string | null;
+}>;
+
 interface Patient {
   id: string;
   name: string;
   email: string | null;
   phone: string | null;
+  address_line1: string | null;
+  address_line2: string | null;
+  city: string | null;
+  state: string | null;
+  postal_code: string | null;
+  country: string | null;
+  field_sources: PatientFieldSources | null;
   notes: string | null;
   surgeon_id: string | null;
   surgeon?: { id: string; name: string } | null;
   created_at: string;
   updated_at: string;
-  total_paid: number;
+  total_paid: number; // Net of refunds
+  balance_cents: number; // Owed on quotes; negative is a credit
   enrollment_count: number;
 }
 
+type ContactField = "name" | "email" | "phone" | "address_line1" | "address_line2" | "city" | "state" | "postal_code" | "country";
+
+const contactFields: ContactField[] = [
+  "name", "email", "phone", "address_line1", "address_line2", "city", "state", "postal_code", "country",
+];
+
+const fieldSourceLabels: Record<string, string> = {
+  enrollment: "the enrollment request",
+  stripe_checkout: "Stripe checkout",
+  admin: "a coordinator",
+};
+
+// Street on one line, city/state/ZIP on the next
+const formatAddress = (patient: Patient) => {
+  if (!patient.address_line1) return null;
+  const street = [patient.address_line1, patient.address_line2].filter(Boolean).join(", ");
+  const locality = [patient.city, [patient.state, patient.postal_code].filter(Boolean).join(" "), patient.country]
+    .filter(Boolean)
+    .join(", ");
+  return { street, locality };
+};
+
+// Fields a coordinator entered or changed win over later enrollments and checkouts
+const adminFieldSources = (
+  original: Partial<Record<ContactField, string | null>> | undefined,
+  patient: Partial<Record<ContactField, string | null>>,
+  sources: PatientFieldSources | null,
+): PatientFieldSources => {
+  const updatedAt = new Date().toISOString();
+  const fieldSources = { ...(sources ?? {}) };
+  contactFields.forEach((field) => {
+    const previous = original?.[field] ?? null;
+    const value = patient[field] ?? null;
+    if (value !== previous) {
+      fieldSources[field] = { source: "admin", updated_at: updatedAt, previous };
+    }
+  });
+  return fieldSources;
+};
+
 export function PatientsTab() {
   const [search, setSearch] = useState("");
   const [editPatient, setEditPatient] = useState<Patient | null>(null);
@@ -86,31 +143,37 @@ export function PatientsTab() {
 
       if (patientsError) throw patientsError;
 
-      // Get enrollment aggregates per patient
+      // Get enrollment counts per patient
       const { data: enrollmentsData, error: enrollmentsError } = await supabase
         .from("enrollments")
-        .select("patient_id, amount_cents, status");
+        .select("patient_id");
 
       if (enrollmentsError) throw enrollmentsError;
 
-      // Calculate totals per patient
-      const patientStats = new Map<string, { total_paid: number; enrollment_count: number }>();
-      
+      // Payments, refunds and the balance come from the patient ledger
+      const { data: balancesData, error: balancesError } = await supabase
+        .from("patient_balances")
+        .select("patient_id, balance_cents, paid_cents, refunded_cents");
+
+      if (balancesError) throw balancesError;
+
+      const enrollmentCounts = new Map<string, number>();
       enrollmentsData?.forEach((enrollment) => {
         if (!enrollment.patient_id) return;
-        const stats = patientStats.get(enrollment.patient_id) || { total_paid: 0, enrollment_count: 0 };
-        stats.enrollment_count++;
-        if (enrollment.status === "paid") {
-          stats.total_paid += enrollment.amount_cents;
-        }
-        patientStats.set(enrollment.patient_id, stats);
+        enrollmentCounts.set(enrollment.patient_id, (enrollmentCounts.get(enrollment.patient_id) || 0) + 1);
       });
 
-      return patientsData.map((patient) => ({
-        ...patient,
-        total_paid: patientStats.get(patient.id)?.total_paid || 0,
-        enrollment_count: patientStats.get(patient.id)?.enrollment_count || 0,
-      })) as Patient[];
+      const balances = new Map(balancesData?.map((balance) => [balance.patient_id, balance]));
+
+      return patientsData.map((patient) => {
+        const balance = balances.get(patient.id);
+        return {
+          ...patient,
+          total_paid: (balance?.paid_cents || 0) - (balance?.refunded_cents || 0),
+          balance_cents: balance?.balance_cents || 0,
+          enrollment_count: enrollmentCounts.get(patient.id) || 0,
+        };
+      }) as Patient[];
     },
   });
 
@@ -124,6 +187,11 @@ export function PatientsTab() {
           email: patient.email || null,
           phone: patient.phone || null,
           surgeon_id: patient.surgeon_id,
+          field_sources: adminFieldSources(undefined, {
+            name: patient.name,
+            email: patient.email || null,
+            phone: patient.phone || null,
+          }, null),
         })
         .select()
         .single();
@@ -151,14 +219,22 @@ export function PatientsTab() {
   // Update patient mutation
   const updatePatientMutation = useMutation({
     mutationFn: async (patient: Patient) => {
+      const original = patients?.find((p) => p.id === patient.id);
       const { error } = await supabase
         .from("patients")
         .update({
           name: patient.name,
           email: patient.email,
           phone: patient.phone,
+          address_line1: patient.address_line1,
+          address_line2: patient.address_line2,
+          city: patient.city,
+          state: patient.state,
+          postal_code: patient.postal_code,
+          country: patient.country,
           notes: patient.notes,
           surgeon_id: patient.surgeon_id,
+          field_sources: adminFieldSources(original, patient, patient.field_sources),
         })
         .eq("id", patient.id);
 
@@ -281,6 +357,7 @@ export function PatientsTab() {
                   <TableHead>Surgeon</TableHead>
                   <TableHead>Enrollments</TableHead>
                   <TableHead>Total Paid</TableHead>
+                  <TableHead>Balance</TableHead>
                   <TableHead>Added</TableHead>
                   <TableHead className="w-12"></TableHead>
                 </TableRow>
@@ -317,7 +394,16 @@ export function PatientsTab() {
                             {patient.phone}
                           </div>
                         )}
-                        {!patient.email && !patient.phone && (
+                        {formatAddress(patient) && (
+                          <div className="flex items-start gap-1 text-sm text-muted-foreground">
+                            <MapPin className="h-3 w-3 mt-1 shrink-0" />
+                            <div>
+                              <p>{formatAddress(patient)!.street}</p>
+                              <p>{formatAddress(patient)!.locality}</p>
+                            </div>
+                          </div>
+                        )}
+                        {!patient.email && !patient.phone && !patient.address_line1 && (
                           <span className="text-sm text-muted-foreground">No contact info</span>
                         )}
                       </div>
@@ -335,6 +421,9 @@ export function PatientsTab() {
                     <TableCell className="font-medium text-success">
                       {formatAmount(patient.total_paid)}
                     </TableCell>
+                    <TableCell className={patient.balance_cents > 0 ? "font-medium text-warning" : "text-muted-foreground"}>
+                      {formatAmount(patient.balance_cents)}
+                    </TableCell>
                     <TableCell className="text-muted-foreground">
                       {format(new Date(patient.created_at), "MMM d, yyyy")}
                     </TableCell>
@@ -479,6 +568,54 @@ export function PatientsTab() {
                   onChange={(e) => setEditPatient({ ...editPatient, phone: e.target.value || null })}
                 />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-address-line1">Mailing Address</Label>
+                <Input
+                  id="edit-address-line1"
+                  value={editPatient.address_line1 || ""}
+                  onChange={(e) => setEditPatient({ ...editPatient, address_line1: e.target.value || null })}
+                  placeholder="Street address"
+                />
+                <Input
+                  id="edit-address-line2"
+                  value={editPatient.address_line2 || ""}
+                  onChange={(e) => setEditPatient({ ...editPatient, address_line2: e.target.value || null })}
+                  placeholder="Apt, suite, unit (optional)"
+                />
+                <div className="grid grid-cols-2 gap-2">
+                  <Input
+                    id="edit-city"
+                    value={editPatient.city || ""}
+                    onChange={(e) => setEditPatient({ ...editPatient, city: e.target.value || null })}
+                    placeholder="City"
+                  />
+                  <Input
+                    id="edit-state"
+                    value={editPatient.state || ""}
+                    onChange={(e) => setEditPatient({ ...editPatient, state: e.target.value || null })}
+                    placeholder="State"
+                  />
+                  <Input
+                    id="edit-postal-code"
+                    value={editPatient.postal_code || ""}
+                    onChange={(e) => setEditPatient({ ...editPatient, postal_code: e.target.value || null })}
+                    placeholder="ZIP code"
+                  />
+                  <Input
+                    id="edit-country"
+                    value={editPatient.country || ""}
+                    onChange={(e) => setEditPatient({ ...editPatient, country: e.target.value.toUpperCase() || null })}
+                    placeholder="Country (e.g. US)"
+                    maxLength={2}
+                  />
+                </div>
+                {editPatient.field_sources?.address_line1 && (
+                  <p className="text-xs text-muted-foreground">
+                    Address from {fieldSourceLabels[editPatient.field_sources.address_line1.source]} on{" "}
+                    {format(new Date(editPatient.field_sources.address_line1.updated_at), "MMM d, yyyy")}
+                  </p>
+                )}
+              </div>
               <div className="space-y-2">
                 <Label htmlFor="edit-notes">Notes</Label>
                 <Input
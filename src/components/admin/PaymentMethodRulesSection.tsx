@@ -0,0 +1,518 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Plus, Pencil, Trash2, Percent } from "lucide-react";
+import { toast } from "sonner";
+
+interface PaymentMethodRule {
+  id: string;
+  name: string;
+  payment_method: "card" | "ach";
+  adjustment_type: "surcharge" | "discount";
+  percent_bps: number;
+  fixed_cents: number;
+  min_amount_cents: number | null;
+  max_amount_cents: number | null;
+  is_active: boolean;
+  sort_order: number;
+}
+
+interface RuleFormData {
+  name: string;
+  payment_method: "card" | "ach";
+  adjustment_type: "surcharge" | "discount";
+  percent: string;
+  fixed: string;
+  min_amount: string;
+  max_amount: string;
+  sort_order: string;
+  is_active: boolean;
+}
+
+const initialFormData: RuleFormData = {
+  name: "",
+  payment_method: "card",
+  adjustment_type: "surcharge",
+  percent: "",
+  fixed: "",
+  min_amount: "",
+  max_amount: "",
+  sort_order: "0",
+  is_active: true,
+};
+
+const formatUsd = (cents: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(cents / 100);
+
+const toCents = (value: string) => (value.trim() ? Math.round(parseFloat(value) * 100) : null);
+
+const describeAdjustment = (rule: PaymentMethodRule) =>
+  [
+    rule.percent_bps > 0 && `${rule.percent_bps / 100}%`,
+    rule.fixed_cents > 0 && formatUsd(rule.fixed_cents),
+  ].filter(Boolean).join(" + ");
+
+const describeRange = (rule: PaymentMethodRule) => {
+  if (rule.min_amount_cents === null && rule.max_amount_cents === null) return "Any amount";
+  if (rule.max_amount_cents === null) return `${formatUsd(rule.min_amount_cents!)} and up`;
+  if (rule.min_amount_cents === null) return `Up to ${formatUsd(rule.max_amount_cents)}`;
+  return `${formatUsd(rule.min_amount_cents)} – ${formatUsd(rule.max_amount_cents)}`;
+};
+
+// Card surcharges and ACH discounts applied to the checkout payment. Rules are
+// matched by payment method and charge amount; the first active match wins.
+export function PaymentMethodRulesSection() {
+  const queryClient = useQueryClient();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<PaymentMethodRule | null>(null);
+  const [deleteRule, setDeleteRule] = useState<PaymentMethodRule | null>(null);
+  const [formData, setFormData] = useState<RuleFormData>(initialFormData);
+
+  const { data: rules = [], isLoading } = useQuery({
+    queryKey: ["payment-method-rules"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("payment_method_rules")
+        .select("*")
+        .order("sort_order")
+        .order("name");
+
+      if (error) throw error;
+      return data as PaymentMethodRule[];
+    },
+  });
+
+  const toRow = (data: RuleFormData) => ({
+    name: data.name.trim(),
+    payment_method: data.payment_method,
+    adjustment_type: data.adjustment_type,
+    percent_bps: Math.round((parseFloat(data.percent) || 0) * 100),
+    fixed_cents: toCents(data.fixed) ?? 0,
+    min_amount_cents: toCents(data.min_amount),
+    max_amount_cents: toCents(data.max_amount),
+    sort_order: parseInt(data.sort_order, 10) || 0,
+    is_active: data.is_active,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: RuleFormData) => {
+      const { error } = await supabase.from("payment_method_rules").insert(toRow(data));
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["payment-method-rules"] });
+      toast.success("Rule created successfully");
+      closeModal();
+    },
+    onError: (error) => {
+      toast.error(`Failed to create rule: ${error.message}`);
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: RuleFormData }) => {
+      const { error } = await supabase
+        .from("payment_method_rules")
+        .update(toRow(data))
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["payment-method-rules"] });
+      toast.success("Rule updated successfully");
+      closeModal();
+    },
+    onError: (error) => {
+      toast.error(`Failed to update rule: ${error.message}`);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("payment_method_rules").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["payment-method-rules"] });
+      toast.success("Rule deleted successfully");
+      setDeleteRule(null);
+    },
+    onError: (error) => {
+      toast.error(`Failed to delete rule: ${error.message}`);
+    },
+  });
+
+  const openCreateModal = () => {
+    setEditingRule(null);
+    setFormData(initialFormData);
+    setIsModalOpen(true);
+  };
+
+  const openEditModal = (rule: PaymentMethodRule) => {
+    setEditingRule(rule);
+    setFormData({
+      name: rule.name,
+      payment_method: rule.payment_method,
+      adjustment_type: rule.adjustment_type,
+      percent: rule.percent_bps > 0 ? String(rule.percent_bps / 100) : "",
+      fixed: rule.fixed_cents > 0 ? (rule.fixed_cents / 100).toFixed(2) : "",
+      min_amount: rule.min_amount_cents !== null ? (rule.min_amount_cents / 100).toFixed(2) : "",
+      max_amount: rule.max_amount_cents !== null ? (rule.max_amount_cents / 100).toFixed(2) : "",
+      sort_order: String(rule.sort_order),
+      is_active: rule.is_active,
+    });
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingRule(null);
+    setFormData(initialFormData);
+  };
+
+  const handleSubmit = () => {
+    const row = toRow(formData);
+    if (!row.name || (row.percent_bps <= 0 && row.fixed_cents <= 0)) {
+      toast.error("Please enter a label and a percentage or fixed amount");
+      return;
+    }
+    if (row.min_amount_cents !== null && row.max_amount_cents !== null && row.min_amount_cents > row.max_amount_cents) {
+      toast.error("The minimum amount must not be above the maximum");
+      return;
+    }
+
+    if (editingRule) {
+      updateMutation.mutate({ id: editingRule.id, data: formData });
+    } else {
+      createMutation.mutate(formData);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold">Payment Method Rules</h2>
+          <p className="text-sm text-muted-foreground">
+            Card surcharges and ACH discounts added to the checkout payment as a separate line
+          </p>
+        </div>
+        <Button onClick={openCreateModal}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rule
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : rules.length === 0 ? (
+        <div className="text-center py-12 border rounded-lg bg-muted/20">
+          <Percent className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+          <h3 className="text-lg font-medium mb-2">No rules yet</h3>
+          <p className="text-muted-foreground mb-4">
+            Card and ACH are offered at the same price
+          </p>
+        </div>
+      ) : (
+        <div className="border rounded-lg overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Label</TableHead>
+                <TableHead>Method</TableHead>
+                <TableHead>Adjustment</TableHead>
+                <TableHead>Charge Amount</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule) => (
+                <TableRow key={rule.id}>
+                  <TableCell className="font-medium">{rule.name}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{rule.payment_method === "ach" ? "ACH" : "Card"}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    {rule.adjustment_type === "discount" ? "−" : "+"}
+                    {describeAdjustment(rule)}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{describeRange(rule)}</TableCell>
+                  <TableCell>
+                    <Badge variant={rule.is_active ? "default" : "secondary"}>
+                      {rule.is_active ? "Active" : "Inactive"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex items-center justify-end gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openEditModal(rule)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDeleteRule(rule)}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {/* Create/Edit Modal */}
+      <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {editingRule ? "Edit Rule" : "Create Rule"}
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-name">Label *</Label>
+              <Input
+                id="rule-name"
+                value={formData.name}
+                onChange={(e) =>
+                  setFormData({ ...formData, name: e.target.value })
+                }
+                placeholder="e.g., Card processing fee"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule-method">Payment Method</Label>
+                <Select
+                  value={formData.payment_method}
+                  onValueChange={(value) => setFormData({ ...formData, payment_method: value as "card" | "ach" })}
+                >
+                  <SelectTrigger id="rule-method">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="card">Card (incl. wallets)</SelectItem>
+                    <SelectItem value="ach">ACH bank transfer</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="rule-type">Type</Label>
+                <Select
+                  value={formData.adjustment_type}
+                  onValueChange={(value) => setFormData({ ...formData, adjustment_type: value as "surcharge" | "discount" })}
+                >
+                  <SelectTrigger id="rule-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="surcharge">Surcharge</SelectItem>
+                    <SelectItem value="discount">Discount</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule-percent">Percentage</Label>
+                <div className="relative">
+                  <Input
+                    id="rule-percent"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    value={formData.percent}
+                    onChange={(e) =>
+                      setFormData({ ...formData, percent: e.target.value })
+                    }
+                    className="pr-7"
+                  />
+                  <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground">%</span>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="rule-fixed">Fixed Amount (USD)</Label>
+                <div className="relative">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">$</span>
+                  <Input
+                    id="rule-fixed"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.fixed}
+                    onChange={(e) =>
+                      setFormData({ ...formData, fixed: e.target.value })
+                    }
+                    className="pl-7"
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule-min">Charges From (USD)</Label>
+                <Input
+                  id="rule-min"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="No minimum"
+                  value={formData.min_amount}
+                  onChange={(e) =>
+                    setFormData({ ...formData, min_amount: e.target.value })
+                  }
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="rule-max">Charges Up To (USD)</Label>
+                <Input
+                  id="rule-max"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="No maximum"
+                  value={formData.max_amount}
+                  onChange={(e) =>
+                    setFormData({ ...formData, max_amount: e.target.value })
+                  }
+                />
+              </div>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Use amount ranges to steer patients: discount ACH on large deposits to save card fees,
+              and leave small charges on card so they settle immediately. The cheaper method is
+              preselected on the payment page.
+            </p>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule-sort">Sort Order</Label>
+                <Input
+                  id="rule-sort"
+                  type="number"
+                  step="1"
+                  value={formData.sort_order}
+                  onChange={(e) =>
+                    setFormData({ ...formData, sort_order: e.target.value })
+                  }
+                />
+              </div>
+
+              <div className="flex items-center justify-between pt-6">
+                <Label>Active</Label>
+                <Switch
+                  checked={formData.is_active}
+                  onCheckedChange={(checked) =>
+                    setFormData({ ...formData, is_active: checked })
+                  }
+                />
+              </div>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Rule changes apply when a patient starts checkout. Payments already made keep their adjustment.
+            </p>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeModal}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={createMutation.isPending || updateMutation.isPending}
+            >
+              {createMutation.isPending || updateMutation.isPending
+                ? "Saving..."
+                : editingRule
+                ? "Update Rule"
+                : "Create Rule"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog
+        open={!!deleteRule}
+        onOpenChange={() => setDeleteRule(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Rule</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete "{deleteRule?.name}"? Payments
+              already made keep their adjustment. To pause the rule instead,
+              mark it inactive.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteRule && deleteMutation.mutate(deleteRule.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
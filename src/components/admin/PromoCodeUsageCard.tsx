@@ -0,0 +1,99 @@
+import { useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface PromoEnrollment {
+  status: string;
+  amount_cents: number;
+  promo_code: string | null;
+  promo_discount_cents: number | null;
+}
+
+interface PromoCodeStats {
+  code: string;
+  applied: number;
+  paid: number;
+  discountCents: number; // Given on paid enrollments
+  revenueCents: number; // Paid amount after the discount
+}
+
+interface PromoCodeUsageCardProps {
+  enrollments: PromoEnrollment[];
+  isLoading: boolean;
+}
+
+// Promo codes applied to enrollments created in the selected period
+export function PromoCodeUsageCard({ enrollments, isLoading }: PromoCodeUsageCardProps) {
+  const promoStats = useMemo(() => {
+    const statsByCode = new Map<string, PromoCodeStats>();
+    for (const enrollment of enrollments) {
+      if (!enrollment.promo_code) continue;
+      const current = statsByCode.get(enrollment.promo_code) ||
+        { code: enrollment.promo_code, applied: 0, paid: 0, discountCents: 0, revenueCents: 0 };
+      current.applied += 1;
+      if (enrollment.status === "paid") {
+        current.paid += 1;
+        current.discountCents += enrollment.promo_discount_cents || 0;
+        current.revenueCents += enrollment.amount_cents;
+      }
+      statsByCode.set(enrollment.promo_code, current);
+    }
+    return Array.from(statsByCode.values()).sort((a, b) => b.applied - a.applied);
+  }, [enrollments]);
+
+  const formatAmount = (cents: number) =>
+    new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", minimumFractionDigits: 0 }).format(cents / 100);
+
+  const totalDiscount = promoStats.reduce((sum, s) => sum + s.discountCents, 0);
+
+  return (
+    <Card className="card-premium">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg">Promo Codes</CardTitle>
+        {promoStats.length > 0 && (
+          <p className="text-sm text-muted-foreground">{formatAmount(totalDiscount)} discounted on paid enrollments</p>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-[120px] w-full" />
+        ) : promoStats.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No promo codes used in this period
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead className="text-right">Applied</TableHead>
+                <TableHead className="text-right">Paid</TableHead>
+                <TableHead className="text-right">Discount Given</TableHead>
+                <TableHead className="text-right">Paid Revenue</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {promoStats.map((stat) => (
+                <TableRow key={stat.code}>
+                  <TableCell className="font-mono font-medium">{stat.code}</TableCell>
+                  <TableCell className="text-right">{stat.applied}</TableCell>
+                  <TableCell className="text-right">{stat.paid}</TableCell>
+                  <TableCell className="text-right">{formatAmount(stat.discountCents)}</TableCell>
+                  <TableCell className="text-right">{formatAmount(stat.revenueCents)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,600 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Plus, Pencil, Trash2, Tag } from "lucide-react";
+import { toast } from "sonner";
+
+interface PromoCode {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: "percent" | "fixed";
+  percent_bps: number | null;
+  amount_off_cents: number | null;
+  valid_from: string | null;
+  valid_until: string | null;
+  max_uses: number | null;
+  surgeon_id: string | null;
+  product_id: string | null;
+  is_active: boolean;
+  surgeon: { name: string } | null;
+  product: { name: string } | null;
+  enrollments: { count: number }[];
+}
+
+interface PromoFormData {
+  code: string;
+  description: string;
+  discount_type: "percent" | "fixed";
+  value: string;
+  valid_from: string;
+  valid_until: string;
+  max_uses: string;
+  surgeon_id: string;
+  product_id: string;
+  is_active: boolean;
+}
+
+const initialFormData: PromoFormData = {
+  code: "",
+  description: "",
+  discount_type: "percent",
+  value: "",
+  valid_from: "",
+  valid_until: "",
+  max_uses: "",
+  surgeon_id: "any",
+  product_id: "any",
+  is_active: true,
+};
+
+const CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+
+const formatUsd = (cents: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(cents / 100);
+
+const describeDiscount = (promo: PromoCode) =>
+  promo.discount_type === "percent"
+    ? `${(promo.percent_bps || 0) / 100}% off`
+    : `${formatUsd(promo.amount_off_cents || 0)} off`;
+
+const describeValidity = (promo: PromoCode) => {
+  const from = promo.valid_from && format(new Date(promo.valid_from), "MMM d, yyyy");
+  const until = promo.valid_until && format(new Date(promo.valid_until), "MMM d, yyyy");
+  if (!from && !until) return "Always";
+  if (!until) return `From ${from}`;
+  if (!from) return `Until ${until}`;
+  return `${from} – ${until}`;
+};
+
+// Codes patients or payers enter on the enrollment link before the first
+// payment. The discount is checked and applied by create-checkout-session.
+export function PromoCodesSection() {
+  const queryClient = useQueryClient();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingPromo, setEditingPromo] = useState<PromoCode | null>(null);
+  const [deletePromo, setDeletePromo] = useState<PromoCode | null>(null);
+  const [formData, setFormData] = useState<PromoFormData>(initialFormData);
+
+  const { data: promoCodes = [], isLoading } = useQuery({
+    queryKey: ["promo-codes"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("promo_codes")
+        .select("*, surgeon:surgeons(name), product:products(name), enrollments(count)")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data as unknown as PromoCode[];
+    },
+  });
+
+  const { data: surgeons = [] } = useQuery({
+    queryKey: ["surgeons"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("surgeons")
+        .select("id, name, specialty")
+        .eq("is_active", true)
+        .order("name");
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: products = [] } = useQuery({
+    queryKey: ["promo-code-products"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("products")
+        .select("id, name")
+        .eq("is_active", true)
+        .order("name");
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const toRow = (data: PromoFormData) => {
+    const value = parseFloat(data.value) || 0;
+    return {
+      code: data.code.trim().toUpperCase(),
+      description: data.description.trim() || null,
+      discount_type: data.discount_type,
+      percent_bps: data.discount_type === "percent" ? Math.round(value * 100) : null,
+      amount_off_cents: data.discount_type === "fixed" ? Math.round(value * 100) : null,
+      // Whole days in the admin's time zone
+      valid_from: data.valid_from ? new Date(`${data.valid_from}T00:00:00`).toISOString() : null,
+      valid_until: data.valid_until ? new Date(`${data.valid_until}T23:59:59`).toISOString() : null,
+      max_uses: data.max_uses.trim() ? parseInt(data.max_uses, 10) : null,
+      surgeon_id: data.surgeon_id === "any" ? null : data.surgeon_id,
+      product_id: data.product_id === "any" ? null : data.product_id,
+      is_active: data.is_active,
+    };
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: PromoFormData) => {
+      const { error } = await supabase.from("promo_codes").insert(toRow(data));
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["promo-codes"] });
+      toast.success("Promo code created successfully");
+      closeModal();
+    },
+    onError: (error) => {
+      toast.error(`Failed to create promo code: ${error.message}`);
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: PromoFormData }) => {
+      const { error } = await supabase
+        .from("promo_codes")
+        .update(toRow(data))
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["promo-codes"] });
+      toast.success("Promo code updated successfully");
+      closeModal();
+    },
+    onError: (error) => {
+      toast.error(`Failed to update promo code: ${error.message}`);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("promo_codes").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["promo-codes"] });
+      toast.success("Promo code deleted successfully");
+      setDeletePromo(null);
+    },
+    onError: (error) => {
+      toast.error(`Failed to delete promo code: ${error.message}`);
+    },
+  });
+
+  const openCreateModal = () => {
+    setEditingPromo(null);
+    setFormData(initialFormData);
+    setIsModalOpen(true);
+  };
+
+  const openEditModal = (promo: PromoCode) => {
+    setEditingPromo(promo);
+    setFormData({
+      code: promo.code,
+      description: promo.description || "",
+      discount_type: promo.discount_type,
+      value: promo.discount_type === "percent"
+        ? String((promo.percent_bps || 0) / 100)
+        : ((promo.amount_off_cents || 0) / 100).toFixed(2),
+      valid_from: promo.valid_from ? format(new Date(promo.valid_from), "yyyy-MM-dd") : "",
+      valid_until: promo.valid_until ? format(new Date(promo.valid_until), "yyyy-MM-dd") : "",
+      max_uses: promo.max_uses !== null ? String(promo.max_uses) : "",
+      surgeon_id: promo.surgeon_id || "any",
+      product_id: promo.product_id || "any",
+      is_active: promo.is_active,
+    });
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingPromo(null);
+    setFormData(initialFormData);
+  };
+
+  const handleSubmit = () => {
+    const row = toRow(formData);
+    if (!CODE_PATTERN.test(row.code)) {
+      toast.error("Codes are 3 to 32 letters, numbers, dashes or underscores");
+      return;
+    }
+    const value = row.percent_bps ?? row.amount_off_cents ?? 0;
+    if (value <= 0 || (row.percent_bps !== null && row.percent_bps > 10000)) {
+      toast.error("Please enter a percentage up to 100% or a fixed amount");
+      return;
+    }
+    if (row.max_uses !== null && (!Number.isInteger(row.max_uses) || row.max_uses <= 0)) {
+      toast.error("The usage limit must be a positive whole number");
+      return;
+    }
+    if (row.valid_from && row.valid_until && row.valid_from >= row.valid_until) {
+      toast.error("The start date must be before the end date");
+      return;
+    }
+
+    if (editingPromo) {
+      updateMutation.mutate({ id: editingPromo.id, data: formData });
+    } else {
+      createMutation.mutate(formData);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold">Promo Codes</h2>
+          <p className="text-sm text-muted-foreground">
+            Discounts patients can enter on their enrollment link before paying
+          </p>
+        </div>
+        <Button onClick={openCreateModal}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Promo Code
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : promoCodes.length === 0 ? (
+        <div className="text-center py-12 border rounded-lg bg-muted/20">
+          <Tag className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+          <h3 className="text-lg font-medium mb-2">No promo codes yet</h3>
+          <p className="text-muted-foreground mb-4">
+            Create a code to offer a percentage or fixed discount
+          </p>
+        </div>
+      ) : (
+        <div className="border rounded-lg overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Discount</TableHead>
+                <TableHead>Applies To</TableHead>
+                <TableHead>Valid</TableHead>
+                <TableHead>Uses</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {promoCodes.map((promo) => {
+                const uses = promo.enrollments[0]?.count ?? 0;
+                return (
+                  <TableRow key={promo.id}>
+                    <TableCell>
+                      <p className="font-mono font-medium">{promo.code}</p>
+                      {promo.description && (
+                        <p className="text-xs text-muted-foreground">{promo.description}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>{describeDiscount(promo)}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {[promo.surgeon?.name, promo.product?.name].filter(Boolean).join(" · ") || "All enrollments"}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{describeValidity(promo)}</TableCell>
+                    <TableCell>
+                      {uses}{promo.max_uses !== null && ` / ${promo.max_uses}`}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={promo.is_active ? "default" : "secondary"}>
+                        {promo.is_active ? "Active" : "Inactive"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openEditModal(promo)}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setDeletePromo(promo)}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {/* Create/Edit Modal */}
+      <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {editingPromo ? "Edit Promo Code" : "Create Promo Code"}
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="promo-code">Code *</Label>
+                <Input
+                  id="promo-code"
+                  value={formData.code}
+                  onChange={(e) =>
+                    setFormData({ ...formData, code: e.target.value.toUpperCase() })
+                  }
+                  placeholder="e.g., SPRING10"
+                  className="font-mono"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="promo-description">Description</Label>
+                <Input
+                  id="promo-description"
+                  value={formData.description}
+                  onChange={(e) =>
+                    setFormData({ ...formData, description: e.target.value })
+                  }
+                  placeholder="Internal note"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="promo-type">Discount Type</Label>
+                <Select
+                  value={formData.discount_type}
+                  onValueChange={(value) => setFormData({ ...formData, discount_type: value as "percent" | "fixed" })}
+                >
+                  <SelectTrigger id="promo-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percent">Percentage</SelectItem>
+                    <SelectItem value="fixed">Fixed amount</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="promo-value">
+                  {formData.discount_type === "percent" ? "Percentage *" : "Amount (USD) *"}
+                </Label>
+                <div className="relative">
+                  {formData.discount_type === "fixed" && (
+                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">$</span>
+                  )}
+                  <Input
+                    id="promo-value"
+                    type="number"
+                    min="0"
+                    max={formData.discount_type === "percent" ? "100" : undefined}
+                    step="0.01"
+                    value={formData.value}
+                    onChange={(e) =>
+                      setFormData({ ...formData, value: e.target.value })
+                    }
+                    className={formData.discount_type === "percent" ? "pr-7" : "pl-7"}
+                  />
+                  {formData.discount_type === "percent" && (
+                    <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground">%</span>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="promo-from">Valid From</Label>
+                <Input
+                  id="promo-from"
+                  type="date"
+                  value={formData.valid_from}
+                  onChange={(e) =>
+                    setFormData({ ...formData, valid_from: e.target.value })
+                  }
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="promo-until">Valid Until</Label>
+                <Input
+                  id="promo-until"
+                  type="date"
+                  value={formData.valid_until}
+                  onChange={(e) =>
+                    setFormData({ ...formData, valid_until: e.target.value })
+                  }
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="promo-surgeon">Surgeon</Label>
+                <Select
+                  value={formData.surgeon_id}
+                  onValueChange={(value) => setFormData({ ...formData, surgeon_id: value })}
+                >
+                  <SelectTrigger id="promo-surgeon">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any surgeon</SelectItem>
+                    {surgeons.map((surgeon) => (
+                      <SelectItem key={surgeon.id} value={surgeon.id}>{surgeon.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="promo-product">Product</Label>
+                <Select
+                  value={formData.product_id}
+                  onValueChange={(value) => setFormData({ ...formData, product_id: value })}
+                >
+                  <SelectTrigger id="promo-product">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any product</SelectItem>
+                    {products.map((product) => (
+                      <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              A surgeon code only works for that surgeon's patients. A product code only works on
+              enrollments that include the product, and only discounts that product's items.
+            </p>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="promo-max-uses">Usage Limit</Label>
+                <Input
+                  id="promo-max-uses"
+                  type="number"
+                  min="1"
+                  step="1"
+                  placeholder="Unlimited"
+                  value={formData.max_uses}
+                  onChange={(e) =>
+                    setFormData({ ...formData, max_uses: e.target.value })
+                  }
+                />
+              </div>
+
+              <div className="flex items-center justify-between pt-6">
+                <Label>Active</Label>
+                <Switch
+                  checked={formData.is_active}
+                  onCheckedChange={(checked) =>
+                    setFormData({ ...formData, is_active: checked })
+                  }
+                />
+              </div>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Each enrollment the code is applied to counts as one use. Changes apply to codes entered
+              from now on; enrollments keep the discount they were given.
+            </p>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeModal}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={createMutation.isPending || updateMutation.isPending}
+            >
+              {createMutation.isPending || updateMutation.isPending
+                ? "Saving..."
+                : editingPromo
+                ? "Update Promo Code"
+                : "Create Promo Code"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog
+        open={!!deletePromo}
+        onOpenChange={() => setDeletePromo(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Promo Code</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete "{deletePromo?.code}"? Enrollments it was
+              applied to keep their discount. To stop new uses instead, mark it inactive.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deletePromo && deleteMutation.mutate(deletePromo.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
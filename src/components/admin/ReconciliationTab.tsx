@@ -0,0 +1,402 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { addDays, format, subDays } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Play, CheckCircle2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAdminAuth } from "@/hooks/useAdminAuth";
+import { useToast } from "@/hooks/use-toast";
+import { ResolveDiscrepancyModal, type ReconciliationItem } from "./ResolveDiscrepancyModal";
+import { AccountingExportSection } from "./AccountingExportSection";
+import { AccountMappingSection } from "./AccountMappingSection";
+
+interface RunSummary {
+  charges: number;
+  gross_cents: number;
+  fee_cents: number;
+  net_cents: number;
+  refunded_cents: number;
+  payouts: number;
+  paid_out_cents: number;
+  discrepancies: number;
+  new_discrepancies: number;
+}
+
+interface ReconciliationRun {
+  id: string;
+  period_start: string;
+  period_end: string;
+  status: string;
+  triggered_by_email: string | null;
+  summary: Partial<RunSummary>;
+  error: string | null;
+  started_at: string;
+  completed_at: string | null;
+}
+
+type StatusFilter = "open" | "resolved" | "ignored" | "all";
+
+const typeLabels: Record<string, string> = {
+  paid_not_recorded: "Paid in Stripe, not recorded",
+  recorded_not_paid: "Recorded paid, no charge",
+  amount_mismatch: "Amount mismatch",
+  unmatched_charge: "Unmatched charge",
+  payout_failed: "Payout failed",
+};
+
+const typeVariants: Record<string, "destructive" | "secondary" | "default" | "outline"> = {
+  paid_not_recorded: "secondary",
+  recorded_not_paid: "destructive",
+  amount_mismatch: "destructive",
+  unmatched_charge: "outline",
+  payout_failed: "destructive",
+};
+
+const statusVariants: Record<string, "destructive" | "secondary" | "default" | "outline"> = {
+  open: "destructive",
+  resolved: "default",
+  ignored: "outline",
+};
+
+export function ReconciliationTab() {
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("open");
+  const [periodStart, setPeriodStart] = useState(format(subDays(new Date(), 30), "yyyy-MM-dd"));
+  const [periodEnd, setPeriodEnd] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [selectedItem, setSelectedItem] = useState<ReconciliationItem | null>(null);
+  const { adminUser } = useAdminAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const canManage = adminUser?.role !== "viewer";
+
+  const { data: latestRun, isLoading: runLoading } = useQuery({
+    queryKey: ["reconciliation-runs"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("reconciliation_runs")
+        .select("*")
+        .order("started_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as unknown as ReconciliationRun | null;
+    },
+  });
+
+  const { data: items = [], isLoading: itemsLoading } = useQuery({
+    queryKey: ["reconciliation-items", statusFilter],
+    queryFn: async () => {
+      let query = supabase
+        .from("reconciliation_items")
+        .select("*, enrollments(patient_name, patient_email)")
+        .order("created_at", { ascending: false })
+        .limit(500);
+
+      if (statusFilter !== "all") {
+        query = query.eq("status", statusFilter);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as unknown as ReconciliationItem[];
+    },
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error("Not authenticated");
+
+      // The end date is inclusive
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/reconcile-payments`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({
+            period_start: new Date(`${periodStart}T00:00:00`).toISOString(),
+            period_end: addDays(new Date(`${periodEnd}T00:00:00`), 1).toISOString(),
+          }),
+        }
+      );
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to run reconciliation");
+      }
+
+      return result as { run_id: string; summary: RunSummary };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["reconciliation-runs"] });
+      queryClient.invalidateQueries({ queryKey: ["reconciliation-items"] });
+      queryClient.invalidateQueries({ queryKey: ["audit-log"] });
+      toast({
+        title: "Reconciliation complete",
+        description: `${data.summary.charges} charges checked, ${data.summary.new_discrepancies} new discrepancies.`,
+      });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["reconciliation-runs"] });
+      toast({
+        title: "Reconciliation failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatAmount = (cents: number | null | undefined, currency = "usd") => {
+    if (cents === null || cents === undefined) return "—";
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: currency.toUpperCase(),
+    }).format(cents / 100);
+  };
+
+  const summary = latestRun?.summary;
+  const summaryFigures = summary
+    ? [
+      { label: "Gross", value: formatAmount(summary.gross_cents) },
+      { label: "Fees", value: formatAmount(summary.fee_cents) },
+      { label: "Net", value: formatAmount(summary.net_cents) },
+      { label: "Refunded", value: formatAmount(summary.refunded_cents) },
+      { label: "Paid Out", value: formatAmount(summary.paid_out_cents) },
+      { label: "Discrepancies", value: String(summary.discrepancies ?? 0) },
+    ]
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <Card className="card-premium overflow-hidden">
+        <CardHeader className="border-b border-border bg-muted/30">
+          <CardTitle className="text-lg">Stripe Reconciliation</CardTitle>
+        </CardHeader>
+        <CardContent className="pt-6 space-y-6">
+          {canManage && (
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="reconcile-start">From</Label>
+                <Input
+                  id="reconcile-start"
+                  type="date"
+                  value={periodStart}
+                  max={periodEnd}
+                  onChange={(e) => setPeriodStart(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reconcile-end">To</Label>
+                <Input
+                  id="reconcile-end"
+                  type="date"
+                  value={periodEnd}
+                  min={periodStart}
+                  onChange={(e) => setPeriodEnd(e.target.value)}
+                />
+              </div>
+              <Button
+                className="gap-2"
+                onClick={() => runMutation.mutate()}
+                disabled={!periodStart || !periodEnd || periodStart > periodEnd || runMutation.isPending}
+              >
+                {runMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Play className="h-4 w-4" />
+                )}
+                Run Reconciliation
+              </Button>
+            </div>
+          )}
+
+          {runLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : !latestRun ? (
+            <p className="text-sm text-muted-foreground">
+              No reconciliation has run yet. The scheduled job checks the last 7 days every night.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                Last run {format(new Date(latestRun.started_at), "MMM d, yyyy h:mm a")}
+                {" "}covering {format(new Date(latestRun.period_start), "MMM d")} – {format(new Date(latestRun.period_end), "MMM d, yyyy")}
+                {" "}({latestRun.triggered_by_email || "scheduled"})
+                {latestRun.status !== "completed" && (
+                  <Badge
+                    variant={latestRun.status === "failed" ? "destructive" : "secondary"}
+                    className="ml-2 capitalize"
+                  >
+                    {latestRun.status}
+                  </Badge>
+                )}
+              </p>
+              {latestRun.error && (
+                <p className="text-sm text-destructive">{latestRun.error}</p>
+              )}
+              {summaryFigures.length > 0 && latestRun.status === "completed" && (
+                <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+                  {summaryFigures.map((figure) => (
+                    <div key={figure.label} className="rounded-lg bg-muted/50 p-3">
+                      <p className="text-xs text-muted-foreground">{figure.label}</p>
+                      <p className="text-lg font-semibold">{figure.value}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="card-premium overflow-hidden">
+        <CardHeader className="border-b border-border bg-muted/30">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg">Discrepancies</CardTitle>
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">Open</SelectItem>
+                <SelectItem value="resolved">Resolved</SelectItem>
+                <SelectItem value="ignored">Ignored</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <div className="overflow-x-auto">
+          {itemsLoading ? (
+            <div className="flex justify-center items-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : items.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              {statusFilter === "open"
+                ? "No open discrepancies. Stripe and the enrollment records agree."
+                : "No discrepancies match this filter."}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="hover:bg-transparent">
+                  <TableHead>Detected</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Patient</TableHead>
+                  <TableHead>Stripe</TableHead>
+                  <TableHead>Expected</TableHead>
+                  <TableHead>Stripe Amount</TableHead>
+                  <TableHead>Fee / Net</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-[100px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                      {format(new Date(item.created_at), "MMM d, yyyy")}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={typeVariants[item.discrepancy_type] || "secondary"}>
+                        {typeLabels[item.discrepancy_type] || item.discrepancy_type}
+                      </Badge>
+                      {item.local_status && (
+                        <p className="text-xs text-muted-foreground mt-1 capitalize">
+                          Local: {item.local_status.replace(/_/g, " ")}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <p className="font-medium">{item.enrollments?.patient_name || "—"}</p>
+                      {item.enrollments?.patient_email && (
+                        <p className="text-xs text-muted-foreground">{item.enrollments.patient_email}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs font-mono text-muted-foreground">
+                      {item.stripe_payment_intent_id || item.stripe_object_id || "—"}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {formatAmount(item.expected_amount_cents, item.currency)}
+                    </TableCell>
+                    <TableCell className="text-sm font-medium">
+                      {formatAmount(item.actual_amount_cents, item.currency)}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                      {item.fee_cents !== null
+                        ? `${formatAmount(item.fee_cents, item.currency)} / ${formatAmount(item.net_cents, item.currency)}`
+                        : "—"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={statusVariants[item.status] || "secondary"} className="capitalize">
+                        {item.status}
+                      </Badge>
+                      {item.resolved_by_email && (
+                        <p className="text-xs text-muted-foreground mt-1" title={item.resolution_note || undefined}>
+                          {item.resolved_by_email}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {item.status === "open" && canManage && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-1"
+                          onClick={() => setSelectedItem(item)}
+                        >
+                          <CheckCircle2 className="h-4 w-4" />
+                          Resolve
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </Card>
+
+      <AccountingExportSection />
+
+      <AccountMappingSection />
+
+      {selectedItem && (
+        <ResolveDiscrepancyModal
+          isOpen={!!selectedItem}
+          onClose={() => setSelectedItem(null)}
+          item={selectedItem}
+          typeLabel={typeLabels[selectedItem.discrepancy_type] || selectedItem.discrepancy_type}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Banknote, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+type OfflinePaymentMethod = "check" | "wire" | "cash";
+
+interface RecordOfflinePaymentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  enrollment: {
+    id: string;
+    patient_name: string | null;
+    currency: string | null;
+  };
+  outstandingCents: number;
+}
+
+interface RecordOfflinePaymentResult {
+  success: boolean;
+  offline_payment_id: string | null;
+  amount_cents: number;
+}
+
+const referenceLabels: Record<OfflinePaymentMethod, string> = {
+  check: "Check number",
+  wire: "Wire confirmation number",
+  cash: "Receipt number",
+};
+
+export function RecordOfflinePaymentModal({
+  isOpen,
+  onClose,
+  enrollment,
+  outstandingCents,
+}: RecordOfflinePaymentModalProps) {
+  const today = format(new Date(), "yyyy-MM-dd");
+  const [method, setMethod] = useState<OfflinePaymentMethod>("check");
+  const [referenceNumber, setReferenceNumber] = useState("");
+  const [receivedDate, setReceivedDate] = useState(today);
+  const [proofFile, setProofFile] = useState<File | null>(null);
+  const [note, setNote] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const formatAmount = (cents: number) => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: enrollment.currency || "USD",
+    }).format(cents / 100);
+  };
+
+  const isValid = !!receivedDate && receivedDate <= today && !!proofFile;
+
+  const recordMutation = useMutation({
+    mutationFn: async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error("Not authenticated");
+      if (!proofFile) throw new Error("Attach a proof document");
+
+      // Upload the proof first so the payment is never recorded without it
+      const safeName = proofFile.name.replace(/[^a-zA-Z0-9._-]/g, "_");
+      const proofPath = `${enrollment.id}/${Date.now()}-${safeName}`;
+      const { error: uploadError } = await supabase.storage
+        .from("payment-proofs")
+        .upload(proofPath, proofFile, { contentType: proofFile.type || undefined });
+
+      if (uploadError) throw new Error(`Failed to upload proof: ${uploadError.message}`);
+
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/record-offline-payment`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({
+            enrollment_id: enrollment.id,
+            method,
+            reference_number: referenceNumber.trim() || undefined,
+            received_date: receivedDate,
+            proof_path: proofPath,
+            note: note.trim() || undefined,
+          }),
+        }
+      );
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to record payment");
+      }
+
+      return result as RecordOfflinePaymentResult;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["needs-attention"] });
+      queryClient.invalidateQueries({ queryKey: ["enrollment-details", enrollment.id] });
+      queryClient.invalidateQueries({ queryKey: ["enrollment-events", enrollment.id] });
+      queryClient.invalidateQueries({ queryKey: ["enrollment-installments", enrollment.id] });
+      queryClient.invalidateQueries({ queryKey: ["enrollment-offline-payments", enrollment.id] });
+      queryClient.invalidateQueries({ queryKey: ["enrollment-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["audit-log"] });
+      toast({
+        title: "Payment recorded",
+        description: `${formatAmount(data.amount_cents)} marked as paid. The patient will receive a confirmation email.`,
+      });
+      handleClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to record payment",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleClose = () => {
+    setMethod("check");
+    setReferenceNumber("");
+    setReceivedDate(today);
+    setProofFile(null);
+    setNote("");
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Banknote className="h-5 w-5" />
+            Record Offline Payment
+          </DialogTitle>
+          <DialogDescription>
+            Record a check, wire or cash payment from <strong>{enrollment.patient_name || "Unknown"}</strong>.
+            The enrollment is marked as paid and the patient receives their confirmation email.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="rounded-lg bg-muted/50 p-3 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Amount received</span>
+              <span className="font-medium">{formatAmount(outstandingCents)}</span>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="offline-method">Method *</Label>
+            <Select value={method} onValueChange={(value) => setMethod(value as OfflinePaymentMethod)}>
+              <SelectTrigger id="offline-method">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="check">Check</SelectItem>
+                <SelectItem value="wire">Wire transfer</SelectItem>
+                <SelectItem value="cash">Cash</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="offline-reference">{referenceLabels[method]}</Label>
+            <Input
+              id="offline-reference"
+              value={referenceNumber}
+              onChange={(e) => setReferenceNumber(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="offline-received-date">Received date *</Label>
+            <Input
+              id="offline-received-date"
+              type="date"
+              max={today}
+              value={receivedDate}
+              onChange={(e) => setReceivedDate(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="offline-proof">Proof document *</Label>
+            <Input
+              id="offline-proof"
+              type="file"
+              accept="image/*,application/pdf"
+              onChange={(e) => setProofFile(e.target.files?.[0] ?? null)}
+            />
+            <p className="text-xs text-muted-foreground">
+              A scan of the check, the wire confirmation or a signed cash receipt.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="offline-note">Internal note</Label>
+            <Textarea
+              id="offline-note"
+              placeholder="Optional context for the audit log"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => recordMutation.mutate()}
+            disabled={!isValid || recordMutation.isPending}
+          >
+            {recordMutation.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <Banknote className="h-4 w-4 mr-2" />
+            )}
+            Record {formatAmount(outstandingCents)}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
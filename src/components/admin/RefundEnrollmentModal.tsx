@@ -0,0 +1,245 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { RotateCcw, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+type RefundReason = "requested_by_customer" | "duplicate" | "fraudulent";
+
+interface RefundEnrollmentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  enrollment: {
+    id: string;
+    patient_name: string | null;
+    amount_cents: number;
+    currency: string | null;
+  };
+  refundableCents: number;
+}
+
+interface RefundResult {
+  success: boolean;
+  refund_id: string;
+  refund_status: string;
+  amount_cents: number;
+  full_refund: boolean;
+}
+
+export function RefundEnrollmentModal({
+  isOpen,
+  onClose,
+  enrollment,
+  refundableCents,
+}: RefundEnrollmentModalProps) {
+  const [refundType, setRefundType] = useState<"full" | "partial">("full");
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState<RefundReason>("requested_by_customer");
+  const [note, setNote] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const formatAmount = (cents: number) => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: enrollment.currency || "USD",
+    }).format(cents / 100);
+  };
+
+  const partialCents = Math.round(parseFloat(amount) * 100);
+  const refundCents = refundType === "full" ? refundableCents : partialCents;
+  const isValid =
+    refundType === "full" ||
+    (Number.isFinite(partialCents) && partialCents > 0 && partialCents <= refundableCents);
+
+  const refundMutation = useMutation({
+    mutationFn: async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error("Not authenticated");
+
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/refund-enrollment`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({
+            enrollment_id: enrollment.id,
+            amount_cents: refundType === "partial" ? partialCents : undefined,
+            reason,
+            note: note.trim() || undefined,
+          }),
+        }
+      );
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to issue refund");
+      }
+
+      return result as RefundResult;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["enrollment-details", enrollment.id] });
+      queryClient.invalidateQueries({ queryKey: ["enrollment-events", enrollment.id] });
+      queryClient.invalidateQueries({ queryKey: ["enrollment-refunds", enrollment.id] });
+      queryClient.invalidateQueries({ queryKey: ["enrollment-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["audit-log"] });
+      toast({
+        title: data.full_refund ? "Refund issued" : "Partial refund issued",
+        description: `${formatAmount(data.amount_cents)} will be returned to the patient. Status updates once Stripe confirms.`,
+      });
+      handleClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to issue refund",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleClose = () => {
+    setRefundType("full");
+    setAmount("");
+    setReason("requested_by_customer");
+    setNote("");
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <RotateCcw className="h-5 w-5" />
+            Refund Payment
+          </DialogTitle>
+          <DialogDescription>
+            Refund the payment from <strong>{enrollment.patient_name || "Unknown"}</strong>.
+            Funds are returned to the original payment method.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="rounded-lg bg-muted/50 p-3 text-sm space-y-1">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Original amount</span>
+              <span className="font-medium">{formatAmount(enrollment.amount_cents)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Refundable balance</span>
+              <span className="font-medium">{formatAmount(refundableCents)}</span>
+            </div>
+          </div>
+
+          <RadioGroup
+            value={refundType}
+            onValueChange={(value) => setRefundType(value as "full" | "partial")}
+            className="space-y-2"
+          >
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="full" id="refund-full" />
+              <Label htmlFor="refund-full" className="font-normal">
+                Full refund ({formatAmount(refundableCents)})
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="partial" id="refund-partial" />
+              <Label htmlFor="refund-partial" className="font-normal">Partial refund</Label>
+            </div>
+          </RadioGroup>
+
+          {refundType === "partial" && (
+            <div className="space-y-2">
+              <Label htmlFor="refund-amount">Amount (USD) *</Label>
+              <Input
+                id="refund-amount"
+                type="number"
+                min="0.01"
+                step="0.01"
+                max={(refundableCents / 100).toFixed(2)}
+                placeholder="0.00"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+              {amount && !isValid && (
+                <p className="text-xs text-destructive">
+                  Enter an amount between $0.01 and {formatAmount(refundableCents)}
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="refund-reason">Reason *</Label>
+            <Select value={reason} onValueChange={(value) => setReason(value as RefundReason)}>
+              <SelectTrigger id="refund-reason">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="requested_by_customer">Requested by patient</SelectItem>
+                <SelectItem value="duplicate">Duplicate payment</SelectItem>
+                <SelectItem value="fraudulent">Fraudulent</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="refund-note">Internal note</Label>
+            <Textarea
+              id="refund-note"
+              placeholder="Optional context for the audit log"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => refundMutation.mutate()}
+            disabled={!isValid || refundMutation.isPending}
+          >
+            {refundMutation.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <RotateCcw className="h-4 w-4 mr-2" />
+            )}
+            Refund {isValid ? formatAmount(refundCents) : ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
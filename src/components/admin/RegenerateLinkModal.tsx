@@ -121,6 +121,7 @@ export function RegenerateLinkModal({ isOpen, onClose, enrollment }: RegenerateL
       setCreatedUrl(data.enrollment_url);
       queryClient.invalidateQueries({ queryKey: ["enrollments"] });
       queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["needs-attention"] });
       queryClient.invalidateQueries({ queryKey: ["enrollment-stats"] });
       toast({
         title: "Link regenerated",
@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { CheckCircle2, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useAdminAuth } from "@/hooks/useAdminAuth";
+import { useToast } from "@/hooks/use-toast";
+
+export interface ReconciliationItem {
+  id: string;
+  discrepancy_type: string;
+  enrollment_id: string | null;
+  installment_id: string | null;
+  stripe_object_id: string | null;
+  stripe_payment_intent_id: string | null;
+  local_status: string | null;
+  expected_amount_cents: number | null;
+  actual_amount_cents: number | null;
+  fee_cents: number | null;
+  net_cents: number | null;
+  currency: string;
+  details: Record<string, unknown>;
+  status: string;
+  resolution_note: string | null;
+  resolved_by_email: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  last_seen_at: string;
+  enrollments: {
+    patient_name: string | null;
+    patient_email: string | null;
+  } | null;
+}
+
+type Resolution = "resolved" | "ignored";
+
+interface ResolveDiscrepancyModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  item: ReconciliationItem;
+  typeLabel: string;
+}
+
+export function ResolveDiscrepancyModal({ isOpen, onClose, item, typeLabel }: ResolveDiscrepancyModalProps) {
+  const [resolution, setResolution] = useState<Resolution>("resolved");
+  const [note, setNote] = useState("");
+  const { user } = useAdminAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const resolveMutation = useMutation({
+    mutationFn: async () => {
+      // Log to audit trail first
+      await supabase.from("admin_audit_log").insert({
+        admin_user_id: user?.id || null,
+        admin_email: user?.email || null,
+        action: "resolve_discrepancy",
+        resource_type: "reconciliation_item",
+        resource_id: item.id,
+        resource_summary: {
+          patient_name: item.enrollments?.patient_name,
+          discrepancy_type: item.discrepancy_type,
+          stripe_object_id: item.stripe_object_id,
+          status: resolution,
+          note: note.trim(),
+        },
+      });
+
+      const { error } = await supabase
+        .from("reconciliation_items")
+        .update({
+          status: resolution,
+          resolution_note: note.trim(),
+          resolved_by: user?.id || null,
+          resolved_by_email: user?.email || null,
+          resolved_at: new Date().toISOString(),
+        })
+        .eq("id", item.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["reconciliation-items"] });
+      queryClient.invalidateQueries({ queryKey: ["audit-log"] });
+      toast({
+        title: resolution === "resolved" ? "Discrepancy resolved" : "Discrepancy ignored",
+        description: "The resolution has been recorded in the audit log.",
+      });
+      handleClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update discrepancy",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleClose = () => {
+    setResolution("resolved");
+    setNote("");
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CheckCircle2 className="h-5 w-5" />
+            Resolve Discrepancy
+          </DialogTitle>
+          <DialogDescription>
+            {typeLabel}
+            {item.enrollments?.patient_name && <> for <strong>{item.enrollments.patient_name}</strong></>}.
+            Record what was done so finance can follow the trail.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <RadioGroup
+            value={resolution}
+            onValueChange={(value) => setResolution(value as Resolution)}
+            className="space-y-2"
+          >
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="resolved" id="resolution-resolved" />
+              <Label htmlFor="resolution-resolved" className="font-normal">
+                Resolved - the records were corrected
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="ignored" id="resolution-ignored" />
+              <Label htmlFor="resolution-ignored" className="font-normal">
+                Ignored - expected, nothing to correct
+              </Label>
+            </div>
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <Label htmlFor="resolution-note">Note *</Label>
+            <Textarea
+              id="resolution-note"
+              placeholder="e.g. Webhook was missed; marked paid after confirming the charge in Stripe"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={resolveMutation.isPending}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => resolveMutation.mutate()}
+            disabled={!note.trim() || resolveMutation.isPending}
+          >
+            {resolveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { format } from "date-fns";
 import {
@@ -10,6 +11,12 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { StatusBadge } from "@/components/StatusBadge";
 import { supabase } from "@/integrations/supabase/client";
+import { useAdminAuth } from "@/hooks/useAdminAuth";
+import { useToast } from "@/hooks/use-toast";
+import { RefundEnrollmentModal } from "./RefundEnrollmentModal";
+import { RecordOfflinePaymentModal } from "./RecordOfflinePaymentModal";
+import { WebhookEventsSection } from "./WebhookEventsSection";
+import { CrmSyncBadge } from "./CrmSyncBadge";
 import {
   Clock,
   User,
@@ -22,9 +29,17 @@ import {
   AlertCircle,
   Loader2,
   Download,
+  RotateCcw,
+  CalendarClock,
+  Package,
+  Banknote,
+  CreditCard,
+  ExternalLink,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
+type EnrollmentDocument = "consent" | "receipt";
+
 interface TransactionDetailsModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -36,10 +51,34 @@ interface EnrollmentDetails {
   patient_name: string | null;
   patient_email: string | null;
   patient_phone: string | null;
+  payer_name: string | null;
+  payer_email: string | null;
+  payer_phone: string | null;
+  payer_relationship: string | null;
+  payer_link_sent_at: string | null;
+  payer_acknowledged_at: string | null;
   amount_cents: number;
   currency: string | null;
   status: string;
   payment_method_type: string | null;
+  allowed_payment_methods: string[];
+  payment_adjustment_cents: number | null;
+  payment_adjustment_label: string | null;
+  promo_code: string | null;
+  promo_discount_cents: number | null;
+  failed_payment_attempts: number;
+  needs_attention_at: string | null;
+  needs_attention_reason: string | null;
+  stripe_charge_id: string | null;
+  payment_card_brand: string | null;
+  payment_bank_name: string | null;
+  payment_last4: string | null;
+  payment_gross_cents: number | null;
+  payment_fee_cents: number | null;
+  payment_net_cents: number | null;
+  payment_receipt_url: string | null;
+  payment_risk_level: string | null;
+  payment_billing_address: BillingAddress | null;
   created_at: string | null;
   opened_at: string | null;
   terms_accepted_at: string | null;
@@ -58,8 +97,151 @@ interface EnrollmentDetails {
   token_last4: string;
   policy_id: string | null;
   consent_pdf_path: string | null;
+  consent_pdf_version: number;
+  receipt_pdf_path: string | null;
+  receipt_pdf_version: number;
+  zoho_consent_attachment_id: string | null;
+  zoho_receipt_attachment_id: string | null;
+  refunded_amount_cents: number;
+  refunded_at: string | null;
+  reversed_at: string | null;
+  disputed_at: string | null;
+}
+
+interface BillingAddress {
+  line1: string | null;
+  line2: string | null;
+  city: string | null;
+  state: string | null;
+  postal_code: string | null;
+  country: string | null;
+}
+
+interface EnrollmentRefund {
+  id: string;
+  stripe_refund_id: string;
+  amount_cents: number;
+  reason: string | null;
+  note: string | null;
+  status: string;
+  source: string;
+  created_by_email: string | null;
+  created_at: string;
+}
+
+interface OfflinePayment {
+  id: string;
+  method: string;
+  amount_cents: number;
+  reference_number: string | null;
+  received_date: string;
+  proof_path: string | null;
+  note: string | null;
+  recorded_by_email: string | null;
+  created_at: string;
+}
+
+interface EnrollmentInstallment {
+  id: string;
+  sequence: number;
+  amount_cents: number;
+  due_date: string;
+  status: string;
+  attempt_count: number;
+  next_retry_at: string | null;
+  last_error: string | null;
+  paid_at: string | null;
+  refunded_cents: number;
+}
+
+// One of several payments toward an enrollment without a payment plan
+interface EnrollmentPayment {
+  id: string;
+  amount_cents: number;
+  adjustment_cents: number | null;
+  status: string;
+  payment_method_type: string | null;
+  card_brand: string | null;
+  bank_name: string | null;
+  last4: string | null;
+  fee_cents: number | null;
+  refunded_cents: number;
+  failure_message: string | null;
+  receipt_url: string | null;
+  paid_at: string | null;
+  created_at: string;
+}
+
+interface EnrollmentLineItem {
+  id: string;
+  name: string;
+  description: string | null;
+  unit_amount_cents: number;
+  quantity: number;
+  amount_cents: number;
 }
 
+const installmentStatusVariants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  scheduled: "outline",
+  processing: "secondary",
+  paid: "default",
+  failed: "destructive",
+  canceled: "outline",
+};
+
+const paymentStatusVariants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  processing: "secondary",
+  succeeded: "default",
+  failed: "destructive",
+  reversed: "destructive",
+};
+
+const offlineMethodLabels: Record<string, string> = {
+  check: "Check",
+  wire: "Wire transfer",
+  cash: "Cash",
+};
+
+// Stripe's card brand codes
+const cardBrandLabels: Record<string, string> = {
+  visa: "Visa",
+  mastercard: "Mastercard",
+  amex: "Amex",
+  discover: "Discover",
+  diners: "Diners",
+  jcb: "JCB",
+  unionpay: "UnionPay",
+};
+
+// Radar risk levels; "not_assessed" is normal for ACH
+const riskLevelVariants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  normal: "outline",
+  elevated: "secondary",
+  highest: "destructive",
+  not_assessed: "outline",
+};
+
+const formatBillingAddress = (address: BillingAddress) =>
+  [
+    address.line1,
+    address.line2,
+    [address.city, [address.state, address.postal_code].filter(Boolean).join(" ")].filter(Boolean).join(", "),
+    address.country,
+  ].filter(Boolean).join(", ");
+
+const allowedMethodLabels: Record<string, string> = {
+  card: "Card",
+  ach: "ACH",
+  wallet: "Apple Pay / Google Pay",
+};
+
+// Statuses with money still owed that an offline payment can settle
+const recordableStatuses = ["created", "sent", "opened", "failed", "expired", "partially_paid"];
+
+// Refunds that have not failed still count against the refundable balance
+const activeRefundStatuses = ["pending", "requires_action", "succeeded"];
+
 interface EnrollmentEvent {
   id: string;
   event_type: string;
@@ -72,6 +254,11 @@ export function TransactionDetailsModal({
   onClose,
   enrollmentId,
 }: TransactionDetailsModalProps) {
+  const [showRefund, setShowRefund] = useState(false);
+  const [showRecordPayment, setShowRecordPayment] = useState(false);
+  const [openingZohoCopy, setOpeningZohoCopy] = useState<EnrollmentDocument | null>(null);
+  const { toast } = useToast();
+  const { adminUser } = useAdminAuth();
   const { data: enrollment, isLoading } = useQuery({
     queryKey: ["enrollment-details", enrollmentId],
     queryFn: async () => {
@@ -82,7 +269,7 @@ export function TransactionDetailsModal({
         .single();
 
       if (error) throw error;
-      return data as EnrollmentDetails;
+      return data as unknown as EnrollmentDetails;
     },
     enabled: isOpen && !!enrollmentId,
   });
@@ -102,6 +289,136 @@ export function TransactionDetailsModal({
     enabled: isOpen && !!enrollmentId,
   });
 
+  const { data: refunds = [] } = useQuery({
+    queryKey: ["enrollment-refunds", enrollmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("enrollment_refunds")
+        .select("*")
+        .eq("enrollment_id", enrollmentId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return data as EnrollmentRefund[];
+    },
+    enabled: isOpen && !!enrollmentId,
+  });
+
+  const { data: offlinePayments = [] } = useQuery({
+    queryKey: ["enrollment-offline-payments", enrollmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("enrollment_offline_payments")
+        .select("*")
+        .eq("enrollment_id", enrollmentId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return data as OfflinePayment[];
+    },
+    enabled: isOpen && !!enrollmentId,
+  });
+
+  const { data: installments = [] } = useQuery({
+    queryKey: ["enrollment-installments", enrollmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("enrollment_installments")
+        .select("*")
+        .eq("enrollment_id", enrollmentId)
+        .order("sequence", { ascending: true });
+
+      if (error) throw error;
+      return data as EnrollmentInstallment[];
+    },
+    enabled: isOpen && !!enrollmentId,
+  });
+
+  const { data: payments = [] } = useQuery({
+    queryKey: ["enrollment-payments", enrollmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("enrollment_payments")
+        .select("*")
+        .eq("enrollment_id", enrollmentId)
+        // Abandoned checkouts are replaced by the next one
+        .neq("status", "canceled")
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return data as EnrollmentPayment[];
+    },
+    enabled: isOpen && !!enrollmentId,
+  });
+
+  const { data: lineItems = [] } = useQuery({
+    queryKey: ["enrollment-line-items", enrollmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("enrollment_line_items")
+        .select("*")
+        .eq("enrollment_id", enrollmentId)
+        .order("position", { ascending: true });
+
+      if (error) throw error;
+      return data as EnrollmentLineItem[];
+    },
+    enabled: isOpen && !!enrollmentId,
+  });
+
+  const { data: crmSync } = useQuery({
+    queryKey: ["crm-sync-status", enrollmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("enrollment_crm_sync")
+        .select("sync_status, pending_count, dead_count, last_delivered_at")
+        .eq("enrollment_id", enrollmentId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ?? undefined;
+    },
+    enabled: isOpen && !!enrollmentId,
+  });
+
+  const planPaidCents = installments
+    .filter((i) => i.status === "paid")
+    .reduce((sum, i) => sum + i.amount_cents, 0);
+  const planOutstandingCents = installments
+    .filter((i) => i.status !== "paid" && i.status !== "canceled")
+    .reduce((sum, i) => sum + i.amount_cents, 0);
+
+  // Without a plan the amount may be split across several payments
+  const succeededPayments = payments.filter((p) => p.status === "succeeded");
+  const splitPaidCents = succeededPayments.reduce((sum, p) => sum + p.amount_cents, 0);
+  const isSplit = installments.length === 0 && payments.length > 1;
+
+  const committedRefundCents = refunds
+    .filter((r) => activeRefundStatuses.includes(r.status))
+    .reduce((sum, r) => sum + r.amount_cents, 0);
+  // Dashboard refunds go against what was charged so far, including any card surcharge
+  // or ACH discount: the payments made, or the deposit and installments collected on a plan
+  const refundableBaseCents = succeededPayments.length > 0
+    ? succeededPayments.reduce((sum, p) => sum + p.amount_cents + (p.adjustment_cents || 0), 0)
+    : (installments.length > 0 ? planPaidCents : enrollment?.amount_cents ?? 0) + (enrollment?.payment_adjustment_cents || 0);
+  const refundableCents = enrollment ? refundableBaseCents - committedRefundCents : 0;
+  const canRefund =
+    !!enrollment &&
+    adminUser?.role !== "viewer" &&
+    ["paid", "partially_paid", "partially_refunded"].includes(enrollment.status) &&
+    !!enrollment.stripe_payment_intent_id &&
+    refundableCents > 0;
+
+  const canRecordPayment =
+    !!enrollment &&
+    adminUser?.role !== "viewer" &&
+    recordableStatuses.includes(enrollment.status);
+  const outstandingCents = enrollment?.status !== "partially_paid"
+    ? enrollment?.amount_cents ?? 0
+    : installments.length > 0
+      ? planOutstandingCents
+      : enrollment.amount_cents - splitPaidCents;
+
   const formatAmount = (cents: number) => {
     return new Intl.NumberFormat("en-US", {
       style: "currency",
@@ -114,22 +431,108 @@ export function TransactionDetailsModal({
     return format(new Date(date), "MMM d, yyyy 'at' h:mm:ss a");
   };
 
+  const documents: { document: EnrollmentDocument; label: string; path: string | null; version: number; attachmentId: string | null }[] = enrollment
+    ? [
+        {
+          document: "consent",
+          label: "Consent PDF",
+          path: enrollment.consent_pdf_path,
+          version: enrollment.consent_pdf_version,
+          attachmentId: enrollment.zoho_consent_attachment_id,
+        },
+        {
+          document: "receipt",
+          label: "Payment Receipt",
+          path: enrollment.receipt_pdf_path,
+          version: enrollment.receipt_pdf_version,
+          attachmentId: enrollment.zoho_receipt_attachment_id,
+        },
+      ]
+    : [];
+
+  const openStoredDocument = async (path: string) => {
+    const { data } = await supabase.storage
+      .from("consent-documents")
+      .createSignedUrl(path, 60);
+    if (data?.signedUrl) {
+      window.open(data.signedUrl, "_blank");
+    }
+  };
+
+  // The attachment is only reachable through the Zoho API, so it is fetched
+  // through download-zoho-attachment and opened from memory
+  const openZohoCopy = async (document: EnrollmentDocument) => {
+    setOpeningZohoCopy(document);
+    try {
+      const { data: sessionData } = await supabase.auth.getSession();
+      const token = sessionData?.session?.access_token;
+      if (!token) throw new Error("Not authenticated");
+
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/download-zoho-attachment`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({ enrollment_id: enrollmentId, document }),
+        },
+      );
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || "Failed to load the Zoho attachment");
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      window.open(url, "_blank");
+      setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+    } catch (error) {
+      toast({
+        title: "Could not open the Zoho copy",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setOpeningZohoCopy(null);
+    }
+  };
+
   const getEventIcon = (eventType: string) => {
     switch (eventType) {
       case "created":
         return <Clock className="h-4 w-4 text-primary" />;
       case "opened":
+      case "patient_contact_updated":
         return <User className="h-4 w-4 text-blue-500" />;
       case "terms_accepted":
+      case "payer_acknowledged":
         return <CheckCircle2 className="h-4 w-4 text-green-500" />;
       case "checkout_session_created":
+      case "payer_link_sent":
+      case "link_resent":
         return <DollarSign className="h-4 w-4 text-amber-500" />;
       case "payment_completed":
+      case "offline_payment_recorded":
+      case "installment_paid":
+      case "payment_plan_completed":
+      case "dispute_won":
+      case "dispute_closed":
         return <CheckCircle2 className="h-4 w-4 text-green-600" />;
       case "payment_failed":
+      case "installment_failed":
+      case "payment_reversed":
+      case "refund_failed":
+      case "dispute_opened":
+      case "dispute_lost":
         return <XCircle className="h-4 w-4 text-destructive" />;
       case "expired":
+      case "canceled":
         return <AlertCircle className="h-4 w-4 text-muted-foreground" />;
+      case "refund_requested":
+      case "partially_refunded":
+      case "refunded":
+        return <RotateCcw className="h-4 w-4 text-amber-500" />;
       default:
         return <Clock className="h-4 w-4 text-muted-foreground" />;
     }
@@ -142,6 +545,7 @@ export function TransactionDetailsModal({
           <DialogTitle className="flex items-center gap-2">
             Transaction Details
             {enrollment && <StatusBadge status={enrollment.status as any} />}
+            <CrmSyncBadge state={crmSync} />
           </DialogTitle>
         </DialogHeader>
 
@@ -151,6 +555,21 @@ export function TransactionDetailsModal({
           </div>
         ) : enrollment ? (
           <div className="space-y-6">
+            {enrollment.needs_attention_at && (
+              <div className="rounded-lg bg-destructive/10 border border-destructive/20 p-4 flex gap-3">
+                <AlertCircle className="h-5 w-5 text-destructive shrink-0" />
+                <div className="space-y-1 text-sm">
+                  <p className="font-medium text-destructive">
+                    Needs attention since {formatDateTime(enrollment.needs_attention_at)}
+                  </p>
+                  <p className="text-muted-foreground">
+                    {enrollment.needs_attention_reason || `Payment failed ${enrollment.failed_payment_attempts} times`}
+                  </p>
+                  <p className="text-muted-foreground">Checkout is closed until a new link is sent.</p>
+                </div>
+              </div>
+            )}
+
             {/* Basic Info */}
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-1">
@@ -159,13 +578,278 @@ export function TransactionDetailsModal({
                 {enrollment.patient_email && (
                   <p className="text-sm text-muted-foreground">{enrollment.patient_email}</p>
                 )}
+                {enrollment.payer_email && (
+                  <div className="pt-2">
+                    <p className="text-sm text-muted-foreground">
+                      Paid by{enrollment.payer_relationship ? ` (${enrollment.payer_relationship})` : ""}
+                    </p>
+                    <p className="font-medium">{enrollment.payer_name}</p>
+                    <p className="text-sm text-muted-foreground">{enrollment.payer_email}</p>
+                    {enrollment.payer_phone && (
+                      <p className="text-sm text-muted-foreground">{enrollment.payer_phone}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {enrollment.payer_acknowledged_at
+                        ? `Authorized ${formatDateTime(enrollment.payer_acknowledged_at)}`
+                        : enrollment.payer_link_sent_at
+                          ? `Link sent ${formatDateTime(enrollment.payer_link_sent_at)}`
+                          : "Link not sent yet"}
+                    </p>
+                  </div>
+                )}
               </div>
               <div className="space-y-1">
                 <p className="text-sm text-muted-foreground">Amount</p>
                 <p className="font-medium text-lg">{formatAmount(enrollment.amount_cents)}</p>
+                {installments.length > 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    {formatAmount(planPaidCents)} paid · {formatAmount(planOutstandingCents)} outstanding
+                  </p>
+                )}
+                {installments.length === 0 && enrollment.status === "partially_paid" && (
+                  <p className="text-sm text-muted-foreground">
+                    {formatAmount(splitPaidCents)} paid · {formatAmount(outstandingCents)} outstanding
+                  </p>
+                )}
+                {!!enrollment.promo_discount_cents && (
+                  <p className="text-sm text-muted-foreground">
+                    Promo code {enrollment.promo_code}: {formatAmount(-enrollment.promo_discount_cents)}
+                  </p>
+                )}
+                {!!enrollment.payment_adjustment_cents && (
+                  <p className="text-sm text-muted-foreground">
+                    {enrollment.payment_adjustment_label || "Payment method adjustment"}: {formatAmount(enrollment.payment_adjustment_cents)}
+                  </p>
+                )}
+                {enrollment.refunded_amount_cents > 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    {formatAmount(enrollment.refunded_amount_cents)} refunded
+                  </p>
+                )}
               </div>
             </div>
 
+            {(enrollment.payment_last4 || enrollment.stripe_charge_id) && (
+              <>
+                <Separator />
+
+                {/* Payment Details from Stripe */}
+                <div className="space-y-3">
+                  <h3 className="font-medium flex items-center gap-2">
+                    <CreditCard className="h-4 w-4" />
+                    Payment Details
+                  </h3>
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <div className="space-y-1">
+                      <p className="text-muted-foreground">
+                        {enrollment.payment_method_type === "ach" ? "Bank account" : "Card"}
+                        {isSplit && " (latest payment)"}
+                      </p>
+                      <p className="font-medium">
+                        {enrollment.payment_method_type === "ach"
+                          ? enrollment.payment_bank_name || "Bank account"
+                          : enrollment.payment_card_brand
+                            ? cardBrandLabels[enrollment.payment_card_brand] || enrollment.payment_card_brand
+                            : "Card"}
+                        {enrollment.payment_last4 && ` ····${enrollment.payment_last4}`}
+                      </p>
+                      {enrollment.payment_risk_level && (
+                        <Badge
+                          variant={riskLevelVariants[enrollment.payment_risk_level] || "outline"}
+                          className="text-xs capitalize"
+                        >
+                          Risk: {enrollment.payment_risk_level.replace("_", " ")}
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="space-y-1">
+                      {enrollment.payment_gross_cents !== null && (
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Gross</span>
+                          <span className="font-medium">{formatAmount(enrollment.payment_gross_cents)}</span>
+                        </div>
+                      )}
+                      {enrollment.payment_fee_cents !== null ? (
+                        <>
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">Stripe fee</span>
+                            <span className="font-medium">−{formatAmount(enrollment.payment_fee_cents)}</span>
+                          </div>
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">Net</span>
+                            <span className="font-medium">{formatAmount(enrollment.payment_net_cents ?? 0)}</span>
+                          </div>
+                        </>
+                      ) : (
+                        <p className="text-xs text-muted-foreground">Fee is recorded when the payment settles</p>
+                      )}
+                    </div>
+                  </div>
+                  {enrollment.payment_billing_address && (
+                    <div className="text-sm">
+                      <p className="text-muted-foreground">Billing address</p>
+                      <p>{formatBillingAddress(enrollment.payment_billing_address) || "—"}</p>
+                    </div>
+                  )}
+                  {enrollment.payment_receipt_url && (
+                    <Button variant="outline" size="sm" asChild>
+                      <a href={enrollment.payment_receipt_url} target="_blank" rel="noopener noreferrer">
+                        <ExternalLink className="h-4 w-4 mr-2" />
+                        View Stripe Receipt
+                      </a>
+                    </Button>
+                  )}
+                </div>
+              </>
+            )}
+
+            {isSplit && (
+              <>
+                <Separator />
+
+                {/* Payments toward a split balance */}
+                <div className="space-y-3">
+                  <h3 className="font-medium flex items-center gap-2">
+                    <DollarSign className="h-4 w-4" />
+                    Payments
+                  </h3>
+                  <div className="space-y-2 text-sm">
+                    {payments.map((payment) => (
+                      <div key={payment.id} className="bg-muted/30 rounded-lg p-3 space-y-1">
+                        <div className="flex justify-between">
+                          <span className="font-medium">
+                            {payment.payment_method_type === "ach"
+                              ? payment.bank_name || "Bank account"
+                              : payment.card_brand
+                                ? cardBrandLabels[payment.card_brand] || payment.card_brand
+                                : "Card"}
+                            {payment.last4 && ` ····${payment.last4}`}
+                            <span className="text-muted-foreground font-normal">
+                              {" "}· {formatAmount(payment.amount_cents + (payment.adjustment_cents || 0))}
+                            </span>
+                          </span>
+                          <Badge
+                            variant={paymentStatusVariants[payment.status] || "secondary"}
+                            className="text-xs capitalize"
+                          >
+                            {payment.status}
+                          </Badge>
+                        </div>
+                        <div className="flex justify-between text-xs text-muted-foreground">
+                          <span>
+                            {payment.paid_at
+                              ? `Paid ${formatDateTime(payment.paid_at)}`
+                              : `Started ${formatDateTime(payment.created_at)}`}
+                          </span>
+                          <span>
+                            {payment.fee_cents !== null && `Fee ${formatAmount(payment.fee_cents)}`}
+                            {payment.refunded_cents > 0 && ` · ${formatAmount(payment.refunded_cents)} refunded`}
+                          </span>
+                        </div>
+                        {payment.failure_message && payment.status !== "succeeded" && (
+                          <p className="text-xs text-destructive">{payment.failure_message}</p>
+                        )}
+                        {payment.receipt_url && (
+                          <a
+                            href={payment.receipt_url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-xs text-primary inline-flex items-center gap-1 hover:underline"
+                          >
+                            <ExternalLink className="h-3 w-3" />
+                            Receipt
+                          </a>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+
+            {lineItems.length > 0 && (
+              <>
+                <Separator />
+
+                {/* Line Items */}
+                <div className="space-y-3">
+                  <h3 className="font-medium flex items-center gap-2">
+                    <Package className="h-4 w-4" />
+                    Items
+                  </h3>
+                  <div className="space-y-2 text-sm">
+                    {lineItems.map((item) => (
+                      <div key={item.id} className="flex justify-between gap-4">
+                        <div>
+                          <p className="font-medium">
+                            {item.name}
+                            {item.quantity > 1 && (
+                              <span className="text-muted-foreground font-normal">
+                                {" "}· {item.quantity} × {formatAmount(item.unit_amount_cents)}
+                              </span>
+                            )}
+                          </p>
+                          {item.description && (
+                            <p className="text-xs text-muted-foreground">{item.description}</p>
+                          )}
+                        </div>
+                        <span className="font-medium whitespace-nowrap">{formatAmount(item.amount_cents)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+
+            {installments.length > 0 && (
+              <>
+                <Separator />
+
+                {/* Payment Schedule */}
+                <div className="space-y-3">
+                  <h3 className="font-medium flex items-center gap-2">
+                    <CalendarClock className="h-4 w-4" />
+                    Payment Schedule
+                  </h3>
+                  <div className="space-y-2 text-sm">
+                    {installments.map((installment) => (
+                      <div key={installment.id} className="bg-muted/30 rounded-lg p-3 space-y-1">
+                        <div className="flex justify-between">
+                          <span className="font-medium">
+                            {installment.sequence === 1 ? "Deposit" : `Installment ${installment.sequence - 1}`}
+                            <span className="text-muted-foreground font-normal"> · {formatAmount(installment.amount_cents)}</span>
+                          </span>
+                          <Badge
+                            variant={installmentStatusVariants[installment.status] || "secondary"}
+                            className="text-xs capitalize"
+                          >
+                            {installment.status}
+                          </Badge>
+                        </div>
+                        <div className="flex justify-between text-xs text-muted-foreground">
+                          <span>
+                            {installment.paid_at
+                              ? `Paid ${formatDateTime(installment.paid_at)}`
+                              : `Due ${format(new Date(`${installment.due_date}T00:00:00`), "MMM d, yyyy")}`}
+                            {installment.refunded_cents > 0 && ` · ${formatAmount(installment.refunded_cents)} refunded`}
+                          </span>
+                          {installment.attempt_count > 0 && installment.status !== "paid" && (
+                            <span>
+                              {installment.attempt_count} attempt{installment.attempt_count === 1 ? "" : "s"}
+                              {installment.next_retry_at && ` · retry ${format(new Date(installment.next_retry_at), "MMM d")}`}
+                            </span>
+                          )}
+                        </div>
+                        {installment.last_error && installment.status !== "paid" && (
+                          <p className="text-xs text-destructive">{installment.last_error}</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+
             <Separator />
 
             {/* Timeline */}
@@ -209,6 +893,24 @@ export function TransactionDetailsModal({
                     <span className="text-destructive">{formatDateTime(enrollment.failed_at)}</span>
                   </div>
                 )}
+                {enrollment.disputed_at && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Payment Disputed</span>
+                    <span className="text-destructive">{formatDateTime(enrollment.disputed_at)}</span>
+                  </div>
+                )}
+                {enrollment.reversed_at && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Payment Reversed</span>
+                    <span className="text-destructive">{formatDateTime(enrollment.reversed_at)}</span>
+                  </div>
+                )}
+                {enrollment.refunded_at && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Refunded</span>
+                    <span>{formatDateTime(enrollment.refunded_at)}</span>
+                  </div>
+                )}
                 {enrollment.expired_at && (
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Link Expired</span>
@@ -222,6 +924,138 @@ export function TransactionDetailsModal({
               </div>
             </div>
 
+            {(offlinePayments.length > 0 || canRecordPayment) && (
+              <>
+                <Separator />
+
+                {/* Offline Payments */}
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <h3 className="font-medium flex items-center gap-2">
+                      <Banknote className="h-4 w-4" />
+                      Offline Payments
+                    </h3>
+                    {canRecordPayment && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 text-xs gap-1"
+                        onClick={() => setShowRecordPayment(true)}
+                      >
+                        <Banknote className="h-3 w-3" />
+                        Record Payment
+                      </Button>
+                    )}
+                  </div>
+
+                  {offlinePayments.length > 0 ? (
+                    <div className="space-y-2 text-sm">
+                      {offlinePayments.map((payment) => (
+                        <div key={payment.id} className="bg-muted/30 rounded-lg p-3 space-y-1">
+                          <div className="flex justify-between">
+                            <span className="font-medium">{formatAmount(payment.amount_cents)}</span>
+                            <Badge variant="secondary" className="text-xs">
+                              {offlineMethodLabels[payment.method] || payment.method}
+                            </Badge>
+                          </div>
+                          <div className="flex justify-between text-xs text-muted-foreground">
+                            <span>
+                              Received {format(new Date(`${payment.received_date}T00:00:00`), "MMM d, yyyy")}
+                              {payment.reference_number && ` · Ref ${payment.reference_number}`}
+                            </span>
+                            {payment.proof_path && (
+                              <button
+                                type="button"
+                                className="text-primary hover:underline flex items-center gap-1"
+                                onClick={async () => {
+                                  const { data } = await supabase.storage
+                                    .from("payment-proofs")
+                                    .createSignedUrl(payment.proof_path!, 60);
+                                  if (data?.signedUrl) {
+                                    window.open(data.signedUrl, "_blank");
+                                  }
+                                }}
+                              >
+                                <Download className="h-3 w-3" />
+                                View Proof
+                              </button>
+                            )}
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            Recorded by {payment.recorded_by_email || "admin"} on {formatDateTime(payment.created_at)}
+                          </p>
+                          {payment.note && (
+                            <p className="text-xs bg-background p-2 rounded">{payment.note}</p>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No offline payments recorded.</p>
+                  )}
+                </div>
+              </>
+            )}
+
+            {(refunds.length > 0 || canRefund) && (
+              <>
+                <Separator />
+
+                {/* Refunds */}
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <h3 className="font-medium flex items-center gap-2">
+                      <RotateCcw className="h-4 w-4" />
+                      Refunds
+                    </h3>
+                    {canRefund && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 text-xs gap-1"
+                        onClick={() => setShowRefund(true)}
+                      >
+                        <RotateCcw className="h-3 w-3" />
+                        Issue Refund
+                      </Button>
+                    )}
+                  </div>
+
+                  {refunds.length > 0 ? (
+                    <div className="space-y-2 text-sm">
+                      {refunds.map((refund) => (
+                        <div key={refund.id} className="bg-muted/30 rounded-lg p-3 space-y-1">
+                          <div className="flex justify-between">
+                            <span className="font-medium">{formatAmount(refund.amount_cents)}</span>
+                            <Badge
+                              variant={refund.status === "failed" || refund.status === "canceled" ? "destructive" : "secondary"}
+                              className="text-xs capitalize"
+                            >
+                              {refund.status.replace(/_/g, " ")}
+                            </Badge>
+                          </div>
+                          <div className="flex justify-between text-xs text-muted-foreground">
+                            <span className="capitalize">{refund.reason?.replace(/_/g, " ") || "No reason given"}</span>
+                            <span>{formatDateTime(refund.created_at)}</span>
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            {refund.source === "stripe_dashboard"
+                              ? "Issued from Stripe dashboard"
+                              : `Issued by ${refund.created_by_email || "admin"}`}
+                          </p>
+                          {refund.note && (
+                            <p className="text-xs bg-background p-2 rounded">{refund.note}</p>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No refunds issued.</p>
+                  )}
+                </div>
+              </>
+            )}
+
             <Separator />
 
             {/* Consent Record (Dispute Proof) */}
@@ -276,24 +1110,6 @@ export function TransactionDetailsModal({
                       <FileText className="h-3 w-3" />
                       View Privacy Policy
                     </a>
-                    {enrollment.consent_pdf_path && (
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        className="h-7 text-xs gap-1"
-                        onClick={async () => {
-                          const { data } = await supabase.storage
-                            .from("consent-documents")
-                            .createSignedUrl(enrollment.consent_pdf_path!, 60);
-                          if (data?.signedUrl) {
-                            window.open(data.signedUrl, "_blank");
-                          }
-                        }}
-                      >
-                        <Download className="h-3 w-3" />
-                        Download Consent PDF
-                      </Button>
-                    )}
                   </div>
                 </div>
               ) : (
@@ -303,6 +1119,59 @@ export function TransactionDetailsModal({
               )}
             </div>
 
+            {(enrollment.consent_pdf_path || enrollment.receipt_pdf_path) && (
+              <>
+                <Separator />
+
+                {/* Generated PDFs and their copies on the Zoho record */}
+                <div className="space-y-3">
+                  <h3 className="font-medium flex items-center gap-2">
+                    <FileText className="h-4 w-4" />
+                    Documents
+                  </h3>
+                  <div className="space-y-2">
+                    {documents.filter((doc) => doc.path).map((doc) => (
+                      <div key={doc.document} className="flex items-center justify-between gap-2 p-3 bg-muted/50 rounded-lg text-sm">
+                        <span>
+                          {doc.label}
+                          {doc.version > 1 && <span className="text-muted-foreground"> (version {doc.version})</span>}
+                        </span>
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-7 text-xs gap-1"
+                            onClick={() => openStoredDocument(doc.path!)}
+                          >
+                            <Download className="h-3 w-3" />
+                            Download PDF
+                          </Button>
+                          {doc.attachmentId ? (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="h-7 text-xs gap-1"
+                              disabled={openingZohoCopy === doc.document}
+                              onClick={() => openZohoCopy(doc.document)}
+                            >
+                              {openingZohoCopy === doc.document ? (
+                                <Loader2 className="h-3 w-3 animate-spin" />
+                              ) : (
+                                <ExternalLink className="h-3 w-3" />
+                              )}
+                              Zoho Copy
+                            </Button>
+                          ) : (
+                            <span className="text-xs text-muted-foreground self-center">Not yet in Zoho</span>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+
             <Separator />
 
             {/* Event Log */}
@@ -343,14 +1212,23 @@ export function TransactionDetailsModal({
               )}
             </div>
 
+            <Separator />
+
+            {/* Webhook Events */}
+            <WebhookEventsSection enrollmentId={enrollment.id} />
+
             {/* Technical Info */}
             <Separator />
             <div className="space-y-2 text-xs text-muted-foreground">
               <p>Enrollment ID: <span className="font-mono">{enrollment.id}</span></p>
               <p>Token: <span className="font-mono">****{enrollment.token_last4}</span></p>
+              <p>Allowed payment methods: {enrollment.allowed_payment_methods.map((m) => allowedMethodLabels[m] || m).join(", ")}</p>
               {enrollment.stripe_payment_intent_id && (
                 <p>Stripe Payment Intent: <span className="font-mono">{enrollment.stripe_payment_intent_id}</span></p>
               )}
+              {enrollment.stripe_charge_id && (
+                <p>Stripe Charge: <span className="font-mono">{enrollment.stripe_charge_id}</span></p>
+              )}
             </div>
           </div>
         ) : (
@@ -359,6 +1237,24 @@ export function TransactionDetailsModal({
           </p>
         )}
       </DialogContent>
+
+      {enrollment && canRefund && (
+        <RefundEnrollmentModal
+          isOpen={showRefund}
+          onClose={() => setShowRefund(false)}
+          enrollment={enrollment}
+          refundableCents={refundableCents}
+        />
+      )}
+
+      {enrollment && canRecordPayment && (
+        <RecordOfflinePaymentModal
+          isOpen={showRecordPayment}
+          onClose={() => setShowRecordPayment(false)}
+          enrollment={enrollment}
+          outstandingCents={outstandingCents}
+        />
+      )}
     </Dialog>
   );
 }
@@ -11,7 +11,8 @@ import {
   Building2,
   Clock,
   Trash2,
-  ArrowUpDown
+  ArrowUpDown,
+  Banknote
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle } from "@/components/ui/card";
@@ -50,9 +51,37 @@ import { useToast } from "@/hooks/use-toast";
 import { useAdminAuth } from "@/hooks/useAdminAuth";
 import { RegenerateLinkModal } from "./RegenerateLinkModal";
 import { TransactionDetailsModal } from "./TransactionDetailsModal";
+import { RecordOfflinePaymentModal } from "./RecordOfflinePaymentModal";
 import { DeleteConfirmationDialog } from "./DeleteConfirmationDialog";
+import { CrmSyncBadge, type CrmSyncState } from "./CrmSyncBadge";
 
-type EnrollmentStatus = 'created' | 'sent' | 'opened' | 'processing' | 'paid' | 'failed' | 'expired' | 'canceled';
+type EnrollmentStatus = 'created' | 'sent' | 'opened' | 'processing' | 'paid' | 'partially_paid' | 'failed' | 'expired' | 'canceled' | 'partially_refunded' | 'refunded' | 'reversed' | 'disputed';
+
+// Enrollments that took money cannot get a new link or be deleted
+const settledStatuses: EnrollmentStatus[] = ['paid', 'partially_paid', 'processing', 'partially_refunded', 'refunded', 'disputed'];
+
+// Reversed payments can be re-sent, but their history must be kept
+const undeletableStatuses: EnrollmentStatus[] = [...settledStatuses, 'reversed'];
+
+// Statuses with money still owed that an offline payment can settle
+const recordableStatuses: EnrollmentStatus[] = ['created', 'sent', 'opened', 'failed', 'expired', 'partially_paid'];
+
+// Stripe's card brand codes
+const cardBrandLabels: Record<string, string> = {
+  visa: "Visa",
+  mastercard: "Mastercard",
+  amex: "Amex",
+  discover: "Discover",
+  diners: "Diners",
+  jcb: "JCB",
+  unionpay: "UnionPay",
+};
+
+const offlineMethodLabels: Record<string, string> = {
+  check: "Check",
+  wire: "Wire",
+  cash: "Cash",
+};
 
 interface Transaction {
   id: string;
@@ -63,6 +92,10 @@ interface Transaction {
   amount_cents: number;
   status: EnrollmentStatus;
   payment_method_type: string | null;
+  payment_card_brand: string | null;
+  payment_bank_name: string | null;
+  payment_last4: string | null;
+  payment_net_cents: number | null;
   created_at: string | null;
   opened_at: string | null;
   terms_accepted_at: string | null;
@@ -74,6 +107,7 @@ interface Transaction {
   terms_accept_ip: string | null;
   policy_id: string | null;
   surgeon_name?: string | null;
+  enrollment_installments: { amount_cents: number; status: string }[];
 }
 
 interface Surgeon {
@@ -89,8 +123,9 @@ export function TransactionsTab() {
   const [regenerateEnrollment, setRegenerateEnrollment] = useState<Transaction | null>(null);
   const [detailsEnrollmentId, setDetailsEnrollmentId] = useState<string | null>(null);
   const [deleteTransaction, setDeleteTransaction] = useState<Transaction | null>(null);
+  const [recordPaymentTransaction, setRecordPaymentTransaction] = useState<Transaction | null>(null);
   const { toast } = useToast();
-  const { user } = useAdminAuth();
+  const { user, adminUser } = useAdminAuth();
   const queryClient = useQueryClient();
 
   // Fetch surgeons for filter dropdown
@@ -116,9 +151,11 @@ export function TransactionsTab() {
         .select(`
           id, token_last4, patient_name, patient_email, patient_id, 
           amount_cents, status, payment_method_type, 
+          payment_card_brand, payment_bank_name, payment_last4, payment_net_cents,
           created_at, opened_at, terms_accepted_at, processing_at, 
           paid_at, failed_at, expired_at, expires_at, 
           terms_accept_ip, policy_id,
+          enrollment_installments (amount_cents, status),
           patients!enrollments_patient_id_fkey (
             surgeon_id,
             surgeon:surgeons(id, name)
@@ -152,6 +189,21 @@ export function TransactionsTab() {
     },
   });
 
+  const transactionIds = (transactions || []).map((transaction) => transaction.id);
+  const { data: crmSync = {} } = useQuery({
+    queryKey: ["crm-sync-status", transactionIds],
+    enabled: transactionIds.length > 0,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("enrollment_crm_sync")
+        .select("enrollment_id, sync_status, pending_count, dead_count, last_delivered_at")
+        .in("enrollment_id", transactionIds);
+
+      if (error) throw error;
+      return Object.fromEntries((data || []).map((row) => [row.enrollment_id, row])) as Record<string, CrmSyncState>;
+    },
+  });
+
   // Delete transaction mutation with audit logging
   const deleteTransactionMutation = useMutation({
     mutationFn: async (transaction: Transaction) => {
@@ -226,6 +278,19 @@ export function TransactionsTab() {
     }).format(cents / 100);
   };
 
+  // Paid vs outstanding for enrollments on a payment plan
+  const planBalance = (transaction: Transaction) => {
+    const installments = transaction.enrollment_installments;
+    return {
+      paid: installments
+        .filter((i) => i.status === "paid")
+        .reduce((sum, i) => sum + i.amount_cents, 0),
+      outstanding: installments
+        .filter((i) => i.status !== "paid" && i.status !== "canceled")
+        .reduce((sum, i) => sum + i.amount_cents, 0),
+    };
+  };
+
   const handleCopyToken = (tokenLast4: string) => {
     navigator.clipboard.writeText(`****${tokenLast4}`);
     toast({
@@ -271,9 +336,14 @@ export function TransactionsTab() {
             <SelectItem value="opened">Opened</SelectItem>
             <SelectItem value="processing">Processing</SelectItem>
             <SelectItem value="paid">Paid</SelectItem>
+            <SelectItem value="partially_paid">Partially Paid</SelectItem>
             <SelectItem value="failed">Failed</SelectItem>
             <SelectItem value="expired">Expired</SelectItem>
             <SelectItem value="canceled">Canceled</SelectItem>
+            <SelectItem value="partially_refunded">Partially Refunded</SelectItem>
+            <SelectItem value="refunded">Refunded</SelectItem>
+            <SelectItem value="reversed">Reversed</SelectItem>
+            <SelectItem value="disputed">Disputed</SelectItem>
           </SelectContent>
         </Select>
         <Select value={surgeonFilter} onValueChange={setSurgeonFilter}>
@@ -366,9 +436,22 @@ export function TransactionsTab() {
                     </TableCell>
                     <TableCell className="font-medium">
                       {formatAmount(transaction.amount_cents)}
+                      {transaction.enrollment_installments.length > 0 && (
+                        <p className="text-xs font-normal text-muted-foreground whitespace-nowrap">
+                          {formatAmount(planBalance(transaction).paid)} paid · {formatAmount(planBalance(transaction).outstanding)} due
+                        </p>
+                      )}
+                      {transaction.payment_net_cents !== null && (
+                        <p className="text-xs font-normal text-muted-foreground whitespace-nowrap">
+                          {formatAmount(transaction.payment_net_cents)} net
+                        </p>
+                      )}
                     </TableCell>
                     <TableCell>
-                      <StatusBadge status={transaction.status} />
+                      <div className="flex flex-col items-start gap-1">
+                        <StatusBadge status={transaction.status} />
+                        <CrmSyncBadge state={crmSync[transaction.id]} />
+                      </div>
                     </TableCell>
                     <TableCell>
                       {transaction.payment_method_type ? (
@@ -376,12 +459,19 @@ export function TransactionsTab() {
                           {transaction.payment_method_type === "card" ? (
                             <>
                               <CreditCard className="h-4 w-4" />
-                              Card
+                              {transaction.payment_card_brand ? cardBrandLabels[transaction.payment_card_brand] || transaction.payment_card_brand : "Card"}
+                              {transaction.payment_last4 && ` ····${transaction.payment_last4}`}
                             </>
-                          ) : (
+                          ) : transaction.payment_method_type === "ach" ? (
                             <>
                               <Building2 className="h-4 w-4" />
                               ACH
+                              {transaction.payment_last4 && ` ····${transaction.payment_last4}`}
+                            </>
+                          ) : (
+                            <>
+                              <Banknote className="h-4 w-4" />
+                              {offlineMethodLabels[transaction.payment_method_type] || transaction.payment_method_type}
                             </>
                           )}
                         </div>
@@ -452,12 +542,18 @@ export function TransactionsTab() {
                           </DropdownMenuItem>
                           <DropdownMenuItem
                             onClick={() => setRegenerateEnrollment(transaction)}
-                            disabled={["paid", "processing"].includes(transaction.status)}
+                            disabled={settledStatuses.includes(transaction.status)}
                           >
                             <RefreshCw className="h-4 w-4 mr-2" />
                             Get New Link
                           </DropdownMenuItem>
-                          {!["paid", "processing"].includes(transaction.status) && (
+                          {adminUser?.role !== "viewer" && recordableStatuses.includes(transaction.status) && (
+                            <DropdownMenuItem onClick={() => setRecordPaymentTransaction(transaction)}>
+                              <Banknote className="h-4 w-4 mr-2" />
+                              Record Offline Payment
+                            </DropdownMenuItem>
+                          )}
+                          {!undeletableStatuses.includes(transaction.status) && (
                             <DropdownMenuItem 
                               onClick={() => setDeleteTransaction(transaction)}
                               className="text-destructive focus:text-destructive"
@@ -495,6 +591,20 @@ export function TransactionsTab() {
         />
       )}
 
+      {/* Record Offline Payment Modal */}
+      {recordPaymentTransaction && (
+        <RecordOfflinePaymentModal
+          isOpen={!!recordPaymentTransaction}
+          onClose={() => setRecordPaymentTransaction(null)}
+          enrollment={{ ...recordPaymentTransaction, currency: null }}
+          outstandingCents={
+            recordPaymentTransaction.status === "partially_paid"
+              ? planBalance(recordPaymentTransaction).outstanding
+              : recordPaymentTransaction.amount_cents
+          }
+        />
+      )}
+
       {/* Delete Confirmation Dialog */}
       {deleteTransaction && (
         <DeleteConfirmationDialog
@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Loader2, RefreshCw, Webhook } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAdminAuth } from "@/hooks/useAdminAuth";
+import { useToast } from "@/hooks/use-toast";
+
+interface WebhookEventsSectionProps {
+  enrollmentId: string;
+}
+
+interface WebhookEvent {
+  id: string;
+  provider: string;
+  event_id: string;
+  event_type: string;
+  kind: string | null;
+  payload: Record<string, unknown>;
+  status: string;
+  error: string | null;
+  attempts: number;
+  duration_ms: number | null;
+  received_at: string;
+  processed_at: string | null;
+  last_replayed_at: string | null;
+  last_replayed_by_email: string | null;
+}
+
+interface ReplayResult {
+  success: boolean;
+  status: string | null;
+  error: string | null;
+}
+
+const statusVariants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  succeeded: "default",
+  skipped: "outline",
+  processing: "secondary",
+  failed: "destructive",
+};
+
+// Events that succeeded already had their effects, so only these can be run again
+const replayableStatuses = ["failed", "skipped"];
+
+export function WebhookEventsSection({ enrollmentId }: WebhookEventsSectionProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const { adminUser } = useAdminAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const canReplay = adminUser?.role !== "viewer";
+
+  const { data: webhookEvents = [], isLoading } = useQuery({
+    queryKey: ["webhook-events", enrollmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("webhook_events")
+        .select("*")
+        .eq("enrollment_id", enrollmentId)
+        .order("received_at", { ascending: true });
+
+      if (error) throw error;
+      return data as unknown as WebhookEvent[];
+    },
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: async (webhookEvent: WebhookEvent) => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error("Not authenticated");
+
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/replay-webhook-event`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({ webhook_event_id: webhookEvent.id }),
+        }
+      );
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to replay event");
+      }
+
+      return result as ReplayResult;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["webhook-events", enrollmentId] });
+      queryClient.invalidateQueries({ queryKey: ["enrollment-details", enrollmentId] });
+      queryClient.invalidateQueries({ queryKey: ["enrollment-events", enrollmentId] });
+      queryClient.invalidateQueries({ queryKey: ["enrollment-refunds", enrollmentId] });
+      queryClient.invalidateQueries({ queryKey: ["enrollment-installments", enrollmentId] });
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["audit-log"] });
+      toast({
+        title: data.success ? "Event replayed" : "Replay failed",
+        description: data.error || `Handler finished with status: ${data.status}`,
+        variant: data.success ? "default" : "destructive",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to replay event",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-3">
+      <h3 className="font-medium flex items-center gap-2">
+        <Webhook className="h-4 w-4" />
+        Webhook Events
+      </h3>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : webhookEvents.length > 0 ? (
+        <div className="space-y-2 text-sm">
+          {webhookEvents.map((webhookEvent) => (
+            <div key={webhookEvent.id} className="bg-muted/30 rounded-lg p-3 space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-mono text-xs">{webhookEvent.event_type}</span>
+                <div className="flex items-center gap-2">
+                  <Badge
+                    variant={statusVariants[webhookEvent.status] || "secondary"}
+                    className="text-xs capitalize"
+                  >
+                    {webhookEvent.status}
+                  </Badge>
+                  {canReplay && replayableStatuses.includes(webhookEvent.status) && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-xs gap-1"
+                      disabled={replayMutation.isPending}
+                      onClick={() => replayMutation.mutate(webhookEvent)}
+                    >
+                      {replayMutation.isPending && replayMutation.variables?.id === webhookEvent.id ? (
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                      ) : (
+                        <RefreshCw className="h-3 w-3" />
+                      )}
+                      Replay
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>
+                  {format(new Date(webhookEvent.received_at), "MMM d, h:mm:ss a")}
+                  {webhookEvent.attempts > 1 && ` · ${webhookEvent.attempts} attempts`}
+                  {webhookEvent.duration_ms !== null && ` · ${webhookEvent.duration_ms} ms`}
+                </span>
+                <button
+                  type="button"
+                  className="text-primary hover:underline"
+                  onClick={() => setExpandedId(expandedId === webhookEvent.id ? null : webhookEvent.id)}
+                >
+                  {expandedId === webhookEvent.id ? "Hide payload" : "View payload"}
+                </button>
+              </div>
+              {webhookEvent.error && (
+                <p className="text-xs text-destructive">{webhookEvent.error}</p>
+              )}
+              {webhookEvent.last_replayed_at && (
+                <p className="text-xs text-muted-foreground">
+                  Replayed {format(new Date(webhookEvent.last_replayed_at), "MMM d, h:mm a")}
+                  {webhookEvent.last_replayed_by_email && ` by ${webhookEvent.last_replayed_by_email}`}
+                </p>
+              )}
+              {expandedId === webhookEvent.id && (
+                <pre className="text-xs bg-background p-2 rounded overflow-x-auto max-h-64">
+                  {JSON.stringify(webhookEvent.payload, null, 2)}
+                </pre>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No webhook events recorded.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,417 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { CheckCircle2, Loader2, MinusCircle, Save, ShieldCheck, XCircle } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAdminAuth } from "@/hooks/useAdminAuth";
+import { useToast } from "@/hooks/use-toast";
+
+interface FieldMappingRow {
+  canonical_field: string;
+  zoho_field: string;
+  sync_enabled: boolean;
+}
+
+interface ValueMappingRow {
+  canonical_field: string;
+  canonical_value: string;
+  zoho_value: string;
+}
+
+interface FieldCheck {
+  canonical_field: string;
+  zoho_field: string | null;
+  status: "ok" | "error" | "skipped";
+  message: string;
+}
+
+interface ValidationResult {
+  zoho_module: string;
+  valid: boolean;
+  results: FieldCheck[];
+}
+
+// Keep in step with defaultZohoFields in supabase/functions/_shared/zoho-fields.ts
+const canonicalFields: { value: string; label: string; defaultField: string }[] = [
+  { value: "status", label: "Enrollment status", defaultField: "Enrollment_Status" },
+  { value: "enrollment_link", label: "Enrollment link", defaultField: "Enrollment_Link" },
+  { value: "enrollment_date", label: "Enrollment date", defaultField: "Enrollment_Date" },
+  { value: "link_expires_at", label: "Link expires at", defaultField: "Enrollment_Expires_At" },
+  { value: "token_last4", label: "Link token (last 4)", defaultField: "Enrollment_Token_Last4" },
+  { value: "payment_method", label: "Payment method", defaultField: "Payment_Method_Stripe" },
+  { value: "stripe_session_id", label: "Stripe checkout session", defaultField: "Stripe_Session_ID" },
+  { value: "payment_date", label: "Paid date", defaultField: "Payment_Date" },
+  { value: "processing_date", label: "Processing date", defaultField: "Processing_Date" },
+  { value: "payment_failed_date", label: "Payment failed date", defaultField: "Payment_Failed_Date" },
+  { value: "reversed_date", label: "Reversed date", defaultField: "Reversed_Date" },
+  { value: "dispute_date", label: "Dispute date", defaultField: "Dispute_Date" },
+  { value: "expired_date", label: "Expired date", defaultField: "Expired_Date" },
+  { value: "canceled_date", label: "Canceled date", defaultField: "Canceled_Date" },
+  { value: "refund_date", label: "Refund date", defaultField: "Refund_Date" },
+  { value: "refunded_amount", label: "Refunded amount", defaultField: "Refunded_Amount" },
+  { value: "payment_adjustment", label: "Payment adjustment", defaultField: "Payment_Adjustment" },
+  { value: "payment_adjustment_label", label: "Payment adjustment label", defaultField: "Payment_Adjustment_Label" },
+  { value: "payer_name", label: "Payer name", defaultField: "Payer_Name" },
+  { value: "payer_email", label: "Payer email", defaultField: "Payer_Email" },
+  { value: "mailing_street", label: "Mailing street", defaultField: "Mailing_Street" },
+  { value: "mailing_city", label: "Mailing city", defaultField: "Mailing_City" },
+  { value: "mailing_state", label: "Mailing state", defaultField: "Mailing_State" },
+  { value: "mailing_zip", label: "Mailing zip", defaultField: "Mailing_Zip" },
+  { value: "mailing_country", label: "Mailing country", defaultField: "Mailing_Country" },
+];
+
+// Keep in step with defaultZohoValues in supabase/functions/_shared/zoho-fields.ts
+const canonicalValues: { field: string; value: string; label: string; defaultValue: string }[] = [
+  { field: "status", value: "created", label: "Created", defaultValue: "created" },
+  { field: "status", value: "processing", label: "Processing", defaultValue: "Processing" },
+  { field: "status", value: "paid", label: "Paid", defaultValue: "Paid" },
+  { field: "status", value: "partially_paid", label: "Partially paid", defaultValue: "Partially Paid" },
+  { field: "status", value: "failed", label: "Failed", defaultValue: "Failed" },
+  { field: "status", value: "expired", label: "Expired", defaultValue: "Expired" },
+  { field: "status", value: "canceled", label: "Canceled", defaultValue: "Canceled" },
+  { field: "status", value: "refunded", label: "Refunded", defaultValue: "Refunded" },
+  { field: "status", value: "partially_refunded", label: "Partially refunded", defaultValue: "Partially Refunded" },
+  { field: "status", value: "reversed", label: "Reversed", defaultValue: "Reversed" },
+  { field: "status", value: "disputed", label: "Disputed", defaultValue: "Disputed" },
+  { field: "payment_method", value: "card", label: "Card", defaultValue: "Card" },
+  { field: "payment_method", value: "ach", label: "ACH", defaultValue: "ACH" },
+];
+
+const valueKey = (field: string, value: string) => `${field}:${value}`;
+
+// Zoho API names and picklist values per module. Only changes from the
+// defaults are stored; functions pick up a saved change within a minute.
+export function ZohoFieldMappingSection() {
+  const [zohoModule, setZohoModule] = useState("Deals");
+  const [fieldEdits, setFieldEdits] = useState<Record<string, { zoho_field: string; sync_enabled: boolean }>>({});
+  const [valueEdits, setValueEdits] = useState<Record<string, string>>({});
+  const [validation, setValidation] = useState<ValidationResult | null>(null);
+  const { adminUser } = useAdminAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const canManage = adminUser?.role !== "viewer";
+  const module = zohoModule.trim();
+
+  const { data: fieldRows = [], isLoading: fieldsLoading } = useQuery({
+    queryKey: ["zoho-field-mappings", module],
+    enabled: !!module,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("zoho_field_mappings")
+        .select("canonical_field, zoho_field, sync_enabled")
+        .eq("zoho_module", module);
+
+      if (error) throw error;
+      return data as FieldMappingRow[];
+    },
+  });
+
+  const { data: valueRows = [], isLoading: valuesLoading } = useQuery({
+    queryKey: ["zoho-value-mappings", module],
+    enabled: !!module,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("zoho_value_mappings")
+        .select("canonical_field, canonical_value, zoho_value")
+        .eq("zoho_module", module);
+
+      if (error) throw error;
+      return data as ValueMappingRow[];
+    },
+  });
+
+  const fieldMutation = useMutation({
+    mutationFn: async ({ canonicalField, zohoField, syncEnabled }: { canonicalField: string; zohoField: string; syncEnabled: boolean }) => {
+      const defaultField = canonicalFields.find((field) => field.value === canonicalField)?.defaultField;
+      const name = zohoField.trim() || defaultField || "";
+
+      // Back to the default: drop the override rather than store a copy of it
+      const { error } = name === defaultField && syncEnabled
+        ? await supabase
+            .from("zoho_field_mappings")
+            .delete()
+            .eq("zoho_module", module)
+            .eq("canonical_field", canonicalField)
+        : await supabase
+            .from("zoho_field_mappings")
+            .upsert(
+              { zoho_module: module, canonical_field: canonicalField, zoho_field: name, sync_enabled: syncEnabled },
+              { onConflict: "zoho_module,canonical_field" }
+            );
+      if (error) throw error;
+    },
+    onSuccess: (_, { canonicalField }) => {
+      queryClient.invalidateQueries({ queryKey: ["zoho-field-mappings", module] });
+      setFieldEdits(({ [canonicalField]: _saved, ...rest }) => rest);
+      setValidation(null);
+      toast({ title: "Field mapping saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save field mapping", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const valueMutation = useMutation({
+    mutationFn: async ({ field, value, zohoValue }: { field: string; value: string; zohoValue: string }) => {
+      const defaultValue = canonicalValues.find((v) => v.field === field && v.value === value)?.defaultValue;
+      const picklistValue = zohoValue.trim() || defaultValue || "";
+
+      const { error } = picklistValue === defaultValue
+        ? await supabase
+            .from("zoho_value_mappings")
+            .delete()
+            .eq("zoho_module", module)
+            .eq("canonical_field", field)
+            .eq("canonical_value", value)
+        : await supabase
+            .from("zoho_value_mappings")
+            .upsert(
+              { zoho_module: module, canonical_field: field, canonical_value: value, zoho_value: picklistValue },
+              { onConflict: "zoho_module,canonical_field,canonical_value" }
+            );
+      if (error) throw error;
+    },
+    onSuccess: (_, { field, value }) => {
+      queryClient.invalidateQueries({ queryKey: ["zoho-value-mappings", module] });
+      setValueEdits(({ [valueKey(field, value)]: _saved, ...rest }) => rest);
+      setValidation(null);
+      toast({ title: "Picklist value saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save picklist value", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const validateMutation = useMutation({
+    mutationFn: async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error("Not authenticated");
+
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/validate-zoho-fields`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({ zoho_module: module }),
+        }
+      );
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to validate field mapping");
+      }
+
+      return result as ValidationResult;
+    },
+    onSuccess: (data) => {
+      setValidation(data);
+      toast({
+        title: data.valid ? "Field mapping matches Zoho" : "Field mapping has problems",
+        description: data.valid ? undefined : "See the highlighted fields below.",
+        variant: data.valid ? "default" : "destructive",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to validate field mapping", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const fieldSetting = (canonicalField: string) => {
+    if (fieldEdits[canonicalField]) return fieldEdits[canonicalField];
+    const row = fieldRows.find((r) => r.canonical_field === canonicalField);
+    return row ? { zoho_field: row.zoho_field, sync_enabled: row.sync_enabled } : { zoho_field: "", sync_enabled: true };
+  };
+
+  const editField = (canonicalField: string, change: Partial<{ zoho_field: string; sync_enabled: boolean }>) =>
+    setFieldEdits((edits) => ({ ...edits, [canonicalField]: { ...fieldSetting(canonicalField), ...change } }));
+
+  const zohoValue = (field: string, value: string) =>
+    valueEdits[valueKey(field, value)]
+      ?? valueRows.find((r) => r.canonical_field === field && r.canonical_value === value)?.zoho_value
+      ?? "";
+
+  const checkFor = (canonicalField: string) =>
+    validation?.zoho_module === module
+      ? validation.results.find((result) => result.canonical_field === canonicalField)
+      : undefined;
+
+  const changeModule = (value: string) => {
+    setZohoModule(value);
+    setFieldEdits({});
+    setValueEdits({});
+  };
+
+  return (
+    <Card className="card-premium overflow-hidden">
+      <CardHeader className="border-b border-border bg-muted/30">
+        <CardTitle className="text-lg">Field Mapping</CardTitle>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-6">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="zoho-mapping-module">Zoho module</Label>
+            <Input
+              id="zoho-mapping-module"
+              className="w-[220px]"
+              value={zohoModule}
+              onChange={(e) => changeModule(e.target.value)}
+            />
+          </div>
+          <Button
+            variant="outline"
+            className="gap-1"
+            disabled={!module || validateMutation.isPending}
+            onClick={() => validateMutation.mutate()}
+          >
+            {validateMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <ShieldCheck className="h-4 w-4" />}
+            Test against Zoho
+          </Button>
+        </div>
+
+        {fieldsLoading || valuesLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow className="hover:bg-transparent">
+                  <TableHead>Field</TableHead>
+                  <TableHead>Zoho API Name</TableHead>
+                  <TableHead className="w-[80px]">Sync</TableHead>
+                  <TableHead>Check</TableHead>
+                  <TableHead className="w-[80px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {canonicalFields.map((field) => {
+                  const setting = fieldSetting(field.value);
+                  const check = checkFor(field.value);
+                  return (
+                    <TableRow key={field.value}>
+                      <TableCell className="text-sm">
+                        <p className="font-medium">{field.label}</p>
+                        <p className="text-xs text-muted-foreground font-mono">{field.value}</p>
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          className="font-mono text-sm"
+                          value={setting.zoho_field}
+                          placeholder={field.defaultField}
+                          disabled={!canManage}
+                          onChange={(e) => editField(field.value, { zoho_field: e.target.value })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={setting.sync_enabled}
+                          disabled={!canManage}
+                          onCheckedChange={(checked) => editField(field.value, { sync_enabled: checked })}
+                        />
+                      </TableCell>
+                      <TableCell className="text-xs max-w-[260px]">
+                        {check && (
+                          <span className="inline-flex items-start gap-1">
+                            {check.status === "ok" ? (
+                              <CheckCircle2 className="h-4 w-4 shrink-0 text-success" />
+                            ) : check.status === "error" ? (
+                              <XCircle className="h-4 w-4 shrink-0 text-destructive" />
+                            ) : (
+                              <MinusCircle className="h-4 w-4 shrink-0 text-muted-foreground" />
+                            )}
+                            <span className={check.status === "error" ? "text-destructive" : "text-muted-foreground"}>
+                              {check.message}
+                            </span>
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {canManage && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={!fieldEdits[field.value] || fieldMutation.isPending}
+                            onClick={() => fieldMutation.mutate({
+                              canonicalField: field.value,
+                              zohoField: setting.zoho_field,
+                              syncEnabled: setting.sync_enabled,
+                            })}
+                          >
+                            <Save className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            <Table>
+              <TableHeader>
+                <TableRow className="hover:bg-transparent">
+                  <TableHead>Value</TableHead>
+                  <TableHead>Zoho Picklist Value</TableHead>
+                  <TableHead className="w-[80px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {canonicalValues.map((value) => {
+                  const key = valueKey(value.field, value.value);
+                  return (
+                    <TableRow key={key}>
+                      <TableCell className="text-sm">
+                        <p className="font-medium">{value.label}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {value.field === "status" ? "Enrollment status" : "Payment method"}
+                        </p>
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={zohoValue(value.field, value.value)}
+                          placeholder={value.defaultValue}
+                          disabled={!canManage}
+                          onChange={(e) => setValueEdits((edits) => ({ ...edits, [key]: e.target.value }))}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {canManage && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={valueEdits[key] === undefined || valueMutation.isPending}
+                            onClick={() => valueMutation.mutate({ field: value.field, value: value.value, zohoValue: valueEdits[key] })}
+                          >
+                            <Save className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
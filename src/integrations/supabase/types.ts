@@ -14,6 +14,108 @@ export type Database = {
   }
   public: {
     Tables: {
+      accounting_accounts: {
+        Row: {
+          account_name: string
+          created_at: string
+          entry_type: string
+          updated_at: string
+        }
+        Insert: {
+          account_name: string
+          created_at?: string
+          entry_type: string
+          updated_at?: string
+        }
+        Update: {
+          account_name?: string
+          created_at?: string
+          entry_type?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      accounting_export_items: {
+        Row: {
+          created_at: string
+          enrollment_id: string | null
+          export_id: string
+          source_id: string
+          source_type: string
+        }
+        Insert: {
+          created_at?: string
+          enrollment_id?: string | null
+          export_id: string
+          source_id: string
+          source_type: string
+        }
+        Update: {
+          created_at?: string
+          enrollment_id?: string | null
+          export_id?: string
+          source_id?: string
+          source_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "accounting_export_items_enrollment_id_fkey"
+            columns: ["enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "enrollments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "accounting_export_items_export_id_fkey"
+            columns: ["export_id"]
+            isOneToOne: false
+            referencedRelation: "accounting_exports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      accounting_exports: {
+        Row: {
+          content: string
+          created_at: string
+          entry_count: number
+          exported_by: string | null
+          exported_by_email: string | null
+          format: string
+          id: string
+          line_count: number
+          period_end: string
+          period_start: string
+          totals: Json
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          entry_count: number
+          exported_by?: string | null
+          exported_by_email?: string | null
+          format: string
+          id?: string
+          line_count: number
+          period_end: string
+          period_start: string
+          totals?: Json
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          entry_count?: number
+          exported_by?: string | null
+          exported_by_email?: string | null
+          format?: string
+          id?: string
+          line_count?: number
+          period_end?: string
+          period_start?: string
+          totals?: Json
+        }
+        Relationships: []
+      }
       admin_audit_log: {
         Row: {
           action: string
@@ -86,6 +188,235 @@ export type Database = {
         }
         Relationships: []
       }
+      crm_sync_outbox: {
+        Row: {
+          attempts: number
+          created_at: string
+          dead_at: string | null
+          delivered_at: string | null
+          enrollment_id: string | null
+          id: string
+          last_error: string | null
+          last_error_code: string | null
+          locked_at: string | null
+          next_attempt_at: string
+          operation: string
+          payload: Json
+          resolved_at: string | null
+          resolved_by: string | null
+          resolved_by_email: string | null
+          seq: number
+          status: string
+          updated_at: string
+          zoho_module: string
+          zoho_record_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          dead_at?: string | null
+          delivered_at?: string | null
+          enrollment_id?: string | null
+          id?: string
+          last_error?: string | null
+          last_error_code?: string | null
+          locked_at?: string | null
+          next_attempt_at?: string
+          operation: string
+          payload: Json
+          resolved_at?: string | null
+          resolved_by?: string | null
+          resolved_by_email?: string | null
+          seq?: never
+          status?: string
+          updated_at?: string
+          zoho_module: string
+          zoho_record_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          dead_at?: string | null
+          delivered_at?: string | null
+          enrollment_id?: string | null
+          id?: string
+          last_error?: string | null
+          last_error_code?: string | null
+          locked_at?: string | null
+          next_attempt_at?: string
+          operation?: string
+          payload?: Json
+          resolved_at?: string | null
+          resolved_by?: string | null
+          resolved_by_email?: string | null
+          seq?: never
+          status?: string
+          updated_at?: string
+          zoho_module?: string
+          zoho_record_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "crm_sync_outbox_enrollment_id_fkey"
+            columns: ["enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "enrollments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      enrollment_checkout_sessions: {
+        Row: {
+          amount_cents: number
+          checkout_url: string | null
+          completed_at: string | null
+          created_at: string
+          currency: string
+          enrollment_id: string
+          enrollment_payment_id: string | null
+          error: string | null
+          expires_at: string | null
+          id: string
+          late_payment_refund_id: string | null
+          mode: string
+          payment_method_types: string[]
+          provider: string
+          request_hash: string
+          status: Database["public"]["Enums"]["checkout_session_status"]
+          stripe_payment_intent_id: string | null
+          stripe_session_id: string | null
+          superseded_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          amount_cents: number
+          checkout_url?: string | null
+          completed_at?: string | null
+          created_at?: string
+          currency?: string
+          enrollment_id: string
+          enrollment_payment_id?: string | null
+          error?: string | null
+          expires_at?: string | null
+          id?: string
+          late_payment_refund_id?: string | null
+          mode: string
+          payment_method_types: string[]
+          provider: string
+          request_hash: string
+          status?: Database["public"]["Enums"]["checkout_session_status"]
+          stripe_payment_intent_id?: string | null
+          stripe_session_id?: string | null
+          superseded_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          amount_cents?: number
+          checkout_url?: string | null
+          completed_at?: string | null
+          created_at?: string
+          currency?: string
+          enrollment_id?: string
+          enrollment_payment_id?: string | null
+          error?: string | null
+          expires_at?: string | null
+          id?: string
+          late_payment_refund_id?: string | null
+          mode?: string
+          payment_method_types?: string[]
+          provider?: string
+          request_hash?: string
+          status?: Database["public"]["Enums"]["checkout_session_status"]
+          stripe_payment_intent_id?: string | null
+          stripe_session_id?: string | null
+          superseded_at?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "enrollment_checkout_sessions_enrollment_id_fkey"
+            columns: ["enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "enrollments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "enrollment_checkout_sessions_enrollment_payment_id_fkey"
+            columns: ["enrollment_payment_id"]
+            isOneToOne: false
+            referencedRelation: "enrollment_payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      enrollment_disputes: {
+        Row: {
+          amount_cents: number
+          closed_at: string | null
+          created_at: string
+          currency: string
+          enrollment_id: string
+          evidence: Json | null
+          evidence_due_by: string | null
+          evidence_notes: string | null
+          evidence_submitted_at: string | null
+          evidence_submitted_by: string | null
+          evidence_submitted_by_email: string | null
+          id: string
+          reason: string | null
+          status: string
+          stripe_charge_id: string
+          stripe_dispute_id: string
+          updated_at: string
+        }
+        Insert: {
+          amount_cents: number
+          closed_at?: string | null
+          created_at?: string
+          currency?: string
+          enrollment_id: string
+          evidence?: Json | null
+          evidence_due_by?: string | null
+          evidence_notes?: string | null
+          evidence_submitted_at?: string | null
+          evidence_submitted_by?: string | null
+          evidence_submitted_by_email?: string | null
+          id?: string
+          reason?: string | null
+          status: string
+          stripe_charge_id: string
+          stripe_dispute_id: string
+          updated_at?: string
+        }
+        Update: {
+          amount_cents?: number
+          closed_at?: string | null
+          created_at?: string
+          currency?: string
+          enrollment_id?: string
+          evidence?: Json | null
+          evidence_due_by?: string | null
+          evidence_notes?: string | null
+          evidence_submitted_at?: string | null
+          evidence_submitted_by?: string | null
+          evidence_submitted_by_email?: string | null
+          id?: string
+          reason?: string | null
+          status?: string
+          stripe_charge_id?: string
+          stripe_dispute_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "enrollment_disputes_enrollment_id_fkey"
+            columns: ["enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "enrollments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       enrollment_events: {
         Row: {
           created_at: string | null
@@ -118,311 +449,1543 @@ export type Database = {
           },
         ]
       }
-      enrollments: {
+      enrollment_installments: {
         Row: {
           amount_cents: number
-          consent_pdf_path: string | null
-          created_at: string | null
-          currency: string | null
-          expired_at: string | null
-          expires_at: string
+          attempt_count: number
+          created_at: string
+          currency: string
+          due_date: string
+          enrollment_id: string
           failed_at: string | null
+          fee_cents: number | null
           id: string
-          opened_at: string | null
+          last_attempt_at: string | null
+          last_error: string | null
+          net_cents: number | null
+          next_retry_at: string | null
           paid_at: string | null
-          patient_email: string | null
-          patient_id: string | null
-          patient_name: string | null
-          patient_phone: string | null
-          payment_method_type:
-            | Database["public"]["Enums"]["payment_method_type"]
-            | null
-          policy_id: string | null
-          privacy_url: string
-          processing_at: string | null
-          signature_data: string | null
-          status: Database["public"]["Enums"]["enrollment_status"]
-          stripe_customer_id: string | null
+          receipt_url: string | null
+          refunded_cents: number
+          sequence: number
+          status: Database["public"]["Enums"]["installment_status"]
           stripe_payment_intent_id: string | null
-          stripe_session_id: string | null
-          terms_accept_ip: string | null
-          terms_accept_user_agent: string | null
-          terms_accepted_at: string | null
-          terms_sha256: string
-          terms_url: string
-          terms_version: string
-          token_hash: string
-          token_last4: string
-          updated_at: string | null
-          zoho_module: string
-          zoho_record_id: string
+          updated_at: string
         }
         Insert: {
           amount_cents: number
-          consent_pdf_path?: string | null
-          created_at?: string | null
-          currency?: string | null
-          expired_at?: string | null
-          expires_at: string
+          attempt_count?: number
+          created_at?: string
+          currency?: string
+          due_date: string
+          enrollment_id: string
           failed_at?: string | null
+          fee_cents?: number | null
           id?: string
-          opened_at?: string | null
+          last_attempt_at?: string | null
+          last_error?: string | null
+          net_cents?: number | null
+          next_retry_at?: string | null
           paid_at?: string | null
-          patient_email?: string | null
-          patient_id?: string | null
-          patient_name?: string | null
-          patient_phone?: string | null
-          payment_method_type?:
-            | Database["public"]["Enums"]["payment_method_type"]
-            | null
-          policy_id?: string | null
-          privacy_url: string
-          processing_at?: string | null
-          signature_data?: string | null
-          status?: Database["public"]["Enums"]["enrollment_status"]
-          stripe_customer_id?: string | null
+          receipt_url?: string | null
+          refunded_cents?: number
+          sequence: number
+          status?: Database["public"]["Enums"]["installment_status"]
+          stripe_payment_intent_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          amount_cents?: number
+          attempt_count?: number
+          created_at?: string
+          currency?: string
+          due_date?: string
+          enrollment_id?: string
+          failed_at?: string | null
+          fee_cents?: number | null
+          id?: string
+          last_attempt_at?: string | null
+          last_error?: string | null
+          net_cents?: number | null
+          next_retry_at?: string | null
+          paid_at?: string | null
+          receipt_url?: string | null
+          refunded_cents?: number
+          sequence?: number
+          status?: Database["public"]["Enums"]["installment_status"]
+          stripe_payment_intent_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "enrollment_installments_enrollment_id_fkey"
+            columns: ["enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "enrollments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      enrollment_line_items: {
+        Row: {
+          amount_cents: number
+          created_at: string
+          description: string | null
+          enrollment_id: string
+          id: string
+          name: string
+          position: number
+          product_id: string | null
+          quantity: number
+          unit_amount_cents: number
+        }
+        Insert: {
+          amount_cents: number
+          created_at?: string
+          description?: string | null
+          enrollment_id: string
+          id?: string
+          name: string
+          position: number
+          product_id?: string | null
+          quantity?: number
+          unit_amount_cents: number
+        }
+        Update: {
+          amount_cents?: number
+          created_at?: string
+          description?: string | null
+          enrollment_id?: string
+          id?: string
+          name?: string
+          position?: number
+          product_id?: string | null
+          quantity?: number
+          unit_amount_cents?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "enrollment_line_items_enrollment_id_fkey"
+            columns: ["enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "enrollments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "enrollment_line_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      enrollment_offline_payments: {
+        Row: {
+          amount_cents: number
+          created_at: string
+          currency: string
+          enrollment_id: string
+          id: string
+          method: string
+          note: string | null
+          proof_path: string | null
+          received_date: string
+          recorded_by: string | null
+          recorded_by_email: string | null
+          reference_number: string | null
+        }
+        Insert: {
+          amount_cents: number
+          created_at?: string
+          currency?: string
+          enrollment_id: string
+          id?: string
+          method: string
+          note?: string | null
+          proof_path?: string | null
+          received_date: string
+          recorded_by?: string | null
+          recorded_by_email?: string | null
+          reference_number?: string | null
+        }
+        Update: {
+          amount_cents?: number
+          created_at?: string
+          currency?: string
+          enrollment_id?: string
+          id?: string
+          method?: string
+          note?: string | null
+          proof_path?: string | null
+          received_date?: string
+          recorded_by?: string | null
+          recorded_by_email?: string | null
+          reference_number?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "enrollment_offline_payments_enrollment_id_fkey"
+            columns: ["enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "enrollments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      enrollment_payments: {
+        Row: {
+          adjustment_cents: number | null
+          adjustment_label: string | null
+          amount_cents: number
+          bank_name: string | null
+          card_brand: string | null
+          created_at: string
+          currency: string
+          enrollment_id: string
+          failed_at: string | null
+          failure_message: string | null
+          fee_cents: number | null
+          id: string
+          last4: string | null
+          net_cents: number | null
+          paid_at: string | null
+          payment_method_type:
+            | Database["public"]["Enums"]["payment_method_type"]
+            | null
+          receipt_url: string | null
+          refunded_cents: number
+          status: Database["public"]["Enums"]["enrollment_payment_status"]
+          stripe_charge_id: string | null
+          stripe_payment_intent_id: string | null
+          stripe_session_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          adjustment_cents?: number | null
+          adjustment_label?: string | null
+          amount_cents: number
+          bank_name?: string | null
+          card_brand?: string | null
+          created_at?: string
+          currency?: string
+          enrollment_id: string
+          failed_at?: string | null
+          failure_message?: string | null
+          fee_cents?: number | null
+          id?: string
+          last4?: string | null
+          net_cents?: number | null
+          paid_at?: string | null
+          payment_method_type?:
+            | Database["public"]["Enums"]["payment_method_type"]
+            | null
+          receipt_url?: string | null
+          refunded_cents?: number
+          status?: Database["public"]["Enums"]["enrollment_payment_status"]
+          stripe_charge_id?: string | null
+          stripe_payment_intent_id?: string | null
+          stripe_session_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          adjustment_cents?: number | null
+          adjustment_label?: string | null
+          amount_cents?: number
+          bank_name?: string | null
+          card_brand?: string | null
+          created_at?: string
+          currency?: string
+          enrollment_id?: string
+          failed_at?: string | null
+          failure_message?: string | null
+          fee_cents?: number | null
+          id?: string
+          last4?: string | null
+          net_cents?: number | null
+          paid_at?: string | null
+          payment_method_type?:
+            | Database["public"]["Enums"]["payment_method_type"]
+            | null
+          receipt_url?: string | null
+          refunded_cents?: number
+          status?: Database["public"]["Enums"]["enrollment_payment_status"]
+          stripe_charge_id?: string | null
+          stripe_payment_intent_id?: string | null
+          stripe_session_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "enrollment_payments_enrollment_id_fkey"
+            columns: ["enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "enrollments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      enrollment_refunds: {
+        Row: {
+          amount_cents: number
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          currency: string
+          enrollment_id: string
+          enrollment_installment_id: string | null
+          enrollment_payment_id: string | null
+          id: string
+          note: string | null
+          reason: string | null
+          source: string
+          status: string
+          stripe_refund_id: string
+          updated_at: string
+        }
+        Insert: {
+          amount_cents: number
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          currency?: string
+          enrollment_id: string
+          enrollment_installment_id?: string | null
+          enrollment_payment_id?: string | null
+          id?: string
+          note?: string | null
+          reason?: string | null
+          source?: string
+          status?: string
+          stripe_refund_id: string
+          updated_at?: string
+        }
+        Update: {
+          amount_cents?: number
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          currency?: string
+          enrollment_id?: string
+          enrollment_installment_id?: string | null
+          enrollment_payment_id?: string | null
+          id?: string
+          note?: string | null
+          reason?: string | null
+          source?: string
+          status?: string
+          stripe_refund_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "enrollment_refunds_enrollment_id_fkey"
+            columns: ["enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "enrollments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "enrollment_refunds_enrollment_installment_id_fkey"
+            columns: ["enrollment_installment_id"]
+            isOneToOne: false
+            referencedRelation: "enrollment_installments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "enrollment_refunds_enrollment_payment_id_fkey"
+            columns: ["enrollment_payment_id"]
+            isOneToOne: false
+            referencedRelation: "enrollment_payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      enrollments: {
+        Row: {
+          allowed_payment_methods: string[]
+          amount_cents: number
+          canceled_at: string | null
+          consent_pdf_path: string | null
+          consent_pdf_version: number
+          created_at: string | null
+          currency: string | null
+          disputed_at: string | null
+          expired_at: string | null
+          expires_at: string
+          failed_at: string | null
+          failed_payment_attempts: number
+          id: string
+          needs_attention_at: string | null
+          needs_attention_reason: string | null
+          opened_at: string | null
+          paid_at: string | null
+          patient_email: string | null
+          patient_id: string | null
+          patient_name: string | null
+          patient_phone: string | null
+          payer_acknowledge_ip: string | null
+          payer_acknowledge_user_agent: string | null
+          payer_acknowledged_at: string | null
+          payer_acknowledgement_text: string | null
+          payer_email: string | null
+          payer_link_sent_at: string | null
+          payer_name: string | null
+          payer_phone: string | null
+          payer_relationship: string | null
+          payer_signature_data: string | null
+          payer_token_hash: string | null
+          payer_token_last4: string | null
+          payment_adjustment_cents: number | null
+          payment_adjustment_label: string | null
+          payment_bank_name: string | null
+          payment_billing_address: Json | null
+          payment_card_brand: string | null
+          payment_fee_cents: number | null
+          payment_gross_cents: number | null
+          payment_last4: string | null
+          payment_method_type:
+            | Database["public"]["Enums"]["payment_method_type"]
+            | null
+          payment_net_cents: number | null
+          payment_receipt_url: string | null
+          payment_risk_level: string | null
+          policy_id: string | null
+          privacy_url: string
+          processing_at: string | null
+          promo_applied_at: string | null
+          promo_code: string | null
+          promo_code_id: string | null
+          promo_discount_cents: number | null
+          quote_id: string | null
+          receipt_pdf_path: string | null
+          receipt_pdf_version: number
+          refunded_amount_cents: number
+          refunded_at: string | null
+          retry_token_hash: string | null
+          reversed_at: string | null
+          signature_data: string | null
+          status: Database["public"]["Enums"]["enrollment_status"]
+          stripe_charge_id: string | null
+          stripe_customer_id: string | null
+          stripe_payment_intent_id: string | null
+          stripe_payment_method_id: string | null
+          stripe_session_id: string | null
+          terms_accept_ip: string | null
+          terms_accept_user_agent: string | null
+          terms_accepted_at: string | null
+          terms_sha256: string
+          terms_url: string
+          terms_version: string
+          token_hash: string
+          token_last4: string
+          updated_at: string | null
+          zoho_consent_attachment_id: string | null
+          zoho_module: string
+          zoho_receipt_attachment_id: string | null
+          zoho_record_id: string
+        }
+        Insert: {
+          allowed_payment_methods?: string[]
+          amount_cents: number
+          canceled_at?: string | null
+          consent_pdf_path?: string | null
+          consent_pdf_version?: number
+          created_at?: string | null
+          currency?: string | null
+          disputed_at?: string | null
+          expired_at?: string | null
+          expires_at: string
+          failed_at?: string | null
+          failed_payment_attempts?: number
+          id?: string
+          needs_attention_at?: string | null
+          needs_attention_reason?: string | null
+          opened_at?: string | null
+          paid_at?: string | null
+          patient_email?: string | null
+          patient_id?: string | null
+          patient_name?: string | null
+          patient_phone?: string | null
+          payer_acknowledge_ip?: string | null
+          payer_acknowledge_user_agent?: string | null
+          payer_acknowledged_at?: string | null
+          payer_acknowledgement_text?: string | null
+          payer_email?: string | null
+          payer_link_sent_at?: string | null
+          payer_name?: string | null
+          payer_phone?: string | null
+          payer_relationship?: string | null
+          payer_signature_data?: string | null
+          payer_token_hash?: string | null
+          payer_token_last4?: string | null
+          payment_adjustment_cents?: number | null
+          payment_adjustment_label?: string | null
+          payment_bank_name?: string | null
+          payment_billing_address?: Json | null
+          payment_card_brand?: string | null
+          payment_fee_cents?: number | null
+          payment_gross_cents?: number | null
+          payment_last4?: string | null
+          payment_method_type?:
+            | Database["public"]["Enums"]["payment_method_type"]
+            | null
+          payment_net_cents?: number | null
+          payment_receipt_url?: string | null
+          payment_risk_level?: string | null
+          policy_id?: string | null
+          privacy_url: string
+          processing_at?: string | null
+          promo_applied_at?: string | null
+          promo_code?: string | null
+          promo_code_id?: string | null
+          promo_discount_cents?: number | null
+          quote_id?: string | null
+          receipt_pdf_path?: string | null
+          receipt_pdf_version?: number
+          refunded_amount_cents?: number
+          refunded_at?: string | null
+          retry_token_hash?: string | null
+          reversed_at?: string | null
+          signature_data?: string | null
+          status?: Database["public"]["Enums"]["enrollment_status"]
+          stripe_charge_id?: string | null
+          stripe_customer_id?: string | null
+          stripe_payment_intent_id?: string | null
+          stripe_payment_method_id?: string | null
+          stripe_session_id?: string | null
+          terms_accept_ip?: string | null
+          terms_accept_user_agent?: string | null
+          terms_accepted_at?: string | null
+          terms_sha256: string
+          terms_url: string
+          terms_version: string
+          token_hash: string
+          token_last4: string
+          updated_at?: string | null
+          zoho_consent_attachment_id?: string | null
+          zoho_module: string
+          zoho_receipt_attachment_id?: string | null
+          zoho_record_id: string
+        }
+        Update: {
+          allowed_payment_methods?: string[]
+          amount_cents?: number
+          canceled_at?: string | null
+          consent_pdf_path?: string | null
+          consent_pdf_version?: number
+          created_at?: string | null
+          currency?: string | null
+          disputed_at?: string | null
+          expired_at?: string | null
+          expires_at?: string
+          failed_at?: string | null
+          failed_payment_attempts?: number
+          id?: string
+          needs_attention_at?: string | null
+          needs_attention_reason?: string | null
+          opened_at?: string | null
+          paid_at?: string | null
+          patient_email?: string | null
+          patient_id?: string | null
+          patient_name?: string | null
+          patient_phone?: string | null
+          payer_acknowledge_ip?: string | null
+          payer_acknowledge_user_agent?: string | null
+          payer_acknowledged_at?: string | null
+          payer_acknowledgement_text?: string | null
+          payer_email?: string | null
+          payer_link_sent_at?: string | null
+          payer_name?: string | null
+          payer_phone?: string | null
+          payer_relationship?: string | null
+          payer_signature_data?: string | null
+          payer_token_hash?: string | null
+          payer_token_last4?: string | null
+          payment_adjustment_cents?: number | null
+          payment_adjustment_label?: string | null
+          payment_bank_name?: string | null
+          payment_billing_address?: Json | null
+          payment_card_brand?: string | null
+          payment_fee_cents?: number | null
+          payment_gross_cents?: number | null
+          payment_last4?: string | null
+          payment_method_type?:
+            | Database["public"]["Enums"]["payment_method_type"]
+            | null
+          payment_net_cents?: number | null
+          payment_receipt_url?: string | null
+          payment_risk_level?: string | null
+          policy_id?: string | null
+          privacy_url?: string
+          processing_at?: string | null
+          promo_applied_at?: string | null
+          promo_code?: string | null
+          promo_code_id?: string | null
+          promo_discount_cents?: number | null
+          quote_id?: string | null
+          receipt_pdf_path?: string | null
+          receipt_pdf_version?: number
+          refunded_amount_cents?: number
+          refunded_at?: string | null
+          retry_token_hash?: string | null
+          reversed_at?: string | null
+          signature_data?: string | null
+          status?: Database["public"]["Enums"]["enrollment_status"]
+          stripe_charge_id?: string | null
+          stripe_customer_id?: string | null
+          stripe_payment_intent_id?: string | null
+          stripe_payment_method_id?: string | null
+          stripe_session_id?: string | null
+          terms_accept_ip?: string | null
+          terms_accept_user_agent?: string | null
+          terms_accepted_at?: string | null
+          terms_sha256?: string
+          terms_url?: string
+          terms_version?: string
+          token_hash?: string
+          token_last4?: string
+          updated_at?: string | null
+          zoho_consent_attachment_id?: string | null
+          zoho_module?: string
+          zoho_receipt_attachment_id?: string | null
+          zoho_record_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "enrollments_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "enrollments_policy_id_fkey"
+            columns: ["policy_id"]
+            isOneToOne: false
+            referencedRelation: "policies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "enrollments_promo_code_id_fkey"
+            columns: ["promo_code_id"]
+            isOneToOne: false
+            referencedRelation: "promo_codes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "enrollments_quote_id_fkey"
+            columns: ["quote_id"]
+            isOneToOne: false
+            referencedRelation: "patient_quotes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mfa_email_codes: {
+        Row: {
+          code: string
+          created_at: string
+          expires_at: string
+          id: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          expires_at: string
+          id?: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          expires_at?: string
+          id?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      patient_ledger_adjustments: {
+        Row: {
+          amount_cents: number
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          currency: string
+          description: string
+          entry_type: string
+          id: string
+          patient_id: string
+          quote_id: string | null
+        }
+        Insert: {
+          amount_cents: number
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          currency?: string
+          description: string
+          entry_type: string
+          id?: string
+          patient_id: string
+          quote_id?: string | null
+        }
+        Update: {
+          amount_cents?: number
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          currency?: string
+          description?: string
+          entry_type?: string
+          id?: string
+          patient_id?: string
+          quote_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "patient_ledger_adjustments_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "patient_ledger_adjustments_quote_id_fkey"
+            columns: ["quote_id"]
+            isOneToOne: false
+            referencedRelation: "patient_quotes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      patient_quotes: {
+        Row: {
+          amount_cents: number
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          currency: string
+          description: string
+          id: string
+          patient_id: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount_cents: number
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          currency?: string
+          description: string
+          id?: string
+          patient_id: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          amount_cents?: number
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          currency?: string
+          description?: string
+          id?: string
+          patient_id?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "patient_quotes_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      patient_statements: {
+        Row: {
+          balance_cents: number
+          created_at: string
+          entry_count: number
+          id: string
+          issued_by: string | null
+          issued_by_email: string | null
+          patient_id: string
+          pdf_path: string
+        }
+        Insert: {
+          balance_cents: number
+          created_at?: string
+          entry_count: number
+          id?: string
+          issued_by?: string | null
+          issued_by_email?: string | null
+          patient_id: string
+          pdf_path: string
+        }
+        Update: {
+          balance_cents?: number
+          created_at?: string
+          entry_count?: number
+          id?: string
+          issued_by?: string | null
+          issued_by_email?: string | null
+          patient_id?: string
+          pdf_path?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "patient_statements_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      patients: {
+        Row: {
+          address_line1: string | null
+          address_line2: string | null
+          city: string | null
+          country: string | null
+          created_at: string
+          email: string | null
+          field_sources: Json
+          id: string
+          name: string
+          notes: string | null
+          phone: string | null
+          postal_code: string | null
+          state: string | null
+          surgeon_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          address_line1?: string | null
+          address_line2?: string | null
+          city?: string | null
+          country?: string | null
+          created_at?: string
+          email?: string | null
+          field_sources?: Json
+          id?: string
+          name: string
+          notes?: string | null
+          phone?: string | null
+          postal_code?: string | null
+          state?: string | null
+          surgeon_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          address_line1?: string | null
+          address_line2?: string | null
+          city?: string | null
+          country?: string | null
+          created_at?: string
+          email?: string | null
+          field_sources?: Json
+          id?: string
+          name?: string
+          notes?: string | null
+          phone?: string | null
+          postal_code?: string | null
+          state?: string | null
+          surgeon_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "patients_surgeon_id_fkey"
+            columns: ["surgeon_id"]
+            isOneToOne: false
+            referencedRelation: "surgeons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_method_rules: {
+        Row: {
+          adjustment_type: string
+          created_at: string
+          fixed_cents: number
+          id: string
+          is_active: boolean
+          max_amount_cents: number | null
+          min_amount_cents: number | null
+          name: string
+          payment_method: string
+          percent_bps: number
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          adjustment_type: string
+          created_at?: string
+          fixed_cents?: number
+          id?: string
+          is_active?: boolean
+          max_amount_cents?: number | null
+          min_amount_cents?: number | null
+          name: string
+          payment_method: string
+          percent_bps?: number
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          adjustment_type?: string
+          created_at?: string
+          fixed_cents?: number
+          id?: string
+          is_active?: boolean
+          max_amount_cents?: number | null
+          min_amount_cents?: number | null
+          name?: string
+          payment_method?: string
+          percent_bps?: number
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      policies: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          is_active: boolean
+          is_default: boolean
+          name: string
+          privacy_text: string | null
+          privacy_url: string
+          terms_content_sha256: string
+          terms_text: string | null
+          terms_url: string
+          updated_at: string
+          version: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          is_default?: boolean
+          name: string
+          privacy_text?: string | null
+          privacy_url: string
+          terms_content_sha256: string
+          terms_text?: string | null
+          terms_url: string
+          updated_at?: string
+          version: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          is_default?: boolean
+          name?: string
+          privacy_text?: string | null
+          privacy_url?: string
+          terms_content_sha256?: string
+          terms_text?: string | null
+          terms_url?: string
+          updated_at?: string
+          version?: string
+        }
+        Relationships: []
+      }
+      processed_stripe_events: {
+        Row: {
+          processed_at: string | null
+          stripe_event_id: string
+        }
+        Insert: {
+          processed_at?: string | null
+          stripe_event_id: string
+        }
+        Update: {
+          processed_at?: string | null
+          stripe_event_id?: string
+        }
+        Relationships: []
+      }
+      processed_zoho_webhooks: {
+        Row: {
+          action: string
+          enrollment_id: string | null
+          processed_at: string
+          signature: string
+        }
+        Insert: {
+          action: string
+          enrollment_id?: string | null
+          processed_at?: string
+          signature: string
+        }
+        Update: {
+          action?: string
+          enrollment_id?: string | null
+          processed_at?: string
+          signature?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "processed_zoho_webhooks_enrollment_id_fkey"
+            columns: ["enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "enrollments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      products: {
+        Row: {
+          category: string
+          created_at: string
+          currency: string
+          description: string | null
+          id: string
+          is_active: boolean
+          name: string
+          sku: string | null
+          sort_order: number
+          unit_amount_cents: number
+          updated_at: string
+        }
+        Insert: {
+          category?: string
+          created_at?: string
+          currency?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          sku?: string | null
+          sort_order?: number
+          unit_amount_cents: number
+          updated_at?: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          currency?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          sku?: string | null
+          sort_order?: number
+          unit_amount_cents?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      promo_codes: {
+        Row: {
+          amount_off_cents: number | null
+          code: string
+          created_at: string
+          currency: string
+          description: string | null
+          discount_type: string
+          id: string
+          is_active: boolean
+          max_uses: number | null
+          percent_bps: number | null
+          product_id: string | null
+          surgeon_id: string | null
+          updated_at: string
+          valid_from: string | null
+          valid_until: string | null
+        }
+        Insert: {
+          amount_off_cents?: number | null
+          code: string
+          created_at?: string
+          currency?: string
+          description?: string | null
+          discount_type: string
+          id?: string
+          is_active?: boolean
+          max_uses?: number | null
+          percent_bps?: number | null
+          product_id?: string | null
+          surgeon_id?: string | null
+          updated_at?: string
+          valid_from?: string | null
+          valid_until?: string | null
+        }
+        Update: {
+          amount_off_cents?: number | null
+          code?: string
+          created_at?: string
+          currency?: string
+          description?: string | null
+          discount_type?: string
+          id?: string
+          is_active?: boolean
+          max_uses?: number | null
+          percent_bps?: number | null
+          product_id?: string | null
+          surgeon_id?: string | null
+          updated_at?: string
+          valid_from?: string | null
+          valid_until?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promo_codes_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promo_codes_surgeon_id_fkey"
+            columns: ["surgeon_id"]
+            isOneToOne: false
+            referencedRelation: "surgeons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reconciliation_items: {
+        Row: {
+          actual_amount_cents: number | null
+          created_at: string
+          currency: string
+          details: Json
+          discrepancy_type: string
+          enrollment_id: string | null
+          expected_amount_cents: number | null
+          fee_cents: number | null
+          fingerprint: string
+          id: string
+          installment_id: string | null
+          last_seen_at: string
+          last_seen_run_id: string | null
+          local_status: string | null
+          net_cents: number | null
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          resolved_by_email: string | null
+          run_id: string
+          status: string
+          stripe_object_id: string | null
+          stripe_payment_intent_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          actual_amount_cents?: number | null
+          created_at?: string
+          currency?: string
+          details?: Json
+          discrepancy_type: string
+          enrollment_id?: string | null
+          expected_amount_cents?: number | null
+          fee_cents?: number | null
+          fingerprint: string
+          id?: string
+          installment_id?: string | null
+          last_seen_at?: string
+          last_seen_run_id?: string | null
+          local_status?: string | null
+          net_cents?: number | null
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          resolved_by_email?: string | null
+          run_id: string
+          status?: string
+          stripe_object_id?: string | null
           stripe_payment_intent_id?: string | null
-          stripe_session_id?: string | null
-          terms_accept_ip?: string | null
-          terms_accept_user_agent?: string | null
-          terms_accepted_at?: string | null
-          terms_sha256: string
-          terms_url: string
-          terms_version: string
-          token_hash: string
-          token_last4: string
-          updated_at?: string | null
-          zoho_module: string
-          zoho_record_id: string
+          updated_at?: string
         }
         Update: {
-          amount_cents?: number
-          consent_pdf_path?: string | null
-          created_at?: string | null
-          currency?: string | null
-          expired_at?: string | null
-          expires_at?: string
-          failed_at?: string | null
+          actual_amount_cents?: number | null
+          created_at?: string
+          currency?: string
+          details?: Json
+          discrepancy_type?: string
+          enrollment_id?: string | null
+          expected_amount_cents?: number | null
+          fee_cents?: number | null
+          fingerprint?: string
           id?: string
-          opened_at?: string | null
-          paid_at?: string | null
-          patient_email?: string | null
-          patient_id?: string | null
-          patient_name?: string | null
-          patient_phone?: string | null
-          payment_method_type?:
-            | Database["public"]["Enums"]["payment_method_type"]
-            | null
-          policy_id?: string | null
-          privacy_url?: string
-          processing_at?: string | null
-          signature_data?: string | null
-          status?: Database["public"]["Enums"]["enrollment_status"]
-          stripe_customer_id?: string | null
+          installment_id?: string | null
+          last_seen_at?: string
+          last_seen_run_id?: string | null
+          local_status?: string | null
+          net_cents?: number | null
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          resolved_by_email?: string | null
+          run_id?: string
+          status?: string
+          stripe_object_id?: string | null
           stripe_payment_intent_id?: string | null
-          stripe_session_id?: string | null
-          terms_accept_ip?: string | null
-          terms_accept_user_agent?: string | null
-          terms_accepted_at?: string | null
-          terms_sha256?: string
-          terms_url?: string
-          terms_version?: string
-          token_hash?: string
-          token_last4?: string
-          updated_at?: string | null
-          zoho_module?: string
-          zoho_record_id?: string
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "enrollments_patient_id_fkey"
-            columns: ["patient_id"]
+            foreignKeyName: "reconciliation_items_enrollment_id_fkey"
+            columns: ["enrollment_id"]
             isOneToOne: false
-            referencedRelation: "patients"
+            referencedRelation: "enrollments"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "enrollments_policy_id_fkey"
-            columns: ["policy_id"]
+            foreignKeyName: "reconciliation_items_installment_id_fkey"
+            columns: ["installment_id"]
             isOneToOne: false
-            referencedRelation: "policies"
+            referencedRelation: "enrollment_installments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reconciliation_items_last_seen_run_id_fkey"
+            columns: ["last_seen_run_id"]
+            isOneToOne: false
+            referencedRelation: "reconciliation_runs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reconciliation_items_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "reconciliation_runs"
             referencedColumns: ["id"]
           },
         ]
       }
-      mfa_email_codes: {
+      reconciliation_runs: {
         Row: {
-          code: string
+          completed_at: string | null
           created_at: string
-          expires_at: string
+          error: string | null
           id: string
-          used_at: string | null
-          user_id: string
+          period_end: string
+          period_start: string
+          started_at: string
+          status: string
+          summary: Json
+          triggered_by: string | null
+          triggered_by_email: string | null
         }
         Insert: {
-          code: string
+          completed_at?: string | null
           created_at?: string
-          expires_at: string
+          error?: string | null
           id?: string
-          used_at?: string | null
-          user_id: string
+          period_end: string
+          period_start: string
+          started_at?: string
+          status?: string
+          summary?: Json
+          triggered_by?: string | null
+          triggered_by_email?: string | null
         }
         Update: {
-          code?: string
+          completed_at?: string | null
           created_at?: string
-          expires_at?: string
+          error?: string | null
           id?: string
-          used_at?: string | null
-          user_id?: string
+          period_end?: string
+          period_start?: string
+          started_at?: string
+          status?: string
+          summary?: Json
+          triggered_by?: string | null
+          triggered_by_email?: string | null
         }
         Relationships: []
       }
-      patients: {
+      surgeons: {
         Row: {
+          accounting_class: string | null
           created_at: string
           email: string | null
           id: string
+          is_active: boolean
           name: string
-          notes: string | null
           phone: string | null
-          surgeon_id: string | null
+          specialty: string | null
           updated_at: string
+          zoho_id: string
         }
         Insert: {
+          accounting_class?: string | null
           created_at?: string
           email?: string | null
           id?: string
+          is_active?: boolean
           name: string
-          notes?: string | null
           phone?: string | null
-          surgeon_id?: string | null
+          specialty?: string | null
           updated_at?: string
+          zoho_id: string
         }
         Update: {
+          accounting_class?: string | null
           created_at?: string
           email?: string | null
           id?: string
+          is_active?: boolean
           name?: string
-          notes?: string | null
           phone?: string | null
-          surgeon_id?: string | null
+          specialty?: string | null
+          updated_at?: string
+          zoho_id?: string
+        }
+        Relationships: []
+      }
+      webhook_events: {
+        Row: {
+          attempts: number
+          created_at: string
+          duration_ms: number | null
+          enrollment_id: string | null
+          error: string | null
+          event_id: string
+          event_type: string
+          id: string
+          kind: string | null
+          last_replayed_at: string | null
+          last_replayed_by_email: string | null
+          payload: Json
+          processed_at: string | null
+          provider: string
+          received_at: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          duration_ms?: number | null
+          enrollment_id?: string | null
+          error?: string | null
+          event_id: string
+          event_type: string
+          id?: string
+          kind?: string | null
+          last_replayed_at?: string | null
+          last_replayed_by_email?: string | null
+          payload: Json
+          processed_at?: string | null
+          provider: string
+          received_at?: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          duration_ms?: number | null
+          enrollment_id?: string | null
+          error?: string | null
+          event_id?: string
+          event_type?: string
+          id?: string
+          kind?: string | null
+          last_replayed_at?: string | null
+          last_replayed_by_email?: string | null
+          payload?: Json
+          processed_at?: string | null
+          provider?: string
+          received_at?: string
+          status?: string
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "patients_surgeon_id_fkey"
-            columns: ["surgeon_id"]
+            foreignKeyName: "webhook_events_enrollment_id_fkey"
+            columns: ["enrollment_id"]
             isOneToOne: false
-            referencedRelation: "surgeons"
+            referencedRelation: "enrollments"
             referencedColumns: ["id"]
           },
         ]
       }
-      policies: {
+      zoho_access_tokens: {
         Row: {
+          access_token: string
           created_at: string
-          description: string | null
-          id: string
-          is_active: boolean
-          is_default: boolean
-          name: string
-          privacy_text: string | null
-          privacy_url: string
-          terms_content_sha256: string
-          terms_text: string | null
-          terms_url: string
+          datacenter: string
+          expires_at: string
           updated_at: string
-          version: string
         }
         Insert: {
+          access_token: string
           created_at?: string
-          description?: string | null
-          id?: string
-          is_active?: boolean
-          is_default?: boolean
-          name: string
-          privacy_text?: string | null
-          privacy_url: string
-          terms_content_sha256: string
-          terms_text?: string | null
-          terms_url: string
+          datacenter: string
+          expires_at: string
           updated_at?: string
-          version: string
         }
         Update: {
+          access_token?: string
           created_at?: string
-          description?: string | null
-          id?: string
-          is_active?: boolean
-          is_default?: boolean
-          name?: string
-          privacy_text?: string | null
-          privacy_url?: string
-          terms_content_sha256?: string
-          terms_text?: string | null
-          terms_url?: string
+          datacenter?: string
+          expires_at?: string
           updated_at?: string
-          version?: string
         }
         Relationships: []
       }
-      processed_stripe_events: {
+      zoho_field_mappings: {
         Row: {
-          processed_at: string | null
-          stripe_event_id: string
+          canonical_field: string
+          created_at: string
+          id: string
+          sync_enabled: boolean
+          updated_at: string
+          zoho_field: string
+          zoho_module: string
         }
         Insert: {
-          processed_at?: string | null
-          stripe_event_id: string
+          canonical_field: string
+          created_at?: string
+          id?: string
+          sync_enabled?: boolean
+          updated_at?: string
+          zoho_field: string
+          zoho_module: string
         }
         Update: {
-          processed_at?: string | null
-          stripe_event_id?: string
+          canonical_field?: string
+          created_at?: string
+          id?: string
+          sync_enabled?: boolean
+          updated_at?: string
+          zoho_field?: string
+          zoho_module?: string
         }
         Relationships: []
       }
-      surgeons: {
+      zoho_value_mappings: {
         Row: {
+          canonical_field: string
+          canonical_value: string
           created_at: string
-          email: string | null
           id: string
-          is_active: boolean
-          name: string
-          phone: string | null
-          specialty: string | null
           updated_at: string
-          zoho_id: string
+          zoho_module: string
+          zoho_value: string
         }
         Insert: {
+          canonical_field: string
+          canonical_value: string
           created_at?: string
-          email?: string | null
           id?: string
-          is_active?: boolean
-          name: string
-          phone?: string | null
-          specialty?: string | null
           updated_at?: string
-          zoho_id: string
+          zoho_module: string
+          zoho_value: string
         }
         Update: {
+          canonical_field?: string
+          canonical_value?: string
           created_at?: string
-          email?: string | null
           id?: string
-          is_active?: boolean
-          name?: string
-          phone?: string | null
-          specialty?: string | null
           updated_at?: string
-          zoho_id?: string
+          zoho_module?: string
+          zoho_value?: string
         }
         Relationships: []
       }
     }
     Views: {
-      [_ in never]: never
+      enrollment_crm_sync: {
+        Row: {
+          dead_count: number | null
+          enrollment_id: string | null
+          last_delivered_at: string | null
+          pending_count: number | null
+          sync_status: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "crm_sync_outbox_enrollment_id_fkey"
+            columns: ["enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "enrollments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      patient_balances: {
+        Row: {
+          balance_cents: number | null
+          charged_cents: number | null
+          paid_cents: number | null
+          patient_id: string | null
+          refunded_cents: number | null
+        }
+        Relationships: []
+      }
+      patient_ledger: {
+        Row: {
+          amount_cents: number | null
+          balance_cents: number | null
+          currency: string | null
+          description: string | null
+          enrollment_id: string | null
+          entry_type: string | null
+          occurred_at: string | null
+          patient_id: string | null
+          quote_id: string | null
+          source_id: string | null
+          source_type: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      apply_promo_code: {
+        Args: {
+          _discount_cents: number
+          _enrollment_id: string
+          _promo_code_id: string
+        }
+        Returns: undefined
+      }
       auth_user_email: { Args: never; Returns: string }
+      claim_crm_sync_items: {
+        Args: { _item_id?: string; _limit: number }
+        Returns: {
+          attempts: number
+          created_at: string
+          dead_at: string | null
+          delivered_at: string | null
+          enrollment_id: string | null
+          id: string
+          last_error: string | null
+          last_error_code: string | null
+          locked_at: string | null
+          next_attempt_at: string
+          operation: string
+          payload: Json
+          resolved_at: string | null
+          resolved_by: string | null
+          resolved_by_email: string | null
+          seq: number
+          status: string
+          updated_at: string
+          zoho_module: string
+          zoho_record_id: string
+        }[]
+      }
       get_pending_invite_id: { Args: { _user_email: string }; Returns: string }
       has_admin_role: {
         Args: {
@@ -436,6 +1999,20 @@ export type Database = {
     }
     Enums: {
       admin_role: "admin" | "viewer" | "super_admin"
+      checkout_session_status:
+        | "creating"
+        | "open"
+        | "completed"
+        | "expired"
+        | "superseded"
+        | "failed"
+      enrollment_payment_status:
+        | "pending"
+        | "processing"
+        | "succeeded"
+        | "failed"
+        | "canceled"
+        | "reversed"
       enrollment_status:
         | "created"
         | "sent"
@@ -445,7 +2022,18 @@ export type Database = {
         | "failed"
         | "expired"
         | "canceled"
-      payment_method_type: "card" | "ach"
+        | "partially_refunded"
+        | "refunded"
+        | "reversed"
+        | "disputed"
+        | "partially_paid"
+      installment_status:
+        | "scheduled"
+        | "processing"
+        | "paid"
+        | "failed"
+        | "canceled"
+      payment_method_type: "card" | "ach" | "check" | "wire" | "cash"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -574,6 +2162,22 @@ export const Constants = {
   public: {
     Enums: {
       admin_role: ["admin", "viewer", "super_admin"],
+      checkout_session_status: [
+        "creating",
+        "open",
+        "completed",
+        "expired",
+        "superseded",
+        "failed",
+      ],
+      enrollment_payment_status: [
+        "pending",
+        "processing",
+        "succeeded",
+        "failed",
+        "canceled",
+        "reversed",
+      ],
       enrollment_status: [
         "created",
         "sent",
@@ -583,8 +2187,20 @@ export const Constants = {
         "failed",
         "expired",
         "canceled",
+        "partially_refunded",
+        "refunded",
+        "reversed",
+        "disputed",
+        "partially_paid",
+      ],
+      installment_status: [
+        "scheduled",
+        "processing",
+        "paid",
+        "failed",
+        "canceled",
       ],
-      payment_method_type: ["card", "ach"],
+      payment_method_type: ["card", "ach", "check", "wire", "cash"],
     },
   },
 } as const
@@ -0,0 +1,22 @@
+import { loadStripe, type Stripe } from "@stripe/stripe-js";
+
+const publishableKey = import.meta.env.VITE_STRIPE_PUBLISHABLE_KEY as string | undefined;
+
+// The embedded payment form needs a publishable key. Without one the enrollment
+// page falls back to the hosted checkout redirect.
+export const embeddedPaymentsEnabled = !!publishableKey;
+
+let stripePromise: Promise<Stripe | null> | null = null;
+
+// Load Stripe.js once per page; resolves to null when it cannot be loaded (e.g. blocked)
+export function getStripe(): Promise<Stripe | null> {
+  if (!stripePromise) {
+    stripePromise = publishableKey
+      ? loadStripe(publishableKey).catch((err) => {
+        console.error("Failed to load Stripe.js:", err);
+        return null;
+      })
+      : Promise.resolve(null);
+  }
+  return stripePromise;
+}
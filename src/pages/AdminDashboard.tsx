@@ -2,7 +2,7 @@ import { useState, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { 
-  LogOut, Settings, RefreshCw, Users, Receipt, FileText, UserCog, Shield
+  LogOut, Settings, RefreshCw, Users, Receipt, FileText, UserCog, Shield, Gavel, Package, Scale, AlertTriangle, CloudOff
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -18,12 +18,18 @@ import { EnrollmentTrendChart } from "@/components/admin/EnrollmentTrendChart";
 import { StatusFunnelChart } from "@/components/admin/StatusFunnelChart";
 import { SurgeonTrendChart } from "@/components/admin/SurgeonTrendChart";
 import { PeriodComparisonCard } from "@/components/admin/PeriodComparisonCard";
+import { PromoCodeUsageCard } from "@/components/admin/PromoCodeUsageCard";
 import { AnalyticsDateFilter, getDateRangeForPreset, type DatePreset } from "@/components/admin/AnalyticsDateFilter";
 import { PatientsTab } from "@/components/admin/PatientsTab";
 import { TransactionsTab } from "@/components/admin/TransactionsTab";
 import { PoliciesTab } from "@/components/admin/PoliciesTab";
+import { ProductsTab } from "@/components/admin/ProductsTab";
 import { SurgeonManagement } from "@/components/admin/SurgeonManagement";
 import { AuditLogTab } from "@/components/admin/AuditLogTab";
+import { DisputesTab } from "@/components/admin/DisputesTab";
+import { NeedsAttentionTab } from "@/components/admin/NeedsAttentionTab";
+import { ReconciliationTab } from "@/components/admin/ReconciliationTab";
+import { CrmSyncTab } from "@/components/admin/CrmSyncTab";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 
@@ -44,7 +50,7 @@ export default function AdminDashboard() {
     queryFn: async () => {
       let query = supabase
         .from("enrollments")
-        .select("status, amount_cents, created_at, paid_at");
+        .select("status, amount_cents, payment_adjustment_cents, payment_fee_cents, promo_code, promo_discount_cents, created_at, paid_at, enrollment_installments (fee_cents)");
 
       if (dateRange.from) {
         query = query.gte("created_at", dateRange.from.toISOString());
@@ -72,10 +78,15 @@ export default function AdminDashboard() {
     queryClient.invalidateQueries({ queryKey: ["admin-users"] });
     queryClient.invalidateQueries({ queryKey: ["analytics-enrollments"] });
     queryClient.invalidateQueries({ queryKey: ["audit-log"] });
+    queryClient.invalidateQueries({ queryKey: ["disputes"] });
+    queryClient.invalidateQueries({ queryKey: ["needs-attention"] });
+    queryClient.invalidateQueries({ queryKey: ["reconciliation-runs"] });
+    queryClient.invalidateQueries({ queryKey: ["reconciliation-items"] });
     queryClient.invalidateQueries({ queryKey: ["policies"] });
     queryClient.invalidateQueries({ queryKey: ["surgeons"] });
     queryClient.invalidateQueries({ queryKey: ["surgeons-management"] });
     queryClient.invalidateQueries({ queryKey: ["surgeon-distribution"] });
+    queryClient.invalidateQueries({ queryKey: ["promo-codes"] });
     toast({ title: "Refreshed", description: "Data has been refreshed" });
   };
 
@@ -151,6 +162,9 @@ export default function AdminDashboard() {
             <SurgeonTrendChart dateFrom={dateRange.from} dateTo={dateRange.to} />
             <SurgeonDistributionCard />
           </div>
+
+          {/* Promo code usage */}
+          <PromoCodeUsageCard enrollments={enrollments} isLoading={statsLoading} />
         </div>
 
         {/* Main Tabs */}
@@ -158,7 +172,12 @@ export default function AdminDashboard() {
           <TabsList>
             <TabsTrigger value="patients" className="gap-2"><Users className="h-4 w-4" />Patients</TabsTrigger>
             <TabsTrigger value="transactions" className="gap-2"><Receipt className="h-4 w-4" />Transactions</TabsTrigger>
+            <TabsTrigger value="attention" className="gap-2"><AlertTriangle className="h-4 w-4" />Needs Attention</TabsTrigger>
+            <TabsTrigger value="disputes" className="gap-2"><Gavel className="h-4 w-4" />Disputes</TabsTrigger>
+            <TabsTrigger value="reconciliation" className="gap-2"><Scale className="h-4 w-4" />Reconciliation</TabsTrigger>
+            <TabsTrigger value="crm-sync" className="gap-2"><CloudOff className="h-4 w-4" />Zoho Sync</TabsTrigger>
             <TabsTrigger value="policies" className="gap-2"><FileText className="h-4 w-4" />Policies</TabsTrigger>
+            <TabsTrigger value="products" className="gap-2"><Package className="h-4 w-4" />Products</TabsTrigger>
             <TabsTrigger value="surgeons" className="gap-2"><UserCog className="h-4 w-4" />Surgeons</TabsTrigger>
             <TabsTrigger value="audit" className="gap-2"><Shield className="h-4 w-4" />Audit Log</TabsTrigger>
             {(adminUser?.role === "admin" || adminUser?.role === "super_admin") && (
@@ -167,7 +186,12 @@ export default function AdminDashboard() {
           </TabsList>
           <TabsContent value="patients"><PatientsTab /></TabsContent>
           <TabsContent value="transactions"><TransactionsTab /></TabsContent>
+          <TabsContent value="attention"><NeedsAttentionTab /></TabsContent>
+          <TabsContent value="disputes"><DisputesTab /></TabsContent>
+          <TabsContent value="reconciliation"><ReconciliationTab /></TabsContent>
+          <TabsContent value="crm-sync"><CrmSyncTab /></TabsContent>
           <TabsContent value="policies"><PoliciesTab /></TabsContent>
+          <TabsContent value="products"><ProductsTab /></TabsContent>
           <TabsContent value="surgeons"><SurgeonManagement /></TabsContent>
           <TabsContent value="audit"><AuditLogTab /></TabsContent>
           {(adminUser?.role === "admin" || adminUser?.role === "super_admin") && (
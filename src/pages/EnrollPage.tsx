@@ -1,10 +1,22 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useParams, useSearchParams } from "react-router-dom";
-import { EnrollmentCard } from "@/components/EnrollmentCard";
+import {
+  EnrollmentCard,
+  type EnrollmentLineItem,
+  type EnrollmentPaymentItem,
+  type PaymentScheduleItem,
+} from "@/components/EnrollmentCard";
 import { TermsConsent } from "@/components/TermsConsent";
+import { PayerAcknowledgement } from "@/components/PayerAcknowledgement";
 import { EnrollmentStatus } from "@/components/EnrollmentStatus";
+import { EmbeddedPaymentForm, type EmbeddedPaymentOutcome } from "@/components/EmbeddedPaymentForm";
+import { PaymentMethodSelector, type PaymentOption } from "@/components/PaymentMethodSelector";
+import { PartialPaymentInput } from "@/components/PartialPaymentInput";
+import { PromoCodeInput } from "@/components/PromoCodeInput";
+import { Button } from "@/components/ui/button";
 import { Shield } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import { embeddedPaymentsEnabled } from "@/lib/stripe";
 import himplantLogo from "@/assets/himplant-logo.png";
 
 // Secure enrollment data - only non-sensitive fields from edge function
@@ -27,9 +39,38 @@ interface EnrollmentData {
   terms_sha256: string;
   opened_at: string | null;
   terms_accepted_at: string | null;
+  payment_schedule: PaymentScheduleItem[];
+  line_items: EnrollmentLineItem[];
+  payments: EnrollmentPaymentItem[];
+  paid_cents: number;
+  balance_cents: number;
+  min_partial_payment_cents: number | null;
+  allowed_payment_methods: string[];
+  payment_options: PaymentOption[];
+  viewer: 'patient' | 'payer';
+  payer_name: string | null;
+  payer_relationship: string | null;
+  payer_link_sent_at: string | null;
+  payer_acknowledgement_text: string | null;
+  promo_code: string | null;
+  promo_discount_cents: number | null;
+  needs_attention: boolean;
 }
 
-type PageState = 'loading' | 'enrollment' | 'processing' | 'success' | 'ach-processing' | 'failed' | 'expired' | 'invalid' | 'already-paid';
+type PageState = 'loading' | 'enrollment' | 'processing' | 'confirming' | 'confirm-timeout' | 'success' | 'ach-processing' | 'failed' | 'expired' | 'invalid' | 'already-paid' | 'payment-plan' | 'partially-paid' | 'refunded' | 'reversed' | 'disputed' | 'awaiting-payer' | 'awaiting-consent';
+
+type CheckoutMode = 'embedded' | 'hosted';
+
+// Statuses where a third-party payer still has to pay
+const unpaidStatuses = ['created', 'sent', 'opened', 'failed'];
+
+// A payment plan's deposit, or part of a balance the patient is splitting across payments
+const partiallyPaidState = (data: { payment_schedule?: PaymentScheduleItem[] }): PageState =>
+  data.payment_schedule?.length ? 'payment-plan' : 'partially-paid';
+
+// How long to wait for the webhook to record a payment Stripe has already confirmed
+const CONFIRM_POLL_INTERVAL_MS = 2000;
+const CONFIRM_POLL_ATTEMPTS = 15;
 
 export default function EnrollPage() {
   const { token } = useParams<{ token: string }>();
@@ -38,9 +79,17 @@ export default function EnrollPage() {
   const [enrollment, setEnrollment] = useState<EnrollmentData | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [paymentClientSecret, setPaymentClientSecret] = useState<string | null>(null);
+  const [signatureData, setSignatureData] = useState<string | null>(null);
+  const [selectedMethod, setSelectedMethod] = useState<'card' | 'ach' | null>(null);
+  const [partialCents, setPartialCents] = useState<number | null>(null);
+  const [partialValid, setPartialValid] = useState(true);
+  const [paymentAmountCents, setPaymentAmountCents] = useState<number | null>(null);
 
-  // Check for return status from Stripe
+  // Check for return status from Stripe: hosted checkout sets ?status=, and the
+  // embedded form sets redirect_status when a payment method needed a redirect
   const returnStatus = searchParams.get('status');
+  const redirectStatus = searchParams.get('redirect_status');
 
   useEffect(() => {
     const loadEnrollment = async () => {
@@ -71,16 +120,34 @@ export default function EnrollPage() {
         const enrollmentData = data as EnrollmentData;
         setEnrollment(enrollmentData);
 
+        // Preselect the cheapest method; the patient can switch before paying
+        const defaultOption = enrollmentData.payment_options.find((o) => o.recommended) ?? enrollmentData.payment_options[0];
+        setSelectedMethod(defaultOption?.method ?? null);
+
+        // Handle return from the embedded form's redirect
+        if (redirectStatus === 'processing') {
+          setPageState('ach-processing');
+          return;
+        }
+
+        if (redirectStatus === 'failed' && !enrollmentData.needs_attention) {
+          setError('Your payment could not be completed. Please try again or use a different payment method.');
+          setPageState('enrollment');
+          return;
+        }
+
         // Handle return from Stripe
-        if (returnStatus === 'success') {
+        if (returnStatus === 'success' || redirectStatus === 'succeeded') {
           // Payment completed - check status
           if (enrollmentData.status === 'paid') {
             setPageState('success');
+          } else if (enrollmentData.status === 'partially_paid') {
+            setPageState(partiallyPaidState(enrollmentData));
           } else if (enrollmentData.status === 'processing') {
             setPageState('ach-processing');
           } else {
-            // Refresh to get latest status
-            setPageState('success');
+            // Wait for the webhook to record the payment
+            setPageState('confirming');
           }
           return;
         }
@@ -91,11 +158,26 @@ export default function EnrollPage() {
           return;
         }
 
+        // With a third-party payer the patient signs and the payer pays, each on their own link
+        if (unpaidStatuses.includes(enrollmentData.status)) {
+          if (enrollmentData.viewer === 'patient' && enrollmentData.payer_name && enrollmentData.payer_link_sent_at) {
+            setPageState('awaiting-payer');
+            return;
+          }
+          if (enrollmentData.viewer === 'payer' && !enrollmentData.terms_accepted_at) {
+            setPageState('awaiting-consent');
+            return;
+          }
+        }
+
         // Check enrollment status - edge function handles expiry and opened_at
         switch (enrollmentData.status) {
           case 'paid':
             setPageState('already-paid');
             break;
+          case 'partially_paid':
+            setPageState(partiallyPaidState(enrollmentData));
+            break;
           case 'processing':
             setPageState('ach-processing');
             break;
@@ -108,6 +190,16 @@ export default function EnrollPage() {
           case 'canceled':
             setPageState('invalid');
             break;
+          case 'refunded':
+          case 'partially_refunded':
+            setPageState('refunded');
+            break;
+          case 'reversed':
+            setPageState('reversed');
+            break;
+          case 'disputed':
+            setPageState('disputed');
+            break;
           default:
             setPageState('enrollment');
         }
@@ -118,10 +210,66 @@ export default function EnrollPage() {
     };
 
     loadEnrollment();
-  }, [token, returnStatus]);
+  }, [token, returnStatus, redirectStatus]);
+
+  // Stripe has confirmed the payment but the webhook may not have recorded it yet
+  useEffect(() => {
+    if (pageState !== 'confirming' || !token) return;
+
+    let attempts = 0;
+    const interval = setInterval(async () => {
+      attempts++;
+      const { data } = await supabase.functions.invoke('get-enrollment', {
+        body: { token },
+      });
+
+      if (data?.status === 'paid') {
+        setPageState('success');
+      } else if (data?.status === 'partially_paid') {
+        setPageState(partiallyPaidState(data));
+      } else if (data?.status === 'processing') {
+        setPageState('ach-processing');
+      } else if (data?.status === 'failed') {
+        // Keep needs_attention current, it decides whether the patient can try again
+        setEnrollment(data as EnrollmentData);
+        setPageState('failed');
+      } else if (attempts >= CONFIRM_POLL_ATTEMPTS) {
+        // Not recorded yet, so neither success nor failure can be shown
+        setPageState('confirm-timeout');
+      }
+    }, CONFIRM_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [pageState, token]);
 
-  const handleAcceptTerms = async (signatureDataUrl: string) => {
+  const isPayer = enrollment?.viewer === 'payer';
+  // The patient only signs when someone else pays
+  const signsOnly = !isPayer && !!enrollment?.payer_name;
+
+  // Only ask whoever pays to choose when a surcharge or discount makes the price differ
+  const paymentOptions = enrollment?.payment_options ?? [];
+  const choosesMethod = !signsOnly && paymentOptions.length > 1 && paymentOptions.some((o) => o.adjustment);
+  const selectedOption = paymentOptions.find((o) => o.method === selectedMethod) ?? null;
+  // Options are priced on the whole balance; a partial payment is priced at checkout
+  const shownAdjustment = partialCents === null ? selectedOption?.adjustment : null;
+  const allowWallets = !!enrollment?.allowed_payment_methods.includes('wallet');
+
+  // Consent is recorded with the first payment, so later payments toward the balance skip it
+  const paymentsStarted = (enrollment?.paid_cents ?? 0) > 0;
+  const balanceCents = enrollment?.balance_cents ?? 0;
+  const formatCents = (cents: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: (enrollment?.currency || 'usd').toUpperCase() })
+      .format(cents / 100);
+  const canSplit = !signsOnly && enrollment?.min_partial_payment_cents != null &&
+    enrollment.balance_cents > enrollment.min_partial_payment_cents;
+
+  const startCheckout = useCallback(async (signatureDataUrl: string | null, mode: CheckoutMode) => {
     if (!token || !enrollment) return;
+
+    if (!partialValid) {
+      setError('Please enter a valid amount to pay now.');
+      return;
+    }
     
     setIsSubmitting(true);
     setError(null);
@@ -133,7 +281,10 @@ export default function EnrollPage() {
           token: token,
           terms_accepted: true,
           consent_user_agent: navigator.userAgent,
-          signature_data: signatureDataUrl,
+          signature_data: signatureDataUrl ?? undefined,
+          mode,
+          payment_method: choosesMethod ? selectedMethod : undefined,
+          amount_cents: partialCents ?? undefined,
         },
       });
 
@@ -145,7 +296,17 @@ export default function EnrollPage() {
         throw new Error(data.error);
       }
 
-      if (data?.checkout_url) {
+      if (data?.mode === 'payer') {
+        // Consent recorded; the payer has been sent their link
+        setEnrollment({ ...enrollment, payer_link_sent_at: data.payer_link_sent_at });
+        setPageState('awaiting-payer');
+        setIsSubmitting(false);
+      } else if (data?.mode === 'embedded' && data.client_secret) {
+        // Show the payment form below the terms
+        setPaymentClientSecret(data.client_secret);
+        setPaymentAmountCents(data.amount_cents ?? null);
+        setIsSubmitting(false);
+      } else if (data?.checkout_url) {
         // Redirect to Stripe Checkout
         window.location.href = data.checkout_url;
       } else {
@@ -156,8 +317,62 @@ export default function EnrollPage() {
       setError(err instanceof Error ? err.message : 'An unexpected error occurred');
       setIsSubmitting(false);
     }
+  }, [token, enrollment, choosesMethod, selectedMethod, partialCents, partialValid]);
+
+  const handlePartialChange = (amountCents: number | null, isValid: boolean) => {
+    setPartialCents(amountCents);
+    setPartialValid(isValid);
+  };
+
+  const handleAcceptTerms = (signatureDataUrl: string) => {
+    setSignatureData(signatureDataUrl);
+    startCheckout(signatureDataUrl, embeddedPaymentsEnabled ? 'embedded' : 'hosted');
   };
 
+  // Apply the code, then reload so the amount, schedule and payment options reflect it
+  const handleApplyPromo = async (code: string): Promise<string | null> => {
+    if (!token) return null;
+    const { data, error: invokeError } = await supabase.functions.invoke('create-checkout-session', {
+      body: { token, promo_code: code, apply_promo_code: true },
+    });
+    if (invokeError || data?.error) {
+      return data?.error || invokeError?.message || 'Failed to apply the promo code';
+    }
+
+    const { data: refreshed } = await supabase.functions.invoke('get-enrollment', {
+      body: { token },
+    });
+    if (refreshed && !refreshed.error) {
+      setEnrollment(refreshed as EnrollmentData);
+    }
+    return null;
+  };
+
+  const handleResendPayerLink = async () => {
+    if (!token) return;
+    const { data, error: invokeError } = await supabase.functions.invoke('create-checkout-session', {
+      body: { token, resend_payer_link: true },
+    });
+    if (invokeError || data?.error) {
+      setError(data?.error || invokeError?.message || 'Failed to resend the payment link');
+      return;
+    }
+    setError(null);
+    setEnrollment((current) => current && { ...current, payer_link_sent_at: data.payer_link_sent_at });
+  };
+
+  const handlePaymentComplete = (outcome: EmbeddedPaymentOutcome) => {
+    setPageState(outcome === 'processing' ? 'ach-processing' : 'confirming');
+  };
+
+  // Stripe.js could not load (e.g. blocked by the browser) - use hosted checkout instead
+  const handleEmbeddedUnavailable = useCallback(() => {
+    setPaymentClientSecret(null);
+    if (signatureData || paymentsStarted) {
+      startCheckout(signatureData, 'hosted');
+    }
+  }, [signatureData, paymentsStarted, startCheckout]);
+
   // Loading state
   if (pageState === 'loading') {
     return (
@@ -198,15 +413,27 @@ export default function EnrollPage() {
   }
 
   if (pageState === 'failed') {
+    // After too many failed attempts checkout stays closed until staff send a new link
     return (
       <div className="min-h-screen bg-background flex items-center justify-center p-6">
-        <EnrollmentStatus
-          type="failed"
-          title="Payment Failed"
-          message="We were unable to process your payment. Please try again or use a different payment method. If the problem persists, please contact support."
-          actionLabel="Try Again"
-          onAction={() => setPageState('enrollment')}
-        />
+        {enrollment?.needs_attention ? (
+          <EnrollmentStatus
+            type="failed"
+            title="Payment Not Completed"
+            message="We were unable to complete your payment after several attempts. Our team will contact you to help complete your enrollment."
+          />
+        ) : (
+          <EnrollmentStatus
+            type="failed"
+            title="Payment Failed"
+            message="We were unable to process your payment. Please try again or use a different payment method. If the problem persists, please contact support."
+            actionLabel="Try Again"
+            onAction={() => {
+              setError(null);
+              setPageState('enrollment');
+            }}
+          />
+        )}
       </div>
     );
   }
@@ -217,7 +444,130 @@ export default function EnrollPage() {
         <EnrollmentStatus
           type="success"
           title="Payment Successful"
-          message="Thank you! Your payment has been processed successfully. You will receive a confirmation email shortly with your receipt and next steps."
+          message={isPayer
+            ? "Thank you! Your payment has been processed successfully. You will receive your receipt by email shortly."
+            : "Thank you! Your payment has been processed successfully. You will receive a confirmation email shortly with your receipt and next steps."}
+        />
+      </div>
+    );
+  }
+
+  if (pageState === 'awaiting-payer') {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <div className="space-y-4">
+          <EnrollmentStatus
+            type="success"
+            title="Consent Signed"
+            message={`Thank you! We've sent ${enrollment?.payer_name || "your payer"} a secure link to complete the payment. You will receive a confirmation email once it has been paid.`}
+            actionLabel="Resend Payment Link"
+            onAction={handleResendPayerLink}
+          />
+          {error && <p className="text-destructive text-sm text-center">{error}</p>}
+        </div>
+      </div>
+    );
+  }
+
+  if (pageState === 'awaiting-consent') {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <EnrollmentStatus
+          type="expired"
+          title="Waiting for the Patient"
+          message={`${enrollment?.patient_first_name || "The patient"} needs to sign their consent before the payment can be made. Please try this link again later.`}
+        />
+      </div>
+    );
+  }
+
+  if (pageState === 'confirming') {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <EnrollmentStatus
+          type="processing"
+          title="Confirming Your Payment"
+          message="Your payment was accepted. We're finalizing your enrollment - this only takes a moment."
+        />
+      </div>
+    );
+  }
+
+  if (pageState === 'confirm-timeout') {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <EnrollmentStatus
+          type="processing"
+          title="Payment Pending"
+          message="Your payment was received and is still being confirmed, which is taking longer than usual. There is no need to pay again - you will receive an email once your payment is confirmed."
+          actionLabel="Check Again"
+          onAction={() => setPageState('confirming')}
+        />
+      </div>
+    );
+  }
+
+  if (pageState === 'payment-plan') {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <EnrollmentStatus
+          type="success"
+          title="Deposit Received"
+          message={isPayer
+            ? "Thank you! Your deposit has been received. The remaining payments on the plan will be charged automatically to your payment method on their due dates."
+            : "Thank you! Your deposit has been received. The remaining payments on your plan will be charged automatically on their due dates, and you will receive an email confirmation once your plan is paid in full."}
+        />
+      </div>
+    );
+  }
+
+  if (pageState === 'partially-paid') {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <EnrollmentStatus
+          type="success"
+          title="Partial Payment Received"
+          message={balanceCents > 0
+            ? `Thank you! ${formatCents(enrollment?.paid_cents ?? 0)} has been paid. The remaining balance of ${formatCents(balanceCents)} can be paid with another card or bank account. You will receive an email confirmation once your enrollment is paid in full.`
+            : `Thank you! ${formatCents(enrollment?.paid_cents ?? 0)} has been paid, part of it by bank transfer that is still processing. You will receive an email confirmation once your enrollment is paid in full.`}
+          actionLabel={balanceCents > 0 ? "Pay Remaining Balance" : undefined}
+          onAction={balanceCents > 0 ? () => setPageState('enrollment') : undefined}
+        />
+      </div>
+    );
+  }
+
+  if (pageState === 'refunded') {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <EnrollmentStatus
+          type="expired"
+          title="Payment Refunded"
+          message="A refund has been issued for this payment. Refunds typically appear on your statement within 5-10 business days. Please contact support if you have any questions."
+        />
+      </div>
+    );
+  }
+
+  if (pageState === 'reversed') {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <EnrollmentStatus
+          type="failed"
+          title="Payment Returned"
+          message="Your bank returned this payment after it was processed. Please contact support to receive a new payment link and complete your enrollment."
+        />
+      </div>
+    );
+  }
+
+  if (pageState === 'disputed') {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <EnrollmentStatus
+          type="expired"
+          title="Payment Under Review"
+          message="This payment is currently under review with your card issuer. Please contact support if you have any questions."
         />
       </div>
     );
@@ -263,10 +613,16 @@ export default function EnrollPage() {
           {/* Welcome message */}
           <div className="text-center space-y-3">
             <h1 className="text-3xl font-bold text-foreground tracking-tight">
-              Complete Your Enrollment
+              {isPayer ? "Complete the Payment" : "Complete Your Enrollment"}
             </h1>
             <p className="text-muted-foreground text-base max-w-md mx-auto">
-              Review the details below and complete your secure payment
+              {paymentsStarted
+                ? "Pay the remaining balance with another card or bank account"
+                : isPayer
+                ? `Review the details below and pay for ${enrollment.patient_first_name || "the patient"}'s enrollment`
+                : signsOnly
+                  ? `Review and sign your consent. ${enrollment.payer_name} will receive a separate link to pay.`
+                  : "Review the details below and complete your secure payment"}
             </p>
           </div>
 
@@ -283,30 +639,117 @@ export default function EnrollPage() {
             amount={enrollment.amount_cents}
             currency={enrollment.currency || "usd"}
             expiresAt={new Date(enrollment.expires_at)}
-            status={enrollment.status as "created" | "sent" | "opened" | "processing" | "paid" | "failed" | "expired" | "canceled"}
+            status={enrollment.status as "created" | "sent" | "opened" | "processing" | "paid" | "partially_paid" | "failed" | "expired" | "canceled" | "partially_refunded" | "refunded" | "reversed" | "disputed"}
+            paymentSchedule={enrollment.payment_schedule}
+            lineItems={enrollment.line_items}
+            payments={enrollment.payments}
+            payNowCents={partialCents}
+            paymentAdjustment={shownAdjustment}
+            promoCode={enrollment.promo_code}
+            promoDiscountCents={enrollment.promo_discount_cents}
           />
 
+          {/* Promo code, before anything is paid */}
+          {!paymentsStarted && (
+            <div className="card-premium p-6 md:p-8">
+              <PromoCodeInput
+                appliedCode={enrollment.promo_code}
+                discountCents={enrollment.promo_discount_cents}
+                currency={enrollment.currency || "usd"}
+                onApply={handleApplyPromo}
+                disabled={isSubmitting || !!paymentClientSecret}
+              />
+            </div>
+          )}
+
+          {/* Payment method choice when card and ACH are priced differently */}
+          {choosesMethod && (
+            <div className="card-premium p-6 md:p-8">
+              <PaymentMethodSelector
+                options={paymentOptions}
+                value={selectedMethod}
+                onChange={setSelectedMethod}
+                currency={enrollment.currency || "usd"}
+                allowWallets={allowWallets}
+                disabled={isSubmitting || !!paymentClientSecret}
+              />
+            </div>
+          )}
+
+          {/* Paying part of the balance now */}
+          {canSplit && (
+            <div className="card-premium p-6 md:p-8">
+              <PartialPaymentInput
+                balanceCents={enrollment.balance_cents}
+                minCents={enrollment.min_partial_payment_cents!}
+                currency={enrollment.currency || "usd"}
+                onChange={handlePartialChange}
+                disabled={isSubmitting || !!paymentClientSecret}
+              />
+            </div>
+          )}
+
           {/* Terms and payment button */}
           <div className="card-premium p-6 md:p-8">
-            <TermsConsent
-              termsUrl={enrollment.terms_url}
-              privacyUrl={enrollment.privacy_url}
-              termsText={enrollment.terms_text}
-              privacyText={enrollment.privacy_text}
-              termsVersion={enrollment.terms_version}
-              placeholderData={{
-                patient_name: enrollment.patient_name,
-                patient_email: enrollment.patient_email,
-                patient_phone: enrollment.patient_phone,
-                amount_cents: enrollment.amount_cents,
-                currency: enrollment.currency || "usd",
-                surgeon_name: enrollment.surgeon_name,
-                expires_at: enrollment.expires_at,
-              }}
-              onAccept={handleAcceptTerms}
-              isLoading={isSubmitting}
-            />
+            {paymentsStarted ? (
+              <Button
+                variant="hero"
+                size="xl"
+                className="w-full"
+                onClick={() => startCheckout(null, embeddedPaymentsEnabled ? 'embedded' : 'hosted')}
+                disabled={isSubmitting || !!paymentClientSecret}
+              >
+                <Shield className="h-5 w-5 mr-2" />
+                {isSubmitting ? 'Processing...' : `Pay ${formatCents(partialCents ?? balanceCents)}`}
+              </Button>
+            ) : isPayer ? (
+              <PayerAcknowledgement
+                patientFirstName={enrollment.patient_first_name || "the patient"}
+                acknowledgementText={enrollment.payer_acknowledgement_text || ""}
+                privacyUrl={enrollment.privacy_url}
+                onAccept={handleAcceptTerms}
+                isLoading={isSubmitting}
+                isAccepted={!!paymentClientSecret}
+              />
+            ) : (
+              <TermsConsent
+                termsUrl={enrollment.terms_url}
+                privacyUrl={enrollment.privacy_url}
+                termsText={enrollment.terms_text}
+                privacyText={enrollment.privacy_text}
+                termsVersion={enrollment.terms_version}
+                placeholderData={{
+                  patient_name: enrollment.patient_name,
+                  patient_email: enrollment.patient_email,
+                  patient_phone: enrollment.patient_phone,
+                  amount_cents: enrollment.amount_cents,
+                  currency: enrollment.currency || "usd",
+                  surgeon_name: enrollment.surgeon_name,
+                  expires_at: enrollment.expires_at,
+                }}
+                onAccept={handleAcceptTerms}
+                isLoading={isSubmitting}
+                isAccepted={!!paymentClientSecret}
+                payerName={enrollment.payer_name}
+              />
+            )}
           </div>
+
+          {/* Embedded payment form */}
+          {paymentClientSecret && (
+            <div className="card-premium p-6 md:p-8 space-y-6 animate-fade-in">
+              <h2 className="text-lg font-semibold text-foreground">Payment Details</h2>
+              <EmbeddedPaymentForm
+                clientSecret={paymentClientSecret}
+                amountCents={paymentAmountCents ?? selectedOption?.total_cents ?? enrollment.payment_schedule[0]?.amount_cents ?? enrollment.amount_cents}
+                currency={enrollment.currency || "usd"}
+                returnUrl={`${window.location.origin}/enroll/${token}`}
+                allowWallets={allowWallets}
+                onComplete={handlePaymentComplete}
+                onUnavailable={handleEmbeddedUnavailable}
+              />
+            </div>
+          )}
         </div>
       </main>
 
@@ -0,0 +1,244 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.57.2";
+import type { PaymentProvider } from "./payment-provider.ts";
+import { markEnrollmentPayment } from "./enrollment-payments.ts";
+
+// Checkout sessions started for an enrollment. Only one is live at a time: a
+// double click or a second tab gets the open session back, and a checkout for a
+// different amount or method supersedes it and closes it with the provider. A
+// payment that still arrives on a superseded session is refunded by the webhook.
+
+export type CheckoutSessionStatus = "creating" | "open" | "completed" | "expired" | "superseded" | "failed";
+
+export interface CheckoutSessionRecord {
+  id: string;
+  enrollment_id: string;
+  enrollment_payment_id: string | null;
+  provider: string;
+  mode: "hosted" | "embedded";
+  status: CheckoutSessionStatus;
+  request_hash: string;
+  amount_cents: number;
+  currency: string;
+  payment_method_types: string[];
+  stripe_session_id: string | null;
+  stripe_payment_intent_id: string | null;
+  checkout_url: string | null;
+  expires_at: string | null;
+  completed_at: string | null;
+  superseded_at: string | null;
+  late_payment_refund_id: string | null;
+  error: string | null;
+  created_at: string;
+}
+
+export interface CheckoutRequest {
+  enrollmentId: string;
+  provider: string;
+  mode: "hosted" | "embedded";
+  requestHash: string;
+  amountCents: number;
+  currency: string;
+  paymentMethodTypes: string[];
+  reuse: boolean; // false when the open session must be replaced, e.g. after a failed payment
+}
+
+export type CheckoutClaim =
+  | { kind: "reuse"; session: CheckoutSessionRecord }
+  | { kind: "create"; session: CheckoutSessionRecord }
+  | { kind: "busy" };
+
+const CLAIM_ATTEMPTS = 5;
+const CLAIM_WAIT_MS = 1000;
+// A session still being created after this is left over from a crashed request
+const STALE_CREATING_MS = 30 * 1000;
+// An open session this close to expiring is replaced rather than handed out
+const REUSE_MIN_REMAINING_MS = 5 * 60 * 1000;
+
+// Statuses a session may move to each status from
+const allowedTransitions: Record<Exclude<CheckoutSessionStatus, "creating">, CheckoutSessionStatus[]> = {
+  open: ["creating"],
+  completed: ["open", "creating"],
+  expired: ["open"],
+  superseded: ["open", "creating"],
+  failed: ["creating"],
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Move a session to a new status. Returns null when another request or event
+// already moved it.
+export async function markCheckoutSession(
+  supabase: SupabaseClient,
+  sessionId: string,
+  status: Exclude<CheckoutSessionStatus, "creating">,
+  fields: Record<string, unknown> = {},
+): Promise<CheckoutSessionRecord | null> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from("enrollment_checkout_sessions")
+    .update({
+      status,
+      ...(status === "completed" && { completed_at: now }),
+      ...(status === "superseded" && { superseded_at: now }),
+      ...fields,
+    })
+    .eq("id", sessionId)
+    .in("status", allowedTransitions[status])
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update checkout session ${sessionId}: ${error.message}`);
+  }
+  return data as CheckoutSessionRecord | null;
+}
+
+// Close the session with the provider so it can no longer be paid. The hosted
+// page may already be mid-payment, in which case the webhook refunds it.
+async function supersedeCheckoutSession(
+  supabase: SupabaseClient,
+  paymentProvider: PaymentProvider,
+  session: CheckoutSessionRecord,
+): Promise<void> {
+  const superseded = await markCheckoutSession(supabase, session.id, "superseded");
+  if (!superseded) return;
+
+  try {
+    if (superseded.stripe_session_id) {
+      await paymentProvider.expireCheckoutSession(superseded.stripe_session_id);
+    } else if (superseded.stripe_payment_intent_id && paymentProvider.cancelPaymentIntent) {
+      await paymentProvider.cancelPaymentIntent(superseded.stripe_payment_intent_id);
+    }
+  } catch (error) {
+    console.error(`Failed to close superseded checkout session ${superseded.id}:`, error);
+  }
+
+  if (superseded.enrollment_payment_id) {
+    await markEnrollmentPayment(supabase, superseded.enrollment_payment_id, "canceled");
+  }
+
+  await supabase.from("enrollment_events").insert({
+    enrollment_id: superseded.enrollment_id,
+    event_type: "checkout_session_superseded",
+    event_data: {
+      checkout_session_id: superseded.id,
+      session_id: superseded.stripe_session_id,
+      payment_intent_id: superseded.stripe_payment_intent_id,
+    },
+  });
+}
+
+// Close the enrollment's open session when what it charges no longer applies,
+// e.g. the enrollment was canceled or repriced
+export async function closeOpenCheckoutSession(
+  supabase: SupabaseClient,
+  paymentProvider: PaymentProvider,
+  enrollmentId: string,
+): Promise<void> {
+  const { data, error } = await supabase
+    .from("enrollment_checkout_sessions")
+    .select("*")
+    .eq("enrollment_id", enrollmentId)
+    .eq("status", "open")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load checkout sessions for enrollment ${enrollmentId}: ${error.message}`);
+  }
+  if (data) await supersedeCheckoutSession(supabase, paymentProvider, data as CheckoutSessionRecord);
+}
+
+// Reuse the enrollment's open session, or take the single live slot for a new
+// one. The live slot is what makes a retried request safe: it waits for the
+// session the first request is creating and then gets it back. The new row's ID
+// only keys the provider calls for this one claim, so the SDK's own network
+// retries cannot create a second session. Returns busy while another request is
+// still creating a session.
+export async function claimCheckoutSession(
+  supabase: SupabaseClient,
+  paymentProvider: PaymentProvider,
+  request: CheckoutRequest,
+): Promise<CheckoutClaim> {
+  for (let attempt = 1; attempt <= CLAIM_ATTEMPTS; attempt++) {
+    const { data: live, error: liveError } = await supabase
+      .from("enrollment_checkout_sessions")
+      .select("*")
+      .eq("enrollment_id", request.enrollmentId)
+      .in("status", ["creating", "open"])
+      .maybeSingle();
+
+    if (liveError) {
+      throw new Error(`Failed to load checkout sessions for enrollment ${request.enrollmentId}: ${liveError.message}`);
+    }
+
+    const current = live as CheckoutSessionRecord | null;
+    if (current?.status === "creating") {
+      if (Date.now() - new Date(current.created_at).getTime() < STALE_CREATING_MS) {
+        await sleep(CLAIM_WAIT_MS);
+        continue;
+      }
+      await markCheckoutSession(supabase, current.id, "failed", { error: "Abandoned while being created" });
+    } else if (current) {
+      const reusable = request.reuse &&
+        current.provider === request.provider &&
+        current.mode === request.mode &&
+        current.request_hash === request.requestHash &&
+        (!current.expires_at || new Date(current.expires_at).getTime() - Date.now() > REUSE_MIN_REMAINING_MS);
+      if (reusable) {
+        return { kind: "reuse", session: current };
+      }
+      await supersedeCheckoutSession(supabase, paymentProvider, current);
+    }
+
+    const { data: created, error: insertError } = await supabase
+      .from("enrollment_checkout_sessions")
+      .insert({
+        enrollment_id: request.enrollmentId,
+        provider: request.provider,
+        mode: request.mode,
+        request_hash: request.requestHash,
+        amount_cents: request.amountCents,
+        currency: request.currency,
+        payment_method_types: request.paymentMethodTypes,
+      })
+      .select()
+      .single();
+
+    // Another request took the live slot first
+    if (insertError?.code === "23505") continue;
+    if (insertError) {
+      throw new Error(`Failed to record checkout session for enrollment ${request.enrollmentId}: ${insertError.message}`);
+    }
+    return { kind: "create", session: created as CheckoutSessionRecord };
+  }
+
+  return { kind: "busy" };
+}
+
+// Hosted sessions are recorded before their PaymentIntent exists, so they are
+// found by session first
+export async function findCheckoutSession(
+  supabase: SupabaseClient,
+  sessionId: string | null,
+  paymentIntentId: string | null,
+): Promise<CheckoutSessionRecord | null> {
+  if (sessionId) {
+    const { data } = await supabase
+      .from("enrollment_checkout_sessions")
+      .select("*")
+      .eq("stripe_session_id", sessionId)
+      .maybeSingle();
+    if (data) return data as CheckoutSessionRecord;
+  }
+
+  if (paymentIntentId) {
+    const { data } = await supabase
+      .from("enrollment_checkout_sessions")
+      .select("*")
+      .eq("stripe_payment_intent_id", paymentIntentId)
+      .maybeSingle();
+    if (data) return data as CheckoutSessionRecord;
+  }
+
+  return null;
+}
@@ -1,4 +1,9 @@
 import { PDFDocument, rgb, StandardFonts } from "npm:pdf-lib@1.17.1";
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.57.2";
+import { loadLineItems } from "./line-items.ts";
+import { loadInstallments } from "./payment-schedule.ts";
+import { storeEnrollmentDocument } from "./enrollment-documents.ts";
+import { queueZohoAttachment } from "./crm-sync.ts";
 
 export function stripHtml(html: string): string {
   return html
@@ -44,6 +49,51 @@ function wrapText(text: string, maxWidth: number, font: any, fontSize: number):
   return lines;
 }
 
+interface PdfInstallment {
+  sequence: number;
+  amount_cents: number;
+  due_date: string;
+  status: string;
+}
+
+interface PdfLineItem {
+  name: string;
+  unit_amount_cents: number;
+  quantity: number;
+  amount_cents: number;
+}
+
+interface ConsentEnrollment {
+  id: string;
+  zoho_module: string;
+  zoho_record_id: string;
+  patient_name: string | null;
+  patient_email: string | null;
+  patient_phone: string | null;
+  payer_name: string | null;
+  payer_email: string | null;
+  payer_phone: string | null;
+  payer_relationship: string | null;
+  amount_cents: number;
+  currency: string | null;
+  promo_code: string | null;
+  promo_discount_cents: number | null;
+  payment_adjustment_cents: number | null;
+  payment_adjustment_label: string | null;
+  policy_id: string | null;
+  terms_version: string;
+  terms_sha256: string;
+  terms_accepted_at: string | null;
+  terms_accept_ip: string | null;
+  terms_accept_user_agent: string | null;
+  signature_data: string | null;
+  payer_acknowledgement_text: string | null;
+  payer_acknowledged_at: string | null;
+  payer_acknowledge_ip: string | null;
+  payer_acknowledge_user_agent: string | null;
+  payer_signature_data: string | null;
+}
+
 export async function generateConsentPdf(
   enrollment: any,
   termsText: string | null,
@@ -52,6 +102,9 @@ export async function generateConsentPdf(
   clientIp: string,
   userAgent: string,
   paymentDate: string,
+  installments: PdfInstallment[] = [],
+  lineItems: PdfLineItem[] = [],
+  payerSignaturePngBytes: Uint8Array | null = null,
 ): Promise<Uint8Array> {
   const pdfDoc = await PDFDocument.create();
   const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
@@ -106,19 +159,81 @@ export async function generateConsentPdf(
   drawText(`Phone: ${enrollment.patient_phone || "N/A"}`);
   y -= 10;
 
+  // Third-party payer, when someone other than the patient pays
+  const hasPayer = !!enrollment.payer_email;
+  if (hasPayer) {
+    drawText("Payer Details", { font: fontBold, size: 12 });
+    drawText(`Name: ${enrollment.payer_name || "N/A"}`);
+    drawText(`Email: ${enrollment.payer_email}`);
+    drawText(`Phone: ${enrollment.payer_phone || "N/A"}`);
+    drawText(`Relationship to Patient: ${enrollment.payer_relationship || "N/A"}`);
+    y -= 10;
+  }
+
   // Transaction details
-  const amount = new Intl.NumberFormat("en-US", {
+  const formatCurrency = (cents: number) => new Intl.NumberFormat("en-US", {
     style: "currency",
     currency: (enrollment.currency || "usd").toUpperCase(),
-  }).format(enrollment.amount_cents / 100);
+  }).format(cents / 100);
+  const amount = formatCurrency(enrollment.amount_cents);
   drawText("Transaction Details", { font: fontBold, size: 12 });
+  if (enrollment.promo_discount_cents) {
+    // The amount is after the promo code; list prices are the line items
+    drawText(`List Price: ${formatCurrency(enrollment.amount_cents + enrollment.promo_discount_cents)}`);
+    drawText(`Promo Code ${enrollment.promo_code}: ${formatCurrency(-enrollment.promo_discount_cents)}`);
+  }
   drawText(`Amount: ${amount}`);
+  if (enrollment.payment_adjustment_cents) {
+    // Card surcharge or ACH discount, charged with the deposit or full payment
+    const chargeCents = installments[0]?.amount_cents ?? enrollment.amount_cents;
+    drawText(`${enrollment.payment_adjustment_label || "Payment method adjustment"}: ${formatCurrency(enrollment.payment_adjustment_cents)}`);
+    drawText(`Charged at Checkout: ${formatCurrency(chargeCents + enrollment.payment_adjustment_cents)}`);
+  }
+  if (installments.length > 0) {
+    const paidCents = installments
+      .filter((i) => i.status === "paid")
+      .reduce((sum, i) => sum + i.amount_cents, 0);
+    const outstandingCents = installments
+      .filter((i) => i.status !== "paid" && i.status !== "canceled")
+      .reduce((sum, i) => sum + i.amount_cents, 0);
+    drawText(`Paid to Date: ${formatCurrency(paidCents)}`);
+    drawText(`Outstanding Balance: ${formatCurrency(outstandingCents)}`);
+  }
   drawText(`Enrollment ID: ${enrollment.id}`);
   drawText(`Payment Date: ${new Date(paymentDate).toLocaleString("en-US", { timeZone: "America/New_York" })}`);
   drawText(`Terms Version: ${enrollment.terms_version}`);
   drawText(`Terms SHA-256: ${enrollment.terms_sha256}`);
   y -= 10;
 
+  // Itemized charges
+  if (lineItems.length > 0) {
+    drawText("Items", { font: fontBold, size: 12 });
+    for (const item of lineItems) {
+      const quantity = item.quantity > 1 ? ` (${item.quantity} x ${formatCurrency(item.unit_amount_cents)})` : "";
+      drawText(`${item.name}${quantity} - ${formatCurrency(item.amount_cents)}`);
+    }
+    if (enrollment.promo_discount_cents) {
+      drawText(`Promo code ${enrollment.promo_code} - ${formatCurrency(-enrollment.promo_discount_cents)}`);
+    }
+    drawText(`Total: ${amount}`, { font: fontBold });
+    y -= 10;
+  }
+
+  // Payment schedule
+  if (installments.length > 0) {
+    drawText("Payment Schedule", { font: fontBold, size: 12 });
+    for (const installment of installments) {
+      const label = installment.sequence === 1 ? "Deposit" : `Installment ${installment.sequence - 1}`;
+      const status = installment.status.charAt(0).toUpperCase() + installment.status.slice(1);
+      drawText(`${label} - ${installment.due_date} - ${formatCurrency(installment.amount_cents)} - ${status}`);
+    }
+    y -= 4;
+    drawWrappedText(
+      `The ${hasPayer ? "payer" : "patient"} authorized the remaining installments to be charged to the payment method saved at checkout on the dates above.`,
+    );
+    y -= 10;
+  }
+
   // Terms content
   if (termsText) {
     drawText("Terms of Service", { font: fontBold, size: 12 });
@@ -136,24 +251,13 @@ export async function generateConsentPdf(
     y -= 10;
   }
 
-  // Consent record
-  drawText("Consent Record", { font: fontBold, size: 12 });
-  drawText(`Terms Accepted At: ${enrollment.terms_accepted_at || "N/A"}`);
-  drawText(`Payment Confirmed At: ${paymentDate}`);
-  drawText(`IP Address: ${clientIp}`);
-  drawText(`User Agent: ${userAgent}`);
-  y -= 10;
-
-  // Signature
-  if (signaturePngBytes) {
-    drawText("Signature", { font: fontBold, size: 12 });
-    y -= 4;
+  const drawSignature = async (pngBytes: Uint8Array) => {
     if (y < margin + 100) {
       page = pdfDoc.addPage([pageWidth, pageHeight]);
       y = pageHeight - margin;
     }
     try {
-      const sigImage = await pdfDoc.embedPng(signaturePngBytes);
+      const sigImage = await pdfDoc.embedPng(pngBytes);
       const sigDims = sigImage.scale(0.4);
       const sigWidth = Math.min(sigDims.width, contentWidth);
       const sigHeight = sigDims.height * (sigWidth / sigDims.width);
@@ -163,6 +267,41 @@ export async function generateConsentPdf(
       console.error("Error embedding signature:", e);
       drawText("[Signature image could not be embedded]");
     }
+  };
+
+  // Consent record
+  drawText(hasPayer ? "Patient Consent Record" : "Consent Record", { font: fontBold, size: 12 });
+  drawText(`Terms Accepted At: ${enrollment.terms_accepted_at || "N/A"}`);
+  drawText(`Payment Confirmed At: ${paymentDate}`);
+  drawText(`IP Address: ${clientIp}`);
+  drawText(`User Agent: ${userAgent}`);
+  y -= 10;
+
+  // Signature
+  if (signaturePngBytes) {
+    drawText(hasPayer ? "Patient Signature" : "Signature", { font: fontBold, size: 12 });
+    y -= 4;
+    await drawSignature(signaturePngBytes);
+  }
+
+  // The payer's own authorization, separate from the patient's medical consent
+  if (hasPayer) {
+    y -= 10;
+    drawText("Payer Payment Authorization", { font: fontBold, size: 12 });
+    y -= 4;
+    if (enrollment.payer_acknowledgement_text) {
+      drawWrappedText(enrollment.payer_acknowledgement_text);
+      y -= 4;
+    }
+    drawText(`Acknowledged At: ${enrollment.payer_acknowledged_at || "N/A"}`);
+    drawText(`IP Address: ${enrollment.payer_acknowledge_ip || "unknown"}`);
+    drawText(`User Agent: ${enrollment.payer_acknowledge_user_agent || "unknown"}`);
+    if (payerSignaturePngBytes) {
+      y -= 4;
+      drawText("Payer Signature", { font: fontBold, size: 12 });
+      y -= 4;
+      await drawSignature(payerSignaturePngBytes);
+    }
   }
 
   // Footer
@@ -174,3 +313,59 @@ export async function generateConsentPdf(
 
   return await pdfDoc.save();
 }
+
+// Generate and store consent PDF when payment is confirmed, whether through
+// Stripe or recorded offline by an admin, and attach it to the Zoho record
+export async function generateAndStoreConsentPdf(
+  supabase: SupabaseClient,
+  enrollment: ConsentEnrollment,
+  paymentDate: string,
+): Promise<Uint8Array | null> {
+  try {
+    // Fetch policy text
+    const { data: policy } = enrollment.policy_id
+      ? await supabase.from("policies").select("terms_text, privacy_text").eq("id", enrollment.policy_id).single()
+      : { data: null };
+
+    // Decode signatures if stored
+    const decodeSignature = (signatureData: string | null): Uint8Array | null => {
+      if (!signatureData || signatureData === "stored") return null;
+      const base64Match = signatureData.match(/^data:image\/png;base64,(.+)$/);
+      if (!base64Match) return null;
+      const binaryString = atob(base64Match[1]);
+      const bytes = new Uint8Array(binaryString.length);
+      for (let i = 0; i < binaryString.length; i++) {
+        bytes[i] = binaryString.charCodeAt(i);
+      }
+      return bytes;
+    };
+    const signaturePngBytes = decodeSignature(enrollment.signature_data);
+
+    const installments = await loadInstallments(supabase, enrollment.id);
+    const lineItems = await loadLineItems(supabase, enrollment.id);
+
+    const pdfBytes = await generateConsentPdf(
+      enrollment,
+      policy?.terms_text || null,
+      policy?.privacy_text || null,
+      signaturePngBytes,
+      enrollment.terms_accept_ip || "unknown",
+      enrollment.terms_accept_user_agent || "unknown",
+      paymentDate,
+      installments,
+      lineItems,
+      decodeSignature(enrollment.payer_signature_data),
+    );
+
+    const stored = await storeEnrollmentDocument(supabase, enrollment.id, "consent", pdfBytes);
+    if (!stored) {
+      return pdfBytes; // Still return bytes for email even if upload fails
+    }
+
+    await queueZohoAttachment(supabase, enrollment, stored);
+    return pdfBytes;
+  } catch (err) {
+    console.error("Error generating consent PDF:", err);
+    return null;
+  }
+}
@@ -0,0 +1,249 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.57.2";
+import { addZohoNote, updateZohoRecord, uploadZohoAttachment, type ZohoError, type ZohoResult } from "./zoho.ts";
+import { loadZohoFieldMapping, toZohoFields, type EnrollmentZohoFields } from "./zoho-fields.ts";
+import {
+  DOCUMENTS_BUCKET,
+  documentColumns,
+  type EnrollmentDocument,
+  type StoredDocument,
+} from "./enrollment-documents.ts";
+
+// CRM writes go through the crm_sync_outbox table so a Zoho outage cannot lose
+// them. A queued write is delivered straight away when it is first in line for
+// its record; otherwise, or when Zoho fails, process-crm-sync delivers it with
+// exponential backoff. After MAX_SYNC_ATTEMPTS, or on an error that retrying
+// cannot fix, the item is dead and waits in the dashboard for staff.
+
+const MAX_SYNC_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+export type CrmSyncOperation = "update_record" | "add_note" | "upload_attachment";
+
+export type CrmSyncStatus = "pending" | "processing" | "delivered" | "dead" | "discarded";
+
+export interface CrmSyncItem {
+  id: string;
+  enrollment_id: string | null;
+  zoho_module: string;
+  zoho_record_id: string;
+  operation: CrmSyncOperation;
+  payload: Record<string, unknown>;
+  status: CrmSyncStatus;
+  attempts: number;
+}
+
+// The Zoho record an enrollment was created from
+export interface CrmSyncEnrollment {
+  id: string;
+  zoho_module: string;
+  zoho_record_id: string;
+}
+
+export interface CrmSyncRunSummary {
+  delivered: number;
+  retrying: number;
+  dead: number;
+}
+
+// Delay before the next attempt once `attempts` have failed
+const retryDelayMs = (attempts: number) =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+
+// Zoho rejected the write itself (bad field, record deleted); the same payload
+// will fail again, so it goes to staff without waiting out the retries
+const isPermanent = (error: ZohoError) =>
+  error.status !== null && error.status >= 400 && error.status < 500 && ![401, 408, 429].includes(error.status);
+
+// Upload a stored document and record the attachment on the enrollment. The
+// file is read from storage at delivery, so the outbox only holds its path.
+async function attachDocument(supabase: SupabaseClient, item: CrmSyncItem): Promise<ZohoResult<null>> {
+  const document = item.payload.document as EnrollmentDocument;
+  const storagePath = String(item.payload.storage_path ?? "");
+  const fileName = String(item.payload.file_name ?? "");
+  if (!(document in documentColumns) || !storagePath || !fileName) {
+    return { data: null, error: { status: 400, code: "INVALID_PAYLOAD", message: "Attachment needs document, storage_path and file_name" } };
+  }
+
+  const { data: file, error: downloadError } = await supabase.storage.from(DOCUMENTS_BUCKET).download(storagePath);
+  if (downloadError || !file) {
+    return { data: null, error: { status: null, code: "FILE_UNAVAILABLE", message: downloadError?.message || `${storagePath} not found` } };
+  }
+
+  const result = await uploadZohoAttachment(
+    item.zoho_module,
+    item.zoho_record_id,
+    fileName,
+    new Uint8Array(await file.arrayBuffer()),
+  );
+  if (result.error) return result;
+
+  // Only the latest version is linked, in case an older one is retried late
+  if (item.enrollment_id) {
+    const columns = documentColumns[document];
+    const { error } = await supabase
+      .from("enrollments")
+      .update({ [columns.attachmentId]: result.data })
+      .eq("id", item.enrollment_id)
+      .eq(columns.path, storagePath);
+    if (error) console.error(`Failed to record Zoho attachment for enrollment ${item.enrollment_id}:`, error);
+  }
+  return { data: null, error: null };
+}
+
+async function sendToZoho(supabase: SupabaseClient, item: CrmSyncItem): Promise<ZohoResult<null>> {
+  if (item.operation === "upload_attachment") {
+    return await attachDocument(supabase, item);
+  }
+
+  if (item.operation === "add_note") {
+    return await addZohoNote(
+      item.zoho_module,
+      item.zoho_record_id,
+      String(item.payload.title ?? ""),
+      String(item.payload.content ?? ""),
+    );
+  }
+
+  // Mapped at delivery, so a corrected mapping also fixes writes already queued
+  let fields: Record<string, unknown>;
+  try {
+    fields = toZohoFields(await loadZohoFieldMapping(supabase, item.zoho_module), item.payload);
+  } catch (error) {
+    return { data: null, error: { status: null, code: "MAPPING_UNAVAILABLE", message: error instanceof Error ? error.message : String(error) } };
+  }
+  // Every field is switched off for this module
+  if (Object.keys(fields).length === 0) return { data: null, error: null };
+
+  return await updateZohoRecord(item.zoho_module, item.zoho_record_id, fields);
+}
+
+// Deliver a claimed item and record the outcome. Returns the item's new status.
+async function deliverCrmSyncItem(supabase: SupabaseClient, item: CrmSyncItem): Promise<CrmSyncStatus> {
+  const result = await sendToZoho(supabase, item);
+
+  if (!result.error) {
+    const { error } = await supabase
+      .from("crm_sync_outbox")
+      .update({ status: "delivered", delivered_at: new Date().toISOString(), locked_at: null })
+      .eq("id", item.id);
+    if (error) console.error(`Failed to mark CRM sync item ${item.id} delivered:`, error);
+    return "delivered";
+  }
+
+  const dead = isPermanent(result.error) || item.attempts >= MAX_SYNC_ATTEMPTS;
+  const now = Date.now();
+  const { error } = await supabase
+    .from("crm_sync_outbox")
+    .update({
+      status: dead ? "dead" : "pending",
+      locked_at: null,
+      last_error: result.error.message,
+      last_error_code: result.error.code,
+      next_attempt_at: new Date(now + (dead ? 0 : retryDelayMs(item.attempts))).toISOString(),
+      ...(dead && { dead_at: new Date(now).toISOString() }),
+    })
+    .eq("id", item.id);
+  if (error) console.error(`Failed to record CRM sync failure for ${item.id}:`, error);
+
+  if (dead) {
+    console.error(`CRM sync item ${item.id} is dead after ${item.attempts} attempts: ${result.error.code}`);
+  }
+  return dead ? "dead" : "pending";
+}
+
+async function queueCrmWrite(
+  supabase: SupabaseClient,
+  enrollment: CrmSyncEnrollment,
+  operation: CrmSyncOperation,
+  payload: Record<string, unknown>,
+): Promise<boolean> {
+  const { data: item, error } = await supabase
+    .from("crm_sync_outbox")
+    .insert({
+      enrollment_id: enrollment.id,
+      zoho_module: enrollment.zoho_module,
+      zoho_record_id: enrollment.zoho_record_id,
+      operation,
+      payload,
+    })
+    .select("id")
+    .single();
+
+  if (error || !item) {
+    console.error(`Failed to queue CRM ${operation} for enrollment ${enrollment.id}:`, error);
+    return false;
+  }
+
+  return (await deliverCrmSyncItemNow(supabase, item.id)) === "delivered";
+}
+
+// Deliver one item now if it is due and first in line for its record. Returns
+// its new status, or null when it was not claimed because an earlier write for
+// the record is still outstanding; the worker delivers it after that one.
+export async function deliverCrmSyncItemNow(supabase: SupabaseClient, itemId: string): Promise<CrmSyncStatus | null> {
+  const { data: claimed, error } = await supabase
+    .rpc("claim_crm_sync_items", { _limit: 1, _item_id: itemId });
+  if (error) {
+    console.error(`Failed to claim CRM sync item ${itemId}:`, error);
+    return null;
+  }
+  if (!claimed || claimed.length === 0) return null;
+
+  return await deliverCrmSyncItem(supabase, claimed[0] as CrmSyncItem);
+}
+
+// Queue an update to the enrollment's Zoho record, in canonical fields (see
+// zoho-fields.ts). Returns whether Zoho has already accepted it; otherwise it
+// is retried in the background.
+export async function queueZohoUpdate(
+  supabase: SupabaseClient,
+  enrollment: CrmSyncEnrollment,
+  data: EnrollmentZohoFields,
+): Promise<boolean> {
+  return await queueCrmWrite(supabase, enrollment, "update_record", data);
+}
+
+// Queue a note on the enrollment's Zoho record
+export async function queueZohoNote(
+  supabase: SupabaseClient,
+  enrollment: CrmSyncEnrollment,
+  title: string,
+  content: string,
+): Promise<boolean> {
+  return await queueCrmWrite(supabase, enrollment, "add_note", { title, content });
+}
+
+// Queue a stored document for the enrollment's Zoho record attachments
+export async function queueZohoAttachment(
+  supabase: SupabaseClient,
+  enrollment: CrmSyncEnrollment,
+  stored: StoredDocument,
+): Promise<boolean> {
+  return await queueCrmWrite(supabase, enrollment, "upload_attachment", {
+    document: stored.document,
+    storage_path: stored.storagePath,
+    file_name: stored.fileName,
+  });
+}
+
+// Deliver up to `limit` due items. Each claim takes only the first item of a
+// record, so the next one is claimed once it has been delivered.
+export async function processCrmSyncItems(supabase: SupabaseClient, limit: number): Promise<CrmSyncRunSummary> {
+  const summary: CrmSyncRunSummary = { delivered: 0, retrying: 0, dead: 0 };
+
+  while (summary.delivered + summary.retrying + summary.dead < limit) {
+    const remaining = limit - (summary.delivered + summary.retrying + summary.dead);
+    const { data: claimed, error } = await supabase.rpc("claim_crm_sync_items", { _limit: remaining });
+    if (error) throw new Error(`Failed to claim CRM sync items: ${error.message}`);
+    if (!claimed || claimed.length === 0) break;
+
+    for (const item of claimed as CrmSyncItem[]) {
+      const status = await deliverCrmSyncItem(supabase, item);
+      if (status === "delivered") summary.delivered++;
+      else if (status === "dead") summary.dead++;
+      else summary.retrying++;
+    }
+  }
+  return summary;
+}
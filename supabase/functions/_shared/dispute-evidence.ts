@@ -0,0 +1,180 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.57.2";
+
+export interface DisputeEvidenceBundle {
+  generated_at: string;
+  enrollment_id: string;
+  patient: {
+    name: string | null;
+    email: string | null;
+    phone: string | null;
+  };
+  payment: {
+    amount_cents: number;
+    currency: string;
+    payment_method_type: string | null;
+    paid_at: string | null;
+    stripe_payment_intent_id: string | null;
+  };
+  consent: {
+    accepted_at: string | null;
+    ip: string | null;
+    user_agent: string | null;
+    terms_version: string;
+    terms_url: string;
+    privacy_url: string;
+    terms_sha256: string;
+    policy_id: string | null;
+    policy_name: string | null;
+    // True when the policy text below hashes to the terms_sha256 the patient accepted
+    policy_hash_matches: boolean;
+    consent_pdf_path: string | null;
+    signature_captured: boolean;
+  };
+  policy_text: {
+    terms_text: string | null;
+    privacy_text: string | null;
+  };
+  timeline: Array<{
+    event_type: string;
+    created_at: string | null;
+    event_data: Record<string, unknown> | null;
+  }>;
+}
+
+interface PolicyRecord {
+  id: string;
+  name: string;
+  terms_text: string | null;
+  privacy_text: string | null;
+}
+
+// Assemble everything we hold about the patient's consent into one evidence bundle
+export async function buildDisputeEvidence(
+  supabase: SupabaseClient,
+  enrollmentId: string,
+): Promise<DisputeEvidenceBundle | null> {
+  const { data: enrollment, error } = await supabase
+    .from("enrollments")
+    .select("*")
+    .eq("id", enrollmentId)
+    .maybeSingle();
+
+  if (error || !enrollment) {
+    console.error("Failed to load enrollment for dispute evidence:", error);
+    return null;
+  }
+
+  // Prefer the exact policy version the patient accepted, matched by content hash
+  let policy: PolicyRecord | null = null;
+  let policyHashMatches = false;
+
+  const { data: hashedPolicy } = await supabase
+    .from("policies")
+    .select("id, name, terms_text, privacy_text")
+    .eq("terms_content_sha256", enrollment.terms_sha256)
+    .limit(1)
+    .maybeSingle();
+
+  if (hashedPolicy) {
+    policy = hashedPolicy;
+    policyHashMatches = true;
+  } else if (enrollment.policy_id) {
+    const { data: linkedPolicy } = await supabase
+      .from("policies")
+      .select("id, name, terms_text, privacy_text")
+      .eq("id", enrollment.policy_id)
+      .maybeSingle();
+    policy = linkedPolicy;
+  }
+
+  const { data: events } = await supabase
+    .from("enrollment_events")
+    .select("event_type, created_at, event_data")
+    .eq("enrollment_id", enrollmentId)
+    .order("created_at", { ascending: true });
+
+  return {
+    generated_at: new Date().toISOString(),
+    enrollment_id: enrollment.id,
+    patient: {
+      name: enrollment.patient_name,
+      email: enrollment.patient_email,
+      phone: enrollment.patient_phone,
+    },
+    payment: {
+      amount_cents: enrollment.amount_cents,
+      currency: enrollment.currency || "usd",
+      payment_method_type: enrollment.payment_method_type,
+      paid_at: enrollment.paid_at,
+      stripe_payment_intent_id: enrollment.stripe_payment_intent_id,
+    },
+    consent: {
+      accepted_at: enrollment.terms_accepted_at,
+      ip: enrollment.terms_accept_ip,
+      user_agent: enrollment.terms_accept_user_agent,
+      terms_version: enrollment.terms_version,
+      terms_url: enrollment.terms_url,
+      privacy_url: enrollment.privacy_url,
+      terms_sha256: enrollment.terms_sha256,
+      policy_id: policy?.id || enrollment.policy_id,
+      policy_name: policy?.name || null,
+      policy_hash_matches: policyHashMatches,
+      consent_pdf_path: enrollment.consent_pdf_path,
+      signature_captured: !!enrollment.signature_data,
+    },
+    policy_text: {
+      terms_text: policy?.terms_text || null,
+      privacy_text: policy?.privacy_text || null,
+    },
+    timeline: events || [],
+  };
+}
+
+// Policy text is stored as rich-text HTML; Stripe evidence fields take plain text
+export function htmlToPlainText(html: string | null): string {
+  if (!html) return "";
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|h[1-6]|li|tr)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// One line per enrollment event, suitable for Stripe's access_activity_log field
+export function formatEvidenceTimeline(bundle: DisputeEvidenceBundle): string {
+  return bundle.timeline
+    .map((event) => {
+      const data = event.event_data || {};
+      const details = [data.ip, data.user_agent]
+        .filter(Boolean)
+        .join(" | ");
+      return `${event.created_at || "unknown time"} - ${event.event_type}${details ? ` (${details})` : ""}`;
+    })
+    .join("\n");
+}
+
+// Summary of how and when the patient agreed to the terms
+export function formatConsentStatement(bundle: DisputeEvidenceBundle): string {
+  const { consent } = bundle;
+  const lines = [
+    `The cardholder (${bundle.patient.name || "patient"}, ${bundle.patient.email || "no email on file"}) electronically accepted our Terms of Service and Privacy Policy before payment.`,
+    `Accepted at: ${consent.accepted_at || "not recorded"}`,
+    `IP address: ${consent.ip || "not recorded"}`,
+    `User agent: ${consent.user_agent || "not recorded"}`,
+    `Terms version: ${consent.terms_version} (SHA-256 ${consent.terms_sha256})`,
+    `Terms URL: ${consent.terms_url}`,
+    `Privacy URL: ${consent.privacy_url}`,
+    `Signature captured: ${consent.signature_captured ? "yes" : "no"}`,
+  ];
+  if (consent.policy_hash_matches) {
+    lines.push("The attached policy text matches the hash recorded at acceptance.");
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,71 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.57.2";
+
+// PDFs generated for an enrollment, kept in the consent-documents bucket. A
+// document generated again, e.g. after a regenerated link is paid, is stored
+// as a new version next to the earlier ones; the enrollment points at the latest.
+
+export type EnrollmentDocument = "consent" | "receipt";
+
+export const DOCUMENTS_BUCKET = "consent-documents";
+
+// Enrollment columns for each document: its latest file and version, and the
+// Zoho attachment of that version
+export const documentColumns = {
+  consent: { path: "consent_pdf_path", version: "consent_pdf_version", attachmentId: "zoho_consent_attachment_id" },
+  receipt: { path: "receipt_pdf_path", version: "receipt_pdf_version", attachmentId: "zoho_receipt_attachment_id" },
+} as const;
+
+const documentNames: Record<EnrollmentDocument, string> = {
+  consent: "Consent-Agreement",
+  receipt: "Payment-Receipt",
+};
+
+export interface StoredDocument {
+  document: EnrollmentDocument;
+  storagePath: string;
+  fileName: string; // Versioned name shown in Zoho, e.g. Consent-Agreement-v2.pdf
+  version: number;
+}
+
+// Upload the next version of a document and point the enrollment at it.
+// Returns null when the upload failed.
+export async function storeEnrollmentDocument(
+  supabase: SupabaseClient,
+  enrollmentId: string,
+  document: EnrollmentDocument,
+  pdfBytes: Uint8Array,
+): Promise<StoredDocument | null> {
+  const columns = documentColumns[document];
+  const { data: current } = await supabase
+    .from("enrollments")
+    .select(columns.version)
+    .eq("id", enrollmentId)
+    .maybeSingle();
+
+  const version = (Number((current as Record<string, unknown> | null)?.[columns.version]) || 0) + 1;
+  const storagePath = `${enrollmentId}/${Date.now()}-${document}-v${version}.pdf`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(DOCUMENTS_BUCKET)
+    .upload(storagePath, pdfBytes, {
+      contentType: "application/pdf",
+      upsert: false,
+    });
+
+  if (uploadError) {
+    console.error(`Error uploading ${document} PDF:`, uploadError);
+    return null;
+  }
+
+  const { error: updateError } = await supabase
+    .from("enrollments")
+    .update({ [columns.path]: storagePath, [columns.version]: version })
+    .eq("id", enrollmentId);
+
+  if (updateError) {
+    console.error(`Failed to record ${document} PDF on enrollment ${enrollmentId}:`, updateError);
+  }
+
+  console.log(`${document} PDF v${version} stored: ${storagePath}`);
+  return { document, storagePath, fileName: `${documentNames[document]}-v${version}.pdf`, version };
+}
@@ -0,0 +1,242 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.57.2";
+import type { PaymentDetails } from "./payment-provider.ts";
+
+// Checkout payments toward an enrollment without a payment plan. The patient can
+// split the amount across several cards or bank accounts: each checkout is one
+// row, and the enrollment is paid once the succeeded rows cover amount_cents.
+// Payment plans keep using enrollment_installments.
+
+export type EnrollmentPaymentStatus = "pending" | "processing" | "succeeded" | "failed" | "canceled" | "reversed";
+
+export interface EnrollmentPaymentRecord {
+  id: string;
+  enrollment_id: string;
+  amount_cents: number;
+  adjustment_cents: number | null;
+  adjustment_label: string | null;
+  currency: string;
+  status: EnrollmentPaymentStatus;
+  payment_method_type: string | null;
+  stripe_session_id: string | null;
+  stripe_payment_intent_id: string | null;
+  stripe_charge_id: string | null;
+  card_brand: string | null;
+  bank_name: string | null;
+  last4: string | null;
+  fee_cents: number | null;
+  net_cents: number | null;
+  receipt_url: string | null;
+  refunded_cents: number;
+  failure_message: string | null;
+  paid_at: string | null;
+  failed_at: string | null;
+  created_at: string;
+}
+
+// A partial payment below this is refused unless it clears the balance, so a
+// balance is split across a few cards rather than many token charges
+export const MIN_PARTIAL_PAYMENT_CENTS = 5000;
+
+// Statuses a payment may move to each status from. A payment whose checkout was
+// replaced by a newer one is canceled. Payments that still arrive on a replaced
+// session are refunded by the webhook, except on sessions started before they
+// were tracked in enrollment_checkout_sessions, which are still applied.
+const allowedTransitions: Record<Exclude<EnrollmentPaymentStatus, "pending">, EnrollmentPaymentStatus[]> = {
+  processing: ["pending", "canceled"],
+  succeeded: ["pending", "processing", "canceled"],
+  failed: ["pending", "processing", "canceled"],
+  canceled: ["pending"],
+  reversed: ["succeeded"],
+};
+
+export async function loadEnrollmentPayments(
+  supabase: SupabaseClient,
+  enrollmentId: string,
+): Promise<EnrollmentPaymentRecord[]> {
+  const { data, error } = await supabase
+    .from("enrollment_payments")
+    .select("*")
+    .eq("enrollment_id", enrollmentId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Failed to load enrollment payments:", error);
+    return [];
+  }
+  return (data || []) as EnrollmentPaymentRecord[];
+}
+
+// Money in flight counts against the balance so the patient cannot pay it twice
+export function summarizePayments(
+  payments: Pick<EnrollmentPaymentRecord, "amount_cents" | "adjustment_cents" | "status">[],
+  totalCents: number,
+) {
+  const succeeded = payments.filter((p) => p.status === "succeeded");
+  const paidCents = succeeded.reduce((sum, p) => sum + p.amount_cents, 0);
+  const processingCents = payments
+    .filter((p) => p.status === "processing")
+    .reduce((sum, p) => sum + p.amount_cents, 0);
+  return {
+    paidCents,
+    processingCents,
+    balanceCents: Math.max(totalCents - paidCents - processingCents, 0),
+    // What was actually charged, with each payment's surcharge or discount
+    chargedCents: succeeded.reduce((sum, p) => sum + p.amount_cents + (p.adjustment_cents || 0), 0),
+  };
+}
+
+// Enrollment status from its payments: paid once covered, partially paid while
+// some money has settled, processing while only bank transfers are in flight
+export function fundedStatus(
+  summary: ReturnType<typeof summarizePayments>,
+  totalCents: number,
+): "paid" | "partially_paid" | "processing" | null {
+  if (summary.paidCents >= totalCents) return "paid";
+  if (summary.paidCents > 0) return "partially_paid";
+  if (summary.processingCents > 0) return "processing";
+  return null;
+}
+
+// Returns an error message, or null when the amount can be paid now
+export function validatePaymentAmount(amountCents: unknown, balanceCents: number): string | null {
+  if (!Number.isInteger(amountCents) || (amountCents as number) <= 0) {
+    return "amount_cents must be a positive whole number of cents";
+  }
+  const cents = amountCents as number;
+  if (cents > balanceCents) {
+    return `The remaining balance is $${(balanceCents / 100).toFixed(2)}`;
+  }
+  if (cents < balanceCents && cents < MIN_PARTIAL_PAYMENT_CENTS) {
+    return `A partial payment must be at least $${(MIN_PARTIAL_PAYMENT_CENTS / 100).toFixed(2)}`;
+  }
+  return null;
+}
+
+// Record a new checkout. It replaces any checkout the patient started earlier
+// and did not complete.
+export async function createEnrollmentPayment(
+  supabase: SupabaseClient,
+  params: {
+    enrollmentId: string;
+    amountCents: number;
+    adjustment: { label: string; amount_cents: number } | null;
+    currency: string;
+    sessionId?: string | null;
+    paymentIntentId?: string | null;
+  },
+): Promise<EnrollmentPaymentRecord | null> {
+  await supabase
+    .from("enrollment_payments")
+    .update({ status: "canceled" })
+    .eq("enrollment_id", params.enrollmentId)
+    .eq("status", "pending");
+
+  const { data, error } = await supabase
+    .from("enrollment_payments")
+    .insert({
+      enrollment_id: params.enrollmentId,
+      amount_cents: params.amountCents,
+      adjustment_cents: params.adjustment?.amount_cents ?? null,
+      adjustment_label: params.adjustment?.label ?? null,
+      currency: params.currency,
+      stripe_session_id: params.sessionId ?? null,
+      stripe_payment_intent_id: params.paymentIntentId ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Failed to record enrollment payment:", error);
+    return null;
+  }
+  return data as EnrollmentPaymentRecord;
+}
+
+// Hosted checkouts are recorded before their PaymentIntent exists, so they are
+// found by session until the webhook stores it
+export async function findEnrollmentPayment(
+  supabase: SupabaseClient,
+  sessionId: string | null,
+  paymentIntentId: string | null,
+): Promise<EnrollmentPaymentRecord | null> {
+  if (paymentIntentId) {
+    const { data } = await supabase
+      .from("enrollment_payments")
+      .select("*")
+      .eq("stripe_payment_intent_id", paymentIntentId)
+      .maybeSingle();
+    if (data) return data as EnrollmentPaymentRecord;
+  }
+
+  if (sessionId) {
+    const { data } = await supabase
+      .from("enrollment_payments")
+      .select("*")
+      .eq("stripe_session_id", sessionId)
+      .maybeSingle();
+    if (data) return data as EnrollmentPaymentRecord;
+  }
+
+  return null;
+}
+
+// Payment columns for the card or bank, fees and receipt
+export const paymentRecordDetails = (details: PaymentDetails) => ({
+  payment_method_type: details.methodType,
+  stripe_charge_id: details.chargeId,
+  card_brand: details.cardBrand,
+  bank_name: details.bankName,
+  last4: details.last4,
+  fee_cents: details.feeCents,
+  net_cents: details.netCents,
+  receipt_url: details.receiptUrl,
+});
+
+// Move a payment to a new status. Providers report the same outcome through
+// several events, so a payment that cannot make the move returns null.
+export async function markEnrollmentPayment(
+  supabase: SupabaseClient,
+  paymentId: string,
+  status: Exclude<EnrollmentPaymentStatus, "pending">,
+  fields: Record<string, unknown> = {},
+): Promise<EnrollmentPaymentRecord | null> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from("enrollment_payments")
+    .update({
+      status,
+      ...(status === "succeeded" && { paid_at: now }),
+      ...(status === "failed" && { failed_at: now }),
+      ...fields,
+    })
+    .eq("id", paymentId)
+    .in("status", allowedTransitions[status])
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update enrollment payment ${paymentId}: ${error.message}`);
+  }
+  return data as EnrollmentPaymentRecord | null;
+}
+
+// Enrollment columns that total the succeeded payments, so the confirmation
+// email, consent PDF, refunds and revenue figures see what was charged overall.
+// The card or bank columns keep the latest payment's details.
+export function enrollmentTotalsFields(payments: EnrollmentPaymentRecord[]) {
+  const succeeded = payments.filter((p) => p.status === "succeeded");
+  const adjusted = succeeded.filter((p) => p.adjustment_cents);
+  const labels = [...new Set(adjusted.map((p) => p.adjustment_label || "Payment method adjustment"))];
+  const withFees = succeeded.filter((p) => p.fee_cents !== null);
+  const allFeesKnown = succeeded.length > 0 && withFees.length === succeeded.length;
+  return {
+    payment_adjustment_cents: adjusted.reduce((sum, p) => sum + (p.adjustment_cents || 0), 0) || null,
+    payment_adjustment_label: labels.length === 0 ? null : labels.length === 1 ? labels[0] : "Payment method adjustments",
+    payment_gross_cents: succeeded.length > 0
+      ? succeeded.reduce((sum, p) => sum + p.amount_cents + (p.adjustment_cents || 0), 0)
+      : null,
+    // Unknown until the provider has reported the fee on every payment
+    payment_fee_cents: allFeesKnown ? withFees.reduce((sum, p) => sum + (p.fee_cents || 0), 0) : null,
+    payment_net_cents: allFeesKnown ? withFees.reduce((sum, p) => sum + (p.net_cents || 0), 0) : null,
+  };
+}
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi } from "vitest";
+import { FAKE_SIGNATURE_HEADER, FakePaymentProvider, fakeEventsFor, signFakeWebhook } from "./fake-payment-provider.ts";
+import type { CreateCheckoutSessionParams, PaymentEvent } from "./payment-provider.ts";
+
+// payment-provider.ts also loads the Stripe provider, which only runs under Deno
+vi.mock("./stripe-payment-provider.ts", () => ({ StripePaymentProvider: class {} }));
+
+const SECRET = "test-secret";
+const ENROLLMENT_ID = "3f1c2a9e-0000-4000-8000-000000000001";
+
+const provider = new FakePaymentProvider(SECRET);
+
+function checkoutParams(email: string): CreateCheckoutSessionParams {
+  return {
+    enrollmentId: ENROLLMENT_ID,
+    currency: "usd",
+    lineItems: [
+      { name: "Procedure", unit_amount_cents: 500000, quantity: 1 },
+      { name: "Aftercare", unit_amount_cents: 25000, quantity: 2 },
+    ],
+    discount: { name: "Promo code SPRING", amountCents: 10000 },
+    paymentMethodTypes: ["card", "ach"],
+    allowWallets: true,
+    customer: { email, name: "Test Patient", phone: null, metadata: {} },
+    savePaymentMethod: false,
+    successUrl: "https://app.test/enroll/token?status=success",
+    cancelUrl: "https://app.test/enroll/token?status=canceled",
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    metadata: { enrollment_id: ENROLLMENT_ID },
+    idempotencyKey: "checkout-1",
+  };
+}
+
+// Sends the events through the webhook path: signed, verified and normalized
+async function deliver(events: PaymentEvent[]): Promise<PaymentEvent[]> {
+  return Promise.all(events.map(async (event) => {
+    const body = JSON.stringify(event);
+    const headers = new Headers({ [FAKE_SIGNATURE_HEADER]: await signFakeWebhook(body, SECRET) });
+    const verified = await provider.verifyWebhook(body, headers);
+    return provider.normalizeEvent(verified!);
+  }));
+}
+
+const kinds = (events: PaymentEvent[]) => events.map((event) => event.kind);
+
+describe("FakePaymentProvider", () => {
+  it("completes a card checkout at once with the discounted amount", async () => {
+    const session = await provider.createCheckoutSession(checkoutParams("pat@example.com"));
+    expect(session.id).toMatch(/^fake_cs_/);
+    expect(session.url).toBe("https://app.test/enroll/token?status=success");
+
+    const [completed] = await deliver(fakeEventsFor(session.id, "checkout"));
+    expect(completed).toMatchObject({
+      kind: "checkout_completed",
+      enrollmentId: ENROLLMENT_ID,
+      sessionId: session.id,
+      amountCents: 540000,
+      methodType: "card",
+      settled: true,
+      refunds: [],
+    });
+    expect(completed.paymentIntentId).toMatch(/^fake_pi_/);
+    expect(fakeEventsFor(session.id, "settlement")).toEqual([]);
+
+    const status = await provider.getPaymentStatus(completed.paymentIntentId!);
+    expect(status).toEqual({ status: "succeeded", amountReceivedCents: 540000, currency: "usd" });
+  });
+
+  it("fails a declined card at checkout and sends the patient back", async () => {
+    const session = await provider.createCheckoutSession(checkoutParams("pat+declined@example.com"));
+    expect(session.url).toBe("https://app.test/enroll/token?status=canceled");
+
+    const events = await deliver(fakeEventsFor(session.id, "checkout"));
+    expect(kinds(events)).toEqual(["payment_failed"]);
+    expect(events[0].failureCode).toBe("card_declined");
+    expect((await provider.getPaymentStatus(events[0].paymentIntentId!)).status).toBe("requires_payment_method");
+  });
+
+  it("leaves ACH processing at checkout and settles it later", async () => {
+    const session = await provider.createCheckoutSession(checkoutParams("pat+ach@example.com"));
+
+    const [completed] = await deliver(fakeEventsFor(session.id, "checkout"));
+    expect(completed).toMatchObject({ kind: "checkout_completed", methodType: "ach", settled: false });
+
+    const settlement = await deliver(fakeEventsFor(session.id, "settlement"));
+    expect(kinds(settlement)).toEqual(["payment_succeeded"]);
+    expect(settlement[0].paymentIntentId).toBe(completed.paymentIntentId);
+  });
+
+  it("fails an ACH payment at settlement", async () => {
+    const session = await provider.createCheckoutSession(checkoutParams("pat+ach_failed@example.com"));
+
+    expect(kinds(await deliver(fakeEventsFor(session.id, "checkout")))).toEqual(["checkout_completed"]);
+    const settlement = await deliver(fakeEventsFor(session.id, "settlement"));
+    expect(kinds(settlement)).toEqual(["payment_failed"]);
+    expect(settlement[0]).toMatchObject({ methodType: "ach", failureCode: "insufficient_funds" });
+  });
+
+  it("reports a returned ACH payment after it settled", async () => {
+    const session = await provider.createCheckoutSession(checkoutParams("pat+ach_returned@example.com"));
+
+    const settlement = await deliver(fakeEventsFor(session.id, "settlement"));
+    expect(kinds(settlement)).toEqual(["payment_succeeded", "charge_failed"]);
+    expect(settlement[1].failureCode).toBe("account_closed");
+  });
+
+  it("totals refunds and marks the charge fully refunded once they cover it", async () => {
+    const session = await provider.createCheckoutSession(checkoutParams("pat@example.com"));
+    const [completed] = fakeEventsFor(session.id, "checkout");
+    const refund = (key: string, amountCents: number) => provider.createRefund({
+      paymentIntentId: completed.paymentIntentId!,
+      amountCents,
+      reason: "requested_by_customer",
+      idempotencyKey: key,
+      metadata: {},
+    });
+
+    const first = await refund("refund-1", 40000);
+    expect(first).toMatchObject({ amountCents: 40000, currency: "usd", status: "succeeded" });
+    expect((await refund("refund-1", 40000)).id).toBe(first.id);
+
+    const [partial] = await deliver(fakeEventsFor(session.id, "refund", [first]));
+    expect(partial).toMatchObject({ kind: "charge_refunded", amountRefundedCents: 40000, fullyRefunded: false });
+
+    const second = await refund("refund-2", 500000);
+    const [full] = await deliver(fakeEventsFor(session.id, "refund", [first, second]));
+    expect(full).toMatchObject({ amountRefundedCents: 540000, fullyRefunded: true });
+    expect(full.refunds.map((r) => r.id)).toEqual([first.id, second.id]);
+    expect(full.id).not.toBe(partial.id);
+  });
+
+  it("expires an unpaid checkout", async () => {
+    const session = await provider.createCheckoutSession(checkoutParams("pat@example.com"));
+    expect(kinds(await deliver(fakeEventsFor(session.id, "expire")))).toEqual(["checkout_expired"]);
+  });
+
+  it("charges a saved payment method with the deposit's scenario", async () => {
+    const charge = (paymentMethodId: string, methodType: "card" | "ach" = "card") => provider.chargeSavedPaymentMethod({
+      customerId: "fake_cus_1",
+      paymentMethodId,
+      methodType,
+      amountCents: 100000,
+      currency: "usd",
+      description: "Installment 2",
+      metadata: { enrollment_id: ENROLLMENT_ID },
+      idempotencyKey: `installment-${paymentMethodId}-attempt-1`,
+    });
+
+    expect((await charge("fake_pm_card")).status).toBe("succeeded");
+    expect((await charge("fake_pm_ach", "ach")).status).toBe("processing");
+    expect(await charge("fake_pm_card_declined")).toMatchObject({ status: "failed", failureMessage: "Your card was declined." });
+  });
+
+  it("rejects a webhook signed with another secret", async () => {
+    const session = await provider.createCheckoutSession(checkoutParams("pat@example.com"));
+    const body = JSON.stringify(fakeEventsFor(session.id, "checkout")[0]);
+    const headers = new Headers({ [FAKE_SIGNATURE_HEADER]: await signFakeWebhook(body, "other-secret") });
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(await provider.verifyWebhook(body, headers)).toBeNull();
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,308 @@
+import {
+  emptyPaymentEvent,
+  type BalanceTransaction,
+  type ChargeSavedPaymentMethodParams,
+  type CheckoutSession,
+  type CreateCheckoutSessionParams,
+  type CreateRefundParams,
+  type DisputeEvidenceFile,
+  type OffSessionPayment,
+  type PaymentDetails,
+  type PaymentEvent,
+  type PaymentProvider,
+  type PaymentRefund,
+  type PaymentStatus,
+  type Payout,
+  type UpdateDisputeEvidenceParams,
+} from "./payment-provider.ts";
+
+// In-repo provider for local development. Nothing is stored and nothing leaves
+// the machine: the session ID encodes the enrollment, amount and outcome, so the
+// same checkout always produces the same payment, events and IDs.
+//
+// The outcome is picked from the patient's email, like Stripe's test cards:
+//   name@example.com              card, paid at checkout
+//   name+declined@example.com     card declined at checkout
+//   name+ach@example.com          ACH, processing at checkout, settles later
+//   name+ach_failed@example.com   ACH, processing at checkout, fails later
+//   name+ach_returned@example.com ACH, settles and is then returned by the bank
+//
+// Installments are charged with the scenario of the deposit's payment method.
+// There is no balance to reconcile, so reconciliation finds no charges or payouts.
+//
+// Events are delivered by the simulate-fake-payment function, signed with
+// FAKE_PAYMENT_WEBHOOK_SECRET in the x-fake-signature header.
+
+export type FakeScenario = "card" | "card_declined" | "ach" | "ach_failed" | "ach_returned";
+
+// checkout: what the patient sees on returning from the payment page
+// settlement: the bank's answer days later (ACH only)
+export type FakeStage = "checkout" | "settlement" | "expire" | "refund";
+
+interface FakeSession {
+  enrollmentId: string;
+  amountCents: number;
+  currency: string;
+  scenario: FakeScenario;
+  createdAt: number; // Seconds, so a new checkout for the same enrollment gets new IDs
+}
+
+const emailScenarios: Record<string, FakeScenario> = {
+  declined: "card_declined",
+  ach: "ach",
+  ach_failed: "ach_failed",
+  ach_returned: "ach_returned",
+};
+
+export const FAKE_SIGNATURE_HEADER = "x-fake-signature";
+
+function encodeSession(session: FakeSession): string {
+  return btoa(JSON.stringify([session.enrollmentId, session.amountCents, session.currency, session.scenario, session.createdAt]))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+// Accepts any of the IDs derived from a session (fake_cs_, fake_pi_, fake_ch_)
+function decodeSession(id: string): FakeSession | null {
+  const token = id.match(/^fake_(?:cs|pi|ch)_([A-Za-z0-9_-]+)$/)?.[1];
+  if (!token) return null;
+  try {
+    const [enrollmentId, amountCents, currency, scenario, createdAt] = JSON.parse(
+      atob(token.replace(/-/g, "+").replace(/_/g, "/")),
+    );
+    return { enrollmentId, amountCents, currency, scenario, createdAt };
+  } catch {
+    return null;
+  }
+}
+
+const isAch = (scenario: FakeScenario) => scenario.startsWith("ach");
+
+async function hmacHex(secret: string, data: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(data));
+  return Array.from(new Uint8Array(signature), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export function signFakeWebhook(body: string, secret: string): Promise<string> {
+  return hmacHex(secret, body);
+}
+
+// The events a real processor would send for this session at the given stage, in order.
+// Refund events need the refunds issued so far, as recorded by refund-enrollment.
+export function fakeEventsFor(sessionId: string, stage: FakeStage, refunds: PaymentRefund[] = []): PaymentEvent[] {
+  const session = decodeSession(sessionId);
+  if (!session || !sessionId.startsWith("fake_cs_")) {
+    throw new Error(`Not a fake checkout session: ${sessionId}`);
+  }
+
+  const token = sessionId.slice("fake_cs_".length);
+  const event = (kind: NonNullable<PaymentEvent["kind"]>, overrides: Partial<PaymentEvent> = {}): PaymentEvent => ({
+    ...emptyPaymentEvent(`fake_evt_${kind}_${token}`, `fake.${kind}`),
+    kind,
+    enrollmentId: session.enrollmentId,
+    sessionId,
+    paymentIntentId: `fake_pi_${token}`,
+    chargeId: `fake_ch_${token}`,
+    amountCents: session.amountCents,
+    methodType: isAch(session.scenario) ? "ach" : "card",
+    ...overrides,
+  });
+
+  switch (stage) {
+    case "checkout":
+      if (session.scenario === "card_declined") {
+        return [event("payment_failed", { failureCode: "card_declined", failureMessage: "Your card was declined." })];
+      }
+      return [event("checkout_completed", { settled: !isAch(session.scenario) })];
+
+    case "settlement":
+      switch (session.scenario) {
+        case "ach":
+          return [event("payment_succeeded")];
+        case "ach_failed":
+          return [event("payment_failed", {
+            failureCode: "insufficient_funds",
+            failureMessage: "The customer's account has insufficient funds to cover this payment.",
+          })];
+        case "ach_returned":
+          return [
+            event("payment_succeeded"),
+            event("charge_failed", {
+              failureCode: "account_closed",
+              failureMessage: "The customer's bank account has been closed.",
+            }),
+          ];
+        default:
+          return []; // Cards settle at checkout
+      }
+
+    case "expire":
+      return [event("checkout_expired")];
+
+    case "refund": {
+      const amountRefundedCents = refunds.reduce((sum, refund) => sum + refund.amountCents, 0);
+      // Each refund total is a distinct charge.refunded event, by which point every refund has gone through
+      return [event("charge_refunded", {
+        id: `fake_evt_charge_refunded_${amountRefundedCents}_${token}`,
+        refunds: refunds.map((refund) => ({ ...refund, status: "succeeded" })),
+        amountRefundedCents,
+        fullyRefunded: amountRefundedCents >= session.amountCents,
+      })];
+    }
+  }
+}
+
+export class FakePaymentProvider implements PaymentProvider<PaymentEvent> {
+  readonly name = "fake";
+
+  constructor(private webhookSecret: string | undefined) {}
+
+  createCheckoutSession(params: CreateCheckoutSessionParams): Promise<CheckoutSession> {
+    const tag = params.customer.email?.match(/\+([a-z_]+)@/i)?.[1]?.toLowerCase();
+    const session: FakeSession = {
+      enrollmentId: params.enrollmentId,
+      amountCents: params.lineItems.reduce((sum, item) => sum + item.unit_amount_cents * item.quantity, 0) -
+        (params.discount?.amountCents ?? 0),
+      currency: params.currency,
+      scenario: (tag && emailScenarios[tag]) || "card",
+      createdAt: Math.floor(Date.now() / 1000),
+    };
+
+    // There is no hosted page - the patient goes straight back to the enrollment,
+    // or to the cancel page when the card is declined
+    return Promise.resolve({
+      id: `fake_cs_${encodeSession(session)}`,
+      url: session.scenario === "card_declined" ? params.cancelUrl : params.successUrl,
+      customerId: params.savePaymentMethod || params.customer.email
+        ? `fake_cus_${params.enrollmentId.replace(/-/g, "")}`
+        : null,
+    });
+  }
+
+  // Fake sessions have no hosted page to close
+  expireCheckoutSession(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  async verifyWebhook(body: string, headers: Headers): Promise<PaymentEvent | null> {
+    if (!this.webhookSecret) {
+      throw new Error("FAKE_PAYMENT_WEBHOOK_SECRET not configured");
+    }
+
+    const signature = headers.get(FAKE_SIGNATURE_HEADER);
+    if (!signature || signature !== await hmacHex(this.webhookSecret, body)) {
+      console.error("Fake webhook signature verification failed");
+      return null;
+    }
+
+    return JSON.parse(body) as PaymentEvent;
+  }
+
+  // Fake events are sent already normalized
+  normalizeEvent(event: PaymentEvent): Promise<PaymentEvent> {
+    return Promise.resolve({ ...emptyPaymentEvent(event.id, event.type), ...event });
+  }
+
+  async createRefund(params: CreateRefundParams): Promise<PaymentRefund> {
+    const session = decodeSession(params.paymentIntentId);
+    if (!session) {
+      throw new Error(`Not a fake payment: ${params.paymentIntentId}`);
+    }
+
+    // Same idempotency key, same refund
+    const id = (await hmacHex("fake-refund", params.idempotencyKey)).slice(0, 24);
+    return {
+      id: `fake_re_${id}`,
+      amountCents: params.amountCents,
+      currency: session.currency,
+      reason: params.reason,
+      status: isAch(session.scenario) ? "pending" : "succeeded",
+    };
+  }
+
+  async chargeSavedPaymentMethod(params: ChargeSavedPaymentMethodParams): Promise<OffSessionPayment> {
+    const scenario = params.paymentMethodId.replace(/^fake_pm_/, "") as FakeScenario;
+    // Same idempotency key, same payment
+    const createdAt = parseInt((await hmacHex("fake-charge", params.idempotencyKey)).slice(0, 8), 16);
+    const id = `fake_pi_${encodeSession({
+      enrollmentId: params.metadata.enrollment_id,
+      amountCents: params.amountCents,
+      currency: params.currency,
+      scenario,
+      createdAt,
+    })}`;
+
+    if (scenario === "card_declined") {
+      return { id, status: "failed", failureMessage: "Your card was declined." };
+    }
+    return { id, status: isAch(scenario) ? "processing" : "succeeded", failureMessage: null };
+  }
+
+  async uploadDisputeFile(file: DisputeEvidenceFile): Promise<string> {
+    return `fake_file_${(await hmacHex("fake-file", file.name)).slice(0, 24)}`;
+  }
+
+  updateDisputeEvidence(params: UpdateDisputeEvidenceParams): Promise<string> {
+    return Promise.resolve(params.submit ? "under_review" : "needs_response");
+  }
+
+  async *listBalanceTransactions(): AsyncIterable<BalanceTransaction> {}
+
+  async *listPayouts(): AsyncIterable<Payout> {}
+
+  findCheckoutSessionId(paymentIntentId: string): Promise<string | null> {
+    return Promise.resolve(paymentIntentId.startsWith("fake_pi_") ? paymentIntentId.replace(/^fake_pi_/, "fake_cs_") : null);
+  }
+
+  getPaymentStatus(paymentIntentId: string): Promise<PaymentStatus> {
+    const session = decodeSession(paymentIntentId);
+    if (!session) {
+      return Promise.reject(new Error(`Not a fake payment: ${paymentIntentId}`));
+    }
+
+    const collected = session.scenario === "card" || session.scenario === "ach" || session.scenario === "ach_returned";
+    return Promise.resolve({
+      status: collected ? "succeeded" : "requires_payment_method",
+      amountReceivedCents: collected ? session.amountCents : 0,
+      currency: session.currency,
+    });
+  }
+
+  getPaymentDetails(paymentIntentId: string): Promise<PaymentDetails> {
+    const session = decodeSession(paymentIntentId);
+    if (!session) {
+      return Promise.reject(new Error(`Not a fake payment: ${paymentIntentId}`));
+    }
+
+    // Stripe's standard US pricing: 2.9% + 30c for cards, 0.8% capped at $5 for ACH
+    const ach = isAch(session.scenario);
+    const feeCents = ach
+      ? Math.min(Math.round(session.amountCents * 0.008), 500)
+      : Math.round(session.amountCents * 0.029) + 30;
+    return Promise.resolve({
+      methodType: ach ? "ach" : "card",
+      paymentMethodId: `fake_pm_${session.scenario}`,
+      chargeId: paymentIntentId.replace(/^fake_(?:cs|pi)_/, "fake_ch_"),
+      cardBrand: ach ? null : "visa",
+      bankName: ach ? "FAKE TEST BANK" : null,
+      last4: ach ? "6789" : "4242",
+      grossCents: session.amountCents,
+      feeCents,
+      netCents: session.amountCents - feeCents,
+      receiptUrl: null,
+      riskLevel: ach ? "not_assessed" : "normal",
+      billingName: null,
+      billingEmail: null,
+      billingPhone: null,
+      billingAddress: null,
+    });
+  }
+}
@@ -0,0 +1,171 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.57.2";
+
+// One requested line item. Catalog items are referenced by product_id (dashboard)
+// or sku (Zoho); custom items carry their own name and unit price.
+export interface LineItemInput {
+  product_id?: string;
+  sku?: string;
+  name?: string;
+  description?: string;
+  unit_amount_cents?: number;
+  quantity?: number;
+}
+
+export interface LineItem {
+  product_id: string | null;
+  name: string;
+  description: string | null;
+  unit_amount_cents: number;
+  quantity: number;
+  amount_cents: number;
+}
+
+interface CatalogProduct {
+  id: string;
+  name: string;
+  description: string | null;
+  sku: string | null;
+  unit_amount_cents: number;
+  currency: string;
+}
+
+export const MAX_LINE_ITEMS = 20;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function lineItemsTotal(items: Pick<LineItem, "amount_cents">[]): number {
+  return items.reduce((sum, item) => sum + item.amount_cents, 0);
+}
+
+// Validate the request and price each item from the catalog. Returns an error
+// message instead of items when anything is missing, inactive or malformed.
+export async function resolveLineItems(
+  supabase: SupabaseClient,
+  input: unknown,
+  currency: string,
+): Promise<{ items: LineItem[]; error: string | null }> {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { items: [], error: "line_items must be a non-empty list" };
+  }
+  if (input.length > MAX_LINE_ITEMS) {
+    return { items: [], error: `An enrollment can have at most ${MAX_LINE_ITEMS} line items` };
+  }
+
+  const requested = input as LineItemInput[];
+  const productIds = requested.map((i) => i?.product_id).filter((id): id is string => !!id);
+  const skus = requested.map((i) => i?.sku).filter((sku): sku is string => !!sku);
+
+  const invalidId = productIds.find((id) => !UUID_PATTERN.test(id));
+  if (invalidId) {
+    return { items: [], error: `Invalid product_id: ${invalidId}` };
+  }
+
+  const products = new Map<string, CatalogProduct>();
+  const lookups = [
+    productIds.length > 0 && { column: "id", values: productIds },
+    skus.length > 0 && { column: "sku", values: skus },
+  ].filter((lookup): lookup is { column: string; values: string[] } => !!lookup);
+
+  for (const lookup of lookups) {
+    const { data, error } = await supabase
+      .from("products")
+      .select("id, name, description, sku, unit_amount_cents, currency")
+      .eq("is_active", true)
+      .in(lookup.column, lookup.values);
+
+    if (error) {
+      console.error("Failed to load products:", error);
+      return { items: [], error: "Failed to load products" };
+    }
+    for (const product of (data || []) as CatalogProduct[]) {
+      products.set(product.id, product);
+      if (product.sku) products.set(`sku:${product.sku}`, product);
+    }
+  }
+
+  const items: LineItem[] = [];
+  for (let i = 0; i < requested.length; i++) {
+    const entry = requested[i];
+    const quantity = entry?.quantity ?? 1;
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      return { items: [], error: `Line item ${i + 1} must have a positive whole quantity` };
+    }
+
+    if (entry.product_id || entry.sku) {
+      const product = entry.product_id ? products.get(entry.product_id) : products.get(`sku:${entry.sku}`);
+      if (!product) {
+        return { items: [], error: `Line item ${i + 1}: product ${entry.product_id || entry.sku} not found or inactive` };
+      }
+      if (product.currency !== currency) {
+        return { items: [], error: `Line item ${i + 1}: ${product.name} is priced in ${product.currency.toUpperCase()}` };
+      }
+      items.push({
+        product_id: product.id,
+        name: product.name,
+        description: product.description,
+        unit_amount_cents: product.unit_amount_cents,
+        quantity,
+        amount_cents: product.unit_amount_cents * quantity,
+      });
+      continue;
+    }
+
+    if (!entry?.name?.trim()) {
+      return { items: [], error: `Line item ${i + 1} needs a product_id, sku or name` };
+    }
+    if (!Number.isInteger(entry.unit_amount_cents) || entry.unit_amount_cents! <= 0) {
+      return { items: [], error: `Line item ${i + 1} must have a positive whole unit_amount_cents` };
+    }
+    items.push({
+      product_id: null,
+      name: entry.name.trim(),
+      description: entry.description?.trim() || null,
+      unit_amount_cents: entry.unit_amount_cents!,
+      quantity,
+      amount_cents: entry.unit_amount_cents! * quantity,
+    });
+  }
+
+  return { items, error: null };
+}
+
+// Replace the enrollment's line items with a fresh snapshot
+export async function saveLineItems(
+  supabase: SupabaseClient,
+  enrollmentId: string,
+  items: LineItem[],
+): Promise<{ error: string | null }> {
+  const { error: deleteError } = await supabase
+    .from("enrollment_line_items")
+    .delete()
+    .eq("enrollment_id", enrollmentId);
+
+  if (deleteError) return { error: deleteError.message };
+
+  const { error } = await supabase.from("enrollment_line_items").insert(
+    items.map((item, index) => ({
+      enrollment_id: enrollmentId,
+      position: index + 1,
+      ...item,
+    })),
+  );
+
+  return { error: error?.message ?? null };
+}
+
+export async function loadLineItems(
+  supabase: SupabaseClient,
+  enrollmentId: string,
+): Promise<LineItem[]> {
+  const { data, error } = await supabase
+    .from("enrollment_line_items")
+    .select("product_id, name, description, unit_amount_cents, quantity, amount_cents")
+    .eq("enrollment_id", enrollmentId)
+    .order("position", { ascending: true });
+
+  if (error) {
+    console.error("Failed to load line items:", error);
+    return [];
+  }
+  return (data || []) as LineItem[];
+}
@@ -0,0 +1,165 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.57.2";
+import type { PaymentDetails } from "./payment-provider.ts";
+
+// Where a patient field's current value came from. A source only overwrites
+// fields set by a source of the same or lower rank, so a coordinator's edit is
+// never replaced by what a payer typed at checkout, and what the payer typed is
+// never replaced by stale CRM data on the next enrollment.
+export type PatientFieldSource = "enrollment" | "stripe_checkout" | "admin";
+
+const sourceRank: Record<PatientFieldSource, number> = {
+  enrollment: 0,
+  stripe_checkout: 1,
+  admin: 2,
+};
+
+export interface PatientFieldProvenance {
+  source: PatientFieldSource;
+  updated_at: string;
+  enrollment_id?: string | null;
+  previous?: string | null;
+}
+
+export type PatientFieldSources = Record<string, PatientFieldProvenance>;
+
+export type PatientContactField =
+  | "name"
+  | "email"
+  | "phone"
+  | "address_line1"
+  | "address_line2"
+  | "city"
+  | "state"
+  | "postal_code"
+  | "country";
+
+export const PATIENT_ADDRESS_FIELDS: PatientContactField[] = [
+  "address_line1",
+  "address_line2",
+  "city",
+  "state",
+  "postal_code",
+  "country",
+];
+
+type PatientContact = Record<PatientContactField, string | null> & {
+  id: string;
+  field_sources: PatientFieldSources | null;
+};
+
+// Whether a source may overwrite a field given where its value came from.
+// Fields with no recorded provenance predate tracking and are open to anyone.
+export function canOverwrite(
+  sources: PatientFieldSources | null,
+  field: string,
+  source: PatientFieldSource,
+): boolean {
+  const current = sources?.[field];
+  return !current || sourceRank[source] >= sourceRank[current.source];
+}
+
+// The subset of updates the source may apply, plus the provenance entries for
+// the fields that actually change
+export function withProvenance(
+  current: { field_sources: PatientFieldSources | null; [field: string]: unknown },
+  updates: Partial<Record<string, string | null>>,
+  source: PatientFieldSource,
+  enrollmentId: string | null,
+): { updates: Record<string, string | null>; field_sources: PatientFieldSources } {
+  const now = new Date().toISOString();
+  const applied: Record<string, string | null> = {};
+  const fieldSources: PatientFieldSources = { ...(current.field_sources ?? {}) };
+
+  for (const [field, value] of Object.entries(updates)) {
+    const previous = (current[field] as string | null | undefined) ?? null;
+    if (value === undefined || value === previous) continue;
+    if (!canOverwrite(current.field_sources, field, source)) continue;
+    applied[field] = value;
+    fieldSources[field] = {
+      source,
+      updated_at: now,
+      enrollment_id: enrollmentId,
+      previous,
+    };
+  }
+
+  return { updates: applied, field_sources: fieldSources };
+}
+
+const clean = (value: string | null | undefined) => value?.trim() || null;
+
+// Fill the patient record from the billing contact collected at checkout:
+// the mailing address, plus the name, email and phone when the payer corrected
+// them. The address moves as one unit so a new address never keeps the old
+// line 2. Returns the fields that changed.
+export async function syncPatientFromPayment(
+  supabase: SupabaseClient,
+  patientId: string,
+  enrollmentId: string,
+  details: PaymentDetails,
+): Promise<PatientContactField[]> {
+  const { data: patient, error } = await supabase
+    .from("patients")
+    .select("id, name, email, phone, address_line1, address_line2, city, state, postal_code, country, field_sources")
+    .eq("id", patientId)
+    .maybeSingle();
+
+  if (error || !patient) {
+    console.error(`Failed to load patient ${patientId}:`, error);
+    return [];
+  }
+  const current = patient as unknown as PatientContact;
+
+  const candidates: Partial<Record<PatientContactField, string | null>> = {};
+  const name = clean(details.billingName);
+  if (name) candidates.name = name;
+
+  const address = details.billingAddress;
+  if (
+    clean(address?.line1) &&
+    PATIENT_ADDRESS_FIELDS.every((field) => canOverwrite(current.field_sources, field, "stripe_checkout"))
+  ) {
+    candidates.address_line1 = clean(address?.line1);
+    candidates.address_line2 = clean(address?.line2);
+    candidates.city = clean(address?.city);
+    candidates.state = clean(address?.state);
+    candidates.postal_code = clean(address?.postal_code);
+    candidates.country = clean(address?.country);
+  }
+
+  // Email and phone identify the patient, so a value that already belongs to
+  // someone else is left for a coordinator to sort out
+  const email = clean(details.billingEmail)?.toLowerCase() ?? null;
+  const phone = clean(details.billingPhone);
+  for (const [field, value] of [["email", email], ["phone", phone]] as const) {
+    if (!value || value === current[field]) continue;
+    const { data: owner } = await supabase
+      .from("patients")
+      .select("id")
+      .eq(field, value)
+      .neq("id", patientId)
+      .maybeSingle();
+    if (owner) {
+      console.log(`Not updating ${field} of patient ${patientId}: already used by patient ${owner.id}`);
+      continue;
+    }
+    candidates[field] = value;
+  }
+
+  const { updates, field_sources } = withProvenance(current, candidates, "stripe_checkout", enrollmentId);
+  const changed = Object.keys(updates) as PatientContactField[];
+  if (changed.length === 0) return [];
+
+  const { error: updateError } = await supabase
+    .from("patients")
+    .update({ ...updates, field_sources })
+    .eq("id", patientId);
+
+  if (updateError) {
+    console.error(`Failed to update patient ${patientId} from checkout:`, updateError);
+    return [];
+  }
+
+  console.log(`Updated patient ${patientId} from checkout: ${changed.join(", ")}`);
+  return changed;
+}
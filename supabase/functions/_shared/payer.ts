@@ -0,0 +1,95 @@
+// Third-party payers: a partner or family member who pays for the patient.
+// The patient still signs the medical consent on their own link; once they
+// have, the payer gets a separate link where they acknowledge the payment
+// and pay. Receipts and payment issue emails go to the payer.
+
+export interface PayerInput {
+  payer_name?: string | null;
+  payer_email?: string | null;
+  payer_phone?: string | null;
+  payer_relationship?: string | null; // e.g. "Spouse", "Parent"
+}
+
+interface PayerEnrollment {
+  payer_name: string | null;
+  payer_email: string | null;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function validatePayer(input: PayerInput): string | null {
+  const given = [input.payer_name, input.payer_email, input.payer_phone, input.payer_relationship]
+    .some((value) => value?.trim());
+  if (!given) return null;
+
+  if (!input.payer_name?.trim()) {
+    return "payer_name is required when a payer is given";
+  }
+  if (!input.payer_email?.trim() || !EMAIL_PATTERN.test(input.payer_email.trim())) {
+    return "A valid payer_email is required when a payer is given";
+  }
+  return null;
+}
+
+// Enrollment columns for the payer, all null when the patient pays
+export function payerFields(input: PayerInput) {
+  const hasPayer = !!input.payer_email?.trim();
+  return {
+    payer_name: hasPayer ? input.payer_name!.trim() : null,
+    payer_email: hasPayer ? input.payer_email!.trim().toLowerCase() : null,
+    payer_phone: hasPayer ? input.payer_phone?.trim() || null : null,
+    payer_relationship: hasPayer ? input.payer_relationship?.trim() || null : null,
+  };
+}
+
+// Columns cleared whenever the link is regenerated, so the payer acknowledges again
+export const payerLinkResetFields = {
+  payer_token_hash: null,
+  payer_token_last4: null,
+  payer_link_sent_at: null,
+  payer_acknowledged_at: null,
+  payer_acknowledge_ip: null,
+  payer_acknowledge_user_agent: null,
+  payer_acknowledgement_text: null,
+  payer_signature_data: null,
+};
+
+export const hasThirdPartyPayer = (enrollment: PayerEnrollment) => !!enrollment.payer_email;
+
+// Whether the link was the payer's. A retry link after a failed payment is
+// sent to whoever pays, so it is the payer's when there is one.
+export const isPayerLink = (
+  enrollment: PayerEnrollment & { payer_token_hash: string | null; retry_token_hash: string | null },
+  tokenHash: string,
+) => enrollment.payer_token_hash === tokenHash ||
+  (enrollment.retry_token_hash === tokenHash && hasThirdPartyPayer(enrollment));
+
+// Who receives receipts and payment issue emails
+export function paymentContact(
+  enrollment: PayerEnrollment & { patient_name: string | null; patient_email: string | null },
+): { name: string; email: string | null } {
+  return hasThirdPartyPayer(enrollment)
+    ? { name: enrollment.payer_name || "Valued Customer", email: enrollment.payer_email }
+    : { name: enrollment.patient_name || "Valued Patient", email: enrollment.patient_email };
+}
+
+// What the payer agrees to. The exact text is stored with their acknowledgement
+// and printed on the consent PDF.
+export function payerAcknowledgementText(
+  enrollment: PayerEnrollment & { patient_name: string | null; amount_cents: number; currency: string | null },
+  isPlan: boolean,
+): string {
+  const amount = new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: (enrollment.currency || "usd").toUpperCase(),
+  }).format(enrollment.amount_cents / 100);
+
+  return [
+    `I, ${enrollment.payer_name}, authorize Himplant to charge my payment method ${amount} for the enrollment of ${enrollment.patient_name || "the patient"}.`,
+    isPlan
+      ? "I also authorize the remaining installments of the payment plan to be charged to the same payment method on their due dates."
+      : null,
+    "I understand that I am paying on the patient's behalf and am not the patient. The medical consent is signed by the patient, and I have no access to their medical information.",
+    "Refunds, if any, are returned to the payment method I use today.",
+  ].filter(Boolean).join(" ");
+}
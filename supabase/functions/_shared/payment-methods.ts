@@ -0,0 +1,111 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.57.2";
+import type { PaymentMethodType } from "./payment-provider.ts";
+
+// What an enrollment lets the patient pay with. Wallets (Apple Pay, Google Pay)
+// are card payments, so they need "card" as well and carry the card adjustment.
+export type AllowedPaymentMethod = "card" | "ach" | "wallet";
+
+export const ALLOWED_PAYMENT_METHODS: AllowedPaymentMethod[] = ["card", "ach", "wallet"];
+
+export interface PaymentMethodRule {
+  id: string;
+  name: string; // Shown to the patient as the line item label
+  payment_method: PaymentMethodType;
+  adjustment_type: "surcharge" | "discount";
+  percent_bps: number; // 300 = 3%
+  fixed_cents: number;
+  min_amount_cents: number | null;
+  max_amount_cents: number | null;
+}
+
+// Signed: positive for a surcharge, negative for a discount
+export interface PaymentAdjustment {
+  label: string;
+  amount_cents: number;
+}
+
+export interface PaymentOption {
+  method: PaymentMethodType;
+  adjustment: PaymentAdjustment | null;
+  total_cents: number;
+  recommended: boolean;
+}
+
+export function validateAllowedPaymentMethods(value: unknown): string | null {
+  if (!Array.isArray(value) || value.length === 0) {
+    return "allowed_payment_methods must be a non-empty array";
+  }
+  for (const method of value) {
+    if (!ALLOWED_PAYMENT_METHODS.includes(method)) {
+      return `Invalid payment method '${method}'. Must be one of: ${ALLOWED_PAYMENT_METHODS.join(", ")}`;
+    }
+  }
+  if (value.includes("wallet") && !value.includes("card")) {
+    return "Wallets are card payments, so 'wallet' requires 'card'";
+  }
+  return null;
+}
+
+// Stripe payment method types for what the enrollment allows
+export function paymentMethodTypesFor(allowed: string[]): PaymentMethodType[] {
+  return (["card", "ach"] as PaymentMethodType[]).filter((method) => allowed.includes(method));
+}
+
+export async function loadPaymentMethodRules(supabase: SupabaseClient): Promise<PaymentMethodRule[]> {
+  const { data, error } = await supabase
+    .from("payment_method_rules")
+    .select("id, name, payment_method, adjustment_type, percent_bps, fixed_cents, min_amount_cents, max_amount_cents")
+    .eq("is_active", true)
+    .order("sort_order", { ascending: true });
+
+  if (error) {
+    console.error("Failed to load payment method rules:", error);
+    return [];
+  }
+  return (data || []) as PaymentMethodRule[];
+}
+
+// The first active rule for the method whose amount range covers the charge
+export function adjustmentFor(
+  rules: PaymentMethodRule[],
+  method: PaymentMethodType,
+  chargeCents: number,
+): PaymentAdjustment | null {
+  const rule = rules.find((r) =>
+    r.payment_method === method &&
+    (r.min_amount_cents === null || chargeCents >= r.min_amount_cents) &&
+    (r.max_amount_cents === null || chargeCents <= r.max_amount_cents)
+  );
+  if (!rule) return null;
+
+  const cents = Math.round((chargeCents * rule.percent_bps) / 10000) + rule.fixed_cents;
+  // A discount never takes the charge below Stripe's 50 cent minimum
+  const amountCents = rule.adjustment_type === "discount" ? -Math.min(cents, chargeCents - 50) : cents;
+  if (amountCents === 0) return null;
+
+  return { label: rule.name, amount_cents: amountCents };
+}
+
+// Each method the patient can choose with its price. The cheapest is
+// recommended, and card wins a tie because it settles immediately.
+export function paymentOptionsFor(
+  allowed: string[],
+  rules: PaymentMethodRule[],
+  chargeCents: number,
+): PaymentOption[] {
+  const options = paymentMethodTypesFor(allowed).map((method) => {
+    const adjustment = adjustmentFor(rules, method, chargeCents);
+    return {
+      method,
+      adjustment,
+      total_cents: chargeCents + (adjustment?.amount_cents ?? 0),
+      recommended: false,
+    };
+  });
+
+  if (options.length > 1) {
+    const cheapest = options.reduce((best, option) => option.total_cents < best.total_cents ? option : best);
+    cheapest.recommended = true;
+  }
+  return options;
+}
@@ -0,0 +1,318 @@
+import { StripePaymentProvider } from "./stripe-payment-provider.ts";
+import { FakePaymentProvider } from "./fake-payment-provider.ts";
+
+// Everything the enrollment flow needs from a payment processor. Handlers work
+// with the normalized types below so they never touch provider SDK objects.
+// IDs are stored in the stripe_* columns whichever provider issued them.
+
+export type PaymentMethodType = "card" | "ach";
+
+export interface CheckoutLineItem {
+  name: string;
+  description?: string | null;
+  unit_amount_cents: number;
+  quantity: number;
+}
+
+export interface PaymentCustomer {
+  email: string | null;
+  name: string | null;
+  phone: string | null;
+  metadata: Record<string, string>;
+}
+
+// A discount shown as its own line on the checkout page
+export interface CheckoutDiscount {
+  name: string;
+  amountCents: number;
+}
+
+export interface CreateCheckoutSessionParams {
+  enrollmentId: string;
+  currency: string;
+  lineItems: CheckoutLineItem[];
+  discount?: CheckoutDiscount | null;
+  paymentMethodTypes: PaymentMethodType[];
+  // Apple Pay and Google Pay alongside card; the enrollment can switch them off
+  allowWallets: boolean;
+  customer: PaymentCustomer;
+  // Payment plans keep the payment method on file for off-session installments
+  savePaymentMethod: boolean;
+  successUrl: string;
+  cancelUrl: string;
+  expiresAt: Date;
+  metadata: Record<string, string>; // Copied onto the session and its payment
+  idempotencyKey: string; // One per checkout attempt, so a retried provider call returns the same session
+}
+
+export interface CheckoutSession {
+  id: string;
+  url: string;
+  customerId: string | null;
+}
+
+// A payment the patient confirms in the embedded form on the enrollment page
+export interface CreatePaymentIntentParams {
+  enrollmentId: string;
+  currency: string;
+  amountCents: number;
+  description: string;
+  paymentMethodTypes: PaymentMethodType[];
+  customer: PaymentCustomer;
+  savePaymentMethod: boolean;
+  metadata: Record<string, string>;
+  idempotencyKey: string;
+}
+
+export interface PaymentIntentSession {
+  id: string;
+  clientSecret: string;
+  customerId: string | null;
+}
+
+export interface CreateRefundParams {
+  paymentIntentId: string;
+  amountCents: number;
+  reason: string;
+  metadata: Record<string, string>;
+  idempotencyKey: string;
+}
+
+export interface PaymentRefund {
+  id: string;
+  amountCents: number;
+  currency: string;
+  reason: string | null;
+  status: string;
+}
+
+export interface BillingAddress {
+  line1: string | null;
+  line2: string | null;
+  city: string | null;
+  state: string | null;
+  postal_code: string | null;
+  country: string | null;
+}
+
+// What support needs to answer "which card did I use" without opening the
+// provider's dashboard. Fee and net stay null until the funds have settled
+// (ACH) or the provider has not reported them yet. The billing contact is what
+// the payer typed at checkout, which may correct what we had on file.
+export interface PaymentDetails {
+  methodType: PaymentMethodType;
+  paymentMethodId: string | null;
+  chargeId: string | null;
+  cardBrand: string | null;
+  bankName: string | null;
+  last4: string | null;
+  grossCents: number | null;
+  feeCents: number | null;
+  netCents: number | null;
+  receiptUrl: string | null;
+  riskLevel: string | null; // "normal" | "elevated" | "highest" | "not_assessed"
+  billingName: string | null;
+  billingEmail: string | null;
+  billingPhone: string | null;
+  billingAddress: BillingAddress | null;
+}
+
+export interface PaymentDispute {
+  id: string;
+  amountCents: number;
+  currency: string;
+  reason: string;
+  status: string;
+  evidenceDueBy: string | null;
+}
+
+// Charges a payment method saved at checkout, e.g. for a payment plan installment
+export interface ChargeSavedPaymentMethodParams {
+  customerId: string;
+  paymentMethodId: string;
+  methodType: PaymentMethodType;
+  amountCents: number;
+  currency: string;
+  description: string;
+  metadata: Record<string, string>;
+  idempotencyKey: string; // The same key returns the same payment instead of charging again
+}
+
+// Declines are returned as failed rather than thrown. The ID is null when the
+// provider refused the charge before creating a payment.
+export interface OffSessionPayment {
+  id: string | null;
+  status: "succeeded" | "processing" | "failed";
+  failureMessage: string | null;
+}
+
+export interface DisputeEvidenceFile {
+  name: string;
+  type: "application/pdf" | "image/png";
+  data: Uint8Array;
+}
+
+// Evidence as the card network sees it. Files are uploaded first and referenced by ID.
+export interface UpdateDisputeEvidenceParams {
+  disputeId: string;
+  customerName: string | null;
+  customerEmail: string | null;
+  customerPurchaseIp: string | null;
+  productDescription: string;
+  accessActivityLog: string;
+  refundPolicyDisclosure: string;
+  uncategorizedText: string;
+  serviceDocumentationFileId: string | null;
+  customerSignatureFileId: string | null;
+  metadata: Record<string, string>;
+  submit: boolean; // false stages the evidence without submitting it
+}
+
+export interface ProviderCharge {
+  id: string;
+  paymentIntentId: string | null;
+  amountCents: number;
+  currency: string;
+  status: string;
+  description: string | null;
+  billingEmail: string | null;
+  metadata: Record<string, string>;
+}
+
+// A movement of the provider balance. Refunds carry a negative amount.
+export interface BalanceTransaction {
+  id: string;
+  type: "charge" | "refund" | "other";
+  amountCents: number;
+  feeCents: number;
+  netCents: number;
+  charge: ProviderCharge | null; // Set for charges
+}
+
+export interface PaymentStatus {
+  status: string; // The provider's own status, "succeeded" once collected
+  amountReceivedCents: number;
+  currency: string;
+}
+
+export interface Payout {
+  id: string;
+  amountCents: number;
+  currency: string;
+  status: string; // "paid" | "pending" | "in_transit" | "failed" | "canceled"
+  failureCode: string | null;
+  failureMessage: string | null;
+  arrivalDate: string;
+}
+
+// What happened, independent of how the provider reports it. Several provider
+// events can map to the same kind (e.g. an ACH settlement is reported for both
+// the payment and the checkout session), so handlers must be idempotent.
+export type PaymentEventKind =
+  | "checkout_completed"
+  | "checkout_expired"
+  | "payment_succeeded"
+  | "payment_failed"
+  | "charge_failed"
+  | "charge_refunded"
+  | "refund_updated"
+  | "dispute_opened"
+  | "dispute_updated"
+  | "dispute_closed";
+
+export interface PaymentEvent {
+  id: string;
+  type: string; // The provider's own event type, for logging
+  kind: PaymentEventKind | null; // null for events the flow does not handle
+  enrollmentId: string | null;
+  installmentId: string | null;
+  sessionId: string | null;
+  paymentIntentId: string | null;
+  chargeId: string | null;
+  customerId: string | null;
+  amountCents: number | null;
+  settled: boolean; // checkout_completed: funds captured rather than still processing
+  embeddedCheckout: boolean; // Paid through the embedded form, so there is no checkout session
+  methodType: PaymentMethodType | null;
+  failureCode: string | null;
+  failureMessage: string | null;
+  dispute: PaymentDispute | null;
+  refunds: PaymentRefund[]; // charge_refunded: every refund on the charge so far; refund_updated: the refund
+  amountRefundedCents: number;
+  fullyRefunded: boolean;
+}
+
+export interface PaymentProvider<TEvent = unknown> {
+  readonly name: string;
+  createCheckoutSession(params: CreateCheckoutSessionParams): Promise<CheckoutSession>;
+  // Providers without an embedded form fall back to the hosted checkout page
+  createPaymentIntent?(params: CreatePaymentIntentParams): Promise<PaymentIntentSession>;
+  // An intent created earlier, so a second tab gets the same payment form
+  resumePaymentIntent?(paymentIntentId: string): Promise<PaymentIntentSession>;
+  // Cancels an intent that has not been paid, once a newer checkout replaces it
+  cancelPaymentIntent?(paymentIntentId: string): Promise<void>;
+  // Closes a session that is still open so it can no longer be paid. Sessions
+  // that already completed or expired are left as they are.
+  expireCheckoutSession(sessionId: string): Promise<void>;
+  // Returns null when the request was not signed by the provider
+  verifyWebhook(body: string, headers: Headers): Promise<TEvent | null>;
+  // May call the provider for details the webhook payload leaves out
+  normalizeEvent(event: TEvent): Promise<PaymentEvent>;
+  createRefund(params: CreateRefundParams): Promise<PaymentRefund>;
+  getPaymentDetails(paymentIntentId: string): Promise<PaymentDetails>;
+  getPaymentStatus(paymentIntentId: string): Promise<PaymentStatus>;
+  chargeSavedPaymentMethod(params: ChargeSavedPaymentMethodParams): Promise<OffSessionPayment>;
+  // Returns the file ID to reference from the evidence
+  uploadDisputeFile(file: DisputeEvidenceFile): Promise<string>;
+  // Returns the dispute's status afterwards
+  updateDisputeEvidence(params: UpdateDisputeEvidenceParams): Promise<string>;
+  // Reconciliation: everything that moved the balance, and the payouts, created in [start, end)
+  listBalanceTransactions(start: Date, end: Date): AsyncIterable<BalanceTransaction>;
+  listPayouts(start: Date, end: Date): AsyncIterable<Payout>;
+  // The hosted checkout session a payment was made through, if any
+  findCheckoutSessionId(paymentIntentId: string): Promise<string | null>;
+}
+
+export function emptyPaymentEvent(id: string, type: string): PaymentEvent {
+  return {
+    id,
+    type,
+    kind: null,
+    enrollmentId: null,
+    installmentId: null,
+    sessionId: null,
+    paymentIntentId: null,
+    chargeId: null,
+    customerId: null,
+    amountCents: null,
+    settled: false,
+    embeddedCheckout: false,
+    methodType: null,
+    failureCode: null,
+    failureMessage: null,
+    dispute: null,
+    refunds: [],
+    amountRefundedCents: 0,
+    fullyRefunded: false,
+  };
+}
+
+// PAYMENT_PROVIDER selects the implementation. "fake" runs the whole flow
+// locally without network access - see fake-payment-provider.ts.
+export function getPaymentProvider(): PaymentProvider {
+  const providerName = Deno.env.get("PAYMENT_PROVIDER") || "stripe";
+
+  if (providerName === "fake") {
+    return new FakePaymentProvider(Deno.env.get("FAKE_PAYMENT_WEBHOOK_SECRET"));
+  }
+
+  if (providerName !== "stripe") {
+    throw new Error(`Unknown PAYMENT_PROVIDER: ${providerName}`);
+  }
+
+  const stripeKey = Deno.env.get("STRIPE_SECRET_KEY");
+  if (!stripeKey) {
+    throw new Error("STRIPE_SECRET_KEY not configured");
+  }
+  return new StripePaymentProvider(stripeKey, Deno.env.get("STRIPE_WEBHOOK_SECRET"));
+}
@@ -0,0 +1,93 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.57.2";
+
+// Failed checkout payments. Each failure emails whoever pays a fresh retry link.
+// After MAX_PAYMENT_ATTEMPTS failures the enrollment needs attention: checkout
+// is closed and it waits in the dashboard queue until staff send a new link.
+
+const DEFAULT_MAX_PAYMENT_ATTEMPTS = 3;
+
+export function maxPaymentAttempts(): number {
+  const configured = Number(Deno.env.get("MAX_PAYMENT_ATTEMPTS"));
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_MAX_PAYMENT_ATTEMPTS;
+}
+
+interface RecoveryEnrollment {
+  id: string;
+  expires_at: string;
+  failed_payment_attempts: number;
+}
+
+export interface FailedAttempt {
+  attempts: number;
+  retryUrl: string | null; // null once the enrollment needs attention
+  needsAttention: boolean;
+}
+
+// Columns cleared when staff send a new link
+export const paymentRecoveryResetFields = {
+  failed_payment_attempts: 0,
+  retry_token_hash: null,
+  needs_attention_at: null,
+  needs_attention_reason: null,
+};
+
+function generateSecureToken(length = 32): string {
+  const array = new Uint8Array(length);
+  crypto.getRandomValues(array);
+  return Array.from(array, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function sha256Hash(data: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(data));
+  return Array.from(new Uint8Array(hashBuffer), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Count a failed payment and either issue a retry link or flag the enrollment.
+// Callers only count a failure once, after winning the status change for it.
+export async function recordFailedAttempt(
+  supabase: SupabaseClient,
+  enrollment: RecoveryEnrollment,
+  reason: string | null,
+): Promise<FailedAttempt> {
+  const attempts = enrollment.failed_payment_attempts + 1;
+  const linkExpired = new Date(enrollment.expires_at) < new Date();
+  const needsAttention = attempts >= maxPaymentAttempts() || linkExpired;
+
+  // The original link keeps working; the retry link replaces the previous one
+  const rawToken = needsAttention ? null : generateSecureToken(32);
+  const { error } = await supabase
+    .from("enrollments")
+    .update({
+      failed_payment_attempts: attempts,
+      ...(rawToken && { retry_token_hash: await sha256Hash(rawToken) }),
+      ...(needsAttention && {
+        needs_attention_at: new Date().toISOString(),
+        needs_attention_reason: linkExpired
+          ? `Payment failed after the link expired: ${reason || "Unknown error"}`
+          : `Payment failed ${attempts} times. Last error: ${reason || "Unknown error"}`,
+      }),
+    })
+    .eq("id", enrollment.id);
+
+  if (error) {
+    throw new Error(`Failed to record payment attempt for enrollment ${enrollment.id}: ${error.message}`);
+  }
+
+  await supabase.from("enrollment_events").insert({
+    enrollment_id: enrollment.id,
+    event_type: needsAttention ? "payment_needs_attention" : "payment_retry_link_sent",
+    event_data: {
+      attempts,
+      max_attempts: maxPaymentAttempts(),
+      ...(linkExpired && { link_expired: true }),
+      ...(rawToken && { token_last4: rawToken.slice(-4) }),
+    },
+  });
+
+  const appUrl = (Deno.env.get("APP_URL") || "https://secure-enrollment-flow.lovable.app").replace(/\/+$/, "");
+  return {
+    attempts,
+    retryUrl: rawToken ? `${appUrl}/enroll/${rawToken}` : null,
+    needsAttention,
+  };
+}
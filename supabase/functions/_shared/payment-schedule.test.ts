@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from "vitest";
+import { MAX_INSTALLMENTS, installmentChargedCents, validatePaymentSchedule } from "./payment-schedule.ts";
+
+// The payment issue email is sent through Resend, which only loads under Deno
+vi.mock("./send-payment-issue-email.ts", () => ({ sendPaymentIssueEmail: vi.fn() }));
+
+// YYYY-MM-DD, the given number of days from today
+const daysFromNow = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+describe("validatePaymentSchedule", () => {
+  it("accepts a deposit followed by installments that add up to the amount", () => {
+    const schedule = [
+      { amount_cents: 100000, due_date: daysFromNow(0) },
+      { amount_cents: 200000, due_date: daysFromNow(30) },
+      { amount_cents: 200000, due_date: daysFromNow(60) },
+    ];
+    expect(validatePaymentSchedule(500000, schedule)).toBeNull();
+  });
+
+  it("does not check the deposit's due date", () => {
+    expect(validatePaymentSchedule(300000, [
+      { amount_cents: 100000 },
+      { amount_cents: 200000, due_date: daysFromNow(14) },
+    ])).toBeNull();
+  });
+
+  it("needs a deposit and at least one installment", () => {
+    expect(validatePaymentSchedule(100000, [{ amount_cents: 100000, due_date: daysFromNow(0) }]))
+      .toBe("A payment schedule needs a deposit and at least one installment");
+    expect(validatePaymentSchedule(100000, null)).toBe("A payment schedule needs a deposit and at least one installment");
+  });
+
+  it("limits the number of payments", () => {
+    const schedule = Array.from({ length: MAX_INSTALLMENTS + 1 }, (_, i) => ({ amount_cents: 1000, due_date: daysFromNow(i * 30) }));
+    expect(validatePaymentSchedule(1000 * schedule.length, schedule))
+      .toBe(`A payment schedule can have at most ${MAX_INSTALLMENTS} payments`);
+  });
+
+  it("rejects amounts that are not positive whole cents", () => {
+    expect(validatePaymentSchedule(300000, [
+      { amount_cents: 100000 },
+      { amount_cents: 199999.5, due_date: daysFromNow(30) },
+    ])).toBe("Payment 2 must be a positive whole number of cents");
+    expect(validatePaymentSchedule(300000, [
+      { amount_cents: 0 },
+      { amount_cents: 300000, due_date: daysFromNow(30) },
+    ])).toBe("Payment 1 must be a positive whole number of cents");
+  });
+
+  it("needs installment dates in YYYY-MM-DD format", () => {
+    expect(validatePaymentSchedule(300000, [
+      { amount_cents: 100000 },
+      { amount_cents: 200000, due_date: "03/15/2030" },
+    ])).toBe("Payment 2 needs a due date in YYYY-MM-DD format");
+  });
+
+  it("needs installments due after today and in order", () => {
+    expect(validatePaymentSchedule(300000, [
+      { amount_cents: 100000 },
+      { amount_cents: 200000, due_date: daysFromNow(0) },
+    ])).toBe("Payment 2 must be due after today");
+    expect(validatePaymentSchedule(500000, [
+      { amount_cents: 100000 },
+      { amount_cents: 200000, due_date: daysFromNow(30) },
+      { amount_cents: 200000, due_date: daysFromNow(30) },
+    ])).toBe("Payment 3 must be due after payment 2");
+  });
+
+  it("needs the payments to add up to the enrollment amount", () => {
+    expect(validatePaymentSchedule(500000, [
+      { amount_cents: 100000 },
+      { amount_cents: 200000, due_date: daysFromNow(30) },
+    ])).toBe("Payment schedule adds up to $3000.00 but the enrollment amount is $5000.00");
+  });
+});
+
+describe("installmentChargedCents", () => {
+  it("adds the checkout adjustment to the deposit only", () => {
+    expect(installmentChargedCents({ sequence: 1, amount_cents: 100000 }, 3000)).toBe(103000);
+    expect(installmentChargedCents({ sequence: 1, amount_cents: 100000 }, -5000)).toBe(95000);
+    expect(installmentChargedCents({ sequence: 2, amount_cents: 200000 }, 3000)).toBe(200000);
+  });
+
+  it("charges the installment amount without an adjustment", () => {
+    expect(installmentChargedCents({ sequence: 1, amount_cents: 100000 }, null)).toBe(100000);
+  });
+});
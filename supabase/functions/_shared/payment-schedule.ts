@@ -0,0 +1,351 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.57.2";
+import { sendPaymentIssueEmail } from "./send-payment-issue-email.ts";
+import { paymentContact } from "./payer.ts";
+
+// One entry per payment as submitted by staff. The first entry is the deposit
+// paid at checkout; later entries are charged off-session on their due date.
+export interface ScheduleEntry {
+  amount_cents: number;
+  due_date: string; // YYYY-MM-DD
+}
+
+export interface InstallmentRecord {
+  id: string;
+  enrollment_id: string;
+  sequence: number;
+  amount_cents: number;
+  currency: string;
+  due_date: string;
+  status: string;
+  stripe_payment_intent_id: string | null;
+  attempt_count: number;
+  next_retry_at: string | null;
+  last_error: string | null;
+  paid_at: string | null;
+  refunded_cents: number;
+}
+
+export const MAX_INSTALLMENTS = 24;
+
+// Attempts per installment before it is left for staff to follow up
+export const MAX_INSTALLMENT_ATTEMPTS = 4;
+
+// Days to wait before the next attempt, indexed by attempts made so far
+const RETRY_DELAYS_DAYS = [1, 3, 5];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Returns an error message, or null when the schedule adds up to the enrollment amount
+export function validatePaymentSchedule(totalCents: number, schedule: unknown): string | null {
+  if (!Array.isArray(schedule) || schedule.length < 2) {
+    return "A payment schedule needs a deposit and at least one installment";
+  }
+
+  if (schedule.length > MAX_INSTALLMENTS) {
+    return `A payment schedule can have at most ${MAX_INSTALLMENTS} payments`;
+  }
+
+  const today = new Date().toISOString().split("T")[0];
+  let previousDate = today;
+  let sum = 0;
+
+  for (let i = 0; i < schedule.length; i++) {
+    const entry = schedule[i] as ScheduleEntry;
+    if (!Number.isInteger(entry?.amount_cents) || entry.amount_cents <= 0) {
+      return `Payment ${i + 1} must be a positive whole number of cents`;
+    }
+    sum += entry.amount_cents;
+
+    // The deposit is due at checkout, so its date is not checked
+    if (i === 0) continue;
+
+    if (typeof entry.due_date !== "string" || !DATE_PATTERN.test(entry.due_date) || isNaN(Date.parse(entry.due_date))) {
+      return `Payment ${i + 1} needs a due date in YYYY-MM-DD format`;
+    }
+    if (entry.due_date <= previousDate) {
+      return `Payment ${i + 1} must be due after ${i === 1 ? "today" : `payment ${i}`}`;
+    }
+    previousDate = entry.due_date;
+  }
+
+  if (sum !== totalCents) {
+    return `Payment schedule adds up to $${(sum / 100).toFixed(2)} but the enrollment amount is $${(totalCents / 100).toFixed(2)}`;
+  }
+
+  return null;
+}
+
+export async function createInstallments(
+  supabase: SupabaseClient,
+  enrollmentId: string,
+  schedule: ScheduleEntry[],
+  currency: string,
+): Promise<{ error: string | null }> {
+  const today = new Date().toISOString().split("T")[0];
+  const { error } = await supabase.from("enrollment_installments").insert(
+    schedule.map((entry, index) => ({
+      enrollment_id: enrollmentId,
+      sequence: index + 1,
+      amount_cents: entry.amount_cents,
+      currency,
+      due_date: index === 0 ? today : entry.due_date,
+    })),
+  );
+
+  return { error: error?.message ?? null };
+}
+
+export async function loadInstallments(
+  supabase: SupabaseClient,
+  enrollmentId: string,
+): Promise<InstallmentRecord[]> {
+  const { data, error } = await supabase
+    .from("enrollment_installments")
+    .select("*")
+    .eq("enrollment_id", enrollmentId)
+    .order("sequence", { ascending: true });
+
+  if (error) {
+    console.error("Failed to load installments:", error);
+    return [];
+  }
+  return (data || []) as InstallmentRecord[];
+}
+
+export function summarizeInstallments(installments: Pick<InstallmentRecord, "amount_cents" | "status">[]) {
+  const paidCents = installments
+    .filter((i) => i.status === "paid")
+    .reduce((sum, i) => sum + i.amount_cents, 0);
+  const outstandingCents = installments
+    .filter((i) => i.status !== "paid" && i.status !== "canceled")
+    .reduce((sum, i) => sum + i.amount_cents, 0);
+  return { paidCents, outstandingCents };
+}
+
+// Status for an enrollment whose money has settled: fully paid, or still mid-plan
+export async function settledStatusFor(
+  supabase: SupabaseClient,
+  enrollmentId: string,
+): Promise<"paid" | "partially_paid"> {
+  const { count } = await supabase
+    .from("enrollment_installments")
+    .select("id", { count: "exact", head: true })
+    .eq("enrollment_id", enrollmentId)
+    .not("status", "in", "(paid,canceled)");
+
+  return count && count > 0 ? "partially_paid" : "paid";
+}
+
+// Record the checkout payment against the deposit. No-op for enrollments without a schedule.
+// The patient retries a failed deposit through the enrollment link, so it is never scheduled for retry.
+export async function markDepositInstallment(
+  supabase: SupabaseClient,
+  enrollmentId: string,
+  status: "processing" | "paid" | "failed",
+  paymentIntentId?: string | null,
+): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from("enrollment_installments")
+    .update({
+      status,
+      ...(paymentIntentId && { stripe_payment_intent_id: paymentIntentId }),
+      ...(status === "processing" && { last_attempt_at: now }),
+      ...(status === "paid" && { paid_at: now }),
+      ...(status === "failed" && { failed_at: now }),
+    })
+    .eq("enrollment_id", enrollmentId)
+    .eq("sequence", 1)
+    .neq("status", "paid");
+
+  if (error) {
+    console.error("Failed to update deposit installment:", error);
+  }
+}
+
+// Look up an off-session installment charge. The deposit shares the checkout
+// PaymentIntent with the enrollment and is handled through the enrollment itself,
+// except by refunds, which are tracked per charge.
+export async function findInstallmentByPaymentIntent(
+  supabase: SupabaseClient,
+  paymentIntentId: string | null,
+  { includeDeposit = false }: { includeDeposit?: boolean } = {},
+): Promise<InstallmentRecord | null> {
+  if (!paymentIntentId) return null;
+
+  const { data } = await supabase
+    .from("enrollment_installments")
+    .select("*")
+    .eq("stripe_payment_intent_id", paymentIntentId)
+    .gt("sequence", includeDeposit ? 0 : 1)
+    .maybeSingle();
+
+  return data as InstallmentRecord | null;
+}
+
+// What a plan charge collected. The deposit was the checkout payment, so it
+// also carried any card surcharge or ACH discount.
+export function installmentChargedCents(
+  installment: Pick<InstallmentRecord, "amount_cents" | "sequence">,
+  paymentAdjustmentCents: number | null,
+): number {
+  return installment.amount_cents + (installment.sequence === 1 ? paymentAdjustmentCents || 0 : 0);
+}
+
+// Mark an off-session installment paid and complete the enrollment once nothing
+// is outstanding. Both the charge job and the webhook report the same success,
+// so the status guard makes the second call return null.
+export async function markInstallmentPaid(
+  supabase: SupabaseClient,
+  installmentId: string,
+  paymentIntentId: string,
+) {
+  const paidAt = new Date().toISOString();
+  const { data: installment, error } = await supabase
+    .from("enrollment_installments")
+    .update({
+      status: "paid",
+      paid_at: paidAt,
+      stripe_payment_intent_id: paymentIntentId,
+      next_retry_at: null,
+      last_error: null,
+    })
+    .eq("id", installmentId)
+    .neq("status", "paid")
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to mark installment paid:", error);
+    return null;
+  }
+  if (!installment) return null;
+
+  await supabase.from("enrollment_events").insert({
+    enrollment_id: installment.enrollment_id,
+    event_type: "installment_paid",
+    event_data: {
+      installment_id: installment.id,
+      sequence: installment.sequence,
+      amount_cents: installment.amount_cents,
+      payment_intent_id: paymentIntentId,
+    },
+  });
+
+  const planCompleted = (await settledStatusFor(supabase, installment.enrollment_id)) === "paid";
+
+  // Only a plan that is still running moves to paid; refunds, reversals and
+  // disputes on the enrollment take precedence
+  const { data: completedEnrollment } = planCompleted
+    ? await supabase
+      .from("enrollments")
+      .update({ status: "paid" })
+      .eq("id", installment.enrollment_id)
+      .eq("status", "partially_paid")
+      .select()
+      .maybeSingle()
+    : { data: null };
+
+  const { data: enrollment } = completedEnrollment
+    ? { data: completedEnrollment }
+    : await supabase
+      .from("enrollments")
+      .select("*")
+      .eq("id", installment.enrollment_id)
+      .maybeSingle();
+
+  if (completedEnrollment) {
+    await supabase.from("enrollment_events").insert({
+      enrollment_id: installment.enrollment_id,
+      event_type: "payment_plan_completed",
+      event_data: {
+        total_cents: enrollment.amount_cents,
+        final_installment_id: installment.id,
+      },
+    });
+  }
+
+  return { installment: installment as InstallmentRecord, enrollment, planCompleted: !!completedEnrollment };
+}
+
+// Record a failed installment attempt, schedule the retry and send the dunning email.
+// Only an installment that is mid-attempt is touched, so duplicate failure events
+// for the same PaymentIntent are ignored.
+export async function markInstallmentFailed(
+  supabase: SupabaseClient,
+  installmentId: string,
+  errorMessage: string | null,
+) {
+  const failedAt = new Date();
+  const { data: existing } = await supabase
+    .from("enrollment_installments")
+    .select("*")
+    .eq("id", installmentId)
+    .maybeSingle();
+
+  if (!existing || existing.status !== "processing") {
+    console.log(`Installment ${installmentId} is ${existing?.status ?? "missing"}, skipping failure`);
+    return null;
+  }
+
+  const willRetry = existing.attempt_count < MAX_INSTALLMENT_ATTEMPTS;
+  const delayDays = RETRY_DELAYS_DAYS[Math.min(existing.attempt_count, RETRY_DELAYS_DAYS.length) - 1] ?? 1;
+  const nextRetryAt = willRetry
+    ? new Date(failedAt.getTime() + delayDays * 24 * 60 * 60 * 1000).toISOString()
+    : null;
+
+  const { data: installment, error } = await supabase
+    .from("enrollment_installments")
+    .update({
+      status: "failed",
+      failed_at: failedAt.toISOString(),
+      last_error: errorMessage,
+      next_retry_at: nextRetryAt,
+    })
+    .eq("id", installmentId)
+    .eq("status", "processing")
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to mark installment failed:", error);
+    return null;
+  }
+  if (!installment) return null;
+
+  await supabase.from("enrollment_events").insert({
+    enrollment_id: installment.enrollment_id,
+    event_type: "installment_failed",
+    event_data: {
+      installment_id: installment.id,
+      sequence: installment.sequence,
+      amount_cents: installment.amount_cents,
+      attempt: installment.attempt_count,
+      error: errorMessage,
+      next_retry_at: nextRetryAt,
+    },
+  });
+
+  const { data: enrollment } = await supabase
+    .from("enrollments")
+    .select("*")
+    .eq("id", installment.enrollment_id)
+    .maybeSingle();
+
+  if (enrollment) {
+    const contact = paymentContact(enrollment);
+    await sendPaymentIssueEmail({
+      recipientName: contact.name,
+      recipientEmail: contact.email,
+      amountCents: installment.amount_cents,
+      currency: installment.currency || "usd",
+      paymentMethodType: enrollment.payment_method_type || "card",
+      issue: willRetry ? "installment_failed" : "installment_final",
+      reason: errorMessage,
+      enrollmentId: enrollment.id,
+      nextAttemptAt: nextRetryAt,
+    });
+  }
+
+  return { installment: installment as InstallmentRecord, enrollment, willRetry, nextRetryAt };
+}
@@ -0,0 +1,125 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.57.2";
+import type { LineItem } from "./line-items.ts";
+
+// Admin-managed promo codes. The patient or payer enters a code on the
+// enrollment link before the first payment; the discount comes off the
+// enrollment amount and is kept on the enrollment.
+
+export interface PromoCodeRecord {
+  id: string;
+  code: string;
+  discount_type: "percent" | "fixed";
+  percent_bps: number | null;
+  amount_off_cents: number | null;
+  currency: string;
+  valid_from: string | null;
+  valid_until: string | null;
+  max_uses: number | null;
+  surgeon_id: string | null;
+  product_id: string | null;
+  is_active: boolean;
+}
+
+interface PromoEnrollment {
+  id: string;
+  amount_cents: number;
+  currency: string | null;
+  patient_id: string | null;
+}
+
+export const normalizePromoCode = (code: string) => code.trim().toUpperCase();
+
+// Returns an error message, or the discount in cents for this enrollment
+export function promoDiscountFor(
+  promo: PromoCodeRecord,
+  enrollment: PromoEnrollment,
+  lineItems: Pick<LineItem, "product_id" | "amount_cents">[],
+  surgeonId: string | null,
+): { discountCents: number; error: string | null } {
+  const now = new Date();
+  if (!promo.is_active) {
+    return { discountCents: 0, error: "This promo code is not valid" };
+  }
+  if (promo.valid_from && new Date(promo.valid_from) > now) {
+    return { discountCents: 0, error: "This promo code is not valid yet" };
+  }
+  if (promo.valid_until && new Date(promo.valid_until) < now) {
+    return { discountCents: 0, error: "This promo code has expired" };
+  }
+  if (promo.surgeon_id && promo.surgeon_id !== surgeonId) {
+    return { discountCents: 0, error: "This promo code is not valid for this enrollment" };
+  }
+  if (promo.discount_type === "fixed" && promo.currency !== (enrollment.currency || "usd")) {
+    return { discountCents: 0, error: "This promo code is not valid for this enrollment" };
+  }
+
+  // A product code only discounts that product's items
+  const baseCents = promo.product_id
+    ? lineItems.filter((item) => item.product_id === promo.product_id).reduce((sum, item) => sum + item.amount_cents, 0)
+    : enrollment.amount_cents;
+  if (baseCents <= 0) {
+    return { discountCents: 0, error: "This promo code is not valid for this enrollment" };
+  }
+
+  const discountCents = promo.discount_type === "percent"
+    ? Math.round(baseCents * (promo.percent_bps || 0) / 10000)
+    : Math.min(promo.amount_off_cents || 0, baseCents);
+
+  // Checkout cannot take a zero payment, so a code that covers everything is settled by staff
+  if (discountCents >= enrollment.amount_cents) {
+    return { discountCents: 0, error: "This promo code covers the full amount. Please contact us to complete your enrollment." };
+  }
+  return { discountCents, error: null };
+}
+
+// Check the code against the enrollment and apply it. The enrollment's amount
+// (and any remaining installments) are reduced by the discount.
+export async function applyPromoCode(
+  supabase: SupabaseClient,
+  enrollment: PromoEnrollment,
+  lineItems: Pick<LineItem, "product_id" | "amount_cents">[],
+  code: string,
+): Promise<{ promo: PromoCodeRecord | null; discountCents: number; error: string | null }> {
+  const { data: promo } = await supabase
+    .from("promo_codes")
+    .select("*")
+    .eq("code", normalizePromoCode(code))
+    .maybeSingle();
+
+  if (!promo) {
+    return { promo: null, discountCents: 0, error: "This promo code is not valid" };
+  }
+
+  let surgeonId: string | null = null;
+  if (promo.surgeon_id && enrollment.patient_id) {
+    const { data: patient } = await supabase
+      .from("patients")
+      .select("surgeon_id")
+      .eq("id", enrollment.patient_id)
+      .maybeSingle();
+    surgeonId = patient?.surgeon_id ?? null;
+  }
+
+  const { discountCents, error } = promoDiscountFor(promo as PromoCodeRecord, enrollment, lineItems, surgeonId);
+  if (error) {
+    return { promo: promo as PromoCodeRecord, discountCents: 0, error };
+  }
+
+  // Usage limits are checked under a lock in the database
+  const { error: applyError } = await supabase.rpc("apply_promo_code", {
+    _enrollment_id: enrollment.id,
+    _promo_code_id: promo.id,
+    _discount_cents: discountCents,
+  });
+  if (applyError) {
+    return { promo: promo as PromoCodeRecord, discountCents: 0, error: applyError.message };
+  }
+
+  return { promo: promo as PromoCodeRecord, discountCents, error: null };
+}
+
+// The applied code for receipts, or null
+export const appliedPromo = (enrollment: { promo_code: string | null; promo_discount_cents: number | null }) =>
+  enrollment.promo_code && enrollment.promo_discount_cents
+    ? { code: enrollment.promo_code, discount_cents: enrollment.promo_discount_cents }
+    : null;
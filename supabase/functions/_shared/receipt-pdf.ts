@@ -0,0 +1,142 @@
+import { PDFDocument, rgb, StandardFonts, type PDFFont, type PDFPage } from "npm:pdf-lib@1.17.1";
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.57.2";
+import { loadLineItems, type LineItem } from "./line-items.ts";
+import { loadInstallments, summarizeInstallments, type InstallmentRecord } from "./payment-schedule.ts";
+import { paymentMethodLabels } from "./send-confirmation-email.ts";
+import { storeEnrollmentDocument } from "./enrollment-documents.ts";
+import { queueZohoAttachment } from "./crm-sync.ts";
+
+interface ReceiptEnrollment {
+  id: string;
+  zoho_module: string;
+  zoho_record_id: string;
+  patient_name: string | null;
+  patient_email: string | null;
+  payer_name: string | null;
+  payer_email: string | null;
+  amount_cents: number;
+  currency: string | null;
+  promo_code: string | null;
+  promo_discount_cents: number | null;
+  payment_adjustment_cents: number | null;
+  payment_adjustment_label: string | null;
+  payment_card_brand: string | null;
+  payment_bank_name: string | null;
+  payment_last4: string | null;
+}
+
+interface ReceiptPayment {
+  paidAt: string;
+  paymentMethodType: string;
+  amountCents: number; // What this payment charged, including any adjustment
+}
+
+export async function generateReceiptPdf(
+  enrollment: ReceiptEnrollment,
+  payment: ReceiptPayment,
+  lineItems: LineItem[] = [],
+  installments: InstallmentRecord[] = [],
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const fontBold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const fontSize = 10;
+  const margin = 50;
+  const pageWidth = 612;
+  const pageHeight = 792;
+
+  let page: PDFPage = pdfDoc.addPage([pageWidth, pageHeight]);
+  let y = pageHeight - margin;
+
+  const drawText = (text: string, options: { font?: PDFFont; size?: number; color?: ReturnType<typeof rgb> } = {}) => {
+    const size = options.size || fontSize;
+    if (y < margin + 20) {
+      page = pdfDoc.addPage([pageWidth, pageHeight]);
+      y = pageHeight - margin;
+    }
+    page.drawText(text, { x: margin, y, font: options.font || font, size, color: options.color || rgb(0, 0, 0) });
+    y -= size * 1.4;
+  };
+
+  const formatCurrency = (cents: number) => new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: (enrollment.currency || "usd").toUpperCase(),
+  }).format(cents / 100);
+
+  drawText("PAYMENT RECEIPT", { font: fontBold, size: 14 });
+  drawText(`Date: ${new Date(payment.paidAt).toLocaleString("en-US", { timeZone: "America/New_York" })}`);
+  drawText(`Enrollment ID: ${enrollment.id}`);
+  y -= 10;
+
+  // A third-party payer is who the receipt is for
+  const hasPayer = !!enrollment.payer_email;
+  drawText("Received From", { font: fontBold, size: 12 });
+  drawText(`Name: ${(hasPayer ? enrollment.payer_name : enrollment.patient_name) || "N/A"}`);
+  drawText(`Email: ${(hasPayer ? enrollment.payer_email : enrollment.patient_email) || "N/A"}`);
+  if (hasPayer) {
+    drawText(`On behalf of: ${enrollment.patient_name || "the patient"}`);
+  }
+  y -= 10;
+
+  drawText("Payment", { font: fontBold, size: 12 });
+  const method = paymentMethodLabels[payment.paymentMethodType] || payment.paymentMethodType;
+  const instrument = [enrollment.payment_card_brand || enrollment.payment_bank_name, enrollment.payment_last4 && `ending ${enrollment.payment_last4}`]
+    .filter(Boolean)
+    .join(" ");
+  drawText(`Method: ${method}${instrument ? ` (${instrument})` : ""}`);
+  if (enrollment.payment_adjustment_cents) {
+    drawText(`${enrollment.payment_adjustment_label || "Payment method adjustment"}: ${formatCurrency(enrollment.payment_adjustment_cents)}`);
+  }
+  drawText(`Amount Paid: ${formatCurrency(payment.amountCents)}`, { font: fontBold });
+  y -= 10;
+
+  if (lineItems.length > 0) {
+    drawText("Items", { font: fontBold, size: 12 });
+    for (const item of lineItems) {
+      const quantity = item.quantity > 1 ? ` (${item.quantity} x ${formatCurrency(item.unit_amount_cents)})` : "";
+      drawText(`${item.name}${quantity} - ${formatCurrency(item.amount_cents)}`);
+    }
+  }
+  if (enrollment.promo_code && enrollment.promo_discount_cents) {
+    drawText(`Promo code ${enrollment.promo_code} - ${formatCurrency(-enrollment.promo_discount_cents)}`);
+  }
+  drawText(`Enrollment Total: ${formatCurrency(enrollment.amount_cents)}`);
+
+  // Deposit or installment toward a payment plan
+  if (installments.length > 0) {
+    const { paidCents, outstandingCents } = summarizeInstallments(installments);
+    drawText(`Paid to Date: ${formatCurrency(paidCents)}`);
+    drawText(`Outstanding Balance: ${formatCurrency(outstandingCents)}`);
+  }
+
+  y -= 20;
+  drawText("This receipt was generated automatically at the time of payment confirmation.", {
+    size: 8,
+    color: rgb(0.5, 0.5, 0.5),
+  });
+
+  return await pdfDoc.save();
+}
+
+// Generate and store a receipt for a confirmed payment, next to the consent
+// PDF, and attach it to the Zoho record. Failures are logged, not thrown, so
+// they never hold up the confirmation.
+export async function generateAndStoreReceiptPdf(
+  supabase: SupabaseClient,
+  enrollment: ReceiptEnrollment,
+  payment: ReceiptPayment,
+): Promise<void> {
+  try {
+    const pdfBytes = await generateReceiptPdf(
+      enrollment,
+      payment,
+      await loadLineItems(supabase, enrollment.id),
+      await loadInstallments(supabase, enrollment.id),
+    );
+
+    const stored = await storeEnrollmentDocument(supabase, enrollment.id, "receipt", pdfBytes);
+    if (stored) await queueZohoAttachment(supabase, enrollment, stored);
+  } catch (err) {
+    console.error("Error generating receipt PDF:", err);
+  }
+}
@@ -4,7 +4,7 @@ import { encode as base64Encode } from "https://deno.land/std@0.190.0/encoding/b
 // Embedded logo as base64 - loaded once at module level
 let logoBase64Cache: string | null = null;
 
-async function getLogoBase64(): Promise<string | null> {
+export async function getLogoBase64(): Promise<string | null> {
   if (logoBase64Cache) return logoBase64Cache;
   try {
     const appUrl = Deno.env.get("APP_URL") || "https://enroll.himplant.com";
@@ -23,6 +23,12 @@ async function getLogoBase64(): Promise<string | null> {
   }
 }
 
+interface ConfirmationLineItem {
+  name: string;
+  quantity: number;
+  amount_cents: number;
+}
+
 interface SendConfirmationEmailParams {
   patientName: string;
   patientEmail: string;
@@ -32,6 +38,28 @@ interface SendConfirmationEmailParams {
   paymentDate: string;
   pdfBytes: Uint8Array | null;
   enrollmentId: string;
+  lineItems?: ConfirmationLineItem[];
+  adjustment?: { label: string; amount_cents: number } | null; // Card surcharge or ACH discount
+  promo?: { code: string; discount_cents: number } | null;
+  // Third-party payer: they get the receipt, the patient gets the confirmation and agreement
+  payerName?: string | null;
+  payerEmail?: string | null;
+}
+
+export const paymentMethodLabels: Record<string, string> = {
+  card: "Credit Card",
+  ach: "ACH Bank Transfer",
+  check: "Check",
+  wire: "Wire Transfer",
+  cash: "Cash",
+};
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
 }
 
 export async function sendConfirmationEmail(params: SendConfirmationEmailParams): Promise<void> {
@@ -43,10 +71,35 @@ export async function sendConfirmationEmail(params: SendConfirmationEmailParams)
 
   const resend = new Resend(resendApiKey);
 
-  const amount = new Intl.NumberFormat("en-US", {
+  const formatter = new Intl.NumberFormat("en-US", {
     style: "currency",
     currency: (params.currency || "usd").toUpperCase(),
-  }).format(params.amountCents / 100);
+  });
+  const amount = formatter.format(params.amountCents / 100);
+
+  const adjustmentItems = params.adjustment
+    ? [{ name: params.adjustment.label, quantity: 1, amount_cents: params.adjustment.amount_cents }]
+    : [];
+  const promoItems = params.promo
+    ? [{ name: `Promo code ${params.promo.code}`, quantity: 1, amount_cents: -params.promo.discount_cents }]
+    : [];
+  const lineItemRows = [...(params.lineItems || []), ...promoItems, ...adjustmentItems].map((item) => `
+                      <tr>
+                        <td style="padding:6px 0; font-size:14px; color:#555;">${escapeHtml(item.name)}${item.quantity > 1 ? ` &times; ${item.quantity}` : ""}</td>
+                        <td style="padding:6px 0; font-size:14px; color:#1a1a2e; text-align:right; font-weight:500;">${formatter.format(item.amount_cents / 100)}</td>
+                      </tr>`).join("");
+  const lineItemsHtml = lineItemRows
+    ? `
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="background-color:#f4f4f8; border-radius:8px; margin:24px 0 0;">
+                <tr>
+                  <td style="padding:20px 24px;">
+                    <p style="margin:0 0 8px; font-size:13px; color:#666; text-transform:uppercase; letter-spacing:0.5px; font-weight:600;">Items</p>
+                    <table role="presentation" width="100%" cellspacing="0" cellpadding="0">${lineItemRows}
+                    </table>
+                  </td>
+                </tr>
+              </table>`
+    : "";
 
   const paymentDateFormatted = new Date(params.paymentDate).toLocaleDateString("en-US", {
     year: "numeric",
@@ -55,7 +108,7 @@ export async function sendConfirmationEmail(params: SendConfirmationEmailParams)
     timeZone: "America/New_York",
   });
 
-  const paymentMethod = params.paymentMethodType === "ach" ? "ACH Bank Transfer" : "Credit Card";
+  const paymentMethod = paymentMethodLabels[params.paymentMethodType] || "Credit Card";
 
   // Try to get logo as base64 for inline embedding
   const logoB64 = await getLogoBase64();
@@ -64,7 +117,7 @@ export async function sendConfirmationEmail(params: SendConfirmationEmailParams)
     ? `<img src="${logoSrc}" alt="Himplant®" width="180" style="display:block; margin:0 auto; max-width:180px; height:auto;" />`
     : `<p style="margin:0; font-size:24px; color:#1a1a2e; font-weight:700; letter-spacing:1px;">Himplant®</p>`;
 
-  const html = `
+  const renderHtml = (heading: string, greetingName: string, introHtml: string, closingHtml: string) => `
 <!DOCTYPE html>
 <html>
 <head>
@@ -86,14 +139,14 @@ export async function sendConfirmationEmail(params: SendConfirmationEmailParams)
           <tr>
             <td style="padding:32px 40px;">
               <h1 style="margin:0 0 20px; font-size:22px; color:#1a1a2e; font-weight:600;">
-                Enrollment Confirmed
+                ${heading}
               </h1>
               <p style="margin:0 0 16px; font-size:15px; color:#333; line-height:1.6;">
-                Dear ${params.patientName},
+                Dear ${escapeHtml(greetingName)},
               </p>
               <p style="margin:0 0 16px; font-size:15px; color:#333; line-height:1.6;">
-                Thank you for completing your enrollment. Your payment has been successfully processed.
-              </p>
+                ${introHtml}
+              </p>${lineItemsHtml}
               <!-- Details box -->
               <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="background-color:#f4f4f8; border-radius:8px; margin:24px 0;">
                 <tr>
@@ -116,12 +169,7 @@ export async function sendConfirmationEmail(params: SendConfirmationEmailParams)
                   </td>
                 </tr>
               </table>
-              <p style="margin:0 0 16px; font-size:15px; color:#333; line-height:1.6;">
-                Your male enhancement expert will be in touch shortly to set up your consultation.
-              </p>
-              <p style="margin:0 0 16px; font-size:15px; color:#333; line-height:1.6;">
-                A copy of your signed agreement is attached to this email for your records.
-              </p>
+              ${closingHtml}
               <p style="margin:0 0 4px; font-size:15px; color:#333; line-height:1.6;">
                 If you have any questions, please don't hesitate to reach out to us at
                 <a href="mailto:contact@himplant.com" style="color:#4a6cf7; text-decoration:none;">contact@himplant.com</a>.
@@ -149,6 +197,24 @@ export async function sendConfirmationEmail(params: SendConfirmationEmailParams)
 </body>
 </html>`;
 
+  const paragraph = (text: string) => `<p style="margin:0 0 16px; font-size:15px; color:#333; line-height:1.6;">
+                ${text}
+              </p>`;
+  const hasPayer = !!params.payerEmail;
+  const patientFirstName = escapeHtml(params.patientName.split(" ")[0]);
+
+  const html = renderHtml(
+    "Enrollment Confirmed",
+    params.patientName,
+    hasPayer
+      ? `Thank you for completing your enrollment. The payment from ${escapeHtml(params.payerName || "your payer")} has been successfully processed.`
+      : "Thank you for completing your enrollment. Your payment has been successfully processed.",
+    [
+      paragraph("Your male enhancement expert will be in touch shortly to set up your consultation."),
+      paragraph("A copy of your signed agreement is attached to this email for your records."),
+    ].join("\n              "),
+  );
+
   const attachments: Array<{ filename: string; content: string }> = [];
   if (params.pdfBytes) {
     let binary = "";
@@ -177,4 +243,28 @@ export async function sendConfirmationEmail(params: SendConfirmationEmailParams)
   } catch (err) {
     console.error("Failed to send confirmation email:", err);
   }
+
+  // The payer's receipt leaves out the consultation and the signed agreement
+  if (hasPayer) {
+    const receiptHtml = renderHtml(
+      "Payment Receipt",
+      params.payerName || "Valued Customer",
+      `Thank you for your payment toward ${patientFirstName}'s enrollment. Your payment has been successfully processed.`,
+      paragraph(`${patientFirstName} has been sent their enrollment confirmation separately. Please keep this email as your receipt.`),
+    );
+
+    try {
+      const result = await resend.emails.send({
+        from: "Himplant® <noreply@himplant.com>",
+        to: [params.payerEmail!],
+        bcc: ["ray@himplant.com", "kyle@himplant.com", "justin@himplant.com"],
+        reply_to: "contact@himplant.com",
+        subject: "Your Himplant® Payment Receipt",
+        html: receiptHtml,
+      });
+      console.log(`Payment receipt sent to ${params.payerEmail}:`, result);
+    } catch (err) {
+      console.error("Failed to send payer receipt:", err);
+    }
+  }
 }
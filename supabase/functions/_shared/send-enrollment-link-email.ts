@@ -0,0 +1,134 @@
+import { Resend } from "npm:resend@2.0.0";
+import { getLogoBase64 } from "./send-confirmation-email.ts";
+
+interface SendEnrollmentLinkEmailParams {
+  patientName: string;
+  patientEmail: string;
+  amountCents: number;
+  currency: string;
+  enrollmentUrl: string;
+  expiresAt: string;
+  enrollmentId: string;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Sends the patient their enrollment link, e.g. when staff resend it from Zoho.
+// Returns whether the email was sent.
+export async function sendEnrollmentLinkEmail(params: SendEnrollmentLinkEmailParams): Promise<boolean> {
+  const resendApiKey = Deno.env.get("RESEND_API_KEY");
+  if (!resendApiKey) {
+    console.error("RESEND_API_KEY not configured, skipping enrollment link email");
+    return false;
+  }
+
+  const resend = new Resend(resendApiKey);
+
+  const amount = new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: (params.currency || "usd").toUpperCase(),
+  }).format(params.amountCents / 100);
+
+  const expiresFormatted = new Date(params.expiresAt).toLocaleString("en-US", {
+    timeZone: "America/New_York",
+    dateStyle: "long",
+    timeStyle: "short",
+  });
+
+  const logoB64 = await getLogoBase64();
+  const logoHtml = logoB64
+    ? `<img src="data:image/png;base64,${logoB64}" alt="Himplant®" width="180" style="display:block; margin:0 auto; max-width:180px; height:auto;" />`
+    : `<p style="margin:0; font-size:24px; color:#1a1a2e; font-weight:700; letter-spacing:1px;">Himplant®</p>`;
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+</head>
+<body style="margin:0; padding:0; background-color:#f8f9fa; font-family: Arial, Helvetica, sans-serif;">
+  <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="background-color:#f8f9fa; padding:40px 20px;">
+    <tr>
+      <td align="center">
+        <table role="presentation" width="600" cellspacing="0" cellpadding="0" style="background-color:#ffffff; border-radius:12px; overflow:hidden; box-shadow:0 2px 8px rgba(0,0,0,0.08);">
+          <tr>
+            <td style="padding:32px 40px 24px; text-align:center; border-bottom:2px solid #f0f0f0;">
+              ${logoHtml}
+            </td>
+          </tr>
+          <tr>
+            <td style="padding:32px 40px;">
+              <h1 style="margin:0 0 20px; font-size:22px; color:#1a1a2e; font-weight:600;">
+                Complete Your Enrollment
+              </h1>
+              <p style="margin:0 0 16px; font-size:15px; color:#333; line-height:1.6;">
+                Dear ${escapeHtml(params.patientName)},
+              </p>
+              <p style="margin:0 0 16px; font-size:15px; color:#333; line-height:1.6;">
+                Please use the secure link below to review your consent and complete your enrollment payment of <strong>${amount}</strong>.
+              </p>
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="margin:24px 0;">
+                <tr>
+                  <td align="center">
+                    <a href="${params.enrollmentUrl}" style="display:inline-block; padding:14px 32px; background-color:#4a6cf7; color:#ffffff; font-size:15px; font-weight:600; text-decoration:none; border-radius:8px;">
+                      Complete Enrollment
+                    </a>
+                  </td>
+                </tr>
+              </table>
+              <p style="margin:0 0 16px; font-size:13px; color:#666; line-height:1.6;">
+                This link is personal to you and expires on ${expiresFormatted} (Eastern Time). Any link we sent you before no longer works.
+              </p>
+              <p style="margin:0 0 4px; font-size:15px; color:#333; line-height:1.6;">
+                If you were not expecting this email, please contact us at
+                <a href="mailto:contact@himplant.com" style="color:#4a6cf7; text-decoration:none;">contact@himplant.com</a>.
+              </p>
+            </td>
+          </tr>
+          <tr>
+            <td style="padding:24px 40px; border-top:1px solid #eee; text-align:center;">
+              <p style="margin:0 0 4px; font-size:13px; color:#999;">
+                Warm regards,
+              </p>
+              <p style="margin:0; font-size:14px; color:#1a1a2e; font-weight:600;">
+                The Himplant® Team
+              </p>
+              <p style="margin:16px 0 0; font-size:11px; color:#bbb;">
+                &copy; ${new Date().getFullYear()} Himplant&reg;. All rights reserved.
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`;
+
+  try {
+    const result = await resend.emails.send({
+      from: "Himplant® <noreply@himplant.com>",
+      to: [params.patientEmail],
+      bcc: ["ray@himplant.com", "kyle@himplant.com", "justin@himplant.com"],
+      reply_to: "contact@himplant.com",
+      subject: "Your Himplant® enrollment link",
+      html,
+    });
+    if (result.error) {
+      console.error("Failed to send enrollment link email:", result.error);
+      return false;
+    }
+    console.log(`Enrollment link email sent for enrollment ${params.enrollmentId}:`, result);
+    return true;
+  } catch (err) {
+    console.error("Failed to send enrollment link email:", err);
+    return false;
+  }
+}
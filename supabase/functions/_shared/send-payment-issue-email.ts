@@ -0,0 +1,195 @@
+import { Resend } from "npm:resend@2.0.0";
+import { getLogoBase64 } from "./send-confirmation-email.ts";
+
+type PaymentIssue = "failed" | "failed_final" | "reversed" | "installment_failed" | "installment_final";
+
+interface SendPaymentIssueEmailParams {
+  // The patient, or the third-party payer when someone else pays
+  recipientName: string;
+  recipientEmail: string | null;
+  amountCents: number;
+  currency: string;
+  paymentMethodType: string;
+  issue: PaymentIssue;
+  reason: string | null;
+  enrollmentId: string;
+  nextAttemptAt?: string | null; // Installment retries only
+  retryUrl?: string | null; // Failed payments that can still be retried
+}
+
+const issueCopy: Record<PaymentIssue, { subject: string; heading: string; body: string }> = {
+  failed: {
+    subject: "Your Himplant® Payment Could Not Be Completed",
+    heading: "Payment Not Completed",
+    body: "Unfortunately, the payment for your enrollment could not be completed. No funds have been collected.",
+  },
+  failed_final: {
+    subject: "Action Needed: Your Himplant® Enrollment Payment",
+    heading: "Payment Not Completed",
+    body: "After several attempts, we were unable to complete the payment for your enrollment. No funds have been collected, and your enrollment is on hold until our team has been in touch.",
+  },
+  reversed: {
+    subject: "Your Himplant® Payment Was Returned",
+    heading: "Payment Returned",
+    body: "Your bank has returned the payment for your enrollment after it was initially processed. Your enrollment is on hold until payment is received.",
+  },
+  installment_failed: {
+    subject: "Your Himplant® Installment Payment Did Not Go Through",
+    heading: "Installment Payment Declined",
+    body: "We were unable to collect a scheduled installment for your payment plan using your saved payment method. We will automatically try again on the date below.",
+  },
+  installment_final: {
+    subject: "Action Needed: Your Himplant® Payment Plan",
+    heading: "Installment Payment Overdue",
+    body: "After several attempts, we were unable to collect a scheduled installment for your payment plan. Please contact us to update your payment method and keep your plan on track.",
+  },
+};
+
+// Notifies whoever paid (with staff copied) when a payment or installment fails, or is reversed
+export async function sendPaymentIssueEmail(params: SendPaymentIssueEmailParams): Promise<void> {
+  const resendApiKey = Deno.env.get("RESEND_API_KEY");
+  if (!resendApiKey) {
+    console.error("RESEND_API_KEY not configured, skipping payment issue email");
+    return;
+  }
+
+  // Staff still need to hear about the problem even without a recipient address
+  const to = params.recipientEmail ? [params.recipientEmail] : ["contact@himplant.com"];
+
+  const resend = new Resend(resendApiKey);
+  const copy = issueCopy[params.issue];
+
+  const amount = new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: (params.currency || "usd").toUpperCase(),
+  }).format(params.amountCents / 100);
+
+  const paymentMethod = params.paymentMethodType === "ach" ? "ACH Bank Transfer" : "Credit Card";
+
+  const logoB64 = await getLogoBase64();
+  const logoHtml = logoB64
+    ? `<img src="data:image/png;base64,${logoB64}" alt="Himplant®" width="180" style="display:block; margin:0 auto; max-width:180px; height:auto;" />`
+    : `<p style="margin:0; font-size:24px; color:#1a1a2e; font-weight:700; letter-spacing:1px;">Himplant®</p>`;
+
+  const reasonRow = params.reason
+    ? `<tr>
+                        <td style="padding:6px 0; font-size:14px; color:#555;">Reason</td>
+                        <td style="padding:6px 0; font-size:14px; color:#1a1a2e; text-align:right; font-weight:500;">${params.reason}</td>
+                      </tr>`
+    : "";
+
+  const nextAttemptRow = params.nextAttemptAt
+    ? `<tr>
+                        <td style="padding:6px 0; font-size:14px; color:#555;">Next Attempt</td>
+                        <td style="padding:6px 0; font-size:14px; color:#1a1a2e; text-align:right; font-weight:500;">${new Date(params.nextAttemptAt).toLocaleDateString("en-US", { timeZone: "America/New_York", dateStyle: "long" })}</td>
+                      </tr>`
+    : "";
+
+  // A retry link lets the patient pay again without waiting for staff
+  const followUpHtml = params.retryUrl
+    ? `<p style="margin:0 0 16px; font-size:15px; color:#333; line-height:1.6;">
+                You can try again with the same or a different payment method:
+              </p>
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="margin:24px 0;">
+                <tr>
+                  <td align="center">
+                    <a href="${params.retryUrl}" style="display:inline-block; padding:14px 32px; background-color:#4a6cf7; color:#ffffff; font-size:15px; font-weight:600; text-decoration:none; border-radius:8px;">
+                      Try Again
+                    </a>
+                  </td>
+                </tr>
+              </table>
+              <p style="margin:0 0 4px; font-size:15px; color:#333; line-height:1.6;">
+                If you need help, contact us at
+                <a href="mailto:contact@himplant.com" style="color:#4a6cf7; text-decoration:none;">contact@himplant.com</a>.
+              </p>`
+    : `<p style="margin:0 0 4px; font-size:15px; color:#333; line-height:1.6;">
+                Our team will reach out to help you complete your enrollment. You can also contact us at
+                <a href="mailto:contact@himplant.com" style="color:#4a6cf7; text-decoration:none;">contact@himplant.com</a>.
+              </p>`;
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+</head>
+<body style="margin:0; padding:0; background-color:#f8f9fa; font-family: Arial, Helvetica, sans-serif;">
+  <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="background-color:#f8f9fa; padding:40px 20px;">
+    <tr>
+      <td align="center">
+        <table role="presentation" width="600" cellspacing="0" cellpadding="0" style="background-color:#ffffff; border-radius:12px; overflow:hidden; box-shadow:0 2px 8px rgba(0,0,0,0.08);">
+          <tr>
+            <td style="padding:32px 40px 24px; text-align:center; border-bottom:2px solid #f0f0f0;">
+              ${logoHtml}
+            </td>
+          </tr>
+          <tr>
+            <td style="padding:32px 40px;">
+              <h1 style="margin:0 0 20px; font-size:22px; color:#1a1a2e; font-weight:600;">
+                ${copy.heading}
+              </h1>
+              <p style="margin:0 0 16px; font-size:15px; color:#333; line-height:1.6;">
+                Dear ${params.recipientName},
+              </p>
+              <p style="margin:0 0 16px; font-size:15px; color:#333; line-height:1.6;">
+                ${copy.body}
+              </p>
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="background-color:#f4f4f8; border-radius:8px; margin:24px 0;">
+                <tr>
+                  <td style="padding:20px 24px;">
+                    <p style="margin:0 0 8px; font-size:13px; color:#666; text-transform:uppercase; letter-spacing:0.5px; font-weight:600;">Payment Details</p>
+                    <table role="presentation" width="100%" cellspacing="0" cellpadding="0">
+                      <tr>
+                        <td style="padding:6px 0; font-size:14px; color:#555;">Amount</td>
+                        <td style="padding:6px 0; font-size:14px; color:#1a1a2e; text-align:right; font-weight:500;">${amount}</td>
+                      </tr>
+                      <tr>
+                        <td style="padding:6px 0; font-size:14px; color:#555;">Payment Method</td>
+                        <td style="padding:6px 0; font-size:14px; color:#1a1a2e; text-align:right; font-weight:500;">${paymentMethod}</td>
+                      </tr>
+                      ${reasonRow}
+                      ${nextAttemptRow}
+                    </table>
+                  </td>
+                </tr>
+              </table>
+              ${followUpHtml}
+            </td>
+          </tr>
+          <tr>
+            <td style="padding:24px 40px; border-top:1px solid #eee; text-align:center;">
+              <p style="margin:0 0 4px; font-size:13px; color:#999;">
+                Warm regards,
+              </p>
+              <p style="margin:0; font-size:14px; color:#1a1a2e; font-weight:600;">
+                The Himplant® Team
+              </p>
+              <p style="margin:16px 0 0; font-size:11px; color:#bbb;">
+                &copy; ${new Date().getFullYear()} Himplant&reg;. All rights reserved.
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`;
+
+  try {
+    const result = await resend.emails.send({
+      from: "Himplant® <noreply@himplant.com>",
+      to,
+      cc: params.recipientEmail ? ["contact@himplant.com"] : [],
+      bcc: ["ray@himplant.com", "kyle@himplant.com", "justin@himplant.com"],
+      reply_to: "contact@himplant.com",
+      subject: copy.subject,
+      html,
+    });
+    console.log(`Payment ${params.issue} email sent for enrollment ${params.enrollmentId}:`, result);
+  } catch (err) {
+    console.error(`Failed to send payment ${params.issue} email:`, err);
+  }
+}
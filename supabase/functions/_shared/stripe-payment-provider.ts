@@ -0,0 +1,531 @@
+import Stripe from "npm:stripe@18.5.0";
+import {
+  emptyPaymentEvent,
+  type BalanceTransaction,
+  type ChargeSavedPaymentMethodParams,
+  type CheckoutSession,
+  type CreateCheckoutSessionParams,
+  type CreatePaymentIntentParams,
+  type CreateRefundParams,
+  type DisputeEvidenceFile,
+  type OffSessionPayment,
+  type PaymentDetails,
+  type PaymentDispute,
+  type PaymentEvent,
+  type PaymentEventKind,
+  type PaymentIntentSession,
+  type PaymentMethodType,
+  type PaymentProvider,
+  type PaymentRefund,
+  type PaymentStatus,
+  type Payout,
+  type ProviderCharge,
+  type UpdateDisputeEvidenceParams,
+} from "./payment-provider.ts";
+
+// Checkout sessions report ACH settlement alongside the payment_intent.* events
+const checkoutEventKinds: Record<string, PaymentEventKind> = {
+  "checkout.session.completed": "checkout_completed",
+  "checkout.session.expired": "checkout_expired",
+  "checkout.session.async_payment_succeeded": "payment_succeeded",
+  "checkout.session.async_payment_failed": "payment_failed",
+};
+
+// Our ACH is Stripe's us_bank_account
+const stripeMethodTypes = (types: PaymentMethodType[]) =>
+  types.map((type) => type === "ach" ? "us_bank_account" as const : "card" as const);
+
+const idOf = (value: string | { id: string } | null | undefined) =>
+  typeof value === "string" ? value : value?.id ?? null;
+
+function toDispute(dispute: Stripe.Dispute): PaymentDispute {
+  return {
+    id: dispute.id,
+    amountCents: dispute.amount,
+    currency: dispute.currency,
+    reason: dispute.reason,
+    status: dispute.status,
+    evidenceDueBy: dispute.evidence_details?.due_by
+      ? new Date(dispute.evidence_details.due_by * 1000).toISOString()
+      : null,
+  };
+}
+
+function toRefund(refund: Stripe.Refund): PaymentRefund {
+  return {
+    id: refund.id,
+    amountCents: refund.amount,
+    currency: refund.currency,
+    reason: refund.reason,
+    status: refund.status || "pending",
+  };
+}
+
+function toCharge(charge: Stripe.Charge): ProviderCharge {
+  return {
+    id: charge.id,
+    paymentIntentId: idOf(charge.payment_intent),
+    amountCents: charge.amount,
+    currency: charge.currency,
+    status: charge.status,
+    description: charge.description,
+    billingEmail: charge.billing_details?.email ?? null,
+    metadata: charge.metadata ?? {},
+  };
+}
+
+// Balance transaction types that move money back to the patient
+const refundTransactionTypes = ["refund", "payment_refund", "payment_failure_refund"];
+
+const createdBetween = (start: Date, end: Date) => ({
+  gte: Math.floor(start.getTime() / 1000),
+  lt: Math.floor(end.getTime() / 1000),
+});
+
+export class StripePaymentProvider implements PaymentProvider<Stripe.Event> {
+  readonly name = "stripe";
+  private stripe: Stripe;
+
+  constructor(secretKey: string, private webhookSecret: string | undefined) {
+    this.stripe = new Stripe(secretKey, { apiVersion: "2025-08-27.basil" });
+  }
+
+  // Reuse the patient's Stripe customer, or create one. Off-session charges need
+  // a customer to attach the payment method to, even without an email.
+  private async findOrCreateCustomer(
+    params: Pick<CreateCheckoutSessionParams, "customer" | "savePaymentMethod" | "idempotencyKey">,
+  ): Promise<string | undefined> {
+    const { email, name, phone, metadata } = params.customer;
+
+    if (email) {
+      const customers = await this.stripe.customers.list({ email, limit: 1 });
+      if (customers.data.length > 0) {
+        return customers.data[0].id;
+      }
+    } else if (!params.savePaymentMethod) {
+      return undefined;
+    }
+
+    const customer = await this.stripe.customers.create(
+      {
+        email: email || undefined,
+        name: name || undefined,
+        phone: phone || undefined,
+        metadata,
+      },
+      { idempotencyKey: `${params.idempotencyKey}-customer` }
+    );
+    return customer.id;
+  }
+
+  // Checkout shows Apple Pay and Google Pay whenever cards are allowed, so
+  // switching them off takes a payment method configuration in place of
+  // payment_method_types. There is one per set of methods, found by name.
+  private async noWalletsConfiguration(types: PaymentMethodType[]): Promise<string> {
+    const name = `Enrollment checkout (${types.join(", ")}, no wallets)`;
+    for await (const configuration of this.stripe.paymentMethodConfigurations.list({ limit: 100 })) {
+      if (configuration.name === name && configuration.active) {
+        return configuration.id;
+      }
+    }
+
+    const preference = (on: boolean) => ({ display_preference: { preference: on ? "on" as const : "off" as const } });
+    const configuration = await this.stripe.paymentMethodConfigurations.create({
+      name,
+      card: preference(types.includes("card")),
+      us_bank_account: preference(types.includes("ach")),
+      apple_pay: preference(false),
+      google_pay: preference(false),
+      link: preference(false),
+    });
+    return configuration.id;
+  }
+
+  async createCheckoutSession(params: CreateCheckoutSessionParams): Promise<CheckoutSession> {
+    const customerId = await this.findOrCreateCustomer(params);
+
+    // Checkout has no negative line items, so a discount is a single-use coupon
+    const coupon = params.discount
+      ? await this.stripe.coupons.create(
+        {
+          name: params.discount.name,
+          amount_off: params.discount.amountCents,
+          currency: params.currency,
+          duration: "once",
+          max_redemptions: 1,
+          metadata: { enrollment_id: params.enrollmentId },
+        },
+        { idempotencyKey: `${params.idempotencyKey}-coupon` }
+      )
+      : null;
+
+    const methods = !params.allowWallets && params.paymentMethodTypes.includes("card")
+      ? { payment_method_configuration: await this.noWalletsConfiguration(params.paymentMethodTypes) }
+      : { payment_method_types: stripeMethodTypes(params.paymentMethodTypes) };
+
+    const session = await this.stripe.checkout.sessions.create({
+      customer: customerId,
+      customer_email: customerId ? undefined : params.customer.email || undefined,
+      ...methods,
+      billing_address_collection: "required",
+      line_items: params.lineItems.map((item) => ({
+        price_data: {
+          currency: params.currency,
+          product_data: {
+            name: item.name,
+            ...(item.description && { description: item.description }),
+          },
+          unit_amount: item.unit_amount_cents,
+        },
+        quantity: item.quantity,
+      })),
+      ...(coupon && { discounts: [{ coupon: coupon.id }] }),
+      mode: "payment",
+      success_url: params.successUrl,
+      cancel_url: params.cancelUrl,
+      expires_at: Math.floor(params.expiresAt.getTime() / 1000),
+      metadata: params.metadata,
+      payment_intent_data: {
+        ...(params.savePaymentMethod && { setup_future_usage: "off_session" as const }),
+        metadata: params.metadata,
+      },
+    }, { idempotencyKey: params.idempotencyKey });
+
+    return { id: session.id, url: session.url!, customerId: customerId ?? null };
+  }
+
+  async createPaymentIntent(params: CreatePaymentIntentParams): Promise<PaymentIntentSession> {
+    const customerId = await this.findOrCreateCustomer(params);
+
+    const paymentIntent = await this.stripe.paymentIntents.create({
+      amount: params.amountCents,
+      currency: params.currency,
+      customer: customerId,
+      description: params.description,
+      payment_method_types: stripeMethodTypes(params.paymentMethodTypes),
+      ...(params.savePaymentMethod && { setup_future_usage: "off_session" as const }),
+      metadata: { ...params.metadata, checkout_mode: "embedded" },
+    }, { idempotencyKey: params.idempotencyKey });
+
+    return { id: paymentIntent.id, clientSecret: paymentIntent.client_secret!, customerId: customerId ?? null };
+  }
+
+  async resumePaymentIntent(paymentIntentId: string): Promise<PaymentIntentSession> {
+    const paymentIntent = await this.stripe.paymentIntents.retrieve(paymentIntentId);
+    return {
+      id: paymentIntent.id,
+      clientSecret: paymentIntent.client_secret!,
+      customerId: idOf(paymentIntent.customer),
+    };
+  }
+
+  async cancelPaymentIntent(paymentIntentId: string): Promise<void> {
+    const paymentIntent = await this.stripe.paymentIntents.retrieve(paymentIntentId);
+    if (["requires_payment_method", "requires_confirmation", "requires_action"].includes(paymentIntent.status)) {
+      await this.stripe.paymentIntents.cancel(paymentIntentId);
+    }
+  }
+
+  async expireCheckoutSession(sessionId: string): Promise<void> {
+    const session = await this.stripe.checkout.sessions.retrieve(sessionId);
+    if (session.status === "open") {
+      await this.stripe.checkout.sessions.expire(sessionId);
+    }
+  }
+
+  async verifyWebhook(body: string, headers: Headers): Promise<Stripe.Event | null> {
+    // SECURITY: Always require webhook signature verification
+    // This prevents attackers from sending fake payment events
+    if (!this.webhookSecret) {
+      throw new Error("STRIPE_WEBHOOK_SECRET not configured");
+    }
+
+    const signature = headers.get("stripe-signature");
+    if (!signature) {
+      console.error("Missing stripe-signature header");
+      return null;
+    }
+
+    try {
+      return await this.stripe.webhooks.constructEventAsync(body, signature, this.webhookSecret);
+    } catch (err) {
+      console.error("Webhook signature verification failed:", err);
+      return null;
+    }
+  }
+
+  async normalizeEvent(event: Stripe.Event): Promise<PaymentEvent> {
+    const normalized = emptyPaymentEvent(event.id, event.type);
+
+    switch (event.type) {
+      case "checkout.session.completed":
+      case "checkout.session.expired":
+      case "checkout.session.async_payment_succeeded":
+      case "checkout.session.async_payment_failed": {
+        const session = event.data.object as Stripe.Checkout.Session;
+        normalized.kind = checkoutEventKinds[event.type];
+        normalized.enrollmentId = session.metadata?.enrollment_id ?? null;
+        normalized.sessionId = session.id;
+        normalized.paymentIntentId = idOf(session.payment_intent);
+        normalized.customerId = idOf(session.customer);
+        normalized.amountCents = session.amount_total;
+        // ACH payments complete asynchronously, card payments are immediate
+        normalized.settled = session.payment_status === "paid";
+        if (event.type === "checkout.session.async_payment_failed") {
+          normalized.failureMessage = "Bank transfer could not be completed";
+        }
+        break;
+      }
+
+      case "payment_intent.succeeded":
+      case "payment_intent.processing":
+      case "payment_intent.payment_failed": {
+        const paymentIntent = event.data.object as Stripe.PaymentIntent;
+        normalized.embeddedCheckout = paymentIntent.metadata?.checkout_mode === "embedded";
+        if (event.type === "payment_intent.processing") {
+          // Hosted checkouts report this through checkout.session.completed instead
+          if (!normalized.embeddedCheckout) break;
+          normalized.kind = "checkout_completed";
+        } else {
+          normalized.kind = event.type === "payment_intent.succeeded" ? "payment_succeeded" : "payment_failed";
+        }
+        normalized.enrollmentId = paymentIntent.metadata?.enrollment_id ?? null;
+        normalized.installmentId = paymentIntent.metadata?.installment_id ?? null;
+        normalized.paymentIntentId = paymentIntent.id;
+        normalized.customerId = idOf(paymentIntent.customer);
+        normalized.amountCents = paymentIntent.amount;
+        normalized.failureCode = paymentIntent.last_payment_error?.code ?? null;
+        normalized.failureMessage = paymentIntent.last_payment_error?.message || null;
+        break;
+      }
+
+      case "charge.failed":
+      case "charge.refunded": {
+        const charge = event.data.object as Stripe.Charge;
+        normalized.chargeId = charge.id;
+        normalized.paymentIntentId = idOf(charge.payment_intent);
+        normalized.amountCents = charge.amount;
+
+        if (event.type === "charge.failed") {
+          normalized.kind = "charge_failed";
+          normalized.failureCode = charge.failure_code;
+          normalized.failureMessage = charge.failure_message;
+          break;
+        }
+
+        // List every refund so ones issued directly in the Stripe dashboard,
+        // which never went through refund-enrollment, are picked up too
+        const refunds = await this.stripe.refunds.list({ charge: charge.id, limit: 100 });
+        normalized.kind = "charge_refunded";
+        normalized.refunds = refunds.data.map(toRefund);
+        normalized.amountRefundedCents = charge.amount_refunded;
+        normalized.fullyRefunded = charge.refunded;
+        break;
+      }
+
+      // A refund that fails after it was issued (e.g. the card was closed) is
+      // only reported here - the charge.refunded event is not sent again
+      case "charge.refund.updated":
+      case "refund.updated":
+      case "refund.failed": {
+        const refund = event.data.object as Stripe.Refund;
+        normalized.kind = "refund_updated";
+        normalized.enrollmentId = refund.metadata?.enrollment_id ?? null;
+        normalized.chargeId = idOf(refund.charge);
+        normalized.paymentIntentId = idOf(refund.payment_intent);
+        normalized.refunds = [toRefund(refund)];
+        normalized.failureMessage = refund.failure_reason ?? null;
+        break;
+      }
+
+      case "charge.dispute.created": {
+        const dispute = event.data.object as Stripe.Dispute;
+        const charge = typeof dispute.charge === "string"
+          ? await this.stripe.charges.retrieve(dispute.charge)
+          : dispute.charge;
+        normalized.kind = "dispute_opened";
+        normalized.chargeId = charge.id;
+        normalized.paymentIntentId = idOf(charge.payment_intent);
+        normalized.methodType = charge.payment_method_details?.type === "us_bank_account" ? "ach" : "card";
+        normalized.dispute = toDispute(dispute);
+        break;
+      }
+
+      case "charge.dispute.updated":
+      case "charge.dispute.closed": {
+        const dispute = event.data.object as Stripe.Dispute;
+        normalized.kind = event.type === "charge.dispute.updated" ? "dispute_updated" : "dispute_closed";
+        normalized.chargeId = idOf(dispute.charge);
+        normalized.dispute = toDispute(dispute);
+        break;
+      }
+    }
+
+    return normalized;
+  }
+
+  async createRefund(params: CreateRefundParams): Promise<PaymentRefund> {
+    const refund = await this.stripe.refunds.create(
+      {
+        payment_intent: params.paymentIntentId,
+        amount: params.amountCents,
+        reason: params.reason as Stripe.RefundCreateParams.Reason,
+        metadata: params.metadata,
+      },
+      { idempotencyKey: params.idempotencyKey }
+    );
+    return toRefund(refund);
+  }
+
+  async chargeSavedPaymentMethod(params: ChargeSavedPaymentMethodParams): Promise<OffSessionPayment> {
+    try {
+      const paymentIntent = await this.stripe.paymentIntents.create(
+        {
+          amount: params.amountCents,
+          currency: params.currency,
+          customer: params.customerId,
+          payment_method: params.paymentMethodId,
+          payment_method_types: stripeMethodTypes([params.methodType]),
+          off_session: true,
+          confirm: true,
+          description: params.description,
+          metadata: params.metadata,
+        },
+        { idempotencyKey: params.idempotencyKey }
+      );
+
+      if (paymentIntent.status === "succeeded" || paymentIntent.status === "processing") {
+        return { id: paymentIntent.id, status: paymentIntent.status, failureMessage: null };
+      }
+      return {
+        id: paymentIntent.id,
+        status: "failed",
+        failureMessage: `Payment could not be completed (${paymentIntent.status})`,
+      };
+    } catch (err) {
+      // Declines and authentication_required errors are thrown with the PaymentIntent attached
+      if (err instanceof Stripe.errors.StripeError) {
+        const failedIntentId = (err.raw as { payment_intent?: { id?: string } })?.payment_intent?.id;
+        return { id: failedIntentId ?? null, status: "failed", failureMessage: err.message };
+      }
+      throw err;
+    }
+  }
+
+  async uploadDisputeFile(file: DisputeEvidenceFile): Promise<string> {
+    const uploaded = await this.stripe.files.create({
+      purpose: "dispute_evidence",
+      file: { data: file.data, name: file.name, type: file.type },
+    });
+    return uploaded.id;
+  }
+
+  async updateDisputeEvidence(params: UpdateDisputeEvidenceParams): Promise<string> {
+    const dispute = await this.stripe.disputes.update(params.disputeId, {
+      evidence: {
+        customer_name: params.customerName || undefined,
+        customer_email_address: params.customerEmail || undefined,
+        customer_purchase_ip: params.customerPurchaseIp || undefined,
+        product_description: params.productDescription,
+        access_activity_log: params.accessActivityLog,
+        refund_policy_disclosure: params.refundPolicyDisclosure,
+        uncategorized_text: params.uncategorizedText,
+        service_documentation: params.serviceDocumentationFileId || undefined,
+        customer_signature: params.customerSignatureFileId || undefined,
+      },
+      metadata: params.metadata,
+      submit: params.submit,
+    });
+    return dispute.status;
+  }
+
+  async *listBalanceTransactions(start: Date, end: Date): AsyncIterable<BalanceTransaction> {
+    for await (const transaction of this.stripe.balanceTransactions.list({
+      created: createdBetween(start, end),
+      limit: 100,
+      expand: ["data.source"],
+    })) {
+      const source = transaction.source;
+      const isCharge = transaction.type === "charge" || transaction.type === "payment";
+      yield {
+        id: transaction.id,
+        type: isCharge ? "charge" : refundTransactionTypes.includes(transaction.type) ? "refund" : "other",
+        amountCents: transaction.amount,
+        feeCents: transaction.fee,
+        netCents: transaction.net,
+        charge: isCharge && source && typeof source === "object" && source.object === "charge"
+          ? toCharge(source as Stripe.Charge)
+          : null,
+      };
+    }
+  }
+
+  async *listPayouts(start: Date, end: Date): AsyncIterable<Payout> {
+    for await (const payout of this.stripe.payouts.list({ created: createdBetween(start, end), limit: 100 })) {
+      yield {
+        id: payout.id,
+        amountCents: payout.amount,
+        currency: payout.currency,
+        status: payout.status,
+        failureCode: payout.failure_code,
+        failureMessage: payout.failure_message,
+        arrivalDate: new Date(payout.arrival_date * 1000).toISOString(),
+      };
+    }
+  }
+
+  async findCheckoutSessionId(paymentIntentId: string): Promise<string | null> {
+    const sessions = await this.stripe.checkout.sessions.list({ payment_intent: paymentIntentId, limit: 1 });
+    return sessions.data[0]?.id ?? null;
+  }
+
+  async getPaymentStatus(paymentIntentId: string): Promise<PaymentStatus> {
+    const paymentIntent = await this.stripe.paymentIntents.retrieve(paymentIntentId);
+    return {
+      status: paymentIntent.status,
+      amountReceivedCents: paymentIntent.amount_received,
+      currency: paymentIntent.currency,
+    };
+  }
+
+  // Work out which payment method was actually used - the session only lists the allowed ones
+  async getPaymentDetails(paymentIntentId: string): Promise<PaymentDetails> {
+    const paymentIntent = await this.stripe.paymentIntents.retrieve(paymentIntentId, {
+      expand: ["payment_method", "latest_charge.balance_transaction"],
+    });
+    const paymentMethod = paymentIntent.payment_method as Stripe.PaymentMethod | null;
+    const charge = typeof paymentIntent.latest_charge === "object" ? paymentIntent.latest_charge : null;
+    // ACH charges get their balance transaction when the bank settles
+    const balanceTransaction = typeof charge?.balance_transaction === "object" ? charge.balance_transaction : null;
+    const card = charge?.payment_method_details?.card ?? paymentMethod?.card;
+    const bankAccount = charge?.payment_method_details?.us_bank_account ?? paymentMethod?.us_bank_account;
+    const address = charge?.billing_details?.address ?? paymentMethod?.billing_details?.address;
+
+    return {
+      methodType: paymentMethod?.type === "us_bank_account" ? "ach" : "card",
+      paymentMethodId: paymentMethod?.id ?? null,
+      chargeId: charge?.id ?? null,
+      cardBrand: card?.brand ?? null,
+      bankName: bankAccount?.bank_name ?? null,
+      last4: card?.last4 ?? bankAccount?.last4 ?? null,
+      grossCents: balanceTransaction?.amount ?? charge?.amount ?? null,
+      feeCents: balanceTransaction?.fee ?? null,
+      netCents: balanceTransaction?.net ?? null,
+      receiptUrl: charge?.receipt_url ?? null,
+      riskLevel: charge?.outcome?.risk_level ?? null,
+      billingName: charge?.billing_details?.name ?? paymentMethod?.billing_details?.name ?? null,
+      billingEmail: charge?.billing_details?.email ?? paymentMethod?.billing_details?.email ?? null,
+      billingPhone: charge?.billing_details?.phone ?? paymentMethod?.billing_details?.phone ?? null,
+      billingAddress: address
+        ? {
+          line1: address.line1,
+          line2: address.line2,
+          city: address.city,
+          state: address.state,
+          postal_code: address.postal_code,
+          country: address.country,
+        }
+        : null,
+    };
+  }
+}
@@ -0,0 +1,125 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.57.2";
+
+// Functions describe Zoho updates with our canonical enrollment fields and
+// values, e.g. { status: "paid", payment_date }. They are turned into Zoho API
+// names and picklist values when the update is delivered, using the module's
+// overrides in zoho_field_mappings and zoho_value_mappings, so renaming a field
+// in Zoho needs no deploy. Keys that are not canonical fields are sent as they
+// are, which keeps writes queued before the mapping existed working.
+
+// Zoho API name for each canonical field unless overridden for the module
+export const defaultZohoFields = {
+  status: "Enrollment_Status",
+  enrollment_link: "Enrollment_Link",
+  enrollment_date: "Enrollment_Date",
+  link_expires_at: "Enrollment_Expires_At",
+  token_last4: "Enrollment_Token_Last4",
+  payment_method: "Payment_Method_Stripe",
+  stripe_session_id: "Stripe_Session_ID",
+  payment_date: "Payment_Date",
+  processing_date: "Processing_Date",
+  payment_failed_date: "Payment_Failed_Date",
+  reversed_date: "Reversed_Date",
+  dispute_date: "Dispute_Date",
+  expired_date: "Expired_Date",
+  canceled_date: "Canceled_Date",
+  refund_date: "Refund_Date",
+  refunded_amount: "Refunded_Amount",
+  payment_adjustment: "Payment_Adjustment",
+  payment_adjustment_label: "Payment_Adjustment_Label",
+  payer_name: "Payer_Name",
+  payer_email: "Payer_Email",
+  mailing_street: "Mailing_Street",
+  mailing_city: "Mailing_City",
+  mailing_state: "Mailing_State",
+  mailing_zip: "Mailing_Zip",
+  mailing_country: "Mailing_Country",
+} as const;
+
+export type CanonicalZohoField = keyof typeof defaultZohoFields;
+
+// A Zoho update in canonical terms
+export type EnrollmentZohoFields = Partial<Record<CanonicalZohoField, unknown>>;
+
+export type MappedValueField = "status" | "payment_method";
+
+// Picklist value for each of our values unless overridden for the module
+export const defaultZohoValues: Record<MappedValueField, Record<string, string>> = {
+  status: {
+    created: "created",
+    processing: "Processing",
+    paid: "Paid",
+    partially_paid: "Partially Paid",
+    failed: "Failed",
+    expired: "Expired",
+    canceled: "Canceled",
+    refunded: "Refunded",
+    partially_refunded: "Partially Refunded",
+    reversed: "Reversed",
+    disputed: "Disputed",
+  },
+  payment_method: {
+    card: "Card",
+    ach: "ACH",
+  },
+};
+
+export interface ZohoFieldMapping {
+  fields: Record<CanonicalZohoField, string | null>; // null when the field is not synced
+  values: Record<MappedValueField, Record<string, string>>;
+}
+
+// Mappings change rarely; a worker run reuses them across items
+const CACHE_TTL_MS = 60 * 1000;
+const mappingCache = new Map<string, { mapping: ZohoFieldMapping; loadedAt: number }>();
+
+const isCanonicalField = (key: string): key is CanonicalZohoField => key in defaultZohoFields;
+
+export async function loadZohoFieldMapping(
+  supabase: SupabaseClient,
+  module: string,
+  bypassCache = false,
+): Promise<ZohoFieldMapping> {
+  const cached = mappingCache.get(module);
+  if (!bypassCache && cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) return cached.mapping;
+
+  const [{ data: fieldRows, error: fieldsError }, { data: valueRows, error: valuesError }] = await Promise.all([
+    supabase.from("zoho_field_mappings").select("canonical_field, zoho_field, sync_enabled").eq("zoho_module", module),
+    supabase.from("zoho_value_mappings").select("canonical_field, canonical_value, zoho_value").eq("zoho_module", module),
+  ]);
+  if (fieldsError) throw new Error(`Failed to load Zoho field mapping: ${fieldsError.message}`);
+  if (valuesError) throw new Error(`Failed to load Zoho value mapping: ${valuesError.message}`);
+
+  const mapping: ZohoFieldMapping = {
+    fields: { ...defaultZohoFields },
+    values: { status: { ...defaultZohoValues.status }, payment_method: { ...defaultZohoValues.payment_method } },
+  };
+  for (const row of fieldRows || []) {
+    if (isCanonicalField(row.canonical_field)) {
+      mapping.fields[row.canonical_field] = row.sync_enabled ? row.zoho_field.trim() : null;
+    }
+  }
+  for (const row of valueRows || []) {
+    const field = row.canonical_field as MappedValueField;
+    if (mapping.values[field]) mapping.values[field][row.canonical_value] = row.zoho_value;
+  }
+
+  mappingCache.set(module, { mapping, loadedAt: Date.now() });
+  return mapping;
+}
+
+// Translate a canonical update into Zoho API names and picklist values
+export function toZohoFields(mapping: ZohoFieldMapping, data: Record<string, unknown>): Record<string, unknown> {
+  const zohoFields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (!isCanonicalField(key)) {
+      zohoFields[key] = value;
+      continue;
+    }
+    const zohoField = mapping.fields[key];
+    if (!zohoField) continue;
+    const values = mapping.values[key as MappedValueField];
+    zohoFields[zohoField] = values && typeof value === "string" ? values[value] ?? value : value;
+  }
+  return zohoFields;
+}
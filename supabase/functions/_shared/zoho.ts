@@ -0,0 +1,366 @@
+import { createClient } from "npm:@supabase/supabase-js@2.57.2";
+
+// Zoho CRM client shared by every function that talks to Zoho. The datacenter
+// comes from ZOHO_DATACENTER (us, eu, in or au; us when unset) and must match
+// the one the refresh token was issued in. Access tokens are cached in memory
+// and in zoho_access_tokens, because Zoho only issues a few per refresh token
+// every ten minutes. Requests are retried on rate limits, and idempotent ones
+// also on server and network errors. They return { data, error } rather than
+// throwing.
+
+export type ZohoDatacenter = "us" | "eu" | "in" | "au";
+
+const datacenters: Record<ZohoDatacenter, { accountsUrl: string; apiUrl: string }> = {
+  us: { accountsUrl: "https://accounts.zoho.com", apiUrl: "https://www.zohoapis.com" },
+  eu: { accountsUrl: "https://accounts.zoho.eu", apiUrl: "https://www.zohoapis.eu" },
+  in: { accountsUrl: "https://accounts.zoho.in", apiUrl: "https://www.zohoapis.in" },
+  au: { accountsUrl: "https://accounts.zoho.com.au", apiUrl: "https://www.zohoapis.com.au" },
+};
+
+export interface ZohoError {
+  status: number | null; // HTTP status; null when Zoho could not be reached
+  code: string; // Zoho's error code, e.g. INVALID_DATA, or one of ours
+  message: string;
+}
+
+export type ZohoResult<T> = { data: T; error: null } | { data: null; error: ZohoError };
+
+const CRM_API_VERSION = "v6";
+const MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+// Zoho CRM allows 10 to 25 concurrent calls per org depending on the edition;
+// one function run stays well under that
+const MAX_CONCURRENT_REQUESTS = 5;
+// Refresh a little before Zoho expires the token
+const TOKEN_EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const failure = (status: number | null, code: string, message: string): ZohoResult<never> =>
+  ({ data: null, error: { status, code, message } });
+
+export function zohoDatacenter(): ZohoDatacenter {
+  const configured = (Deno.env.get("ZOHO_DATACENTER") || "us").toLowerCase();
+  if (configured in datacenters) return configured as ZohoDatacenter;
+  console.error(`Unknown ZOHO_DATACENTER "${configured}", using us`);
+  return "us";
+}
+
+export const zohoAccountsUrl = (datacenter = zohoDatacenter()) => datacenters[datacenter].accountsUrl;
+
+export const zohoApiUrl = (datacenter = zohoDatacenter()) => datacenters[datacenter].apiUrl;
+
+// Datacenter of an accounts server URL, or null when it is not a Zoho one
+export function datacenterForAccountsUrl(accountsUrl: string): ZohoDatacenter | null {
+  const match = Object.entries(datacenters).find(([, urls]) => urls.accountsUrl === accountsUrl.replace(/\/+$/, ""));
+  return match ? match[0] as ZohoDatacenter : null;
+}
+
+// Zoho datetime fields need an explicit offset (yyyy-MM-ddTHH:mm:ss+00:00),
+// not the "Z" suffix
+export function formatZohoDateTime(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, "+00:00");
+}
+
+// Zoho date fields (yyyy-MM-dd)
+export const formatZohoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+// Backoff for the next attempt: Zoho's Retry-After when it sends one,
+// otherwise exponential with jitter
+function backoffMs(attempt: number, response: Response | null): number {
+  const retryAfter = Number(response?.headers.get("Retry-After"));
+  if (retryAfter > 0) return Math.min(retryAfter * 1000, MAX_BACKOFF_MS);
+  const exponential = Math.min(BASE_BACKOFF_MS * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+  return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+// A POST that failed with a 5xx or a dropped connection may still have been
+// applied, so sending it again could add a second note or attachment. Those
+// writes are left to the CRM outbox; a 429 was never processed and is safe.
+const idempotentMethods = ["GET", "HEAD", "PUT", "DELETE"];
+
+const isRetryable = (status: number, idempotent: boolean) => status === 429 || (idempotent && status >= 500);
+
+// Simple semaphore so a batch job does not exceed Zoho's concurrency limit
+let activeRequests = 0;
+const waiting: (() => void)[] = [];
+
+async function withRequestSlot<T>(run: () => Promise<T>): Promise<T> {
+  if (activeRequests >= MAX_CONCURRENT_REQUESTS) {
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  }
+  activeRequests++;
+  try {
+    return await run();
+  } finally {
+    activeRequests--;
+    waiting.shift()?.();
+  }
+}
+
+// fetch with retries on 429, and on network errors and 5xx when the request is idempotent
+async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  idempotent = idempotentMethods.includes((init.method || "GET").toUpperCase()),
+): Promise<Response | ZohoError> {
+  let lastError: ZohoError = { status: null, code: "NETWORK_ERROR", message: "Zoho request failed" };
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    let response: Response | null = null;
+    try {
+      response = await withRequestSlot(() => fetch(url, init));
+    } catch (error) {
+      lastError = { status: null, code: "NETWORK_ERROR", message: error instanceof Error ? error.message : String(error) };
+      if (!idempotent) return lastError;
+    }
+
+    if (response && !isRetryable(response.status, idempotent)) return response;
+    if (response) {
+      lastError = {
+        status: response.status,
+        code: response.status === 429 ? "RATE_LIMITED" : "SERVER_ERROR",
+        message: await response.text(),
+      };
+    }
+
+    if (attempt < MAX_ATTEMPTS) {
+      const delay = backoffMs(attempt, response);
+      console.warn(`Zoho request ${url} failed (${lastError.code}), retrying in ${Math.round(delay)}ms`);
+      await sleep(delay);
+    }
+  }
+  return lastError;
+}
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+const tokenCache = new Map<ZohoDatacenter, CachedToken>();
+
+function tokenStore() {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  return supabaseUrl && serviceRoleKey ? createClient(supabaseUrl, serviceRoleKey) : null;
+}
+
+async function loadStoredToken(datacenter: ZohoDatacenter): Promise<CachedToken | null> {
+  const store = tokenStore();
+  if (!store) return null;
+  const { data, error } = await store
+    .from("zoho_access_tokens")
+    .select("access_token, expires_at")
+    .eq("datacenter", datacenter)
+    .maybeSingle();
+  if (error || !data) return null;
+  return { accessToken: data.access_token, expiresAt: new Date(data.expires_at).getTime() };
+}
+
+async function saveStoredToken(datacenter: ZohoDatacenter, token: CachedToken): Promise<void> {
+  const store = tokenStore();
+  if (!store) return;
+  const { error } = await store
+    .from("zoho_access_tokens")
+    .upsert({ datacenter, access_token: token.accessToken, expires_at: new Date(token.expiresAt).toISOString() });
+  if (error) console.error("Failed to cache Zoho access token:", error);
+}
+
+// Cached access token, refreshed once it is about to expire. forceRefresh
+// skips the cache after Zoho has rejected the cached token.
+export async function getZohoAccessToken(forceRefresh = false): Promise<ZohoResult<string>> {
+  const datacenter = zohoDatacenter();
+  const isFresh = (token: CachedToken | null | undefined): token is CachedToken =>
+    !!token && token.expiresAt - TOKEN_EXPIRY_MARGIN_MS > Date.now();
+
+  if (!forceRefresh) {
+    const cached = tokenCache.get(datacenter);
+    if (isFresh(cached)) return { data: cached.accessToken, error: null };
+
+    const stored = await loadStoredToken(datacenter);
+    if (isFresh(stored)) {
+      tokenCache.set(datacenter, stored);
+      return { data: stored.accessToken, error: null };
+    }
+  }
+
+  const refreshToken = Deno.env.get("ZOHO_REFRESH_TOKEN");
+  const clientId = Deno.env.get("ZOHO_CLIENT_ID");
+  const clientSecret = Deno.env.get("ZOHO_CLIENT_SECRET");
+
+  if (!refreshToken || !clientId || !clientSecret) {
+    return failure(null, "NOT_CONFIGURED", "Zoho credentials not configured");
+  }
+
+  // Refreshing again only issues another access token, so the POST is retried
+  const response = await fetchWithRetry(`${zohoAccountsUrl(datacenter)}/oauth/v2/token`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: new URLSearchParams({
+      refresh_token: refreshToken,
+      client_id: clientId,
+      client_secret: clientSecret,
+      grant_type: "refresh_token",
+    }),
+  }, true);
+  if (!(response instanceof Response)) return { data: null, error: response };
+
+  // Zoho reports a bad refresh token with a 200 and an error field
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok || body.error || !body.access_token) {
+    return failure(response.status, String(body.error || "TOKEN_REFRESH_FAILED"), `Failed to refresh Zoho token: ${JSON.stringify(body)}`);
+  }
+
+  const token = { accessToken: body.access_token, expiresAt: Date.now() + (body.expires_in || 3600) * 1000 };
+  tokenCache.set(datacenter, token);
+  await saveStoredToken(datacenter, token);
+  return { data: token.accessToken, error: null };
+}
+
+// Send a CRM API request with the cached access token. An expired token is
+// refreshed and the call made once more.
+async function authorizedFetch(url: string, init: RequestInit): Promise<Response | ZohoError> {
+  for (const forceRefresh of [false, true]) {
+    const token = await getZohoAccessToken(forceRefresh);
+    if (token.error) return token.error;
+
+    const response = await fetchWithRetry(url, {
+      ...init,
+      headers: { ...init.headers, Authorization: `Zoho-oauthtoken ${token.data}` },
+    });
+    if (!(response instanceof Response)) return response;
+
+    if (response.status === 401 && !forceRefresh) {
+      await response.body?.cancel();
+      tokenCache.delete(zohoDatacenter());
+      continue;
+    }
+    return response;
+  }
+
+  return { status: 401, code: "INVALID_TOKEN", message: "Zoho rejected a freshly refreshed access token" };
+}
+
+// Call a CRM API path such as "Deals/123" or "settings/modules". A FormData
+// body is sent as multipart, anything else as JSON.
+export async function zohoRequest<T = Record<string, unknown>>(
+  path: string,
+  init: { method?: string; body?: unknown; apiVersion?: string } = {},
+): Promise<ZohoResult<T>> {
+  const url = `${zohoApiUrl()}/crm/${init.apiVersion || CRM_API_VERSION}/${path}`;
+  const isJson = init.body !== undefined && !(init.body instanceof FormData);
+
+  const response = await authorizedFetch(url, {
+    method: init.method || "GET",
+    ...(isJson && { headers: { "Content-Type": "application/json" } }),
+    ...(init.body !== undefined && { body: isJson ? JSON.stringify(init.body) : init.body as FormData }),
+  });
+  if (!(response instanceof Response)) return { data: null, error: response };
+
+  // No records, e.g. an empty page of a module
+  if (response.status === 204) return { data: {} as T, error: null };
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    return failure(response.status, String(body?.code || "HTTP_ERROR"), String(body?.message || JSON.stringify(body)));
+  }
+
+  // Writes answer 200 or 202 with a status per record
+  const recordError = body?.data?.find?.((record: { status?: string }) => record?.status === "error");
+  if (recordError) {
+    return failure(response.status, String(recordError.code || "RECORD_ERROR"), `${recordError.message}${recordError.details ? ` ${JSON.stringify(recordError.details)}` : ""}`);
+  }
+  return { data: body as T, error: null };
+}
+
+// Update fields on a CRM record
+export async function updateZohoRecord(
+  module: string,
+  recordId: string,
+  data: Record<string, unknown>,
+): Promise<ZohoResult<null>> {
+  const result = await zohoRequest(`${module}/${recordId}`, { method: "PUT", body: { data: [data] } });
+  if (result.error) {
+    console.error(`Failed to update Zoho ${module}/${recordId}: ${result.error.code} ${result.error.message}`);
+    return result;
+  }
+  console.log(`Updated Zoho ${module}/${recordId}`);
+  return { data: null, error: null };
+}
+
+// Add a note to a CRM record
+export async function addZohoNote(
+  module: string,
+  recordId: string,
+  title: string,
+  content: string,
+): Promise<ZohoResult<null>> {
+  const result = await zohoRequest("Notes", {
+    method: "POST",
+    body: {
+      data: [
+        {
+          Parent_Id: recordId,
+          se_module: module,
+          Note_Title: title,
+          Note_Content: content,
+        },
+      ],
+    },
+  });
+  if (result.error) {
+    console.error(`Failed to add Zoho note to ${module}/${recordId}: ${result.error.code} ${result.error.message}`);
+    return result;
+  }
+  return { data: null, error: null };
+}
+
+// Attach a file to a CRM record. Returns the attachment ID.
+export async function uploadZohoAttachment(
+  module: string,
+  recordId: string,
+  fileName: string,
+  bytes: Uint8Array,
+  contentType = "application/pdf",
+): Promise<ZohoResult<string>> {
+  const form = new FormData();
+  form.append("file", new Blob([bytes], { type: contentType }), fileName);
+
+  const result = await zohoRequest<{ data?: { details?: { id?: string } }[] }>(
+    `${module}/${recordId}/Attachments`,
+    { method: "POST", body: form },
+  );
+  if (result.error) {
+    console.error(`Failed to attach ${fileName} to Zoho ${module}/${recordId}: ${result.error.code} ${result.error.message}`);
+    return result;
+  }
+
+  const attachmentId = result.data.data?.[0]?.details?.id;
+  if (!attachmentId) {
+    return failure(null, "UNEXPECTED_RESPONSE", `Zoho did not return an attachment ID for ${fileName}`);
+  }
+  console.log(`Attached ${fileName} to Zoho ${module}/${recordId}`);
+  return { data: attachmentId, error: null };
+}
+
+// Download a file attached to a CRM record
+export async function downloadZohoAttachment(
+  module: string,
+  recordId: string,
+  attachmentId: string,
+): Promise<ZohoResult<Uint8Array>> {
+  const response = await authorizedFetch(
+    `${zohoApiUrl()}/crm/${CRM_API_VERSION}/${module}/${recordId}/Attachments/${attachmentId}`,
+    { method: "GET" },
+  );
+  if (!(response instanceof Response)) return { data: null, error: response };
+
+  if (!response.ok || response.status === 204) {
+    const body = await response.json().catch(() => null);
+    return failure(response.status, String(body?.code || "NOT_FOUND"), String(body?.message || "Attachment not found in Zoho"));
+  }
+  return { data: new Uint8Array(await response.arrayBuffer()), error: null };
+}
@@ -1,20 +1,27 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2.57.2";
+import { createInstallments, validatePaymentSchedule, type ScheduleEntry } from "../_shared/payment-schedule.ts";
+import { ALLOWED_PAYMENT_METHODS, validateAllowedPaymentMethods, type AllowedPaymentMethod } from "../_shared/payment-methods.ts";
+import { lineItemsTotal, resolveLineItems, saveLineItems, type LineItem, type LineItemInput } from "../_shared/line-items.ts";
+import { payerFields, validatePayer, type PayerInput } from "../_shared/payer.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-interface AdminEnrollmentRequest {
+interface AdminEnrollmentRequest extends PayerInput {
   patient_name: string;
   patient_email?: string;
   patient_phone?: string;
   patient_id?: string;
   policy_id?: string;
-  amount_cents: number;
+  amount_cents?: number; // Optional when line_items are given
   currency?: string;
   expires_at: string; // ISO timestamp
+  line_items?: LineItemInput[];
+  payment_schedule?: ScheduleEntry[]; // Deposit first, then installments; must add up to the amount
+  allowed_payment_methods?: AllowedPaymentMethod[]; // Defaults to card, ACH and wallets
 }
 
 function generateSecureToken(length = 32): string {
@@ -94,10 +101,10 @@ serve(async (req) => {
     const body: AdminEnrollmentRequest = await req.json();
 
     // Validate required fields
-    if (!body.patient_name || !body.amount_cents || !body.expires_at) {
+    if (!body.patient_name || (!body.amount_cents && !body.line_items) || !body.expires_at) {
       return new Response(JSON.stringify({ 
         error: "Missing required fields",
-        required: ["patient_name", "amount_cents", "expires_at"]
+        required: ["patient_name", "amount_cents or line_items", "expires_at"]
       }), {
         status: 400,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -122,6 +129,59 @@ serve(async (req) => {
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
 
+    const currency = body.currency ?? "usd";
+
+    // Line items are priced from the catalog; the enrollment amount is their total
+    let lineItems: LineItem[] = [];
+    if (body.line_items !== undefined) {
+      const resolved = await resolveLineItems(supabaseAdmin, body.line_items, currency);
+      if (resolved.error) {
+        return new Response(JSON.stringify({ error: resolved.error }), {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      lineItems = resolved.items;
+    }
+
+    const amountCents = lineItems.length > 0 ? lineItemsTotal(lineItems) : body.amount_cents!;
+    if (lineItems.length > 0 && body.amount_cents && body.amount_cents !== amountCents) {
+      return new Response(JSON.stringify({
+        error: `amount_cents (${body.amount_cents}) does not match the line item total (${amountCents})`
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (body.payment_schedule !== undefined) {
+      const scheduleError = validatePaymentSchedule(amountCents, body.payment_schedule);
+      if (scheduleError) {
+        return new Response(JSON.stringify({ error: scheduleError }), {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+    }
+
+    if (body.allowed_payment_methods !== undefined) {
+      const methodsError = validateAllowedPaymentMethods(body.allowed_payment_methods);
+      if (methodsError) {
+        return new Response(JSON.stringify({ error: methodsError }), {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+    }
+
+    const payerError = validatePayer(body);
+    if (payerError) {
+      return new Response(JSON.stringify({ error: payerError }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
     // Get policy details (either specified or default)
     let policy;
     if (body.policy_id) {
@@ -168,8 +228,8 @@ serve(async (req) => {
         patient_phone: body.patient_phone || null,
         patient_id: body.patient_id || null,
         policy_id: policy.id,
-        amount_cents: body.amount_cents,
-        currency: body.currency ?? "usd",
+        amount_cents: amountCents,
+        currency,
         terms_url: policy.terms_url,
         privacy_url: policy.privacy_url,
         terms_version: policy.version,
@@ -177,6 +237,8 @@ serve(async (req) => {
         token_hash: tokenHash,
         token_last4: tokenLast4,
         expires_at: expiresAt.toISOString(),
+        allowed_payment_methods: body.allowed_payment_methods ?? ALLOWED_PAYMENT_METHODS,
+        ...payerFields(body),
         status: "created",
       })
       .select()
@@ -190,6 +252,36 @@ serve(async (req) => {
       });
     }
 
+    if (lineItems.length > 0) {
+      const { error: lineItemsError } = await saveLineItems(supabaseAdmin, enrollment.id, lineItems);
+      if (lineItemsError) {
+        console.error("Failed to save line items:", lineItemsError);
+        await supabaseAdmin.from("enrollments").delete().eq("id", enrollment.id);
+        return new Response(JSON.stringify({ error: `Failed to save line items: ${lineItemsError}` }), {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+    }
+
+    if (body.payment_schedule) {
+      const { error: scheduleError } = await createInstallments(
+        supabaseAdmin,
+        enrollment.id,
+        body.payment_schedule,
+        currency,
+      );
+      if (scheduleError) {
+        // Don't leave behind a link that would charge the full amount up front
+        console.error("Failed to create payment schedule:", scheduleError);
+        await supabaseAdmin.from("enrollments").delete().eq("id", enrollment.id);
+        return new Response(JSON.stringify({ error: `Failed to create payment schedule: ${scheduleError}` }), {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+    }
+
     // Log the created event
     await supabaseAdmin.from("enrollment_events").insert({
       enrollment_id: enrollment.id,
@@ -197,11 +289,16 @@ serve(async (req) => {
       event_data: {
         source: "admin_dashboard",
         created_by: user.id,
-        amount_cents: body.amount_cents,
+        amount_cents: amountCents,
         expires_at: expiresAt.toISOString(),
         policy_id: policy.id,
         policy_name: policy.name,
         policy_version: policy.version,
+        installments: body.payment_schedule?.length ?? null,
+        third_party_payer: !!payerFields(body).payer_email,
+        line_items: lineItems.length > 0
+          ? lineItems.map((item) => ({ name: item.name, quantity: item.quantity, amount_cents: item.amount_cents }))
+          : null,
       },
     });
 
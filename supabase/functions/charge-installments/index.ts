@@ -0,0 +1,265 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.2";
+import { getPaymentProvider } from "../_shared/payment-provider.ts";
+import { markInstallmentFailed, markInstallmentPaid } from "../_shared/payment-schedule.ts";
+import { queueZohoNote, queueZohoUpdate } from "../_shared/crm-sync.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface InstallmentEnrollment {
+  id: string;
+  status: string;
+  patient_name: string | null;
+  payment_method_type: string | null;
+  stripe_customer_id: string | null;
+  stripe_payment_method_id: string | null;
+  zoho_module: string;
+  zoho_record_id: string;
+}
+
+// A claim still processing with no payment recorded after this long was left by
+// a run that crashed mid-charge
+const STALE_CLAIM_MINUTES = 30;
+
+// How long the provider keeps an idempotency key (Stripe: 24 hours), less a margin.
+// After that a replayed attempt could charge again, so staff check it instead.
+const IDEMPOTENCY_WINDOW_HOURS = 23;
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Only the scheduled job may charge saved payment methods. It authenticates
+  // with the service role key.
+  if (req.headers.get("Authorization") !== `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+  );
+
+  try {
+    const paymentProvider = getPaymentProvider();
+
+    const now = new Date().toISOString();
+    const today = now.split("T")[0];
+    const staleBefore = new Date(Date.now() - STALE_CLAIM_MINUTES * 60 * 1000).toISOString();
+    const idempotencyExpiredBefore = new Date(Date.now() - IDEMPOTENCY_WINDOW_HOURS * 60 * 60 * 1000).toISOString();
+
+    // Installments due today or earlier, failed ones whose retry is due, and
+    // stale claims. Only plans that are still running are charged - refunds,
+    // reversals and disputes pause collection until staff step in.
+    const { data: dueInstallments, error: fetchError } = await supabase
+      .from("enrollment_installments")
+      .select(`
+        id, enrollment_id, sequence, amount_cents, currency, status, attempt_count, last_attempt_at,
+        enrollments!inner (
+          id, status, patient_name, payment_method_type,
+          stripe_customer_id, stripe_payment_method_id,
+          zoho_module, zoho_record_id
+        )
+      `)
+      .gt("sequence", 1)
+      .lte("due_date", today)
+      .or([
+        "status.eq.scheduled",
+        `and(status.eq.failed,next_retry_at.lte.${now})`,
+        `and(status.eq.processing,stripe_payment_intent_id.is.null,last_attempt_at.lt.${staleBefore})`,
+      ].join(","))
+      .eq("enrollments.status", "partially_paid")
+      .order("sequence", { ascending: true });
+
+    if (fetchError) {
+      console.error("Failed to fetch due installments:", fetchError);
+      return new Response(JSON.stringify({ error: "Database error" }), {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (!dueInstallments || dueInstallments.length === 0) {
+      console.log("No installments due");
+      return new Response(JSON.stringify({ charged: 0, processing: 0, failed: 0 }), {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    console.log(`Found ${dueInstallments.length} installments due`);
+
+    let chargedCount = 0;
+    let processingCount = 0;
+    let failedCount = 0;
+
+    // Never charge a patient twice in one run, even if several installments are overdue
+    const chargedEnrollments = new Set<string>();
+
+    for (const installment of dueInstallments) {
+      if (chargedEnrollments.has(installment.enrollment_id)) continue;
+      chargedEnrollments.add(installment.enrollment_id);
+
+      const enrollment = installment.enrollments as unknown as InstallmentEnrollment;
+
+      // A stale claim replays its attempt with the same idempotency key, so the
+      // provider returns the payment the crashed run created instead of charging again
+      const resumed = installment.status === "processing";
+      const attempt = resumed ? installment.attempt_count : installment.attempt_count + 1;
+
+      if (resumed && installment.last_attempt_at < idempotencyExpiredBefore) {
+        const lastError = "Charge attempt was interrupted. Check the payment provider before retrying.";
+        const { data: abandoned } = await supabase
+          .from("enrollment_installments")
+          .update({ status: "failed", failed_at: now, last_error: lastError, next_retry_at: null })
+          .eq("id", installment.id)
+          .eq("status", "processing")
+          .is("stripe_payment_intent_id", null)
+          .select("id")
+          .maybeSingle();
+
+        if (abandoned) {
+          await supabase.from("enrollment_events").insert({
+            enrollment_id: installment.enrollment_id,
+            event_type: "installment_failed",
+            event_data: {
+              installment_id: installment.id,
+              sequence: installment.sequence,
+              amount_cents: installment.amount_cents,
+              attempt,
+              error: lastError,
+              next_retry_at: null,
+            },
+          });
+          failedCount++;
+        }
+        continue;
+      }
+
+      // Claim the installment so an overlapping run or webhook cannot charge it again.
+      // A replayed attempt keeps its claim: the same key cannot charge twice.
+      if (resumed) {
+        console.log(`Installment ${installment.id} was left processing, replaying attempt ${attempt}`);
+      } else {
+        const { data: claimed, error: claimError } = await supabase
+          .from("enrollment_installments")
+          .update({
+            status: "processing",
+            attempt_count: attempt,
+            last_attempt_at: now,
+            next_retry_at: null,
+          })
+          .eq("id", installment.id)
+          .eq("status", installment.status)
+          .select("id")
+          .maybeSingle();
+
+        if (claimError || !claimed) {
+          console.log(`Installment ${installment.id} was claimed elsewhere, skipping`);
+          continue;
+        }
+      }
+
+      let errorMessage: string | null = null;
+
+      if (!enrollment.stripe_customer_id || !enrollment.stripe_payment_method_id) {
+        errorMessage = "No saved payment method on file";
+      } else {
+        try {
+          const payment = await paymentProvider.chargeSavedPaymentMethod({
+            customerId: enrollment.stripe_customer_id,
+            paymentMethodId: enrollment.stripe_payment_method_id,
+            methodType: enrollment.payment_method_type === "ach" ? "ach" : "card",
+            amountCents: installment.amount_cents,
+            currency: installment.currency || "usd",
+            description: `Installment ${installment.sequence - 1} for ${enrollment.patient_name || "patient"}`,
+            metadata: {
+              enrollment_id: installment.enrollment_id,
+              installment_id: installment.id,
+              zoho_record_id: enrollment.zoho_record_id,
+              zoho_module: enrollment.zoho_module,
+            },
+            // One payment per attempt, so a crashed run cannot double-charge
+            idempotencyKey: `installment-${installment.id}-attempt-${attempt}`,
+          });
+
+          if (payment.id) {
+            await supabase
+              .from("enrollment_installments")
+              .update({ stripe_payment_intent_id: payment.id })
+              .eq("id", installment.id);
+          }
+
+          if (payment.status === "succeeded") {
+            const result = await markInstallmentPaid(supabase, installment.id, payment.id!);
+            chargedCount++;
+
+            if (result?.enrollment) {
+              if (result.planCompleted) {
+                await queueZohoUpdate(supabase, enrollment, {
+                  status: "paid",
+                });
+              }
+              await queueZohoNote(
+                supabase,
+                enrollment,
+                result.planCompleted ? "Payment Plan Completed" : "Installment Paid",
+                `Installment ${installment.sequence - 1} of $${(installment.amount_cents / 100).toFixed(2)} collected.${result.planCompleted ? ` Payment plan of $${(result.enrollment.amount_cents / 100).toFixed(2)} is fully paid.` : ""}`
+              );
+            }
+            continue;
+          }
+
+          if (payment.status === "processing") {
+            // ACH debits settle in a few days; stripe-webhook records the outcome
+            processingCount++;
+            continue;
+          }
+
+          errorMessage = payment.failureMessage;
+        } catch (err) {
+          errorMessage = err instanceof Error ? err.message : "Unknown error";
+        }
+      }
+
+      const result = await markInstallmentFailed(supabase, installment.id, errorMessage);
+      failedCount++;
+
+      if (result) {
+        await queueZohoNote(
+          supabase,
+          enrollment,
+          result.willRetry ? "Installment Failed" : "Installment Failed - Action Needed",
+          `Installment ${installment.sequence - 1} of $${(installment.amount_cents / 100).toFixed(2)} failed (attempt ${attempt}): ${errorMessage || "Unknown error"}. ${result.willRetry ? `Next attempt ${result.nextRetryAt}.` : "No further automatic retries."}`
+        );
+      }
+    }
+
+    console.log(`Installments: ${chargedCount} charged, ${processingCount} processing, ${failedCount} failed`);
+
+    return new Response(JSON.stringify({
+      charged: chargedCount,
+      processing: processingCount,
+      failed: failedCount,
+    }), {
+      status: 200,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  } catch (error) {
+    console.error("Error in charge-installments:", error);
+    return new Response(JSON.stringify({
+      error: error instanceof Error ? error.message : "Internal server error",
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
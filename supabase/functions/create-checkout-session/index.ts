@@ -1,6 +1,19 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2.57.2";
-import Stripe from "npm:stripe@18.5.0";
+import { getPaymentProvider, type CheckoutLineItem, type PaymentMethodType } from "../_shared/payment-provider.ts";
+import { loadInstallments } from "../_shared/payment-schedule.ts";
+import { loadLineItems } from "../_shared/line-items.ts";
+import { applyPromoCode, normalizePromoCode } from "../_shared/promo-codes.ts";
+import { loadPaymentMethodRules, paymentOptionsFor } from "../_shared/payment-methods.ts";
+import {
+  createEnrollmentPayment,
+  loadEnrollmentPayments,
+  summarizePayments,
+  validatePaymentAmount,
+} from "../_shared/enrollment-payments.ts";
+import { claimCheckoutSession, markCheckoutSession } from "../_shared/checkout-sessions.ts";
+import { hasThirdPartyPayer, isPayerLink, payerAcknowledgementText } from "../_shared/payer.ts";
+import { sendPayerLinkEmail } from "../_shared/send-payer-link-email.ts";
 // PDF generation has been moved to stripe-webhook for accurate payment-date timestamps
 
 const corsHeaders = {
@@ -14,6 +27,25 @@ interface CheckoutRequest {
   consent_ip?: string;
   consent_user_agent?: string;
   signature_data?: string;
+  // "embedded" returns a client secret for the payment form on the enrollment page;
+  // hosted checkout is used when it is omitted or the provider has no embedded form
+  mode?: "hosted" | "embedded";
+  // Chosen on the enrollment page when the enrollment allows more than one method
+  payment_method?: PaymentMethodType;
+  // Patient link only: send the third-party payer a fresh link without signing again
+  resend_payer_link?: boolean;
+  // Pay part of the balance now; defaults to the whole balance. Not available on payment plans.
+  amount_cents?: number;
+  // Applied before the first payment. With apply_promo_code the code is applied
+  // without signing or starting checkout, so the page can show the new amount.
+  promo_code?: string;
+  apply_promo_code?: boolean;
+}
+
+function generateSecureToken(length = 32): string {
+  const array = new Uint8Array(length);
+  crypto.getRandomValues(array);
+  return Array.from(array, (b) => b.toString(16).padStart(2, "0")).join("");
 }
 
 async function sha256Hash(data: string): Promise<string> {
@@ -43,10 +75,7 @@ serve(async (req) => {
   );
 
   try {
-    const stripeKey = Deno.env.get("STRIPE_SECRET_KEY");
-    if (!stripeKey) {
-      throw new Error("STRIPE_SECRET_KEY not configured");
-    }
+    const paymentProvider = getPaymentProvider();
 
     const body: CheckoutRequest = await req.json();
 
@@ -57,7 +86,7 @@ serve(async (req) => {
       });
     }
 
-    if (!body.terms_accepted) {
+    if (!body.terms_accepted && !body.resend_payer_link && !body.apply_promo_code) {
       return new Response(JSON.stringify({ error: "Terms must be accepted" }), {
         status: 400,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -67,7 +96,7 @@ serve(async (req) => {
     // Hash the token to find the enrollment
     const tokenHash = await sha256Hash(body.token);
 
-    // Fetch enrollment by token hash (with policy text)
+    // Fetch enrollment by the patient's, the third-party payer's or the retry link's token hash (with policy text)
     const { data: enrollment, error: fetchError } = await supabase
       .from("enrollments")
       .select(`
@@ -77,7 +106,7 @@ serve(async (req) => {
           privacy_text
         )
       `)
-      .eq("token_hash", tokenHash)
+      .or(`token_hash.eq.${tokenHash},payer_token_hash.eq.${tokenHash},retry_token_hash.eq.${tokenHash}`)
       .single();
 
     if (fetchError || !enrollment) {
@@ -95,6 +124,56 @@ serve(async (req) => {
       });
     }
 
+    // Payment plans charge the deposit now and save the payment method for later installments
+    const installments = await loadInstallments(supabase, enrollment.id);
+    const deposit = installments[0];
+
+    // Without a plan the amount can be split across several payments
+    let funding = deposit
+      ? null
+      : summarizePayments(await loadEnrollmentPayments(supabase, enrollment.id), enrollment.amount_cents);
+    const paymentsStarted = !!funding && funding.paidCents + funding.processingCents > 0;
+
+    // Payment plans collect later installments automatically once the deposit is in
+    if (enrollment.status === "partially_paid" && deposit) {
+      return new Response(JSON.stringify({ error: "The deposit for this enrollment has already been paid" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Refunded enrollments cannot be paid again through the same link
+    if (enrollment.status === "refunded" || enrollment.status === "partially_refunded") {
+      return new Response(JSON.stringify({ error: "This enrollment has been refunded" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Reversed payments need a fresh link from staff before retrying
+    if (enrollment.status === "reversed") {
+      return new Response(JSON.stringify({ error: "This payment was reversed. Please contact support for a new payment link." }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Disputed payments are settled with the bank, not by paying again
+    if (enrollment.status === "disputed") {
+      return new Response(JSON.stringify({ error: "This payment is under review. Please contact support." }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Check if canceled (before expiry, so a canceled link is not marked expired)
+    if (enrollment.status === "canceled") {
+      return new Response(JSON.stringify({ error: "This enrollment has been canceled" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
     // Check if expired
     if (new Date(enrollment.expires_at) < new Date()) {
       if (enrollment.status !== "expired") {
@@ -109,140 +188,586 @@ serve(async (req) => {
       });
     }
 
-    // Check if canceled
-    if (enrollment.status === "canceled") {
-      return new Response(JSON.stringify({ error: "This enrollment has been canceled" }), {
+    // Too many failed payments: staff follow up and send a new link
+    if (enrollment.needs_attention_at) {
+      return new Response(JSON.stringify({ error: "We were unable to complete your payment after several attempts. Our team will contact you to complete your enrollment." }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // A promo code comes off the enrollment amount, so it can only be applied
+    // before anything is paid. Entering the applied code again is a no-op.
+    const promoCode = body.promo_code?.trim() ? normalizePromoCode(body.promo_code) : null;
+    if (body.apply_promo_code && !promoCode) {
+      return new Response(JSON.stringify({ error: "Please enter a promo code" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (promoCode && promoCode !== enrollment.promo_code) {
+      const promoError = enrollment.promo_code
+        ? `Promo code ${enrollment.promo_code} has already been applied to this enrollment`
+        : paymentsStarted || enrollment.status === "processing"
+        ? "A promo code can only be applied before the first payment"
+        : null;
+      if (promoError) {
+        return new Response(JSON.stringify({ error: promoError }), {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      const amountBeforeCents = enrollment.amount_cents;
+      const { promo, discountCents, error: applyError } = await applyPromoCode(
+        supabase,
+        enrollment,
+        await loadLineItems(supabase, enrollment.id),
+        promoCode,
+      );
+      if (applyError) {
+        return new Response(JSON.stringify({ error: applyError }), {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      enrollment.amount_cents -= discountCents;
+      enrollment.promo_code_id = promo!.id;
+      enrollment.promo_code = promo!.code;
+      enrollment.promo_discount_cents = discountCents;
+      if (funding) {
+        funding = summarizePayments([], enrollment.amount_cents);
+      }
+
+      await supabase.from("enrollment_events").insert({
+        enrollment_id: enrollment.id,
+        event_type: "promo_code_applied",
+        event_data: {
+          promo_code_id: promo!.id,
+          promo_code: promo!.code,
+          discount_cents: discountCents,
+          amount_before_cents: amountBeforeCents,
+          amount_cents: enrollment.amount_cents,
+          applied_by: isPayerLink(enrollment, tokenHash) ? "payer" : "patient",
+        },
+      });
+
+      console.log(`Applied promo code ${promo!.code} to enrollment ${enrollment.id}`);
+    }
+
+    if (body.apply_promo_code) {
+      return new Response(JSON.stringify({
+        success: true,
+        mode: "promo",
+        promo_code: enrollment.promo_code,
+        promo_discount_cents: enrollment.promo_discount_cents,
+        amount_cents: enrollment.amount_cents,
+      }), {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // What is charged now: the deposit on a payment plan, otherwise the requested
+    // part of the balance
+    if (deposit && body.amount_cents !== undefined) {
+      return new Response(JSON.stringify({ error: "The deposit on a payment plan cannot be split" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (funding && funding.balanceCents === 0) {
+      return new Response(JSON.stringify({ error: "The remaining balance is already being paid by bank transfer" }), {
         status: 400,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
 
+    const chargeCents = deposit ? deposit.amount_cents : body.amount_cents ?? funding!.balanceCents;
+    const amountError = funding && !body.resend_payer_link
+      ? validatePaymentAmount(chargeCents, funding.balanceCents)
+      : null;
+    if (amountError) {
+      return new Response(JSON.stringify({ error: amountError }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    const isPartial = !!funding && chargeCents !== enrollment.amount_cents;
+
     // Record terms acceptance
     // SECURITY: Always use server-side IP, never trust client-provided value
     const clientIp = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || "unknown";
     const userAgent = req.headers.get("user-agent") || body.consent_user_agent || "unknown";
+    const isPayer = isPayerLink(enrollment, tokenHash);
+
+    // Get base URL for redirects
+    const appUrl = (Deno.env.get("APP_URL") || req.headers.get("origin") || "https://secure-enrollment-flow.lovable.app").replace(/\/+$/, "");
 
     // Note: Consent PDF is now generated in the stripe-webhook handler
     // when payment is confirmed, so the timestamp matches the payment date.
 
-    // Update enrollment with consent data
-    await supabase
-      .from("enrollments")
-      .update({
-        terms_accepted_at: new Date().toISOString(),
-        terms_accept_ip: clientIp,
-        terms_accept_user_agent: userAgent,
-        signature_data: body.signature_data || null,
-      })
-      .eq("id", enrollment.id);
+    // Consent and the payer's authorization are recorded with the first payment;
+    // later payments toward the balance rely on them
+    if (paymentsStarted) {
+      console.log(`Enrollment ${enrollment.id} already has payments, keeping the recorded consent`);
+    } else if (isPayer) {
+      // The patient signs the medical consent before the payer can pay
+      if (!enrollment.terms_accepted_at) {
+        return new Response(JSON.stringify({ error: "The patient has not signed the consent yet" }), {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
 
-    // Log terms acceptance event
-    await supabase.from("enrollment_events").insert({
-      enrollment_id: enrollment.id,
-      event_type: "terms_accepted",
-      event_data: {
-        ip: clientIp,
-        user_agent: userAgent,
-        terms_version: enrollment.terms_version,
-        has_signature: !!body.signature_data,
-      },
-    });
+      const acknowledgementText = payerAcknowledgementText(enrollment, installments.length > 0);
+      await supabase
+        .from("enrollments")
+        .update({
+          payer_acknowledged_at: new Date().toISOString(),
+          payer_acknowledge_ip: clientIp,
+          payer_acknowledge_user_agent: userAgent,
+          payer_acknowledgement_text: acknowledgementText,
+          payer_signature_data: body.signature_data || null,
+        })
+        .eq("id", enrollment.id);
+
+      await supabase.from("enrollment_events").insert({
+        enrollment_id: enrollment.id,
+        event_type: "payer_acknowledged",
+        event_data: {
+          ip: clientIp,
+          user_agent: userAgent,
+          payer_email: enrollment.payer_email,
+          has_signature: !!body.signature_data,
+        },
+      });
+    } else if (!body.resend_payer_link) {
+      // Update enrollment with consent data
+      await supabase
+        .from("enrollments")
+        .update({
+          terms_accepted_at: new Date().toISOString(),
+          terms_accept_ip: clientIp,
+          terms_accept_user_agent: userAgent,
+          signature_data: body.signature_data || null,
+        })
+        .eq("id", enrollment.id);
+
+      // Log terms acceptance event
+      await supabase.from("enrollment_events").insert({
+        enrollment_id: enrollment.id,
+        event_type: "terms_accepted",
+        event_data: {
+          ip: clientIp,
+          user_agent: userAgent,
+          terms_version: enrollment.terms_version,
+          has_signature: !!body.signature_data,
+        },
+      });
+    }
+
+    // With a third-party payer the patient only signs. The payer gets their own
+    // link, and a new one replaces it each time it is sent.
+    if (!isPayer && hasThirdPartyPayer(enrollment)) {
+      if (body.resend_payer_link && !enrollment.terms_accepted_at) {
+        return new Response(JSON.stringify({ error: "Terms must be accepted" }), {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      const rawPayerToken = generateSecureToken(32);
+      const sentAt = new Date().toISOString();
+      await supabase
+        .from("enrollments")
+        .update({
+          payer_token_hash: await sha256Hash(rawPayerToken),
+          payer_token_last4: rawPayerToken.slice(-4),
+          payer_link_sent_at: sentAt,
+        })
+        .eq("id", enrollment.id);
+
+      await sendPayerLinkEmail({
+        payerName: enrollment.payer_name || "Valued Customer",
+        payerEmail: enrollment.payer_email,
+        patientFirstName: enrollment.patient_name?.split(" ")[0] || "The patient",
+        amountCents: chargeCents,
+        currency: enrollment.currency || "usd",
+        payerUrl: `${appUrl}/enroll/${rawPayerToken}`,
+        expiresAt: enrollment.expires_at,
+        enrollmentId: enrollment.id,
+      });
+
+      await supabase.from("enrollment_events").insert({
+        enrollment_id: enrollment.id,
+        event_type: "payer_link_sent",
+        event_data: {
+          payer_email: enrollment.payer_email,
+          token_last4: rawPayerToken.slice(-4),
+          resent: !!body.resend_payer_link,
+        },
+      });
+
+      console.log(`Sent payer link for enrollment ${enrollment.id}`);
+
+      return new Response(JSON.stringify({
+        success: true,
+        mode: "payer",
+        payer_link_sent_at: sentAt,
+      }), {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
 
-    // Initialize Stripe
-    const stripe = new Stripe(stripeKey, { apiVersion: "2025-08-27.basil" });
+    if (body.resend_payer_link) {
+      return new Response(JSON.stringify({ error: "This enrollment has no separate payer" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
 
     // Calculate session expiration
     const enrollmentExpiry = new Date(enrollment.expires_at);
     const thirtyMinutesFromNow = new Date(Date.now() + 30 * 60 * 1000);
     const sessionExpiry = enrollmentExpiry < thirtyMinutesFromNow ? enrollmentExpiry : thirtyMinutesFromNow;
     const minExpiryTime = new Date(Date.now() + 30 * 60 * 1000);
-    const stripeExpiresAt = Math.max(
-      Math.floor(sessionExpiry.getTime() / 1000),
-      Math.floor(minExpiryTime.getTime() / 1000)
+    const expiresAt = new Date(Math.max(sessionExpiry.getTime(), minExpiryTime.getTime()));
+
+    const formatAmount = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+    const paidSoFar = funding ? funding.paidCents + funding.processingCents : 0;
+    const currency = enrollment.currency || "usd";
+
+    // Itemize the checkout page so the patient (and finance) can see what is being paid for.
+    // A deposit is a single charge against the whole plan, so its items are listed in the description.
+    const lineItems = await loadLineItems(supabase, enrollment.id);
+    const itemSummary = lineItems
+      .map((item) => item.quantity > 1 ? `${item.name} x${item.quantity}` : item.name)
+      .join(", ");
+
+    let checkoutLineItems: CheckoutLineItem[];
+    if (deposit) {
+      checkoutLineItems = [{
+        name: "Medical Service Enrollment - Deposit",
+        description: `Deposit for ${enrollment.patient_name || "Patient"} (payment 1 of ${installments.length}, ${formatAmount(enrollment.amount_cents)} total)${itemSummary ? ` - ${itemSummary}` : ""}`,
+        unit_amount_cents: deposit.amount_cents,
+        quantity: 1,
+      }];
+    } else if (isPartial) {
+      checkoutLineItems = [{
+        name: "Medical Service Enrollment - Partial Payment",
+        description: `Payment toward ${formatAmount(enrollment.amount_cents)} for ${enrollment.patient_name || "Patient"}${paidSoFar ? ` (${formatAmount(paidSoFar)} already paid)` : ""}${itemSummary ? ` - ${itemSummary}` : ""}`,
+        unit_amount_cents: chargeCents,
+        quantity: 1,
+      }];
+    } else if (lineItems.length > 0) {
+      // Items are listed at their price; a promo code is taken off as a discount
+      checkoutLineItems = lineItems;
+    } else {
+      checkoutLineItems = [{
+        name: "Medical Service Enrollment",
+        description: `Enrollment payment for ${enrollment.patient_name || "Patient"}`,
+        unit_amount_cents: enrollment.amount_cents,
+        quantity: 1,
+      }];
+    }
+
+    // The provider's customer is whoever pays, so receipts and saved methods are theirs
+    const customer = {
+      email: isPayer ? enrollment.payer_email : enrollment.patient_email,
+      name: isPayer ? enrollment.payer_name : enrollment.patient_name,
+      phone: isPayer ? enrollment.payer_phone : enrollment.patient_phone,
+      metadata: {
+        zoho_record_id: enrollment.zoho_record_id,
+        zoho_module: enrollment.zoho_module,
+      },
+    };
+    const metadata = {
+      enrollment_id: enrollment.id,
+      zoho_record_id: enrollment.zoho_record_id,
+      zoho_module: enrollment.zoho_module,
+      terms_version: enrollment.terms_version,
+      terms_sha256: enrollment.terms_sha256,
+      ...(isPayer && { paid_by: "third_party_payer" }),
+    };
+    // Restrict the payment to the chosen method so its surcharge or discount applies.
+    // Without a choice every allowed method is offered, which is only possible when
+    // none of them is adjusted.
+    const paymentOptions = paymentOptionsFor(
+      enrollment.allowed_payment_methods,
+      await loadPaymentMethodRules(supabase),
+      chargeCents,
     );
+    const selectedOption = body.payment_method
+      ? paymentOptions.find((option) => option.method === body.payment_method)
+      : paymentOptions.length === 1 ? paymentOptions[0] : null;
+
+    if (body.payment_method && !selectedOption) {
+      return new Response(JSON.stringify({ error: "This payment method is not available for this enrollment" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (!selectedOption && paymentOptions.some((option) => option.adjustment)) {
+      return new Response(JSON.stringify({ error: "Please choose a payment method" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const paymentMethodTypes = selectedOption ? [selectedOption.method] : paymentOptions.map((option) => option.method);
+    const allowWallets = enrollment.allowed_payment_methods.includes("wallet");
+    const adjustment = selectedOption?.adjustment ?? null;
+    const totalCents = chargeCents + (adjustment?.amount_cents ?? 0);
+    // Split payments keep their adjustment on the payment; the webhook totals them on the enrollment
+    const adjustmentFields = funding ? {} : {
+      payment_adjustment_cents: adjustment?.amount_cents ?? null,
+      payment_adjustment_label: adjustment?.label ?? null,
+    };
+    const adjustmentEventData = {
+      payment_method_types: paymentMethodTypes,
+      ...(adjustment && { adjustment_cents: adjustment.amount_cents, adjustment_label: adjustment.label }),
+      ...(isPartial && { partial_payment: true, balance_cents: funding!.balanceCents }),
+    };
+
+    const paymentDescription = (checkoutLineItems.length === 1
+      ? checkoutLineItems[0].description || checkoutLineItems[0].name
+      : `Enrollment payment for ${enrollment.patient_name || "Patient"} - ${itemSummary}`) +
+      (adjustment ? ` (${adjustment.label})` : "");
+
+    // A surcharge is its own line item; discounts are applied by the provider. Line
+    // items carry their list price, so an applied promo code is discounted there too.
+    const promoDiscountCents = checkoutLineItems === lineItems ? enrollment.promo_discount_cents || 0 : 0;
+    const discounts = [
+      promoDiscountCents > 0 && { name: `Promo code ${enrollment.promo_code}`, amountCents: promoDiscountCents },
+      adjustment && adjustment.amount_cents < 0 && { name: adjustment.label, amountCents: -adjustment.amount_cents },
+    ].filter((discount): discount is { name: string; amountCents: number } => !!discount);
+
+    if (adjustment && adjustment.amount_cents > 0) {
+      checkoutLineItems = [...checkoutLineItems, {
+        name: adjustment.label,
+        unit_amount_cents: adjustment.amount_cents,
+        quantity: 1,
+      }];
+    }
 
-    // Check if customer exists or create one
-    let customerId: string | undefined;
-    if (enrollment.patient_email) {
-      const customers = await stripe.customers.list({ 
-        email: enrollment.patient_email, 
-        limit: 1 
+    // Retrying after a failed payment: the failed session is replaced, and the
+    // enrollment is reopened so that a further failure is counted
+    const isRetry = enrollment.status === "failed";
+    const retryFields = isRetry ? { status: "opened" as const } : {};
+
+    const mode = body.mode === "embedded" && paymentProvider.createPaymentIntent ? "embedded" : "hosted";
+    const discount = discounts.length > 0
+      ? {
+        name: discounts.map((discount) => discount.name).join(" + "),
+        amountCents: discounts.reduce((sum, discount) => sum + discount.amountCents, 0),
+      }
+      : null;
+
+    // One live checkout per enrollment. A double click or a second tab gets the
+    // open session back; a different amount, method or payer replaces it.
+    const claim = await claimCheckoutSession(supabase, paymentProvider, {
+      enrollmentId: enrollment.id,
+      provider: paymentProvider.name,
+      mode,
+      requestHash: await sha256Hash(JSON.stringify({
+        mode,
+        currency,
+        totalCents,
+        paymentMethodTypes,
+        allowWallets,
+        checkoutLineItems,
+        discount,
+        payer: customer.email,
+        savePaymentMethod: !!deposit,
+      })),
+      amountCents: totalCents,
+      currency,
+      paymentMethodTypes,
+      reuse: !isRetry && (mode === "hosted" || !!paymentProvider.resumePaymentIntent),
+    });
+
+    if (claim.kind === "busy") {
+      return new Response(JSON.stringify({ error: "Your checkout is already being prepared. Please try again in a moment." }), {
+        status: 409,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
-      if (customers.data.length > 0) {
-        customerId = customers.data[0].id;
+    }
+
+    const checkoutSession = claim.session;
+    const reused = claim.kind === "reuse";
+    const failCheckout = (error: unknown) =>
+      markCheckoutSession(supabase, checkoutSession.id, "failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+    // Embedded payment form: the patient confirms a server-created intent on the enrollment page
+    if (mode === "embedded") {
+      let intent;
+      if (reused) {
+        intent = await paymentProvider.resumePaymentIntent!(checkoutSession.stripe_payment_intent_id!);
+        console.log(`Reused payment intent ${intent.id} for enrollment ${enrollment.id}`);
       } else {
-        const customer = await stripe.customers.create({
-          email: enrollment.patient_email,
-          name: enrollment.patient_name || undefined,
-          phone: enrollment.patient_phone || undefined,
-          metadata: {
-            zoho_record_id: enrollment.zoho_record_id,
-            zoho_module: enrollment.zoho_module,
+        try {
+          intent = await paymentProvider.createPaymentIntent!({
+            enrollmentId: enrollment.id,
+            currency,
+            amountCents: totalCents,
+            description: paymentDescription,
+            paymentMethodTypes,
+            customer,
+            savePaymentMethod: !!deposit,
+            metadata,
+            idempotencyKey: checkoutSession.id,
+          });
+        } catch (error) {
+          await failCheckout(error);
+          throw error;
+        }
+
+        // The intent replaces any hosted session started earlier
+        await supabase
+          .from("enrollments")
+          .update({
+            stripe_session_id: null,
+            stripe_payment_intent_id: intent.id,
+            stripe_customer_id: intent.customerId,
+            ...adjustmentFields,
+            ...retryFields,
+          })
+          .eq("id", enrollment.id);
+
+        const payment = funding
+          ? await createEnrollmentPayment(supabase, {
+            enrollmentId: enrollment.id,
+            amountCents: chargeCents,
+            adjustment,
+            currency,
+            paymentIntentId: intent.id,
+          })
+          : null;
+
+        await markCheckoutSession(supabase, checkoutSession.id, "open", {
+          stripe_payment_intent_id: intent.id,
+          enrollment_payment_id: payment?.id ?? null,
+        });
+
+        await supabase.from("enrollment_events").insert({
+          enrollment_id: enrollment.id,
+          event_type: "payment_intent_created",
+          event_data: {
+            payment_intent_id: intent.id,
+            checkout_session_id: checkoutSession.id,
+            ...(payment && { enrollment_payment_id: payment.id }),
+            customer_id: intent.customerId,
+            provider: paymentProvider.name,
+            amount_cents: totalCents,
+            ...adjustmentEventData,
+            ...(deposit && { payment_plan_total_cents: enrollment.amount_cents }),
+            ...(isRetry && { retry_after_failure: true }),
           },
         });
-        customerId = customer.id;
+
+        console.log(`Created payment intent ${intent.id} for enrollment ${enrollment.id}`);
       }
+
+      return new Response(JSON.stringify({
+        success: true,
+        mode: "embedded",
+        client_secret: intent.clientSecret,
+        payment_intent_id: intent.id,
+        amount_cents: totalCents,
+        reused,
+      }), {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
     }
 
-    // Get base URL for redirects
-    const appUrl = (Deno.env.get("APP_URL") || req.headers.get("origin") || "https://secure-enrollment-flow.lovable.app").replace(/\/+$/, "");
+    if (reused) {
+      console.log(`Reused checkout session ${checkoutSession.stripe_session_id} for enrollment ${enrollment.id}`);
+      return new Response(JSON.stringify({
+        success: true,
+        mode: "hosted",
+        checkout_url: checkoutSession.checkout_url,
+        session_id: checkoutSession.stripe_session_id,
+        reused,
+      }), {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
 
-    // Create Stripe checkout session
-    const session = await stripe.checkout.sessions.create({
-      customer: customerId,
-      customer_email: customerId ? undefined : enrollment.patient_email || undefined,
-      payment_method_types: ["card", "us_bank_account"],
-      billing_address_collection: "required",
-      line_items: [
-        {
-          price_data: {
-            currency: enrollment.currency || "usd",
-            product_data: {
-              name: "Medical Service Enrollment",
-              description: `Enrollment payment for ${enrollment.patient_name || "Patient"}`,
-            },
-            unit_amount: enrollment.amount_cents,
-          },
-          quantity: 1,
-        },
-      ],
-      mode: "payment",
-      success_url: `${appUrl}/enroll/${body.token}?status=success`,
-      cancel_url: `${appUrl}/enroll/${body.token}?status=canceled`,
-      expires_at: stripeExpiresAt,
-      metadata: {
-        enrollment_id: enrollment.id,
-        zoho_record_id: enrollment.zoho_record_id,
-        zoho_module: enrollment.zoho_module,
-        terms_version: enrollment.terms_version,
-        terms_sha256: enrollment.terms_sha256,
-      },
-      payment_intent_data: {
-        metadata: {
-          enrollment_id: enrollment.id,
-          zoho_record_id: enrollment.zoho_record_id,
-          zoho_module: enrollment.zoho_module,
-        },
-      },
-    });
+    // Create the hosted checkout session
+    let session;
+    try {
+      session = await paymentProvider.createCheckoutSession({
+        enrollmentId: enrollment.id,
+        currency,
+        lineItems: checkoutLineItems,
+        discount,
+        paymentMethodTypes,
+        allowWallets,
+        customer,
+        savePaymentMethod: !!deposit,
+        successUrl: `${appUrl}/enroll/${body.token}?status=success`,
+        cancelUrl: `${appUrl}/enroll/${body.token}?status=canceled`,
+        expiresAt,
+        metadata,
+        idempotencyKey: checkoutSession.id,
+      });
+    } catch (error) {
+      await failCheckout(error);
+      throw error;
+    }
 
-    // Update enrollment with Stripe session info
+    // Update enrollment with the provider's session info
     await supabase
       .from("enrollments")
       .update({
         stripe_session_id: session.id,
-        stripe_customer_id: customerId || null,
+        stripe_customer_id: session.customerId,
+        ...adjustmentFields,
+        ...retryFields,
       })
       .eq("id", enrollment.id);
 
+    const payment = funding
+      ? await createEnrollmentPayment(supabase, {
+        enrollmentId: enrollment.id,
+        amountCents: chargeCents,
+        adjustment,
+        currency,
+        sessionId: session.id,
+      })
+      : null;
+
+    await markCheckoutSession(supabase, checkoutSession.id, "open", {
+      stripe_session_id: session.id,
+      checkout_url: session.url,
+      expires_at: expiresAt.toISOString(),
+      enrollment_payment_id: payment?.id ?? null,
+    });
+
     // Log checkout session created event
     await supabase.from("enrollment_events").insert({
       enrollment_id: enrollment.id,
       event_type: "checkout_session_created",
       event_data: {
         session_id: session.id,
-        customer_id: customerId,
-        amount_cents: enrollment.amount_cents,
+        checkout_session_id: checkoutSession.id,
+        ...(payment && { enrollment_payment_id: payment.id }),
+        customer_id: session.customerId,
+        provider: paymentProvider.name,
+        amount_cents: totalCents,
+        ...adjustmentEventData,
+        ...(deposit && { payment_plan_total_cents: enrollment.amount_cents }),
+        ...(isRetry && { retry_after_failure: true }),
       },
     });
 
@@ -250,8 +775,10 @@ serve(async (req) => {
 
     return new Response(JSON.stringify({
       success: true,
+      mode: "hosted",
       checkout_url: session.url,
       session_id: session.id,
+      reused,
     }), {
       status: 200,
       headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -1,12 +1,20 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
-import { createClient } from "npm:@supabase/supabase-js@2.57.2";
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2.57.2";
+import { createInstallments, validatePaymentSchedule, type ScheduleEntry } from "../_shared/payment-schedule.ts";
+import { ALLOWED_PAYMENT_METHODS, validateAllowedPaymentMethods, type AllowedPaymentMethod } from "../_shared/payment-methods.ts";
+import { lineItemsTotal, resolveLineItems, saveLineItems, type LineItem, type LineItemInput } from "../_shared/line-items.ts";
+import { withProvenance } from "../_shared/patient-contact.ts";
+import { payerFields, payerLinkResetFields, validatePayer, type PayerInput } from "../_shared/payer.ts";
+import { paymentRecoveryResetFields } from "../_shared/payment-recovery.ts";
+import { queueZohoUpdate, type CrmSyncEnrollment } from "../_shared/crm-sync.ts";
+import { formatZohoDate, formatZohoDateTime } from "../_shared/zoho.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-shared-secret, x-hmac-signature, x-hmac-timestamp",
 };
 
-interface EnrollmentRequest {
+interface EnrollmentRequest extends PayerInput {
   zoho_record_id: string;
   zoho_module: string;
   patient_name?: string;
@@ -25,92 +33,27 @@ interface EnrollmentRequest {
   terms_sha256?: string;
   policy_id?: string;
   expires_in_hours?: number;
+  line_items?: LineItemInput[]; // Catalog items by sku/product_id, or custom name + unit_amount_cents
+  payment_schedule?: ScheduleEntry[]; // Deposit first, then installments; must add up to the amount
+  allowed_payment_methods?: AllowedPaymentMethod[]; // Defaults to card, ACH and wallets
 }
 
-// Helper to refresh Zoho access token
-async function getZohoAccessToken(): Promise<string> {
-  const refreshToken = Deno.env.get("ZOHO_REFRESH_TOKEN");
-  const clientId = Deno.env.get("ZOHO_CLIENT_ID");
-  const clientSecret = Deno.env.get("ZOHO_CLIENT_SECRET");
-
-  if (!refreshToken || !clientId || !clientSecret) {
-    throw new Error("Zoho credentials not configured");
-  }
-
-  const response = await fetch("https://accounts.zoho.com/oauth/v2/token", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/x-www-form-urlencoded",
-    },
-    body: new URLSearchParams({
-      refresh_token: refreshToken,
-      client_id: clientId,
-      client_secret: clientSecret,
-      grant_type: "refresh_token",
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to refresh Zoho token: ${errorText}`);
-  }
-
-  const data = await response.json();
-  return data.access_token;
-}
-
-// Update Zoho CRM record with enrollment data
+// Update Zoho CRM record with enrollment data. Returns whether Zoho accepted
+// it now; otherwise the update is retried in the background.
 async function updateZohoRecordWithEnrollment(
-  module: string,
-  recordId: string,
+  supabase: SupabaseClient,
+  enrollment: CrmSyncEnrollment,
   enrollmentUrl: string,
   expiresAt: Date,
   tokenLast4: string
-): Promise<void> {
-  try {
-    const accessToken = await getZohoAccessToken();
-
-    // Format dates for Zoho
-    // Enrollment_Date: YYYY-MM-DD format (Zoho date field format)
-    const now = new Date();
-    const enrollmentDate = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
-    
-    // Enrollment_Expires_At: Zoho datetime format (yyyy-MM-ddTHH:mm:ss+HH:mm)
-    // Zoho requires timezone offset, not "Z" suffix
-    const pad = (n: number) => String(n).padStart(2, "0");
-    const expiresAtFormatted = `${expiresAt.getFullYear()}-${pad(expiresAt.getMonth() + 1)}-${pad(expiresAt.getDate())}T${pad(expiresAt.getHours())}:${pad(expiresAt.getMinutes())}:${pad(expiresAt.getSeconds())}+00:00`;
-
-    const updateData: Record<string, unknown> = {
-      Enrollment_Status: "created",
-      Enrollment_Link: enrollmentUrl,
-      Enrollment_Date: enrollmentDate,
-      Enrollment_Expires_At: expiresAtFormatted,
-      Enrollment_Token_Last4: tokenLast4,
-    };
-
-    const response = await fetch(
-      `https://www.zohoapis.com/crm/v6/${module}/${recordId}`,
-      {
-        method: "PUT",
-        headers: {
-          Authorization: `Zoho-oauthtoken ${accessToken}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ data: [updateData] }),
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`Failed to update Zoho record: ${errorText}`);
-      // Don't throw - enrollment was still created successfully
-    } else {
-      console.log(`Updated Zoho ${module}/${recordId} with enrollment data`);
-    }
-  } catch (error) {
-    console.error("Error updating Zoho record:", error);
-    // Don't throw - enrollment was still created successfully
-  }
+): Promise<boolean> {
+  return await queueZohoUpdate(supabase, enrollment, {
+    status: "created",
+    enrollment_link: enrollmentUrl,
+    enrollment_date: formatZohoDate(new Date()),
+    link_expires_at: formatZohoDateTime(expiresAt),
+    token_last4: tokenLast4,
+  });
 }
 
 // Helper function to find or create a patient
@@ -130,18 +73,20 @@ async function findOrCreatePatient(
   if (email) {
     const { data: existingByEmail } = await supabase
       .from("patients")
-      .select("id")
+      .select("id, name, phone, field_sources")
       .eq("email", email.toLowerCase())
       .maybeSingle();
     
     if (existingByEmail) {
-      // Update phone/name/surgeon if provided and patient found by email
-      const updates: Record<string, string | null> = {};
-      if (phone) updates.phone = phone;
-      if (name?.trim()) updates.name = name.trim();
+      // Update phone/name/surgeon if provided and patient found by email,
+      // keeping anything a coordinator or the payer at checkout corrected
+      const contact: Record<string, string> = {};
+      if (phone) contact.phone = phone;
+      if (name?.trim()) contact.name = name.trim();
+      const { updates, field_sources } = withProvenance(existingByEmail, contact, "enrollment", null);
       if (surgeonId) updates.surgeon_id = surgeonId;
       if (Object.keys(updates).length > 0) {
-        await supabase.from("patients").update(updates).eq("id", existingByEmail.id);
+        await supabase.from("patients").update({ ...updates, field_sources }).eq("id", existingByEmail.id);
       }
       return existingByEmail.id;
     }
@@ -151,18 +96,19 @@ async function findOrCreatePatient(
   if (phone) {
     const { data: existingByPhone } = await supabase
       .from("patients")
-      .select("id")
+      .select("id, name, email, field_sources")
       .eq("phone", phone)
       .maybeSingle();
     
     if (existingByPhone) {
       // Update email/name/surgeon if provided and patient found by phone
-      const updates: Record<string, string | null> = {};
-      if (email) updates.email = email.toLowerCase();
-      if (name?.trim()) updates.name = name.trim();
+      const contact: Record<string, string> = {};
+      if (email) contact.email = email.toLowerCase();
+      if (name?.trim()) contact.name = name.trim();
+      const { updates, field_sources } = withProvenance(existingByPhone, contact, "enrollment", null);
       if (surgeonId) updates.surgeon_id = surgeonId;
       if (Object.keys(updates).length > 0) {
-        await supabase.from("patients").update(updates).eq("id", existingByPhone.id);
+        await supabase.from("patients").update({ ...updates, field_sources }).eq("id", existingByPhone.id);
       }
       return existingByPhone.id;
     }
@@ -170,13 +116,18 @@ async function findOrCreatePatient(
 
   // Create new patient
   const patientName = name?.trim() || "Unknown Patient";
+  const contact = {
+    name: patientName,
+    email: email?.toLowerCase() || null,
+    phone: phone || null,
+  };
+  const { field_sources } = withProvenance({ field_sources: {} }, contact, "enrollment", null);
   const { data: newPatient, error } = await supabase
     .from("patients")
     .insert({
-      name: patientName,
-      email: email?.toLowerCase() || null,
-      phone: phone || null,
+      ...contact,
       surgeon_id: surgeonId || null,
+      field_sources,
     })
     .select("id")
     .single();
@@ -328,8 +279,32 @@ serve(async (req) => {
       surgeon_zoho_id: body.surgeon_zoho_id,
       surgeon_name: body.surgeon_name,
     }));
+    // Line items are priced from the catalog; when given, the amount is their total
+    let lineItems: LineItem[] = [];
+    if (body.line_items !== undefined) {
+      const resolved = await resolveLineItems(supabase, body.line_items, body.currency ?? "usd");
+      if (resolved.error) {
+        return new Response(JSON.stringify({ error: resolved.error }), {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      lineItems = resolved.items;
+    }
+
     let amountCents: number;
-    if (body.amount !== undefined) {
+    if (lineItems.length > 0) {
+      amountCents = lineItemsTotal(lineItems);
+      const requestedCents = body.amount !== undefined ? Math.round(body.amount * 100) : body.amount_cents;
+      if (requestedCents !== undefined && requestedCents !== amountCents) {
+        return new Response(JSON.stringify({
+          error: `Amount (${requestedCents} cents) does not match the line item total (${amountCents} cents)`,
+        }), {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+    } else if (body.amount !== undefined) {
       // Zoho sends amount as decimal (e.g., 500.00)
       amountCents = Math.round(body.amount * 100);
     } else if (body.amount_cents !== undefined) {
@@ -337,7 +312,7 @@ serve(async (req) => {
       amountCents = body.amount_cents;
     } else {
       return new Response(JSON.stringify({ 
-        error: "Missing required field: amount or amount_cents",
+        error: "Missing required field: amount, amount_cents or line_items",
       }), {
         status: 400,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -348,13 +323,41 @@ serve(async (req) => {
     if (!body.zoho_record_id || !body.zoho_module) {
       return new Response(JSON.stringify({ 
         error: "Missing required fields",
-        required: ["zoho_record_id", "zoho_module", "amount or amount_cents"]
+        required: ["zoho_record_id", "zoho_module", "amount, amount_cents or line_items"]
       }), {
         status: 400,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
 
+    if (body.payment_schedule !== undefined) {
+      const scheduleError = validatePaymentSchedule(amountCents, body.payment_schedule);
+      if (scheduleError) {
+        return new Response(JSON.stringify({ error: scheduleError }), {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+    }
+
+    if (body.allowed_payment_methods !== undefined) {
+      const methodsError = validateAllowedPaymentMethods(body.allowed_payment_methods);
+      if (methodsError) {
+        return new Response(JSON.stringify({ error: methodsError }), {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+    }
+
+    const payerError = validatePayer(body);
+    if (payerError) {
+      return new Response(JSON.stringify({ error: payerError }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
     // Get policy data - either use specified policy, or default policy
     // Always load default policy if terms are not provided in request
     let policy;
@@ -462,8 +465,8 @@ serve(async (req) => {
     );
 
     // Check for existing open enrollment for the same Zoho record
-    // Only create new if existing is in a final state (paid, expired, canceled)
-    const finalStatuses = ['paid', 'expired', 'canceled'];
+    // Only create new if existing is in a final state (paid, partially paid, expired, canceled, refunded, disputed)
+    const finalStatuses = ['paid', 'partially_paid', 'expired', 'canceled', 'refunded', 'partially_refunded', 'disputed'];
     const { data: existingEnrollment } = await supabase
       .from("enrollments")
       .select("id, status")
@@ -496,6 +499,10 @@ serve(async (req) => {
           token_hash: tokenHash,
           token_last4: tokenLast4,
           expires_at: expiresAt.toISOString(),
+          allowed_payment_methods: body.allowed_payment_methods ?? ALLOWED_PAYMENT_METHODS,
+          ...payerFields(body),
+          ...payerLinkResetFields,
+          ...paymentRecoveryResetFields,
           status: "created",
           opened_at: null,
           terms_accepted_at: null,
@@ -505,10 +512,29 @@ serve(async (req) => {
           paid_at: null,
           failed_at: null,
           expired_at: null,
+          reversed_at: null,
           stripe_session_id: null,
           stripe_payment_intent_id: null,
           stripe_customer_id: null,
+          stripe_payment_method_id: null,
           payment_method_type: null,
+          payment_adjustment_cents: null,
+          payment_adjustment_label: null,
+          // The amount comes from this request, so any promo code is entered again
+          promo_code_id: null,
+          promo_code: null,
+          promo_discount_cents: null,
+          promo_applied_at: null,
+          stripe_charge_id: null,
+          payment_card_brand: null,
+          payment_bank_name: null,
+          payment_last4: null,
+          payment_gross_cents: null,
+          payment_fee_cents: null,
+          payment_net_cents: null,
+          payment_receipt_url: null,
+          payment_risk_level: null,
+          payment_billing_address: null,
         })
         .eq("id", existingEnrollment.id)
         .select()
@@ -520,6 +546,10 @@ serve(async (req) => {
       }
       enrollment = updated;
 
+      // The new link carries the schedule and line items from this request, if any
+      await supabase.from("enrollment_installments").delete().eq("enrollment_id", enrollment.id);
+      await supabase.from("enrollment_line_items").delete().eq("enrollment_id", enrollment.id);
+
       // Log the regenerated event
       await supabase.from("enrollment_events").insert({
         enrollment_id: enrollment.id,
@@ -554,6 +584,8 @@ serve(async (req) => {
           token_hash: tokenHash,
           token_last4: tokenLast4,
           expires_at: expiresAt.toISOString(),
+          allowed_payment_methods: body.allowed_payment_methods ?? ALLOWED_PAYMENT_METHODS,
+          ...payerFields(body),
           status: "created",
         })
         .select()
@@ -578,10 +610,34 @@ serve(async (req) => {
           expires_at: expiresAt.toISOString(),
           policy_id: policy?.id || null,
           policy_name: policy?.name || "custom",
+          line_items: lineItems.length > 0
+            ? lineItems.map((item) => ({ name: item.name, quantity: item.quantity, amount_cents: item.amount_cents }))
+            : null,
         },
       });
     }
 
+    if (lineItems.length > 0) {
+      const { error: lineItemsError } = await saveLineItems(supabase, enrollment.id, lineItems);
+      if (lineItemsError) {
+        console.error("Failed to save line items:", lineItemsError);
+        throw new Error(`Failed to save line items: ${lineItemsError}`);
+      }
+    }
+
+    if (body.payment_schedule) {
+      const { error: scheduleError } = await createInstallments(
+        supabase,
+        enrollment.id,
+        body.payment_schedule,
+        body.currency ?? "usd",
+      );
+      if (scheduleError) {
+        console.error("Failed to create payment schedule:", scheduleError);
+        throw new Error(`Failed to create payment schedule: ${scheduleError}`);
+      }
+    }
+
     // Build enrollment URL using APP_URL environment variable (appUrl already defined above)
     const enrollmentUrl = `${appUrl}/enroll/${rawToken}`;
 
@@ -589,19 +645,14 @@ serve(async (req) => {
 
     // Update Zoho CRM record with enrollment data - MUST await before returning
     // Edge functions shut down after response, so fire-and-forget won't work
-    let zohoUpdated = false;
-    try {
-      await updateZohoRecordWithEnrollment(
-        body.zoho_module,
-        body.zoho_record_id,
-        enrollmentUrl,
-        expiresAt,
-        tokenLast4
-      );
-      zohoUpdated = true;
-    } catch (err) {
-      console.error("Zoho update failed:", err);
-    }
+    // The enrollment still succeeds when Zoho is unavailable; the update is retried
+    const zohoUpdated = await updateZohoRecordWithEnrollment(
+      supabase,
+      { id: enrollment.id, zoho_module: body.zoho_module, zoho_record_id: body.zoho_record_id },
+      enrollmentUrl,
+      expiresAt,
+      tokenLast4
+    );
 
     return new Response(JSON.stringify({
       success: true,
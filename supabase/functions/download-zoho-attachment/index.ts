@@ -0,0 +1,117 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.2";
+import { downloadZohoAttachment } from "../_shared/zoho.ts";
+import { documentColumns, type EnrollmentDocument } from "../_shared/enrollment-documents.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface DownloadRequest {
+  enrollment_id: string;
+  document: EnrollmentDocument;
+}
+
+// Fetch the consent PDF or receipt as attached to the enrollment's Zoho record,
+// i.e. the copy sales reps see. Read-only, so viewers can use it too.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: "Missing authorization header" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: adminUser, error: adminError } = await supabase
+      .from("admin_users")
+      .select("id")
+      .eq("user_id", user.id)
+      .not("accepted_at", "is", null)
+      .maybeSingle();
+
+    if (adminError || !adminUser) {
+      return new Response(JSON.stringify({ error: "Only admins can download Zoho attachments" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const body: DownloadRequest = await req.json();
+    if (!body.enrollment_id || !(body.document in documentColumns)) {
+      return new Response(JSON.stringify({ error: "enrollment_id and a document of consent or receipt are required" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const attachmentColumn = documentColumns[body.document].attachmentId;
+    const { data: enrollment, error: fetchError } = await supabase
+      .from("enrollments")
+      .select(`id, zoho_module, zoho_record_id, ${attachmentColumn}`)
+      .eq("id", body.enrollment_id)
+      .maybeSingle();
+
+    if (fetchError || !enrollment) {
+      return new Response(JSON.stringify({ error: "Enrollment not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const record = enrollment as Record<string, string | null>;
+    const attachmentId = record[attachmentColumn];
+    if (!attachmentId) {
+      return new Response(JSON.stringify({ error: "This document has not been attached in Zoho yet" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const file = await downloadZohoAttachment(record.zoho_module!, record.zoho_record_id!, attachmentId);
+    if (file.error) {
+      return new Response(JSON.stringify({ error: `Zoho: ${file.error.message}`, code: file.error.code }), {
+        status: file.error.status === 404 ? 404 : 502,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(file.data, {
+      status: 200,
+      headers: { ...corsHeaders, "Content-Type": "application/pdf" },
+    });
+  } catch (error) {
+    console.error("Error in download-zoho-attachment:", error);
+    return new Response(JSON.stringify({
+      error: error instanceof Error ? error.message : "Internal server error",
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
@@ -1,96 +1,12 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2.57.2";
+import { queueZohoNote, queueZohoUpdate } from "../_shared/crm-sync.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-// Helper to refresh Zoho access token
-async function getZohoAccessToken(): Promise<string> {
-  const refreshToken = Deno.env.get("ZOHO_REFRESH_TOKEN");
-  const clientId = Deno.env.get("ZOHO_CLIENT_ID");
-  const clientSecret = Deno.env.get("ZOHO_CLIENT_SECRET");
-
-  if (!refreshToken || !clientId || !clientSecret) {
-    throw new Error("Zoho credentials not configured");
-  }
-
-  const response = await fetch("https://accounts.zoho.com/oauth/v2/token", {
-    method: "POST",
-    headers: { "Content-Type": "application/x-www-form-urlencoded" },
-    body: new URLSearchParams({
-      refresh_token: refreshToken,
-      client_id: clientId,
-      client_secret: clientSecret,
-      grant_type: "refresh_token",
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to refresh Zoho token: ${errorText}`);
-  }
-
-  const data = await response.json();
-  return data.access_token;
-}
-
-async function updateZohoRecord(
-  accessToken: string,
-  module: string,
-  recordId: string,
-  data: Record<string, unknown>
-): Promise<void> {
-  const response = await fetch(
-    `https://www.zohoapis.com/crm/v6/${module}/${recordId}`,
-    {
-      method: "PUT",
-      headers: {
-        Authorization: `Zoho-oauthtoken ${accessToken}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ data: [data] }),
-    }
-  );
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`Failed to update Zoho ${module}/${recordId}: ${errorText}`);
-  } else {
-    console.log(`Updated Zoho ${module}/${recordId} -> Expired`);
-  }
-}
-
-async function addZohoNote(
-  accessToken: string,
-  module: string,
-  recordId: string,
-  title: string,
-  content: string
-): Promise<void> {
-  const response = await fetch("https://www.zohoapis.com/crm/v6/Notes", {
-    method: "POST",
-    headers: {
-      Authorization: `Zoho-oauthtoken ${accessToken}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      data: [{
-        Parent_Id: recordId,
-        se_module: module,
-        Note_Title: title,
-        Note_Content: content,
-      }],
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`Failed to add Zoho note: ${errorText}`);
-  }
-}
-
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -130,15 +46,6 @@ serve(async (req) => {
 
     console.log(`Found ${expiredEnrollments.length} enrollments to expire`);
 
-    // Get Zoho token once for all updates
-    let zohoAccessToken: string | null = null;
-    try {
-      zohoAccessToken = await getZohoAccessToken();
-    } catch (err) {
-      console.error("Failed to get Zoho access token:", err);
-      // Continue - still expire in DB even if Zoho sync fails
-    }
-
     let expiredCount = 0;
 
     for (const enrollment of expiredEnrollments) {
@@ -166,15 +73,15 @@ serve(async (req) => {
       });
 
       // Sync to Zoho
-      if (zohoAccessToken && enrollment.zoho_record_id) {
-        await updateZohoRecord(zohoAccessToken, enrollment.zoho_module, enrollment.zoho_record_id, {
-          Enrollment_Status: "Expired",
+      if (enrollment.zoho_record_id) {
+        await queueZohoUpdate(supabase, enrollment, {
+          status: "expired",
+          expired_date: now,
         });
 
-        await addZohoNote(
-          zohoAccessToken,
-          enrollment.zoho_module,
-          enrollment.zoho_record_id,
+        await queueZohoNote(
+          supabase,
+          enrollment,
           "Enrollment Expired",
           `Enrollment link expired without payment. Amount: $${(enrollment.amount_cents / 100).toFixed(2)}`
         );
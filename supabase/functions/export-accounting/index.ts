@@ -0,0 +1,596 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2.57.2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+type ExportFormat = "csv" | "qbo_csv" | "iif";
+
+interface ExportRequest {
+  period_start: string; // ISO timestamps, end exclusive
+  period_end: string;
+  format?: ExportFormat; // Defaults to csv
+  preview?: boolean; // Build the file without marking anything exported
+}
+
+type EntryType = "stripe_clearing" | "undeposited_funds" | "revenue" | "processing_fees" | "refunds" | "dispute_losses";
+
+type SourceType = "enrollment" | "enrollment_payment" | "installment" | "offline_payment" | "refund" | "dispute";
+
+interface JournalLine {
+  entryType: EntryType;
+  debitCents: number;
+  creditCents: number;
+}
+
+// One balanced entry per payment, refund or lost dispute
+interface JournalEntry {
+  sourceType: SourceType;
+  sourceId: string;
+  enrollmentId: string;
+  date: string; // yyyy-MM-dd
+  currency: string;
+  memo: string;
+  lines: JournalLine[];
+}
+
+interface EnrollmentContext {
+  patientName: string;
+  className: string;
+}
+
+const MAX_PERIOD_DAYS = 366;
+
+const formats: ExportFormat[] = ["csv", "qbo_csv", "iif"];
+
+const entryNumberPrefixes: Record<SourceType, string> = {
+  enrollment: "PAY",
+  enrollment_payment: "PAY",
+  installment: "INST",
+  offline_payment: "OFF",
+  refund: "REF",
+  dispute: "DSP",
+};
+
+// PostgREST filters go in the URL, so long ID lists are queried in batches
+const LOOKUP_BATCH_SIZE = 100;
+
+function batches<T>(items: T[]): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += LOOKUP_BATCH_SIZE) {
+    result.push(items.slice(i, i + LOOKUP_BATCH_SIZE));
+  }
+  return result;
+}
+
+const toDate = (timestamp: string) => timestamp.slice(0, 10);
+
+// Gross in to revenue; the Stripe fee, when known, is taken out of the clearing account
+function paymentLines(grossCents: number, feeCents: number | null, cashAccount: EntryType): JournalLine[] {
+  const fee = feeCents && feeCents > 0 ? feeCents : 0;
+  return [
+    { entryType: cashAccount, debitCents: grossCents - fee, creditCents: 0 },
+    ...(fee > 0 ? [{ entryType: "processing_fees" as const, debitCents: fee, creditCents: 0 }] : []),
+    { entryType: "revenue", debitCents: 0, creditCents: grossCents },
+  ];
+}
+
+const outflowLines = (entryType: EntryType, amountCents: number): JournalLine[] => [
+  { entryType, debitCents: amountCents, creditCents: 0 },
+  { entryType: "stripe_clearing", debitCents: 0, creditCents: amountCents },
+];
+
+// Card and ACH payments collected in the period: on the enrollment itself, on
+// its split payments, or as payment plan installments
+async function loadPaymentEntries(
+  supabase: SupabaseClient,
+  periodStart: string,
+  periodEnd: string,
+): Promise<JournalEntry[]> {
+  const entries: JournalEntry[] = [];
+
+  const { data: splitPayments, error: splitError } = await supabase
+    .from("enrollment_payments")
+    .select("id, enrollment_id, amount_cents, adjustment_cents, currency, fee_cents, payment_method_type, stripe_payment_intent_id, paid_at")
+    .in("status", ["succeeded", "reversed"])
+    .gte("paid_at", periodStart)
+    .lt("paid_at", periodEnd);
+  if (splitError) throw new Error(`Failed to load enrollment payments: ${splitError.message}`);
+
+  for (const payment of splitPayments || []) {
+    entries.push({
+      sourceType: "enrollment_payment",
+      sourceId: payment.id,
+      enrollmentId: payment.enrollment_id,
+      date: toDate(payment.paid_at),
+      currency: payment.currency,
+      memo: `${(payment.payment_method_type || "card").toUpperCase()} payment ${payment.stripe_payment_intent_id || ""}`.trim(),
+      lines: paymentLines(payment.amount_cents + (payment.adjustment_cents || 0), payment.fee_cents, "stripe_clearing"),
+    });
+  }
+
+  // The enrollment's payment columns total its split payments, which are exported above
+  const { data: enrollments, error } = await supabase
+    .from("enrollments")
+    .select("id, amount_cents, currency, payment_adjustment_cents, payment_gross_cents, payment_fee_cents, payment_method_type, stripe_payment_intent_id, paid_at")
+    .in("status", ["paid", "partially_paid", "partially_refunded", "refunded", "reversed", "disputed"])
+    .in("payment_method_type", ["card", "ach"])
+    .gte("paid_at", periodStart)
+    .lt("paid_at", periodEnd);
+  if (error) throw new Error(`Failed to load paid enrollments: ${error.message}`);
+
+  const splitEnrollments = new Set<string>();
+  const deposits = new Map<string, number>();
+  for (const batch of batches((enrollments || []).map((enrollment) => enrollment.id))) {
+    const { data: rows, error: rowsError } = await supabase
+      .from("enrollment_payments")
+      .select("enrollment_id")
+      .in("enrollment_id", batch)
+      .in("status", ["succeeded", "reversed"]);
+    if (rowsError) throw new Error(`Failed to load enrollment payments: ${rowsError.message}`);
+    for (const row of rows || []) splitEnrollments.add(row.enrollment_id);
+
+    // Payment plans collect only the deposit at checkout
+    const { data: depositRows, error: depositError } = await supabase
+      .from("enrollment_installments")
+      .select("enrollment_id, amount_cents")
+      .in("enrollment_id", batch)
+      .eq("sequence", 1);
+    if (depositError) throw new Error(`Failed to load deposits: ${depositError.message}`);
+    for (const deposit of depositRows || []) deposits.set(deposit.enrollment_id, deposit.amount_cents);
+  }
+
+  for (const enrollment of enrollments || []) {
+    if (splitEnrollments.has(enrollment.id)) continue;
+    const grossCents = enrollment.payment_gross_cents ??
+      (deposits.get(enrollment.id) ?? enrollment.amount_cents) + (enrollment.payment_adjustment_cents || 0);
+    entries.push({
+      sourceType: "enrollment",
+      sourceId: enrollment.id,
+      enrollmentId: enrollment.id,
+      date: toDate(enrollment.paid_at),
+      currency: enrollment.currency || "usd",
+      memo: `${deposits.has(enrollment.id) ? "Deposit" : "Payment"} ${enrollment.payment_method_type.toUpperCase()} ${enrollment.stripe_payment_intent_id || ""}`.trim(),
+      lines: paymentLines(grossCents, enrollment.payment_fee_cents, "stripe_clearing"),
+    });
+  }
+
+  const { data: installments, error: installmentError } = await supabase
+    .from("enrollment_installments")
+    .select("id, enrollment_id, sequence, amount_cents, currency, fee_cents, stripe_payment_intent_id, paid_at")
+    .eq("status", "paid")
+    .gt("sequence", 1)
+    .gte("paid_at", periodStart)
+    .lt("paid_at", periodEnd);
+  if (installmentError) throw new Error(`Failed to load paid installments: ${installmentError.message}`);
+
+  for (const installment of installments || []) {
+    entries.push({
+      sourceType: "installment",
+      sourceId: installment.id,
+      enrollmentId: installment.enrollment_id,
+      date: toDate(installment.paid_at),
+      currency: installment.currency,
+      memo: `Installment ${installment.sequence} ${installment.stripe_payment_intent_id || ""}`.trim(),
+      lines: paymentLines(installment.amount_cents, installment.fee_cents, "stripe_clearing"),
+    });
+  }
+
+  return entries;
+}
+
+async function loadOfflineEntries(
+  supabase: SupabaseClient,
+  periodStart: string,
+  periodEnd: string,
+): Promise<JournalEntry[]> {
+  const { data: payments, error } = await supabase
+    .from("enrollment_offline_payments")
+    .select("id, enrollment_id, amount_cents, currency, method, reference_number, received_date")
+    .gte("received_date", toDate(periodStart))
+    .lt("received_date", toDate(periodEnd));
+  if (error) throw new Error(`Failed to load offline payments: ${error.message}`);
+
+  return (payments || []).map((payment) => ({
+    sourceType: "offline_payment",
+    sourceId: payment.id,
+    enrollmentId: payment.enrollment_id,
+    date: payment.received_date,
+    currency: payment.currency,
+    memo: `${payment.method.charAt(0).toUpperCase()}${payment.method.slice(1)} payment${payment.reference_number ? ` ${payment.reference_number}` : ""}`,
+    lines: paymentLines(payment.amount_cents, null, "undeposited_funds"),
+  }));
+}
+
+async function loadRefundEntries(
+  supabase: SupabaseClient,
+  periodStart: string,
+  periodEnd: string,
+): Promise<JournalEntry[]> {
+  const { data: refunds, error } = await supabase
+    .from("enrollment_refunds")
+    .select("id, enrollment_id, amount_cents, currency, reason, stripe_refund_id, created_at")
+    .eq("status", "succeeded")
+    .gte("created_at", periodStart)
+    .lt("created_at", periodEnd);
+  if (error) throw new Error(`Failed to load refunds: ${error.message}`);
+
+  const { data: disputes, error: disputeError } = await supabase
+    .from("enrollment_disputes")
+    .select("id, enrollment_id, amount_cents, currency, reason, stripe_dispute_id, closed_at")
+    .eq("status", "lost")
+    .gte("closed_at", periodStart)
+    .lt("closed_at", periodEnd);
+  if (disputeError) throw new Error(`Failed to load disputes: ${disputeError.message}`);
+
+  return [
+    ...(refunds || []).map((refund): JournalEntry => ({
+      sourceType: "refund",
+      sourceId: refund.id,
+      enrollmentId: refund.enrollment_id,
+      date: toDate(refund.created_at),
+      currency: refund.currency,
+      memo: `Refund ${refund.stripe_refund_id}${refund.reason ? ` (${refund.reason.replace(/_/g, " ")})` : ""}`,
+      lines: outflowLines("refunds", refund.amount_cents),
+    })),
+    ...(disputes || []).map((dispute): JournalEntry => ({
+      sourceType: "dispute",
+      sourceId: dispute.id,
+      enrollmentId: dispute.enrollment_id,
+      date: toDate(dispute.closed_at),
+      currency: dispute.currency,
+      memo: `Chargeback lost ${dispute.stripe_dispute_id}${dispute.reason ? ` (${dispute.reason.replace(/_/g, " ")})` : ""}`,
+      lines: outflowLines("dispute_losses", dispute.amount_cents),
+    })),
+  ];
+}
+
+// Items in an earlier export are left out
+async function withoutExported(supabase: SupabaseClient, entries: JournalEntry[]): Promise<JournalEntry[]> {
+  const exported = new Set<string>();
+  const sourceTypes = [...new Set(entries.map((entry) => entry.sourceType))];
+  for (const sourceType of sourceTypes) {
+    const ids = entries.filter((entry) => entry.sourceType === sourceType).map((entry) => entry.sourceId);
+    for (const batch of batches(ids)) {
+      const { data, error } = await supabase
+        .from("accounting_export_items")
+        .select("source_id")
+        .eq("source_type", sourceType)
+        .in("source_id", batch);
+      if (error) throw new Error(`Failed to load exported items: ${error.message}`);
+      for (const row of data || []) exported.add(`${sourceType}:${row.source_id}`);
+    }
+  }
+  return entries.filter((entry) => !exported.has(`${entry.sourceType}:${entry.sourceId}`));
+}
+
+// Patient name and the surgeon's class for each enrollment
+async function loadEnrollmentContext(
+  supabase: SupabaseClient,
+  enrollmentIds: string[],
+): Promise<Map<string, EnrollmentContext>> {
+  const context = new Map<string, EnrollmentContext>();
+  for (const batch of batches(enrollmentIds)) {
+    const { data, error } = await supabase
+      .from("enrollments")
+      .select("id, patient_name, patients(surgeons(name, accounting_class))")
+      .in("id", batch);
+    if (error) throw new Error(`Failed to load enrollments: ${error.message}`);
+
+    for (const enrollment of data || []) {
+      const surgeon = (enrollment.patients as { surgeons: { name: string; accounting_class: string | null } | null } | null)?.surgeons;
+      context.set(enrollment.id, {
+        patientName: enrollment.patient_name || "Unknown patient",
+        className: surgeon?.accounting_class?.trim() || surgeon?.name || "",
+      });
+    }
+  }
+  return context;
+}
+
+const formatAmount = (cents: number) => (cents / 100).toFixed(2);
+
+// yyyy-MM-dd to MM/dd/yyyy, as QuickBooks expects
+const usDate = (date: string) => `${date.slice(5, 7)}/${date.slice(8, 10)}/${date.slice(0, 4)}`;
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+const csvRow = (values: string[]) => values.map(csvField).join(",");
+
+// IIF is tab-separated with no quoting
+const iifField = (value: string) => value.replace(/[\t\r\n"]+/g, " ");
+
+function renderExport(
+  format: ExportFormat,
+  entries: JournalEntry[],
+  accounts: Record<EntryType, string>,
+  context: Map<string, EnrollmentContext>,
+): string {
+  const entryNumber = (entry: JournalEntry) => `${entryNumberPrefixes[entry.sourceType]}-${entry.sourceId.slice(0, 8)}`;
+  const describe = (entry: JournalEntry) => `${context.get(entry.enrollmentId)?.patientName ?? ""} - ${entry.memo}`;
+
+  if (format === "iif") {
+    // General journal transactions: the first line is TRNS, the rest SPL; debits are positive
+    const rows = [
+      "!TRNS\tTRNSID\tTRNSTYPE\tDATE\tACCNT\tCLASS\tAMOUNT\tDOCNUM\tMEMO",
+      "!SPL\tSPLID\tTRNSTYPE\tDATE\tACCNT\tCLASS\tAMOUNT\tDOCNUM\tMEMO",
+      "!ENDTRNS",
+    ];
+    for (const entry of entries) {
+      entry.lines.forEach((line, index) => {
+        rows.push([
+          index === 0 ? "TRNS" : "SPL",
+          "",
+          "GENERAL JOURNAL",
+          usDate(entry.date),
+          accounts[line.entryType],
+          context.get(entry.enrollmentId)?.className ?? "",
+          formatAmount(line.debitCents - line.creditCents),
+          entryNumber(entry),
+          describe(entry),
+        ].map(iifField).join("\t"));
+      });
+      rows.push("ENDTRNS");
+    }
+    return rows.join("\r\n") + "\r\n";
+  }
+
+  if (format === "qbo_csv") {
+    // QuickBooks Online journal entry import
+    const rows = [csvRow(["Journal No", "Journal Date", "Account Name", "Debits", "Credits", "Description", "Class", "Currency"])];
+    for (const entry of entries) {
+      for (const line of entry.lines) {
+        rows.push(csvRow([
+          entryNumber(entry),
+          usDate(entry.date),
+          accounts[line.entryType],
+          line.debitCents ? formatAmount(line.debitCents) : "",
+          line.creditCents ? formatAmount(line.creditCents) : "",
+          describe(entry),
+          context.get(entry.enrollmentId)?.className ?? "",
+          entry.currency.toUpperCase(),
+        ]));
+      }
+    }
+    return rows.join("\r\n") + "\r\n";
+  }
+
+  const rows = [csvRow([
+    "Date", "Entry", "Account", "Debit", "Credit", "Currency", "Class", "Name", "Memo", "Source", "Source ID", "Enrollment ID",
+  ])];
+  for (const entry of entries) {
+    for (const line of entry.lines) {
+      rows.push(csvRow([
+        entry.date,
+        entryNumber(entry),
+        accounts[line.entryType],
+        line.debitCents ? formatAmount(line.debitCents) : "",
+        line.creditCents ? formatAmount(line.creditCents) : "",
+        entry.currency.toUpperCase(),
+        context.get(entry.enrollmentId)?.className ?? "",
+        context.get(entry.enrollmentId)?.patientName ?? "",
+        entry.memo,
+        entry.sourceType,
+        entry.sourceId,
+        entry.enrollmentId,
+      ]));
+    }
+  }
+  return rows.join("\r\n") + "\r\n";
+}
+
+// Debits and credits per currency and entry type, shown before downloading
+function exportTotals(entries: JournalEntry[]) {
+  const totals: Record<string, Partial<Record<EntryType, { debit_cents: number; credit_cents: number }>>> = {};
+  for (const entry of entries) {
+    const currency = (totals[entry.currency] ??= {});
+    for (const line of entry.lines) {
+      const total = (currency[line.entryType] ??= { debit_cents: 0, credit_cents: 0 });
+      total.debit_cents += line.debitCents;
+      total.credit_cents += line.creditCents;
+    }
+  }
+  return totals;
+}
+
+// Builds double-entry journal lines for payments, Stripe fees, refunds and lost
+// disputes in a period, for finance to import into the general ledger. Every
+// item is exported once: later exports of an overlapping period only pick up
+// what is new.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: "Missing authorization header" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAuth = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user }, error: userError } = await supabaseAuth.auth.getUser();
+    if (userError || !user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: adminUser, error: adminError } = await supabaseAuth
+      .from("admin_users")
+      .select("id, role")
+      .eq("user_id", user.id)
+      .not("accepted_at", "is", null)
+      .maybeSingle();
+
+    if (adminError || !adminUser) {
+      return new Response(JSON.stringify({ error: "Only admins can export accounting entries" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (adminUser.role === "viewer") {
+      return new Response(JSON.stringify({ error: "Viewers do not have permission to export accounting entries" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const body: ExportRequest = await req.json();
+    const format = body.format ?? "csv";
+    const periodStart = new Date(body.period_start);
+    const periodEnd = new Date(body.period_end);
+
+    if (!formats.includes(format)) {
+      return new Response(JSON.stringify({ error: `format must be one of ${formats.join(", ")}` }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (isNaN(periodStart.getTime()) || isNaN(periodEnd.getTime()) || periodEnd <= periodStart) {
+      return new Response(JSON.stringify({ error: "period_start must be a valid date before period_end" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (periodEnd.getTime() - periodStart.getTime() > MAX_PERIOD_DAYS * 24 * 60 * 60 * 1000) {
+      return new Response(JSON.stringify({ error: `The period can be at most ${MAX_PERIOD_DAYS} days` }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabase = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+    const { data: accountRows, error: accountError } = await supabase
+      .from("accounting_accounts")
+      .select("entry_type, account_name");
+    if (accountError) throw new Error(`Failed to load account mappings: ${accountError.message}`);
+    const accounts = Object.fromEntries(
+      (accountRows || []).map((row) => [row.entry_type, row.account_name]),
+    ) as Record<EntryType, string>;
+
+    const start = periodStart.toISOString();
+    const end = periodEnd.toISOString();
+    const entries = await withoutExported(supabase, [
+      ...await loadPaymentEntries(supabase, start, end),
+      ...await loadOfflineEntries(supabase, start, end),
+      ...await loadRefundEntries(supabase, start, end),
+    ]);
+    entries.sort((a, b) => a.date.localeCompare(b.date) || a.sourceType.localeCompare(b.sourceType));
+
+    const context = await loadEnrollmentContext(supabase, [...new Set(entries.map((entry) => entry.enrollmentId))]);
+    const content = renderExport(format, entries, accounts, context);
+    const summary = {
+      entries: entries.length,
+      lines: entries.reduce((sum, entry) => sum + entry.lines.length, 0),
+      totals: exportTotals(entries),
+    };
+    const filename = `journal-${toDate(start)}-to-${toDate(new Date(periodEnd.getTime() - 1).toISOString())}.${format === "iif" ? "iif" : "csv"}`;
+
+    if (body.preview || entries.length === 0) {
+      return new Response(JSON.stringify({ success: true, export_id: null, filename, content, summary }), {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: exportRecord, error: exportError } = await supabase
+      .from("accounting_exports")
+      .insert({
+        period_start: start,
+        period_end: end,
+        format,
+        entry_count: summary.entries,
+        line_count: summary.lines,
+        totals: summary.totals,
+        content,
+        exported_by: user.id,
+        exported_by_email: user.email ?? null,
+      })
+      .select("id")
+      .single();
+
+    if (exportError || !exportRecord) {
+      console.error("Failed to record accounting export:", exportError);
+      return new Response(JSON.stringify({ error: "Database error" }), {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Marks every item in one statement, so two exports running together
+    // cannot both include it
+    const { error: itemsError } = await supabase
+      .from("accounting_export_items")
+      .insert(entries.map((entry) => ({
+        source_type: entry.sourceType,
+        source_id: entry.sourceId,
+        export_id: exportRecord.id,
+        enrollment_id: entry.enrollmentId,
+      })));
+
+    if (itemsError) {
+      await supabase.from("accounting_exports").delete().eq("id", exportRecord.id);
+      if (itemsError.code === "23505") {
+        return new Response(JSON.stringify({ error: "Some of these items were just exported by someone else. Please run the export again." }), {
+          status: 409,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      throw new Error(`Failed to mark exported items: ${itemsError.message}`);
+    }
+
+    await supabase.from("admin_audit_log").insert({
+      admin_user_id: user.id,
+      admin_email: user.email,
+      action: "export_accounting",
+      resource_type: "accounting_export",
+      resource_id: exportRecord.id,
+      resource_summary: {
+        period_start: start,
+        period_end: end,
+        format,
+        entries: summary.entries,
+      },
+    });
+
+    console.log(`Accounting export ${exportRecord.id}: ${summary.entries} entries, ${summary.lines} lines`);
+
+    return new Response(JSON.stringify({ success: true, export_id: exportRecord.id, filename, content, summary }), {
+      status: 200,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  } catch (error) {
+    console.error("Error in export-accounting:", error);
+    return new Response(JSON.stringify({
+      error: error instanceof Error ? error.message : "Internal server error",
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
@@ -0,0 +1,329 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.2";
+import { PDFDocument, rgb, StandardFonts, type PDFFont, type PDFPage } from "npm:pdf-lib@1.17.1";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface StatementRequest {
+  patient_id: string;
+}
+
+interface StatementPatient {
+  id: string;
+  name: string;
+  email: string | null;
+  address_line1: string | null;
+  address_line2: string | null;
+  city: string | null;
+  state: string | null;
+  postal_code: string | null;
+  country: string | null;
+}
+
+// A row of the patient_ledger view
+interface LedgerEntry {
+  source_id: string;
+  entry_type: "charge" | "deposit" | "credit" | "refund" | "adjustment";
+  occurred_at: string;
+  description: string;
+  amount_cents: number;
+  currency: string;
+  quote_id: string | null;
+  balance_cents: number;
+}
+
+interface StatementQuote {
+  id: string;
+  description: string;
+  amount_cents: number;
+  status: string;
+}
+
+const formatCurrency = (cents: number, currency = "usd") =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: currency.toUpperCase() }).format(cents / 100);
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-US", { timeZone: "America/New_York", month: "short", day: "numeric", year: "numeric" });
+
+// Shorten text to fit a table column
+function fitText(text: string, maxWidth: number, font: PDFFont, fontSize: number): string {
+  if (font.widthOfTextAtSize(text, fontSize) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 1 && font.widthOfTextAtSize(`${fitted}...`, fontSize) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}...`;
+}
+
+async function generateStatementPdf(
+  patient: StatementPatient,
+  entries: LedgerEntry[],
+  quotes: StatementQuote[],
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const fontBold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const fontSize = 9;
+  const margin = 50;
+  const pageWidth = 612;
+  const pageHeight = 792;
+  const lineHeight = fontSize * 1.6;
+  const currency = entries[0]?.currency || "usd";
+  const balanceCents = entries.length > 0 ? entries[entries.length - 1].balance_cents : 0;
+
+  let page: PDFPage = pdfDoc.addPage([pageWidth, pageHeight]);
+  let y = pageHeight - margin;
+
+  const newPageIfNeeded = () => {
+    if (y < margin + 20) {
+      page = pdfDoc.addPage([pageWidth, pageHeight]);
+      y = pageHeight - margin;
+    }
+  };
+
+  const drawText = (text: string, options: { font?: PDFFont; size?: number } = {}) => {
+    const size = options.size || fontSize;
+    newPageIfNeeded();
+    page.drawText(text, { x: margin, y, font: options.font || font, size, color: rgb(0, 0, 0) });
+    y -= size * 1.5;
+  };
+
+  // Date, description, charges, payments and credits, balance
+  const columns = [margin, margin + 70, margin + 300, margin + 380, margin + 460];
+  const drawRow = (cells: string[], rowFont: PDFFont) => {
+    newPageIfNeeded();
+    cells.forEach((cell, index) => {
+      const text = index === 1 ? fitText(cell, columns[2] - columns[1] - 10, rowFont, fontSize) : cell;
+      // Amount columns are right-aligned to their right edge
+      const x = index >= 2
+        ? (columns[index + 1] ?? pageWidth - margin) - rowFont.widthOfTextAtSize(text, fontSize) - 6
+        : columns[index];
+      page.drawText(text, { x, y, font: rowFont, size: fontSize, color: rgb(0, 0, 0) });
+    });
+    y -= lineHeight;
+  };
+
+  drawText("ACCOUNT STATEMENT", { font: fontBold, size: 14 });
+  drawText(`Statement Date: ${formatDate(new Date().toISOString())}`);
+  y -= 8;
+
+  drawText(patient.name, { font: fontBold, size: 11 });
+  if (patient.address_line1) {
+    drawText([patient.address_line1, patient.address_line2].filter(Boolean).join(", "));
+    drawText(
+      [patient.city, [patient.state, patient.postal_code].filter(Boolean).join(" "), patient.country]
+        .filter(Boolean)
+        .join(", "),
+    );
+  }
+  if (patient.email) drawText(patient.email);
+  y -= 8;
+
+  // What each quote has been credited so far
+  const activeQuotes = quotes.filter((quote) => quote.status !== "void");
+  if (activeQuotes.length > 0) {
+    drawText("Procedure Quotes", { font: fontBold, size: 11 });
+    for (const quote of activeQuotes) {
+      const remainingCents = entries
+        .filter((entry) => entry.quote_id === quote.id)
+        .reduce((sum, entry) => sum + entry.amount_cents, 0);
+      drawText(
+        `${quote.description}: quoted ${formatCurrency(quote.amount_cents, currency)}, ` +
+          `credited ${formatCurrency(quote.amount_cents - remainingCents, currency)}, ` +
+          `remaining ${formatCurrency(remainingCents, currency)}`,
+      );
+    }
+    y -= 8;
+  }
+
+  drawText("Account Activity", { font: fontBold, size: 11 });
+  drawRow(["Date", "Description", "Charges", "Payments", "Balance"], fontBold);
+  for (const entry of entries) {
+    drawRow([
+      formatDate(entry.occurred_at),
+      entry.description,
+      entry.amount_cents > 0 ? formatCurrency(entry.amount_cents, currency) : "",
+      entry.amount_cents < 0 ? formatCurrency(-entry.amount_cents, currency) : "",
+      formatCurrency(entry.balance_cents, currency),
+    ], font);
+  }
+  if (entries.length === 0) {
+    drawText("No activity on this account.");
+  }
+  y -= 8;
+
+  drawText(
+    balanceCents >= 0
+      ? `Balance Due: ${formatCurrency(balanceCents, currency)}`
+      : `Credit Balance: ${formatCurrency(-balanceCents, currency)}`,
+    { font: fontBold, size: 12 },
+  );
+
+  return await pdfDoc.save();
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: "Missing authorization header" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAuth = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user }, error: userError } = await supabaseAuth.auth.getUser();
+    if (userError || !user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: adminUser, error: adminError } = await supabaseAuth
+      .from("admin_users")
+      .select("id, role")
+      .eq("user_id", user.id)
+      .not("accepted_at", "is", null)
+      .maybeSingle();
+
+    if (adminError || !adminUser) {
+      return new Response(JSON.stringify({ error: "Only admins can issue statements" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (adminUser.role === "viewer") {
+      return new Response(JSON.stringify({ error: "Viewers do not have permission to issue statements" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const body: StatementRequest = await req.json();
+    if (!body.patient_id) {
+      return new Response(JSON.stringify({ error: "patient_id is required" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabase = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+    const { data: patient, error: patientError } = await supabase
+      .from("patients")
+      .select("id, name, email, address_line1, address_line2, city, state, postal_code, country")
+      .eq("id", body.patient_id)
+      .maybeSingle();
+
+    if (patientError || !patient) {
+      return new Response(JSON.stringify({ error: "Patient not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: entries, error: ledgerError } = await supabase
+      .from("patient_ledger")
+      .select("source_id, entry_type, occurred_at, description, amount_cents, currency, quote_id, balance_cents")
+      .eq("patient_id", patient.id)
+      .order("occurred_at", { ascending: true })
+      .order("source_id", { ascending: true });
+    if (ledgerError) throw new Error(`Failed to load patient ledger: ${ledgerError.message}`);
+
+    const { data: quotes, error: quotesError } = await supabase
+      .from("patient_quotes")
+      .select("id, description, amount_cents, status")
+      .eq("patient_id", patient.id)
+      .order("created_at", { ascending: true });
+    if (quotesError) throw new Error(`Failed to load patient quotes: ${quotesError.message}`);
+
+    const ledger = (entries || []) as LedgerEntry[];
+    const balanceCents = ledger.length > 0 ? ledger[ledger.length - 1].balance_cents : 0;
+    const pdfBytes = await generateStatementPdf(patient as StatementPatient, ledger, (quotes || []) as StatementQuote[]);
+
+    const pdfPath = `${patient.id}/${Date.now()}-statement.pdf`;
+    const { error: uploadError } = await supabase.storage
+      .from("patient-statements")
+      .upload(pdfPath, pdfBytes, {
+        contentType: "application/pdf",
+        upsert: false,
+      });
+    if (uploadError) throw new Error(`Failed to store statement PDF: ${uploadError.message}`);
+
+    const { data: statement, error: statementError } = await supabase
+      .from("patient_statements")
+      .insert({
+        patient_id: patient.id,
+        balance_cents: balanceCents,
+        entry_count: ledger.length,
+        pdf_path: pdfPath,
+        issued_by: user.id,
+        issued_by_email: user.email,
+      })
+      .select("id")
+      .single();
+
+    if (statementError || !statement) {
+      console.error("Failed to record patient statement:", statementError);
+      return new Response(JSON.stringify({ error: "Database error" }), {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    await supabase.from("admin_audit_log").insert({
+      admin_user_id: user.id,
+      admin_email: user.email,
+      action: "issue_statement",
+      resource_type: "patient",
+      resource_id: patient.id,
+      resource_summary: {
+        name: patient.name,
+        statement_id: statement.id,
+        balance_cents: balanceCents,
+      },
+    });
+
+    console.log(`Statement ${statement.id} issued for patient ${patient.id}: balance ${balanceCents}`);
+
+    return new Response(JSON.stringify({
+      success: true,
+      statement_id: statement.id,
+      pdf_path: pdfPath,
+      balance_cents: balanceCents,
+    }), {
+      status: 200,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  } catch (error) {
+    console.error("Error in generate-patient-statement:", error);
+    return new Response(JSON.stringify({
+      error: error instanceof Error ? error.message : "Internal server error",
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
@@ -1,5 +1,8 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2.57.2";
+import { loadPaymentMethodRules, paymentOptionsFor, type PaymentOption } from "../_shared/payment-methods.ts";
+import { isPayerLink, payerAcknowledgementText } from "../_shared/payer.ts";
+import { MIN_PARTIAL_PAYMENT_CENTS, summarizePayments } from "../_shared/enrollment-payments.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -26,7 +29,7 @@ interface EnrollmentResponse {
   patient_email: string | null;
   patient_phone: string | null;
   surgeon_name: string | null;
-  amount_cents: number;
+  amount_cents: number; // After any promo code
   currency: string | null;
   status: string;
   expires_at: string;
@@ -38,6 +41,44 @@ interface EnrollmentResponse {
   terms_sha256: string;
   opened_at: string | null;
   terms_accepted_at: string | null;
+  payment_schedule: Array<{
+    sequence: number;
+    amount_cents: number;
+    due_date: string;
+    status: string;
+  }>;
+  line_items: Array<{
+    name: string;
+    description: string | null;
+    unit_amount_cents: number;
+    quantity: number;
+    amount_cents: number;
+  }>;
+  // Payments so far when the amount is split across several cards or accounts
+  payments: Array<{
+    amount_cents: number;
+    status: string;
+    payment_method_type: string | null;
+    card_brand: string | null;
+    last4: string | null;
+    paid_at: string | null;
+  }>;
+  paid_cents: number; // Includes bank transfers still processing
+  balance_cents: number;
+  min_partial_payment_cents: number | null; // null when the amount cannot be split
+  allowed_payment_methods: string[];
+  // Price of the checkout charge for each method the patient can choose
+  payment_options: PaymentOption[];
+  // Who opened the link. A third-party payer sees no patient contact details or medical terms.
+  viewer: "patient" | "payer";
+  payer_name: string | null;
+  payer_relationship: string | null;
+  payer_link_sent_at: string | null;
+  payer_acknowledgement_text: string | null; // Payer link only
+  promo_code: string | null;
+  promo_discount_cents: number | null;
+  // Too many failed payments: checkout is closed until staff send a new link
+  needs_attention: boolean;
 }
 
 serve(async (req) => {
@@ -92,12 +133,22 @@ serve(async (req) => {
         opened_at,
         terms_accepted_at,
         policy_id,
+        allowed_payment_methods,
+        payer_name,
+        payer_email,
+        payer_relationship,
+        payer_token_hash,
+        payer_link_sent_at,
+        retry_token_hash,
+        needs_attention_at,
+        promo_code,
+        promo_discount_cents,
         policies (
           terms_text,
           privacy_text
         )
       `)
-      .eq("token_hash", tokenHash)
+      .or(`token_hash.eq.${tokenHash},payer_token_hash.eq.${tokenHash},retry_token_hash.eq.${tokenHash}`)
       .maybeSingle();
 
     if (fetchError) {
@@ -119,7 +170,8 @@ serve(async (req) => {
     const now = new Date();
     const expiresAt = new Date(enrollment.expires_at);
     
-    if (expiresAt < now && enrollment.status !== 'expired' && enrollment.status !== 'paid' && enrollment.status !== 'processing') {
+    const settledStatuses = ['expired', 'canceled', 'paid', 'partially_paid', 'processing', 'refunded', 'partially_refunded', 'reversed', 'disputed'];
+    if (expiresAt < now && !settledStatuses.includes(enrollment.status)) {
       // Update to expired status
       await supabase
         .from("enrollments")
@@ -132,8 +184,10 @@ serve(async (req) => {
       enrollment.status = 'expired';
     }
 
+    const isPayer = isPayerLink(enrollment, tokenHash);
+
     // Mark as opened if first view and not already in a terminal state
-    if (!enrollment.opened_at && ['created', 'sent'].includes(enrollment.status)) {
+    if (!isPayer && !enrollment.opened_at && ['created', 'sent'].includes(enrollment.status)) {
       const openedAt = now.toISOString();
       await supabase
         .from("enrollments")
@@ -179,13 +233,50 @@ serve(async (req) => {
       }
     }
     
+    // Payment plan, if any - amounts, dates and statuses only
+    const { data: installments } = await supabase
+      .from("enrollment_installments")
+      .select("sequence, amount_cents, due_date, status")
+      .eq("enrollment_id", enrollment.id)
+      .order("sequence", { ascending: true });
+
+    // What the payment is for
+    const { data: lineItems } = await supabase
+      .from("enrollment_line_items")
+      .select("name, description, unit_amount_cents, quantity, amount_cents")
+      .eq("enrollment_id", enrollment.id)
+      .order("position", { ascending: true });
+
+    // Payments toward the balance - amounts and card or bank only. Payment plans
+    // track their payments as installments instead.
+    const hasPlan = (installments?.length ?? 0) > 0;
+    const { data: paymentRows } = hasPlan
+      ? { data: [] }
+      : await supabase
+        .from("enrollment_payments")
+        .select("amount_cents, adjustment_cents, status, payment_method_type, card_brand, last4, paid_at")
+        .eq("enrollment_id", enrollment.id)
+        .in("status", ["processing", "succeeded"])
+        .order("created_at", { ascending: true });
+    const payments = paymentRows || [];
+    const funding = summarizePayments(payments, enrollment.amount_cents);
+
+    // Surcharges and discounts apply to what is charged today: the deposit on a
+    // payment plan, otherwise the remaining balance
+    const chargeCents = installments?.[0]?.amount_cents ?? funding.balanceCents;
+    const paymentOptions = paymentOptionsFor(
+      enrollment.allowed_payment_methods,
+      await loadPaymentMethodRules(supabase),
+      chargeCents,
+    );
+
     const response: EnrollmentResponse = {
       id: enrollment.id,
       patient_first_name: patientFirstName,
-      patient_name: enrollment.patient_name,
-      patient_email: enrollment.patient_email,
-      patient_phone: enrollment.patient_phone,
-      surgeon_name: surgeonName,
+      patient_name: isPayer ? null : enrollment.patient_name,
+      patient_email: isPayer ? null : enrollment.patient_email,
+      patient_phone: isPayer ? null : enrollment.patient_phone,
+      surgeon_name: isPayer ? null : surgeonName,
       amount_cents: enrollment.amount_cents,
       currency: enrollment.currency,
       status: enrollment.status,
@@ -193,11 +284,29 @@ serve(async (req) => {
       terms_version: enrollment.terms_version,
       terms_url: enrollment.terms_url,
       privacy_url: enrollment.privacy_url,
-      terms_text: policyData?.terms_text || null,
+      terms_text: isPayer ? null : policyData?.terms_text || null,
       privacy_text: policyData?.privacy_text || null,
       terms_sha256: enrollment.terms_sha256,
       opened_at: enrollment.opened_at,
       terms_accepted_at: enrollment.terms_accepted_at,
+      payment_schedule: installments || [],
+      line_items: lineItems || [],
+      payments: payments.map(({ adjustment_cents: _adjustment, ...payment }) => payment),
+      paid_cents: funding.paidCents + funding.processingCents,
+      balance_cents: hasPlan ? enrollment.amount_cents : funding.balanceCents,
+      min_partial_payment_cents: hasPlan ? null : MIN_PARTIAL_PAYMENT_CENTS,
+      allowed_payment_methods: enrollment.allowed_payment_methods,
+      payment_options: paymentOptions,
+      viewer: isPayer ? "payer" : "patient",
+      payer_name: enrollment.payer_email ? enrollment.payer_name : null,
+      payer_relationship: enrollment.payer_email ? enrollment.payer_relationship : null,
+      payer_link_sent_at: isPayer ? null : enrollment.payer_link_sent_at,
+      payer_acknowledgement_text: isPayer
+        ? payerAcknowledgementText(enrollment, (installments?.length ?? 0) > 0)
+        : null,
+      promo_code: enrollment.promo_code,
+      promo_discount_cents: enrollment.promo_discount_cents,
+      needs_attention: !!enrollment.needs_attention_at,
     };
 
     return new Response(JSON.stringify(response), {
@@ -0,0 +1,207 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.2";
+import { deliverCrmSyncItemNow } from "../_shared/crm-sync.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface ManageRequest {
+  item_id: string;
+  action: "retry" | "discard";
+  payload?: Record<string, unknown>; // Replaces the stored payload on retry
+}
+
+// Retry or discard a dead CRM sync item from the dashboard. A retried item is
+// delivered straight away; the record's later writes follow from the worker.
+// Discarding gives up on the write and releases the writes queued behind it.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: "Missing authorization header" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabase = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: adminUser, error: adminError } = await supabase
+      .from("admin_users")
+      .select("id, role")
+      .eq("user_id", user.id)
+      .not("accepted_at", "is", null)
+      .maybeSingle();
+
+    if (adminError || !adminUser) {
+      return new Response(JSON.stringify({ error: "Only admins can manage CRM sync items" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (adminUser.role === "viewer") {
+      return new Response(JSON.stringify({ error: "Viewers do not have permission to manage CRM sync items" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const body: ManageRequest = await req.json();
+
+    if (!body.item_id || !["retry", "discard"].includes(body.action)) {
+      return new Response(JSON.stringify({ error: "item_id and an action of retry or discard are required" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (body.payload !== undefined && (typeof body.payload !== "object" || body.payload === null || Array.isArray(body.payload))) {
+      return new Response(JSON.stringify({ error: "payload must be a JSON object" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+    const { data: item, error: fetchError } = await supabaseAdmin
+      .from("crm_sync_outbox")
+      .select("id, enrollment_id, zoho_module, zoho_record_id, operation, payload, status, last_error")
+      .eq("id", body.item_id)
+      .maybeSingle();
+
+    if (fetchError || !item) {
+      return new Response(JSON.stringify({ error: "CRM sync item not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (item.status !== "dead") {
+      return new Response(JSON.stringify({ error: "Only failed items can be retried or discarded" }), {
+        status: 409,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (
+      body.action === "retry" && item.operation === "add_note" && body.payload &&
+      (typeof body.payload.title !== "string" || typeof body.payload.content !== "string")
+    ) {
+      return new Response(JSON.stringify({ error: "A note needs a title and content" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (
+      body.action === "retry" && item.operation === "upload_attachment" && body.payload &&
+      (typeof body.payload.storage_path !== "string" || typeof body.payload.file_name !== "string")
+    ) {
+      return new Response(JSON.stringify({ error: "An attachment needs a storage_path and file_name" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const resolvedFields = {
+      resolved_at: new Date().toISOString(),
+      resolved_by: user.id,
+      resolved_by_email: user.email,
+    };
+
+    // Only moved while still dead, so two admins cannot both act on it
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from("crm_sync_outbox")
+      .update(body.action === "retry"
+        ? {
+          ...resolvedFields,
+          status: "pending",
+          attempts: 0,
+          next_attempt_at: new Date().toISOString(),
+          dead_at: null,
+          ...(body.payload && { payload: body.payload }),
+        }
+        : { ...resolvedFields, status: "discarded" })
+      .eq("id", item.id)
+      .eq("status", "dead")
+      .select("id")
+      .maybeSingle();
+
+    if (updateError) {
+      console.error("Failed to update CRM sync item:", updateError);
+      return new Response(JSON.stringify({ error: "Database error" }), {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (!updated) {
+      return new Response(JSON.stringify({ error: "This item has already been handled" }), {
+        status: 409,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    await supabaseAdmin.from("admin_audit_log").insert({
+      admin_user_id: user.id,
+      admin_email: user.email,
+      action: body.action === "retry" ? "retry_crm_sync" : "discard_crm_sync",
+      resource_type: "crm_sync_item",
+      resource_id: item.id,
+      resource_summary: {
+        enrollment_id: item.enrollment_id,
+        zoho_module: item.zoho_module,
+        zoho_record_id: item.zoho_record_id,
+        operation: item.operation,
+        last_error: item.last_error,
+        payload_edited: body.action === "retry" && !!body.payload,
+      },
+    });
+
+    const status = body.action === "retry"
+      ? await deliverCrmSyncItemNow(supabaseAdmin, item.id) ?? "pending"
+      : "discarded";
+
+    console.log(`Admin ${user.email} ${body.action === "retry" ? "retried" : "discarded"} CRM sync item ${item.id}: ${status}`);
+
+    return new Response(JSON.stringify({ success: true, status }), {
+      status: 200,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  } catch (error) {
+    console.error("Error in manage-crm-sync-item:", error);
+    return new Response(JSON.stringify({
+      error: error instanceof Error ? error.message : "Internal server error",
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
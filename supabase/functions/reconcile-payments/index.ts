@@ -0,0 +1,662 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2.57.2";
+import {
+  getPaymentProvider,
+  type BalanceTransaction,
+  type PaymentStatus,
+  type ProviderCharge,
+} from "../_shared/payment-provider.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface ReconcileRequest {
+  period_start?: string; // ISO timestamps; scheduled runs cover the last DEFAULT_PERIOD_DAYS
+  period_end?: string;
+}
+
+type DiscrepancyType =
+  | "paid_not_recorded"
+  | "recorded_not_paid"
+  | "amount_mismatch"
+  | "unmatched_charge"
+  | "payout_failed";
+
+interface Discrepancy {
+  fingerprint: string;
+  discrepancy_type: DiscrepancyType;
+  enrollment_id: string | null;
+  installment_id: string | null;
+  stripe_object_id: string | null;
+  stripe_payment_intent_id: string | null;
+  local_status: string | null;
+  expected_amount_cents: number | null;
+  actual_amount_cents: number | null;
+  fee_cents: number | null;
+  net_cents: number | null;
+  currency: string;
+  details: Record<string, unknown>;
+}
+
+// A payment the database expects Stripe to have collected: an enrollment's
+// checkout payment, one of several payments toward its balance, or an
+// off-session installment
+interface LocalPayment {
+  enrollmentId: string;
+  installmentId: string | null;
+  paymentIntentId: string | null;
+  status: string;
+  settled: boolean;
+  expectedCents: number;
+}
+
+interface StripeCharge {
+  balanceTransaction: BalanceTransaction;
+  charge: ProviderCharge;
+}
+
+// Overlapping windows are fine - items are deduplicated by fingerprint
+const DEFAULT_PERIOD_DAYS = 7;
+const MAX_PERIOD_DAYS = 93;
+
+// Enrollment statuses where the checkout payment was collected, even if it was later returned
+const collectedEnrollmentStatuses = [
+  "paid",
+  "partially_paid",
+  "partially_refunded",
+  "refunded",
+  "reversed",
+  "disputed",
+];
+
+// Payment statuses where the charge was collected, even if it was later returned
+const collectedPaymentStatuses = ["succeeded", "reversed"];
+
+const splitPayment = (payment: {
+  id: string;
+  enrollment_id: string;
+  status: string;
+  amount_cents: number;
+  adjustment_cents: number | null;
+  stripe_payment_intent_id: string | null;
+}): LocalPayment => ({
+  enrollmentId: payment.enrollment_id,
+  installmentId: null,
+  paymentIntentId: payment.stripe_payment_intent_id,
+  status: payment.status,
+  settled: collectedPaymentStatuses.includes(payment.status),
+  expectedCents: payment.amount_cents + (payment.adjustment_cents || 0),
+});
+
+const SPLIT_PAYMENT_COLUMNS = "id, enrollment_id, status, amount_cents, adjustment_cents, stripe_payment_intent_id";
+
+// PostgREST filters go in the URL, so long ID lists are queried in batches
+const LOOKUP_BATCH_SIZE = 100;
+
+function batches<T>(items: T[]): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += LOOKUP_BATCH_SIZE) {
+    result.push(items.slice(i, i + LOOKUP_BATCH_SIZE));
+  }
+  return result;
+}
+
+// Index the enrollments, payments and installments behind the given PaymentIntents
+async function loadLocalPayments(
+  supabase: SupabaseClient,
+  paymentIntentIds: string[],
+  sessionIds: Map<string, string>, // PaymentIntent -> checkout session, for enrollments missing the PaymentIntent
+): Promise<Map<string, LocalPayment>> {
+  const payments = new Map<string, LocalPayment>();
+  const enrollmentsById = new Map<string, { id: string; status: string; amount_cents: number; payment_adjustment_cents: number | null }>();
+  const enrollmentIntent = new Map<string, string>();
+
+  for (const batch of batches(paymentIntentIds)) {
+    const { data: enrollments, error } = await supabase
+      .from("enrollments")
+      .select("id, status, amount_cents, payment_adjustment_cents, stripe_payment_intent_id")
+      .in("stripe_payment_intent_id", batch);
+    if (error) throw new Error(`Failed to load enrollments: ${error.message}`);
+
+    for (const enrollment of enrollments || []) {
+      enrollmentsById.set(enrollment.id, enrollment);
+      enrollmentIntent.set(enrollment.id, enrollment.stripe_payment_intent_id);
+    }
+
+    const { data: installments, error: installmentError } = await supabase
+      .from("enrollment_installments")
+      .select("id, enrollment_id, status, amount_cents, stripe_payment_intent_id")
+      .in("stripe_payment_intent_id", batch)
+      .gt("sequence", 1);
+    if (installmentError) throw new Error(`Failed to load installments: ${installmentError.message}`);
+
+    for (const installment of installments || []) {
+      payments.set(installment.stripe_payment_intent_id, {
+        enrollmentId: installment.enrollment_id,
+        installmentId: installment.id,
+        paymentIntentId: installment.stripe_payment_intent_id,
+        status: installment.status,
+        settled: installment.status === "paid",
+        expectedCents: installment.amount_cents,
+      });
+    }
+
+    const { data: splitPayments, error: splitError } = await supabase
+      .from("enrollment_payments")
+      .select(SPLIT_PAYMENT_COLUMNS)
+      .in("stripe_payment_intent_id", batch);
+    if (splitError) throw new Error(`Failed to load enrollment payments: ${splitError.message}`);
+
+    for (const payment of splitPayments || []) {
+      payments.set(payment.stripe_payment_intent_id, splitPayment(payment));
+    }
+  }
+
+  // Payments toward a split balance are recorded before their PaymentIntent
+  // exists, so one whose webhook never arrived is found by its session
+  const pendingSessions = [...sessionIds.entries()].filter(([paymentIntentId]) => !payments.has(paymentIntentId));
+  for (const batch of batches(pendingSessions)) {
+    const { data: splitPayments, error } = await supabase
+      .from("enrollment_payments")
+      .select(`${SPLIT_PAYMENT_COLUMNS}, stripe_session_id`)
+      .in("stripe_session_id", batch.map(([, sessionId]) => sessionId));
+    if (error) throw new Error(`Failed to load enrollment payments: ${error.message}`);
+
+    for (const payment of splitPayments || []) {
+      const match = batch.find(([, sessionId]) => sessionId === payment.stripe_session_id);
+      if (match) payments.set(match[0], { ...splitPayment(payment), paymentIntentId: match[0] });
+    }
+  }
+
+  // The webhook stores the PaymentIntent on completion, so an enrollment whose
+  // webhook never arrived is only linked through its checkout session
+  const matchedIntents = new Set(enrollmentIntent.values());
+  const unmatchedSessions = [...sessionIds.entries()].filter(
+    ([paymentIntentId]) => !payments.has(paymentIntentId) && !matchedIntents.has(paymentIntentId),
+  );
+  for (const batch of batches(unmatchedSessions)) {
+    const { data: enrollments, error } = await supabase
+      .from("enrollments")
+      .select("id, status, amount_cents, payment_adjustment_cents, stripe_session_id")
+      .in("stripe_session_id", batch.map(([, sessionId]) => sessionId));
+    if (error) throw new Error(`Failed to load enrollments: ${error.message}`);
+
+    for (const enrollment of enrollments || []) {
+      const match = batch.find(([, sessionId]) => sessionId === enrollment.stripe_session_id);
+      if (!match) continue;
+      enrollmentsById.set(enrollment.id, enrollment);
+      enrollmentIntent.set(enrollment.id, match[0]);
+    }
+  }
+
+  // Payment plans collect only the deposit at checkout, and checkout adds any
+  // card surcharge or ACH discount
+  const deposits = new Map<string, number>();
+  for (const batch of batches([...enrollmentsById.keys()])) {
+    const { data: depositRows } = await supabase
+      .from("enrollment_installments")
+      .select("enrollment_id, amount_cents")
+      .in("enrollment_id", batch)
+      .eq("sequence", 1);
+    for (const deposit of depositRows || []) {
+      deposits.set(deposit.enrollment_id, deposit.amount_cents);
+    }
+  }
+
+  for (const [enrollmentId, paymentIntentId] of enrollmentIntent) {
+    // The enrollment keeps its latest payment's PaymentIntent, indexed above
+    if (payments.has(paymentIntentId)) continue;
+    const enrollment = enrollmentsById.get(enrollmentId)!;
+    payments.set(paymentIntentId, {
+      enrollmentId,
+      installmentId: null,
+      paymentIntentId,
+      status: enrollment.status,
+      settled: collectedEnrollmentStatuses.includes(enrollment.status),
+      expectedCents: (deposits.get(enrollmentId) ?? enrollment.amount_cents) + (enrollment.payment_adjustment_cents || 0),
+    });
+  }
+
+  return payments;
+}
+
+// Payments marked collected locally during the period. Matched against the
+// charges seen in Stripe, and looked up individually when no charge was seen.
+async function loadRecordedPayments(
+  supabase: SupabaseClient,
+  periodStart: string,
+  periodEnd: string,
+): Promise<LocalPayment[]> {
+  const { data: enrollments, error } = await supabase
+    .from("enrollments")
+    .select("id, status, amount_cents, payment_adjustment_cents, stripe_payment_intent_id, paid_at")
+    .in("status", ["paid", "partially_paid"])
+    // Check, wire and cash payments never reach Stripe
+    .or("payment_method_type.is.null,payment_method_type.in.(card,ach)")
+    .gte("paid_at", periodStart)
+    .lt("paid_at", periodEnd);
+  if (error) throw new Error(`Failed to load paid enrollments: ${error.message}`);
+
+  const { data: installments, error: installmentError } = await supabase
+    .from("enrollment_installments")
+    .select("id, enrollment_id, status, amount_cents, stripe_payment_intent_id")
+    .eq("status", "paid")
+    .gt("sequence", 1)
+    .gte("paid_at", periodStart)
+    .lt("paid_at", periodEnd);
+  if (installmentError) throw new Error(`Failed to load paid installments: ${installmentError.message}`);
+
+  const { data: splitPayments, error: splitError } = await supabase
+    .from("enrollment_payments")
+    .select(SPLIT_PAYMENT_COLUMNS)
+    .eq("status", "succeeded")
+    .gte("paid_at", periodStart)
+    .lt("paid_at", periodEnd);
+  if (splitError) throw new Error(`Failed to load paid enrollment payments: ${splitError.message}`);
+
+  // An enrollment paid through payment records is checked payment by payment
+  const splitEnrollments = new Set<string>();
+  for (const batch of batches((enrollments || []).map((enrollment) => enrollment.id))) {
+    const { data: rows, error: rowsError } = await supabase
+      .from("enrollment_payments")
+      .select("enrollment_id")
+      .in("enrollment_id", batch)
+      .eq("status", "succeeded");
+    if (rowsError) throw new Error(`Failed to load enrollment payments: ${rowsError.message}`);
+    for (const row of rows || []) splitEnrollments.add(row.enrollment_id);
+  }
+
+  return [
+    ...(enrollments || []).filter((enrollment) => !splitEnrollments.has(enrollment.id)).map((enrollment) => ({
+      enrollmentId: enrollment.id,
+      installmentId: null,
+      paymentIntentId: enrollment.stripe_payment_intent_id,
+      status: enrollment.status,
+      settled: true,
+      expectedCents: enrollment.amount_cents + (enrollment.payment_adjustment_cents || 0),
+    })),
+    ...(installments || []).map((installment) => ({
+      enrollmentId: installment.enrollment_id,
+      installmentId: installment.id,
+      paymentIntentId: installment.stripe_payment_intent_id,
+      status: installment.status,
+      settled: true,
+      expectedCents: installment.amount_cents,
+    })),
+    ...(splitPayments || []).map(splitPayment),
+  ];
+}
+
+// Compares Stripe balance transactions and payouts for a date range with the
+// enrollment records and records every disagreement for staff to resolve.
+// Runs daily from pg_cron with the service role key; admins can also run it
+// for any range from the Reconciliation tab.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  let runId: string | null = null;
+
+  try {
+    const paymentProvider = getPaymentProvider();
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: "Missing authorization header" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // The scheduled run authenticates with the service role key; anyone else must be an admin
+    let triggeredBy: { id: string; email: string | null } | null = null;
+    if (authHeader !== `Bearer ${supabaseServiceKey}`) {
+      const supabaseAuth = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+        global: { headers: { Authorization: authHeader } },
+      });
+
+      const { data: { user }, error: userError } = await supabaseAuth.auth.getUser();
+      if (userError || !user) {
+        return new Response(JSON.stringify({ error: "Unauthorized" }), {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      const { data: adminUser, error: adminError } = await supabaseAuth
+        .from("admin_users")
+        .select("id, role")
+        .eq("user_id", user.id)
+        .not("accepted_at", "is", null)
+        .maybeSingle();
+
+      if (adminError || !adminUser) {
+        return new Response(JSON.stringify({ error: "Only admins can run reconciliation" }), {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      if (adminUser.role === "viewer") {
+        return new Response(JSON.stringify({ error: "Viewers do not have permission to run reconciliation" }), {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      triggeredBy = { id: user.id, email: user.email ?? null };
+    }
+
+    const body: ReconcileRequest = await req.json().catch(() => ({}));
+
+    const periodEnd = body.period_end ? new Date(body.period_end) : new Date();
+    const periodStart = body.period_start
+      ? new Date(body.period_start)
+      : new Date(periodEnd.getTime() - DEFAULT_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+
+    if (isNaN(periodStart.getTime()) || isNaN(periodEnd.getTime()) || periodEnd <= periodStart) {
+      return new Response(JSON.stringify({ error: "period_start must be a valid date before period_end" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (periodEnd.getTime() - periodStart.getTime() > MAX_PERIOD_DAYS * 24 * 60 * 60 * 1000) {
+      return new Response(JSON.stringify({ error: `The period can be at most ${MAX_PERIOD_DAYS} days` }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: run, error: runError } = await supabase
+      .from("reconciliation_runs")
+      .insert({
+        period_start: periodStart.toISOString(),
+        period_end: periodEnd.toISOString(),
+        triggered_by: triggeredBy?.id ?? null,
+        triggered_by_email: triggeredBy?.email ?? null,
+      })
+      .select("id")
+      .single();
+
+    if (runError || !run) {
+      console.error("Failed to create reconciliation run:", runError);
+      return new Response(JSON.stringify({ error: "Database error" }), {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    runId = run.id;
+
+    console.log(`Reconciling ${periodStart.toISOString()} to ${periodEnd.toISOString()} (run ${run.id})`);
+
+    const summary = {
+      charges: 0,
+      gross_cents: 0,
+      fee_cents: 0,
+      net_cents: 0,
+      refunded_cents: 0,
+      payouts: 0,
+      paid_out_cents: 0,
+      discrepancies: 0,
+      new_discrepancies: 0,
+    };
+
+    // Every charge that reached the balance in the period, with its fees
+    const charges: StripeCharge[] = [];
+    for await (const balanceTransaction of paymentProvider.listBalanceTransactions(periodStart, periodEnd)) {
+      summary.fee_cents += balanceTransaction.feeCents;
+      summary.net_cents += balanceTransaction.netCents;
+
+      if (balanceTransaction.type === "refund") {
+        summary.refunded_cents += -balanceTransaction.amountCents;
+        continue;
+      }
+
+      const charge = balanceTransaction.charge;
+      if (!charge) continue;
+
+      summary.charges++;
+      summary.gross_cents += balanceTransaction.amountCents;
+      charges.push({ balanceTransaction, charge });
+    }
+
+    const paymentIntentIds = [...new Set(charges.map((c) => c.charge.paymentIntentId).filter((id): id is string => !!id))];
+
+    // Checkout sessions for every charge, so enrollments that never recorded their
+    // PaymentIntent can still be matched
+    const sessionIds = new Map<string, string>();
+    for (const paymentIntentId of paymentIntentIds) {
+      const sessionId = await paymentProvider.findCheckoutSessionId(paymentIntentId);
+      if (sessionId) {
+        sessionIds.set(paymentIntentId, sessionId);
+      }
+    }
+
+    const localPayments = await loadLocalPayments(supabase, paymentIntentIds, sessionIds);
+    const discrepancies: Discrepancy[] = [];
+
+    for (const { balanceTransaction, charge } of charges) {
+      const paymentIntentId = charge.paymentIntentId;
+      const common = {
+        stripe_object_id: balanceTransaction.id,
+        stripe_payment_intent_id: paymentIntentId,
+        actual_amount_cents: charge.amountCents,
+        fee_cents: balanceTransaction.feeCents,
+        net_cents: balanceTransaction.netCents,
+        currency: charge.currency,
+      };
+      const local = paymentIntentId ? localPayments.get(paymentIntentId) : undefined;
+
+      if (!local) {
+        discrepancies.push({
+          ...common,
+          fingerprint: `unmatched_charge:${charge.id}`,
+          discrepancy_type: "unmatched_charge",
+          enrollment_id: null,
+          installment_id: null,
+          local_status: null,
+          expected_amount_cents: null,
+          details: {
+            charge_id: charge.id,
+            checkout_session_id: paymentIntentId ? sessionIds.get(paymentIntentId) ?? null : null,
+            metadata_enrollment_id: charge.metadata.enrollment_id ?? null,
+            description: charge.description,
+            billing_email: charge.billingEmail,
+          },
+        });
+        continue;
+      }
+
+      const matched = {
+        ...common,
+        enrollment_id: local.enrollmentId,
+        installment_id: local.installmentId,
+        local_status: local.status,
+        expected_amount_cents: local.expectedCents,
+      };
+
+      // ACH debits stay pending for days and are recorded as processing until they settle
+      if (!local.settled && charge.status === "succeeded") {
+        discrepancies.push({
+          ...matched,
+          fingerprint: `paid_not_recorded:${paymentIntentId}`,
+          discrepancy_type: "paid_not_recorded",
+          details: { charge_id: charge.id, charge_status: charge.status },
+        });
+      } else if (charge.amountCents !== local.expectedCents) {
+        discrepancies.push({
+          ...matched,
+          fingerprint: `amount_mismatch:${paymentIntentId}`,
+          discrepancy_type: "amount_mismatch",
+          details: { charge_id: charge.id, difference_cents: charge.amountCents - local.expectedCents },
+        });
+      }
+    }
+
+    // Payments marked collected locally with no charge in the period are looked up
+    // directly - ACH charges are created days before they settle
+    const seenPaymentIntents = new Set(paymentIntentIds);
+    const recordedPayments = await loadRecordedPayments(supabase, periodStart.toISOString(), periodEnd.toISOString());
+
+    for (const payment of recordedPayments) {
+      if (payment.paymentIntentId && seenPaymentIntents.has(payment.paymentIntentId)) continue;
+
+      let paymentIntent: PaymentStatus | null = null;
+      let lookupError: string | null = null;
+      if (payment.paymentIntentId) {
+        try {
+          paymentIntent = await paymentProvider.getPaymentStatus(payment.paymentIntentId);
+        } catch (err) {
+          lookupError = err instanceof Error ? err.message : "Unknown error";
+        }
+      }
+
+      if (paymentIntent?.status === "succeeded") continue;
+
+      discrepancies.push({
+        fingerprint: `recorded_not_paid:${payment.installmentId ?? payment.enrollmentId}`,
+        discrepancy_type: "recorded_not_paid",
+        enrollment_id: payment.enrollmentId,
+        installment_id: payment.installmentId,
+        stripe_object_id: payment.paymentIntentId,
+        stripe_payment_intent_id: payment.paymentIntentId,
+        local_status: payment.status,
+        expected_amount_cents: payment.expectedCents,
+        actual_amount_cents: paymentIntent?.amountReceivedCents ?? null,
+        fee_cents: null,
+        net_cents: null,
+        currency: paymentIntent?.currency ?? "usd",
+        details: {
+          payment_intent_status: paymentIntent?.status ?? null,
+          lookup_error: lookupError,
+        },
+      });
+    }
+
+    for await (const payout of paymentProvider.listPayouts(periodStart, periodEnd)) {
+      summary.payouts++;
+
+      if (payout.status === "paid") {
+        summary.paid_out_cents += payout.amountCents;
+      } else if (payout.status === "failed" || payout.status === "canceled") {
+        discrepancies.push({
+          fingerprint: `payout_failed:${payout.id}`,
+          discrepancy_type: "payout_failed",
+          enrollment_id: null,
+          installment_id: null,
+          stripe_object_id: payout.id,
+          stripe_payment_intent_id: null,
+          local_status: null,
+          expected_amount_cents: payout.amountCents,
+          actual_amount_cents: null,
+          fee_cents: null,
+          net_cents: null,
+          currency: payout.currency,
+          details: {
+            payout_status: payout.status,
+            failure_code: payout.failureCode,
+            failure_message: payout.failureMessage,
+            arrival_date: payout.arrivalDate,
+          },
+        });
+      }
+    }
+
+    summary.discrepancies = discrepancies.length;
+
+    if (discrepancies.length > 0) {
+      const now = new Date().toISOString();
+
+      // Known problems keep their first run and any resolution staff have recorded
+      const { data: inserted, error: insertError } = await supabase
+        .from("reconciliation_items")
+        .upsert(
+          discrepancies.map((discrepancy) => ({
+            ...discrepancy,
+            run_id: run.id,
+            last_seen_run_id: run.id,
+            last_seen_at: now,
+          })),
+          { onConflict: "fingerprint", ignoreDuplicates: true },
+        )
+        .select("id");
+
+      if (insertError) {
+        throw new Error(`Failed to record discrepancies: ${insertError.message}`);
+      }
+      summary.new_discrepancies = inserted?.length ?? 0;
+
+      for (const batch of batches(discrepancies.map((d) => d.fingerprint))) {
+        await supabase
+          .from("reconciliation_items")
+          .update({ last_seen_run_id: run.id, last_seen_at: now })
+          .in("fingerprint", batch)
+          .eq("status", "open");
+      }
+    }
+
+    await supabase
+      .from("reconciliation_runs")
+      .update({ status: "completed", summary, completed_at: new Date().toISOString() })
+      .eq("id", run.id);
+
+    if (triggeredBy) {
+      await supabase.from("admin_audit_log").insert({
+        admin_user_id: triggeredBy.id,
+        admin_email: triggeredBy.email,
+        action: "run_reconciliation",
+        resource_type: "reconciliation_run",
+        resource_id: run.id,
+        resource_summary: {
+          period_start: periodStart.toISOString(),
+          period_end: periodEnd.toISOString(),
+          discrepancies: summary.discrepancies,
+          new_discrepancies: summary.new_discrepancies,
+        },
+      });
+    }
+
+    console.log(`Reconciliation run ${run.id}: ${summary.charges} charges, ${summary.discrepancies} discrepancies (${summary.new_discrepancies} new)`);
+
+    return new Response(JSON.stringify({ success: true, run_id: run.id, summary }), {
+      status: 200,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  } catch (error) {
+    console.error("Error in reconcile-payments:", error);
+
+    if (runId) {
+      await supabase
+        .from("reconciliation_runs")
+        .update({
+          status: "failed",
+          error: error instanceof Error ? error.message : "Unknown error",
+          completed_at: new Date().toISOString(),
+        })
+        .eq("id", runId);
+    }
+
+    return new Response(JSON.stringify({
+      error: error instanceof Error ? error.message : "Internal server error",
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
@@ -0,0 +1,355 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.2";
+import { generateAndStoreConsentPdf } from "../_shared/consent-pdf.ts";
+import { generateAndStoreReceiptPdf } from "../_shared/receipt-pdf.ts";
+import { sendConfirmationEmail } from "../_shared/send-confirmation-email.ts";
+import { loadLineItems } from "../_shared/line-items.ts";
+import { loadInstallments, summarizeInstallments } from "../_shared/payment-schedule.ts";
+import { loadEnrollmentPayments, summarizePayments } from "../_shared/enrollment-payments.ts";
+import { appliedPromo } from "../_shared/promo-codes.ts";
+import { queueZohoNote, queueZohoUpdate } from "../_shared/crm-sync.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+type OfflinePaymentMethod = "check" | "wire" | "cash";
+
+interface RecordOfflinePaymentRequest {
+  enrollment_id: string;
+  method: OfflinePaymentMethod;
+  reference_number?: string; // Check number or wire confirmation
+  received_date: string; // YYYY-MM-DD
+  proof_path: string; // Uploaded to the payment-proofs bucket by the dashboard
+  note?: string;
+}
+
+const validMethods: OfflinePaymentMethod[] = ["check", "wire", "cash"];
+
+const methodLabels: Record<OfflinePaymentMethod, string> = {
+  check: "Check",
+  wire: "Wire transfer",
+  cash: "Cash",
+};
+
+// Statuses with money still owed. processing is excluded because a Stripe
+// payment is already in flight.
+const recordableStatuses = ["created", "sent", "opened", "failed", "expired", "partially_paid"];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Records a check, wire or cash payment received outside Stripe and settles the
+// enrollment the same way a successful checkout would: consent PDF,
+// confirmation email and Zoho update.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: "Missing authorization header" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Create Supabase client with user's auth token
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    // Get the current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Verify user is an admin
+    const { data: adminUser, error: adminError } = await supabase
+      .from("admin_users")
+      .select("id, role")
+      .eq("user_id", user.id)
+      .not("accepted_at", "is", null)
+      .maybeSingle();
+
+    if (adminError || !adminUser) {
+      return new Response(JSON.stringify({ error: "Only admins can record payments" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // SECURITY: Recording a payment marks the enrollment as paid
+    if (adminUser.role === "viewer") {
+      return new Response(JSON.stringify({ error: "Viewers do not have permission to record payments" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const body: RecordOfflinePaymentRequest = await req.json();
+
+    // Validate required fields
+    if (!body.enrollment_id || !body.method || !body.received_date || !body.proof_path) {
+      return new Response(JSON.stringify({
+        error: "Missing required fields",
+        required: ["enrollment_id", "method", "received_date", "proof_path"]
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (!validMethods.includes(body.method)) {
+      return new Response(JSON.stringify({
+        error: `Invalid payment method. Must be one of: ${validMethods.join(", ")}`
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const receivedAt = new Date(`${body.received_date}T00:00:00Z`);
+    if (!DATE_PATTERN.test(body.received_date) || isNaN(receivedAt.getTime()) || receivedAt.getTime() > Date.now()) {
+      return new Response(JSON.stringify({ error: "Received date must be a valid date that is not in the future" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // The dashboard uploads proofs under the enrollment's folder
+    if (!body.proof_path.startsWith(`${body.enrollment_id}/`)) {
+      return new Response(JSON.stringify({ error: "Proof document does not belong to this enrollment" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Use service role for database operations
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: enrollment, error: fetchError } = await supabaseAdmin
+      .from("enrollments")
+      .select("*")
+      .eq("id", body.enrollment_id)
+      .single();
+
+    if (fetchError || !enrollment) {
+      return new Response(JSON.stringify({ error: "Enrollment not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (!recordableStatuses.includes(enrollment.status)) {
+      return new Response(JSON.stringify({
+        error: `Cannot record a payment for enrollment with status '${enrollment.status}'.`
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // A payment plan mid-way only owes its remaining installments, and a balance
+    // split across payments only what they have not covered
+    const installments = await loadInstallments(supabaseAdmin, enrollment.id);
+    const amountCents = enrollment.status !== "partially_paid"
+      ? enrollment.amount_cents
+      : installments.length > 0
+      ? summarizeInstallments(installments).outstandingCents
+      : enrollment.amount_cents -
+        summarizePayments(await loadEnrollmentPayments(supabaseAdmin, enrollment.id), enrollment.amount_cents).paidCents;
+
+    if (amountCents <= 0) {
+      return new Response(JSON.stringify({ error: "This enrollment has no outstanding balance" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const paidAt = receivedAt.toISOString();
+    const previousStatus = enrollment.status;
+    // A plan's deposit or earlier partial payments went through Stripe, so the
+    // enrollment keeps their payment details
+    const settlesPlan = previousStatus === "partially_paid";
+
+    // Status guard so a concurrent Stripe payment or second submit cannot double-settle
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from("enrollments")
+      .update({
+        status: "paid",
+        // Paid in full, so it leaves the needs-attention queue
+        needs_attention_at: null,
+        needs_attention_reason: null,
+        // Any card surcharge or ACH discount only applies to a checkout payment
+        ...(!settlesPlan && {
+          paid_at: paidAt,
+          payment_method_type: body.method,
+          payment_adjustment_cents: null,
+          payment_adjustment_label: null,
+        }),
+      })
+      .eq("id", enrollment.id)
+      .eq("status", previousStatus)
+      .select()
+      .maybeSingle();
+
+    if (updateError) {
+      console.error("Failed to update enrollment:", updateError);
+      return new Response(JSON.stringify({ error: "Database error" }), {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (!updated) {
+      return new Response(JSON.stringify({ error: "The enrollment changed while recording the payment. Refresh and try again." }), {
+        status: 409,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // The offline payment covers every installment still owed, so stop scheduled charges
+    const { error: installmentsError } = await supabaseAdmin
+      .from("enrollment_installments")
+      .update({ status: "canceled" })
+      .eq("enrollment_id", enrollment.id)
+      .not("status", "in", "(paid,canceled)");
+
+    if (installmentsError) {
+      console.error("Failed to cancel outstanding installments:", installmentsError);
+    }
+
+    // Likewise any checkout the patient started for the balance
+    const { error: paymentsError } = await supabaseAdmin
+      .from("enrollment_payments")
+      .update({ status: "canceled" })
+      .eq("enrollment_id", enrollment.id)
+      .eq("status", "pending");
+
+    if (paymentsError) {
+      console.error("Failed to cancel pending payments:", paymentsError);
+    }
+
+    const { data: offlinePayment, error: insertError } = await supabaseAdmin
+      .from("enrollment_offline_payments")
+      .insert({
+        enrollment_id: enrollment.id,
+        method: body.method,
+        amount_cents: amountCents,
+        currency: enrollment.currency || "usd",
+        reference_number: body.reference_number?.trim() || null,
+        received_date: body.received_date,
+        proof_path: body.proof_path,
+        note: body.note?.trim() || null,
+        recorded_by: user.id,
+        recorded_by_email: user.email,
+      })
+      .select("id")
+      .single();
+
+    if (insertError) {
+      console.error("Failed to record offline payment:", insertError);
+    }
+
+    // Log event
+    await supabaseAdmin.from("enrollment_events").insert({
+      enrollment_id: enrollment.id,
+      event_type: "offline_payment_recorded",
+      event_data: {
+        recorded_by: user.id,
+        offline_payment_id: offlinePayment?.id ?? null,
+        method: body.method,
+        amount_cents: amountCents,
+        reference_number: body.reference_number?.trim() || null,
+        received_date: body.received_date,
+        previous_status: previousStatus,
+      },
+    });
+
+    // Write to the admin audit trail
+    await supabaseAdmin.from("admin_audit_log").insert({
+      admin_user_id: user.id,
+      admin_email: user.email,
+      action: "record_payment",
+      resource_type: "enrollment",
+      resource_id: enrollment.id,
+      resource_summary: {
+        patient_name: enrollment.patient_name,
+        patient_email: enrollment.patient_email,
+        method: body.method,
+        amount_cents: amountCents,
+        reference_number: body.reference_number?.trim() || null,
+        received_date: body.received_date,
+        previous_status: previousStatus,
+      },
+    });
+
+    // Generate consent PDF and receipt with the received date as the payment date
+    const pdfBytes = await generateAndStoreConsentPdf(supabaseAdmin, updated, paidAt);
+    await generateAndStoreReceiptPdf(supabaseAdmin, updated, { paidAt, paymentMethodType: body.method, amountCents });
+    await sendConfirmationEmail({
+      patientName: updated.patient_name || "Valued Patient",
+      patientEmail: updated.patient_email,
+      amountCents,
+      currency: updated.currency || "usd",
+      paymentMethodType: body.method,
+      paymentDate: paidAt,
+      pdfBytes: pdfBytes,
+      enrollmentId: updated.id,
+      lineItems: await loadLineItems(supabaseAdmin, updated.id),
+      promo: appliedPromo(updated),
+      payerName: updated.payer_name,
+      payerEmail: updated.payer_email,
+    });
+
+    // Update Zoho CRM - retried in the background if Zoho is unavailable
+    await queueZohoUpdate(supabaseAdmin, updated, {
+      status: "paid",
+      payment_date: paidAt,
+    });
+    await queueZohoNote(
+      supabaseAdmin,
+      updated,
+      "Payment Recorded",
+      `${methodLabels[body.method]} payment recorded by ${user.email}. Amount: $${(amountCents / 100).toFixed(2)}. Received: ${body.received_date}${body.reference_number?.trim() ? `. Reference: ${body.reference_number.trim()}` : ""}`
+    );
+
+    console.log(`Admin ${user.email} recorded ${body.method} payment of ${amountCents} cents on enrollment ${enrollment.id}`);
+
+    return new Response(JSON.stringify({
+      success: true,
+      offline_payment_id: offlinePayment?.id ?? null,
+      amount_cents: amountCents,
+    }), {
+      status: 200,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  } catch (error) {
+    console.error("Error in record-offline-payment:", error);
+    return new Response(JSON.stringify({
+      error: error instanceof Error ? error.message : "Internal server error"
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
@@ -0,0 +1,390 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.2";
+import { getPaymentProvider } from "../_shared/payment-provider.ts";
+import { loadEnrollmentPayments } from "../_shared/enrollment-payments.ts";
+import { installmentChargedCents, loadInstallments } from "../_shared/payment-schedule.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+type RefundReason = "requested_by_customer" | "duplicate" | "fraudulent";
+
+interface RefundEnrollmentRequest {
+  enrollment_id: string;
+  amount_cents?: number; // Omit for a full refund of the remaining balance
+  reason: RefundReason;
+  note?: string;
+}
+
+const validReasons: RefundReason[] = ["requested_by_customer", "duplicate", "fraudulent"];
+
+// Refunds that have not failed still count against the refundable balance
+const activeRefundStatuses = ["pending", "requires_action", "succeeded"];
+
+interface RecordedRefund {
+  amount_cents: number;
+  status: string;
+  enrollment_payment_id: string | null;
+  enrollment_installment_id: string | null;
+}
+
+// A charge on the enrollment and how much of it is already refunded
+interface RefundableCharge {
+  paymentIntentId: string;
+  enrollmentPaymentId: string | null;
+  enrollmentInstallmentId: string | null;
+  chargedCents: number;
+  refundedCents: number;
+}
+
+// A share of the refund against one charge
+interface RefundAllocation {
+  paymentIntentId: string;
+  enrollmentPaymentId: string | null;
+  enrollmentInstallmentId: string | null;
+  amountCents: number;
+  refundedBeforeCents: number;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const paymentProvider = getPaymentProvider();
+
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: "Missing authorization header" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Create Supabase client with user's auth token
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    // Get the current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Verify user is an admin
+    const { data: adminUser, error: adminError } = await supabase
+      .from("admin_users")
+      .select("id, role")
+      .eq("user_id", user.id)
+      .not("accepted_at", "is", null)
+      .maybeSingle();
+
+    if (adminError || !adminUser) {
+      return new Response(JSON.stringify({ error: "Only admins can issue refunds" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // SECURITY: Viewers cannot move money
+    if (adminUser.role === "viewer") {
+      return new Response(JSON.stringify({ error: "Viewers do not have permission to issue refunds" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const body: RefundEnrollmentRequest = await req.json();
+
+    // Validate required fields
+    if (!body.enrollment_id || !body.reason) {
+      return new Response(JSON.stringify({
+        error: "Missing required fields",
+        required: ["enrollment_id", "reason"]
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (!validReasons.includes(body.reason)) {
+      return new Response(JSON.stringify({
+        error: `Invalid refund reason. Must be one of: ${validReasons.join(", ")}`
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (body.amount_cents !== undefined && (!Number.isInteger(body.amount_cents) || body.amount_cents <= 0)) {
+      return new Response(JSON.stringify({ error: "Refund amount must be a positive whole number of cents" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Use service role for database operations
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: enrollment, error: fetchError } = await supabaseAdmin
+      .from("enrollments")
+      .select("*")
+      .eq("id", body.enrollment_id)
+      .single();
+
+    if (fetchError || !enrollment) {
+      return new Response(JSON.stringify({ error: "Enrollment not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Only settled payments can be refunded
+    const refundableStatuses = ["paid", "partially_paid", "partially_refunded"];
+    if (!refundableStatuses.includes(enrollment.status)) {
+      return new Response(JSON.stringify({
+        error: `Cannot refund enrollment with status '${enrollment.status}'. Only paid enrollments can be refunded.`
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (!enrollment.stripe_payment_intent_id) {
+      return new Response(JSON.stringify({ error: "Enrollment has no payment to refund" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Work out how much is still refundable, including refunds the payment provider has not confirmed yet
+    const { data: existingRefunds, error: refundsError } = await supabaseAdmin
+      .from("enrollment_refunds")
+      .select("amount_cents, status, enrollment_payment_id, enrollment_installment_id")
+      .eq("enrollment_id", enrollment.id);
+
+    if (refundsError) {
+      console.error("Failed to load existing refunds:", refundsError);
+      return new Response(JSON.stringify({ error: "Database error" }), {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const activeRefunds = ((existingRefunds || []) as RecordedRefund[])
+      .filter((r) => activeRefundStatuses.includes(r.status));
+    // A refund that failed leaves the refundable state as it was, so the next
+    // attempt needs a new idempotency key to issue a new refund
+    const failedRefundCount = (existingRefunds || []).length - activeRefunds.length;
+    const refundedAgainst = (matches: (r: RecordedRefund) => boolean) =>
+      activeRefunds.filter(matches).reduce((sum, r) => sum + r.amount_cents, 0);
+
+    // Payment plans and enrollments paid across several payments refund each
+    // charge separately, newest first, each with its own surcharge or discount
+    let charges: RefundableCharge[];
+    const installments = await loadInstallments(supabaseAdmin, enrollment.id);
+    if (installments.length > 0) {
+      // The deposit paid at checkout and the installments charged since
+      charges = installments
+        .filter((i) => i.status === "paid" && (i.stripe_payment_intent_id || i.sequence === 1))
+        .reverse()
+        .map((i) => ({
+          paymentIntentId: i.stripe_payment_intent_id ?? enrollment.stripe_payment_intent_id,
+          enrollmentPaymentId: null,
+          enrollmentInstallmentId: i.id,
+          chargedCents: installmentChargedCents(i, enrollment.payment_adjustment_cents),
+          refundedCents: refundedAgainst((r) => r.enrollment_installment_id === i.id),
+        }));
+    } else {
+      const payments = (await loadEnrollmentPayments(supabaseAdmin, enrollment.id))
+        .filter((p) => p.status === "succeeded" && p.stripe_payment_intent_id);
+      charges = payments.length > 0
+        ? payments.reverse().map((p) => ({
+          paymentIntentId: p.stripe_payment_intent_id!,
+          enrollmentPaymentId: p.id,
+          enrollmentInstallmentId: null,
+          chargedCents: p.amount_cents + (p.adjustment_cents || 0),
+          refundedCents: refundedAgainst((r) => r.enrollment_payment_id === p.id),
+        }))
+        : [{
+          paymentIntentId: enrollment.stripe_payment_intent_id,
+          enrollmentPaymentId: null,
+          enrollmentInstallmentId: null,
+          // A card surcharge or ACH discount was part of the checkout payment
+          chargedCents: enrollment.amount_cents + (enrollment.payment_adjustment_cents || 0),
+          refundedCents: refundedAgainst(() => true),
+        }];
+    }
+
+    const remainingCents = charges.reduce((sum, c) => sum + c.chargedCents - c.refundedCents, 0);
+    const refundAmount = body.amount_cents ?? remainingCents;
+
+    if (remainingCents <= 0) {
+      return new Response(JSON.stringify({ error: "This enrollment has already been fully refunded" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (refundAmount > remainingCents) {
+      return new Response(JSON.stringify({
+        error: `Refund amount exceeds the refundable balance of $${(remainingCents / 100).toFixed(2)}`
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const allocations: RefundAllocation[] = [];
+    let unallocated = refundAmount;
+    for (const charge of charges) {
+      const share = Math.min(unallocated, charge.chargedCents - charge.refundedCents);
+      if (share <= 0) continue;
+      allocations.push({
+        paymentIntentId: charge.paymentIntentId,
+        enrollmentPaymentId: charge.enrollmentPaymentId,
+        enrollmentInstallmentId: charge.enrollmentInstallmentId,
+        amountCents: share,
+        refundedBeforeCents: charge.refundedCents,
+      });
+      unallocated -= share;
+      if (unallocated === 0) break;
+    }
+
+    const refunds = [];
+    const unrecordedRefundIds: string[] = [];
+    for (const allocation of allocations) {
+      // Idempotency key is derived from the refundable state so a double-submit
+      // cannot issue the same refund twice
+      const refund = await paymentProvider.createRefund({
+        paymentIntentId: allocation.paymentIntentId,
+        amountCents: allocation.amountCents,
+        reason: body.reason,
+        metadata: {
+          enrollment_id: enrollment.id,
+          refunded_by: user.id,
+          zoho_record_id: enrollment.zoho_record_id,
+          zoho_module: enrollment.zoho_module,
+        },
+        idempotencyKey: `refund-${allocation.enrollmentPaymentId ?? allocation.enrollmentInstallmentId ?? enrollment.id}-${allocation.refundedBeforeCents}-${allocation.amountCents}-${failedRefundCount}`,
+      });
+      refunds.push(refund);
+
+      // Record the refund - enrollment status is moved by the charge.refunded webhook
+      const { error: insertError } = await supabaseAdmin
+        .from("enrollment_refunds")
+        .upsert({
+          enrollment_id: enrollment.id,
+          enrollment_payment_id: allocation.enrollmentPaymentId,
+          enrollment_installment_id: allocation.enrollmentInstallmentId,
+          stripe_refund_id: refund.id,
+          amount_cents: allocation.amountCents,
+          currency: enrollment.currency || "usd",
+          reason: body.reason,
+          note: body.note?.trim() || null,
+          status: refund.status,
+          source: "admin_dashboard",
+          created_by: user.id,
+          created_by_email: user.email,
+        }, { onConflict: "stripe_refund_id" });
+
+      if (insertError) {
+        console.error("Failed to record refund:", insertError);
+        unrecordedRefundIds.push(refund.id);
+      }
+    }
+
+    const refund = refunds[0];
+    const isFullRefund = refundAmount === remainingCents;
+
+    // Log the refund request event
+    await supabaseAdmin.from("enrollment_events").insert({
+      enrollment_id: enrollment.id,
+      event_type: "refund_requested",
+      event_data: {
+        source: "admin_dashboard",
+        requested_by: user.id,
+        refund_id: refund.id,
+        ...(refunds.length > 1 && { refund_ids: refunds.map((r) => r.id) }),
+        amount_cents: refundAmount,
+        full_refund: isFullRefund,
+        reason: body.reason,
+        note: body.note?.trim() || null,
+        refund_status: refund.status,
+      },
+    });
+
+    // Write to the admin audit trail
+    await supabaseAdmin.from("admin_audit_log").insert({
+      admin_user_id: user.id,
+      admin_email: user.email,
+      action: "refund",
+      resource_type: "enrollment",
+      resource_id: enrollment.id,
+      resource_summary: {
+        patient_name: enrollment.patient_name,
+        patient_email: enrollment.patient_email,
+        amount_cents: refundAmount,
+        original_amount_cents: enrollment.amount_cents,
+        full_refund: isFullRefund,
+        reason: body.reason,
+        refund_id: refund.id,
+        ...(refunds.length > 1 && { refund_ids: refunds.map((r) => r.id) }),
+      },
+    });
+
+    console.log(`Admin ${user.email} refunded ${refundAmount} cents on enrollment ${enrollment.id} (${refunds.map((r) => r.id).join(", ")})`);
+
+    // The money has moved, so the request must not look like it can be repeated.
+    // stripe-webhook records the missing refunds from the charge.refunded event.
+    if (unrecordedRefundIds.length > 0) {
+      return new Response(JSON.stringify({
+        error: "The refund was issued but could not be recorded. Check the refund history before refunding again.",
+        refund_ids: refunds.map((r) => r.id),
+        unrecorded_refund_ids: unrecordedRefundIds,
+      }), {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      refund_id: refund.id,
+      ...(refunds.length > 1 && { refund_ids: refunds.map((r) => r.id) }),
+      refund_status: refund.status,
+      amount_cents: refundAmount,
+      full_refund: isFullRefund,
+    }), {
+      status: 200,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  } catch (error) {
+    console.error("Error in refund-enrollment:", error);
+    return new Response(JSON.stringify({
+      error: error instanceof Error ? error.message : "Internal server error"
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
@@ -1,5 +1,9 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2.57.2";
+import { payerLinkResetFields } from "../_shared/payer.ts";
+import { paymentRecoveryResetFields } from "../_shared/payment-recovery.ts";
+import { queueZohoNote, queueZohoUpdate } from "../_shared/crm-sync.ts";
+import { formatZohoDateTime } from "../_shared/zoho.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -25,36 +29,6 @@ async function sha256Hash(data: string): Promise<string> {
   return Array.from(new Uint8Array(hashBuffer), (b) => b.toString(16).padStart(2, "0")).join("");
 }
 
-// Helper to refresh Zoho access token
-async function getZohoAccessToken(): Promise<string> {
-  const refreshToken = Deno.env.get("ZOHO_REFRESH_TOKEN");
-  const clientId = Deno.env.get("ZOHO_CLIENT_ID");
-  const clientSecret = Deno.env.get("ZOHO_CLIENT_SECRET");
-
-  if (!refreshToken || !clientId || !clientSecret) {
-    throw new Error("Zoho credentials not configured");
-  }
-
-  const response = await fetch("https://accounts.zoho.com/oauth/v2/token", {
-    method: "POST",
-    headers: { "Content-Type": "application/x-www-form-urlencoded" },
-    body: new URLSearchParams({
-      refresh_token: refreshToken,
-      client_id: clientId,
-      client_secret: clientSecret,
-      grant_type: "refresh_token",
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to refresh Zoho token: ${errorText}`);
-  }
-
-  const data = await response.json();
-  return data.access_token;
-}
-
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -148,11 +122,11 @@ serve(async (req) => {
       });
     }
 
-    // Check if enrollment can be regenerated (cannot regenerate paid or processing enrollments)
-    const nonRegeneratableStatuses = ['paid', 'processing'];
+    // Check if enrollment can be regenerated (cannot regenerate paid, processing, refunded or disputed enrollments)
+    const nonRegeneratableStatuses = ['paid', 'partially_paid', 'processing', 'refunded', 'partially_refunded', 'disputed'];
     if (nonRegeneratableStatuses.includes(existingEnrollment.status)) {
       return new Response(JSON.stringify({ 
-        error: `Cannot regenerate enrollment with status '${existingEnrollment.status}'. Paid or processing enrollments cannot be regenerated.`
+        error: `Cannot regenerate enrollment with status '${existingEnrollment.status}'. Paid, processing, refunded or disputed enrollments cannot be regenerated.`
       }), {
         status: 400,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -201,13 +175,31 @@ serve(async (req) => {
       paid_at: null,
       failed_at: null,
       expired_at: null,
+      reversed_at: null,
       terms_accepted_at: null,
       terms_accept_ip: null,
       terms_accept_user_agent: null,
       stripe_session_id: null,
       stripe_payment_intent_id: null,
       stripe_customer_id: null,
+      stripe_payment_method_id: null,
       payment_method_type: null,
+      payment_adjustment_cents: null,
+      payment_adjustment_label: null,
+      stripe_charge_id: null,
+      payment_card_brand: null,
+      payment_bank_name: null,
+      payment_last4: null,
+      payment_gross_cents: null,
+      payment_fee_cents: null,
+      payment_net_cents: null,
+      payment_receipt_url: null,
+      payment_risk_level: null,
+      payment_billing_address: null,
+      // The payer gets a new link once the patient signs again
+      ...payerLinkResetFields,
+      // A new link takes the enrollment out of the needs-attention queue
+      ...paymentRecoveryResetFields,
     };
 
     // Update policy-related fields if we have a policy
@@ -254,60 +246,22 @@ serve(async (req) => {
 
     console.log(`Admin ${user.email} regenerated enrollment ${body.enrollment_id}`);
 
-    // Sync to Zoho CRM
+    // Sync to Zoho CRM - retried in the background if Zoho is unavailable
     if (updatedEnrollment.zoho_record_id && updatedEnrollment.zoho_module) {
-      try {
-        const zohoAccessToken = await getZohoAccessToken();
-
-        // Format expiry for Zoho (yyyy-MM-ddTHH:mm:ss+00:00)
-        const pad = (n: number) => String(n).padStart(2, "0");
-        const expiresAtFormatted = `${expiresAt.getFullYear()}-${pad(expiresAt.getMonth() + 1)}-${pad(expiresAt.getDate())}T${pad(expiresAt.getHours())}:${pad(expiresAt.getMinutes())}:${pad(expiresAt.getSeconds())}+00:00`;
-
-        const zohoResponse = await fetch(
-          `https://www.zohoapis.com/crm/v6/${updatedEnrollment.zoho_module}/${updatedEnrollment.zoho_record_id}`,
-          {
-            method: "PUT",
-            headers: {
-              Authorization: `Zoho-oauthtoken ${zohoAccessToken}`,
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-              data: [{
-                Enrollment_Status: "created",
-                Enrollment_Link: enrollmentUrl,
-                Enrollment_Expires_At: expiresAtFormatted,
-                Enrollment_Token_Last4: tokenLast4,
-              }],
-            }),
-          }
-        );
-
-        if (!zohoResponse.ok) {
-          console.error("Failed to update Zoho on regenerate:", await zohoResponse.text());
-        } else {
-          console.log(`Updated Zoho ${updatedEnrollment.zoho_module}/${updatedEnrollment.zoho_record_id} with regenerated link`);
-        }
-
-        // Add timeline note
-        await fetch("https://www.zohoapis.com/crm/v6/Notes", {
-          method: "POST",
-          headers: {
-            Authorization: `Zoho-oauthtoken ${zohoAccessToken}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            data: [{
-              Parent_Id: updatedEnrollment.zoho_record_id,
-              se_module: updatedEnrollment.zoho_module,
-              Note_Title: "Enrollment Link Regenerated",
-              Note_Content: `Enrollment link was regenerated by admin. New link expires at ${expiresAt.toISOString()}. Previous status: ${existingEnrollment.status}.`,
-            }],
-          }),
-        });
-      } catch (zohoErr) {
-        console.error("Zoho sync error on regenerate:", zohoErr);
-        // Don't fail the regeneration if Zoho sync fails
-      }
+      await queueZohoUpdate(supabaseAdmin, updatedEnrollment, {
+        status: "created",
+        enrollment_link: enrollmentUrl,
+        link_expires_at: formatZohoDateTime(expiresAt),
+        token_last4: tokenLast4,
+      });
+
+      // Add timeline note
+      await queueZohoNote(
+        supabaseAdmin,
+        updatedEnrollment,
+        "Enrollment Link Regenerated",
+        `Enrollment link was regenerated by admin. New link expires at ${expiresAt.toISOString()}. Previous status: ${existingEnrollment.status}.`
+      );
     }
 
     return new Response(JSON.stringify({
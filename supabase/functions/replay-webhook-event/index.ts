@@ -0,0 +1,182 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface ReplayRequest {
+  webhook_event_id: string;
+}
+
+const replayableStatuses = ["failed", "skipped"];
+
+// Re-runs the stripe-webhook handler for a stored event, e.g. after a failed
+// database update. stripe-webhook loads the verified payload itself, so only
+// events that were received and verified can be replayed.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: "Missing authorization header" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Create Supabase client with user's auth token
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    // Get the current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Verify user is an admin
+    const { data: adminUser, error: adminError } = await supabase
+      .from("admin_users")
+      .select("id, role")
+      .eq("user_id", user.id)
+      .not("accepted_at", "is", null)
+      .maybeSingle();
+
+    if (adminError || !adminUser) {
+      return new Response(JSON.stringify({ error: "Only admins can replay webhook events" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // SECURITY: Replaying can move an enrollment's payment status
+    if (adminUser.role === "viewer") {
+      return new Response(JSON.stringify({ error: "Viewers do not have permission to replay webhook events" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const body: ReplayRequest = await req.json();
+
+    if (!body.webhook_event_id) {
+      return new Response(JSON.stringify({
+        error: "Missing required fields",
+        required: ["webhook_event_id"]
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Use service role for database operations
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: webhookEvent, error: fetchError } = await supabaseAdmin
+      .from("webhook_events")
+      .select("id, event_id, event_type, kind, enrollment_id, status")
+      .eq("id", body.webhook_event_id)
+      .maybeSingle();
+
+    if (fetchError || !webhookEvent) {
+      return new Response(JSON.stringify({ error: "Webhook event not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (webhookEvent.status === "processing") {
+      return new Response(JSON.stringify({ error: "This event is being processed. Try again shortly." }), {
+        status: 409,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // An event that succeeded already had its effects, e.g. the confirmation email
+    if (!replayableStatuses.includes(webhookEvent.status)) {
+      return new Response(JSON.stringify({ error: "Only failed or skipped events can be replayed" }), {
+        status: 409,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    await supabaseAdmin
+      .from("webhook_events")
+      .update({
+        last_replayed_at: new Date().toISOString(),
+        last_replayed_by_email: user.email,
+      })
+      .eq("id", webhookEvent.id);
+
+    const response = await fetch(`${supabaseUrl}/functions/v1/stripe-webhook`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${supabaseServiceKey}`,
+        "x-webhook-replay": webhookEvent.event_id,
+      },
+    });
+    const result = await response.json().catch(() => ({}));
+
+    const { data: updated } = await supabaseAdmin
+      .from("webhook_events")
+      .select("status, error")
+      .eq("id", webhookEvent.id)
+      .single();
+
+    await supabaseAdmin.from("admin_audit_log").insert({
+      admin_user_id: user.id,
+      admin_email: user.email,
+      action: "replay_webhook",
+      resource_type: "webhook_event",
+      resource_id: webhookEvent.id,
+      resource_summary: {
+        event_id: webhookEvent.event_id,
+        event_type: webhookEvent.event_type,
+        enrollment_id: webhookEvent.enrollment_id,
+        previous_status: webhookEvent.status,
+        status: updated?.status ?? null,
+      },
+    });
+
+    console.log(`Replayed webhook event ${webhookEvent.event_id}: ${updated?.status ?? response.status}`);
+
+    return new Response(JSON.stringify({
+      success: response.ok,
+      status: updated?.status ?? null,
+      error: updated?.error ?? (response.ok ? null : result.error ?? `stripe-webhook returned ${response.status}`),
+    }), {
+      status: 200,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  } catch (error) {
+    console.error("Error in replay-webhook-event:", error);
+    return new Response(JSON.stringify({
+      error: error instanceof Error ? error.message : "Internal server error",
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
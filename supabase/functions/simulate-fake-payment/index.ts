@@ -0,0 +1,134 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.2";
+import {
+  FAKE_SIGNATURE_HEADER,
+  fakeEventsFor,
+  signFakeWebhook,
+  type FakeStage,
+} from "../_shared/fake-payment-provider.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface SimulateRequest {
+  enrollment_id: string;
+  stages?: FakeStage[]; // Defaults to checkout followed by settlement
+}
+
+const validStages: FakeStage[] = ["checkout", "settlement", "expire", "refund"];
+
+// Plays the fake provider's events for an enrollment's checkout through
+// stripe-webhook, as the processor would. Only available with PAYMENT_PROVIDER=fake.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  if (Deno.env.get("PAYMENT_PROVIDER") !== "fake") {
+    return new Response(JSON.stringify({ error: "Not found" }), {
+      status: 404,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const webhookSecret = Deno.env.get("FAKE_PAYMENT_WEBHOOK_SECRET");
+    if (!webhookSecret) {
+      throw new Error("FAKE_PAYMENT_WEBHOOK_SECRET not configured");
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const supabase = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "");
+
+    const body: SimulateRequest = await req.json();
+    const stages = body.stages ?? ["checkout", "settlement"];
+
+    if (!body.enrollment_id) {
+      return new Response(JSON.stringify({ error: "enrollment_id is required" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (!Array.isArray(stages) || stages.some((stage) => !validStages.includes(stage))) {
+      return new Response(JSON.stringify({ error: `stages must be a list of: ${validStages.join(", ")}` }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: enrollment } = await supabase
+      .from("enrollments")
+      .select("id, stripe_session_id")
+      .eq("id", body.enrollment_id)
+      .maybeSingle();
+
+    if (!enrollment?.stripe_session_id?.startsWith("fake_cs_")) {
+      return new Response(JSON.stringify({ error: "Enrollment has no fake checkout session" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: refunds } = await supabase
+      .from("enrollment_refunds")
+      .select("stripe_refund_id, amount_cents, currency, reason, status")
+      .eq("enrollment_id", enrollment.id)
+      .in("status", ["pending", "succeeded"]);
+
+    const delivered: { event_id: string; kind: string | null; status: number }[] = [];
+
+    for (const stage of stages) {
+      const events = fakeEventsFor(
+        enrollment.stripe_session_id,
+        stage,
+        (refunds || []).map((refund) => ({
+          id: refund.stripe_refund_id,
+          amountCents: refund.amount_cents,
+          currency: refund.currency,
+          reason: refund.reason,
+          status: refund.status,
+        })),
+      );
+
+      for (const event of events) {
+        const payload = JSON.stringify(event);
+        const response = await fetch(`${supabaseUrl}/functions/v1/stripe-webhook`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            [FAKE_SIGNATURE_HEADER]: await signFakeWebhook(payload, webhookSecret),
+          },
+          body: payload,
+        });
+        await response.body?.cancel();
+        delivered.push({ event_id: event.id, kind: event.kind, status: response.status });
+      }
+    }
+
+    console.log(`Simulated ${delivered.length} fake payment events for enrollment ${enrollment.id}`);
+
+    return new Response(JSON.stringify({ delivered }), {
+      status: 200,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  } catch (error) {
+    console.error("Error in simulate-fake-payment:", error);
+    return new Response(JSON.stringify({
+      error: error instanceof Error ? error.message : "Internal server error",
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
@@ -1,520 +1,2030 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2.57.2";
-import Stripe from "npm:stripe@18.5.0";
-import { generateConsentPdf } from "../_shared/consent-pdf.ts";
+import {
+  getPaymentProvider,
+  type PaymentDetails,
+  type PaymentDispute,
+  type PaymentEvent,
+  type PaymentProvider,
+} from "../_shared/payment-provider.ts";
+import { generateAndStoreConsentPdf } from "../_shared/consent-pdf.ts";
+import { generateAndStoreReceiptPdf } from "../_shared/receipt-pdf.ts";
 import { sendConfirmationEmail } from "../_shared/send-confirmation-email.ts";
+import { sendPaymentIssueEmail } from "../_shared/send-payment-issue-email.ts";
+import { buildDisputeEvidence } from "../_shared/dispute-evidence.ts";
+import { loadLineItems } from "../_shared/line-items.ts";
+import { syncPatientFromPayment } from "../_shared/patient-contact.ts";
+import { hasThirdPartyPayer, paymentContact } from "../_shared/payer.ts";
+import { appliedPromo } from "../_shared/promo-codes.ts";
+import { recordFailedAttempt } from "../_shared/payment-recovery.ts";
+import { queueZohoNote, queueZohoUpdate } from "../_shared/crm-sync.ts";
+import type { EnrollmentZohoFields } from "../_shared/zoho-fields.ts";
+import {
+  type CheckoutSessionRecord,
+  findCheckoutSession,
+  markCheckoutSession,
+} from "../_shared/checkout-sessions.ts";
+import {
+  enrollmentTotalsFields,
+  type EnrollmentPaymentRecord,
+  findEnrollmentPayment,
+  fundedStatus,
+  loadEnrollmentPayments,
+  markEnrollmentPayment,
+  paymentRecordDetails,
+  summarizePayments,
+} from "../_shared/enrollment-payments.ts";
+import {
+  findInstallmentByPaymentIntent,
+  installmentChargedCents,
+  loadInstallments,
+  markDepositInstallment,
+  markInstallmentFailed,
+  markInstallmentPaid,
+  settledStatusFor,
+} from "../_shared/payment-schedule.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, stripe-signature",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, stripe-signature, x-fake-signature",
 };
 
-// Helper to refresh Zoho access token
-async function getZohoAccessToken(): Promise<string> {
-  const refreshToken = Deno.env.get("ZOHO_REFRESH_TOKEN");
-  const clientId = Deno.env.get("ZOHO_CLIENT_ID");
-  const clientSecret = Deno.env.get("ZOHO_CLIENT_SECRET");
+// Set by replay-webhook-event to the ID of a stored event
+const REPLAY_HEADER = "x-webhook-replay";
 
-  if (!refreshToken || !clientId || !clientSecret) {
-    throw new Error("Zoho credentials not configured");
+// An event that succeeded already had its effects, so it is never run again
+const replayableEventStatuses = ["failed", "skipped"];
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Statuses where money has settled and a late failure means the payment was reversed
+const settledStatuses = ["paid", "partially_paid", "partially_refunded"];
+
+// Statuses a failure event must never overwrite
+const finalPaymentStatuses = ["paid", "partially_paid", "partially_refunded", "refunded", "reversed", "failed", "disputed"];
+
+// Statuses a refund moves to refunded or partially_refunded. A disputed or
+// reversed enrollment keeps its status and only records the amount refunded.
+const refundableStatuses = [...settledStatuses, "refunded"];
+
+// Refunds that have not failed or been canceled count toward the amount refunded
+const activeRefundStatuses = ["pending", "requires_action", "succeeded"];
+
+// Statuses a checkout payment can complete from. A replayed or late checkout
+// event must not move a settled, refunded or disputed enrollment back to paid.
+const payableStatuses = ["created", "sent", "opened", "failed", "expired", "processing"];
+
+// Statuses a split payment's outcome must never move the enrollment out of
+const closedPaymentStatuses = ["paid", "partially_refunded", "refunded", "reversed", "disputed", "canceled"];
+
+interface AdjustedEnrollment {
+  payment_adjustment_cents: number | null;
+  payment_adjustment_label: string | null;
+}
+
+// Card surcharge or ACH discount applied to the checkout charge
+function paymentAdjustment(enrollment: AdjustedEnrollment): { label: string; amount_cents: number } | null {
+  if (!enrollment.payment_adjustment_cents) return null;
+  return {
+    label: enrollment.payment_adjustment_label || "Payment method adjustment",
+    amount_cents: enrollment.payment_adjustment_cents,
+  };
+}
+
+const adjustmentNote = (enrollment: AdjustedEnrollment) => {
+  const adjustment = paymentAdjustment(enrollment);
+  return adjustment ? `. Includes ${adjustment.label}: ${adjustment.amount_cents < 0 ? "-" : ""}$${(Math.abs(adjustment.amount_cents) / 100).toFixed(2)}` : "";
+};
+
+// Third-party payer, for Zoho notes
+const payerNote = (enrollment: { payer_name: string | null; payer_email: string | null; payer_relationship: string | null }) =>
+  hasThirdPartyPayer(enrollment)
+    ? `. Paid by ${enrollment.payer_name}${enrollment.payer_relationship ? ` (${enrollment.payer_relationship})` : ""} on the patient's behalf`
+    : "";
+
+// Work out which payment method was actually used - the session only lists the allowed ones -
+// along with the card or bank, fees and receipt. The method ID is kept so payment plans can
+// charge later installments off-session.
+async function loadPaymentDetails(
+  paymentProvider: PaymentProvider,
+  paymentIntentId: string | null,
+): Promise<PaymentDetails | null> {
+  if (!paymentIntentId) return null;
+  try {
+    return await paymentProvider.getPaymentDetails(paymentIntentId);
+  } catch (err) {
+    console.error("Failed to load payment details:", err);
+    return null;
   }
+}
 
-  const response = await fetch("https://accounts.zoho.com/oauth/v2/token", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/x-www-form-urlencoded",
-    },
-    body: new URLSearchParams({
-      refresh_token: refreshToken,
-      client_id: clientId,
-      client_secret: clientSecret,
-      grant_type: "refresh_token",
-    }),
+// Enrollment columns for the checkout payment's details
+const paymentDetailsFields = (details: PaymentDetails) => ({
+  stripe_charge_id: details.chargeId,
+  payment_card_brand: details.cardBrand,
+  payment_bank_name: details.bankName,
+  payment_last4: details.last4,
+  payment_gross_cents: details.grossCents,
+  payment_fee_cents: details.feeCents,
+  payment_net_cents: details.netCents,
+  payment_receipt_url: details.receiptUrl,
+  payment_risk_level: details.riskLevel,
+  payment_billing_address: details.billingAddress,
+});
+
+// Mailing address fields for the billing address collected at checkout. Off
+// unless ZOHO_SYNC_BILLING_ADDRESS is "true", since not every module the
+// enrollments point at has these fields.
+function zohoAddressFields(details: PaymentDetails | null): EnrollmentZohoFields {
+  const address = details?.billingAddress;
+  if (Deno.env.get("ZOHO_SYNC_BILLING_ADDRESS") !== "true" || !address?.line1) return {};
+  return {
+    mailing_street: [address.line1, address.line2].filter(Boolean).join(", "),
+    mailing_city: address.city,
+    mailing_state: address.state,
+    mailing_zip: address.postal_code,
+    mailing_country: address.country,
+  };
+}
+
+// Once the enrollment is paid: generate the consent PDF with the payment date
+// and email it with the receipt. Both PDFs are attached to the Zoho record.
+async function sendPaymentConfirmation(
+  supabase: SupabaseClient,
+  enrollment: Parameters<typeof generateAndStoreConsentPdf>[1] & Parameters<typeof generateAndStoreReceiptPdf>[1],
+  paidAt: string,
+  paymentMethodType: string,
+  chargedCents: number,
+): Promise<void> {
+  const pdfBytes = await generateAndStoreConsentPdf(supabase, enrollment, paidAt);
+  await generateAndStoreReceiptPdf(supabase, enrollment, { paidAt, paymentMethodType, amountCents: chargedCents });
+  await sendConfirmationEmail({
+    patientName: enrollment.patient_name || "Valued Patient",
+    patientEmail: enrollment.patient_email,
+    amountCents: chargedCents,
+    currency: enrollment.currency || "usd",
+    paymentMethodType,
+    paymentDate: paidAt,
+    pdfBytes,
+    enrollmentId: enrollment.id,
+    lineItems: await loadLineItems(supabase, enrollment.id),
+    adjustment: paymentAdjustment(enrollment),
+    promo: appliedPromo(enrollment),
+    payerName: enrollment.payer_name,
+    payerEmail: enrollment.payer_email,
   });
+}
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to refresh Zoho token: ${errorText}`);
+// Keep the address and any contact corrections the payer entered at checkout.
+// A third-party payer's billing details are theirs, not the patient's.
+async function syncPatientContact(
+  supabase: SupabaseClient,
+  enrollment: { id: string; patient_id: string | null; payer_name: string | null; payer_email: string | null },
+  details: PaymentDetails | null,
+): Promise<void> {
+  if (!enrollment.patient_id || !details || hasThirdPartyPayer(enrollment)) return;
+
+  const changedFields = await syncPatientFromPayment(supabase, enrollment.patient_id, enrollment.id, details);
+  if (changedFields.length > 0) {
+    await supabase.from("enrollment_events").insert({
+      enrollment_id: enrollment.id,
+      event_type: "patient_contact_updated",
+      event_data: {
+        patient_id: enrollment.patient_id,
+        fields: changedFields,
+        source: "stripe_checkout",
+      },
+    });
   }
+}
 
-  const data = await response.json();
-  return data.access_token;
+// Look up the enrollment a charge belongs to. The enrollment only keeps the
+// latest PaymentIntent, so earlier payments toward a split balance are found
+// through their payment record, and off-session installments through the plan.
+async function findEnrollmentByPaymentIntent(
+  supabase: SupabaseClient,
+  paymentIntentId: string | null,
+) {
+  if (!paymentIntentId) return null;
+
+  const { data: enrollment } = await supabase
+    .from("enrollments")
+    .select("*")
+    .eq("stripe_payment_intent_id", paymentIntentId)
+    .maybeSingle();
+
+  if (enrollment) return enrollment;
+
+  const payment = await findEnrollmentPayment(supabase, null, paymentIntentId)
+    ?? await findInstallmentByPaymentIntent(supabase, paymentIntentId);
+  if (!payment) return null;
+
+  const { data: paymentEnrollment } = await supabase
+    .from("enrollments")
+    .select("*")
+    .eq("id", payment.enrollment_id)
+    .maybeSingle();
+
+  return paymentEnrollment;
 }
 
-// Update Zoho CRM record
-async function updateZohoRecord(
-  module: string,
-  recordId: string,
-  data: Record<string, unknown>
+// Move a processing (ACH) enrollment to paid, or partially_paid when it has a
+// payment plan. Both payment_intent.succeeded and
+// checkout.session.async_payment_succeeded arrive for the same payment, so the
+// status guard makes the second one a no-op.
+async function confirmProcessingPayment(
+  supabase: SupabaseClient,
+  paymentProvider: PaymentProvider,
+  enrollmentId: string,
+  eventData: Record<string, unknown>,
 ): Promise<void> {
-  const accessToken = await getZohoAccessToken();
-
-  const response = await fetch(
-    `https://www.zohoapis.com/crm/v6/${module}/${recordId}`,
-    {
-      method: "PUT",
-      headers: {
-        Authorization: `Zoho-oauthtoken ${accessToken}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ data: [data] }),
-    }
+  const paidAt = new Date().toISOString();
+  const { data: current } = await supabase
+    .from("enrollments")
+    .select("status, stripe_payment_intent_id")
+    .eq("id", enrollmentId)
+    .maybeSingle();
+
+  if (current?.status !== "processing") {
+    console.log(`Enrollment ${enrollmentId} is not processing, skipping confirmation`);
+    return;
+  }
+
+  await markDepositInstallment(supabase, enrollmentId, "paid", current.stripe_payment_intent_id);
+  const newStatus = await settledStatusFor(supabase, enrollmentId);
+
+  const { data: enrollment, error: updateError } = await supabase
+    .from("enrollments")
+    .update({
+      status: newStatus,
+      paid_at: paidAt,
+    })
+    .eq("id", enrollmentId)
+    .eq("status", "processing") // Only update if currently processing
+    .select()
+    .maybeSingle();
+
+  if (updateError) {
+    throw new Error(`Failed to update enrollment ${enrollmentId}: ${updateError.message}`);
+  }
+
+  if (!enrollment) {
+    console.log(`Enrollment ${enrollmentId} is not processing, skipping confirmation`);
+    return;
+  }
+
+  // Log event
+  await supabase.from("enrollment_events").insert({
+    enrollment_id: enrollmentId,
+    event_type: "payment_succeeded",
+    event_data: eventData,
+  });
+
+  // The bank has settled, so the fee and net amount are known now
+  const details = await loadPaymentDetails(paymentProvider, enrollment.stripe_payment_intent_id);
+  if (details) {
+    await supabase.from("enrollments").update(paymentDetailsFields(details)).eq("id", enrollmentId);
+  }
+
+  // A payment plan collects only the deposit at checkout, plus any method adjustment
+  const installments = await loadInstallments(supabase, enrollmentId);
+  const chargedCents = (installments[0]?.amount_cents ?? enrollment.amount_cents) +
+    (enrollment.payment_adjustment_cents || 0);
+
+  // Update Zoho CRM
+  await queueZohoUpdate(supabase, enrollment, {
+    status: newStatus,
+    payment_date: paidAt,
+  });
+
+  await queueZohoNote(
+    supabase,
+    enrollment,
+    "Payment Confirmed",
+    `ACH payment confirmed. Amount: $${(chargedCents / 100).toFixed(2)}${installments.length > 0 ? ` (deposit of $${(enrollment.amount_cents / 100).toFixed(2)} payment plan)` : ""}${adjustmentNote(enrollment)}${payerNote(enrollment)}`
   );
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`Failed to update Zoho record: ${errorText}`);
-    // Don't throw - we don't want to fail the webhook if Zoho update fails
-  } else {
-    console.log(`Updated Zoho ${module}/${recordId}`);
+  await sendPaymentConfirmation(supabase, enrollment, paidAt, "ach", chargedCents);
+
+  console.log(`Enrollment ${enrollmentId} payment confirmed`);
+}
+
+// Count the failure and email whoever pays: a retry link, or once the enrollment
+// has failed too many times, that staff will follow up
+async function notifyPaymentFailed(
+  supabase: SupabaseClient,
+  enrollment: Parameters<typeof recordFailedAttempt>[1] & Parameters<typeof paymentContact>[0] & {
+    currency: string | null;
+    zoho_module: string;
+    zoho_record_id: string;
+  },
+  errorMessage: string | null,
+  amountCents: number,
+  paymentMethodType: string | null,
+): Promise<void> {
+  const attempt = await recordFailedAttempt(supabase, enrollment, errorMessage);
+
+  if (attempt.needsAttention) {
+    await queueZohoNote(
+      supabase,
+      enrollment,
+      "Payment Needs Attention",
+      `Payment failed ${attempt.attempts} time(s) and checkout is closed. Send the patient a new link once the payment issue is resolved.`
+    );
+  }
+
+  const contact = paymentContact(enrollment);
+  await sendPaymentIssueEmail({
+    recipientName: contact.name,
+    recipientEmail: contact.email,
+    amountCents,
+    currency: enrollment.currency || "usd",
+    paymentMethodType: paymentMethodType || "card",
+    issue: attempt.needsAttention ? "failed_final" : "failed",
+    reason: errorMessage,
+    enrollmentId: enrollment.id,
+    retryUrl: attempt.retryUrl,
+  });
+}
+
+// Mark an unsettled enrollment as failed. ACH failures arrive as several events
+// (payment_intent.payment_failed, checkout.session.async_payment_failed,
+// charge.failed), so an enrollment that already failed is left alone.
+async function markPaymentFailed(
+  supabase: SupabaseClient,
+  enrollmentId: string,
+  errorMessage: string | null,
+  eventData: Record<string, unknown>,
+  amountCents?: number, // The failed payment, when it covered only part of the enrollment
+): Promise<void> {
+  const { data: existing } = await supabase
+    .from("enrollments")
+    .select("status")
+    .eq("id", enrollmentId)
+    .maybeSingle();
+
+  if (!existing || finalPaymentStatuses.includes(existing.status)) {
+    console.log(`Enrollment ${enrollmentId} is ${existing?.status ?? "missing"}, skipping failure`);
+    return;
+  }
+
+  const { data: enrollment, error: updateError } = await supabase
+    .from("enrollments")
+    .update({
+      status: "failed",
+      failed_at: new Date().toISOString(),
+    })
+    .eq("id", enrollmentId)
+    .eq("status", existing.status)
+    .select()
+    .maybeSingle();
+
+  if (updateError) {
+    throw new Error(`Failed to update enrollment ${enrollmentId}: ${updateError.message}`);
+  }
+
+  if (!enrollment) return;
+
+  await markDepositInstallment(supabase, enrollmentId, "failed");
+
+  // Log event
+  await supabase.from("enrollment_events").insert({
+    enrollment_id: enrollmentId,
+    event_type: "payment_failed",
+    event_data: { ...eventData, error: errorMessage, previous_status: existing.status },
+  });
+
+  // Update Zoho CRM
+  await queueZohoUpdate(supabase, enrollment, {
+    status: "failed",
+    payment_failed_date: new Date().toISOString(),
+  });
+
+  await queueZohoNote(
+    supabase,
+    enrollment,
+    "Payment Failed",
+    `Payment failed: ${errorMessage || "Unknown error"}`
+  );
+
+  await notifyPaymentFailed(supabase, enrollment, errorMessage, amountCents ?? enrollment.amount_cents, enrollment.payment_method_type);
+
+  console.log(`Enrollment ${enrollmentId} payment failed`);
+}
+
+// Mark a settled enrollment as reversed (ACH return or bank dispute after payment)
+async function markPaymentReversed(
+  supabase: SupabaseClient,
+  enrollmentId: string,
+  reason: string | null,
+  eventData: Record<string, unknown>,
+  amountCents?: number, // The reversed payment, when it covered only part of the enrollment
+): Promise<void> {
+  const reversedAt = new Date().toISOString();
+  const { data: enrollment, error: updateError } = await supabase
+    .from("enrollments")
+    .update({
+      status: "reversed",
+      reversed_at: reversedAt,
+    })
+    .eq("id", enrollmentId)
+    .in("status", settledStatuses)
+    .select()
+    .maybeSingle();
+
+  if (updateError) {
+    throw new Error(`Failed to update enrollment ${enrollmentId}: ${updateError.message}`);
+  }
+
+  if (!enrollment) {
+    console.log(`Enrollment ${enrollmentId} is not settled, skipping reversal`);
+    return;
+  }
+
+  // Log event
+  await supabase.from("enrollment_events").insert({
+    enrollment_id: enrollmentId,
+    event_type: "payment_reversed",
+    event_data: { ...eventData, reason },
+  });
+
+  // Update Zoho CRM
+  await queueZohoUpdate(supabase, enrollment, {
+    status: "reversed",
+    reversed_date: reversedAt,
+  });
+
+  await queueZohoNote(
+    supabase,
+    enrollment,
+    "Payment Reversed",
+    `Payment of $${((amountCents ?? enrollment.amount_cents) / 100).toFixed(2)} was reversed after settlement: ${reason || "No reason provided"}`
+  );
+
+  const contact = paymentContact(enrollment);
+  await sendPaymentIssueEmail({
+    recipientName: contact.name,
+    recipientEmail: contact.email,
+    amountCents: amountCents ?? enrollment.amount_cents,
+    currency: enrollment.currency || "usd",
+    paymentMethodType: enrollment.payment_method_type || "ach",
+    issue: "reversed",
+    reason,
+    enrollmentId: enrollment.id,
+  });
+
+  console.log(`Enrollment ${enrollmentId} payment reversed`);
+}
+
+// Off-session installment succeeded (ACH installments settle days after the charge job ran)
+async function confirmInstallmentPayment(
+  supabase: SupabaseClient,
+  paymentProvider: PaymentProvider,
+  installmentId: string,
+  paymentIntentId: string,
+): Promise<void> {
+  // Stored even when charge-installments already marked it paid, which happens before the fee is known
+  const details = await loadPaymentDetails(paymentProvider, paymentIntentId);
+  if (details) {
+    await supabase
+      .from("enrollment_installments")
+      .update({ fee_cents: details.feeCents, net_cents: details.netCents, receipt_url: details.receiptUrl })
+      .eq("id", installmentId);
+  }
+
+  const result = await markInstallmentPaid(supabase, installmentId, paymentIntentId);
+  if (!result?.enrollment) {
+    console.log(`Installment ${installmentId} already paid, skipping`);
+    return;
+  }
+
+  const { installment, enrollment, planCompleted } = result;
+
+  if (planCompleted) {
+    await queueZohoUpdate(supabase, enrollment, {
+      status: "paid",
+    });
+  }
+
+  await queueZohoNote(
+    supabase,
+    enrollment,
+    planCompleted ? "Payment Plan Completed" : "Installment Paid",
+    `Installment ${installment.sequence - 1} of $${(installment.amount_cents / 100).toFixed(2)} collected.${planCompleted ? ` Payment plan of $${(enrollment.amount_cents / 100).toFixed(2)} is fully paid.` : ""}`
+  );
+
+  console.log(`Installment ${installmentId} paid for enrollment ${enrollment.id}`);
+}
+
+// Off-session installment failed; the shared helper schedules the retry and emails the patient
+async function failInstallmentPayment(
+  supabase: SupabaseClient,
+  installmentId: string,
+  errorMessage: string | null,
+): Promise<void> {
+  const result = await markInstallmentFailed(supabase, installmentId, errorMessage);
+  if (!result?.enrollment) return;
+
+  const { installment, enrollment, willRetry, nextRetryAt } = result;
+
+  await queueZohoNote(
+    supabase,
+    enrollment,
+    willRetry ? "Installment Failed" : "Installment Failed - Action Needed",
+    `Installment ${installment.sequence - 1} of $${(installment.amount_cents / 100).toFixed(2)} failed (attempt ${installment.attempt_count}): ${errorMessage || "Unknown error"}. ${willRetry ? `Next attempt ${nextRetryAt}.` : "No further automatic retries."}`
+  );
+
+  console.log(`Installment ${installmentId} failed for enrollment ${enrollment.id}`);
+}
+
+// Create or refresh the dispute record, snapshotting the evidence bundle
+async function upsertDisputeRecord(
+  supabase: SupabaseClient,
+  enrollmentId: string,
+  dispute: PaymentDispute,
+  chargeId: string,
+): Promise<void> {
+  const evidence = await buildDisputeEvidence(supabase, enrollmentId);
+
+  const { error } = await supabase
+    .from("enrollment_disputes")
+    .upsert({
+      enrollment_id: enrollmentId,
+      stripe_dispute_id: dispute.id,
+      stripe_charge_id: chargeId,
+      amount_cents: dispute.amountCents,
+      currency: dispute.currency,
+      reason: dispute.reason,
+      status: dispute.status,
+      evidence_due_by: dispute.evidenceDueBy,
+      evidence,
+    }, { onConflict: "stripe_dispute_id" });
+
+  if (error) {
+    throw new Error(`Failed to record dispute ${dispute.id}: ${error.message}`);
   }
 }
 
-// Add note to Zoho CRM record
-async function addZohoNote(
-  module: string,
-  recordId: string,
-  title: string,
-  content: string
+// Mark a settled card payment as disputed while the chargeback is open
+async function markPaymentDisputed(
+  supabase: SupabaseClient,
+  enrollmentId: string,
+  dispute: PaymentDispute,
 ): Promise<void> {
-  const accessToken = await getZohoAccessToken();
+  const disputedAt = new Date().toISOString();
+  const { data: enrollment, error: updateError } = await supabase
+    .from("enrollments")
+    .update({
+      status: "disputed",
+      disputed_at: disputedAt,
+    })
+    .eq("id", enrollmentId)
+    .in("status", settledStatuses)
+    .select()
+    .maybeSingle();
+
+  if (updateError) {
+    throw new Error(`Failed to update enrollment ${enrollmentId}: ${updateError.message}`);
+  }
+
+  if (!enrollment) {
+    console.log(`Enrollment ${enrollmentId} is not settled, skipping dispute status`);
+    return;
+  }
 
-  const response = await fetch("https://www.zohoapis.com/crm/v6/Notes", {
-    method: "POST",
-    headers: {
-      Authorization: `Zoho-oauthtoken ${accessToken}`,
-      "Content-Type": "application/json",
+  const dueBy = dispute.evidenceDueBy;
+
+  // Log event
+  await supabase.from("enrollment_events").insert({
+    enrollment_id: enrollmentId,
+    event_type: "dispute_opened",
+    event_data: {
+      dispute_id: dispute.id,
+      reason: dispute.reason,
+      amount: dispute.amountCents,
+      evidence_due_by: dueBy,
     },
-    body: JSON.stringify({
-      data: [
-        {
-          Parent_Id: recordId,
-          se_module: module,
-          Note_Title: title,
-          Note_Content: content,
-        },
-      ],
+  });
+
+  // Update Zoho CRM
+  await queueZohoUpdate(supabase, enrollment, {
+    status: "disputed",
+    dispute_date: disputedAt,
+  });
+
+  await queueZohoNote(
+    supabase,
+    enrollment,
+    "Payment Disputed",
+    `Chargeback opened for $${(dispute.amountCents / 100).toFixed(2)} (reason: ${dispute.reason}). Evidence due by ${dueBy || "unknown"}.`
+  );
+
+  console.log(`Enrollment ${enrollmentId} disputed (${dispute.id})`);
+}
+
+// Record a payment toward an enrollment without a payment plan. Each payment
+// settles on its own record; the enrollment stays partially paid until the
+// payments cover it, and only then gets the consent PDF and confirmation email.
+// Providers report a payment through several events, so one the record has
+// already moved past is skipped.
+async function recordSplitPayment(
+  supabase: SupabaseClient,
+  paymentProvider: PaymentProvider,
+  enrollmentId: string,
+  payment: EnrollmentPaymentRecord,
+  event: PaymentEvent,
+  eventType: "checkout_completed" | "payment_succeeded",
+): Promise<void> {
+  const details = await loadPaymentDetails(paymentProvider, event.paymentIntentId);
+  const paymentMethodType = details?.methodType ?? payment.payment_method_type ?? "card";
+  const settled = event.settled;
+
+  const recorded = await markEnrollmentPayment(supabase, payment.id, settled ? "succeeded" : "processing", {
+    payment_method_type: paymentMethodType,
+    stripe_payment_intent_id: event.paymentIntentId,
+    ...(details && paymentRecordDetails(details)),
+  });
+  if (!recorded) {
+    console.log(`Payment ${payment.id} for enrollment ${enrollmentId} already recorded, skipping`);
+    return;
+  }
+
+  const { data: current, error: loadError } = await supabase
+    .from("enrollments")
+    .select("status, amount_cents")
+    .eq("id", enrollmentId)
+    .single();
+
+  if (loadError) {
+    throw new Error(`Failed to load enrollment ${enrollmentId}: ${loadError.message}`);
+  }
+
+  const payments = await loadEnrollmentPayments(supabase, enrollmentId);
+  const funding = summarizePayments(payments, current.amount_cents);
+  const newStatus = closedPaymentStatuses.includes(current.status)
+    ? current.status
+    : fundedStatus(funding, current.amount_cents) ?? current.status;
+  const becamePaid = newStatus === "paid" && current.status !== "paid";
+  const now = new Date().toISOString();
+
+  // The card or bank columns describe the latest payment, the amounts all of them
+  const { data: enrollment, error: updateError } = await supabase
+    .from("enrollments")
+    .update({
+      status: newStatus,
+      payment_method_type: paymentMethodType,
+      stripe_payment_intent_id: event.paymentIntentId,
+      ...(details?.paymentMethodId && { stripe_payment_method_id: details.paymentMethodId }),
+      ...(event.customerId && { stripe_customer_id: event.customerId }),
+      ...(becamePaid && { paid_at: now }),
+      ...(newStatus === "processing" && { processing_at: now }),
+      ...(details && paymentDetailsFields(details)),
+      ...enrollmentTotalsFields(payments),
+    })
+    .eq("id", enrollmentId)
+    .select()
+    .single();
+
+  if (updateError) {
+    throw new Error(`Failed to update enrollment ${enrollmentId}: ${updateError.message}`);
+  }
+
+  const paymentCents = recorded.amount_cents + (recorded.adjustment_cents || 0);
+
+  // Log event
+  await supabase.from("enrollment_events").insert({
+    enrollment_id: enrollmentId,
+    event_type: eventType,
+    event_data: {
+      session_id: event.sessionId,
+      embedded: event.embeddedCheckout,
+      payment_intent_id: event.paymentIntentId,
+      payment_method_type: paymentMethodType,
+      status: newStatus,
+      amount_cents: paymentCents,
+      enrollment_payment_id: recorded.id,
+      paid_cents: funding.paidCents,
+      balance_cents: funding.balanceCents,
+    },
+  });
+
+  if (eventType === "checkout_completed") {
+    await syncPatientContact(supabase, enrollment, details);
+  }
+
+  // Update Zoho CRM
+  const adjustment = paymentAdjustment(enrollment);
+  const remainingCents = Math.max(enrollment.amount_cents - funding.paidCents, 0);
+  await queueZohoUpdate(supabase, enrollment, {
+    ...(newStatus !== current.status && { status: newStatus }),
+    payment_method: paymentMethodType,
+    ...(event.sessionId && { stripe_session_id: event.sessionId }),
+    ...(adjustment && {
+      payment_adjustment: adjustment.amount_cents / 100,
+      payment_adjustment_label: adjustment.label,
+    }),
+    ...(hasThirdPartyPayer(enrollment) && {
+      payer_name: enrollment.payer_name,
+      payer_email: enrollment.payer_email,
     }),
+    ...(becamePaid && { payment_date: now }),
+    ...(newStatus === "processing" && { processing_date: now }),
+    ...(eventType === "checkout_completed" && !hasThirdPartyPayer(enrollment) && zohoAddressFields(details)),
   });
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`Failed to add Zoho note: ${errorText}`);
+  await queueZohoNote(
+    supabase,
+    enrollment,
+    !settled ? "Payment Processing" : becamePaid ? "Payment Completed" : "Partial Payment Received",
+    `Payment ${settled ? "completed" : "initiated"} via ${paymentMethodType.toUpperCase()}. Amount: $${(paymentCents / 100).toFixed(2)}. Paid so far: $${(funding.paidCents / 100).toFixed(2)} of $${(enrollment.amount_cents / 100).toFixed(2)}${remainingCents > 0 ? `, $${(remainingCents / 100).toFixed(2)} remaining` : ""}${adjustmentNote(enrollment)}${payerNote(enrollment)}`
+  );
+
+  if (becamePaid) {
+    await sendPaymentConfirmation(supabase, enrollment, now, paymentMethodType, funding.chargedCents);
   }
+
+  console.log(`Payment ${recorded.id} ${recorded.status}, enrollment ${enrollmentId} is ${newStatus}`);
 }
 
-// Generate and store consent PDF when payment is confirmed
-async function generateAndStoreConsentPdf(
-  supabase: any,
-  enrollment: any,
-  paymentDate: string,
-): Promise<Uint8Array | null> {
-  try {
-    // Fetch policy text
-    const { data: policy } = enrollment.policy_id
-      ? await supabase.from("policies").select("terms_text, privacy_text").eq("id", enrollment.policy_id).single()
-      : { data: null };
-
-    // Decode signature if stored
-    let signaturePngBytes: Uint8Array | null = null;
-    if (enrollment.signature_data && enrollment.signature_data !== "stored") {
-      const base64Match = enrollment.signature_data.match(/^data:image\/png;base64,(.+)$/);
-      if (base64Match) {
-        const binaryString = atob(base64Match[1]);
-        signaturePngBytes = new Uint8Array(binaryString.length);
-        for (let i = 0; i < binaryString.length; i++) {
-          signaturePngBytes[i] = binaryString.charCodeAt(i);
-        }
-      }
-    }
+// A failed payment toward a split balance leaves the payments that succeeded in
+// place. The enrollment only fails when nothing else is paid or in flight.
+async function failSplitPayment(
+  supabase: SupabaseClient,
+  enrollmentId: string,
+  payment: EnrollmentPaymentRecord,
+  errorMessage: string | null,
+  eventData: Record<string, unknown>,
+): Promise<void> {
+  const failed = await markEnrollmentPayment(supabase, payment.id, "failed", { failure_message: errorMessage });
+  if (!failed) {
+    console.log(`Payment ${payment.id} for enrollment ${enrollmentId} is ${payment.status}, skipping failure`);
+    return;
+  }
 
-    const pdfBytes = await generateConsentPdf(
-      enrollment,
-      policy?.terms_text || null,
-      policy?.privacy_text || null,
-      signaturePngBytes,
-      enrollment.terms_accept_ip || "unknown",
-      enrollment.terms_accept_user_agent || "unknown",
-      paymentDate,
-    );
+  const splitEventData = { ...eventData, enrollment_payment_id: failed.id };
+  const { data: current } = await supabase
+    .from("enrollments")
+    .select("status, amount_cents")
+    .eq("id", enrollmentId)
+    .maybeSingle();
+  if (!current) return;
+
+  const payments = await loadEnrollmentPayments(supabase, enrollmentId);
+  const funding = summarizePayments(payments, current.amount_cents);
+  const funded = fundedStatus(funding, current.amount_cents);
+
+  if (!funded) {
+    await markPaymentFailed(supabase, enrollmentId, errorMessage, splitEventData, failed.amount_cents);
+    return;
+  }
 
-    const pdfFileName = `${enrollment.id}/${Date.now()}-consent.pdf`;
-    const { error: uploadError } = await supabase.storage
-      .from("consent-documents")
-      .upload(pdfFileName, pdfBytes, {
-        contentType: "application/pdf",
-        upsert: false,
-      });
+  const newStatus = closedPaymentStatuses.includes(current.status) ? current.status : funded;
+  const { data: enrollment, error: updateError } = await supabase
+    .from("enrollments")
+    .update({ status: newStatus })
+    .eq("id", enrollmentId)
+    .select()
+    .single();
 
-    if (uploadError) {
-      console.error("Error uploading consent PDF:", uploadError);
-      return pdfBytes; // Still return bytes for email even if upload fails
-    }
+  if (updateError) {
+    throw new Error(`Failed to update enrollment ${enrollmentId}: ${updateError.message}`);
+  }
 
-    await supabase
-      .from("enrollments")
-      .update({ consent_pdf_path: pdfFileName })
-      .eq("id", enrollment.id);
+  // Log event
+  await supabase.from("enrollment_events").insert({
+    enrollment_id: enrollmentId,
+    event_type: "payment_failed",
+    event_data: {
+      ...splitEventData,
+      error: errorMessage,
+      amount_cents: failed.amount_cents,
+      previous_status: current.status,
+      paid_cents: funding.paidCents,
+      balance_cents: funding.balanceCents,
+    },
+  });
 
-    console.log(`Consent PDF generated and stored: ${pdfFileName}`);
-    return pdfBytes;
-  } catch (err) {
-    console.error("Error generating consent PDF:", err);
-    return null;
+  if (newStatus !== current.status) {
+    await queueZohoUpdate(supabase, enrollment, {
+      status: newStatus,
+    });
   }
+
+  await queueZohoNote(
+    supabase,
+    enrollment,
+    "Partial Payment Failed",
+    `Payment of $${(failed.amount_cents / 100).toFixed(2)} failed: ${errorMessage || "Unknown error"}. Paid so far: $${(funding.paidCents / 100).toFixed(2)} of $${(enrollment.amount_cents / 100).toFixed(2)}`
+  );
+
+  await notifyPaymentFailed(supabase, enrollment, errorMessage, failed.amount_cents, failed.payment_method_type);
+
+  console.log(`Payment ${failed.id} failed, enrollment ${enrollmentId} stays ${newStatus}`);
 }
 
-serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
+// Record a completed checkout: settled card payments move to paid (or partially_paid
+// for a payment plan), ACH payments to processing until the bank settles. The embedded
+// payment form has no checkout session, so its PaymentIntent events land here too.
+async function completeCheckout(
+  supabase: SupabaseClient,
+  paymentProvider: PaymentProvider,
+  enrollmentId: string,
+  event: PaymentEvent,
+): Promise<WebhookOutcome> {
+  const splitPayment = await findEnrollmentPayment(supabase, event.sessionId, event.paymentIntentId);
+  if (splitPayment) {
+    await recordSplitPayment(supabase, paymentProvider, enrollmentId, splitPayment, event, "checkout_completed");
+    return "succeeded";
   }
 
-  if (req.method !== "POST") {
-    return new Response(JSON.stringify({ error: "Method not allowed" }), {
-      status: 405,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
+  // A bank transfer already processing is only moved on by its settlement
+  const fromStatuses = event.settled ? payableStatuses : payableStatuses.filter((s) => s !== "processing");
+  const { data: current } = await supabase
+    .from("enrollments")
+    .select("status")
+    .eq("id", enrollmentId)
+    .maybeSingle();
+
+  if (!current || !fromStatuses.includes(current.status)) {
+    console.log(`Enrollment ${enrollmentId} is ${current?.status ?? "missing"}, checkout already applied, skipping`);
+    return "skipped";
   }
 
-  const supabase = createClient(
-    Deno.env.get("SUPABASE_URL") ?? "",
-    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+  // Get payment method type and details
+  const details = await loadPaymentDetails(paymentProvider, event.paymentIntentId);
+  const paymentMethodType = details?.methodType ?? "card";
+  const paymentMethodId = details?.paymentMethodId ?? null;
+
+  // ACH payments complete asynchronously, card payments are immediate.
+  // Payment plans only collect the deposit here, leaving the enrollment partially paid.
+  const settled = event.settled;
+  await markDepositInstallment(
+    supabase,
+    enrollmentId,
+    settled ? "paid" : "processing",
+    event.paymentIntentId,
   );
+  const newStatus = settled ? await settledStatusFor(supabase, enrollmentId) : "processing";
+  const paidAt = settled ? new Date().toISOString() : null;
+  const chargedCents = event.amountCents;
+
+  // Update enrollment
+  const { data: enrollment, error: updateError } = await supabase
+    .from("enrollments")
+    .update({
+      status: newStatus,
+      payment_method_type: paymentMethodType,
+      stripe_payment_intent_id: event.paymentIntentId,
+      stripe_payment_method_id: paymentMethodId,
+      ...(event.customerId && { stripe_customer_id: event.customerId }),
+      paid_at: paidAt,
+      ...(newStatus === "processing" && { processing_at: new Date().toISOString() }),
+      ...(details && paymentDetailsFields(details)),
+    })
+    .eq("id", enrollmentId)
+    .in("status", fromStatuses) // Another event may have moved it meanwhile
+    .select()
+    .maybeSingle();
+
+  if (updateError) {
+    throw new Error(`Failed to update enrollment ${enrollmentId}: ${updateError.message}`);
+  }
 
-  const stripeKey = Deno.env.get("STRIPE_SECRET_KEY");
-  const webhookSecret = Deno.env.get("STRIPE_WEBHOOK_SECRET");
+  if (!enrollment) {
+    console.log(`Enrollment ${enrollmentId} was updated by another event, skipping checkout`);
+    return "skipped";
+  }
 
-  if (!stripeKey) {
-    console.error("STRIPE_SECRET_KEY not configured");
-    return new Response(JSON.stringify({ error: "Stripe not configured" }), {
-      status: 500,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
+  // Log event
+  await supabase.from("enrollment_events").insert({
+    enrollment_id: enrollmentId,
+    event_type: "checkout_completed",
+    event_data: {
+      session_id: event.sessionId,
+      embedded: event.embeddedCheckout,
+      payment_intent_id: event.paymentIntentId,
+      payment_method_type: paymentMethodType,
+      status: newStatus,
+      amount_cents: chargedCents,
+    },
+  });
+
+  if (enrollment) await syncPatientContact(supabase, enrollment, details);
+
+  // Update Zoho CRM
+  if (enrollment) {
+    const amountCents = chargedCents ?? enrollment.amount_cents;
+    const isPlan = (await loadInstallments(supabase, enrollmentId)).length > 0;
+    const adjustment = paymentAdjustment(enrollment);
+    await queueZohoUpdate(supabase, enrollment, {
+      status: newStatus,
+      payment_method: paymentMethodType,
+      ...(event.sessionId && { stripe_session_id: event.sessionId }),
+      ...(adjustment && {
+        payment_adjustment: adjustment.amount_cents / 100,
+        payment_adjustment_label: adjustment.label,
+      }),
+      ...(hasThirdPartyPayer(enrollment) && {
+        payer_name: enrollment.payer_name,
+        payer_email: enrollment.payer_email,
+      }),
+      ...(settled && { payment_date: new Date().toISOString() }),
+      ...(newStatus === "processing" && { processing_date: new Date().toISOString() }),
+      ...(!hasThirdPartyPayer(enrollment) && zohoAddressFields(details)),
     });
+
+    await queueZohoNote(
+      supabase,
+      enrollment,
+      settled ? (newStatus === "partially_paid" ? "Deposit Received" : "Payment Completed") : "Payment Processing",
+      `Enrollment payment ${settled ? "completed" : "initiated"} via ${paymentMethodType.toUpperCase()}. Amount: $${(amountCents / 100).toFixed(2)}${isPlan ? ` of $${(enrollment.amount_cents / 100).toFixed(2)} payment plan` : ""}${adjustmentNote(enrollment)}${payerNote(enrollment)}`
+    );
   }
 
-  const stripe = new Stripe(stripeKey, { apiVersion: "2025-08-27.basil" });
+  if (enrollment && settled) {
+    await sendPaymentConfirmation(supabase, enrollment, paidAt!, paymentMethodType, chargedCents ?? enrollment.amount_cents);
+  }
 
-  try {
-    const body = await req.text();
-    const signature = req.headers.get("stripe-signature");
+  console.log(`Enrollment ${enrollmentId} updated to ${newStatus}`);
+  return "succeeded";
+}
 
-    let event: Stripe.Event;
+// Close the tracked checkout session a payment was made on. Returns the session
+// when it had been superseded by a newer checkout, so the payment is refunded
+// instead of applied. Payments on sessions from before tracking return null.
+async function completeCheckoutSession(
+  supabase: SupabaseClient,
+  event: PaymentEvent,
+): Promise<CheckoutSessionRecord | null> {
+  const checkoutSession = await findCheckoutSession(supabase, event.sessionId, event.paymentIntentId);
+  if (!checkoutSession || checkoutSession.status === "completed") return null;
+  if (checkoutSession.status === "superseded") return checkoutSession;
+
+  const completed = await markCheckoutSession(supabase, checkoutSession.id, "completed", {
+    ...(event.paymentIntentId && { stripe_payment_intent_id: event.paymentIntentId }),
+  });
+  if (completed) return null;
 
-    // SECURITY: Always require webhook signature verification
-    // This prevents attackers from sending fake payment events
-    if (!webhookSecret) {
-      console.error("STRIPE_WEBHOOK_SECRET not configured");
-      return new Response(JSON.stringify({ error: "Webhook not configured" }), {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+  // Superseded between the lookup and the update
+  const current = await findCheckoutSession(supabase, event.sessionId, event.paymentIntentId);
+  return current?.status === "superseded" ? current : null;
+}
+
+// A patient paid on a checkout that a newer one had replaced, e.g. in a tab left
+// open. The payment is refunded in full and staff are alerted; bank transfers
+// are refunded once they settle.
+async function rejectSupersededPayment(
+  supabase: SupabaseClient,
+  paymentProvider: PaymentProvider,
+  checkoutSession: CheckoutSessionRecord,
+  event: PaymentEvent,
+): Promise<void> {
+  if (checkoutSession.late_payment_refund_id) {
+    console.log(`Superseded checkout session ${checkoutSession.id} already refunded`);
+    return;
+  }
+
+  const { data: enrollment } = await supabase
+    .from("enrollments")
+    .select("id, zoho_module, zoho_record_id")
+    .eq("id", checkoutSession.enrollment_id)
+    .single();
+
+  const amountCents = event.amountCents ?? checkoutSession.amount_cents;
+  const paymentIntentId = event.paymentIntentId;
+  if (!paymentIntentId || !event.settled) {
+    await supabase
+      .from("enrollment_checkout_sessions")
+      .update({ ...(paymentIntentId && { stripe_payment_intent_id: paymentIntentId }) })
+      .eq("id", checkoutSession.id);
+
+    await supabase.from("enrollment_events").insert({
+      enrollment_id: checkoutSession.enrollment_id,
+      event_type: "superseded_payment_received",
+      event_data: {
+        checkout_session_id: checkoutSession.id,
+        session_id: event.sessionId,
+        payment_intent_id: paymentIntentId,
+        amount_cents: amountCents,
+      },
+    });
+
+    if (enrollment) {
+      await queueZohoNote(
+        supabase,
+        enrollment,
+        "Duplicate Payment Processing",
+        `A payment of $${(amountCents / 100).toFixed(2)} was started on a checkout session that had been replaced. It will be refunded automatically once the bank transfer settles.`
+      );
     }
+    console.error(`Payment on superseded checkout session ${checkoutSession.id} is processing; refunding once settled`);
+    return;
+  }
 
-    if (!signature) {
-      console.error("Missing stripe-signature header");
-      return new Response(JSON.stringify({ error: "Missing signature" }), {
-        status: 400,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+  const refund = await paymentProvider.createRefund({
+    paymentIntentId,
+    amountCents,
+    reason: "duplicate",
+    metadata: {
+      enrollment_id: checkoutSession.enrollment_id,
+      checkout_session_id: checkoutSession.id,
+    },
+    idempotencyKey: `superseded-${checkoutSession.id}`,
+  });
+
+  await supabase
+    .from("enrollment_checkout_sessions")
+    .update({
+      stripe_payment_intent_id: paymentIntentId,
+      late_payment_refund_id: refund.id,
+    })
+    .eq("id", checkoutSession.id);
+
+  await supabase.from("enrollment_events").insert({
+    enrollment_id: checkoutSession.enrollment_id,
+    event_type: "superseded_payment_refunded",
+    event_data: {
+      checkout_session_id: checkoutSession.id,
+      session_id: event.sessionId,
+      payment_intent_id: paymentIntentId,
+      refund_id: refund.id,
+      amount_cents: amountCents,
+    },
+  });
+
+  if (enrollment) {
+    await queueZohoNote(
+      supabase,
+      enrollment,
+      "Duplicate Payment Refunded",
+      `A payment of $${(amountCents / 100).toFixed(2)} was made on a checkout session that had been replaced by a newer one, and has been refunded automatically (refund ${refund.id}). Check that the patient is aware and completes the current checkout.`
+    );
+  }
+
+  console.error(`Refunded payment ${paymentIntentId} on superseded checkout session ${checkoutSession.id}`);
+}
+
+// The status of an enrollment whose money is back with us, e.g. after a dispute was
+// won or a refund failed: what its payments cover, or partially_refunded
+async function settledStatusOf(
+  supabase: SupabaseClient,
+  enrollment: { id: string; amount_cents: number; refunded_amount_cents: number | null },
+): Promise<string> {
+  if ((enrollment.refunded_amount_cents || 0) > 0) return "partially_refunded";
+
+  const payments = await loadEnrollmentPayments(supabase, enrollment.id);
+  return payments.length > 0
+    ? fundedStatus(summarizePayments(payments, enrollment.amount_cents), enrollment.amount_cents) ?? "paid"
+    : await settledStatusFor(supabase, enrollment.id);
+}
+
+// Record how much of one charge is refunded and return the enrollment's totals.
+// A split enrollment has one charge per payment, and a payment plan one per
+// installment, each refunded separately; otherwise the enrollment is the charge.
+async function applyChargeRefunds(
+  supabase: SupabaseClient,
+  enrollment: { id: string; payment_adjustment_cents: number | null },
+  refundedPayment: { id: string } | null,
+  refundedInstallment: { id: string } | null,
+  chargeRefundedCents: number,
+  chargeFullyRefunded: boolean,
+): Promise<{ totalRefunded: number; fullyRefunded: boolean }> {
+  if (refundedPayment) {
+    await supabase
+      .from("enrollment_payments")
+      .update({ refunded_cents: chargeRefundedCents })
+      .eq("id", refundedPayment.id);
+
+    const payments = await loadEnrollmentPayments(supabase, enrollment.id);
+    const collected = payments.filter((p) => p.status === "succeeded");
+    return {
+      totalRefunded: payments.reduce((sum, p) => sum + p.refunded_cents, 0),
+      fullyRefunded: collected.every((p) => p.refunded_cents >= p.amount_cents + (p.adjustment_cents || 0)),
+    };
+  }
+
+  if (refundedInstallment) {
+    await supabase
+      .from("enrollment_installments")
+      .update({ refunded_cents: chargeRefundedCents })
+      .eq("id", refundedInstallment.id);
+
+    // Refunding the deposit does not refund installments already collected
+    const installments = await loadInstallments(supabase, enrollment.id);
+    const collected = installments.filter((i) => i.status === "paid");
+    return {
+      totalRefunded: installments.reduce((sum, i) => sum + i.refunded_cents, 0),
+      fullyRefunded: collected.every(
+        (i) => i.refunded_cents >= installmentChargedCents(i, enrollment.payment_adjustment_cents)
+      ),
+    };
+  }
+
+  return { totalRefunded: chargeRefundedCents, fullyRefunded: chargeFullyRefunded };
+}
+
+// What became of an event. Handlers throw on database errors, so the event is
+// recorded as failed and the provider retries it.
+type WebhookOutcome = "succeeded" | "skipped";
+
+async function handlePaymentEvent(
+  supabase: SupabaseClient,
+  paymentProvider: PaymentProvider,
+  event: PaymentEvent,
+): Promise<WebhookOutcome> {
+  switch (event.kind) {
+    case "checkout_completed": {
+      if (!event.enrollmentId) {
+        console.log("No enrollment_id in session metadata, skipping");
+        return "skipped";
+      }
+
+      const supersededSession = await completeCheckoutSession(supabase, event);
+      if (supersededSession) {
+        await rejectSupersededPayment(supabase, paymentProvider, supersededSession, event);
+        return "succeeded";
+      }
+
+      return await completeCheckout(supabase, paymentProvider, event.enrollmentId, event);
     }
 
-    try {
-      event = await stripe.webhooks.constructEventAsync(body, signature, webhookSecret);
-    } catch (err) {
-      console.error("Webhook signature verification failed:", err);
-      return new Response(JSON.stringify({ error: "Invalid signature" }), {
-        status: 400,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
+    case "payment_succeeded": {
+      const enrollmentId = event.enrollmentId;
+
+      if (!enrollmentId) {
+        console.log("No enrollment_id in payment metadata, skipping");
+        return "skipped";
+      }
+
+      // Installments charged by charge-installments carry their own ID
+      if (event.installmentId) {
+        await confirmInstallmentPayment(supabase, paymentProvider, event.installmentId, event.paymentIntentId!);
+        return "succeeded";
+      }
+
+      const supersededSession = await completeCheckoutSession(supabase, event);
+      if (supersededSession) {
+        await rejectSupersededPayment(supabase, paymentProvider, supersededSession, { ...event, settled: true });
+        return "succeeded";
+      }
+
+      // Payments toward an enrollment without a plan settle on their own record
+      const splitPayment = await findEnrollmentPayment(supabase, event.sessionId, event.paymentIntentId);
+      if (splitPayment) {
+        await recordSplitPayment(
+          supabase,
+          paymentProvider,
+          enrollmentId,
+          splitPayment,
+          { ...event, settled: true },
+          splitPayment.status === "processing" ? "payment_succeeded" : "checkout_completed",
+        );
+        return "succeeded";
+      }
+
+      // A card paid through the embedded form succeeds without a checkout event,
+      // so the first success completes the checkout. ACH payments already went
+      // to processing and are confirmed below.
+      if (event.embeddedCheckout) {
+        const { data: current } = await supabase
+          .from("enrollments")
+          .select("status")
+          .eq("id", enrollmentId)
+          .maybeSingle();
+
+        if (current && current.status !== "processing" && payableStatuses.includes(current.status)) {
+          return await completeCheckout(supabase, paymentProvider, enrollmentId, { ...event, settled: true });
+        }
+      }
+
+      // This handles ACH payments that complete after checkout
+      await confirmProcessingPayment(supabase, paymentProvider, enrollmentId, {
+        ...(event.sessionId && { session_id: event.sessionId }),
+        payment_intent_id: event.paymentIntentId,
+        amount: event.amountCents,
       });
+      return "succeeded";
     }
 
-    // Check for duplicate event processing (idempotency)
-    const { data: existingEvent } = await supabase
-      .from("processed_stripe_events")
-      .select("stripe_event_id")
-      .eq("stripe_event_id", event.id)
-      .single();
-
-    if (existingEvent) {
-      console.log(`Event ${event.id} already processed, skipping`);
-      return new Response(JSON.stringify({ received: true, duplicate: true }), {
-        status: 200,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
+    case "payment_failed": {
+      const enrollmentId = event.enrollmentId;
+
+      if (!enrollmentId) {
+        console.log("No enrollment_id in payment metadata, skipping");
+        return "skipped";
+      }
+
+      // A declined installment is retried; the enrollment itself stays partially paid
+      if (event.installmentId) {
+        await failInstallmentPayment(supabase, event.installmentId, event.failureMessage);
+        return "succeeded";
+      }
+
+      // The patient has already moved on to a newer checkout
+      const failedSession = await findCheckoutSession(supabase, event.sessionId, event.paymentIntentId);
+      if (failedSession?.status === "superseded") {
+        console.log(`Payment failed on superseded checkout session ${failedSession.id}, skipping`);
+        return "skipped";
+      }
+
+      const splitPayment = await findEnrollmentPayment(supabase, event.sessionId, event.paymentIntentId);
+      if (splitPayment) {
+        await failSplitPayment(supabase, enrollmentId, splitPayment, event.failureMessage, {
+          ...(event.sessionId && { session_id: event.sessionId }),
+          payment_intent_id: event.paymentIntentId,
+        });
+        return "succeeded";
+      }
+
+      await markPaymentFailed(supabase, enrollmentId, event.failureMessage, {
+        ...(event.sessionId && { session_id: event.sessionId }),
+        payment_intent_id: event.paymentIntentId,
       });
+      return "succeeded";
     }
 
-    console.log(`Processing Stripe event: ${event.type} (${event.id})`);
-
-    // Handle different event types
-    switch (event.type) {
-      case "checkout.session.completed": {
-        const session = event.data.object as Stripe.Checkout.Session;
-        const enrollmentId = session.metadata?.enrollment_id;
+    case "charge_failed": {
+      const eventData = {
+        charge_id: event.chargeId,
+        failure_code: event.failureCode,
+      };
+
+      const installment = await findInstallmentByPaymentIntent(supabase, event.paymentIntentId);
+
+      if (installment) {
+        if (installment.status === "paid") {
+          // An installment returned after it settled puts the whole plan on hold
+          await supabase
+            .from("enrollment_installments")
+            .update({
+              status: "failed",
+              failed_at: new Date().toISOString(),
+              last_error: event.failureMessage,
+              next_retry_at: null,
+            })
+            .eq("id", installment.id);
+          await markPaymentReversed(supabase, installment.enrollment_id, event.failureMessage, {
+            ...eventData,
+            installment_id: installment.id,
+          });
+        } else {
+          await failInstallmentPayment(supabase, installment.id, event.failureMessage);
+        }
+        return "succeeded";
+      }
 
-        if (!enrollmentId) {
-          console.log("No enrollment_id in session metadata, skipping");
-          break;
+      const splitPayment = await findEnrollmentPayment(supabase, null, event.paymentIntentId);
+
+      if (splitPayment) {
+        if (splitPayment.status === "succeeded") {
+          // Returned after it settled: the enrollment is reversed like a whole payment
+          await markEnrollmentPayment(supabase, splitPayment.id, "reversed", { failure_message: event.failureMessage });
+          await markPaymentReversed(supabase, splitPayment.enrollment_id, event.failureMessage, {
+            ...eventData,
+            enrollment_payment_id: splitPayment.id,
+          }, splitPayment.amount_cents);
+        } else {
+          await failSplitPayment(supabase, splitPayment.enrollment_id, splitPayment, event.failureMessage, eventData);
         }
+        return "succeeded";
+      }
 
-        // Get payment method type
-        const paymentMethodType = session.payment_method_types?.[0] === "us_bank_account" ? "ach" : "card";
+      const enrollment = await findEnrollmentByPaymentIntent(supabase, event.paymentIntentId);
 
-        // Determine status based on payment method
-        // ACH payments may still be processing, card payments are immediate
-        const newStatus = paymentMethodType === "ach" ? "processing" : "paid";
-        const paidAt = newStatus === "paid" ? new Date().toISOString() : null;
+      if (!enrollment) {
+        console.log("No enrollment found for failed charge, skipping");
+        return "skipped";
+      }
 
-        // Update enrollment
-        const { data: enrollment, error: updateError } = await supabase
-          .from("enrollments")
-          .update({
-            status: newStatus,
-            payment_method_type: paymentMethodType,
-            stripe_payment_intent_id: session.payment_intent as string,
-            paid_at: paidAt,
-          })
-          .eq("id", enrollmentId)
-          .select()
-          .single();
+      // A charge that fails after the enrollment was marked paid is an ACH return
+      if (settledStatuses.includes(enrollment.status)) {
+        await markPaymentReversed(supabase, enrollment.id, event.failureMessage, eventData);
+      } else {
+        await markPaymentFailed(supabase, enrollment.id, event.failureMessage, eventData);
+      }
+      return "succeeded";
+    }
 
-        if (updateError) {
-          console.error("Failed to update enrollment:", updateError);
-          break;
-        }
+    case "dispute_opened": {
+      const dispute = event.dispute!;
+      const disputedInstallment = await findInstallmentByPaymentIntent(supabase, event.paymentIntentId);
+      const enrollment = disputedInstallment
+        ? { id: disputedInstallment.enrollment_id }
+        : await findEnrollmentByPaymentIntent(supabase, event.paymentIntentId);
+
+      if (!enrollment) {
+        console.log("No enrollment found for disputed charge, skipping");
+        return "skipped";
+      }
+
+      await upsertDisputeRecord(supabase, enrollment.id, dispute, event.chargeId!);
 
+      // ACH disputes debit the funds immediately and cannot be contested
+      if (event.methodType === "ach") {
+        await markPaymentReversed(supabase, enrollment.id, dispute.reason, {
+          charge_id: event.chargeId,
+          dispute_id: dispute.id,
+          amount: dispute.amountCents,
+        });
+      } else {
+        await markPaymentDisputed(supabase, enrollment.id, dispute);
+      }
+      return "succeeded";
+    }
+
+    case "dispute_updated": {
+      const dispute = event.dispute!;
+
+      const { error: updateError } = await supabase
+        .from("enrollment_disputes")
+        .update({
+          status: dispute.status,
+          evidence_due_by: dispute.evidenceDueBy,
+        })
+        .eq("stripe_dispute_id", dispute.id);
+
+      if (updateError) {
+        throw new Error(`Failed to update dispute ${dispute.id}: ${updateError.message}`);
+      }
+      return "succeeded";
+    }
+
+    case "dispute_closed": {
+      const dispute = event.dispute!;
+      const closedAt = new Date().toISOString();
+
+      const { data: disputeRecord, error: disputeError } = await supabase
+        .from("enrollment_disputes")
+        .update({
+          status: dispute.status,
+          closed_at: closedAt,
+        })
+        .eq("stripe_dispute_id", dispute.id)
+        .select("enrollment_id")
+        .maybeSingle();
+
+      if (disputeError) {
+        throw new Error(`Failed to update dispute ${dispute.id}: ${disputeError.message}`);
+      }
+
+      if (!disputeRecord) {
+        console.log(`No dispute record for ${dispute.id}, skipping`);
+        return "skipped";
+      }
+
+      // Lost disputes leave the payment reversed. Won ones, and inquiries closed
+      // without becoming a chargeback, keep the funds, so the enrollment goes back
+      // to the status it had. Any other outcome leaves it disputed for staff.
+      const lost = dispute.status === "lost";
+      const won = dispute.status === "won";
+      if (!lost && !won && dispute.status !== "warning_closed") {
+        console.log(`Dispute ${dispute.id} closed as ${dispute.status}, enrollment stays disputed`);
+        return "succeeded";
+      }
+
+      const { data: current, error: loadError } = await supabase
+        .from("enrollments")
+        .select("id, amount_cents, refunded_amount_cents")
+        .eq("id", disputeRecord.enrollment_id)
+        .single();
+
+      if (loadError) {
+        throw new Error(`Failed to load enrollment ${disputeRecord.enrollment_id}: ${loadError.message}`);
+      }
+
+      const keptStatus = lost ? null : await settledStatusOf(supabase, current);
+      const { data: enrollment, error: updateError } = await supabase
+        .from("enrollments")
+        .update(keptStatus
+          ? { status: keptStatus }
+          : { status: "reversed", reversed_at: closedAt })
+        .eq("id", disputeRecord.enrollment_id)
+        .eq("status", "disputed") // Only update if the dispute is still open on our side
+        .select()
+        .maybeSingle();
+
+      if (updateError) {
+        throw new Error(`Failed to update enrollment ${disputeRecord.enrollment_id}: ${updateError.message}`);
+      }
+
+      if (enrollment) {
         // Log event
         await supabase.from("enrollment_events").insert({
-          enrollment_id: enrollmentId,
-          event_type: "checkout_completed",
+          enrollment_id: enrollment.id,
+          event_type: lost ? "dispute_lost" : won ? "dispute_won" : "dispute_closed",
           event_data: {
-            session_id: session.id,
-            payment_intent_id: session.payment_intent,
-            payment_method_type: paymentMethodType,
-            status: newStatus,
+            dispute_id: dispute.id,
+            status: dispute.status,
+            amount: dispute.amountCents,
           },
         });
 
         // Update Zoho CRM
-        if (enrollment) {
-          await updateZohoRecord(enrollment.zoho_module, enrollment.zoho_record_id, {
-            Enrollment_Status: newStatus === "paid" ? "Paid" : "Processing",
-            Payment_Method_Stripe: paymentMethodType === "ach" ? "ACH" : "Card",
-            Stripe_Session_ID: session.id,
-            ...(newStatus === "paid" && { Payment_Date: new Date().toISOString() }),
-            ...(newStatus === "processing" && { Processing_Date: new Date().toISOString() }),
-          });
+        await queueZohoUpdate(supabase, enrollment, {
+          status: keptStatus ?? "reversed",
+          ...(lost && { reversed_date: closedAt }),
+        });
 
-          await addZohoNote(
-            enrollment.zoho_module,
-            enrollment.zoho_record_id,
-            newStatus === "paid" ? "Payment Completed" : "Payment Processing",
-            `Enrollment payment ${newStatus === "paid" ? "completed" : "initiated"} via ${paymentMethodType.toUpperCase()}. Amount: $${(enrollment.amount_cents / 100).toFixed(2)}`
-          );
-        }
+        await queueZohoNote(
+          supabase,
+          enrollment,
+          lost ? "Dispute Lost" : won ? "Dispute Won" : "Dispute Closed",
+          `Chargeback ${dispute.id} closed as ${dispute.status}. Amount: $${(dispute.amountCents / 100).toFixed(2)}`
+        );
 
-        // Generate consent PDF with payment date timestamp
-        if (enrollment && newStatus === "paid") {
-          const pdfBytes = await generateAndStoreConsentPdf(supabase, enrollment, paidAt!);
-          await sendConfirmationEmail({
-            patientName: enrollment.patient_name || "Valued Patient",
-            patientEmail: enrollment.patient_email,
-            amountCents: enrollment.amount_cents,
-            currency: enrollment.currency || "usd",
-            paymentMethodType: paymentMethodType,
-            paymentDate: paidAt!,
-            pdfBytes: pdfBytes,
-            enrollmentId: enrollment.id,
-          });
-        }
+        console.log(`Enrollment ${enrollment.id} dispute closed as ${dispute.status}`);
+      }
+      return "succeeded";
+    }
 
-        console.log(`Enrollment ${enrollmentId} updated to ${newStatus}`);
-        break;
+    case "checkout_expired": {
+      const enrollmentId = event.enrollmentId;
+
+      if (!enrollmentId) {
+        console.log("No enrollment_id in session metadata, skipping");
+        return "skipped";
       }
 
-      case "payment_intent.succeeded": {
-        const paymentIntent = event.data.object as Stripe.PaymentIntent;
-        const enrollmentId = paymentIntent.metadata?.enrollment_id;
+      // Sessions closed because a newer checkout replaced them expire too
+      const expiredSession = await findCheckoutSession(supabase, event.sessionId, null);
+      if (expiredSession?.status === "superseded") {
+        console.log(`Superseded checkout session ${expiredSession.id} expired, skipping`);
+        return "skipped";
+      }
+      if (expiredSession) {
+        await markCheckoutSession(supabase, expiredSession.id, "expired");
+      }
 
-        if (!enrollmentId) {
-          console.log("No enrollment_id in payment intent metadata, skipping");
-          break;
-        }
+      // Only the abandoned payment lapses. The enrollment's other payments are
+      // unaffected and the patient may start a new checkout for the balance.
+      const expiredPayment = await findEnrollmentPayment(supabase, event.sessionId, null);
+      if (expiredPayment) {
+        await markEnrollmentPayment(supabase, expiredPayment.id, "canceled");
+        console.log(`Payment ${expiredPayment.id} for enrollment ${enrollmentId} expired`);
+        return "succeeded";
+      }
 
-        // This handles ACH payments that complete after checkout
-        const { data: enrollment, error: updateError } = await supabase
-          .from("enrollments")
-          .update({
-            status: "paid",
-            paid_at: new Date().toISOString(),
-          })
-          .eq("id", enrollmentId)
-          .eq("status", "processing") // Only update if currently processing
-          .select()
-          .single();
+      const { data: enrollment, error: updateError } = await supabase
+        .from("enrollments")
+        .update({
+          status: "expired",
+          expired_at: new Date().toISOString(),
+        })
+        .eq("id", enrollmentId)
+        .eq("status", "processing") // Only update if currently processing
+        .select()
+        .single();
+
+      if (updateError && updateError.code !== "PGRST116") {
+        throw new Error(`Failed to update enrollment ${enrollmentId}: ${updateError.message}`);
+      }
 
-        if (updateError && updateError.code !== "PGRST116") {
-          console.error("Failed to update enrollment:", updateError);
-          break;
-        }
+      if (enrollment) {
+        // Log event
+        await supabase.from("enrollment_events").insert({
+          enrollment_id: enrollmentId,
+          event_type: "checkout_expired",
+          event_data: {
+            session_id: event.sessionId,
+          },
+        });
 
-        if (enrollment) {
-          // Log event
-          await supabase.from("enrollment_events").insert({
-            enrollment_id: enrollmentId,
-            event_type: "payment_succeeded",
-            event_data: {
-              payment_intent_id: paymentIntent.id,
-              amount: paymentIntent.amount,
-            },
-          });
+        // Update Zoho CRM
+        await queueZohoUpdate(supabase, enrollment, {
+          status: "expired",
+          expired_date: new Date().toISOString(),
+        });
 
-          // Update Zoho CRM
-          await updateZohoRecord(enrollment.zoho_module, enrollment.zoho_record_id, {
-            Enrollment_Status: "Paid",
-            Payment_Date: new Date().toISOString(),
-          });
+        await queueZohoNote(
+          supabase,
+          enrollment,
+          "Checkout Expired",
+          "Checkout session expired without payment"
+        );
 
-          await addZohoNote(
-            enrollment.zoho_module,
-            enrollment.zoho_record_id,
-            "Payment Confirmed",
-            `ACH payment confirmed. Amount: $${(enrollment.amount_cents / 100).toFixed(2)}`
-          );
-
-          // Generate consent PDF with payment date
-          const pdfBytes = await generateAndStoreConsentPdf(supabase, enrollment, enrollment.paid_at);
-          await sendConfirmationEmail({
-            patientName: enrollment.patient_name || "Valued Patient",
-            patientEmail: enrollment.patient_email,
-            amountCents: enrollment.amount_cents,
-            currency: enrollment.currency || "usd",
-            paymentMethodType: "ach",
-            paymentDate: enrollment.paid_at,
-            pdfBytes: pdfBytes,
-            enrollmentId: enrollment.id,
-          });
+        console.log(`Enrollment ${enrollmentId} checkout expired`);
+      }
+      return "succeeded";
+    }
+
+    case "charge_refunded": {
+      const enrollment = await findEnrollmentByPaymentIntent(supabase, event.paymentIntentId);
+
+      if (!enrollment) {
+        console.log("No enrollment found for refunded charge, skipping");
+        return "skipped";
+      }
 
-          console.log(`Enrollment ${enrollmentId} payment confirmed`);
+      // A split enrollment has one charge per payment, and a payment plan one per
+      // installment, each refunded separately
+      const refundedPayment = await findEnrollmentPayment(supabase, null, event.paymentIntentId);
+      const refundedInstallment = refundedPayment
+        ? null
+        : await findInstallmentByPaymentIntent(supabase, event.paymentIntentId, { includeDeposit: true });
+
+      // Sync individual refunds - this also picks up refunds issued directly
+      // in the Stripe dashboard, which never went through refund-enrollment
+      for (const refund of event.refunds) {
+        const { data: existingRefund } = await supabase
+          .from("enrollment_refunds")
+          .select("id")
+          .eq("stripe_refund_id", refund.id)
+          .maybeSingle();
+
+        if (existingRefund) {
+          await supabase
+            .from("enrollment_refunds")
+            .update({ status: refund.status })
+            .eq("id", existingRefund.id);
+          continue;
         }
-        break;
+
+        await supabase.from("enrollment_refunds").insert({
+          enrollment_id: enrollment.id,
+          enrollment_payment_id: refundedPayment?.id ?? null,
+          enrollment_installment_id: refundedInstallment?.id ?? null,
+          stripe_refund_id: refund.id,
+          amount_cents: refund.amountCents,
+          currency: refund.currency,
+          reason: refund.reason,
+          status: refund.status,
+          source: "stripe_dashboard",
+        });
+
+        await supabase.from("admin_audit_log").insert({
+          action: "refund",
+          resource_type: "enrollment",
+          resource_id: enrollment.id,
+          resource_summary: {
+            patient_name: enrollment.patient_name,
+            patient_email: enrollment.patient_email,
+            amount_cents: refund.amountCents,
+            original_amount_cents: enrollment.amount_cents,
+            reason: refund.reason,
+            refund_id: refund.id,
+            source: "stripe_dashboard",
+          },
+        });
       }
 
-      case "payment_intent.payment_failed": {
-        const paymentIntent = event.data.object as Stripe.PaymentIntent;
-        const enrollmentId = paymentIntent.metadata?.enrollment_id;
+      // The event carries the charge's running total
+      const previousChargeRefunded = (refundedPayment ?? refundedInstallment)?.refunded_cents
+        ?? enrollment.refunded_amount_cents ?? 0;
 
-        if (!enrollmentId) {
-          console.log("No enrollment_id in payment intent metadata, skipping");
-          break;
-        }
+      if (event.amountRefundedCents <= previousChargeRefunded) {
+        console.log(`Refunds for enrollment ${enrollment.id} already applied, skipping`);
+        return "skipped";
+      }
+
+      const previousRefunded = enrollment.refunded_amount_cents || 0;
+      const { totalRefunded, fullyRefunded } = await applyChargeRefunds(
+        supabase,
+        enrollment,
+        refundedPayment,
+        refundedInstallment,
+        event.amountRefundedCents,
+        event.fullyRefunded,
+      );
+
+      const newStatus = fullyRefunded ? "refunded" : "partially_refunded";
+      const refundedAt = new Date().toISOString();
+      const refundTotals = {
+        refunded_amount_cents: totalRefunded,
+        refunded_at: refundedAt,
+      };
+
+      const { data: movedEnrollment, error: updateError } = await supabase
+        .from("enrollments")
+        .update({ status: newStatus, ...refundTotals })
+        .eq("id", enrollment.id)
+        .in("status", refundableStatuses)
+        .select("id")
+        .maybeSingle();
+
+      if (updateError) {
+        throw new Error(`Failed to update enrollment ${enrollment.id}: ${updateError.message}`);
+      }
 
-        const { data: enrollment, error: updateError } = await supabase
+      const statusChanged = !!movedEnrollment;
+      if (!statusChanged) {
+        const { error: totalsError } = await supabase
           .from("enrollments")
-          .update({
-            status: "failed",
-            failed_at: new Date().toISOString(),
-          })
-          .eq("id", enrollmentId)
-          .select()
-          .single();
+          .update(refundTotals)
+          .eq("id", enrollment.id);
 
-        if (updateError) {
-          console.error("Failed to update enrollment:", updateError);
-          break;
+        if (totalsError) {
+          throw new Error(`Failed to update enrollment ${enrollment.id}: ${totalsError.message}`);
         }
+      }
 
-        if (enrollment) {
-          // Log event
-          await supabase.from("enrollment_events").insert({
-            enrollment_id: enrollmentId,
-            event_type: "payment_failed",
-            event_data: {
-              payment_intent_id: paymentIntent.id,
-              error: paymentIntent.last_payment_error?.message,
-            },
-          });
+      // Log event
+      await supabase.from("enrollment_events").insert({
+        enrollment_id: enrollment.id,
+        event_type: newStatus,
+        event_data: {
+          charge_id: event.chargeId,
+          payment_intent_id: event.paymentIntentId ?? enrollment.stripe_payment_intent_id,
+          ...(refundedPayment && { enrollment_payment_id: refundedPayment.id }),
+          ...(refundedInstallment && { installment_id: refundedInstallment.id }),
+          amount_refunded: totalRefunded - previousRefunded,
+          total_refunded: totalRefunded,
+          previous_status: enrollment.status,
+          ...(!statusChanged && { status_kept: true }),
+        },
+      });
 
-          // Update Zoho CRM
-          await updateZohoRecord(enrollment.zoho_module, enrollment.zoho_record_id, {
-            Enrollment_Status: "Failed",
-            Payment_Failed_Date: new Date().toISOString(),
-          });
+      // Update Zoho CRM
+      await queueZohoUpdate(supabase, enrollment, {
+        ...(statusChanged && { status: newStatus }),
+        refunded_amount: totalRefunded / 100,
+        refund_date: refundedAt,
+      });
 
-          await addZohoNote(
-            enrollment.zoho_module,
-            enrollment.zoho_record_id,
-            "Payment Failed",
-            `Payment failed: ${paymentIntent.last_payment_error?.message || "Unknown error"}`
-          );
+      await queueZohoNote(
+        supabase,
+        enrollment,
+        newStatus === "refunded" ? "Payment Refunded" : "Partial Refund Issued",
+        `Refund of $${((totalRefunded - previousRefunded) / 100).toFixed(2)} issued. Total refunded: $${(totalRefunded / 100).toFixed(2)} of $${(enrollment.amount_cents / 100).toFixed(2)}`
+      );
+
+      console.log(statusChanged
+        ? `Enrollment ${enrollment.id} updated to ${newStatus}`
+        : `Enrollment ${enrollment.id} refund recorded, status stays ${enrollment.status}`);
+      return "succeeded";
+    }
 
-          console.log(`Enrollment ${enrollmentId} payment failed`);
-        }
-        break;
+    case "refund_updated": {
+      // New refunds are recorded from charge.refunded, which lists every refund on the charge
+      const [refund] = event.refunds;
+      const { data: record } = refund
+        ? await supabase
+          .from("enrollment_refunds")
+          .select("id, status, amount_cents, enrollment_id, enrollment_payment_id, enrollment_installment_id")
+          .eq("stripe_refund_id", refund.id)
+          .maybeSingle()
+        : { data: null };
+
+      if (!record || record.status === refund.status) {
+        console.log(`Refund ${refund?.id} not recorded or unchanged, skipping`);
+        return "skipped";
       }
 
-      case "checkout.session.expired": {
-        const session = event.data.object as Stripe.Checkout.Session;
-        const enrollmentId = session.metadata?.enrollment_id;
+      const { data: updatedRefund } = await supabase
+        .from("enrollment_refunds")
+        .update({ status: refund.status })
+        .eq("id", record.id)
+        .eq("status", record.status)
+        .select("id")
+        .maybeSingle();
+
+      // Only a refund that no longer returns the money changes the totals
+      if (!updatedRefund || !activeRefundStatuses.includes(record.status) || activeRefundStatuses.includes(refund.status)) {
+        console.log(`Refund ${refund.id} is now ${refund.status}`);
+        return "succeeded";
+      }
 
-        if (!enrollmentId) {
-          console.log("No enrollment_id in session metadata, skipping");
-          break;
-        }
+      const { data: enrollment, error: loadError } = await supabase
+        .from("enrollments")
+        .select("*")
+        .eq("id", record.enrollment_id)
+        .single();
 
-        const { data: enrollment, error: updateError } = await supabase
+      if (loadError) {
+        throw new Error(`Failed to load enrollment ${record.enrollment_id}: ${loadError.message}`);
+      }
+
+      // The charge's refunded total is what its remaining refunds still return
+      let standingQuery = supabase
+        .from("enrollment_refunds")
+        .select("amount_cents")
+        .eq("enrollment_id", enrollment.id)
+        .in("status", activeRefundStatuses);
+      if (record.enrollment_payment_id) {
+        standingQuery = standingQuery.eq("enrollment_payment_id", record.enrollment_payment_id);
+      } else if (record.enrollment_installment_id) {
+        standingQuery = standingQuery.eq("enrollment_installment_id", record.enrollment_installment_id);
+      }
+      const { data: standingRefunds, error: standingError } = await standingQuery;
+
+      if (standingError) {
+        throw new Error(`Failed to load refunds for enrollment ${enrollment.id}: ${standingError.message}`);
+      }
+
+      const chargeRefunded = (standingRefunds || []).reduce((sum, r) => sum + r.amount_cents, 0);
+      const { totalRefunded, fullyRefunded } = await applyChargeRefunds(
+        supabase,
+        enrollment,
+        record.enrollment_payment_id ? { id: record.enrollment_payment_id } : null,
+        record.enrollment_installment_id ? { id: record.enrollment_installment_id } : null,
+        chargeRefunded,
+        chargeRefunded >= enrollment.amount_cents + (enrollment.payment_adjustment_cents || 0),
+      );
+
+      // With nothing refunded any more the enrollment is back to what was paid
+      const newStatus = fullyRefunded && totalRefunded > 0
+        ? "refunded"
+        : await settledStatusOf(supabase, { ...enrollment, refunded_amount_cents: totalRefunded });
+
+      const refundTotals = {
+        refunded_amount_cents: totalRefunded,
+        ...(totalRefunded === 0 && { refunded_at: null }),
+      };
+
+      // A disputed or reversed enrollment keeps its status, as when the refund arrived
+      const { data: movedEnrollment, error: updateError } = await supabase
+        .from("enrollments")
+        .update({ status: newStatus, ...refundTotals })
+        .eq("id", enrollment.id)
+        .in("status", ["refunded", "partially_refunded"])
+        .select("id")
+        .maybeSingle();
+
+      if (updateError) {
+        throw new Error(`Failed to update enrollment ${enrollment.id}: ${updateError.message}`);
+      }
+
+      if (!movedEnrollment) {
+        const { error: totalsError } = await supabase
           .from("enrollments")
-          .update({
-            status: "expired",
-            expired_at: new Date().toISOString(),
-          })
-          .eq("id", enrollmentId)
-          .eq("status", "processing") // Only update if currently processing
-          .select()
-          .single();
+          .update(refundTotals)
+          .eq("id", enrollment.id);
 
-        if (updateError && updateError.code !== "PGRST116") {
-          console.error("Failed to update enrollment:", updateError);
-          break;
+        if (totalsError) {
+          throw new Error(`Failed to update enrollment ${enrollment.id}: ${totalsError.message}`);
         }
+      }
 
-        if (enrollment) {
-          // Log event
-          await supabase.from("enrollment_events").insert({
-            enrollment_id: enrollmentId,
-            event_type: "checkout_expired",
-            event_data: {
-              session_id: session.id,
-            },
-          });
+      const statusChanged = !!movedEnrollment && newStatus !== enrollment.status;
+
+      // Log event
+      await supabase.from("enrollment_events").insert({
+        enrollment_id: enrollment.id,
+        event_type: "refund_failed",
+        event_data: {
+          refund_id: refund.id,
+          refund_status: refund.status,
+          amount_cents: record.amount_cents,
+          failure_reason: event.failureMessage,
+          ...(record.enrollment_payment_id && { enrollment_payment_id: record.enrollment_payment_id }),
+          ...(record.enrollment_installment_id && { installment_id: record.enrollment_installment_id }),
+          total_refunded: totalRefunded,
+          previous_status: enrollment.status,
+          ...(statusChanged && { status: newStatus }),
+        },
+      });
 
-          // Update Zoho CRM
-          await updateZohoRecord(enrollment.zoho_module, enrollment.zoho_record_id, {
-            Enrollment_Status: "Expired",
-            Expired_Date: new Date().toISOString(),
-          });
+      // Update Zoho CRM
+      await queueZohoUpdate(supabase, enrollment, {
+        ...(statusChanged && { status: newStatus }),
+        refunded_amount: totalRefunded / 100,
+      });
+
+      await queueZohoNote(
+        supabase,
+        enrollment,
+        "Refund Failed",
+        `Refund of $${(record.amount_cents / 100).toFixed(2)} ${refund.status === "canceled" ? "was canceled" : "failed"}${event.failureMessage ? ` (${event.failureMessage})` : ""} and was not returned to the patient. Total refunded: $${(totalRefunded / 100).toFixed(2)} of $${(enrollment.amount_cents / 100).toFixed(2)}`
+      );
+
+      console.log(statusChanged
+        ? `Refund ${refund.id} ${refund.status}, enrollment ${enrollment.id} updated to ${newStatus}`
+        : `Refund ${refund.id} ${refund.status}, enrollment ${enrollment.id} status stays ${enrollment.status}`);
+      return "succeeded";
+    }
 
-          await addZohoNote(
-            enrollment.zoho_module,
-            enrollment.zoho_record_id,
-            "Checkout Expired",
-            "Stripe checkout session expired without payment"
-          );
+    default:
+      console.log(`Unhandled event type: ${event.type}`);
+      return "skipped";
+  }
+}
 
-          console.log(`Enrollment ${enrollmentId} checkout expired`);
-        }
-        break;
+// Find the enrollment an event belongs to, so its events can be listed per enrollment.
+// Charge and dispute events only carry the PaymentIntent.
+async function resolveEventEnrollmentId(
+  supabase: SupabaseClient,
+  event: PaymentEvent,
+): Promise<string | null> {
+  if (event.enrollmentId) return event.enrollmentId;
+
+  const installment = await findInstallmentByPaymentIntent(supabase, event.paymentIntentId);
+  if (installment) return installment.enrollment_id;
+
+  const enrollment = await findEnrollmentByPaymentIntent(supabase, event.paymentIntentId);
+  if (enrollment) return enrollment.id;
+
+  if (event.dispute) {
+    const { data: dispute } = await supabase
+      .from("enrollment_disputes")
+      .select("enrollment_id")
+      .eq("stripe_dispute_id", event.dispute.id)
+      .maybeSingle();
+    return dispute?.enrollment_id ?? null;
+  }
+
+  return null;
+}
+
+// Store the verified payload before handling, so a crash mid-handler still leaves a trace
+async function recordEventReceived(
+  supabase: SupabaseClient,
+  provider: string,
+  event: PaymentEvent,
+  rawEvent: unknown,
+): Promise<void> {
+  const { data: existing } = await supabase
+    .from("webhook_events")
+    .select("id, attempts")
+    .eq("event_id", event.id)
+    .maybeSingle();
+
+  const enrollmentId = await resolveEventEnrollmentId(supabase, event);
+
+  const { error } = existing
+    ? await supabase
+      .from("webhook_events")
+      .update({
+        status: "processing",
+        attempts: existing.attempts + 1,
+        ...(enrollmentId && { enrollment_id: enrollmentId }),
+      })
+      .eq("id", existing.id)
+    : await supabase
+      .from("webhook_events")
+      .insert({
+        provider,
+        event_id: event.id,
+        event_type: event.type,
+        kind: event.kind,
+        enrollment_id: enrollmentId,
+        payload: rawEvent,
+        attempts: 1,
+      });
+
+  if (error) {
+    console.error(`Failed to store webhook event ${event.id}:`, error);
+  }
+}
+
+async function recordEventOutcome(
+  supabase: SupabaseClient,
+  eventId: string,
+  status: WebhookOutcome | "failed",
+  startedAt: number,
+  errorMessage: string | null,
+): Promise<void> {
+  const { error } = await supabase
+    .from("webhook_events")
+    .update({
+      status,
+      error: errorMessage,
+      duration_ms: Date.now() - startedAt,
+      processed_at: new Date().toISOString(),
+    })
+    .eq("event_id", eventId);
+
+  if (error) {
+    console.error(`Failed to record outcome of webhook event ${eventId}:`, error);
+  }
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+  );
+
+  let paymentProvider: PaymentProvider;
+  try {
+    paymentProvider = getPaymentProvider();
+  } catch (err) {
+    console.error("Payment provider not configured:", err);
+    return new Response(JSON.stringify({ error: "Payment provider not configured" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    let rawEvent: unknown;
+    let replay = false;
+
+    // replay-webhook-event re-runs a stored event. It authenticates with the
+    // service role key and names the event instead of sending a signed payload.
+    const replayEventId = req.headers.get(REPLAY_HEADER);
+    if (replayEventId) {
+      if (req.headers.get("Authorization") !== `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`) {
+        return new Response(JSON.stringify({ error: "Unauthorized" }), {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      const { data: storedEvent } = await supabase
+        .from("webhook_events")
+        .select("payload, status")
+        .eq("event_id", replayEventId)
+        .maybeSingle();
+
+      if (!storedEvent) {
+        return new Response(JSON.stringify({ error: "Event not found" }), {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      if (!replayableEventStatuses.includes(storedEvent.status)) {
+        return new Response(JSON.stringify({ error: `Only failed or skipped events can be replayed, this one ${storedEvent.status}` }), {
+          status: 409,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      rawEvent = storedEvent.payload;
+      replay = true;
+    } else {
+      const body = await req.text();
+
+      try {
+        rawEvent = await paymentProvider.verifyWebhook(body, req.headers);
+      } catch (err) {
+        console.error("Webhook not configured:", err);
+        return new Response(JSON.stringify({ error: "Webhook not configured" }), {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
       }
 
-      default:
-        console.log(`Unhandled event type: ${event.type}`);
+      if (!rawEvent) {
+        return new Response(JSON.stringify({ error: "Invalid signature" }), {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
     }
 
+    const event = await paymentProvider.normalizeEvent(rawEvent);
+
+    // Check for duplicate event processing (idempotency). A replay is an explicit
+    // request to run the handler again. Not every side effect is idempotent, so
+    // only events that failed or were skipped can be replayed, and status changes
+    // are guarded so a replay cannot move an enrollment backwards.
+    if (!replay) {
+      const { data: existingEvent } = await supabase
+        .from("processed_stripe_events")
+        .select("stripe_event_id")
+        .eq("stripe_event_id", event.id)
+        .maybeSingle();
+
+      if (existingEvent) {
+        console.log(`Event ${event.id} already processed, skipping`);
+        return new Response(JSON.stringify({ received: true, duplicate: true }), {
+          status: 200,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+    }
+
+    console.log(`Processing ${paymentProvider.name} event: ${event.type} (${event.id})${replay ? " [replay]" : ""}`);
+
+    await recordEventReceived(supabase, paymentProvider.name, event, rawEvent);
+
+    const startedAt = Date.now();
+    let outcome: WebhookOutcome;
+    try {
+      outcome = await handlePaymentEvent(supabase, paymentProvider, event);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      console.error(`Failed to handle event ${event.id}:`, err);
+
+      // Not marked processed, so the provider's retry (or an admin replay) runs it again
+      await recordEventOutcome(supabase, event.id, "failed", startedAt, message);
+
+      return new Response(JSON.stringify({ error: "Event handling failed", status: "failed" }), {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    await recordEventOutcome(supabase, event.id, outcome, startedAt, null);
+
     // Record that we processed this event (idempotency)
-    await supabase.from("processed_stripe_events").insert({
-      stripe_event_id: event.id,
-    });
+    await supabase.from("processed_stripe_events").upsert(
+      { stripe_event_id: event.id },
+      { onConflict: "stripe_event_id", ignoreDuplicates: true },
+    );
 
-    return new Response(JSON.stringify({ received: true }), {
+    return new Response(JSON.stringify({ received: true, status: outcome }), {
       status: 200,
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
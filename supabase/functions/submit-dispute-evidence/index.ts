@@ -0,0 +1,291 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.2";
+import { getPaymentProvider } from "../_shared/payment-provider.ts";
+import {
+  buildDisputeEvidence,
+  formatConsentStatement,
+  formatEvidenceTimeline,
+  htmlToPlainText,
+} from "../_shared/dispute-evidence.ts";
+import { loadLineItems } from "../_shared/line-items.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface SubmitDisputeEvidenceRequest {
+  dispute_id: string;
+  notes?: string;
+  submit: boolean; // false stages the evidence in Stripe without submitting it
+}
+
+// Stripe only accepts evidence while the dispute is awaiting a response
+const openDisputeStatuses = ["warning_needs_response", "needs_response"];
+
+// Stripe caps each evidence text field; leave headroom for the header lines
+const MAX_EVIDENCE_TEXT = 19000;
+
+function truncate(text: string, max: number = MAX_EVIDENCE_TEXT): string {
+  return text.length > max ? `${text.slice(0, max)}\n[truncated]` : text;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const paymentProvider = getPaymentProvider();
+
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: "Missing authorization header" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Create Supabase client with user's auth token
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    // Get the current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Verify user is an admin
+    const { data: adminUser, error: adminError } = await supabase
+      .from("admin_users")
+      .select("id, role")
+      .eq("user_id", user.id)
+      .not("accepted_at", "is", null)
+      .maybeSingle();
+
+    if (adminError || !adminUser) {
+      return new Response(JSON.stringify({ error: "Only admins can submit dispute evidence" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // SECURITY: Viewers can review evidence but not send it
+    if (adminUser.role === "viewer") {
+      return new Response(JSON.stringify({ error: "Viewers do not have permission to submit dispute evidence" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const body: SubmitDisputeEvidenceRequest = await req.json();
+
+    if (!body.dispute_id) {
+      return new Response(JSON.stringify({
+        error: "Missing required fields",
+        required: ["dispute_id"]
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Use service role for database operations
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: dispute, error: disputeError } = await supabaseAdmin
+      .from("enrollment_disputes")
+      .select("*")
+      .eq("id", body.dispute_id)
+      .single();
+
+    if (disputeError || !dispute) {
+      return new Response(JSON.stringify({ error: "Dispute not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (!openDisputeStatuses.includes(dispute.status)) {
+      return new Response(JSON.stringify({
+        error: `Cannot submit evidence for a dispute with status '${dispute.status}'`
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: enrollment, error: enrollmentError } = await supabaseAdmin
+      .from("enrollments")
+      .select("id, patient_name, patient_email, amount_cents, consent_pdf_path, signature_data")
+      .eq("id", dispute.enrollment_id)
+      .single();
+
+    if (enrollmentError || !enrollment) {
+      return new Response(JSON.stringify({ error: "Enrollment not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Rebuild the bundle so late events (e.g. a regenerated consent PDF) are included
+    const evidence = await buildDisputeEvidence(supabaseAdmin, enrollment.id);
+    if (!evidence) {
+      throw new Error("Failed to assemble dispute evidence");
+    }
+
+    // Upload the signed consent PDF as service documentation
+    let consentFileId: string | undefined;
+    if (enrollment.consent_pdf_path) {
+      const { data: pdfBlob, error: downloadError } = await supabaseAdmin.storage
+        .from("consent-documents")
+        .download(enrollment.consent_pdf_path);
+
+      if (downloadError || !pdfBlob) {
+        console.error("Failed to download consent PDF:", downloadError);
+      } else {
+        consentFileId = await paymentProvider.uploadDisputeFile({
+          data: new Uint8Array(await pdfBlob.arrayBuffer()),
+          name: `consent-${enrollment.id}.pdf`,
+          type: "application/pdf",
+        });
+      }
+    }
+
+    // Upload the drawn signature, if we kept the image
+    let signatureFileId: string | undefined;
+    const signatureMatch = enrollment.signature_data?.match(/^data:image\/png;base64,(.+)$/);
+    if (signatureMatch) {
+      const binaryString = atob(signatureMatch[1]);
+      const signatureBytes = new Uint8Array(binaryString.length);
+      for (let i = 0; i < binaryString.length; i++) {
+        signatureBytes[i] = binaryString.charCodeAt(i);
+      }
+      signatureFileId = await paymentProvider.uploadDisputeFile({
+        data: signatureBytes,
+        name: `signature-${enrollment.id}.png`,
+        type: "image/png",
+      });
+    }
+
+    const lineItems = await loadLineItems(supabaseAdmin, enrollment.id);
+    const itemSummary = lineItems
+      .map((item) => `${item.name}${item.quantity > 1 ? ` x${item.quantity}` : ""} ($${(item.amount_cents / 100).toFixed(2)})`)
+      .join(", ");
+
+    const notes = body.notes?.trim() || "";
+    const termsText = htmlToPlainText(evidence.policy_text.terms_text);
+    const uncategorizedText = [
+      notes,
+      formatConsentStatement(evidence),
+      termsText && `Terms of Service as accepted:\n${termsText}`,
+    ].filter(Boolean).join("\n\n");
+
+    const disputeStatus = await paymentProvider.updateDisputeEvidence({
+      disputeId: dispute.stripe_dispute_id,
+      customerName: evidence.patient.name,
+      customerEmail: evidence.patient.email,
+      customerPurchaseIp: evidence.consent.ip,
+      productDescription: `Himplant® enrollment payment of $${(evidence.payment.amount_cents / 100).toFixed(2)}${itemSummary ? ` for ${itemSummary}` : ""}, accepted under Terms v${evidence.consent.terms_version}.`,
+      accessActivityLog: truncate(formatEvidenceTimeline(evidence)),
+      refundPolicyDisclosure: truncate(formatConsentStatement(evidence)),
+      uncategorizedText: truncate(uncategorizedText),
+      serviceDocumentationFileId: consentFileId ?? null,
+      customerSignatureFileId: signatureFileId ?? null,
+      metadata: {
+        enrollment_id: enrollment.id,
+        submitted_by: user.id,
+      },
+      submit: body.submit === true,
+    });
+
+    const submittedAt = new Date().toISOString();
+
+    const { error: saveError } = await supabaseAdmin
+      .from("enrollment_disputes")
+      .update({
+        status: disputeStatus,
+        evidence,
+        evidence_notes: notes || null,
+        ...(body.submit === true && {
+          evidence_submitted_at: submittedAt,
+          evidence_submitted_by: user.id,
+          evidence_submitted_by_email: user.email,
+        }),
+      })
+      .eq("id", dispute.id);
+
+    if (saveError) {
+      console.error("Failed to save dispute evidence:", saveError);
+    }
+
+    // Log the evidence event
+    await supabaseAdmin.from("enrollment_events").insert({
+      enrollment_id: enrollment.id,
+      event_type: body.submit === true ? "dispute_evidence_submitted" : "dispute_evidence_saved",
+      event_data: {
+        source: "admin_dashboard",
+        dispute_id: dispute.stripe_dispute_id,
+        submitted_by: user.id,
+        consent_pdf_attached: !!consentFileId,
+        signature_attached: !!signatureFileId,
+        dispute_status: disputeStatus,
+      },
+    });
+
+    // Write to the admin audit trail
+    await supabaseAdmin.from("admin_audit_log").insert({
+      admin_user_id: user.id,
+      admin_email: user.email,
+      action: body.submit === true ? "submit_evidence" : "update",
+      resource_type: "dispute",
+      resource_id: dispute.id,
+      resource_summary: {
+        patient_name: enrollment.patient_name,
+        patient_email: enrollment.patient_email,
+        amount_cents: dispute.amount_cents,
+        reason: dispute.reason,
+        dispute_id: dispute.stripe_dispute_id,
+        status: disputeStatus,
+      },
+    });
+
+    console.log(`Admin ${user.email} ${body.submit === true ? "submitted" : "saved"} evidence for dispute ${dispute.stripe_dispute_id}`);
+
+    return new Response(JSON.stringify({
+      success: true,
+      status: disputeStatus,
+      submitted: body.submit === true,
+      consent_pdf_attached: !!consentFileId,
+      signature_attached: !!signatureFileId,
+    }), {
+      status: 200,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  } catch (error) {
+    console.error("Error in submit-dispute-evidence:", error);
+    return new Response(JSON.stringify({
+      error: error instanceof Error ? error.message : "Internal server error"
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
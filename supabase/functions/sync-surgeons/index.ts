@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { zohoRequest, type ZohoResult } from "../_shared/zoho.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -15,70 +16,29 @@ interface ZohoSurgeon {
   Specialty?: string;
 }
 
-async function getZohoAccessToken(): Promise<string> {
-  const clientId = Deno.env.get("ZOHO_CLIENT_ID");
-  const clientSecret = Deno.env.get("ZOHO_CLIENT_SECRET");
-  const refreshToken = Deno.env.get("ZOHO_REFRESH_TOKEN");
-
-  if (!clientId || !clientSecret || !refreshToken) {
-    throw new Error("Missing Zoho credentials");
-  }
-
-  const response = await fetch("https://accounts.zoho.com/oauth/v2/token", {
-    method: "POST",
-    headers: { "Content-Type": "application/x-www-form-urlencoded" },
-    body: new URLSearchParams({
-      grant_type: "refresh_token",
-      client_id: clientId,
-      client_secret: clientSecret,
-      refresh_token: refreshToken,
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to refresh Zoho token: ${error}`);
-  }
-
-  const data = await response.json();
-  return data.access_token;
-}
-
-async function fetchSurgeonsFromZoho(accessToken: string): Promise<ZohoSurgeon[]> {
+// All pages of the Surgeons module
+async function fetchSurgeonsFromZoho(): Promise<ZohoResult<ZohoSurgeon[]>> {
   const surgeons: ZohoSurgeon[] = [];
   let page = 1;
   let hasMore = true;
 
   while (hasMore) {
-    const response = await fetch(
-      `https://www.zohoapis.com/crm/v2/Surgeons?page=${page}&per_page=200`,
-      {
-        headers: {
-          Authorization: `Zoho-oauthtoken ${accessToken}`,
-        },
-      }
+    const result = await zohoRequest<{ data?: ZohoSurgeon[]; info?: { more_records?: boolean } }>(
+      `Surgeons?page=${page}&per_page=200`,
+      { apiVersion: "v2" },
     );
+    if (result.error) return result;
 
-    if (response.status === 204) {
-      // No more records
-      break;
-    }
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Failed to fetch surgeons from Zoho: ${error}`);
-    }
-
-    const data = await response.json();
-    if (data.data && Array.isArray(data.data)) {
-      surgeons.push(...data.data);
+    if (Array.isArray(result.data.data)) {
+      surgeons.push(...result.data.data);
     }
 
-    hasMore = data.info?.more_records ?? false;
+    // An empty page comes back as 204 with no body
+    hasMore = result.data.info?.more_records ?? false;
     page++;
   }
 
-  return surgeons;
+  return { data: surgeons, error: null };
 }
 
 serve(async (req) => {
@@ -126,8 +86,14 @@ serve(async (req) => {
     }
 
     // Fetch surgeons from Zoho
-    const accessToken = await getZohoAccessToken();
-    const zohoSurgeons = await fetchSurgeonsFromZoho(accessToken);
+    const { data: zohoSurgeons, error: zohoError } = await fetchSurgeonsFromZoho();
+    if (zohoError) {
+      console.error("Failed to fetch surgeons from Zoho:", zohoError);
+      return new Response(JSON.stringify({ error: `Failed to fetch surgeons from Zoho: ${zohoError.message}`, code: zohoError.code }), {
+        status: 502,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
 
     console.log(`Fetched ${zohoSurgeons.length} surgeons from Zoho`);
 
@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { getZohoAccessToken, zohoDatacenter, zohoRequest } from "../_shared/zoho.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -30,27 +31,16 @@ serve(async (req) => {
       });
     }
 
-    // Attempt to get access token
-    const tokenResponse = await fetch("https://accounts.zoho.com/oauth/v2/token", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-      body: new URLSearchParams({
-        refresh_token: refreshToken,
-        client_id: clientId,
-        client_secret: clientSecret,
-        grant_type: "refresh_token",
-      }),
-    });
-
-    const tokenData = await tokenResponse.json();
+    // Refresh rather than use the cached token, so the credentials themselves are tested
+    const datacenter = zohoDatacenter();
+    const token = await getZohoAccessToken(true);
 
-    if (!tokenResponse.ok || tokenData.error) {
+    if (token.error) {
       return new Response(JSON.stringify({
         success: false,
         error: "Failed to refresh token",
-        details: tokenData,
+        datacenter,
+        details: token.error,
       }), {
         status: 400,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -58,41 +48,30 @@ serve(async (req) => {
     }
 
     // Test API access - try org info which requires minimal scope
-    const orgResponse = await fetch("https://www.zohoapis.com/crm/v6/org", {
-      headers: {
-        Authorization: `Zoho-oauthtoken ${tokenData.access_token}`,
-      },
-    });
-
-    const orgData = await orgResponse.json();
+    const org = await zohoRequest<{ org?: { company_name: string; zgid: string }[] }>("org");
 
     // If org fails, try modules endpoint
-    if (!orgResponse.ok) {
-      const modulesResponse = await fetch("https://www.zohoapis.com/crm/v6/settings/modules", {
-        headers: {
-          Authorization: `Zoho-oauthtoken ${tokenData.access_token}`,
-        },
-      });
-      
-      const modulesData = await modulesResponse.json();
-      
-      if (!modulesResponse.ok) {
+    if (org.error) {
+      const modules = await zohoRequest<{ modules?: unknown[] }>("settings/modules");
+
+      if (modules.error) {
         return new Response(JSON.stringify({
           success: false,
           error: "Token works but API calls failed - may need additional scopes",
           token_valid: true,
-          api_error: modulesData,
+          datacenter,
+          api_error: modules.error,
         }), {
           status: 400,
           headers: { ...corsHeaders, "Content-Type": "application/json" },
         });
       }
-      
+
       return new Response(JSON.stringify({
         success: true,
         message: "Zoho token is valid and working",
-        token_expires_in: tokenData.expires_in,
-        modules_count: modulesData.modules?.length || 0,
+        datacenter,
+        modules_count: modules.data.modules?.length || 0,
         note: "User info scope not available, but CRM access works",
       }), {
         status: 200,
@@ -103,10 +82,10 @@ serve(async (req) => {
     return new Response(JSON.stringify({
       success: true,
       message: "Zoho token is valid and working",
-      token_expires_in: tokenData.expires_in,
-      org: orgData.org?.[0] ? {
-        company_name: orgData.org[0].company_name,
-        zgid: orgData.org[0].zgid,
+      datacenter,
+      org: org.data.org?.[0] ? {
+        company_name: org.data.org[0].company_name,
+        zgid: org.data.org[0].zgid,
       } : null,
     }), {
       status: 200,
@@ -0,0 +1,156 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.2";
+import { zohoRequest } from "../_shared/zoho.ts";
+import {
+  loadZohoFieldMapping,
+  type CanonicalZohoField,
+  type MappedValueField,
+} from "../_shared/zoho-fields.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface ZohoFieldMetadata {
+  api_name: string;
+  field_label?: string;
+  data_type?: string;
+  read_only?: boolean;
+  pick_list_values?: { display_value: string; actual_value: string }[];
+}
+
+interface FieldCheck {
+  canonical_field: CanonicalZohoField;
+  zoho_field: string | null;
+  status: "ok" | "error" | "skipped";
+  message: string;
+}
+
+// Check a module's field mapping against Zoho's field metadata: every synced
+// field must exist and be writable, and mapped picklist values must be options
+// of the Zoho picklist. Read-only, so viewers can run it too.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: "Missing authorization header" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabase = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: adminUser, error: adminError } = await supabase
+      .from("admin_users")
+      .select("id")
+      .eq("user_id", user.id)
+      .not("accepted_at", "is", null)
+      .maybeSingle();
+
+    if (adminError || !adminUser) {
+      return new Response(JSON.stringify({ error: "Only admins can validate the Zoho field mapping" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const body: { zoho_module?: string } = await req.json();
+    const zohoModule = body.zoho_module?.trim();
+
+    if (!zohoModule) {
+      return new Response(JSON.stringify({ error: "zoho_module is required" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Skip the delivery cache so a mapping saved a moment ago is what gets checked
+    const supabaseAdmin = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const mapping = await loadZohoFieldMapping(supabaseAdmin, zohoModule, true);
+
+    const metadata = await zohoRequest<{ fields?: ZohoFieldMetadata[] }>(
+      `settings/fields?module=${encodeURIComponent(zohoModule)}`,
+    );
+    if (metadata.error) {
+      return new Response(JSON.stringify({ error: `Zoho: ${metadata.error.message}`, code: metadata.error.code }), {
+        status: 502,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const zohoFields = new Map((metadata.data.fields || []).map((field) => [field.api_name, field]));
+
+    const results = (Object.keys(mapping.fields) as CanonicalZohoField[]).map((canonicalField): FieldCheck => {
+      const zohoField = mapping.fields[canonicalField];
+      if (!zohoField) {
+        return { canonical_field: canonicalField, zoho_field: null, status: "skipped", message: "Not synced for this module" };
+      }
+
+      const field = zohoFields.get(zohoField);
+      if (!field) {
+        return { canonical_field: canonicalField, zoho_field: zohoField, status: "error", message: `${zohoModule} has no field with this API name` };
+      }
+      if (field.read_only) {
+        return { canonical_field: canonicalField, zoho_field: zohoField, status: "error", message: `${field.field_label || zohoField} is read-only in Zoho` };
+      }
+
+      const values = mapping.values[canonicalField as MappedValueField];
+      if (values && field.data_type === "picklist") {
+        const options = new Set((field.pick_list_values || []).map((option) => option.actual_value));
+        const missing = [...new Set(Object.values(values))].filter((value) => !options.has(value));
+        if (missing.length > 0) {
+          return {
+            canonical_field: canonicalField,
+            zoho_field: zohoField,
+            status: "error",
+            message: `Not in the Zoho picklist: ${missing.join(", ")}`,
+          };
+        }
+      }
+
+      return { canonical_field: canonicalField, zoho_field: zohoField, status: "ok", message: field.field_label || zohoField };
+    });
+
+    return new Response(JSON.stringify({
+      success: true,
+      zoho_module: zohoModule,
+      valid: results.every((result) => result.status !== "error"),
+      results,
+    }), {
+      status: 200,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error in validate-zoho-fields:", error);
+    return new Response(JSON.stringify({
+      error: error instanceof Error ? error.message : "Internal server error",
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
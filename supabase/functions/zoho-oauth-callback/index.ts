@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { datacenterForAccountsUrl, zohoAccountsUrl, zohoDatacenter } from "../_shared/zoho.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -81,8 +82,16 @@ serve(async (req) => {
       );
     }
 
+    // The code must be exchanged in the datacenter that issued it, which Zoho
+    // passes as accounts-server. Anything but a known Zoho server is ignored so
+    // the client secret is never sent elsewhere.
+    const datacenter = datacenterForAccountsUrl(url.searchParams.get('accounts-server') || '') ?? zohoDatacenter();
+    if (datacenter !== zohoDatacenter()) {
+      console.warn(`Zoho authorized in the "${datacenter}" datacenter, but ZOHO_DATACENTER is "${zohoDatacenter()}". Set ZOHO_DATACENTER=${datacenter} before using the refresh token.`);
+    }
+
     // Exchange authorization code for tokens
-    const tokenResponse = await fetch('https://accounts.zoho.com/oauth/v2/token', {
+    const tokenResponse = await fetch(`${zohoAccountsUrl(datacenter)}/oauth/v2/token`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
@@ -0,0 +1,590 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2.57.2";
+import { payerLinkResetFields } from "../_shared/payer.ts";
+import { closeOpenCheckoutSession } from "../_shared/checkout-sessions.ts";
+import { getPaymentProvider } from "../_shared/payment-provider.ts";
+import { queueZohoNote, queueZohoUpdate } from "../_shared/crm-sync.ts";
+import { formatZohoDateTime } from "../_shared/zoho.ts";
+import { sendEnrollmentLinkEmail } from "../_shared/send-enrollment-link-email.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-hmac-signature, x-hmac-timestamp",
+};
+
+type ZohoWebhookAction = "cancel" | "update" | "resend_link";
+
+interface ZohoWebhookRequest {
+  action: ZohoWebhookAction;
+  zoho_record_id?: string;
+  enrollment_id?: string;     // Targets one enrollment instead of the record's latest
+  reason?: string;            // cancel: shown in the timeline and the Zoho note
+  amount?: number;            // update: decimal from Zoho (e.g., 500.00)
+  amount_cents?: number;      // update: alternative to amount
+  expires_at?: string;        // update: ISO timestamp
+  expires_in_hours?: number;  // update: alternative to expires_at
+}
+
+interface WebhookEnrollment {
+  id: string;
+  status: string;
+  amount_cents: number;
+  currency: string | null;
+  expires_at: string;
+  opened_at: string | null;
+  terms_accepted_at: string | null;
+  needs_attention_at: string | null;
+  policy_id: string | null;
+  patient_name: string | null;
+  patient_email: string | null;
+  zoho_module: string;
+  zoho_record_id: string;
+}
+
+interface ActionResult {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+const ACTIONS: ZohoWebhookAction[] = ["cancel", "update", "resend_link"];
+
+// Nothing has been paid or is in flight
+const cancelableStatuses = ["created", "sent", "opened", "failed", "expired"];
+const repriceableStatuses = ["created", "sent", "opened", "failed", "expired"];
+// Split payments keep using the link for the rest of the balance
+const extendableStatuses = ["created", "sent", "opened", "failed", "expired", "partially_paid"];
+const resendableStatuses = ["created", "sent", "opened", "failed"];
+
+// Same scheme as create-enrollment's HMAC auth
+const MAX_TIMESTAMP_AGE_MS = 5 * 60 * 1000;
+
+function generateSecureToken(length = 32): string {
+  const array = new Uint8Array(length);
+  crypto.getRandomValues(array);
+  return Array.from(array, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function sha256Hash(data: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(data));
+  return Array.from(new Uint8Array(hashBuffer), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function hmacSha256(message: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(message));
+  return Array.from(new Uint8Array(signature), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function validateHmac(body: string, signature: string, timestamp: string, secret: string): Promise<boolean> {
+  const expectedSig = await hmacSha256(`${timestamp}.${body}`, secret);
+
+  // Constant-time comparison
+  if (signature.length !== expectedSig.length) {
+    return false;
+  }
+
+  let result = 0;
+  for (let i = 0; i < signature.length; i++) {
+    result |= signature.charCodeAt(i) ^ expectedSig.charCodeAt(i);
+  }
+  return result === 0;
+}
+
+const formatAmount = (cents: number, currency: string | null) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: (currency || "usd").toUpperCase() }).format(cents / 100);
+
+// Whether the policy the patient signed prints the amount
+async function termsDependOnAmount(supabase: SupabaseClient, policyId: string | null): Promise<boolean> {
+  if (!policyId) return false;
+  const { data: policy } = await supabase
+    .from("policies")
+    .select("terms_text, privacy_text")
+    .eq("id", policyId)
+    .maybeSingle();
+  return [policy?.terms_text, policy?.privacy_text].some((text) => text?.includes("{{amount}}"));
+}
+
+// Deal lost in Zoho: the link stops working and nothing more is charged
+async function cancelEnrollment(
+  supabase: SupabaseClient,
+  enrollment: WebhookEnrollment,
+  body: ZohoWebhookRequest,
+): Promise<ActionResult> {
+  if (enrollment.status === "canceled") {
+    return { status: 200, body: { success: true, action: "cancel", enrollment_id: enrollment.id, status: "canceled", unchanged: true } };
+  }
+
+  if (!cancelableStatuses.includes(enrollment.status)) {
+    return {
+      status: 409,
+      body: { error: `Cannot cancel an enrollment with status '${enrollment.status}'. Money has been collected or is in flight; refund it from the dashboard instead.` },
+    };
+  }
+
+  const canceledAt = new Date().toISOString();
+  const { data: canceled, error: updateError } = await supabase
+    .from("enrollments")
+    .update({ status: "canceled", canceled_at: canceledAt })
+    .eq("id", enrollment.id)
+    .in("status", cancelableStatuses)
+    .select("id")
+    .maybeSingle();
+
+  if (updateError) {
+    throw new Error(`Failed to cancel enrollment ${enrollment.id}: ${updateError.message}`);
+  }
+  if (!canceled) {
+    return { status: 409, body: { error: "The enrollment changed while canceling it. Try again." } };
+  }
+
+  const { error: installmentsError } = await supabase
+    .from("enrollment_installments")
+    .update({ status: "canceled" })
+    .eq("enrollment_id", enrollment.id)
+    .not("status", "in", "(paid,canceled)");
+
+  if (installmentsError) {
+    console.error("Failed to cancel outstanding installments:", installmentsError);
+  }
+
+  // A checkout the patient has open can no longer be paid; a payment that still
+  // arrives on it is refunded by the webhook
+  try {
+    await closeOpenCheckoutSession(supabase, getPaymentProvider(), enrollment.id);
+  } catch (error) {
+    console.error(`Failed to close checkout for canceled enrollment ${enrollment.id}:`, error);
+  }
+
+  const reason = body.reason?.trim() || null;
+  await supabase.from("enrollment_events").insert({
+    enrollment_id: enrollment.id,
+    event_type: "canceled",
+    event_data: {
+      source: "zoho_crm",
+      zoho_record_id: enrollment.zoho_record_id,
+      previous_status: enrollment.status,
+      reason,
+    },
+  });
+
+  await queueZohoUpdate(supabase, enrollment, {
+    status: "canceled",
+    canceled_date: canceledAt,
+  });
+  await queueZohoNote(
+    supabase,
+    enrollment,
+    "Enrollment Canceled",
+    `Enrollment canceled from Zoho${reason ? `: ${reason}` : ""}. The payment link no longer works. Previous status: ${enrollment.status}.`
+  );
+
+  console.log(`Canceled enrollment ${enrollment.id} from Zoho record ${enrollment.zoho_record_id}`);
+  return { status: 200, body: { success: true, action: "cancel", enrollment_id: enrollment.id, status: "canceled" } };
+}
+
+// New price or expiry from the deal. A new price closes any open checkout, and
+// the patient signs again when the terms they accepted print the amount.
+async function updateEnrollment(
+  supabase: SupabaseClient,
+  enrollment: WebhookEnrollment,
+  body: ZohoWebhookRequest,
+): Promise<ActionResult> {
+  const amountCents = body.amount !== undefined ? Math.round(body.amount * 100) : body.amount_cents;
+  if (amountCents !== undefined && (!Number.isInteger(amountCents) || amountCents <= 0)) {
+    return { status: 400, body: { error: "amount must be greater than zero" } };
+  }
+
+  let expiresAt: Date | undefined;
+  if (body.expires_at !== undefined) {
+    expiresAt = new Date(body.expires_at);
+  } else if (body.expires_in_hours !== undefined) {
+    expiresAt = new Date(Date.now() + body.expires_in_hours * 60 * 60 * 1000);
+  }
+  if (expiresAt && (isNaN(expiresAt.getTime()) || expiresAt <= new Date())) {
+    return { status: 400, body: { error: "Expiration date must be in the future" } };
+  }
+
+  if (amountCents === undefined && !expiresAt) {
+    return { status: 400, body: { error: "update needs amount, amount_cents, expires_at or expires_in_hours" } };
+  }
+
+  const amountChanged = amountCents !== undefined && amountCents !== enrollment.amount_cents;
+  if (amountChanged && !repriceableStatuses.includes(enrollment.status)) {
+    return { status: 409, body: { error: `Cannot change the amount of an enrollment with status '${enrollment.status}'` } };
+  }
+  if (expiresAt && !extendableStatuses.includes(enrollment.status)) {
+    return { status: 409, body: { error: `Cannot change the expiry of an enrollment with status '${enrollment.status}'` } };
+  }
+
+  if (amountChanged) {
+    // Line items and payment plans must add up to the amount, so those
+    // enrollments are repriced by sending a new link through create-enrollment
+    const [{ count: lineItemCount }, { count: installmentCount }] = await Promise.all([
+      supabase.from("enrollment_line_items").select("id", { count: "exact", head: true }).eq("enrollment_id", enrollment.id),
+      supabase.from("enrollment_installments").select("id", { count: "exact", head: true }).eq("enrollment_id", enrollment.id),
+    ]);
+    if (lineItemCount || installmentCount) {
+      return {
+        status: 409,
+        body: { error: `The amount comes from the enrollment's ${lineItemCount ? "line items" : "payment plan"}. Send a new link with create-enrollment instead.` },
+      };
+    }
+  }
+
+  const reconsent = amountChanged && !!enrollment.terms_accepted_at &&
+    await termsDependOnAmount(supabase, enrollment.policy_id);
+  const reopened = !!expiresAt && enrollment.status === "expired";
+
+  const updateData: Record<string, unknown> = {};
+  if (amountChanged) {
+    updateData.amount_cents = amountCents;
+    // The discount was taken off the old amount, so any promo code is entered again
+    updateData.promo_code_id = null;
+    updateData.promo_code = null;
+    updateData.promo_discount_cents = null;
+    updateData.promo_applied_at = null;
+    // The payer's acknowledgement quotes the amount, so they acknowledge again
+    Object.assign(updateData, payerLinkResetFields);
+  }
+  if (reconsent) {
+    Object.assign(updateData, {
+      terms_accepted_at: null,
+      terms_accept_ip: null,
+      terms_accept_user_agent: null,
+      signature_data: null,
+    });
+  }
+  if (expiresAt) {
+    updateData.expires_at = expiresAt.toISOString();
+  }
+  if (reopened) {
+    updateData.status = enrollment.opened_at ? "opened" : "created";
+    updateData.expired_at = null;
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from("enrollments")
+    .update(updateData)
+    .eq("id", enrollment.id)
+    .in("status", amountChanged ? repriceableStatuses : extendableStatuses)
+    .select("id, status, amount_cents, expires_at")
+    .maybeSingle();
+
+  if (updateError) {
+    throw new Error(`Failed to update enrollment ${enrollment.id}: ${updateError.message}`);
+  }
+  if (!updated) {
+    return { status: 409, body: { error: "The enrollment changed while updating it. Try again." } };
+  }
+
+  if (amountChanged) {
+    try {
+      await closeOpenCheckoutSession(supabase, getPaymentProvider(), enrollment.id);
+    } catch (error) {
+      console.error(`Failed to close checkout for repriced enrollment ${enrollment.id}:`, error);
+    }
+  }
+
+  await supabase.from("enrollment_events").insert({
+    enrollment_id: enrollment.id,
+    event_type: "enrollment_updated",
+    event_data: {
+      source: "zoho_crm",
+      zoho_record_id: enrollment.zoho_record_id,
+      ...(amountChanged && { previous_amount_cents: enrollment.amount_cents, amount_cents: amountCents }),
+      ...(expiresAt && { previous_expires_at: enrollment.expires_at, expires_at: expiresAt.toISOString() }),
+      ...(reopened && { previous_status: enrollment.status }),
+      reconsent_required: reconsent,
+    },
+  });
+
+  if (expiresAt) {
+    await queueZohoUpdate(supabase, enrollment, {
+      link_expires_at: formatZohoDateTime(expiresAt),
+      ...(reopened && { status: "created" }),
+    });
+  }
+
+  const changes = [
+    amountChanged ? `Amount changed from ${formatAmount(enrollment.amount_cents, enrollment.currency)} to ${formatAmount(amountCents!, enrollment.currency)}.` : null,
+    reconsent ? "The patient must accept the updated terms again." : null,
+    expiresAt ? `Link now expires at ${expiresAt.toISOString()}${reopened ? " and works again" : ""}.` : null,
+  ].filter(Boolean);
+  if (changes.length > 0) {
+    await queueZohoNote(supabase, enrollment, "Enrollment Updated", changes.join(" "));
+  }
+
+  console.log(`Updated enrollment ${enrollment.id} from Zoho record ${enrollment.zoho_record_id}`);
+  return {
+    status: 200,
+    body: {
+      success: true,
+      action: "update",
+      enrollment_id: enrollment.id,
+      status: updated.status,
+      amount_cents: updated.amount_cents,
+      expires_at: updated.expires_at,
+      reconsent_required: reconsent,
+    },
+  };
+}
+
+// A request that was refused or failed can be sent again, e.g. by a Zoho
+// workflow retry, so it must not count as processed
+async function releaseClaim(supabase: SupabaseClient, signature: string): Promise<void> {
+  const { error } = await supabase
+    .from("processed_zoho_webhooks")
+    .delete()
+    .eq("signature", signature);
+
+  if (error) {
+    console.error("Failed to release Zoho webhook claim:", error);
+  }
+}
+
+// Only the token's hash is stored, so resending issues a new link and the
+// previous one stops working. Consent and payment progress are kept.
+async function resendLink(supabase: SupabaseClient, enrollment: WebhookEnrollment): Promise<ActionResult> {
+  if (enrollment.needs_attention_at) {
+    return { status: 409, body: { error: "Checkout is closed after repeated failed payments. Regenerate the link from the dashboard." } };
+  }
+  if (enrollment.status === "expired" || new Date(enrollment.expires_at) < new Date()) {
+    return { status: 409, body: { error: "The link has expired. Update its expiry first." } };
+  }
+  if (!resendableStatuses.includes(enrollment.status)) {
+    return { status: 409, body: { error: `Cannot resend the link of an enrollment with status '${enrollment.status}'` } };
+  }
+
+  const rawToken = generateSecureToken(32);
+  const tokenLast4 = rawToken.slice(-4);
+  const { data: updated, error: updateError } = await supabase
+    .from("enrollments")
+    .update({
+      token_hash: await sha256Hash(rawToken),
+      token_last4: tokenLast4,
+      ...(enrollment.status === "created" && { status: "sent" }),
+    })
+    .eq("id", enrollment.id)
+    .in("status", resendableStatuses)
+    .select("id")
+    .maybeSingle();
+
+  if (updateError) {
+    throw new Error(`Failed to issue a new link for enrollment ${enrollment.id}: ${updateError.message}`);
+  }
+  if (!updated) {
+    return { status: 409, body: { error: "The enrollment changed while resending the link. Try again." } };
+  }
+
+  const appUrl = (Deno.env.get("APP_URL") || "https://secure-enrollment-flow.lovable.app").replace(/\/+$/, "");
+  const enrollmentUrl = `${appUrl}/enroll/${rawToken}`;
+
+  const emailSent = enrollment.patient_email
+    ? await sendEnrollmentLinkEmail({
+        patientName: enrollment.patient_name || "Valued Patient",
+        patientEmail: enrollment.patient_email,
+        amountCents: enrollment.amount_cents,
+        currency: enrollment.currency || "usd",
+        enrollmentUrl,
+        expiresAt: enrollment.expires_at,
+        enrollmentId: enrollment.id,
+      })
+    : false;
+
+  await supabase.from("enrollment_events").insert({
+    enrollment_id: enrollment.id,
+    event_type: "link_resent",
+    event_data: {
+      source: "zoho_crm",
+      zoho_record_id: enrollment.zoho_record_id,
+      token_last4: tokenLast4,
+      email_sent: emailSent,
+    },
+  });
+
+  await queueZohoUpdate(supabase, enrollment, {
+    enrollment_link: enrollmentUrl,
+    token_last4: tokenLast4,
+  });
+  await queueZohoNote(
+    supabase,
+    enrollment,
+    "Enrollment Link Resent",
+    `${emailSent ? `New enrollment link emailed to ${enrollment.patient_email}` : "New enrollment link issued (not emailed)"}. The previous link no longer works.`
+  );
+
+  console.log(`Resent link for enrollment ${enrollment.id} from Zoho record ${enrollment.zoho_record_id}`);
+  return {
+    status: 200,
+    body: {
+      success: true,
+      action: "resend_link",
+      enrollment_id: enrollment.id,
+      enrollment_url: enrollmentUrl,
+      expires_at: enrollment.expires_at,
+      token_last4: tokenLast4,
+      email_sent: emailSent,
+    },
+  };
+}
+
+// Inbound calls from Zoho workflows to cancel, update or resend an enrollment.
+// Requests are signed like create-enrollment's HMAC auth, with their own secret,
+// and each signature is accepted once.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+  );
+
+  let claimedSignature: string | null = null;
+
+  try {
+    const secret = Deno.env.get("ZOHO_WEBHOOK_SECRET");
+    if (!secret) {
+      throw new Error("ZOHO_WEBHOOK_SECRET not configured");
+    }
+
+    const bodyText = await req.text();
+    const signature = req.headers.get("x-hmac-signature");
+    const timestamp = req.headers.get("x-hmac-timestamp");
+
+    if (!signature || !timestamp) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const timestampAge = Date.now() - parseInt(timestamp, 10);
+    if (!Number.isFinite(timestampAge) || Math.abs(timestampAge) > MAX_TIMESTAMP_AGE_MS) {
+      return new Response(JSON.stringify({ error: "Request timestamp expired" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (!(await validateHmac(bodyText, signature, timestamp, secret))) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    let body: ZohoWebhookRequest;
+    try {
+      body = JSON.parse(bodyText);
+    } catch {
+      return new Response(JSON.stringify({ error: "Invalid JSON body" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (!ACTIONS.includes(body.action)) {
+      return new Response(JSON.stringify({ error: `action must be one of ${ACTIONS.join(", ")}` }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (!body.zoho_record_id && !body.enrollment_id) {
+      return new Response(JSON.stringify({ error: "zoho_record_id or enrollment_id is required" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Accept each signed request once
+    const { error: claimError } = await supabase
+      .from("processed_zoho_webhooks")
+      .insert({ signature, action: body.action });
+
+    if (claimError?.code === "23505") {
+      console.log(`Zoho webhook ${body.action} already processed, skipping`);
+      return new Response(JSON.stringify({ success: true, duplicate: true }), {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    if (claimError) {
+      throw new Error(`Failed to record Zoho webhook: ${claimError.message}`);
+    }
+    claimedSignature = signature;
+
+    // The record's latest enrollment, as create-enrollment reuses it
+    let query = supabase
+      .from("enrollments")
+      .select("id, status, amount_cents, currency, expires_at, opened_at, terms_accepted_at, needs_attention_at, policy_id, patient_name, patient_email, zoho_module, zoho_record_id");
+    if (body.enrollment_id) query = query.eq("id", body.enrollment_id);
+    if (body.zoho_record_id) query = query.eq("zoho_record_id", body.zoho_record_id);
+
+    const { data: enrollment, error: fetchError } = await query
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (fetchError) {
+      throw new Error(`Failed to load enrollment: ${fetchError.message}`);
+    }
+    if (!enrollment) {
+      await releaseClaim(supabase, signature);
+      return new Response(JSON.stringify({ error: "Enrollment not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    await supabase
+      .from("processed_zoho_webhooks")
+      .update({ enrollment_id: enrollment.id })
+      .eq("signature", signature);
+
+    console.log(`Zoho webhook ${body.action} for enrollment ${enrollment.id} (Zoho record ${enrollment.zoho_record_id})`);
+
+    const result = body.action === "cancel"
+      ? await cancelEnrollment(supabase, enrollment, body)
+      : body.action === "update"
+      ? await updateEnrollment(supabase, enrollment, body)
+      : await resendLink(supabase, enrollment);
+
+    if (result.status >= 300) {
+      await releaseClaim(supabase, signature);
+    }
+
+    return new Response(JSON.stringify(result.body), {
+      status: result.status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  } catch (error) {
+    console.error("Error in zoho-webhook:", error);
+    if (claimedSignature) {
+      await releaseClaim(supabase, claimedSignature);
+    }
+    return new Response(JSON.stringify({
+      error: error instanceof Error ? error.message : "Internal server error"
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
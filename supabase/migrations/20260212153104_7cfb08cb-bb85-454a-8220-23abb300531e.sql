@@ -0,0 +1,4 @@
+
+-- Add refund lifecycle states to enrollment_status
+ALTER TYPE public.enrollment_status ADD VALUE IF NOT EXISTS 'partially_refunded';
+ALTER TYPE public.enrollment_status ADD VALUE IF NOT EXISTS 'refunded';
@@ -0,0 +1,54 @@
+
+-- Track refunded totals on the enrollment itself
+ALTER TABLE public.enrollments
+ADD COLUMN refunded_amount_cents integer NOT NULL DEFAULT 0,
+ADD COLUMN refunded_at timestamptz;
+
+-- Individual refunds issued against an enrollment (dashboard or Stripe)
+CREATE TABLE public.enrollment_refunds (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  enrollment_id UUID NOT NULL REFERENCES public.enrollments(id) ON DELETE CASCADE,
+  stripe_refund_id TEXT NOT NULL UNIQUE,
+  amount_cents INTEGER NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'usd',
+  reason TEXT,
+  note TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  source TEXT NOT NULL DEFAULT 'admin_dashboard',
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.enrollment_refunds ENABLE ROW LEVEL SECURITY;
+
+-- Admins can view refunds; all writes go through edge functions (service role)
+CREATE POLICY "Admins can view enrollment_refunds"
+ON public.enrollment_refunds
+FOR SELECT
+TO authenticated
+USING (is_admin(auth.uid()));
+
+CREATE POLICY "Deny public insert to enrollment_refunds"
+ON public.enrollment_refunds
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Deny public update to enrollment_refunds"
+ON public.enrollment_refunds
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Deny public delete to enrollment_refunds"
+ON public.enrollment_refunds
+FOR DELETE
+USING (false);
+
+CREATE INDEX idx_enrollment_refunds_enrollment_id ON public.enrollment_refunds(enrollment_id);
+
+CREATE TRIGGER update_enrollment_refunds_updated_at
+BEFORE UPDATE ON public.enrollment_refunds
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,3 @@
+
+-- Add reversed state for ACH debits returned after the enrollment was marked paid
+ALTER TYPE public.enrollment_status ADD VALUE IF NOT EXISTS 'reversed';
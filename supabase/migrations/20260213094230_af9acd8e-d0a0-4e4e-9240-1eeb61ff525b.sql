@@ -0,0 +1,4 @@
+
+-- Track when a settled payment was reversed (ACH return or bank dispute)
+ALTER TABLE public.enrollments
+ADD COLUMN reversed_at timestamptz;
@@ -0,0 +1,3 @@
+
+-- Add disputed state for chargebacks awaiting resolution
+ALTER TYPE public.enrollment_status ADD VALUE IF NOT EXISTS 'disputed';
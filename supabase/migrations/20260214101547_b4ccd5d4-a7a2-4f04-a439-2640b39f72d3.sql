@@ -0,0 +1,57 @@
+
+-- Track when an enrollment's payment was disputed
+ALTER TABLE public.enrollments
+ADD COLUMN disputed_at timestamptz;
+
+-- Chargebacks opened against an enrollment, with the evidence bundle we assembled for them
+CREATE TABLE public.enrollment_disputes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  enrollment_id UUID NOT NULL REFERENCES public.enrollments(id) ON DELETE CASCADE,
+  stripe_dispute_id TEXT NOT NULL UNIQUE,
+  stripe_charge_id TEXT NOT NULL,
+  amount_cents INTEGER NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'usd',
+  reason TEXT,
+  status TEXT NOT NULL,
+  evidence_due_by TIMESTAMP WITH TIME ZONE,
+  evidence JSONB,
+  evidence_notes TEXT,
+  evidence_submitted_at TIMESTAMP WITH TIME ZONE,
+  evidence_submitted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  evidence_submitted_by_email TEXT,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.enrollment_disputes ENABLE ROW LEVEL SECURITY;
+
+-- Admins can view disputes; all writes go through edge functions (service role)
+CREATE POLICY "Admins can view enrollment_disputes"
+ON public.enrollment_disputes
+FOR SELECT
+TO authenticated
+USING (is_admin(auth.uid()));
+
+CREATE POLICY "Deny public insert to enrollment_disputes"
+ON public.enrollment_disputes
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Deny public update to enrollment_disputes"
+ON public.enrollment_disputes
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Deny public delete to enrollment_disputes"
+ON public.enrollment_disputes
+FOR DELETE
+USING (false);
+
+CREATE INDEX idx_enrollment_disputes_enrollment_id ON public.enrollment_disputes(enrollment_id);
+
+CREATE TRIGGER update_enrollment_disputes_updated_at
+BEFORE UPDATE ON public.enrollment_disputes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,2 @@
+-- Add status for enrollments whose deposit is paid but installments remain outstanding
+ALTER TYPE public.enrollment_status ADD VALUE IF NOT EXISTS 'partially_paid';
@@ -0,0 +1,60 @@
+
+-- Saved payment method used to charge later installments off-session
+ALTER TABLE public.enrollments
+ADD COLUMN stripe_payment_method_id text;
+
+CREATE TYPE public.installment_status AS ENUM ('scheduled', 'processing', 'paid', 'failed', 'canceled');
+
+-- Payment schedule for an enrollment: sequence 1 is paid at checkout, the rest are charged off-session
+CREATE TABLE public.enrollment_installments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  enrollment_id UUID NOT NULL REFERENCES public.enrollments(id) ON DELETE CASCADE,
+  sequence INTEGER NOT NULL,
+  amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+  currency TEXT NOT NULL DEFAULT 'usd',
+  due_date DATE NOT NULL,
+  status public.installment_status NOT NULL DEFAULT 'scheduled',
+  stripe_payment_intent_id TEXT UNIQUE,
+  attempt_count INTEGER NOT NULL DEFAULT 0,
+  last_attempt_at TIMESTAMP WITH TIME ZONE,
+  next_retry_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  paid_at TIMESTAMP WITH TIME ZONE,
+  failed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (enrollment_id, sequence)
+);
+
+-- Enable RLS
+ALTER TABLE public.enrollment_installments ENABLE ROW LEVEL SECURITY;
+
+-- Admins can view installments; all writes go through edge functions (service role)
+CREATE POLICY "Admins can view enrollment_installments"
+ON public.enrollment_installments
+FOR SELECT
+TO authenticated
+USING (is_admin(auth.uid()));
+
+CREATE POLICY "Deny public insert to enrollment_installments"
+ON public.enrollment_installments
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Deny public update to enrollment_installments"
+ON public.enrollment_installments
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Deny public delete to enrollment_installments"
+ON public.enrollment_installments
+FOR DELETE
+USING (false);
+
+CREATE INDEX idx_enrollment_installments_enrollment_id ON public.enrollment_installments(enrollment_id);
+CREATE INDEX idx_enrollment_installments_due ON public.enrollment_installments(status, due_date);
+
+CREATE TRIGGER update_enrollment_installments_updated_at
+BEFORE UPDATE ON public.enrollment_installments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
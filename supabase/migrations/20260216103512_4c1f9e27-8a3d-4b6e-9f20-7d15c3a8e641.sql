@@ -0,0 +1,82 @@
+
+-- Catalog of billable products (consultation deposit, procedure deposit, add-ons)
+CREATE TABLE public.products (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  sku TEXT UNIQUE,
+  category TEXT NOT NULL DEFAULT 'other' CHECK (category IN ('consultation', 'procedure', 'add_on', 'other')),
+  unit_amount_cents INTEGER NOT NULL CHECK (unit_amount_cents > 0),
+  currency TEXT NOT NULL DEFAULT 'usd',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.products ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies - admins only
+CREATE POLICY "Admins can view products" ON public.products
+FOR SELECT USING (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can insert products" ON public.products
+FOR INSERT WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can update products" ON public.products
+FOR UPDATE USING (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can delete products" ON public.products
+FOR DELETE USING (is_admin(auth.uid()));
+
+CREATE INDEX idx_products_is_active ON public.products(is_active) WHERE is_active = true;
+
+CREATE TRIGGER update_products_updated_at
+BEFORE UPDATE ON public.products
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- What an enrollment charges for. Name and price are copied from the catalog
+-- so later catalog edits never change what the patient agreed to.
+CREATE TABLE public.enrollment_line_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  enrollment_id UUID NOT NULL REFERENCES public.enrollments(id) ON DELETE CASCADE,
+  product_id UUID REFERENCES public.products(id) ON DELETE SET NULL,
+  position INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  unit_amount_cents INTEGER NOT NULL CHECK (unit_amount_cents > 0),
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (enrollment_id, position)
+);
+
+-- Enable RLS
+ALTER TABLE public.enrollment_line_items ENABLE ROW LEVEL SECURITY;
+
+-- Admins can view line items; all writes go through edge functions (service role)
+CREATE POLICY "Admins can view enrollment_line_items"
+ON public.enrollment_line_items
+FOR SELECT
+TO authenticated
+USING (is_admin(auth.uid()));
+
+CREATE POLICY "Deny public insert to enrollment_line_items"
+ON public.enrollment_line_items
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Deny public update to enrollment_line_items"
+ON public.enrollment_line_items
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Deny public delete to enrollment_line_items"
+ON public.enrollment_line_items
+FOR DELETE
+USING (false);
+
+CREATE INDEX idx_enrollment_line_items_enrollment_id ON public.enrollment_line_items(enrollment_id);
+CREATE INDEX idx_enrollment_line_items_product_id ON public.enrollment_line_items(product_id);
@@ -0,0 +1,116 @@
+
+-- One row per run of the reconcile-payments job over a date range
+CREATE TABLE public.reconciliation_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  triggered_by UUID,
+  triggered_by_email TEXT, -- null for scheduled runs
+  summary JSONB NOT NULL DEFAULT '{}'::jsonb, -- Counts plus gross, fee, net, refund and payout totals
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (period_end > period_start)
+);
+
+-- Enable RLS
+ALTER TABLE public.reconciliation_runs ENABLE ROW LEVEL SECURITY;
+
+-- Admins can view runs; runs are written by the reconcile-payments function (service role)
+CREATE POLICY "Admins can view reconciliation_runs"
+ON public.reconciliation_runs
+FOR SELECT
+TO authenticated
+USING (is_admin(auth.uid()));
+
+CREATE POLICY "Deny public insert to reconciliation_runs"
+ON public.reconciliation_runs
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Deny public update to reconciliation_runs"
+ON public.reconciliation_runs
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Deny public delete to reconciliation_runs"
+ON public.reconciliation_runs
+FOR DELETE
+USING (false);
+
+CREATE INDEX idx_reconciliation_runs_started_at ON public.reconciliation_runs(started_at DESC);
+
+-- A disagreement between Stripe and the enrollment records. The fingerprint
+-- identifies the underlying problem, so overlapping runs report it only once.
+CREATE TABLE public.reconciliation_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  run_id UUID NOT NULL REFERENCES public.reconciliation_runs(id) ON DELETE CASCADE,
+  last_seen_run_id UUID REFERENCES public.reconciliation_runs(id) ON DELETE SET NULL,
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  fingerprint TEXT NOT NULL UNIQUE,
+  discrepancy_type TEXT NOT NULL CHECK (discrepancy_type IN (
+    'paid_not_recorded',  -- Stripe collected the money, the enrollment is not marked paid
+    'recorded_not_paid',  -- Marked paid locally, no successful charge in Stripe
+    'amount_mismatch',    -- Charged amount differs from what the enrollment expects
+    'unmatched_charge',   -- Stripe charge that matches no enrollment
+    'payout_failed'       -- Payout to the bank failed or was canceled
+  )),
+  enrollment_id UUID REFERENCES public.enrollments(id) ON DELETE SET NULL,
+  installment_id UUID REFERENCES public.enrollment_installments(id) ON DELETE SET NULL,
+  stripe_object_id TEXT, -- Balance transaction, payment intent or payout
+  stripe_payment_intent_id TEXT,
+  local_status TEXT,
+  expected_amount_cents INTEGER,
+  actual_amount_cents INTEGER,
+  fee_cents INTEGER,
+  net_cents INTEGER,
+  currency TEXT NOT NULL DEFAULT 'usd',
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'ignored')),
+  resolution_note TEXT,
+  resolved_by UUID,
+  resolved_by_email TEXT,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.reconciliation_items ENABLE ROW LEVEL SECURITY;
+
+-- Items are created by the job; staff resolve them from the admin dashboard
+CREATE POLICY "Admins can view reconciliation_items"
+ON public.reconciliation_items
+FOR SELECT
+TO authenticated
+USING (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can update reconciliation_items"
+ON public.reconciliation_items
+FOR UPDATE
+TO authenticated
+USING (
+  has_admin_role(auth.uid(), 'admin'::admin_role)
+  OR has_admin_role(auth.uid(), 'super_admin'::admin_role)
+);
+
+CREATE POLICY "Deny public insert to reconciliation_items"
+ON public.reconciliation_items
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Deny public delete to reconciliation_items"
+ON public.reconciliation_items
+FOR DELETE
+USING (false);
+
+CREATE INDEX idx_reconciliation_items_status ON public.reconciliation_items(status);
+CREATE INDEX idx_reconciliation_items_run_id ON public.reconciliation_items(run_id);
+CREATE INDEX idx_reconciliation_items_enrollment_id ON public.reconciliation_items(enrollment_id);
+
+CREATE TRIGGER update_reconciliation_items_updated_at
+BEFORE UPDATE ON public.reconciliation_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,57 @@
+
+-- Every verified webhook event with its payload and how handling went.
+-- processed_stripe_events stays the idempotency record and is only written
+-- once an event has been handled successfully.
+CREATE TABLE public.webhook_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  provider TEXT NOT NULL,
+  event_id TEXT NOT NULL UNIQUE,
+  event_type TEXT NOT NULL,
+  kind TEXT, -- Normalized event kind; null when the flow does not handle the event
+  enrollment_id UUID REFERENCES public.enrollments(id) ON DELETE SET NULL,
+  payload JSONB NOT NULL, -- The verified event exactly as the provider sent it
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'succeeded', 'skipped', 'failed')),
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  duration_ms INTEGER,
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  processed_at TIMESTAMP WITH TIME ZONE,
+  last_replayed_at TIMESTAMP WITH TIME ZONE,
+  last_replayed_by_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- Admins can view events; all writes go through edge functions (service role)
+CREATE POLICY "Admins can view webhook_events"
+ON public.webhook_events
+FOR SELECT
+TO authenticated
+USING (is_admin(auth.uid()));
+
+CREATE POLICY "Deny public insert to webhook_events"
+ON public.webhook_events
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Deny public update to webhook_events"
+ON public.webhook_events
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Deny public delete to webhook_events"
+ON public.webhook_events
+FOR DELETE
+USING (false);
+
+CREATE INDEX idx_webhook_events_enrollment_id ON public.webhook_events(enrollment_id);
+CREATE INDEX idx_webhook_events_status ON public.webhook_events(status);
+CREATE INDEX idx_webhook_events_received_at ON public.webhook_events(received_at DESC);
+
+CREATE TRIGGER update_webhook_events_updated_at
+BEFORE UPDATE ON public.webhook_events
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,5 @@
+
+-- Offline payment methods recorded by admins
+ALTER TYPE public.payment_method_type ADD VALUE IF NOT EXISTS 'check';
+ALTER TYPE public.payment_method_type ADD VALUE IF NOT EXISTS 'wire';
+ALTER TYPE public.payment_method_type ADD VALUE IF NOT EXISTS 'cash';
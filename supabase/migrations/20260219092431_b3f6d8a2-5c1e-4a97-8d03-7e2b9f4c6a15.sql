@@ -0,0 +1,61 @@
+
+-- Payments received outside Stripe (check, wire, cash) and recorded by an admin
+CREATE TABLE public.enrollment_offline_payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  enrollment_id UUID NOT NULL REFERENCES public.enrollments(id) ON DELETE CASCADE,
+  method TEXT NOT NULL CHECK (method IN ('check', 'wire', 'cash')),
+  amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+  currency TEXT NOT NULL DEFAULT 'usd',
+  reference_number TEXT, -- Check number or wire confirmation
+  received_date DATE NOT NULL,
+  proof_path TEXT, -- Object path in the payment-proofs bucket
+  note TEXT,
+  recorded_by UUID,
+  recorded_by_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.enrollment_offline_payments ENABLE ROW LEVEL SECURITY;
+
+-- Admins can view offline payments; all writes go through edge functions (service role)
+CREATE POLICY "Admins can view enrollment_offline_payments"
+ON public.enrollment_offline_payments
+FOR SELECT
+TO authenticated
+USING (is_admin(auth.uid()));
+
+CREATE POLICY "Deny public insert to enrollment_offline_payments"
+ON public.enrollment_offline_payments
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Deny public update to enrollment_offline_payments"
+ON public.enrollment_offline_payments
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Deny public delete to enrollment_offline_payments"
+ON public.enrollment_offline_payments
+FOR DELETE
+USING (false);
+
+CREATE INDEX idx_enrollment_offline_payments_enrollment_id ON public.enrollment_offline_payments(enrollment_id);
+
+-- Scans of checks, wire confirmations and cash receipts
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('payment-proofs', 'payment-proofs', false);
+
+-- Admins upload the proof before recording the payment
+CREATE POLICY "Admins can upload payment proofs"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'payment-proofs'
+  AND (public.has_admin_role(auth.uid(), 'admin'::admin_role) OR public.has_admin_role(auth.uid(), 'super_admin'::admin_role))
+);
+
+-- Admins can view payment proofs
+CREATE POLICY "Admins can view payment proofs"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'payment-proofs' AND public.is_admin(auth.uid()));
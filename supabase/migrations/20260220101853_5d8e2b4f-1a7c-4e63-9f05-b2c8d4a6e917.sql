@@ -0,0 +1,56 @@
+
+-- Which payment methods an enrollment offers. Wallets (Apple Pay, Google Pay)
+-- are card payments and need 'card' as well.
+ALTER TABLE public.enrollments
+ADD COLUMN allowed_payment_methods TEXT[] NOT NULL DEFAULT ARRAY['card', 'ach', 'wallet'],
+ADD COLUMN payment_adjustment_cents INTEGER, -- Surcharge (positive) or discount (negative) on the checkout charge
+ADD COLUMN payment_adjustment_label TEXT;
+
+ALTER TABLE public.enrollments
+ADD CONSTRAINT enrollments_allowed_payment_methods_check
+CHECK (
+  cardinality(allowed_payment_methods) > 0
+  AND allowed_payment_methods <@ ARRAY['card', 'ach', 'wallet']
+  AND (NOT 'wallet' = ANY(allowed_payment_methods) OR 'card' = ANY(allowed_payment_methods))
+);
+
+-- Surcharges and discounts by payment method, applied to the amount charged at checkout
+CREATE TABLE public.payment_method_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL, -- Line item label shown to the patient
+  payment_method TEXT NOT NULL CHECK (payment_method IN ('card', 'ach')),
+  adjustment_type TEXT NOT NULL CHECK (adjustment_type IN ('surcharge', 'discount')),
+  percent_bps INTEGER NOT NULL DEFAULT 0 CHECK (percent_bps >= 0 AND percent_bps <= 10000), -- 300 = 3%
+  fixed_cents INTEGER NOT NULL DEFAULT 0 CHECK (fixed_cents >= 0),
+  min_amount_cents INTEGER CHECK (min_amount_cents >= 0),
+  max_amount_cents INTEGER CHECK (max_amount_cents >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (percent_bps > 0 OR fixed_cents > 0),
+  CHECK (min_amount_cents IS NULL OR max_amount_cents IS NULL OR min_amount_cents <= max_amount_cents)
+);
+
+-- Enable RLS
+ALTER TABLE public.payment_method_rules ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies - admins only
+CREATE POLICY "Admins can view payment_method_rules" ON public.payment_method_rules
+FOR SELECT USING (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can insert payment_method_rules" ON public.payment_method_rules
+FOR INSERT WITH CHECK (public.has_admin_role(auth.uid(), 'admin'::admin_role) OR public.has_admin_role(auth.uid(), 'super_admin'::admin_role));
+
+CREATE POLICY "Admins can update payment_method_rules" ON public.payment_method_rules
+FOR UPDATE USING (public.has_admin_role(auth.uid(), 'admin'::admin_role) OR public.has_admin_role(auth.uid(), 'super_admin'::admin_role));
+
+CREATE POLICY "Admins can delete payment_method_rules" ON public.payment_method_rules
+FOR DELETE USING (public.has_admin_role(auth.uid(), 'admin'::admin_role) OR public.has_admin_role(auth.uid(), 'super_admin'::admin_role));
+
+CREATE INDEX idx_payment_method_rules_is_active ON public.payment_method_rules(is_active) WHERE is_active = true;
+
+CREATE TRIGGER update_payment_method_rules_updated_at
+BEFORE UPDATE ON public.payment_method_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
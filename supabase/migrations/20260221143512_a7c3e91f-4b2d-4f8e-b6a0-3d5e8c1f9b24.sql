@@ -0,0 +1,20 @@
+
+-- Normalized details of the checkout payment, stored by stripe-webhook so
+-- support can answer payment questions without opening Stripe
+ALTER TABLE public.enrollments
+ADD COLUMN stripe_charge_id TEXT,
+ADD COLUMN payment_card_brand TEXT, -- visa, mastercard, amex, ...
+ADD COLUMN payment_bank_name TEXT,
+ADD COLUMN payment_last4 TEXT,
+ADD COLUMN payment_gross_cents INTEGER,
+ADD COLUMN payment_fee_cents INTEGER, -- NULL until the funds settle
+ADD COLUMN payment_net_cents INTEGER,
+ADD COLUMN payment_receipt_url TEXT,
+ADD COLUMN payment_risk_level TEXT, -- Radar: normal, elevated, highest, not_assessed
+ADD COLUMN payment_billing_address JSONB;
+
+-- Fees on off-session installment charges, for net revenue
+ALTER TABLE public.enrollment_installments
+ADD COLUMN fee_cents INTEGER,
+ADD COLUMN net_cents INTEGER,
+ADD COLUMN receipt_url TEXT;
@@ -0,0 +1,14 @@
+
+-- Mailing address for patients, filled from the billing address collected at
+-- checkout so coordinators don't have to ask for it again
+ALTER TABLE public.patients
+ADD COLUMN address_line1 TEXT,
+ADD COLUMN address_line2 TEXT,
+ADD COLUMN city TEXT,
+ADD COLUMN state TEXT,
+ADD COLUMN postal_code TEXT,
+ADD COLUMN country TEXT, -- ISO 3166-1 alpha-2
+-- Where each field's value came from, keyed by column name:
+-- {"address_line1": {"source": "stripe_checkout", "updated_at": "...", "enrollment_id": "...", "previous": null}}
+-- Sources rank enrollment < stripe_checkout < admin; a lower source never overwrites a higher one
+ADD COLUMN field_sources JSONB NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,20 @@
+
+-- Third-party payer: someone other than the patient (partner, family member)
+-- pays on their own link after the patient signs the medical consent
+ALTER TABLE public.enrollments
+ADD COLUMN payer_name TEXT,
+ADD COLUMN payer_email TEXT, -- Set means the enrollment has a third-party payer
+ADD COLUMN payer_phone TEXT,
+ADD COLUMN payer_relationship TEXT,
+ADD COLUMN payer_token_hash TEXT, -- Issued when the patient signs
+ADD COLUMN payer_token_last4 TEXT,
+ADD COLUMN payer_link_sent_at TIMESTAMPTZ,
+ADD COLUMN payer_acknowledged_at TIMESTAMPTZ,
+ADD COLUMN payer_acknowledge_ip TEXT,
+ADD COLUMN payer_acknowledge_user_agent TEXT,
+ADD COLUMN payer_acknowledgement_text TEXT, -- Exactly what the payer agreed to
+ADD COLUMN payer_signature_data TEXT;
+
+CREATE UNIQUE INDEX idx_enrollments_payer_token_hash
+ON public.enrollments(payer_token_hash)
+WHERE payer_token_hash IS NOT NULL;
@@ -0,0 +1,67 @@
+
+CREATE TYPE public.enrollment_payment_status AS ENUM ('pending', 'processing', 'succeeded', 'failed', 'canceled', 'reversed');
+
+-- Checkout payments toward an enrollment without a payment plan. The patient can
+-- split the amount across several cards or bank accounts; the enrollment is paid
+-- once the succeeded payments cover amount_cents.
+CREATE TABLE public.enrollment_payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  enrollment_id UUID NOT NULL REFERENCES public.enrollments(id) ON DELETE CASCADE,
+  amount_cents INTEGER NOT NULL CHECK (amount_cents > 0), -- Applied to the enrollment balance
+  adjustment_cents INTEGER, -- Card surcharge (+) or ACH discount (-) charged on top
+  adjustment_label TEXT,
+  currency TEXT NOT NULL DEFAULT 'usd',
+  status public.enrollment_payment_status NOT NULL DEFAULT 'pending',
+  payment_method_type public.payment_method_type,
+  stripe_session_id TEXT UNIQUE,
+  stripe_payment_intent_id TEXT UNIQUE,
+  stripe_charge_id TEXT,
+  card_brand TEXT,
+  bank_name TEXT,
+  last4 TEXT,
+  fee_cents INTEGER,
+  net_cents INTEGER,
+  receipt_url TEXT,
+  refunded_cents INTEGER NOT NULL DEFAULT 0,
+  failure_message TEXT,
+  paid_at TIMESTAMP WITH TIME ZONE,
+  failed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.enrollment_payments ENABLE ROW LEVEL SECURITY;
+
+-- Admins can view payments; all writes go through edge functions (service role)
+CREATE POLICY "Admins can view enrollment_payments"
+ON public.enrollment_payments
+FOR SELECT
+TO authenticated
+USING (is_admin(auth.uid()));
+
+CREATE POLICY "Deny public insert to enrollment_payments"
+ON public.enrollment_payments
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Deny public update to enrollment_payments"
+ON public.enrollment_payments
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Deny public delete to enrollment_payments"
+ON public.enrollment_payments
+FOR DELETE
+USING (false);
+
+CREATE INDEX idx_enrollment_payments_enrollment_id ON public.enrollment_payments(enrollment_id);
+
+CREATE TRIGGER update_enrollment_payments_updated_at
+BEFORE UPDATE ON public.enrollment_payments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Which payment a refund went back to, when the enrollment was paid in parts
+ALTER TABLE public.enrollment_refunds
+ADD COLUMN enrollment_payment_id UUID REFERENCES public.enrollment_payments(id);
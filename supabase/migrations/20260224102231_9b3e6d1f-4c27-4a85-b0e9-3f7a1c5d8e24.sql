@@ -0,0 +1,118 @@
+
+-- Promo codes patients can enter on their enrollment link before paying
+CREATE TABLE public.promo_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE CHECK (code ~ '^[A-Z0-9_-]{3,32}$'), -- Stored uppercase; matched case-insensitively
+  description TEXT, -- Internal note, e.g. the campaign
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+  percent_bps INTEGER CHECK (percent_bps > 0 AND percent_bps <= 10000), -- 1000 = 10%
+  amount_off_cents INTEGER CHECK (amount_off_cents > 0),
+  currency TEXT NOT NULL DEFAULT 'usd', -- Fixed amounts only apply to enrollments in this currency
+  valid_from TIMESTAMP WITH TIME ZONE,
+  valid_until TIMESTAMP WITH TIME ZONE,
+  max_uses INTEGER CHECK (max_uses > 0), -- Enrollments the code can be applied to; unlimited when null
+  -- A restricted code is only valid for that surgeon's patients, or on enrollments
+  -- that include the product (and then only discounts that product's items)
+  surgeon_id UUID REFERENCES public.surgeons(id) ON DELETE CASCADE,
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (
+    (discount_type = 'percent' AND percent_bps IS NOT NULL AND amount_off_cents IS NULL)
+    OR (discount_type = 'fixed' AND amount_off_cents IS NOT NULL AND percent_bps IS NULL)
+  ),
+  CHECK (valid_from IS NULL OR valid_until IS NULL OR valid_from < valid_until)
+);
+
+-- The applied code is kept on the enrollment. amount_cents is what the patient
+-- owes after the discount; amount_cents + promo_discount_cents is the list price.
+ALTER TABLE public.enrollments
+ADD COLUMN promo_code_id UUID REFERENCES public.promo_codes(id) ON DELETE SET NULL,
+ADD COLUMN promo_code TEXT, -- Snapshot of the code as applied
+ADD COLUMN promo_discount_cents INTEGER CHECK (promo_discount_cents > 0),
+ADD COLUMN promo_applied_at TIMESTAMP WITH TIME ZONE;
+
+-- Enable RLS
+ALTER TABLE public.promo_codes ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies - admins only. Patients' codes are checked by create-checkout-session.
+CREATE POLICY "Admins can view promo_codes" ON public.promo_codes
+FOR SELECT USING (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can insert promo_codes" ON public.promo_codes
+FOR INSERT WITH CHECK (public.has_admin_role(auth.uid(), 'admin'::admin_role) OR public.has_admin_role(auth.uid(), 'super_admin'::admin_role));
+
+CREATE POLICY "Admins can update promo_codes" ON public.promo_codes
+FOR UPDATE USING (public.has_admin_role(auth.uid(), 'admin'::admin_role) OR public.has_admin_role(auth.uid(), 'super_admin'::admin_role));
+
+CREATE POLICY "Admins can delete promo_codes" ON public.promo_codes
+FOR DELETE USING (public.has_admin_role(auth.uid(), 'admin'::admin_role) OR public.has_admin_role(auth.uid(), 'super_admin'::admin_role));
+
+CREATE INDEX idx_enrollments_promo_code_id ON public.enrollments(promo_code_id) WHERE promo_code_id IS NOT NULL;
+
+CREATE TRIGGER update_promo_codes_updated_at
+BEFORE UPDATE ON public.promo_codes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Apply a checked promo code to an enrollment in one transaction, so two
+-- checkouts cannot both take a code's last use. Uses are the enrollments the
+-- code is applied to. On a payment plan the discount comes off the last
+-- installments first, leaving the deposit unchanged.
+CREATE OR REPLACE FUNCTION public.apply_promo_code(_enrollment_id UUID, _promo_code_id UUID, _discount_cents INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _promo public.promo_codes%ROWTYPE;
+  _installment RECORD;
+  _remaining INTEGER := _discount_cents;
+BEGIN
+  SELECT * INTO _promo FROM public.promo_codes WHERE id = _promo_code_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This promo code is not valid';
+  END IF;
+
+  IF _promo.max_uses IS NOT NULL
+    AND (SELECT count(*) FROM public.enrollments WHERE promo_code_id = _promo_code_id) >= _promo.max_uses THEN
+    RAISE EXCEPTION 'This promo code has reached its usage limit';
+  END IF;
+
+  UPDATE public.enrollments
+  SET amount_cents = amount_cents - _discount_cents,
+      promo_code_id = _promo.id,
+      promo_code = _promo.code,
+      promo_discount_cents = _discount_cents,
+      promo_applied_at = now()
+  WHERE id = _enrollment_id
+  AND promo_code IS NULL -- Kept when the code itself is deleted
+  AND amount_cents > _discount_cents;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'A promo code cannot be applied to this enrollment';
+  END IF;
+
+  FOR _installment IN
+    SELECT id, amount_cents FROM public.enrollment_installments
+    WHERE enrollment_id = _enrollment_id AND sequence > 1 AND status = 'scheduled'
+    ORDER BY sequence DESC
+  LOOP
+    EXIT WHEN _remaining = 0;
+    IF _installment.amount_cents <= _remaining THEN
+      UPDATE public.enrollment_installments SET status = 'canceled' WHERE id = _installment.id;
+      _remaining := _remaining - _installment.amount_cents;
+    ELSE
+      UPDATE public.enrollment_installments SET amount_cents = amount_cents - _remaining WHERE id = _installment.id;
+      _remaining := 0;
+    END IF;
+  END LOOP;
+
+  IF _remaining > 0 AND EXISTS (SELECT 1 FROM public.enrollment_installments WHERE enrollment_id = _enrollment_id) THEN
+    RAISE EXCEPTION 'This promo code is larger than the installments left on the payment plan';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_promo_code(UUID, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,11 @@
+
+-- Failed checkout payments. Each failure emails whoever pays a retry link,
+-- until MAX_PAYMENT_ATTEMPTS failures flag the enrollment for staff.
+ALTER TABLE public.enrollments
+ADD COLUMN failed_payment_attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN retry_token_hash TEXT, -- The retry link emailed after the last failure; the original link keeps working
+ADD COLUMN needs_attention_at TIMESTAMP WITH TIME ZONE, -- Checkout is closed until staff send a new link
+ADD COLUMN needs_attention_reason TEXT;
+
+CREATE INDEX idx_enrollments_retry_token_hash ON public.enrollments(retry_token_hash) WHERE retry_token_hash IS NOT NULL;
+CREATE INDEX idx_enrollments_needs_attention_at ON public.enrollments(needs_attention_at) WHERE needs_attention_at IS NOT NULL;
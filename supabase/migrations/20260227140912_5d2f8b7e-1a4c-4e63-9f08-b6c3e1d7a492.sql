@@ -0,0 +1,66 @@
+
+CREATE TYPE public.checkout_session_status AS ENUM ('creating', 'open', 'completed', 'expired', 'superseded', 'failed');
+
+-- Every checkout started for an enrollment: hosted sessions and embedded payment
+-- intents. At most one is live at a time; a matching open one is reused, and the
+-- rest are superseded and closed with the provider.
+CREATE TABLE public.enrollment_checkout_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY, -- Also the provider idempotency key
+  enrollment_id UUID NOT NULL REFERENCES public.enrollments(id) ON DELETE CASCADE,
+  enrollment_payment_id UUID REFERENCES public.enrollment_payments(id) ON DELETE SET NULL,
+  provider TEXT NOT NULL,
+  mode TEXT NOT NULL CHECK (mode IN ('hosted', 'embedded')),
+  status public.checkout_session_status NOT NULL DEFAULT 'creating',
+  request_hash TEXT NOT NULL, -- Amount, methods and items requested; an open session is reused only for the same request
+  amount_cents INTEGER NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'usd',
+  payment_method_types TEXT[] NOT NULL,
+  stripe_session_id TEXT UNIQUE, -- Hosted checkout
+  stripe_payment_intent_id TEXT UNIQUE, -- Embedded form, or a hosted session once paid
+  checkout_url TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  superseded_at TIMESTAMP WITH TIME ZONE,
+  -- A payment made on a superseded session anyway is refunded automatically
+  late_payment_refund_id TEXT,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Single flight: a second checkout for the enrollment waits for, reuses or replaces the live one
+CREATE UNIQUE INDEX idx_enrollment_checkout_sessions_live
+ON public.enrollment_checkout_sessions(enrollment_id)
+WHERE status IN ('creating', 'open');
+
+CREATE INDEX idx_enrollment_checkout_sessions_enrollment_id ON public.enrollment_checkout_sessions(enrollment_id);
+
+-- Enable RLS
+ALTER TABLE public.enrollment_checkout_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Admins can view sessions; all writes go through edge functions (service role)
+CREATE POLICY "Admins can view enrollment_checkout_sessions"
+ON public.enrollment_checkout_sessions
+FOR SELECT
+TO authenticated
+USING (is_admin(auth.uid()));
+
+CREATE POLICY "Deny public insert to enrollment_checkout_sessions"
+ON public.enrollment_checkout_sessions
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Deny public update to enrollment_checkout_sessions"
+ON public.enrollment_checkout_sessions
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Deny public delete to enrollment_checkout_sessions"
+ON public.enrollment_checkout_sessions
+FOR DELETE
+USING (false);
+
+CREATE TRIGGER update_enrollment_checkout_sessions_updated_at
+BEFORE UPDATE ON public.enrollment_checkout_sessions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,124 @@
+
+-- General ledger account for each kind of journal line in the accounting export
+CREATE TABLE public.accounting_accounts (
+  entry_type TEXT NOT NULL PRIMARY KEY CHECK (entry_type IN (
+    'stripe_clearing',    -- Stripe balance: net card and ACH payments in, refunds and dispute losses out
+    'undeposited_funds',  -- Checks, wires and cash recorded offline
+    'revenue',            -- Gross enrollment payments, including surcharges
+    'processing_fees',    -- Stripe fees
+    'refunds',            -- Refunds to the patient or payer
+    'dispute_losses'      -- Chargebacks lost
+  )),
+  account_name TEXT NOT NULL CHECK (length(trim(account_name)) > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.accounting_accounts (entry_type, account_name) VALUES
+  ('stripe_clearing', 'Stripe Clearing'),
+  ('undeposited_funds', 'Undeposited Funds'),
+  ('revenue', 'Enrollment Revenue'),
+  ('processing_fees', 'Merchant Processing Fees'),
+  ('refunds', 'Refunds'),
+  ('dispute_losses', 'Chargeback Losses');
+
+-- Class (QuickBooks) or department the surgeon's patients are posted to; the
+-- surgeon's name when unset
+ALTER TABLE public.surgeons
+ADD COLUMN accounting_class TEXT;
+
+-- One row per export generated from the dashboard, with the file as downloaded
+CREATE TABLE public.accounting_exports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  format TEXT NOT NULL CHECK (format IN ('csv', 'qbo_csv', 'iif')),
+  entry_count INTEGER NOT NULL,
+  line_count INTEGER NOT NULL,
+  totals JSONB NOT NULL DEFAULT '{}'::jsonb, -- Debits and credits per entry type and currency
+  content TEXT NOT NULL,
+  exported_by UUID,
+  exported_by_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (period_end > period_start)
+);
+
+-- Payments, refunds and disputes already exported, so the next export skips
+-- them. Deleting an export releases its items to be exported again.
+CREATE TABLE public.accounting_export_items (
+  source_type TEXT NOT NULL CHECK (source_type IN (
+    'enrollment',          -- Checkout payment recorded on the enrollment itself
+    'enrollment_payment',  -- One of several payments toward a split enrollment
+    'installment',         -- Off-session payment plan installment
+    'offline_payment',
+    'refund',
+    'dispute'              -- Lost chargeback
+  )),
+  source_id UUID NOT NULL,
+  export_id UUID NOT NULL REFERENCES public.accounting_exports(id) ON DELETE CASCADE,
+  enrollment_id UUID REFERENCES public.enrollments(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (source_type, source_id)
+);
+
+CREATE INDEX idx_accounting_exports_created_at ON public.accounting_exports(created_at DESC);
+CREATE INDEX idx_accounting_export_items_export_id ON public.accounting_export_items(export_id);
+
+-- Enable RLS
+ALTER TABLE public.accounting_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.accounting_exports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.accounting_export_items ENABLE ROW LEVEL SECURITY;
+
+-- Account names are edited by admins; the set of entry types is fixed
+CREATE POLICY "Admins can view accounting_accounts" ON public.accounting_accounts
+FOR SELECT USING (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can update accounting_accounts" ON public.accounting_accounts
+FOR UPDATE USING (public.has_admin_role(auth.uid(), 'admin'::admin_role) OR public.has_admin_role(auth.uid(), 'super_admin'::admin_role));
+
+-- Exports are written by the export-accounting function (service role). Admins
+-- can delete one to export its items again.
+CREATE POLICY "Admins can view accounting_exports"
+ON public.accounting_exports
+FOR SELECT
+TO authenticated
+USING (is_admin(auth.uid()));
+
+CREATE POLICY "Deny public insert to accounting_exports"
+ON public.accounting_exports
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Deny public update to accounting_exports"
+ON public.accounting_exports
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Admins can delete accounting_exports" ON public.accounting_exports
+FOR DELETE USING (public.has_admin_role(auth.uid(), 'admin'::admin_role) OR public.has_admin_role(auth.uid(), 'super_admin'::admin_role));
+
+CREATE POLICY "Admins can view accounting_export_items"
+ON public.accounting_export_items
+FOR SELECT
+TO authenticated
+USING (is_admin(auth.uid()));
+
+CREATE POLICY "Deny public insert to accounting_export_items"
+ON public.accounting_export_items
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Deny public update to accounting_export_items"
+ON public.accounting_export_items
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Deny public delete to accounting_export_items"
+ON public.accounting_export_items
+FOR DELETE
+USING (false);
+
+CREATE TRIGGER update_accounting_accounts_updated_at
+BEFORE UPDATE ON public.accounting_accounts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
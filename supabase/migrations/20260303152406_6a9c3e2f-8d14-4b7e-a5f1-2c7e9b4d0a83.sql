@@ -0,0 +1,264 @@
+
+-- Procedure price quoted to a patient. The deposit paid through an enrollment
+-- is credited toward it, and the rest is owed before the procedure.
+CREATE TABLE public.patient_quotes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  patient_id UUID NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+  description TEXT NOT NULL CHECK (length(trim(description)) > 0),
+  amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+  currency TEXT NOT NULL DEFAULT 'usd',
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN (
+    'open',    -- Payments on the patient's new enrollments are credited to it
+    'closed',  -- Settled or superseded; stays on the ledger
+    'void'     -- Entered in error; dropped from the ledger
+  )),
+  created_by UUID,
+  created_by_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One quote at a time takes the patient's payments
+CREATE UNIQUE INDEX idx_patient_quotes_one_open ON public.patient_quotes(patient_id) WHERE status = 'open';
+
+-- Quote the enrollment's payments are credited toward
+ALTER TABLE public.enrollments
+ADD COLUMN quote_id UUID REFERENCES public.patient_quotes(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_enrollments_quote_id ON public.enrollments(quote_id);
+
+-- Credits and corrections entered by a coordinator. Rows are never edited: a
+-- mistake is reversed with another adjustment.
+CREATE TABLE public.patient_ledger_adjustments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  patient_id UUID NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+  quote_id UUID REFERENCES public.patient_quotes(id) ON DELETE SET NULL,
+  entry_type TEXT NOT NULL CHECK (entry_type IN (
+    'credit',     -- Courtesy or goodwill credit toward the balance
+    'adjustment'  -- Correction in either direction
+  )),
+  amount_cents INTEGER NOT NULL CHECK (amount_cents <> 0), -- Positive adds to what the patient owes
+  currency TEXT NOT NULL DEFAULT 'usd',
+  description TEXT NOT NULL CHECK (length(trim(description)) > 0),
+  created_by UUID,
+  created_by_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (entry_type <> 'credit' OR amount_cents < 0)
+);
+
+CREATE INDEX idx_patient_ledger_adjustments_patient_id ON public.patient_ledger_adjustments(patient_id);
+
+-- Statements issued from the dashboard, with the PDF as sent
+CREATE TABLE public.patient_statements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  patient_id UUID NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+  balance_cents INTEGER NOT NULL,
+  entry_count INTEGER NOT NULL,
+  pdf_path TEXT NOT NULL, -- Object path in the patient-statements bucket
+  issued_by UUID,
+  issued_by_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_patient_statements_patient_id ON public.patient_statements(patient_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.patient_quotes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.patient_ledger_adjustments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.patient_statements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view patient_quotes" ON public.patient_quotes
+FOR SELECT USING (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can insert patient_quotes" ON public.patient_quotes
+FOR INSERT WITH CHECK (public.has_admin_role(auth.uid(), 'admin'::admin_role) OR public.has_admin_role(auth.uid(), 'super_admin'::admin_role));
+
+CREATE POLICY "Admins can update patient_quotes" ON public.patient_quotes
+FOR UPDATE USING (public.has_admin_role(auth.uid(), 'admin'::admin_role) OR public.has_admin_role(auth.uid(), 'super_admin'::admin_role));
+
+CREATE POLICY "Deny public delete to patient_quotes"
+ON public.patient_quotes
+FOR DELETE
+USING (false);
+
+CREATE POLICY "Admins can view patient_ledger_adjustments" ON public.patient_ledger_adjustments
+FOR SELECT USING (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can insert patient_ledger_adjustments" ON public.patient_ledger_adjustments
+FOR INSERT WITH CHECK (public.has_admin_role(auth.uid(), 'admin'::admin_role) OR public.has_admin_role(auth.uid(), 'super_admin'::admin_role));
+
+CREATE POLICY "Deny public update to patient_ledger_adjustments"
+ON public.patient_ledger_adjustments
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Deny public delete to patient_ledger_adjustments"
+ON public.patient_ledger_adjustments
+FOR DELETE
+USING (false);
+
+-- Statements are written by the generate-patient-statement function (service role)
+CREATE POLICY "Admins can view patient_statements"
+ON public.patient_statements
+FOR SELECT
+TO authenticated
+USING (is_admin(auth.uid()));
+
+CREATE POLICY "Deny public insert to patient_statements"
+ON public.patient_statements
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Deny public update to patient_statements"
+ON public.patient_statements
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Deny public delete to patient_statements"
+ON public.patient_statements
+FOR DELETE
+USING (false);
+
+CREATE TRIGGER update_patient_quotes_updated_at
+BEFORE UPDATE ON public.patient_quotes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- New enrollments are credited toward the patient's open quote
+CREATE OR REPLACE FUNCTION public.apply_enrollment_to_open_quote()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.quote_id IS NULL AND NEW.patient_id IS NOT NULL THEN
+        SELECT id INTO NEW.quote_id
+        FROM public.patient_quotes
+        WHERE patient_id = NEW.patient_id AND status = 'open';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER apply_enrollment_to_open_quote_trigger
+BEFORE INSERT OR UPDATE OF patient_id ON public.enrollments
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_enrollment_to_open_quote();
+
+-- A deposit paid before the quote was recorded is credited toward it, and a
+-- voided quote releases its deposits to the next one
+CREATE OR REPLACE FUNCTION public.apply_open_quote_to_enrollments()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = 'open' THEN
+        UPDATE public.enrollments
+        SET quote_id = NEW.id
+        WHERE patient_id = NEW.patient_id AND quote_id IS NULL;
+    ELSIF NEW.status = 'void' THEN
+        UPDATE public.enrollments
+        SET quote_id = NULL
+        WHERE quote_id = NEW.id;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER apply_open_quote_to_enrollments_trigger
+AFTER INSERT OR UPDATE OF status ON public.patient_quotes
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_open_quote_to_enrollments();
+
+-- Every charge, payment, credit, refund and adjustment on a patient's account,
+-- oldest first, with the balance after each. A positive amount adds to what the
+-- patient owes. Payments are derived from the enrollment tables, so the ledger
+-- never drifts from what was collected. Reads run with the caller's access.
+CREATE VIEW public.patient_ledger
+WITH (security_invoker = true)
+AS
+WITH entries AS (
+  -- Quoted procedure price
+  SELECT q.patient_id, 'quote'::text AS source_type, q.id AS source_id, 'charge'::text AS entry_type,
+    q.created_at AS occurred_at, q.description, q.amount_cents, q.currency, NULL::uuid AS enrollment_id, q.id AS quote_id
+  FROM public.patient_quotes q
+  WHERE q.status <> 'void'
+
+  UNION ALL
+  SELECT a.patient_id, 'adjustment', a.id, a.entry_type,
+    a.created_at, a.description, a.amount_cents, a.currency, NULL, a.quote_id
+  FROM public.patient_ledger_adjustments a
+
+  -- One of several payments toward a split enrollment
+  UNION ALL
+  SELECT e.patient_id, 'enrollment_payment', p.id, 'deposit',
+    p.paid_at, upper(coalesce(p.payment_method_type::text, 'card')) || ' payment' || coalesce(' ending ' || p.last4, ''),
+    -p.amount_cents, p.currency, e.id, e.quote_id
+  FROM public.enrollment_payments p
+  JOIN public.enrollments e ON e.id = p.enrollment_id
+  WHERE p.status = 'succeeded'
+
+  -- Deposit and installments of a payment plan
+  UNION ALL
+  SELECT e.patient_id, 'installment', i.id, 'deposit',
+    i.paid_at, CASE WHEN i.sequence = 1 THEN 'Payment plan deposit' ELSE 'Installment ' || (i.sequence - 1) END,
+    -i.amount_cents, i.currency, e.id, e.quote_id
+  FROM public.enrollment_installments i
+  JOIN public.enrollments e ON e.id = i.enrollment_id
+  WHERE i.status = 'paid'
+
+  -- Checkout payment recorded on the enrollment itself
+  UNION ALL
+  SELECT e.patient_id, 'enrollment', e.id, 'deposit',
+    e.paid_at, upper(e.payment_method_type::text) || ' payment' || coalesce(' ending ' || e.token_last4, ''),
+    -e.amount_cents, coalesce(e.currency, 'usd'), e.id, e.quote_id
+  FROM public.enrollments e
+  WHERE e.status IN ('paid', 'partially_refunded', 'refunded', 'disputed')
+    AND e.payment_method_type IN ('card', 'ach')
+    AND e.paid_at IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM public.enrollment_payments p WHERE p.enrollment_id = e.id AND p.status IN ('succeeded', 'reversed'))
+    AND NOT EXISTS (SELECT 1 FROM public.enrollment_installments i WHERE i.enrollment_id = e.id)
+
+  UNION ALL
+  SELECT e.patient_id, 'offline_payment', o.id, 'deposit',
+    o.received_date::timestamptz, initcap(o.method::text) || ' payment' || coalesce(' ' || o.reference_number, ''),
+    -o.amount_cents, o.currency, e.id, e.quote_id
+  FROM public.enrollment_offline_payments o
+  JOIN public.enrollments e ON e.id = o.enrollment_id
+
+  UNION ALL
+  SELECT e.patient_id, 'refund', r.id, 'refund',
+    r.created_at, 'Refund' || coalesce(' (' || replace(r.reason::text, '_', ' ') || ')', ''),
+    r.amount_cents, r.currency, e.id, e.quote_id
+  FROM public.enrollment_refunds r
+  JOIN public.enrollments e ON e.id = r.enrollment_id
+  WHERE r.status = 'succeeded'
+
+  -- A lost chargeback takes the payment back like a refund
+  UNION ALL
+  SELECT e.patient_id, 'dispute', d.id, 'refund',
+    d.closed_at, 'Chargeback' || coalesce(' (' || replace(d.reason::text, '_', ' ') || ')', ''),
+    d.amount_cents, d.currency, e.id, e.quote_id
+  FROM public.enrollment_disputes d
+  JOIN public.enrollments e ON e.id = d.enrollment_id
+  WHERE d.status = 'lost' AND d.closed_at IS NOT NULL
+)
+SELECT entries.*,
+  SUM(amount_cents) OVER (PARTITION BY patient_id ORDER BY occurred_at, source_id) AS balance_cents
+FROM entries
+WHERE patient_id IS NOT NULL;
+
+-- Totals per patient for the patients list
+CREATE VIEW public.patient_balances
+WITH (security_invoker = true)
+AS
+SELECT patient_id,
+  SUM(amount_cents) AS balance_cents,
+  COALESCE(SUM(amount_cents) FILTER (WHERE entry_type = 'charge'), 0) AS charged_cents,
+  -COALESCE(SUM(amount_cents) FILTER (WHERE entry_type = 'deposit'), 0) AS paid_cents,
+  COALESCE(SUM(amount_cents) FILTER (WHERE entry_type = 'refund'), 0) AS refunded_cents
+FROM public.patient_ledger
+GROUP BY patient_id;
+
+-- Statement PDFs, written by the generate-patient-statement function
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('patient-statements', 'patient-statements', false);
+
+CREATE POLICY "Admins can view patient statements"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'patient-statements' AND public.is_admin(auth.uid()));
@@ -0,0 +1,39 @@
+
+-- Zoho access tokens shared by every edge function until they expire. Zoho
+-- issues only a few access tokens per refresh token every ten minutes, so
+-- functions reuse one rather than refreshing on each call.
+CREATE TABLE public.zoho_access_tokens (
+  datacenter TEXT NOT NULL PRIMARY KEY CHECK (datacenter IN ('us', 'eu', 'in', 'au')),
+  access_token TEXT NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.zoho_access_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Service role only: tokens are never readable from the dashboard
+CREATE POLICY "Deny public access to zoho_access_tokens"
+ON public.zoho_access_tokens
+FOR SELECT
+USING (false);
+
+CREATE POLICY "Deny public insert to zoho_access_tokens"
+ON public.zoho_access_tokens
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Deny public update to zoho_access_tokens"
+ON public.zoho_access_tokens
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Deny public delete to zoho_access_tokens"
+ON public.zoho_access_tokens
+FOR DELETE
+USING (false);
+
+CREATE TRIGGER update_zoho_access_tokens_updated_at
+BEFORE UPDATE ON public.zoho_access_tokens
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,120 @@
+
+-- Every CRM write, kept until Zoho has accepted it. Functions deliver a write
+-- straight away when nothing earlier for the record is outstanding; otherwise
+-- process-crm-sync delivers it with backoff. Writes to one Zoho record go out
+-- in the order they were queued, so a dead item holds back the record's later
+-- writes until staff retry or discard it.
+CREATE TABLE public.crm_sync_outbox (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  seq BIGINT GENERATED ALWAYS AS IDENTITY, -- Delivery order within a record
+  enrollment_id UUID REFERENCES public.enrollments(id) ON DELETE SET NULL,
+  zoho_module TEXT NOT NULL,
+  zoho_record_id TEXT NOT NULL,
+  operation TEXT NOT NULL CHECK (operation IN ('update_record', 'add_note')),
+  payload JSONB NOT NULL, -- Record fields, or { title, content } for a note
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'delivered', 'dead', 'discarded')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  last_error_code TEXT,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  dead_at TIMESTAMP WITH TIME ZONE,
+  resolved_at TIMESTAMP WITH TIME ZONE, -- Last retried or discarded from the dashboard
+  resolved_by UUID,
+  resolved_by_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.crm_sync_outbox ENABLE ROW LEVEL SECURITY;
+
+-- Admins can view the outbox; retries and edits go through manage-crm-sync-item
+CREATE POLICY "Admins can view crm_sync_outbox"
+ON public.crm_sync_outbox
+FOR SELECT
+TO authenticated
+USING (is_admin(auth.uid()));
+
+CREATE POLICY "Deny public insert to crm_sync_outbox"
+ON public.crm_sync_outbox
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Deny public update to crm_sync_outbox"
+ON public.crm_sync_outbox
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Deny public delete to crm_sync_outbox"
+ON public.crm_sync_outbox
+FOR DELETE
+USING (false);
+
+CREATE INDEX idx_crm_sync_outbox_record ON public.crm_sync_outbox(zoho_module, zoho_record_id, seq)
+WHERE status IN ('pending', 'processing', 'dead');
+CREATE INDEX idx_crm_sync_outbox_enrollment_id ON public.crm_sync_outbox(enrollment_id);
+CREATE INDEX idx_crm_sync_outbox_status ON public.crm_sync_outbox(status);
+
+CREATE TRIGGER update_crm_sync_outbox_updated_at
+BEFORE UPDATE ON public.crm_sync_outbox
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Claim items that are due and first in line for their record, marking them
+-- processing. With _item_id only that item is considered, so a function can
+-- deliver the write it just queued. Items left processing by a worker that
+-- died are claimed again after ten minutes.
+CREATE OR REPLACE FUNCTION public.claim_crm_sync_items(_limit INTEGER, _item_id UUID DEFAULT NULL)
+RETURNS SETOF public.crm_sync_outbox
+LANGUAGE sql
+SET search_path = public
+AS $$
+  WITH heads AS (
+    SELECT DISTINCT ON (zoho_module, zoho_record_id) id
+    FROM public.crm_sync_outbox
+    WHERE status IN ('pending', 'processing', 'dead')
+    ORDER BY zoho_module, zoho_record_id, seq
+  ), due AS (
+    SELECT outbox.id
+    FROM public.crm_sync_outbox outbox
+    JOIN heads ON heads.id = outbox.id
+    WHERE (_item_id IS NULL OR outbox.id = _item_id)
+    AND (
+      (outbox.status = 'pending' AND outbox.next_attempt_at <= now())
+      OR (outbox.status = 'processing' AND outbox.locked_at < now() - interval '10 minutes')
+    )
+    ORDER BY outbox.seq
+    LIMIT _limit
+    FOR UPDATE OF outbox SKIP LOCKED
+  )
+  UPDATE public.crm_sync_outbox outbox
+  SET status = 'processing',
+      locked_at = now(),
+      attempts = outbox.attempts + 1
+  FROM due
+  WHERE outbox.id = due.id
+  RETURNING outbox.*;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_crm_sync_items(INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Sync state of each enrollment's CRM writes, for the dashboard badge
+CREATE VIEW public.enrollment_crm_sync
+WITH (security_invoker = true)
+AS
+SELECT
+  enrollment_id,
+  CASE
+    WHEN count(*) FILTER (WHERE status = 'dead') > 0 THEN 'failed'
+    WHEN count(*) FILTER (WHERE status IN ('pending', 'processing')) > 0 THEN 'pending'
+    ELSE 'synced'
+  END AS sync_status,
+  count(*) FILTER (WHERE status IN ('pending', 'processing'))::INTEGER AS pending_count,
+  count(*) FILTER (WHERE status = 'dead')::INTEGER AS dead_count,
+  max(delivered_at) AS last_delivered_at
+FROM public.crm_sync_outbox
+WHERE enrollment_id IS NOT NULL
+AND status <> 'discarded'
+GROUP BY enrollment_id;
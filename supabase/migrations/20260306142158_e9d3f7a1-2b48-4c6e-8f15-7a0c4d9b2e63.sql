@@ -0,0 +1,67 @@
+
+-- Zoho API names for our canonical enrollment fields, per Zoho module. Only
+-- overrides are stored; a field without a row keeps its default name from
+-- _shared/zoho-fields.ts. sync_enabled = false leaves the field out of updates
+-- for modules that do not have it.
+CREATE TABLE public.zoho_field_mappings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  zoho_module TEXT NOT NULL,
+  canonical_field TEXT NOT NULL,
+  zoho_field TEXT NOT NULL CHECK (length(trim(zoho_field)) > 0),
+  sync_enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (zoho_module, canonical_field)
+);
+
+-- Picklist values for fields that carry one of our values: the enrollment
+-- status and the payment method
+CREATE TABLE public.zoho_value_mappings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  zoho_module TEXT NOT NULL,
+  canonical_field TEXT NOT NULL CHECK (canonical_field IN ('status', 'payment_method')),
+  canonical_value TEXT NOT NULL,
+  zoho_value TEXT NOT NULL CHECK (length(trim(zoho_value)) > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (zoho_module, canonical_field, canonical_value)
+);
+
+-- Enable RLS
+ALTER TABLE public.zoho_field_mappings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.zoho_value_mappings ENABLE ROW LEVEL SECURITY;
+
+-- Admins edit the mapping from the Zoho Sync tab; functions read it with the service role
+CREATE POLICY "Admins can view zoho_field_mappings" ON public.zoho_field_mappings
+FOR SELECT USING (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can insert zoho_field_mappings" ON public.zoho_field_mappings
+FOR INSERT WITH CHECK (public.has_admin_role(auth.uid(), 'admin'::admin_role) OR public.has_admin_role(auth.uid(), 'super_admin'::admin_role));
+
+CREATE POLICY "Admins can update zoho_field_mappings" ON public.zoho_field_mappings
+FOR UPDATE USING (public.has_admin_role(auth.uid(), 'admin'::admin_role) OR public.has_admin_role(auth.uid(), 'super_admin'::admin_role));
+
+CREATE POLICY "Admins can delete zoho_field_mappings" ON public.zoho_field_mappings
+FOR DELETE USING (public.has_admin_role(auth.uid(), 'admin'::admin_role) OR public.has_admin_role(auth.uid(), 'super_admin'::admin_role));
+
+CREATE POLICY "Admins can view zoho_value_mappings" ON public.zoho_value_mappings
+FOR SELECT USING (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can insert zoho_value_mappings" ON public.zoho_value_mappings
+FOR INSERT WITH CHECK (public.has_admin_role(auth.uid(), 'admin'::admin_role) OR public.has_admin_role(auth.uid(), 'super_admin'::admin_role));
+
+CREATE POLICY "Admins can update zoho_value_mappings" ON public.zoho_value_mappings
+FOR UPDATE USING (public.has_admin_role(auth.uid(), 'admin'::admin_role) OR public.has_admin_role(auth.uid(), 'super_admin'::admin_role));
+
+CREATE POLICY "Admins can delete zoho_value_mappings" ON public.zoho_value_mappings
+FOR DELETE USING (public.has_admin_role(auth.uid(), 'admin'::admin_role) OR public.has_admin_role(auth.uid(), 'super_admin'::admin_role));
+
+CREATE TRIGGER update_zoho_field_mappings_updated_at
+BEFORE UPDATE ON public.zoho_field_mappings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_zoho_value_mappings_updated_at
+BEFORE UPDATE ON public.zoho_value_mappings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,36 @@
+
+-- Enrollments canceled from Zoho when the deal is lost
+ALTER TABLE public.enrollments
+ADD COLUMN canceled_at TIMESTAMP WITH TIME ZONE;
+
+-- Signatures of inbound Zoho webhook calls already handled, so a captured
+-- request cannot be replayed while its timestamp is still accepted
+CREATE TABLE public.processed_zoho_webhooks (
+  signature TEXT PRIMARY KEY,
+  action TEXT NOT NULL,
+  enrollment_id UUID REFERENCES public.enrollments(id) ON DELETE SET NULL,
+  processed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.processed_zoho_webhooks ENABLE ROW LEVEL SECURITY;
+
+-- Only the zoho-webhook function (service role) reads and writes these
+CREATE POLICY "Deny public access to processed_zoho_webhooks"
+  ON public.processed_zoho_webhooks
+  FOR SELECT
+  USING (false);
+
+CREATE POLICY "Deny public insert to processed_zoho_webhooks"
+  ON public.processed_zoho_webhooks
+  FOR INSERT
+  WITH CHECK (false);
+
+CREATE POLICY "Deny public update to processed_zoho_webhooks"
+  ON public.processed_zoho_webhooks
+  FOR UPDATE
+  USING (false);
+
+CREATE POLICY "Deny public delete to processed_zoho_webhooks"
+  ON public.processed_zoho_webhooks
+  FOR DELETE
+  USING (false);
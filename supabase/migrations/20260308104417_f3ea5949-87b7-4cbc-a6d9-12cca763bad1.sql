@@ -0,0 +1,22 @@
+
+-- Consent PDF and payment receipt attached to the enrollment's Zoho record.
+-- Every generation is a new version; the enrollment points at the latest one.
+ALTER TABLE public.enrollments
+ADD COLUMN consent_pdf_version INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN receipt_pdf_path TEXT,
+ADD COLUMN receipt_pdf_version INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN zoho_consent_attachment_id TEXT,
+ADD COLUMN zoho_receipt_attachment_id TEXT;
+
+-- Consent PDFs generated before versioning are version 1
+UPDATE public.enrollments
+SET consent_pdf_version = 1
+WHERE consent_pdf_path IS NOT NULL;
+
+-- Attachments are uploaded through the CRM sync outbox
+ALTER TABLE public.crm_sync_outbox
+DROP CONSTRAINT crm_sync_outbox_operation_check;
+
+ALTER TABLE public.crm_sync_outbox
+ADD CONSTRAINT crm_sync_outbox_operation_check
+CHECK (operation IN ('update_record', 'add_note', 'upload_attachment'));
@@ -0,0 +1,34 @@
+
+-- Refunds are tracked per payment plan charge, so refunds of off-session
+-- installments count toward the plan like refunds of the deposit
+ALTER TABLE public.enrollment_installments
+ADD COLUMN refunded_cents INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.enrollment_refunds
+ADD COLUMN enrollment_installment_id UUID REFERENCES public.enrollment_installments(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_enrollment_refunds_installment ON public.enrollment_refunds(enrollment_installment_id);
+
+-- Refunds are matched to the deposit by its PaymentIntent, the checkout payment
+UPDATE public.enrollment_installments i
+SET stripe_payment_intent_id = e.stripe_payment_intent_id
+FROM public.enrollments e
+WHERE i.enrollment_id = e.id
+  AND i.sequence = 1
+  AND i.status = 'paid'
+  AND i.stripe_payment_intent_id IS NULL
+  AND e.stripe_payment_intent_id IS NOT NULL;
+
+-- Only deposit refunds were recorded until now
+UPDATE public.enrollment_installments i
+SET refunded_cents = e.refunded_amount_cents
+FROM public.enrollments e
+WHERE i.enrollment_id = e.id
+  AND i.sequence = 1
+  AND e.refunded_amount_cents > 0;
+
+UPDATE public.enrollment_refunds r
+SET enrollment_installment_id = i.id
+FROM public.enrollment_installments i
+WHERE i.enrollment_id = r.enrollment_id
+  AND i.sequence = 1;